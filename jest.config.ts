@@ -91,6 +91,8 @@ const config: Config = {
         '^@/hooks/(.*)$': '<rootDir>/src/hooks/$1',
         '^@/stores/(.*)$': '<rootDir>/src/stores/$1',
         '^@/pages/(.*)$': '<rootDir>/src/pages/$1',
+        '^@/services/(.*)$': '<rootDir>/src/services/$1',
+        '^@/config/(.*)$': '<rootDir>/src/config/$1',
     },
 
     // An array of regexp pattern strings, matched against all module paths before considered 'visible' to the module loader
@@ -1,20 +1,141 @@
+/**
+ * Service worker: offline app shell for the bot builder
+ *
+ * The build (scripts/rsbuild-plugin-service-worker.ts) replaces the placeholders below with the hashed
+ * bundles, Blockly media and Free Bots XML files to precache, and a version hashed from their content.
+ * A new version installs in the background and only takes over when the page asks it to, so a running
+ * bot is never reloaded underneath the user.
+ */
+
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST__ || [];
+const VERSION = self.__SW_VERSION__ || 'dev';
+const RUNTIME_CACHE_PREFIXES = self.__RUNTIME_CACHE_PREFIXES__ || [];
+
+const PRECACHE_PREFIX = 'trader-precache-';
+const PRECACHE = `${PRECACHE_PREFIX}${VERSION}`;
+const RUNTIME_CACHE = 'trader-runtime';
+const MAX_RUNTIME_ENTRIES = 200;
+const APP_SHELL = '/index.html';
+
+const toUrl = path => new URL(path, self.location.origin).href;
+const precachedUrls = new Set(PRECACHE_MANIFEST.map(toUrl));
+
 self.addEventListener('install', event => {
-    console.log('Service Worker installing.');
     event.waitUntil(
-        caches.open('pwa-cache-v1').then(cache => {
-            return cache.addAll(['/', '/index.html', '/styles.css', '/script.js']);
+        caches.open(PRECACHE).then(async cache => {
+            // The app shell is required; a missing optional file must not block the update
+            await cache.add(toUrl(APP_SHELL));
+            const results = await Promise.allSettled(
+                PRECACHE_MANIFEST.filter(path => path !== APP_SHELL).map(path => cache.add(toUrl(path)))
+            );
+            const failed = results.filter(result => result.status === 'rejected').length;
+            console.log(`👷 Service worker ${VERSION} installed, ${failed} of ${results.length} files not cached`);
         })
     );
 });
 
-self.addEventListener('fetch', event => {
-    event.respondWith(
-        caches.match(event.request).then(response => {
-            return response || fetch(event.request);
-        })
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches
+            .keys()
+            // Other caches on this origin are not ours to delete; only older versions of the precache go
+            .then(keys =>
+                Promise.all(
+                    keys
+                        .filter(key => key.startsWith(PRECACHE_PREFIX) && key !== PRECACHE)
+                        .map(key => caches.delete(key))
+                )
+            )
+            .then(trimRuntimeCache)
+            .then(() => self.clients.claim())
     );
 });
 
-self.addEventListener('activate', event => {
-    console.log('Service Worker activating.');
+self.addEventListener('message', event => {
+    if (event.data?.type === 'SKIP_WAITING') {
+        self.skipWaiting();
+    }
+});
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate' && url.origin === self.location.origin) {
+        event.respondWith(networkFirstAppShell(request));
+        return;
+    }
+
+    if (url.origin === self.location.origin) {
+        // Hashed bundles never change under the same name; everything else is refreshed in the background
+        const isHashed = url.pathname.startsWith('/static/');
+        event.respondWith(isHashed ? cacheFirst(request) : staleWhileRevalidate(request));
+        return;
+    }
+
+    if (RUNTIME_CACHE_PREFIXES.some(prefix => request.url.startsWith(prefix))) {
+        event.respondWith(staleWhileRevalidate(request));
+    }
 });
+
+/**
+ * Routes are client side: serve the latest index.html, or the cached one when offline
+ */
+async function networkFirstAppShell(request) {
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            const cache = await caches.open(PRECACHE);
+            cache.put(toUrl(APP_SHELL), response.clone());
+        }
+        return response;
+    } catch (error) {
+        const cached = await caches.match(toUrl(APP_SHELL));
+        if (cached) return cached;
+        throw error;
+    }
+}
+
+async function cacheFirst(request) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(RUNTIME_CACHE);
+        cache.put(request, response.clone()).then(trimRuntimeCache);
+    }
+    return response;
+}
+
+async function staleWhileRevalidate(request) {
+    const cacheName = precachedUrls.has(request.url) ? PRECACHE : RUNTIME_CACHE;
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(request);
+
+    const refresh = fetch(request)
+        .then(response => {
+            if (response.ok) {
+                const stored = cache.put(request, response.clone());
+                if (cacheName === RUNTIME_CACHE) stored.then(trimRuntimeCache);
+            }
+            return response;
+        })
+        .catch(error => {
+            if (cached) return cached;
+            throw error;
+        });
+
+    return cached || refresh;
+}
+
+/**
+ * Hashed bundles of every past version end up in the runtime cache; keep only the most recently stored ones
+ */
+async function trimRuntimeCache() {
+    const cache = await caches.open(RUNTIME_CACHE);
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_RUNTIME_ENTRIES)).map(key => cache.delete(key)));
+}
@@ -2,6 +2,7 @@ import { defineConfig } from '@rsbuild/core';
 import { pluginReact } from '@rsbuild/plugin-react';
 import { pluginSass } from '@rsbuild/plugin-sass';
 import { pluginBasicSsl } from '@rsbuild/plugin-basic-ssl';
+import { pluginServiceWorker } from './scripts/rsbuild-plugin-service-worker';
 
 const path = require('path');
 
@@ -15,6 +16,9 @@ export default defineConfig({
         }),
         pluginReact(),
         pluginBasicSsl(),
+        pluginServiceWorker({
+            runtimeCachePrefixes: [process.env.TRANSLATIONS_CDN_URL ?? ''],
+        }),
     ],
     performance: {
         chunkSplit: {
@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+/**
+ * Free Bots catalog generator
+ * Builds public/free-bots-catalog.json from scripts/free-bots.source.json and the bot XML files in public/
+ * Files under `excluded` in the source stay in public/ but are left out of the catalog
+ *
+ *   node scripts/generate-bot-catalog.js          regenerate the catalog
+ *   node scripts/generate-bot-catalog.js --check  fail if a bot is missing, corrupt or the catalog is stale
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const ROOT = path.join(__dirname, '..');
+const PUBLIC_DIR = path.join(ROOT, 'public');
+const SOURCE_PATH = path.join(__dirname, 'free-bots.source.json');
+const CATALOG_PATH = path.join(PUBLIC_DIR, 'free-bots-catalog.json');
+const CATALOG_VERSION = 1;
+
+const isCheck = process.argv.includes('--check');
+
+/**
+ * Tag balance check, enough to catch truncated or hand-mangled bot files
+ */
+function findXmlError(xml) {
+    const body = xml
+        .replace(/<\?[\s\S]*?\?>/g, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '');
+    const tagPattern = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+    const stack = [];
+    let match;
+
+    while ((match = tagPattern.exec(body))) {
+        const [, closing, name, , selfClosing] = match;
+        if (selfClosing) continue;
+        if (!closing) {
+            stack.push(name);
+        } else if (stack.pop() !== name) {
+            return `Unexpected closing tag </${name}>`;
+        }
+    }
+
+    if (stack.length) return `Unclosed tag <${stack[stack.length - 1]}>`;
+    if (!/^\s*<xml[\s>]/.test(body)) return 'Missing <xml> root element';
+    if (!/type="trade(_definition)?"/.test(body)) return 'No trade definition block';
+    return null;
+}
+
+function fieldValues(xml, field) {
+    const values = [];
+    const pattern = new RegExp(`<field name="${field}">([^<]+)</field>`, 'g');
+    let match;
+    while ((match = pattern.exec(xml))) {
+        if (!values.includes(match[1])) values.push(match[1]);
+    }
+    return values;
+}
+
+/**
+ * Numbers assigned to variables by `set` blocks, e.g. { 'Initial Stake': 0.35 }
+ */
+function variableDefaults(xml) {
+    const defaults = {};
+    const pattern =
+        /<field name="VAR"[^>]*>([^<]+)<\/field>\s*<value name="VALUE">\s*<block type="math_number"[^>]*>\s*<field name="NUM">([^<]+)<\/field>/g;
+    let match;
+    while ((match = pattern.exec(xml))) {
+        const value = parseFloat(match[2]);
+        if (!(match[1] in defaults) && Number.isFinite(value)) defaults[match[1]] = value;
+    }
+    return defaults;
+}
+
+function pickDefault(defaults, patterns) {
+    for (const pattern of patterns) {
+        const name = Object.keys(defaults).find(key => pattern.test(key.trim()));
+        if (name) return defaults[name];
+    }
+    return null;
+}
+
+function displayName(file) {
+    return file
+        .replace(/\.xml$/i, '')
+        .replace(/(\s*\(\d+\))+$/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function buildEntry(source) {
+    const filePath = path.join(PUBLIC_DIR, source.file);
+    if (!fs.existsSync(filePath)) {
+        return { error: `${source.file}: file not found in public/` };
+    }
+
+    // Hash the raw bytes, which is what the app downloads
+    const content = fs.readFileSync(filePath);
+    const xml = content.toString('utf8');
+    const xmlError = findXmlError(xml);
+    if (xmlError) {
+        return { error: `${source.file}: ${xmlError}` };
+    }
+
+    const defaults = variableDefaults(xml);
+    return {
+        entry: {
+            file: source.file,
+            name: source.name || displayName(source.file),
+            category: source.category,
+            author: source.author || 'Community',
+            version: source.version || '1.0.0',
+            contractTypes: fieldValues(xml, 'PURCHASE_LIST'),
+            tradeTypes: fieldValues(xml, 'TRADETYPE_LIST'),
+            markets: fieldValues(xml, 'SYMBOL_LIST'),
+            defaultStake: pickDefault(defaults, [/^initial stake$/i, /^stake$/i, /stake/i]),
+            martingale: pickDefault(defaults, [/^martingale( multiplier)?$/i, /martin?gale|martangle/i, /multiplier/i]),
+            size: content.length,
+            checksum: `sha256-${crypto.createHash('sha256').update(content).digest('hex')}`,
+        },
+    };
+}
+
+function main() {
+    const source = JSON.parse(fs.readFileSync(SOURCE_PATH, 'utf8'));
+    const results = source.bots.map(buildEntry);
+    const errors = results.filter(result => result.error).map(result => result.error);
+    const bots = results.filter(result => result.entry).map(result => result.entry);
+
+    const listed = new Set([...source.bots, ...(source.excluded || [])].map(bot => bot.file));
+    fs.readdirSync(PUBLIC_DIR)
+        .filter(file => file.endsWith('.xml') && !listed.has(file))
+        .forEach(file => console.warn(`⚠️ ${file} is in public/ but not listed in free-bots.source.json`));
+
+    if (errors.length) {
+        errors.forEach(error => console.error(`❌ ${error}`));
+        console.error(`❌ Free Bots catalog has ${errors.length} invalid bot(s)`);
+        process.exit(1);
+    }
+
+    const catalog = { version: CATALOG_VERSION, bots };
+
+    if (isCheck) {
+        // Compare content rather than text so reformatting the file does not count as stale
+        const current = fs.existsSync(CATALOG_PATH) ? JSON.parse(fs.readFileSync(CATALOG_PATH, 'utf8')) : null;
+        if (JSON.stringify(current) !== JSON.stringify(catalog)) {
+            console.error('❌ public/free-bots-catalog.json is out of date, run `npm run bots:catalog`');
+            process.exit(1);
+        }
+        console.log(`✅ Free Bots catalog is up to date (${bots.length} bots)`);
+        return;
+    }
+
+    fs.writeFileSync(CATALOG_PATH, JSON.stringify(catalog, null, 4) + '\n');
+    console.log(`✅ Wrote ${bots.length} bots to public/free-bots-catalog.json`);
+}
+
+main();
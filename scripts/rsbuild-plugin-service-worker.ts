@@ -0,0 +1,62 @@
+/**
+ * Rsbuild plugin: fills the precache manifest of public/service-worker.js from the build output
+ *
+ * The service worker source ships placeholders; this plugin replaces them with the hashed bundles,
+ * Blockly media, Free Bots XML files and a version hashed from their content, so every deploy that
+ * changes a cached file produces a new service worker and a new cache.
+ */
+
+import { createHash } from 'crypto';
+import type { RsbuildPlugin } from '@rsbuild/core';
+
+const SERVICE_WORKER = 'service-worker.js';
+
+const PRECACHE_PATTERNS = [
+    /^index\.html$/,
+    /^manifest\.json$/,
+    /^static\/(js|css|font|svg|image)\//, // hashed app bundles
+    /^assets\/media\//, // Blockly media
+    /^[^/]+\.xml$/, // Free Bots
+    /^free-bots-catalog\.json$/,
+];
+
+const EXCLUDE_PATTERNS = [/\.map$/, /\.LICENSE\.txt$/, /\.gz$/];
+
+type ServiceWorkerPluginOptions = {
+    // Cross-origin URL prefixes the service worker caches as they are fetched, e.g. the translations CDN
+    runtimeCachePrefixes?: string[];
+};
+
+export const pluginServiceWorker = ({ runtimeCachePrefixes = [] }: ServiceWorkerPluginOptions = {}): RsbuildPlugin => ({
+    name: 'trader:service-worker',
+
+    setup(api) {
+        // After content hashes are final and every copied / generated file is in the compilation
+        api.processAssets({ stage: 'optimize-transfer', targets: ['web'] }, ({ assets, compilation, sources }) => {
+            const serviceWorker = assets[SERVICE_WORKER];
+            if (!serviceWorker) return;
+
+            const precache = Object.keys(assets)
+                .filter(name => PRECACHE_PATTERNS.some(pattern => pattern.test(name)))
+                .filter(name => !EXCLUDE_PATTERNS.some(pattern => pattern.test(name)))
+                .sort();
+
+            const hash = createHash('sha256');
+            precache.forEach(name => hash.update(name).update(assets[name].buffer()));
+            const version = hash.digest('hex').slice(0, 12);
+
+            const source = serviceWorker
+                .source()
+                .toString()
+                .replace('self.__PRECACHE_MANIFEST__', JSON.stringify(precache.map(name => `/${name}`)))
+                .replace('self.__SW_VERSION__', JSON.stringify(version))
+                .replace(
+                    'self.__RUNTIME_CACHE_PREFIXES__',
+                    JSON.stringify(runtimeCachePrefixes.filter(prefix => /^https?:\/\//.test(prefix)))
+                );
+
+            compilation.updateAsset(SERVICE_WORKER, new sources.RawSource(source));
+            console.log(`👷 Service worker ${version}: ${precache.length} files precached`);
+        });
+    },
+});
@@ -1,13 +1,16 @@
 import { initSurvicate } from '../public-path';
 import { lazy, Suspense, useEffect } from 'react';
 import { createBrowserRouter, createRoutesFromElements, Route, RouterProvider } from 'react-router-dom';
+import AppUpdateBanner from '@/components/app-update-banner';
 import ChunkLoader from '@/components/loader/chunk-loader';
+import ReplayIndicator from '@/components/replay-indicator';
 import RoutePromptDialog from '@/components/route-prompt-dialog';
 import { StoreProvider } from '@/hooks/useStore';
 import CallbackPage from '@/pages/callback';
 import Endpoint from '@/pages/endpoint';
 import { analyticsManager } from '@/services/analytics-manager.service';
 import { masterTradeIntegrationService } from '@/services/master-trade-integration.service';
+import { serviceWorkerService } from '@/services/service-worker.service';
 import { TAuthData } from '@/types/api-types';
 import { initAntiInspect } from '@/utils/anti-inspect';
 import { delayedLazy } from '@/utils/delayed-lazy';
@@ -89,6 +92,8 @@ const router = createBrowserRouter(
                     <TranslationProvider defaultLang='EN' i18nInstance={i18nInstance}>
                         <StoreProvider>
                             <RoutePromptDialog />
+                            <AppUpdateBanner />
+                            <ReplayIndicator />
                             <CoreStoreProvider>
                                 <Layout />
                             </CoreStoreProvider>
@@ -221,20 +226,9 @@ function App() {
         }
     }, []);
 
-    // ✅ Register the service worker (for PWA support)
+    // ✅ Register the service worker (offline bot builder and update prompt)
     useEffect(() => {
-        if ('serviceWorker' in navigator) {
-            window.addEventListener('load', () => {
-                navigator.serviceWorker
-                    .register('/service-worker.js')
-                    .then(registration => {
-                        console.log('Service Worker registered with scope:', registration.scope);
-                    })
-                    .catch(error => {
-                        console.log('Service Worker registration failed:', error);
-                    });
-            });
-        }
+        serviceWorkerService.register();
     }, []);
 
     return (
@@ -22,6 +22,7 @@ import { localize } from '@deriv-com/translations';
 import Audio from '../components/audio';
 import BlocklyLoading from '../components/blockly-loading';
 import BotStopped from '../components/bot-stopped';
+import BotXmlPreviewDialog from '../components/bot-xml-preview';
 import BotBuilder from '../pages/bot-builder';
 import Main from '../pages/main';
 import './app.scss';
@@ -189,6 +190,7 @@ const AppContent = observer(() => {
                     <Main />
                     <BotBuilder />
                     <BotStopped />
+                    <BotXmlPreviewDialog />
                     <TransactionDetailsModal />
                     <ToastContainer limit={3} draggable={false} />
                     <TncStatusUpdateModal />
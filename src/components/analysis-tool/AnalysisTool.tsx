@@ -1,6 +1,8 @@
 import React, { lazy, Suspense, useEffect, useState } from 'react';
+import { DBOT_TABS } from '@/constants/bot-contents';
 import { useTickPointer } from '@/hooks/useTickPointer';
 import { analysisAIService } from '@/services/analysis-ai.service';
+import { appEventBus } from '@/services/app-event-bus.service';
 import { patelBotLoaderService } from '@/services/patel-bot-loader.service';
 import './AnalysisTool.scss';
 
@@ -729,8 +731,11 @@ export const AnalysisTool: React.FC = () => {
                                     <MetatronAnalysisTool
                                         onNavigateToFreeBots={() => {
                                             // Navigate to Free Bots tab in main navigation
-                                            const event = new CustomEvent('switch.tab', { detail: { tab: 10 } });
-                                            window.dispatchEvent(event);
+                                            appEventBus.publish(
+                                                'switch.tab',
+                                                { tab: DBOT_TABS.FREE_BOTS },
+                                                'AnalysisTool'
+                                            );
                                         }}
                                     />
                                 </Suspense>
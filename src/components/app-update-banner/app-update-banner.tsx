@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import Button from '@/components/shared_ui/button';
+import Text from '@/components/shared_ui/text';
+import { serviceWorkerService, ServiceWorkerState } from '@/services/service-worker.service';
+import { Localize, localize } from '@deriv-com/translations';
+
+/**
+ * Prompt shown when a new version of the app has been downloaded in the background
+ */
+const AppUpdateBanner = () => {
+    const [state, setState] = useState<ServiceWorkerState>(() => serviceWorkerService.getState());
+    const [is_dismissed, setIsDismissed] = useState(false);
+
+    useEffect(() => serviceWorkerService.subscribe(setState), []);
+
+    if (state.status !== 'UPDATE_AVAILABLE' || is_dismissed) return null;
+
+    return (
+        <div className='app-update-banner' role='status' data-testid='dt_app_update_banner'>
+            <Text as='p' size='xs' className='app-update-banner__message'>
+                <Localize i18n_default_text='A new version of the app is available. Reload to update; your saved bots are kept.' />
+            </Text>
+            <div className='app-update-banner__actions'>
+                <Button text={localize('Later')} onClick={() => setIsDismissed(true)} secondary small />
+                <Button text={localize('Reload')} onClick={() => serviceWorkerService.applyUpdate()} primary small />
+            </div>
+        </div>
+    );
+};
+
+export default AppUpdateBanner;
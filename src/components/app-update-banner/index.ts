@@ -0,0 +1,4 @@
+import AppUpdateBanner from './app-update-banner';
+import './app-update-banner.scss';
+
+export default AppUpdateBanner;
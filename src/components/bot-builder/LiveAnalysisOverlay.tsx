@@ -53,31 +53,36 @@ export const LiveAnalysisOverlay: React.FC<LiveAnalysisOverlayProps> = ({
             try {
                 console.log(`🔄 Bot Builder: Subscribing to ${market} ticks...`);
 
-                const unsub = await derivConnectionPool.subscribeToTicks(market, (tickData: any) => {
-                    if (tickData?.tick?.quote && tickData?.tick?.epoch) {
-                        const newTick: TickData = {
-                            quote: tickData.tick.quote,
-                            epoch: tickData.tick.epoch,
-                            digit: Math.floor((tickData.tick.quote * 100) % 10),
-                        };
+                const unsub = await derivConnectionPool.subscribeToTicks(
+                    market,
+                    (tickData: any) => {
+                        if (tickData?.tick?.quote && tickData?.tick?.epoch) {
+                            const newTick: TickData = {
+                                quote: tickData.tick.quote,
+                                epoch: tickData.tick.epoch,
+                                digit: Math.floor((tickData.tick.quote * 100) % 10),
+                            };
 
-                        setLiveTicks(prevTicks => {
-                            const updatedTicks = [...prevTicks, newTick];
+                            setLiveTicks(prevTicks => {
+                                const updatedTicks = [...prevTicks, newTick];
 
-                            // Add direction based on previous tick
-                            if (updatedTicks.length > 1) {
-                                const current = updatedTicks[updatedTicks.length - 1];
-                                const previous = updatedTicks[updatedTicks.length - 2];
-                                if (current && previous) {
-                                    current.direction = current.quote > previous.quote ? 'RISE' : 'FALL';
+                                // Add direction based on previous tick
+                                if (updatedTicks.length > 1) {
+                                    const current = updatedTicks[updatedTicks.length - 1];
+                                    const previous = updatedTicks[updatedTicks.length - 2];
+                                    if (current && previous) {
+                                        current.direction = current.quote > previous.quote ? 'RISE' : 'FALL';
+                                    }
                                 }
-                            }
 
-                            // Keep only the last 30 ticks for performance
-                            return updatedTicks.slice(-30);
-                        });
-                    }
-                });
+                                // Keep only the last 30 ticks for performance
+                                return updatedTicks.slice(-30);
+                            });
+                        }
+                    },
+                    undefined,
+                    { replay: 30 }
+                );
 
                 unsubscribe = unsub;
                 console.log(`✅ Bot Builder: Successfully subscribed to ${market}`);
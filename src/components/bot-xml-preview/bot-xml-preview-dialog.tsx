@@ -0,0 +1,87 @@
+import React from 'react';
+import Checkbox from '@/components/shared_ui/checkbox';
+import Text from '@/components/shared_ui/text';
+import { appEventBus } from '@/services/app-event-bus.service';
+import { botXmlPatcher } from '@/services/bot-xml-patcher.service';
+import type { BotXmlPreviewEvent } from '@/types/app-events.types';
+import { localize } from '@deriv-com/translations';
+import Dialog from '../shared_ui/dialog';
+import './bot-xml-preview-dialog.scss';
+
+const BotXmlPreviewDialog = () => {
+    // Loaders can request previews back to back; they are answered in order
+    const [requests, setRequests] = React.useState<BotXmlPreviewEvent[]>([]);
+    const [skipPreview, setSkipPreview] = React.useState(false);
+    const request = requests[0];
+
+    React.useEffect(
+        () =>
+            appEventBus.subscribe(
+                'bot.xml.preview',
+                preview => setRequests(current => [...current, preview]),
+                'BotXmlPreviewDialog'
+            ),
+        []
+    );
+
+    const respond = (approved: boolean) => {
+        if (!request) return;
+        if (approved && skipPreview) botXmlPatcher.setPreviewEnabled(false);
+        request.respond(approved);
+        setRequests(current => current.slice(1));
+    };
+
+    return (
+        <Dialog
+            title={localize('Review bot changes')}
+            confirm_button_text={localize('Load bot')}
+            cancel_button_text={localize('Cancel')}
+            onConfirm={() => respond(true)}
+            onCancel={() => respond(false)}
+            onClose={() => respond(false)}
+            onEscapeButtonCancel={() => respond(false)}
+            is_visible={!!request}
+            className='bot-xml-preview'
+        >
+            {request && (
+                <>
+                    <Text as='p' size='xs' className='bot-xml-preview__subtitle'>
+                        {localize('{{botName}} will be loaded with these values:', { botName: request.botName })}
+                    </Text>
+                    <table className='bot-xml-preview__table'>
+                        <thead>
+                            <tr>
+                                <th>{localize('Parameter')}</th>
+                                <th>{localize('Before')}</th>
+                                <th>{localize('After')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {request.changes.map((change, index) => (
+                                <tr key={`${change.blockId}-${change.field}-${index}`}>
+                                    <td>
+                                        {change.variable ?? change.field}
+                                        <div className='bot-xml-preview__block'>
+                                            {change.blockType}
+                                            {change.blockId ? ` #${change.blockId}` : ''}
+                                        </div>
+                                    </td>
+                                    <td className='bot-xml-preview__before'>{change.before}</td>
+                                    <td className='bot-xml-preview__after'>{change.after}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <Checkbox
+                        className='bot-xml-preview__skip'
+                        label={localize("Don't ask again")}
+                        value={skipPreview}
+                        onChange={() => setSkipPreview(!skipPreview)}
+                    />
+                </>
+            )}
+        </Dialog>
+    );
+};
+
+export default BotXmlPreviewDialog;
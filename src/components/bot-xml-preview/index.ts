@@ -0,0 +1,3 @@
+import BotXmlPreviewDialog from './bot-xml-preview-dialog';
+
+export default BotXmlPreviewDialog;
@@ -1,6 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { copyTradingService } from '@/services/copy-trading.service';
-import type { CopyTrader } from '@/types/copy-trading.types';
+import { tokenVaultService } from '@/services/token-vault.service';
+import type { NewCopyTrader } from '@/types/copy-trading.types';
+import { TokenVaultPanel } from './TokenVaultPanel';
 import './AddCopyTraderModal.scss';
 
 interface AddCopyTraderModalProps {
@@ -40,6 +42,9 @@ export const AddCopyTraderModal: React.FC<AddCopyTraderModalProps> = ({ onClose,
     } | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [isVaultUnlocked, setIsVaultUnlocked] = useState(tokenVaultService.isUnlocked());
+
+    useEffect(() => tokenVaultService.subscribe(status => setIsVaultUnlocked(status.unlocked)), []);
 
     const availableMarkets = [
         'R_10',
@@ -132,16 +137,7 @@ export const AddCopyTraderModal: React.FC<AddCopyTraderModalProps> = ({ onClose,
         setError(null);
 
         try {
-            const traderData: Omit<
-                CopyTrader,
-                | 'id'
-                | 'createdAt'
-                | 'totalTrades'
-                | 'winningTrades'
-                | 'totalProfit'
-                | 'currentDrawdown'
-                | 'connectionStatus'
-            > = {
+            const traderData: NewCopyTrader = {
                 name: formData.name.trim(),
                 email: formData.email.trim() || undefined,
                 apiToken: formData.apiToken.trim(),
@@ -214,6 +210,8 @@ export const AddCopyTraderModal: React.FC<AddCopyTraderModalProps> = ({ onClose,
                     <div className='form-section'>
                         <h3>🔐 API Configuration</h3>
 
+                        <TokenVaultPanel />
+
                         <div className='form-group'>
                             <label>Deriv API Token *</label>
                             <div className='token-input-group'>
@@ -412,7 +410,9 @@ export const AddCopyTraderModal: React.FC<AddCopyTraderModalProps> = ({ onClose,
                         <button
                             type='submit'
                             className='btn btn-primary'
-                            disabled={isSubmitting || !validationResult?.isValid || !formData.name.trim()}
+                            disabled={
+                                isSubmitting || !validationResult?.isValid || !formData.name.trim() || !isVaultUnlocked
+                            }
                         >
                             {isSubmitting ? '⏳ Adding...' : '✅ Add Copy Trader'}
                         </button>
@@ -136,7 +136,7 @@ export const CopyTraderCard: React.FC<CopyTraderCardProps> = ({ trader, stats, o
                         <div className='detail-grid'>
                             <div className='detail-item'>
                                 <span className='label'>API Token:</span>
-                                <span className='value'>***{trader.apiToken.slice(-6)}</span>
+                                <span className='value'>***{trader.tokenHint ?? trader.apiToken?.slice(-6)}</span>
                             </div>
                             <div className='detail-item'>
                                 <span className='label'>Last Activity:</span>
@@ -3,8 +3,10 @@ import { copyTradingService } from '@/services/copy-trading.service';
 import type { CopyTrader, CopyTradingNotification, CopyTradingStats } from '@/types/copy-trading.types';
 import { AddCopyTraderModal } from './AddCopyTraderModal';
 import { CopyTraderCard } from './CopyTraderCard';
+import { CopyTradingLedger } from './CopyTradingLedger';
 import { CopyTradingSettings } from './CopyTradingSettings';
 import { CopyTradingStats as StatsComponent } from './CopyTradingStats';
+import { TokenVaultPanel } from './TokenVaultPanel';
 import './CopyTradingDashboard.scss';
 
 // Professional SVG Icons
@@ -111,7 +113,9 @@ export const CopyTradingDashboard: React.FC = () => {
     const [showAddModal, setShowAddModal] = useState(false);
     const [showSettings, setShowSettings] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
-    const [activeTab, setActiveTab] = useState<'traders' | 'stats' | 'notifications' | 'settings'>('traders');
+    const [activeTab, setActiveTab] = useState<'traders' | 'stats' | 'ledger' | 'notifications' | 'settings'>(
+        'traders'
+    );
 
     // Initialize copy trading service
     useEffect(() => {
@@ -194,6 +198,8 @@ export const CopyTradingDashboard: React.FC = () => {
                 </div>
             </div>
 
+            <TokenVaultPanel />
+
             {/* Quick Stats */}
             {stats && (
                 <div className='quick-stats'>
@@ -250,6 +256,12 @@ export const CopyTradingDashboard: React.FC = () => {
                 >
                     <StatsIcon /> Statistics
                 </button>
+                <button
+                    className={`tab ${activeTab === 'ledger' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('ledger')}
+                >
+                    🧾 Ledger
+                </button>
                 <button
                     className={`tab ${activeTab === 'notifications' ? 'active' : ''}`}
                     onClick={() => setActiveTab('notifications')}
@@ -295,6 +307,8 @@ export const CopyTradingDashboard: React.FC = () => {
 
                 {activeTab === 'stats' && stats && <StatsComponent stats={stats} />}
 
+                {activeTab === 'ledger' && <CopyTradingLedger traders={copyTraders} onReconciled={loadData} />}
+
                 {activeTab === 'notifications' && (
                     <div className='notifications-tab'>
                         {notifications.length === 0 ? (
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { copyTradingService } from '@/services/copy-trading.service';
+import { copyTradingReconciliationService } from '@/services/copy-trading-reconciliation.service';
+import type { CopyLedgerEntry, CopyLedgerStatus, CopyTrader, ReconciliationReport } from '@/types/copy-trading.types';
+import './CopyTradingLedger.scss';
+
+interface CopyTradingLedgerProps {
+    traders: CopyTrader[];
+    onReconciled: () => void;
+}
+
+const STATUSES: CopyLedgerStatus[] = ['MATCHED', 'OPEN', 'MISSED', 'DUPLICATE', 'MISMATCH', 'UNLINKED'];
+
+const formatTime = (timestamp?: number) => (timestamp ? new Date(timestamp).toLocaleString() : '-');
+
+const formatAmount = (amount?: number) => (amount === undefined ? '-' : amount.toFixed(2));
+
+export const CopyTradingLedger: React.FC<CopyTradingLedgerProps> = ({ traders, onReconciled }) => {
+    const [traderId, setTraderId] = useState(traders[0]?.id ?? '');
+    const [entries, setEntries] = useState<CopyLedgerEntry[]>([]);
+    const [report, setReport] = useState<ReconciliationReport | undefined>();
+    const [statusFilter, setStatusFilter] = useState<CopyLedgerStatus | 'ALL'>('ALL');
+    const [isReconciling, setIsReconciling] = useState(false);
+    const [intervalMinutes, setIntervalMinutes] = useState(
+        copyTradingService.getSettings().reconciliationIntervalMinutes
+    );
+
+    useEffect(() => {
+        if (!traders.some(trader => trader.id === traderId)) {
+            setTraderId(traders[0]?.id ?? '');
+        }
+    }, [traders, traderId]);
+
+    useEffect(() => {
+        setEntries(copyTradingReconciliationService.getLedger(traderId));
+        setReport(copyTradingReconciliationService.getLastReport(traderId));
+    }, [traderId]);
+
+    const handleReconcile = async () => {
+        setIsReconciling(true);
+        const result = await copyTradingService.reconcileCopyTrader(traderId);
+        setReport(result);
+        setEntries(copyTradingReconciliationService.getLedger(traderId));
+        setIsReconciling(false);
+        onReconciled();
+    };
+
+    const handleExport = (format: 'csv' | 'json') => {
+        const content = copyTradingReconciliationService.exportLedger(traderId, format);
+        const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        const name = traders.find(trader => trader.id === traderId)?.name ?? traderId;
+        link.href = url;
+        link.download = `copy-ledger-${name.replace(/\W+/g, '-')}-${new Date().toISOString().slice(0, 10)}.${format}`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleIntervalChange = (minutes: number) => {
+        setIntervalMinutes(minutes);
+        copyTradingService.updateSettings({ reconciliationIntervalMinutes: minutes });
+    };
+
+    if (traders.length === 0) {
+        return (
+            <div className='copy-trading-ledger empty-state'>
+                <h3>No Followers</h3>
+                <p>Add a copy trader to build its audit ledger</p>
+            </div>
+        );
+    }
+
+    const visibleEntries = statusFilter === 'ALL' ? entries : entries.filter(entry => entry.status === statusFilter);
+
+    return (
+        <div className='copy-trading-ledger'>
+            <div className='ledger-toolbar'>
+                <select value={traderId} onChange={e => setTraderId(e.target.value)}>
+                    {traders.map(trader => (
+                        <option key={trader.id} value={trader.id}>
+                            {trader.name}
+                        </option>
+                    ))}
+                </select>
+                <button className='btn btn-primary' onClick={handleReconcile} disabled={isReconciling}>
+                    {isReconciling ? '⏳ Reconciling...' : '🧾 Reconcile Now'}
+                </button>
+                <label className='ledger-interval'>
+                    Auto-reconcile
+                    <select value={intervalMinutes} onChange={e => handleIntervalChange(parseInt(e.target.value))}>
+                        {[5, 10, 30, 60].map(minutes => (
+                            <option key={minutes} value={minutes}>
+                                every {minutes} min
+                            </option>
+                        ))}
+                        <option value={0}>Off</option>
+                    </select>
+                </label>
+                <div className='ledger-export'>
+                    <button
+                        className='btn btn-secondary'
+                        onClick={() => handleExport('csv')}
+                        disabled={!entries.length}
+                    >
+                        Export CSV
+                    </button>
+                    <button
+                        className='btn btn-secondary'
+                        onClick={() => handleExport('json')}
+                        disabled={!entries.length}
+                    >
+                        Export JSON
+                    </button>
+                </div>
+            </div>
+
+            {report && (
+                <div className='ledger-report'>
+                    {report.error ? (
+                        <span className='ledger-error'>❌ {report.error}</span>
+                    ) : (
+                        <span>
+                            Last reconciled {formatTime(report.reconciledAt)} · booked profit $
+                            {report.bookedProfit.toFixed(2)}
+                        </span>
+                    )}
+                </div>
+            )}
+
+            <div className='ledger-counts'>
+                <button
+                    className={`status-chip ${statusFilter === 'ALL' ? 'active' : ''}`}
+                    onClick={() => setStatusFilter('ALL')}
+                >
+                    All ({entries.length})
+                </button>
+                {STATUSES.map(status => (
+                    <button
+                        key={status}
+                        className={`status-chip ${status.toLowerCase()} ${statusFilter === status ? 'active' : ''}`}
+                        onClick={() => setStatusFilter(status)}
+                    >
+                        {status} ({entries.filter(entry => entry.status === status).length})
+                    </button>
+                ))}
+            </div>
+
+            {visibleEntries.length === 0 ? (
+                <div className='empty-state'>
+                    <p>No ledger entries yet. Run a reconciliation to compare copies with the follower statement.</p>
+                </div>
+            ) : (
+                <div className='ledger-table-wrapper'>
+                    <table className='ledger-table'>
+                        <thead>
+                            <tr>
+                                <th>Status</th>
+                                <th>Copied</th>
+                                <th>Master Trade</th>
+                                <th>Contract</th>
+                                <th>Market</th>
+                                <th>Expected</th>
+                                <th>Booked</th>
+                                <th>Profit</th>
+                                <th>Issues</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleEntries.map(entry => (
+                                <tr key={entry.id} className={entry.status.toLowerCase()}>
+                                    <td>
+                                        <span className={`status-chip ${entry.status.toLowerCase()}`}>
+                                            {entry.status}
+                                        </span>
+                                    </td>
+                                    <td>{formatTime(entry.executedAt ?? entry.purchaseTime)}</td>
+                                    <td>{entry.masterTradeId ?? '-'}</td>
+                                    <td>{entry.contractId ?? '-'}</td>
+                                    <td>
+                                        {entry.market ?? '-'} {entry.contractType ?? ''}
+                                    </td>
+                                    <td>{formatAmount(entry.expectedStake)}</td>
+                                    <td>{formatAmount(entry.bookedStake)}</td>
+                                    <td className={entry.profit !== undefined && entry.profit < 0 ? 'loss' : 'profit'}>
+                                        {formatAmount(entry.profit)}
+                                    </td>
+                                    <td className='issues'>{entry.issues.join('; ')}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { tokenVaultService, type TokenVaultStatus } from '@/services/token-vault.service';
+import './TokenVaultPanel.scss';
+
+export const TokenVaultPanel: React.FC = () => {
+    const [status, setStatus] = useState<TokenVaultStatus>(tokenVaultService.getStatus());
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => tokenVaultService.subscribe(setStatus), []);
+
+    const handleSubmit = async (e: React.SyntheticEvent) => {
+        e.preventDefault();
+
+        if (!status.configured && passphrase !== confirmation) {
+            setError('Passphrases do not match');
+            return;
+        }
+
+        setIsWorking(true);
+        setError(null);
+
+        const result = status.configured
+            ? await tokenVaultService.unlock(passphrase)
+            : await tokenVaultService.create(passphrase);
+
+        setIsWorking(false);
+        setPassphrase('');
+        setConfirmation('');
+
+        if (!result.success) {
+            setError(result.error || 'Failed to unlock the token vault');
+        }
+    };
+
+    if (status.unlocked) {
+        return (
+            <div className='token-vault-panel unlocked'>
+                <span className='vault-status'>🔓 Token vault unlocked ({status.tokenCount} tokens)</span>
+                <label className='auto-lock'>
+                    Auto-lock after
+                    <select
+                        value={status.autoLockMinutes}
+                        onChange={e => tokenVaultService.setAutoLockMinutes(parseInt(e.target.value))}
+                    >
+                        {[5, 15, 30, 60].map(minutes => (
+                            <option key={minutes} value={minutes}>
+                                {minutes} min idle
+                            </option>
+                        ))}
+                        <option value={0}>Never</option>
+                    </select>
+                </label>
+                <button type='button' className='btn btn-secondary' onClick={() => tokenVaultService.lock()}>
+                    🔒 Lock
+                </button>
+            </div>
+        );
+    }
+
+    // Rendered inside other forms, so submit is handled without a nested <form>
+    return (
+        <div className='token-vault-panel locked'>
+            <div className='vault-status'>
+                {status.configured
+                    ? '🔒 Token vault is locked. Enter your passphrase to use copy trader tokens.'
+                    : '🔐 Create a passphrase to store copy trader tokens encrypted on this device.'}
+            </div>
+            <div className='vault-inputs'>
+                <input
+                    type='password'
+                    value={passphrase}
+                    onChange={e => setPassphrase(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleSubmit(e)}
+                    placeholder='Vault passphrase'
+                    autoComplete={status.configured ? 'current-password' : 'new-password'}
+                />
+                {!status.configured && (
+                    <input
+                        type='password'
+                        value={confirmation}
+                        onChange={e => setConfirmation(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && handleSubmit(e)}
+                        placeholder='Confirm passphrase'
+                        autoComplete='new-password'
+                    />
+                )}
+                <button
+                    type='button'
+                    className='btn btn-primary'
+                    onClick={handleSubmit}
+                    disabled={isWorking || !passphrase}
+                >
+                    {isWorking ? '⏳' : status.configured ? 'Unlock' : 'Create Vault'}
+                </button>
+            </div>
+            {error && <div className='vault-error'>❌ {error}</div>}
+        </div>
+    );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import type { DigitSignificance as DigitSignificanceResult, RunsTestResult } from '@/utils/digit-statistics';
+import { SIGNIFICANCE_LEVEL } from '@/utils/digit-statistics';
+import './DigitSignificance.scss';
+
+interface DigitSignificanceProps {
+    significance: DigitSignificanceResult;
+    compact?: boolean; // Summary only, without the per-digit table
+    className?: string;
+}
+
+const formatP = (p: number) => (p < 0.0001 ? '<0.0001' : p.toFixed(4));
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const RunsRow: React.FC<{ label: string; result: RunsTestResult }> = ({ label, result }) => (
+    <div className='digit-significance__row'>
+        <span className='digit-significance__label'>{label}</span>
+        <span>
+            {result.runs} runs (expected {result.expectedRuns.toFixed(1)}), z={result.zScore.toFixed(2)}
+        </span>
+        <span className={result.pValue < SIGNIFICANCE_LEVEL ? 'significant' : 'noise'}>p={formatP(result.pValue)}</span>
+    </div>
+);
+
+const DigitSignificance: React.FC<DigitSignificanceProps> = ({ significance, compact = false, className = '' }) => {
+    const { chiSquare, correction, evenOddRuns, riseFallRuns, digits, sampleSize } = significance;
+    const isSignificant = correction?.isSignificant ?? chiSquare.pValue < SIGNIFICANCE_LEVEL;
+
+    return (
+        <div className={`digit-significance ${compact ? 'digit-significance--compact' : ''} ${className}`}>
+            <div className='digit-significance__header'>
+                <span>Significance ({sampleSize} ticks)</span>
+                <span className={`digit-significance__verdict ${isSignificant ? 'significant' : 'noise'}`}>
+                    {isSignificant ? 'Deviation is significant' : 'Within sampling noise'}
+                </span>
+            </div>
+
+            <div className='digit-significance__row'>
+                <span className='digit-significance__label'>Uniformity χ²</span>
+                <span>
+                    {chiSquare.statistic.toFixed(2)} (df {chiSquare.degreesOfFreedom})
+                </span>
+                <span className={chiSquare.pValue < SIGNIFICANCE_LEVEL ? 'significant' : 'noise'}>
+                    p={formatP(chiSquare.pValue)}
+                </span>
+            </div>
+            {correction && (
+                <div className='digit-significance__row'>
+                    <span className='digit-significance__label'>
+                        {correction.method === 'holm' ? 'Holm' : 'Bonferroni'} ({correction.familySize} markets)
+                    </span>
+                    <span />
+                    <span className={correction.isSignificant ? 'significant' : 'noise'}>
+                        p={formatP(correction.adjustedPValue)}
+                    </span>
+                </div>
+            )}
+            <RunsRow label='Even/odd runs' result={evenOddRuns} />
+            {riseFallRuns && <RunsRow label='Rise/fall runs' result={riseFallRuns} />}
+
+            {!compact && (
+                <table className='digit-significance__digits'>
+                    <thead>
+                        <tr>
+                            <th>Digit</th>
+                            <th>Share</th>
+                            <th>95% CI</th>
+                            <th>p (Holm)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {digits.map(digit => (
+                            <tr key={digit.digit} className={digit.isSignificant ? 'significant' : ''}>
+                                <td>{digit.digit}</td>
+                                <td>{formatPercent(digit.proportion)}</td>
+                                <td>
+                                    {formatPercent(digit.confidenceInterval[0])}–
+                                    {formatPercent(digit.confidenceInterval[1])}
+                                </td>
+                                <td>{formatP(digit.adjustedPValue)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default DigitSignificance;
@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { analyzeDigitSignificance } from '@/utils/digit-statistics';
+import DigitSignificance from './DigitSignificance';
 import './DigitStats.scss';
 
 interface DigitStat {
@@ -162,10 +164,10 @@ class DigitStatsAPI {
 }
 
 const DigitStats: React.FC<DigitStatsProps> = ({ symbol = 'R_100', className = '' }) => {
-    const [digitStats, setDigitStats] = useState<DigitStat[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [digitStatsAPI] = useState(() => new DigitStatsAPI());
     const [tickHistory, setTickHistory] = useState<number[]>([]);
+    const [quoteHistory, setQuoteHistory] = useState<number[]>([]);
 
     // Extract last digit from price
     const extractDigit = useCallback((price: number): number => {
@@ -224,6 +226,7 @@ const DigitStats: React.FC<DigitStatsProps> = ({ symbol = 'R_100', className = '
                 const updated = [...prev, digit];
                 return updated.slice(-1000); // Keep last 1000 ticks
             });
+            setQuoteHistory(prev => [...prev, price].slice(-1000));
         }
     }, [extractDigit]);
 
@@ -252,6 +255,7 @@ const DigitStats: React.FC<DigitStatsProps> = ({ symbol = 'R_100', className = '
                         extractDigit(parseFloat(price))
                     );
                     setTickHistory(historicalDigits);
+                    setQuoteHistory(historyResponse.history.prices.map((price: string) => parseFloat(price)));
                 }
 
                 // Subscribe to real-time updates
@@ -280,6 +284,11 @@ const DigitStats: React.FC<DigitStatsProps> = ({ symbol = 'R_100', className = '
         return calculateDigitStats(tickHistory);
     }, [tickHistory, calculateDigitStats]);
 
+    // Tells a real digit bias apart from sampling noise
+    const significance = useMemo(() => {
+        return analyzeDigitSignificance(tickHistory, quoteHistory);
+    }, [tickHistory, quoteHistory]);
+
     if (isLoading) {
         return (
             <div className={`digit-stats ${className}`}>
@@ -304,6 +313,7 @@ const DigitStats: React.FC<DigitStatsProps> = ({ symbol = 'R_100', className = '
                     </div>
                 ))}
             </div>
+            {tickHistory.length > 0 && <DigitSignificance significance={significance} />}
         </div>
     );
 };
@@ -1 +1 @@
-export { default } from './DigitStats';
\ No newline at end of file
+export { default } from './DigitStats';
@@ -1,6 +1,16 @@
+import React from 'react';
 import { observer } from 'mobx-react-lite';
+import SessionReview from '@/components/session-review';
 import { useStore } from '@/hooks/useStore';
-import { downloadFile, getSuccessJournalMessage, TTransaction } from '@/utils/download';
+import { downloadFile, getSuccessJournalMessage } from '@/utils/download';
+import {
+    createSessionExport,
+    journalToCsv,
+    parseSessionFile,
+    transactionsToCsv,
+    TSessionExport,
+    TSessionJournalEntry,
+} from '@/utils/session-export';
 import { Localize, localize } from '@deriv-com/translations';
 import Button from '../shared_ui/button';
 import Popover from '../shared_ui/popover';
@@ -10,53 +20,17 @@ type TDownloadProps = {
 };
 
 const Download = observer(({ tab }: TDownloadProps) => {
-    const { run_panel, transactions, journal } = useStore();
+    const { client, run_panel, transactions, journal, data_collection_store } = useStore();
     const { is_clear_stat_disabled, is_running } = run_panel;
     const { filtered_messages } = journal;
     const { transactions: transaction_list } = transactions;
+    const [imported_session, setImportedSession] = React.useState<TSessionExport | null>(null);
+    const [import_error, setImportError] = React.useState('');
+    const file_input_ref = React.useRef<HTMLInputElement>(null);
     let disabled = false;
     let clickFunction, popover_message;
 
-    const downloadTransaction = () => {
-        const items = [
-            [
-                localize('Market'),
-                localize('Reference ID (buy)'),
-                localize('Reference ID (sell)'),
-                localize('Barrier'),
-                localize('Start Time'),
-                localize('Entry Spot'),
-                localize('Entry Spot Time'),
-                localize('Exit Spot'),
-                localize('Exit Spot Time'),
-                localize('Buy Price'),
-                localize('Profit/Loss'),
-            ],
-        ];
-        transaction_list.forEach(({ data }: { data: TTransaction }) => {
-            if (typeof data === 'string') return;
-            items.push([
-                data.display_name,
-                data.transaction_ids.buy,
-                data.transaction_ids.sell,
-                data.barrier,
-                data.date_start,
-                data.entry_tick,
-                data.entry_tick_time,
-                data.exit_tick,
-                data.exit_tick_time,
-                data.buy_price,
-                data.profit,
-            ]);
-        });
-
-        const content = items.map(e => e.join(',')).join('\n');
-        downloadFile(localize('Transactions'), content);
-    };
-
-    const downloadJournal = () => {
-        const items = [[localize('Date'), localize('Time'), localize('Message')]];
-
+    const getJournalEntries = (): TSessionJournalEntry[] =>
         filtered_messages.map(item => {
             let array_message;
             if (item.message_type !== 'success') {
@@ -64,11 +38,55 @@ const Download = observer(({ tab }: TDownloadProps) => {
             } else {
                 array_message = getSuccessJournalMessage(item.message.toString(), item.extra);
             }
-            const arr = [item.date, item.time, array_message?.replace('&#x2F;', '/')];
-            items.push(arr);
+            return {
+                date: item.date ?? '',
+                time: item.time ?? '',
+                message_type: item.message_type,
+                message: array_message?.replace('&#x2F;', '/') ?? '',
+            };
         });
-        const content = items.map(e => e.join(',')).join('\n');
-        downloadFile(localize('Journal'), content);
+
+    const getSession = () =>
+        createSessionExport({
+            run_id: data_collection_store.run_id || run_panel.run_id,
+            account: client.loginid ?? '',
+            transactions: transaction_list,
+            journal: getJournalEntries(),
+        });
+
+    const downloadTransaction = () => {
+        downloadFile(localize('Transactions'), transactionsToCsv(getSession().transactions));
+    };
+
+    const downloadJournal = () => {
+        downloadFile(localize('Journal'), journalToCsv(getJournalEntries()));
+    };
+
+    const downloadSession = () => {
+        downloadFile(localize('Session'), JSON.stringify(getSession(), null, 2), 'json');
+    };
+
+    const onImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = () => {
+            const result = parseSessionFile(String(reader.result ?? ''), file.name);
+            if (result.success && result.session) {
+                setImportedSession(result.session);
+            } else {
+                setImportError(result.error ?? localize('Unknown error'));
+            }
+        };
+        reader.onerror = () => setImportError(localize('The file could not be read.'));
+        reader.readAsText(file);
+    };
+
+    const closeReview = () => {
+        setImportedSession(null);
+        setImportError('');
     };
 
     if (tab === 'transactions') {
@@ -85,23 +103,55 @@ const Download = observer(({ tab }: TDownloadProps) => {
     if (is_running) popover_message = localize('Download is unavailable while your bot is running.');
 
     return (
-        <Popover
-            className='run-panel__info'
-            classNameBubble='run-panel__info--bubble'
-            alignment='bottom'
-            message={popover_message}
-            zIndex='5'
-        >
-            <Button
-                id='download-button'
-                disabled={disabled}
-                className='download__button'
-                onClick={clickFunction}
-                secondary
+        <div className='download__actions'>
+            <Popover
+                className='run-panel__info'
+                classNameBubble='run-panel__info--bubble'
+                alignment='bottom'
+                message={popover_message}
+                zIndex='5'
+            >
+                <Button
+                    id='download-button'
+                    disabled={disabled}
+                    className='download__button'
+                    onClick={clickFunction}
+                    secondary
+                >
+                    <Localize i18n_default_text='Download' />
+                </Button>
+            </Popover>
+            <Popover
+                className='run-panel__info'
+                classNameBubble='run-panel__info--bubble'
+                alignment='bottom'
+                message={localize('Export transactions and journal as an importable JSON session.')}
+                zIndex='5'
+            >
+                <Button className='download__button' disabled={disabled} onClick={downloadSession} secondary>
+                    <Localize i18n_default_text='JSON' />
+                </Button>
+            </Popover>
+            <Popover
+                className='run-panel__info'
+                classNameBubble='run-panel__info--bubble'
+                alignment='bottom'
+                message={localize('Review a past session from an exported JSON or CSV file.')}
+                zIndex='5'
             >
-                <Localize i18n_default_text='Download' />
-            </Button>
-        </Popover>
+                <Button className='download__button' onClick={() => file_input_ref.current?.click()} secondary>
+                    <Localize i18n_default_text='Import' />
+                </Button>
+            </Popover>
+            <input
+                ref={file_input_ref}
+                type='file'
+                accept='.json,.csv,application/json,text/csv'
+                className='download__file-input'
+                onChange={onImportFile}
+            />
+            <SessionReview session={imported_session} error={import_error} onClose={closeReview} />
+        </div>
     );
 });
 
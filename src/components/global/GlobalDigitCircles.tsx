@@ -1,4 +1,5 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
+import { appEventBus } from '@/services/app-event-bus.service';
 import { derivConnectionPool, ConnectionType } from '@/services/deriv-connection-pool.service';
 import { tickDataValidator } from '@/utils/tick-data-validator';
 import { unifiedTickData } from '@/services/unified-tick-data.service';
@@ -108,10 +109,7 @@ export const GlobalDigitCircles: React.FC = () => {
             }
         };
 
-        window.addEventListener('digit-circles-toggle', handleToggle);
-        return () => {
-            window.removeEventListener('digit-circles-toggle', handleToggle);
-        };
+        return appEventBus.subscribe('digit-circles.toggle', handleToggle, 'GlobalDigitCircles');
     }, []);
 
     // Save settings to localStorage
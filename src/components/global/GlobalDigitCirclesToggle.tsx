@@ -6,6 +6,7 @@ import {
 import { hotColdZoneScannerService, HotColdZoneSignal } from '@/services/hot-cold-zone-scanner.service';
 import { enhancedSignalProcessor, CustomBotSettings } from '@/services/enhanced-signal-processor.service';
 import { unifiedBotManager } from '@/services/unified-bot-manager.service';
+import DigitSignificance from '@/components/digit-stats/DigitSignificance';
 import './GlobalDigitCirclesToggle.scss';
 
 const SETTINGS_STORAGE_KEY = 'fibonacci-bot-settings';
@@ -704,6 +705,9 @@ export const GlobalDigitCirclesToggle: React.FC = () => {
                                     </p>
                                     {/* Strategy reasoning hidden for privacy */}
                                 </div>
+                                {currentDistributionSignal.significance && (
+                                    <DigitSignificance significance={currentDistributionSignal.significance} compact />
+                                )}
                             </div>
                         </div>
 
@@ -785,6 +789,9 @@ export const GlobalDigitCirclesToggle: React.FC = () => {
                                     </p>
                                     {/* Strategy reasoning hidden for privacy */}
                                 </div>
+                                {currentSignal.significance && (
+                                    <DigitSignificance significance={currentSignal.significance} compact />
+                                )}
                             </div>
                         </div>
 
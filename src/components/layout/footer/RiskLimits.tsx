@@ -0,0 +1,26 @@
+import { useState } from 'react';
+import RiskPolicyModal from '@/components/settings/RiskPolicyModal';
+import { LegacySecurityIcon } from '@deriv/quill-icons/Legacy';
+import { useTranslations } from '@deriv-com/translations';
+import { Tooltip } from '@deriv-com/ui';
+
+const RiskLimits = () => {
+    const { localize } = useTranslations();
+    const [is_open, setIsOpen] = useState(false);
+
+    return (
+        <>
+            <Tooltip
+                as='button'
+                className='app-footer__icon'
+                onClick={() => setIsOpen(true)}
+                tooltipContent={localize('Risk limits')}
+            >
+                <LegacySecurityIcon iconSize='xs' fill='var(--text-general)' />
+            </Tooltip>
+            {is_open && <RiskPolicyModal is_open onClose={() => setIsOpen(false)} />}
+        </>
+    );
+};
+
+export default RiskLimits;
@@ -0,0 +1,26 @@
+import { useState } from 'react';
+import SettingsProfileModal from '@/components/settings/SettingsProfileModal';
+import { LegacySettings1pxIcon } from '@deriv/quill-icons/Legacy';
+import { useTranslations } from '@deriv-com/translations';
+import { Tooltip } from '@deriv-com/ui';
+
+const SettingsProfile = () => {
+    const { localize } = useTranslations();
+    const [is_open, setIsOpen] = useState(false);
+
+    return (
+        <>
+            <Tooltip
+                as='button'
+                className='app-footer__icon'
+                onClick={() => setIsOpen(true)}
+                tooltipContent={localize('Export / import settings')}
+            >
+                <LegacySettings1pxIcon iconSize='xs' fill='var(--text-general)' />
+            </Tooltip>
+            {is_open && <SettingsProfileModal is_open onClose={() => setIsOpen(false)} />}
+        </>
+    );
+};
+
+export default SettingsProfile;
@@ -14,7 +14,9 @@ import HelpCentre from './HelpCentre';
 import LanguageSettings from './LanguageSettings';
 import NetworkStatus from './NetworkStatus';
 import ResponsibleTrading from './ResponsibleTrading';
+import RiskLimits from './RiskLimits';
 import ServerTime from './ServerTime';
+import SettingsProfile from './SettingsProfile';
 import WhatsApp from './WhatsApp';
 import './footer.scss';
 
@@ -34,6 +36,8 @@ const Footer = () => {
             <HelpCentre />
             <div className='app-footer__vertical-line' />
             <ChangeTheme />
+            <SettingsProfile />
+            <RiskLimits />
             <AccountLimits />
             <ResponsibleTrading />
             <Deriv />
@@ -0,0 +1,43 @@
+import { riskPolicyService } from '@/services/risk-policy.service';
+import { tickSourceService } from '@/services/tick-source/tick-source.service';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ReplayIndicator from '../index';
+
+jest.mock('@/services/deriv-connection-pool.service', () => ({
+    derivConnectionPool: { subscribeToTicks: jest.fn(async () => () => undefined) },
+}));
+
+describe('<ReplayIndicator/>', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('is hidden on live ticks', async () => {
+        render(<ReplayIndicator />);
+        await act(() => tickSourceService.initialize());
+
+        expect(screen.queryByTestId('dt_replay_indicator')).not.toBeInTheDocument();
+    });
+
+    it('shows the active replay and switches back to live ticks', async () => {
+        render(<ReplayIndicator />);
+        await act(async () => {
+            await tickSourceService.loadReplay('epoch,quote\n1700000001,1000.10', 'session.csv', { autoPlay: false });
+        });
+
+        expect(screen.getByTestId('dt_replay_indicator')).toHaveTextContent('session.csv');
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_INDICATOR' }).rule).toBe('REPLAY');
+
+        await userEvent.click(screen.getByRole('button', { name: 'Exit replay' }));
+
+        expect(screen.queryByTestId('dt_replay_indicator')).not.toBeInTheDocument();
+        expect(tickSourceService.isReplayActive()).toBe(false);
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_INDICATOR' }).allowed).toBe(true);
+    });
+});
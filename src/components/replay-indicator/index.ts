@@ -0,0 +1,4 @@
+import ReplayIndicator from './replay-indicator';
+import './replay-indicator.scss';
+
+export default ReplayIndicator;
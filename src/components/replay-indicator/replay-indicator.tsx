@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import Button from '@/components/shared_ui/button';
+import Text from '@/components/shared_ui/text';
+import { tickSourceService } from '@/services/tick-source/tick-source.service';
+import type { ReplayState } from '@/types/tick-source.types';
+import { Localize, localize } from '@deriv-com/translations';
+
+/**
+ * Banner shown on every page while ticks come from a recording, with a switch back to the live feed
+ */
+const ReplayIndicator = () => {
+    const [replay, setReplay] = useState<ReplayState | null>(
+        () => tickSourceService.getReplaySource()?.getState() ?? null
+    );
+    const [is_exiting, setIsExiting] = useState(false);
+
+    useEffect(() => {
+        let unsubscribeState: (() => void) | undefined;
+
+        const follow = () => {
+            unsubscribeState?.();
+            const source = tickSourceService.getReplaySource();
+            setReplay(source?.getState() ?? null);
+            unsubscribeState = source?.onStateChange(setReplay);
+        };
+
+        const unsubscribeSource = tickSourceService.onSourceChange(follow);
+        // Restores a persisted replay, so it is visible before any tick consumer starts
+        tickSourceService.initialize().then(follow);
+
+        return () => {
+            unsubscribeSource();
+            unsubscribeState?.();
+        };
+    }, []);
+
+    if (!replay) return null;
+
+    const exitReplay = async () => {
+        setIsExiting(true);
+        try {
+            await tickSourceService.useLive();
+        } finally {
+            setIsExiting(false);
+        }
+    };
+
+    return (
+        <div className='replay-indicator' role='status' data-testid='dt_replay_indicator'>
+            <span className='replay-indicator__badge'>
+                <Localize i18n_default_text='REPLAY' />
+            </span>
+            <Text as='p' size='xs' className='replay-indicator__message'>
+                <Localize
+                    i18n_default_text='Ticks come from the recording "{{name}}" ({{cursor}}/{{total}}). Real trading is paused.'
+                    values={{ name: replay.name, cursor: replay.cursor, total: replay.totalTicks }}
+                />
+            </Text>
+            <Button text={localize('Exit replay')} onClick={exitReplay} is_disabled={is_exiting} secondary small />
+        </div>
+    );
+};
+
+export default ReplayIndicator;
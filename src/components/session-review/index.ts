@@ -0,0 +1,5 @@
+import SessionReview from './session-review';
+import '@/components/transaction-details/transaction-details-desktop.scss';
+import './session-review.scss';
+
+export default SessionReview;
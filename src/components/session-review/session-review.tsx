@@ -0,0 +1,74 @@
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import DesktopTransactionTable from '@/components/transaction-details/desktop-transaction-table';
+import { TTransactions } from '@/components/transaction-details/transaction-details.types';
+import { result_columns, transaction_columns } from '@/components/transaction-details/transaction-details-desktop';
+import { toTransactionElements, TSessionExport } from '@/utils/session-export';
+import { Localize, localize } from '@deriv-com/translations';
+
+type TSessionReviewProps = {
+    session: TSessionExport | null;
+    error?: string;
+    onClose: () => void;
+};
+
+/**
+ * Read-only review of an imported session, with the same summary statistics as the run panel
+ */
+const SessionReview = ({ session, error, onClose }: TSessionReviewProps) => (
+    <Modal
+        className='session-review'
+        title={localize('Session review')}
+        is_open={!!session || !!error}
+        toggleModal={onClose}
+        width='90vw'
+    >
+        <Modal.Body>
+            {error && (
+                <Text as='p' size='xs' color='loss-danger' className='session-review__error'>
+                    <Localize i18n_default_text='Could not import this file: {{error}}' values={{ error }} />
+                </Text>
+            )}
+            {session && (
+                <div className='session-review__content'>
+                    <Text as='p' size='xxs' color='less-prominent' className='session-review__meta'>
+                        <Localize
+                            i18n_default_text='Run ID: {{run_id}} · Exported: {{exported_at}}'
+                            values={{ run_id: session.run_id || '-', exported_at: session.exported_at || '-' }}
+                        />
+                    </Text>
+                    {session.transactions.length > 0 && (
+                        <DesktopTransactionTable
+                            transaction_columns={transaction_columns()}
+                            transactions={toTransactionElements(session.transactions) as unknown as TTransactions[]}
+                            result_columns={result_columns()}
+                            result={session.statistics}
+                            account={session.account || '-'}
+                            balance='-'
+                        />
+                    )}
+                    {session.journal.length > 0 && (
+                        <div className='session-review__journal'>
+                            <Text as='h4' size='xs' weight='bold'>
+                                <Localize i18n_default_text='Journal' />
+                            </Text>
+                            {session.journal.map((entry, index) => (
+                                <div
+                                    key={`${entry.date}-${entry.time}-${index}`}
+                                    className={`session-review__journal-item session-review__journal-item--${entry.message_type}`}
+                                >
+                                    <span className='session-review__journal-time'>
+                                        {entry.date} {entry.time}
+                                    </span>
+                                    <span>{entry.message}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </Modal.Body>
+    </Modal>
+);
+
+export default SessionReview;
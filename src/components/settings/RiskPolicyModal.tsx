@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import Button from '@/components/shared_ui/button';
+import Checkbox from '@/components/shared_ui/checkbox';
+import Modal from '@/components/shared_ui/modal';
+import { riskPolicyService, SOURCE_DEFAULT_LIMITS } from '@/services/risk-policy.service';
+import type { RiskPolicy, RiskStatus } from '@/types/risk-policy.types';
+import './RiskPolicyModal.scss';
+
+type RiskPolicyModalProps = {
+    is_open: boolean;
+    onClose: () => void;
+};
+
+type RiskLimitKey = Exclude<keyof RiskPolicy, 'enabled'>;
+
+const LIMITS: { key: RiskLimitKey; label: string }[] = [
+    { key: 'maxDailyLoss', label: 'Max daily loss' },
+    { key: 'maxConsecutiveLosses', label: 'Max consecutive losses' },
+    { key: 'lossCooldownMinutes', label: 'Loss cooldown (minutes)' },
+    { key: 'maxStakePerTrade', label: 'Max stake per trade' },
+    { key: 'maxStakePercentOfBalance', label: 'Max stake (% of balance)' },
+    { key: 'maxOpenContracts', label: 'Max open contracts' },
+    { key: 'maxTradesPerMinute', label: 'Max trades per minute' },
+    { key: 'maxTradesPerHour', label: 'Max trades per hour' },
+    { key: 'maxDailyTrades', label: 'Max trades per day' },
+    { key: 'minTimeBetweenTradesMs', label: 'Min time between trades (ms)' },
+];
+
+const TICK_SPEED_LIMITS = LIMITS.filter(({ key }) => SOURCE_DEFAULT_LIMITS.TICK_SPEED?.[key])
+    .map(({ key, label }) => `${label.toLowerCase()} ${SOURCE_DEFAULT_LIMITS.TICK_SPEED?.[key]}`)
+    .join(', ');
+
+/**
+ * Limits of the active account, applied to every execution path, with its usage for today
+ */
+export const RiskPolicyModal: React.FC<RiskPolicyModalProps> = ({ is_open, onClose }) => {
+    const [status, setStatus] = useState<RiskStatus>(() => riskPolicyService.getStatus());
+    const { policy } = status;
+
+    useEffect(() => riskPolicyService.subscribe(setStatus), []);
+
+    const updateLimit = (key: RiskLimitKey, value: string) => {
+        const limit = Number(value);
+        if (Number.isFinite(limit) && limit >= 0) riskPolicyService.updatePolicy({ [key]: limit });
+    };
+
+    const cooldownActive = status.cooldownUntil > Date.now();
+
+    return (
+        <Modal is_open={is_open} toggleModal={onClose} title='Risk limits' width='560px' className='risk-policy'>
+            <Modal.Body>
+                <p className='risk-policy__note'>
+                    Account {status.accountId}. Limits apply to every bot and trading tool; 0 turns a limit off.
+                </p>
+
+                <Checkbox
+                    label='Enforce risk limits'
+                    value={policy.enabled}
+                    onChange={() => riskPolicyService.updatePolicy({ enabled: !policy.enabled })}
+                />
+
+                <div className='risk-policy__limits'>
+                    {LIMITS.map(({ key, label }) => (
+                        <label key={key} className='risk-policy__limit'>
+                            {label}
+                            <input
+                                type='number'
+                                min={0}
+                                value={policy[key]}
+                                disabled={!policy.enabled}
+                                onChange={e => updateLimit(key, e.target.value)}
+                            />
+                        </label>
+                    ))}
+                </div>
+                {TICK_SPEED_LIMITS && (
+                    <p className='risk-policy__note'>
+                        Tick Speed keeps its own limits where these are 0: {TICK_SPEED_LIMITS}.
+                    </p>
+                )}
+
+                <div className='risk-policy__status' data-testid='dt_risk_policy_status'>
+                    <p>Realised P&amp;L today: {status.realizedPnL}</p>
+                    <p>Trades today: {status.dailyTrades}</p>
+                    <p>Open contracts: {status.openContracts}</p>
+                    <p>Loss streak: {status.consecutiveLosses}</p>
+                    {cooldownActive && <p>Cooling down until {new Date(status.cooldownUntil).toLocaleTimeString()}</p>}
+                    {status.killSwitch.active && (
+                        <p className='risk-policy__blocked'>Kill switch: {status.killSwitch.reason || 'active'}</p>
+                    )}
+                    {status.blockedBy && <p className='risk-policy__blocked'>Blocked: {status.blockedBy.reason}</p>}
+                </div>
+            </Modal.Body>
+            <Modal.Footer>
+                <Button
+                    secondary
+                    text='Reset loss streak'
+                    is_disabled={!status.consecutiveLosses && !cooldownActive}
+                    onClick={() => riskPolicyService.resetLossStreak()}
+                />
+                {status.killSwitch.active ? (
+                    <Button primary text='Clear kill switch' onClick={() => riskPolicyService.setKillSwitch(false)} />
+                ) : (
+                    <Button
+                        primary
+                        text='Stop all trading'
+                        onClick={() => riskPolicyService.setKillSwitch(true, 'stopped from risk limits')}
+                    />
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default RiskPolicyModal;
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import Button from '@/components/shared_ui/button';
+import Checkbox from '@/components/shared_ui/checkbox';
+import Modal from '@/components/shared_ui/modal';
+import { settingsRegistry } from '@/services/settings-registry.service';
+import type { SettingsImportResult, SettingsProfile } from '@/types/settings-profile.types';
+import './SettingsProfileModal.scss';
+
+type SettingsProfileModalProps = {
+    is_open: boolean;
+    onClose: () => void;
+};
+
+type Mode = 'export' | 'import';
+
+export const SettingsProfileModal: React.FC<SettingsProfileModalProps> = ({ is_open, onClose }) => {
+    const modules = settingsRegistry.getModules();
+    const [mode, setMode] = useState<Mode>('export');
+    const [selected, setSelected] = useState<string[]>(modules.map(module => module.id));
+    const [includeSecrets, setIncludeSecrets] = useState(false);
+    const [profile, setProfile] = useState<SettingsProfile | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [result, setResult] = useState<SettingsImportResult | null>(null);
+
+    // In import mode only the modules present in the loaded profile can be chosen
+    const available = mode === 'import' && profile ? modules.filter(module => profile.modules[module.id]) : modules;
+    const unknownModules = profile ? Object.keys(profile.modules).filter(id => !modules.some(m => m.id === id)) : [];
+
+    const switchMode = (next: Mode) => {
+        setMode(next);
+        setProfile(null);
+        setErrors([]);
+        setResult(null);
+        setIncludeSecrets(false);
+        setSelected(modules.map(module => module.id));
+    };
+
+    const toggleModule = (id: string) => {
+        setSelected(current => (current.includes(id) ? current.filter(item => item !== id) : [...current, id]));
+    };
+
+    const handleExport = () => {
+        const content = JSON.stringify(settingsRegistry.exportProfile({ modules: selected, includeSecrets }), null, 2);
+        const blob = new Blob([content], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `settings-profile-${new Date().toISOString().slice(0, 10)}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        const validation = settingsRegistry.parseProfile(await file.text());
+        setResult(null);
+        setErrors(validation.errors);
+        setProfile(validation.profile ?? null);
+        setIncludeSecrets(false);
+        if (validation.profile) {
+            setSelected(Object.keys(validation.profile.modules).filter(id => modules.some(m => m.id === id)));
+        }
+    };
+
+    const handleRestore = () => {
+        if (!profile) return;
+        const importResult = settingsRegistry.importProfile(profile, { modules: selected, includeSecrets });
+        setResult(importResult);
+        setErrors(importResult.error ? [importResult.error] : []);
+    };
+
+    const profileHasSecrets = !!profile && Object.values(profile.modules).some(snapshot => snapshot.includesSecrets);
+
+    return (
+        <Modal
+            is_open={is_open}
+            toggleModal={onClose}
+            title='Settings profile'
+            width='520px'
+            className='settings-profile'
+        >
+            <Modal.Body>
+                <div className='settings-profile__tabs'>
+                    {(['export', 'import'] as Mode[]).map(item => (
+                        <button
+                            key={item}
+                            className={`settings-profile__tab ${mode === item ? 'settings-profile__tab--active' : ''}`}
+                            onClick={() => switchMode(item)}
+                        >
+                            {item === 'export' ? 'Export' : 'Import'}
+                        </button>
+                    ))}
+                </div>
+
+                {mode === 'import' && (
+                    <label className='settings-profile__file'>
+                        <input type='file' accept='application/json,.json' onChange={handleImportFile} />
+                        {profile ? `Profile exported ${new Date(profile.exportedAt).toLocaleString()}` : 'Choose file'}
+                    </label>
+                )}
+
+                {errors.length > 0 && (
+                    <ul className='settings-profile__errors'>
+                        {errors.map(error => (
+                            <li key={error}>{error}</li>
+                        ))}
+                    </ul>
+                )}
+
+                {(mode === 'export' || profile) && (
+                    <>
+                        <div className='settings-profile__modules'>
+                            {available.map(module => (
+                                <Checkbox
+                                    key={module.id}
+                                    label={module.label}
+                                    value={selected.includes(module.id)}
+                                    onChange={() => toggleModule(module.id)}
+                                />
+                            ))}
+                        </div>
+                        {unknownModules.length > 0 && (
+                            <p className='settings-profile__note'>
+                                Not supported by this version and will be skipped: {unknownModules.join(', ')}
+                            </p>
+                        )}
+                        {(mode === 'export' || profileHasSecrets) && (
+                            <div className='settings-profile__secrets'>
+                                <Checkbox
+                                    label={mode === 'export' ? 'Include API tokens' : 'Restore API tokens'}
+                                    value={includeSecrets}
+                                    onChange={() => setIncludeSecrets(!includeSecrets)}
+                                />
+                                {includeSecrets && mode === 'export' && (
+                                    <p className='settings-profile__warning'>
+                                        ⚠️ Anyone with this file can trade on your account. Keep it private.
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                    </>
+                )}
+
+                {result?.success && (
+                    <div className='settings-profile__result'>
+                        <p>✅ Restored {result.restored.length} module(s). Reload to apply the new settings.</p>
+                        {result.skipped.map(({ module, reason }) => (
+                            <p key={module} className='settings-profile__note'>
+                                {module}: {reason}
+                            </p>
+                        ))}
+                    </div>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                {mode === 'export' && (
+                    <Button primary text='Download profile' is_disabled={!selected.length} onClick={handleExport} />
+                )}
+                {mode === 'import' && result?.success && (
+                    <Button primary text='Reload now' onClick={() => window.location.reload()} />
+                )}
+                {mode === 'import' && !result?.success && (
+                    <Button
+                        primary
+                        text='Restore selected'
+                        is_disabled={!profile || !selected.length}
+                        onClick={handleRestore}
+                    />
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default SettingsProfileModal;
@@ -0,0 +1,59 @@
+import { riskPolicyService } from '@/services/risk-policy.service';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import RiskPolicyModal from '../RiskPolicyModal';
+
+describe('<RiskPolicyModal/>', () => {
+    let modal_root_el: HTMLDivElement;
+
+    beforeAll(() => {
+        modal_root_el = document.createElement('div');
+        modal_root_el.setAttribute('id', 'modal_root');
+        document.body.appendChild(modal_root_el);
+    });
+
+    afterAll(() => {
+        document.body.removeChild(modal_root_el);
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        localStorage.setItem('active_loginid', 'CR_MODAL');
+    });
+
+    afterEach(() => {
+        localStorage.clear();
+        jest.restoreAllMocks();
+    });
+
+    it('edits the limits of the active account', async () => {
+        render(<RiskPolicyModal is_open onClose={jest.fn()} />);
+
+        expect(screen.getByText(/Account CR_MODAL/)).toBeInTheDocument();
+        await userEvent.tripleClick(screen.getByLabelText('Max stake per trade'));
+        await userEvent.keyboard('25');
+
+        expect(riskPolicyService.getPolicy('CR_MODAL').maxStakePerTrade).toBe(25);
+        expect(riskPolicyService.check({ source: 'BOT', stake: 26, accountId: 'CR_MODAL' }).rule).toBe('STAKE');
+    });
+
+    it('shows why trading is blocked and clears the kill switch and loss streak', async () => {
+        riskPolicyService.updatePolicy({ maxConsecutiveLosses: 2 }, 'CR_MODAL');
+        render(<RiskPolicyModal is_open onClose={jest.fn()} />);
+
+        act(() => {
+            riskPolicyService.recordResult({ contractId: 1, accountId: 'CR_MODAL' }, -1);
+            riskPolicyService.recordResult({ contractId: 2, accountId: 'CR_MODAL' }, -1);
+        });
+        expect(screen.getByTestId('dt_risk_policy_status')).toHaveTextContent('Maximum consecutive losses (2) reached');
+
+        await userEvent.click(screen.getByRole('button', { name: 'Reset loss streak' }));
+        expect(riskPolicyService.getStatus('CR_MODAL').consecutiveLosses).toBe(0);
+
+        await userEvent.click(screen.getByRole('button', { name: 'Stop all trading' }));
+        expect(screen.getByTestId('dt_risk_policy_status')).toHaveTextContent('Kill switch');
+
+        await userEvent.click(screen.getByRole('button', { name: 'Clear kill switch' }));
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_MODAL' }).allowed).toBe(true);
+    });
+});
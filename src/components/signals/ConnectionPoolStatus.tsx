@@ -71,6 +71,7 @@ export const ConnectionPoolStatus: React.FC<ConnectionPoolStatusProps> = ({ comp
                             {healthStatus.activeConnections}/{healthStatus.totalConnections}
                         </span>
                         <span className='subscription-count'>{healthStatus.totalSubscriptions} subs</span>
+                        <span className='subscription-count'>{healthStatus.totalListeners} listeners</span>
                     </div>
                     <button className='expand-button'>{isExpanded ? '▲' : '▼'}</button>
                 </div>
@@ -84,7 +85,7 @@ export const ConnectionPoolStatus: React.FC<ConnectionPoolStatusProps> = ({ comp
                                 <span className='app-id'>{stats.appId}</span>
                                 <div className={`status-dot ${stats.isConnected ? 'connected' : 'disconnected'}`}></div>
                                 <span className='load-info'>
-                                    {stats.subscriptions}/{stats.maxSubscriptions}
+                                    {stats.subscriptions}/{stats.maxSubscriptions} · {stats.listeners} listeners
                                 </span>
                             </div>
                         ))}
@@ -109,6 +110,10 @@ export const ConnectionPoolStatus: React.FC<ConnectionPoolStatusProps> = ({ comp
                         <span className='label'>Subscriptions:</span>
                         <span className='value'>{healthStatus.totalSubscriptions}</span>
                     </span>
+                    <span className='summary-item'>
+                        <span className='label'>Listeners:</span>
+                        <span className='value'>{healthStatus.totalListeners}</span>
+                    </span>
                 </div>
             </div>
 
@@ -182,6 +187,28 @@ export const ConnectionPoolStatus: React.FC<ConnectionPoolStatusProps> = ({ comp
                 ))}
             </div>
 
+            <div className='tick-streams'>
+                <h4>Tick streams</h4>
+                {healthStatus.tickStreams.length === 0 ? (
+                    <div className='no-streams'>No live tick subscriptions</div>
+                ) : (
+                    healthStatus.tickStreams.map((stream: any) => (
+                        <div key={stream.symbol} className='tick-stream'>
+                            <span className='stream-symbol'>{stream.symbol}</span>
+                            <span className='stream-connection'>{stream.connectionType?.toUpperCase()}</span>
+                            <span className='stream-listeners'>
+                                {stream.listeners} {stream.listeners === 1 ? 'listener' : 'listeners'}
+                            </span>
+                            <span className='stream-last-tick'>
+                                {stream.lastTickTime > 0
+                                    ? `${Math.round((Date.now() - stream.lastTickTime) / 1000)}s ago`
+                                    : 'waiting'}
+                            </span>
+                        </div>
+                    ))
+                )}
+            </div>
+
             <div className='pool-actions'>
                 <button className='reconnect-button' onClick={() => derivConnectionPool.forceReconnectAll()}>
                     🔄 Reconnect
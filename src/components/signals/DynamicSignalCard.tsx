@@ -1,7 +1,9 @@
 import React, { useEffect, useMemo, useState } from 'react';
+import { DBOT_TABS } from '../../constants/bot-contents';
 import type { PatternAlert } from '../../hooks/useLiveTickData';
 import { useLiveTickData } from '../../hooks/useLiveTickData';
 import type { StreakMilestone } from '../../hooks/useStreakCounter';
+import { appEventBus } from '../../services/app-event-bus.service';
 import { ConnectionType, derivConnectionPool } from '../../services/deriv-connection-pool.service';
 import { patternPredictor } from '../../services/pattern-predictor.service';
 import { EnhancedCountdownTimer } from './EnhancedCountdownTimer';
@@ -177,7 +179,9 @@ export const DynamicSignalCard: React.FC<DynamicSignalCardProps> = ({
                                 return updatedTicks.slice(-20);
                             });
                         }
-                    }
+                    },
+                    undefined,
+                    { replay: 20 }
                 );
 
                 unsubscribe = unsub;
@@ -245,13 +249,8 @@ export const DynamicSignalCard: React.FC<DynamicSignalCardProps> = ({
     const handleAutoTrade = (alert: PatternAlert) => {
         console.log('🤖 Opening Free Bots section from Trade Now button');
 
-        // Dispatch event to switch to Free Bots tab
-        const switchTabEvent = new CustomEvent('switch.tab', {
-            detail: { tab: 9 }, // FREE BOTS is at position 9 in the tab order
-            bubbles: true,
-            cancelable: true,
-        });
-        window.dispatchEvent(switchTabEvent);
+        // Publish event to switch to Free Bots tab
+        appEventBus.publish('switch.tab', { tab: DBOT_TABS.FREE_BOTS }, 'DynamicSignalCard');
 
         // Also call the original trade signal for logging purposes
         if (onTradeSignal && alert.confidence >= 85) {
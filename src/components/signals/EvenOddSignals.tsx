@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from 'react';
+import { appEventBus } from '@/services/app-event-bus.service';
 import { derivAPIService } from '@/services/deriv-api.service';
 import { EvenOddEntrySuggester } from '@/utils/evenodd-entry-suggester';
 import { PatternDisplay } from './PatternDisplay';
@@ -346,17 +347,21 @@ export const EvenOddSignals: React.FC<{ onSignalsUpdate?: (signals: EvenOddSigna
             scanAllMarkets();
         }, 120000);
 
-        // Listen for force-rescan events
+        // Listen for force rescan requests
         const handleForceRescan = () => {
             console.log('🎲 EvenOdd Scanner: Force rescan triggered');
             scanAllMarkets();
         };
-        window.addEventListener('force-rescan', handleForceRescan);
+        const unsubscribeForceRescan = appEventBus.subscribe(
+            'signals.force-rescan',
+            handleForceRescan,
+            'EvenOddSignals'
+        );
 
         return () => {
             clearTimeout(initialScanTimeout);
             clearInterval(interval);
-            window.removeEventListener('force-rescan', handleForceRescan);
+            unsubscribeForceRescan();
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [mode]);
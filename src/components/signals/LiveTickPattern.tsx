@@ -50,31 +50,36 @@ export const LiveTickPattern: React.FC<LiveTickPatternProps> = ({
             try {
                 console.log(`🔄 Subscribing to ${market} ticks...`);
 
-                const unsub = await derivConnectionPool.subscribeToTicks(market, tickData => {
-                    if (tickData?.tick?.quote && tickData?.tick?.epoch) {
-                        const newTick: TickData = {
-                            quote: tickData.tick.quote,
-                            epoch: tickData.tick.epoch,
-                            digit: Math.floor((tickData.tick.quote * 100) % 10),
-                        };
-
-                        setTicks(prevTicks => {
-                            const updatedTicks = [...prevTicks, newTick];
-
-                            // Add direction based on previous tick
-                            if (updatedTicks.length > 1) {
-                                const current = updatedTicks[updatedTicks.length - 1];
-                                const previous = updatedTicks[updatedTicks.length - 2];
-                                current.direction = current.quote > previous.quote ? 'RISE' : 'FALL';
-                            }
-
-                            // Keep only the last maxTicks
-                            return updatedTicks.slice(-maxTicks);
-                        });
-
-                        setLastUpdate(Date.now());
-                    }
-                });
+                const unsub = await derivConnectionPool.subscribeToTicks(
+                    market,
+                    tickData => {
+                        if (tickData?.tick?.quote && tickData?.tick?.epoch) {
+                            const newTick: TickData = {
+                                quote: tickData.tick.quote,
+                                epoch: tickData.tick.epoch,
+                                digit: Math.floor((tickData.tick.quote * 100) % 10),
+                            };
+
+                            setTicks(prevTicks => {
+                                const updatedTicks = [...prevTicks, newTick];
+
+                                // Add direction based on previous tick
+                                if (updatedTicks.length > 1) {
+                                    const current = updatedTicks[updatedTicks.length - 1];
+                                    const previous = updatedTicks[updatedTicks.length - 2];
+                                    current.direction = current.quote > previous.quote ? 'RISE' : 'FALL';
+                                }
+
+                                // Keep only the last maxTicks
+                                return updatedTicks.slice(-maxTicks);
+                            });
+
+                            setLastUpdate(Date.now());
+                        }
+                    },
+                    undefined,
+                    { replay: maxTicks }
+                );
 
                 unsubscribe = unsub;
                 console.log(`✅ Successfully subscribed to ${market}`);
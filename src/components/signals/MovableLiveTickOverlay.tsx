@@ -64,31 +64,36 @@ export const MovableLiveTickOverlay: React.FC<MovableLiveTickOverlayProps> = ({
             try {
                 console.log(`🔄 Subscribing to ${market} ticks for movable overlay...`);
 
-                const unsub = await derivConnectionPool.subscribeToTicks(market, (tickData: any) => {
-                    if (tickData?.tick?.quote && tickData?.tick?.epoch) {
-                        const newTick: TickData = {
-                            quote: tickData.tick.quote,
-                            epoch: tickData.tick.epoch,
-                            digit: Math.floor((tickData.tick.quote * 100) % 10),
-                        };
+                const unsub = await derivConnectionPool.subscribeToTicks(
+                    market,
+                    (tickData: any) => {
+                        if (tickData?.tick?.quote && tickData?.tick?.epoch) {
+                            const newTick: TickData = {
+                                quote: tickData.tick.quote,
+                                epoch: tickData.tick.epoch,
+                                digit: Math.floor((tickData.tick.quote * 100) % 10),
+                            };
 
-                        setLiveTicks(prevTicks => {
-                            const updatedTicks = [...prevTicks, newTick];
+                            setLiveTicks(prevTicks => {
+                                const updatedTicks = [...prevTicks, newTick];
 
-                            // Add direction based on previous tick
-                            if (updatedTicks.length > 1) {
-                                const current = updatedTicks[updatedTicks.length - 1];
-                                const previous = updatedTicks[updatedTicks.length - 2];
-                                if (current && previous) {
-                                    current.direction = current.quote > previous.quote ? 'RISE' : 'FALL';
+                                // Add direction based on previous tick
+                                if (updatedTicks.length > 1) {
+                                    const current = updatedTicks[updatedTicks.length - 1];
+                                    const previous = updatedTicks[updatedTicks.length - 2];
+                                    if (current && previous) {
+                                        current.direction = current.quote > previous.quote ? 'RISE' : 'FALL';
+                                    }
                                 }
-                            }
 
-                            // Keep only the last 15 ticks for performance
-                            return updatedTicks.slice(-15);
-                        });
-                    }
-                });
+                                // Keep only the last 15 ticks for performance
+                                return updatedTicks.slice(-15);
+                            });
+                        }
+                    },
+                    undefined,
+                    { replay: 15 }
+                );
 
                 unsubscribe = unsub;
                 console.log(`✅ Successfully subscribed to ${market} for movable overlay`);
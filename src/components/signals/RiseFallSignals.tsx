@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from 'react';
+import { appEventBus } from '@/services/app-event-bus.service';
 import { derivAPIService } from '@/services/deriv-api.service';
 import { PatternDisplay } from './PatternDisplay';
 import './SignalCards.scss';
@@ -391,17 +392,21 @@ export const RiseFallSignals: React.FC<{ onSignalsUpdate?: (signals: RiseFallSig
             scanAllMarkets();
         }, 120000);
 
-        // Listen for force-rescan events
+        // Listen for force rescan requests
         const handleForceRescan = () => {
             console.log('📊 RiseFall Scanner: Force rescan triggered');
             scanAllMarkets();
         };
-        window.addEventListener('force-rescan', handleForceRescan);
+        const unsubscribeForceRescan = appEventBus.subscribe(
+            'signals.force-rescan',
+            handleForceRescan,
+            'RiseFallSignals'
+        );
 
         return () => {
             clearTimeout(initialScanTimeout);
             clearInterval(interval);
-            window.removeEventListener('force-rescan', handleForceRescan);
+            unsubscribeForceRescan();
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { signalScorecardService } from '@/services/signal-scorecard.service';
+import type { ScorecardEntry, SignalGeneratorId, SignalScorecard } from '@/types/signal-scorecard.types';
+import './SignalScorecardPanel.scss';
+
+const GENERATOR_LABELS: Record<SignalGeneratorId, string> = {
+    patel: 'Patel Engine',
+    'hot-cold-zone': 'Hot/Cold Zone',
+    'digit-distribution': 'Digit Distribution',
+    'fibonacci-ranging': 'Fibonacci Ranging',
+    'advanced-algo': 'Advanced Algo',
+    'ai-intelligence': 'AI Intelligence',
+    'signal-analysis': 'Signal Analysis',
+    tickshark: 'TickShark',
+};
+
+const VERDICT_LABELS: Record<ScorecardEntry['verdict'], string> = {
+    BEATS_CHANCE: '✅ Beats chance',
+    NO_EDGE: '❌ No edge',
+    INSUFFICIENT_DATA: '⏳ Collecting',
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const ScorecardRow: React.FC<{ entry: ScorecardEntry; label: string; onClick?: () => void; isOpen?: boolean }> = ({
+    entry,
+    label,
+    onClick,
+    isOpen,
+}) => (
+    <tr className={onClick ? 'scorecard-row scorecard-row--clickable' : 'scorecard-row'} onClick={onClick}>
+        <td>
+            {onClick && <span className='scorecard-row__toggle'>{isOpen ? '▼' : '▶'}</span>}
+            {label}
+        </td>
+        <td>{entry.settled}</td>
+        <td>{percent(entry.hitRate)}</td>
+        <td>{percent(entry.chanceRate)}</td>
+        <td className={entry.zScore >= 0 ? 'success' : 'danger'}>{entry.zScore.toFixed(2)}</td>
+        <td className={entry.expectedValue >= 0 ? 'success' : 'danger'}>{entry.expectedValue.toFixed(3)}</td>
+        <td>{entry.brierScore.toFixed(3)}</td>
+        <td className={`scorecard-verdict scorecard-verdict--${entry.verdict.toLowerCase()}`}>
+            {VERDICT_LABELS[entry.verdict]}
+        </td>
+    </tr>
+);
+
+export const SignalScorecardPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const [scorecard, setScorecard] = useState<SignalScorecard>(signalScorecardService.getScorecard());
+    const [expanded, setExpanded] = useState<SignalGeneratorId | null>(null);
+
+    useEffect(() => signalScorecardService.subscribe(() => setScorecard(signalScorecardService.getScorecard())), []);
+
+    const handleReset = () => {
+        if (window.confirm('Reset the signal scorecard? All recorded signals will be cleared.')) {
+            signalScorecardService.reset();
+        }
+    };
+
+    const expandedEntry = scorecard.generators.find(entry => entry.generator === expanded);
+
+    return (
+        <div className='signal-scorecard-overlay'>
+            <div className='signal-scorecard'>
+                <div className='signal-scorecard__header'>
+                    <h2>🎯 Signal Scorecard</h2>
+                    <button className='close-btn' onClick={onClose}>
+                        ×
+                    </button>
+                </div>
+
+                <div className='signal-scorecard__content'>
+                    <p className='signal-scorecard__intro'>
+                        Every signal is settled against the ticks that follow it. A generator beats chance when its hit
+                        rate is significantly above that of random entries on the same contracts (z ≥ 1.65 over at least
+                        30 signals). EV is the mean profit per unit stake at the quoted payout.
+                    </p>
+
+                    {scorecard.generators.length === 0 ? (
+                        <div className='signal-scorecard__empty'>
+                            No settled signals yet. {scorecard.pending} signal(s) waiting for ticks.
+                        </div>
+                    ) : (
+                        <table className='signal-scorecard__table'>
+                            <thead>
+                                <tr>
+                                    <th>Generator</th>
+                                    <th>Signals</th>
+                                    <th>Hit rate</th>
+                                    <th>Chance</th>
+                                    <th>z</th>
+                                    <th>EV</th>
+                                    <th>Brier</th>
+                                    <th>Verdict</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {scorecard.generators.map(entry => (
+                                    <React.Fragment key={entry.generator}>
+                                        <ScorecardRow
+                                            entry={entry}
+                                            label={GENERATOR_LABELS[entry.generator]}
+                                            isOpen={expanded === entry.generator}
+                                            onClick={() =>
+                                                setExpanded(expanded === entry.generator ? null : entry.generator)
+                                            }
+                                        />
+                                        {expanded === entry.generator &&
+                                            scorecard.markets
+                                                .filter(market => market.generator === entry.generator)
+                                                .map(market => (
+                                                    <ScorecardRow
+                                                        key={market.market}
+                                                        entry={market}
+                                                        label={`↳ ${market.market}`}
+                                                    />
+                                                ))}
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    {expandedEntry && (
+                        <div className='signal-scorecard__calibration'>
+                            <h3>Calibration – {GENERATOR_LABELS[expandedEntry.generator]}</h3>
+                            {expandedEntry.calibration.map(bucket => (
+                                <div key={bucket.from} className='calibration-row'>
+                                    <span className='calibration-row__label'>
+                                        {Math.round(bucket.from * 100)}–{Math.round(bucket.to * 100)}% ({bucket.count})
+                                    </span>
+                                    <div className='calibration-row__bars'>
+                                        <div
+                                            className='calibration-row__bar calibration-row__bar--stated'
+                                            style={{ width: percent(bucket.statedConfidence) }}
+                                            title={`Stated ${percent(bucket.statedConfidence)}`}
+                                        />
+                                        <div
+                                            className='calibration-row__bar calibration-row__bar--observed'
+                                            style={{ width: percent(bucket.observedFrequency) }}
+                                            title={`Observed ${percent(bucket.observedFrequency)}`}
+                                        />
+                                    </div>
+                                </div>
+                            ))}
+                            <p className='signal-scorecard__legend'>
+                                <span className='legend-stated'>Stated confidence</span>
+                                <span className='legend-observed'>Observed win frequency</span>
+                            </p>
+                        </div>
+                    )}
+                </div>
+
+                <div className='signal-scorecard__footer'>
+                    <span>{scorecard.pending} pending</span>
+                    <button className='reset-btn' onClick={handleReset}>
+                        Reset
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SignalScorecardPanel;
@@ -1,7 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { DBOT_TABS } from '@/constants/bot-contents';
 import { useStore } from '@/hooks/useStore';
-import { derivAPIService } from '@/services/deriv-api.service';
+import { appEventBus } from '@/services/app-event-bus.service';
+import { botXmlPatcher } from '@/services/bot-xml-patcher.service';
+import { derivConnectionPool } from '@/services/deriv-connection-pool.service';
 import { digitDistributionScannerService } from '@/services/digit-distribution-scanner.service';
 import { hotColdZoneScannerService } from '@/services/hot-cold-zone-scanner.service';
 import { patternPredictor } from '@/services/pattern-predictor.service';
@@ -20,6 +22,7 @@ import { PatternDisplay } from './PatternDisplay';
 import { PerformanceDashboard } from './PerformanceDashboard';
 import { RiseFallSignals } from './RiseFallSignals';
 import { RiskManagementSettings } from './RiskManagementSettings';
+import { SignalScorecardPanel } from './SignalScorecardPanel';
 import { StakeMartingaleModal } from './StakeMartingaleModal';
 import './SignalsCenter.scss';
 import './SignalsCenter-enhanced.scss';
@@ -188,6 +191,7 @@ export const SignalsCenter: React.FC = () => {
     const [latestSignal, setLatestSignal] = useState<SignalsCenterSignal | null>(null);
     const [, setTradeStats] = useState(signalTradingService.getStats());
     const [showDashboard, setShowDashboard] = useState(false);
+    const [showScorecard, setShowScorecard] = useState(false);
     const [showRiskSettings, setShowRiskSettings] = useState(false);
     const [showAutoTradeSettings, setShowAutoTradeSettings] = useState(false);
     const [isMyTradesExpanded, setIsMyTradesExpanded] = useState(true);
@@ -619,7 +623,7 @@ export const SignalsCenter: React.FC = () => {
                 setConnectionError(null);
                 console.log('📡 Connecting to Deriv WebSocket for real tick data...');
 
-                const unsub = await derivAPIService.subscribeToTicks(selectedMarket, tickData => {
+                const unsub = await derivConnectionPool.subscribeToTicks(selectedMarket, (tickData: any) => {
                     // Only process REAL tick data from Deriv
                     if (tickData?.tick?.quote && tickData?.tick?.epoch) {
                         realTickCount++;
@@ -629,6 +633,7 @@ export const SignalsCenter: React.FC = () => {
                         signalAnalysisService.addTick({
                             quote: tickData.tick.quote,
                             epoch: tickData.tick.epoch,
+                            symbol: selectedMarket,
                         });
 
                         // Update connection state
@@ -1578,6 +1583,7 @@ export const SignalsCenter: React.FC = () => {
             }
 
             let botXml = await response.text();
+            const templateXml = botXml;
 
             // Parse and configure XML
             const parser = new DOMParser();
@@ -1647,6 +1653,11 @@ export const SignalsCenter: React.FC = () => {
             const serializer = new XMLSerializer();
             botXml = serializer.serializeToString(xmlDoc);
 
+            if (!(await botXmlPatcher.confirmChanges('CFX Even Odd', templateXml, botXml))) {
+                console.log('🚫 CFX Even Odd bot load cancelled');
+                return;
+            }
+
             // Switch to Bot Builder tab
             setActiveTab(DBOT_TABS.BOT_BUILDER);
 
@@ -1691,10 +1702,9 @@ export const SignalsCenter: React.FC = () => {
                             );
                         } else {
                             console.warn('⚠️ AUTO-RUN: Run button not found, trying alternative method...');
-                            // Alternative method: dispatch run button event
-                            const runEvent = new CustomEvent('bot.auto.run');
-                            window.dispatchEvent(runEvent);
-                            console.log('🔄 AUTO-RUN: Dispatched alternative run event');
+                            // Alternative method: publish run event
+                            appEventBus.publish('bot.run', { source: 'signals-center-auto-run' }, 'SignalsCenter');
+                            console.log('🔄 AUTO-RUN: Published alternative run event');
                         }
                     } catch (error) {
                         console.error('❌ AUTO-RUN ERROR: Failed to auto-run CFX Even Odd Bot:', error);
@@ -1731,6 +1741,7 @@ export const SignalsCenter: React.FC = () => {
             }
 
             let botXml = await response.text();
+            const templateXml = botXml;
 
             // Parse and configure XML
             const parser = new DOMParser();
@@ -1800,6 +1811,11 @@ export const SignalsCenter: React.FC = () => {
             const serializer = new XMLSerializer();
             botXml = serializer.serializeToString(xmlDoc);
 
+            if (!(await botXmlPatcher.confirmChanges('CFX Rise Fall', templateXml, botXml))) {
+                console.log('🚫 CFX Rise Fall bot load cancelled');
+                return;
+            }
+
             // Switch to Bot Builder tab
             setActiveTab(DBOT_TABS.BOT_BUILDER);
 
@@ -1844,10 +1860,9 @@ export const SignalsCenter: React.FC = () => {
                             );
                         } else {
                             console.warn('⚠️ AUTO-RUN: Run button not found, trying alternative method...');
-                            // Alternative method: dispatch run button event
-                            const runEvent = new CustomEvent('bot.auto.run');
-                            window.dispatchEvent(runEvent);
-                            console.log('🔄 AUTO-RUN: Dispatched alternative run event');
+                            // Alternative method: publish run event
+                            appEventBus.publish('bot.run', { source: 'signals-center-auto-run' }, 'SignalsCenter');
+                            console.log('🔄 AUTO-RUN: Published alternative run event');
                         }
                     } catch (error) {
                         console.error('❌ AUTO-RUN ERROR: Failed to auto-run CFX Rise Fall Bot:', error);
@@ -1938,6 +1953,7 @@ export const SignalsCenter: React.FC = () => {
             }
 
             let botXml = await response.text();
+            const templateXml = botXml;
 
             // Parse and configure XML
             const parser = new DOMParser();
@@ -2320,6 +2336,11 @@ export const SignalsCenter: React.FC = () => {
             const serializer = new XMLSerializer();
             botXml = serializer.serializeToString(xmlDoc);
 
+            if (!(await botXmlPatcher.confirmChanges('PATEL', templateXml, botXml))) {
+                console.log('🚫 PATEL bot load cancelled');
+                return;
+            }
+
             // Switch to Bot Builder tab
             setActiveTab(DBOT_TABS.BOT_BUILDER);
 
@@ -2366,10 +2387,9 @@ export const SignalsCenter: React.FC = () => {
                             );
                         } else {
                             console.warn('⚠️ AUTO-RUN: Run button not found, trying alternative method...');
-                            // Alternative method: dispatch run button event
-                            const runEvent = new CustomEvent('bot.auto.run');
-                            window.dispatchEvent(runEvent);
-                            console.log('🔄 AUTO-RUN: Dispatched alternative run event');
+                            // Alternative method: publish run event
+                            appEventBus.publish('bot.run', { source: 'signals-center-auto-run' }, 'SignalsCenter');
+                            console.log('🔄 AUTO-RUN: Published alternative run event');
                         }
                     } catch (error) {
                         console.error('❌ AUTO-RUN ERROR: Failed to auto-run PATEL Bot:', error);
@@ -2736,6 +2756,13 @@ export const SignalsCenter: React.FC = () => {
                             >
                                 📊 Analytics
                             </button>
+                            <button
+                                className='control-btn'
+                                onClick={() => setShowScorecard(true)}
+                                title='Compare signal generator accuracy'
+                            >
+                                🎯 Scorecard
+                            </button>
                             <button
                                 className='control-btn'
                                 onClick={() => setShowConnectionPool(true)}
@@ -3842,6 +3869,8 @@ export const SignalsCenter: React.FC = () => {
             {/* Modal Components */}
             {showDashboard && <PerformanceDashboard onClose={() => setShowDashboard(false)} />}
 
+            {showScorecard && <SignalScorecardPanel onClose={() => setShowScorecard(false)} />}
+
             {showRiskSettings && <RiskManagementSettings onClose={() => setShowRiskSettings(false)} />}
 
             {showAutoTradeSettings && (
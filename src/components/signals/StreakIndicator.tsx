@@ -47,33 +47,38 @@ export const StreakIndicator: React.FC<StreakIndicatorProps> = ({
             try {
                 console.log(`🔄 Subscribing to ${market} for streak analysis...`);
 
-                const unsub = await derivConnectionPool.subscribeToTicks(market, tickData => {
-                    if (tickData?.tick?.quote && tickData?.tick?.epoch) {
-                        const newTick = tickData.tick.quote;
+                const unsub = await derivConnectionPool.subscribeToTicks(
+                    market,
+                    tickData => {
+                        if (tickData?.tick?.quote && tickData?.tick?.epoch) {
+                            const newTick = tickData.tick.quote;
 
-                        setTickHistory(prevTicks => {
-                            const updatedTicks = [...prevTicks, newTick].slice(-maxHistory);
+                            setTickHistory(prevTicks => {
+                                const updatedTicks = [...prevTicks, newTick].slice(-maxHistory);
 
-                            // Update rise/fall pattern
-                            if (updatedTicks.length > 1) {
-                                const newRisePattern: string[] = [];
-                                for (let i = 1; i < updatedTicks.length; i++) {
-                                    newRisePattern.push(updatedTicks[i] > updatedTicks[i - 1] ? 'RISE' : 'FALL');
+                                // Update rise/fall pattern
+                                if (updatedTicks.length > 1) {
+                                    const newRisePattern: string[] = [];
+                                    for (let i = 1; i < updatedTicks.length; i++) {
+                                        newRisePattern.push(updatedTicks[i] > updatedTicks[i - 1] ? 'RISE' : 'FALL');
+                                    }
+                                    setRisePattern(newRisePattern);
                                 }
-                                setRisePattern(newRisePattern);
-                            }
 
-                            // Update digit pattern (even/odd)
-                            const newDigitPattern = updatedTicks.map(tick => {
-                                const digit = Math.floor((tick * 100) % 10);
-                                return digit % 2 === 0 ? 'EVEN' : 'ODD';
-                            });
-                            setDigitPattern(newDigitPattern);
+                                // Update digit pattern (even/odd)
+                                const newDigitPattern = updatedTicks.map(tick => {
+                                    const digit = Math.floor((tick * 100) % 10);
+                                    return digit % 2 === 0 ? 'EVEN' : 'ODD';
+                                });
+                                setDigitPattern(newDigitPattern);
 
-                            return updatedTicks;
-                        });
-                    }
-                });
+                                return updatedTicks;
+                            });
+                        }
+                    },
+                    undefined,
+                    { replay: maxHistory }
+                );
 
                 unsubscribe = unsub;
                 console.log(`✅ Successfully subscribed to ${market} for streak analysis`);
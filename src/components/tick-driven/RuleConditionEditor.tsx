@@ -0,0 +1,278 @@
+/**
+ * Rule Condition Editor Component
+ * Recursive editor for composable trade rule conditions (AND/OR groups and leaf conditions)
+ */
+
+import React from 'react';
+import {
+    type ComparisonOperator,
+    createDefaultCondition,
+    OPERATOR_SYMBOLS,
+    type RuleCondition,
+    type RuleConditionType,
+} from '../../engine/ruleConditions';
+import './RuleConditionEditor.scss';
+
+interface RuleConditionEditorProps {
+    condition: RuleCondition;
+    onChange: (condition: RuleCondition) => void;
+    onRemove?: () => void;
+}
+
+const CONDITION_TYPES: { value: RuleConditionType; label: string }[] = [
+    { value: 'group', label: 'Group (AND/OR)' },
+    { value: 'digitFrequency', label: 'Digit frequency' },
+    { value: 'digitStreak', label: 'Digit streak' },
+    { value: 'timeWindow', label: 'Time of day' },
+    { value: 'recentOutcomes', label: 'Rule outcomes' },
+];
+
+const DIGITS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+const OperatorSelect: React.FC<{ value: ComparisonOperator; onChange: (operator: ComparisonOperator) => void }> = ({
+    value,
+    onChange,
+}) => (
+    <select value={value} onChange={e => onChange(e.target.value as ComparisonOperator)}>
+        {(Object.keys(OPERATOR_SYMBOLS) as ComparisonOperator[]).map(operator => (
+            <option key={operator} value={operator}>
+                {OPERATOR_SYMBOLS[operator]}
+            </option>
+        ))}
+    </select>
+);
+
+export const RuleConditionEditor: React.FC<RuleConditionEditorProps> = ({ condition, onChange, onRemove }) => {
+    const renderFields = () => {
+        switch (condition.type) {
+            case 'group':
+                return (
+                    <>
+                        <select
+                            value={condition.operator}
+                            onChange={e => onChange({ ...condition, operator: e.target.value as 'AND' | 'OR' })}
+                        >
+                            <option value='AND'>All of (AND)</option>
+                            <option value='OR'>Any of (OR)</option>
+                        </select>
+                        <div className='rule-condition-editor__children'>
+                            {condition.conditions.map((child, index) => (
+                                <RuleConditionEditor
+                                    key={index}
+                                    condition={child}
+                                    onChange={updated =>
+                                        onChange({
+                                            ...condition,
+                                            conditions: condition.conditions.map((c, i) => (i === index ? updated : c)),
+                                        })
+                                    }
+                                    onRemove={() =>
+                                        onChange({
+                                            ...condition,
+                                            conditions: condition.conditions.filter((_, i) => i !== index),
+                                        })
+                                    }
+                                />
+                            ))}
+                            <select
+                                className='rule-condition-editor__add'
+                                value=''
+                                onChange={e =>
+                                    onChange({
+                                        ...condition,
+                                        conditions: [
+                                            ...condition.conditions,
+                                            createDefaultCondition(e.target.value as RuleConditionType),
+                                        ],
+                                    })
+                                }
+                            >
+                                <option value='' disabled>
+                                    + Add condition
+                                </option>
+                                {CONDITION_TYPES.map(type => (
+                                    <option key={type.value} value={type.value}>
+                                        {type.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </>
+                );
+
+            case 'digitFrequency':
+                return (
+                    <>
+                        <span>Digits</span>
+                        <div className='rule-condition-editor__digits'>
+                            {DIGITS.map(digit => (
+                                <button
+                                    key={digit}
+                                    type='button'
+                                    className={condition.digits.includes(digit) ? 'selected' : ''}
+                                    onClick={() =>
+                                        onChange({
+                                            ...condition,
+                                            digits: condition.digits.includes(digit)
+                                                ? condition.digits.filter(d => d !== digit)
+                                                : [...condition.digits, digit].sort((a, b) => a - b),
+                                        })
+                                    }
+                                >
+                                    {digit}
+                                </button>
+                            ))}
+                        </div>
+                        <span>in last</span>
+                        <input
+                            type='number'
+                            min='1'
+                            value={condition.window}
+                            onChange={e => onChange({ ...condition, window: parseInt(e.target.value) || 1 })}
+                        />
+                        <span>ticks</span>
+                        <OperatorSelect
+                            value={condition.operator}
+                            onChange={operator => onChange({ ...condition, operator })}
+                        />
+                        <input
+                            type='number'
+                            min='0'
+                            max='100'
+                            value={condition.percent}
+                            onChange={e => onChange({ ...condition, percent: parseFloat(e.target.value) || 0 })}
+                        />
+                        <span>%</span>
+                    </>
+                );
+
+            case 'digitStreak':
+                return (
+                    <>
+                        <select
+                            value={condition.kind}
+                            onChange={e =>
+                                onChange({
+                                    ...condition,
+                                    kind: e.target.value as 'even' | 'odd' | 'over' | 'under',
+                                    barrier: condition.barrier ?? 4,
+                                })
+                            }
+                        >
+                            <option value='even'>Even</option>
+                            <option value='odd'>Odd</option>
+                            <option value='over'>Over</option>
+                            <option value='under'>Under</option>
+                        </select>
+                        {(condition.kind === 'over' || condition.kind === 'under') && (
+                            <select
+                                value={condition.barrier ?? 4}
+                                onChange={e => onChange({ ...condition, barrier: parseInt(e.target.value) })}
+                            >
+                                {DIGITS.map(digit => (
+                                    <option key={digit} value={digit}>
+                                        {digit}
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+                        <span>streak</span>
+                        <OperatorSelect
+                            value={condition.operator}
+                            onChange={operator => onChange({ ...condition, operator })}
+                        />
+                        <input
+                            type='number'
+                            min='0'
+                            value={condition.length}
+                            onChange={e => onChange({ ...condition, length: parseInt(e.target.value) || 0 })}
+                        />
+                        <span>ticks</span>
+                    </>
+                );
+
+            case 'timeWindow':
+                return (
+                    <>
+                        <span>Between</span>
+                        <input
+                            type='time'
+                            value={condition.start}
+                            onChange={e => onChange({ ...condition, start: e.target.value })}
+                        />
+                        <span>and</span>
+                        <input
+                            type='time'
+                            value={condition.end}
+                            onChange={e => onChange({ ...condition, end: e.target.value })}
+                        />
+                        <select
+                            value={condition.timezone ?? 'utc'}
+                            onChange={e => onChange({ ...condition, timezone: e.target.value as 'utc' | 'local' })}
+                        >
+                            <option value='utc'>UTC</option>
+                            <option value='local'>Local time</option>
+                        </select>
+                    </>
+                );
+
+            case 'recentOutcomes':
+                return (
+                    <>
+                        <select
+                            value={condition.metric}
+                            onChange={e =>
+                                onChange({
+                                    ...condition,
+                                    metric: e.target.value as 'wins' | 'losses' | 'winStreak' | 'lossStreak',
+                                })
+                            }
+                        >
+                            <option value='wins'>Wins</option>
+                            <option value='losses'>Losses</option>
+                            <option value='winStreak'>Win streak</option>
+                            <option value='lossStreak'>Loss streak</option>
+                        </select>
+                        {(condition.metric === 'wins' || condition.metric === 'losses') && (
+                            <>
+                                <span>in last</span>
+                                <input
+                                    type='number'
+                                    min='1'
+                                    value={condition.window ?? 10}
+                                    onChange={e => onChange({ ...condition, window: parseInt(e.target.value) || 1 })}
+                                />
+                                <span>trades</span>
+                            </>
+                        )}
+                        <OperatorSelect
+                            value={condition.operator}
+                            onChange={operator => onChange({ ...condition, operator })}
+                        />
+                        <input
+                            type='number'
+                            min='0'
+                            value={condition.value}
+                            onChange={e => onChange({ ...condition, value: parseInt(e.target.value) || 0 })}
+                        />
+                    </>
+                );
+
+            default:
+                return null;
+        }
+    };
+
+    return (
+        <div className={`rule-condition-editor rule-condition-editor--${condition.type}`}>
+            <div className='rule-condition-editor__row'>
+                {renderFields()}
+                {onRemove && (
+                    <button type='button' className='rule-condition-editor__remove' onClick={onRemove}>
+                        ✕
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
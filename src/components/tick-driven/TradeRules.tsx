@@ -3,8 +3,11 @@
  * Allows users to create and manage trading rules for tick-driven execution
  */
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
+import { createDefaultCondition, describeCondition } from '../../engine/ruleConditions';
 import type { TradeRule } from '../../engine/ruleEngine';
+import { createShareCode, exportRules, importRules } from '../../engine/ruleLibrary';
+import { RuleConditionEditor } from './RuleConditionEditor';
 import './TradeRules.scss';
 
 interface TradeRulesProps {
@@ -16,6 +19,7 @@ interface TradeRulesProps {
 
 export const TradeRules: React.FC<TradeRulesProps> = ({ rules, onAddRule, onDeleteRule, onToggleRule }) => {
     const [showAddForm, setShowAddForm] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
     const [newRule, setNewRule] = useState<Partial<TradeRule>>({
         name: '',
         triggerDigit: 0,
@@ -73,13 +77,80 @@ export const TradeRules: React.FC<TradeRulesProps> = ({ rules, onAddRule, onDele
         setShowAddForm(false);
     };
 
+    const addImportedRules = (text: string) => {
+        const { rules: imported, errors } = importRules(text);
+
+        // Fresh IDs so shared rules never replace the user's own
+        imported.forEach((rule, index) => onAddRule({ ...rule, id: `rule_${Date.now()}_${index}` }));
+
+        if (errors.length > 0) {
+            alert(`Imported ${imported.length} rule(s). Skipped invalid rules:\n${errors.join('\n')}`);
+        }
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportRules(rules)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `trade-rules-${new Date().toISOString().slice(0, 10)}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleShare = async () => {
+        const code = createShareCode(rules);
+        try {
+            await navigator.clipboard.writeText(code);
+            alert('Share code copied to clipboard');
+        } catch {
+            prompt('Copy this share code', code);
+        }
+    };
+
+    const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) {
+            addImportedRules(await file.text());
+        }
+    };
+
+    const handleImportCode = () => {
+        const code = prompt('Paste a share code or exported rules JSON');
+        if (code) {
+            addImportedRules(code);
+        }
+    };
+
     return (
         <div className='trade-rules'>
             <div className='trade-rules__header'>
                 <h3>Trading Rules</h3>
-                <button className='trade-rules__add-btn' onClick={() => setShowAddForm(!showAddForm)}>
-                    {showAddForm ? 'Cancel' : 'Add Rule'}
-                </button>
+                <div className='trade-rules__header-actions'>
+                    <button className='trade-rules__cancel-btn' onClick={handleImportCode}>
+                        Paste Code
+                    </button>
+                    <button className='trade-rules__cancel-btn' onClick={() => importInputRef.current?.click()}>
+                        Import
+                    </button>
+                    <button className='trade-rules__cancel-btn' onClick={handleExport} disabled={rules.length === 0}>
+                        Export
+                    </button>
+                    <button className='trade-rules__cancel-btn' onClick={handleShare} disabled={rules.length === 0}>
+                        Share
+                    </button>
+                    <button className='trade-rules__add-btn' onClick={() => setShowAddForm(!showAddForm)}>
+                        {showAddForm ? 'Cancel' : 'Add Rule'}
+                    </button>
+                    <input
+                        ref={importInputRef}
+                        type='file'
+                        accept='application/json,.json'
+                        hidden
+                        onChange={handleImportFile}
+                    />
+                </div>
             </div>
 
             {showAddForm && (
@@ -170,6 +241,33 @@ export const TradeRules: React.FC<TradeRulesProps> = ({ rules, onAddRule, onDele
                         </div>
                     </div>
 
+                    <div className='trade-rules__form-conditions'>
+                        <label>Conditions</label>
+                        {newRule.conditions?.when ? (
+                            <RuleConditionEditor
+                                condition={newRule.conditions.when}
+                                onChange={when =>
+                                    setNewRule({ ...newRule, conditions: { ...newRule.conditions, when } })
+                                }
+                                onRemove={() =>
+                                    setNewRule({ ...newRule, conditions: { ...newRule.conditions, when: undefined } })
+                                }
+                            />
+                        ) : (
+                            <button
+                                className='trade-rules__cancel-btn'
+                                onClick={() =>
+                                    setNewRule({
+                                        ...newRule,
+                                        conditions: { ...newRule.conditions, when: createDefaultCondition('group') },
+                                    })
+                                }
+                            >
+                                Add Conditions
+                            </button>
+                        )}
+                    </div>
+
                     <div className='trade-rules__form-actions'>
                         <button className='trade-rules__save-btn' onClick={handleAddRule}>
                             Save Rule
@@ -219,6 +317,9 @@ export const TradeRules: React.FC<TradeRulesProps> = ({ rules, onAddRule, onDele
                                     {rule.conditions.maxPerMinute && (
                                         <span>Max/Min: {rule.conditions.maxPerMinute}</span>
                                     )}
+                                    {rule.conditions.when && (
+                                        <span>When: {describeCondition(rule.conditions.when)}</span>
+                                    )}
                                 </div>
                             )}
                         </div>
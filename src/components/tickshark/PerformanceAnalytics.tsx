@@ -5,6 +5,7 @@
 
 import React, { useEffect, useState, useCallback } from 'react';
 import { analyticsService } from '../../services/tickshark/analytics.service';
+import { simulationService } from '../../services/tickshark/simulation.service';
 import {
   AnalyticsFilter,
   OptimizationInsight,
@@ -13,6 +14,7 @@ import {
   SignalTypeMetrics,
   TIME_RANGE_PRESETS,
   TimeBasedMetrics} from '../../types/tickshark/analytics.types';
+import { SimulationResult } from '../../types/tickshark/simulation.types';
 import './PerformanceAnalytics.scss';
 
 interface PerformanceAnalyticsProps {
@@ -34,6 +36,7 @@ export const PerformanceAnalytics: React.FC<PerformanceAnalyticsProps> = ({
   const [timeMetrics, setTimeMetrics] = useState<TimeBasedMetrics[]>([]);
   const [insights, setInsights] = useState<OptimizationInsight[]>([]);
   const [charts, setCharts] = useState<PerformanceChart[]>([]);
+  const [simulationResult, setSimulationResult] = useState<SimulationResult | null>(null);
   const [filter, setFilter] = useState<AnalyticsFilter>({
     timeRange: TIME_RANGE_PRESETS.LAST_24_HOURS(),
     includeSimulation: false
@@ -80,6 +83,7 @@ export const PerformanceAnalytics: React.FC<PerformanceAnalyticsProps> = ({
       setTimeMetrics(timeBasedMetrics);
       setInsights(optimizationInsights);
       setCharts(performanceCharts);
+      setSimulationResult(simulationService.getLastResult());
       setLastUpdate(Date.now());
 
     } catch (error) {
@@ -98,6 +102,16 @@ export const PerformanceAnalytics: React.FC<PerformanceAnalyticsProps> = ({
     }
   }, [loadAnalytics, autoRefresh, refreshInterval]);
 
+  // Show the simulation report as soon as it is available
+  useEffect(() => {
+    return simulationService.subscribe(state => {
+      if (state.status === 'COMPLETED') {
+        setFilter(prev => (prev.includeSimulation ? prev : { ...prev, includeSimulation: true }));
+        loadAnalytics();
+      }
+    });
+  }, [loadAnalytics]);
+
   const handleTimeRangeChange = (rangeKey: string) => {
     const timeRange = TIME_RANGE_PRESETS[rangeKey]();
     setFilter(prev => ({ ...prev, timeRange }));
@@ -348,6 +362,42 @@ export const PerformanceAnalytics: React.FC<PerformanceAnalyticsProps> = ({
                 </div>
               </div>
 
+              {filter.includeSimulation && simulationResult && (
+                <div className="summary-card">
+                  <h5>🧪 Last Simulation ({simulationResult.config.mode.replace('_', ' ')})</h5>
+                  <div className="summary-stats">
+                    <div className="stat-item">
+                      <span className="stat-label">Ticks Processed:</span>
+                      <span className="stat-value">{simulationResult.ticksProcessed}</span>
+                    </div>
+                    <div className="stat-item">
+                      <span className="stat-label">Trades Executed:</span>
+                      <span className="stat-value">
+                        {simulationResult.tradesExecuted} / {simulationResult.tradingResults.totalTrades}
+                      </span>
+                    </div>
+                    <div className="stat-item">
+                      <span className="stat-label">Win Rate:</span>
+                      <span className="stat-value">{formatPercent(simulationResult.tradingResults.winRate)}</span>
+                    </div>
+                    <div className="stat-item">
+                      <span className="stat-label">Net Profit:</span>
+                      <span className={`stat-value ${simulationResult.tradingResults.netProfit > 0 ? 'good' : 'poor'}`}>
+                        {formatCurrency(simulationResult.tradingResults.netProfit)}
+                      </span>
+                    </div>
+                    <div className="stat-item">
+                      <span className="stat-label">Max Drawdown:</span>
+                      <span className="stat-value poor">{formatCurrency(simulationResult.tradingResults.maxDrawdown)}</span>
+                    </div>
+                    <div className="stat-item">
+                      <span className="stat-label">Average Latency:</span>
+                      <span className="stat-value">{Math.round(simulationResult.analysisResults.averageLatency)} ms</span>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <div className="summary-card">
                 <h5>⏱️ Time Analysis</h5>
                 <div className="summary-stats">
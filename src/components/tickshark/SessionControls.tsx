@@ -64,6 +64,14 @@ export const SessionControls: React.FC<SessionControlsProps> = ({
                     success = await sessionManagerService.endSession('User initiated');
                     break;
 
+                case 'pause_session':
+                    success = await sessionManagerService.pauseSession('User paused');
+                    break;
+
+                case 'resume_session':
+                    success = await sessionManagerService.resumeSession();
+                    break;
+
                 case 'reset_session':
                     success = await sessionManagerService.resetSession(true);
                     break;
@@ -276,10 +284,30 @@ export const SessionControls: React.FC<SessionControlsProps> = ({
                         New Session
                     </button>
 
+                    {sessionStats.current.status === 'PAUSED' ? (
+                        <button
+                            className="action-btn primary"
+                            onClick={() => handleSessionAction('resume_session', false)}
+                            disabled={isPerformingAction}
+                        >
+                            <span className="btn-icon">▶️</span>
+                            Resume Session
+                        </button>
+                    ) : (
+                        <button
+                            className="action-btn secondary"
+                            onClick={() => handleSessionAction('pause_session', false)}
+                            disabled={isPerformingAction || sessionStats.current.status !== 'ACTIVE'}
+                        >
+                            <span className="btn-icon">⏸️</span>
+                            Pause Session
+                        </button>
+                    )}
+
                     <button
                         className="action-btn secondary"
                         onClick={() => handleSessionAction('end_session')}
-                        disabled={isPerformingAction || sessionStats.current.endTime !== undefined}
+                        disabled={isPerformingAction || sessionStats.current.status === 'CLOSED'}
                     >
                         <span className="btn-icon">⏹️</span>
                         End Session
@@ -324,8 +352,25 @@ export const SessionControls: React.FC<SessionControlsProps> = ({
                         <button
                             className="action-btn secondary small"
                             onClick={() => {
-                                // This would open a file picker for import
-                                console.log('Import session functionality would go here');
+                                const input = document.createElement('input');
+                                input.type = 'file';
+                                input.accept = 'application/json';
+                                input.onchange = async () => {
+                                    const file = input.files?.[0];
+                                    if (!file) return;
+                                    try {
+                                        const imported = await sessionManagerService.importSession(
+                                            JSON.parse(await file.text())
+                                        );
+                                        if (!imported) {
+                                            throw new Error('Invalid or duplicate session file');
+                                        }
+                                        onSessionAction?.('import_session');
+                                    } catch (error) {
+                                        onError?.(error instanceof Error ? error.message : 'Import failed');
+                                    }
+                                };
+                                input.click();
                             }}
                             disabled={isPerformingAction}
                         >
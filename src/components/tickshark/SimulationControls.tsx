@@ -0,0 +1,114 @@
+/**
+ * TickShark Simulation Controls Component
+ * Starts simulation runs of the analysis pipeline and follows their progress
+ *
+ * - Historical replay, synthetic, hybrid and live paper runs
+ * - Progress, pause/resume and stop while a run is active
+ * - The finished report appears in Performance Analytics
+ */
+
+import React, { useEffect, useState } from 'react';
+import { simulationService } from '../../services/tickshark/simulation.service';
+import { SimulationMode, SimulationState } from '../../types/tickshark/simulation.types';
+import './SimulationControls.scss';
+
+export interface SimulationControlsProps {
+    symbol?: string;
+    onError?: (error: string) => void;
+}
+
+const MODES: { value: SimulationMode; label: string }[] = [
+    { value: 'HISTORICAL_REPLAY', label: 'Historical replay' },
+    { value: 'SYNTHETIC_DATA', label: 'Synthetic data' },
+    { value: 'HYBRID', label: 'Hybrid (replay + synthetic)' },
+    { value: 'LIVE_SIMULATION', label: 'Live ticks (paper)' },
+];
+
+export const SimulationControls: React.FC<SimulationControlsProps> = ({ symbol = 'R_100', onError }) => {
+    const [mode, setMode] = useState<SimulationMode>('HISTORICAL_REPLAY');
+    const [market, setMarket] = useState(symbol);
+    const [durationMinutes, setDurationMinutes] = useState(10);
+    const [state, setState] = useState<SimulationState | null>(() => simulationService.getState());
+
+    useEffect(() => simulationService.subscribe(setState), []);
+
+    const isActive = state?.status === 'INITIALIZING' || state?.status === 'RUNNING' || state?.status === 'PAUSED';
+
+    const handleRun = () => {
+        const { dataSource } = simulationService.getDefaultConfig();
+
+        simulationService
+            .runSimulation({
+                mode,
+                duration: durationMinutes * 60 * 1000,
+                dataSource: { ...dataSource, symbol: market },
+            })
+            .catch(error => {
+                const errorMessage = error instanceof Error ? error.message : 'Simulation failed';
+                onError?.(errorMessage);
+                console.error('🦈 Simulation failed:', errorMessage);
+            });
+    };
+
+    return (
+        <div className='simulation-controls'>
+            <div className='simulation-controls__form'>
+                <label>
+                    Mode
+                    <select value={mode} disabled={isActive} onChange={e => setMode(e.target.value as SimulationMode)}>
+                        {MODES.map(option => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Symbol
+                    <input value={market} disabled={isActive} onChange={e => setMarket(e.target.value.trim())} />
+                </label>
+                <label>
+                    Duration (minutes)
+                    <input
+                        type='number'
+                        min={1}
+                        value={durationMinutes}
+                        disabled={isActive}
+                        onChange={e => {
+                            const minutes = Number(e.target.value);
+                            if (minutes > 0) setDurationMinutes(minutes);
+                        }}
+                    />
+                </label>
+            </div>
+
+            <div className='simulation-controls__actions'>
+                {!isActive && (
+                    <button className='run-button' disabled={!market} onClick={handleRun}>
+                        ▶️ Run Simulation
+                    </button>
+                )}
+                {state?.status === 'RUNNING' && <button onClick={() => simulationService.pause()}>⏸️ Pause</button>}
+                {state?.status === 'PAUSED' && <button onClick={() => simulationService.resume()}>▶️ Resume</button>}
+                {isActive && <button onClick={() => simulationService.stop()}>⏹️ Stop</button>}
+            </div>
+
+            {state && (
+                <div className='simulation-controls__status' data-testid='dt_simulation_status'>
+                    <div className='status-row'>
+                        <span className={`status-badge ${state.status.toLowerCase()}`}>{state.status}</span>
+                        <span>{Math.round(state.progress * 100)}%</span>
+                        <span>{state.ticksProcessed} ticks</span>
+                        <span>{state.tradesExecuted} trades</span>
+                    </div>
+                    <div className='progress-track'>
+                        <div className='progress-fill' style={{ width: `${Math.round(state.progress * 100)}%` }}></div>
+                    </div>
+                    {state.errors.length > 0 && (
+                        <div className='status-error'>{state.errors[state.errors.length - 1]}</div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
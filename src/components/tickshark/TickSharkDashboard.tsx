@@ -15,6 +15,7 @@ import { SessionControls } from './SessionControls';
 import { MarketAnalysis } from './MarketAnalysis';
 import { SettingsPanel } from './SettingsPanel';
 import { PerformanceAnalytics } from './PerformanceAnalytics';
+import { SimulationControls } from './SimulationControls';
 import { modeManagerService, TradingMode } from '../../services/tickshark/mode-manager.service';
 import { sessionManagerService } from '../../services/tickshark/session-manager.service';
 import './TickSharkDashboard.scss';
@@ -394,6 +395,8 @@ export const TickSharkDashboard: React.FC<TickSharkDashboardProps> = ({
                             <h3>Performance Analytics</h3>
                             <p>Advanced performance analysis and optimization insights</p>
                         </div>
+
+                        <SimulationControls onError={onError} />
                         
                         <PerformanceAnalytics
                             compact={compactMode}
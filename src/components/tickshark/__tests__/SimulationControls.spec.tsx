@@ -0,0 +1,40 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { simulationService } from '../../../services/tickshark/simulation.service';
+import { SimulationControls } from '../SimulationControls';
+
+jest.mock('../../../services/tickshark/tick-listener.service', () => ({
+    tickListenerService: {
+        subscribe: jest.fn(() => () => undefined),
+        getTickBuffers: jest.fn(() => ({})),
+        restoreTickBuffers: jest.fn(),
+    },
+}));
+
+describe('<SimulationControls/>', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('runs the selected simulation and shows its progress', async () => {
+        render(<SimulationControls />);
+
+        await userEvent.selectOptions(screen.getByLabelText('Mode'), 'SYNTHETIC_DATA');
+        await userEvent.tripleClick(screen.getByLabelText('Duration (minutes)'));
+        await userEvent.keyboard('1');
+        await userEvent.click(screen.getByRole('button', { name: /Run Simulation/ }));
+
+        expect(await screen.findByText('COMPLETED')).toBeInTheDocument();
+        expect(screen.getByTestId('dt_simulation_status')).toHaveTextContent('60 ticks');
+        expect(simulationService.getLastResult()?.config).toMatchObject({
+            mode: 'SYNTHETIC_DATA',
+            duration: 60_000,
+            dataSource: expect.objectContaining({ symbol: 'R_100' }),
+        });
+        expect(screen.getByRole('button', { name: /Run Simulation/ })).toBeInTheDocument();
+    });
+});
@@ -7,7 +7,7 @@ import DesktopTransactionTable from './desktop-transaction-table';
 import { TColumn, TRunPanelStore, TTransactionStore } from './transaction-details.types';
 import './transaction-details-desktop.scss';
 
-const transaction_columns = (): TColumn[] => [
+export const transaction_columns = (): TColumn[] => [
     { key: 'timestamp', label: localize('Timestamp'), extra_class: '--grow-big' },
     { key: 'reference', label: localize('Reference'), extra_class: '--grow-mid' },
     { key: 'market', label: localize('Market') },
@@ -19,7 +19,7 @@ const transaction_columns = (): TColumn[] => [
 ];
 
 /* TODO: Add back account & balance when we have support from transaction store */
-const result_columns = (): TColumn[] => [
+export const result_columns = (): TColumn[] => [
     { key: 'account', label: localize('Account'), extra_class: '--grow-mid' },
     { key: 'no_of_runs', label: localize('No. of runs') },
     { key: 'total_stake', label: localize('Total stake') },
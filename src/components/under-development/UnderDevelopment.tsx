@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import { DBOT_TABS } from '@/constants/bot-contents';
+import { appEventBus } from '@/services/app-event-bus.service';
 import './UnderDevelopment.scss';
 
 interface UnderDevelopmentProps {
@@ -41,8 +43,8 @@ export const UnderDevelopment: React.FC<UnderDevelopmentProps> = ({ featureName,
         if (onNavigateBack) {
             onNavigateBack();
         } else {
-            // Default: go to Dashboard (tab 0)
-            window.dispatchEvent(new CustomEvent('switch.tab', { detail: { tabIndex: 0 } }));
+            // Default: go to Dashboard
+            appEventBus.publish('switch.tab', { tab: DBOT_TABS.DASHBOARD }, 'UnderDevelopment');
         }
     };
 
@@ -1,4 +1,5 @@
 import React, { useEffect, useRef } from 'react';
+import { appEventBus } from '@/services/app-event-bus.service';
 import './TickSpeedTradingWidget.scss';
 
 interface TickSpeedTradingWidgetProps {
@@ -39,7 +40,7 @@ export const TickSpeedTradingWidget: React.FC<TickSpeedTradingWidgetProps> = ({
                 case 'RISK_LIMIT_REACHED':
                     // Handle risk limit events
                     console.warn('🚫 RISK LIMIT REACHED:', data);
-                    window.dispatchEvent(new CustomEvent('riskLimitReached', { detail: data }));
+                    appEventBus.publish('risk.limit.reached', data, 'TickSpeedTradingWidget');
                     break;
                 case 'EMERGENCY_STOP_ACTIVATED':
                     console.warn('🚨 EMERGENCY STOP ACTIVATED');
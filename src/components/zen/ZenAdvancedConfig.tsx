@@ -24,6 +24,7 @@ export interface AdvancedZenConfig {
 
     // Strategy Optimization
     multiStrategyMode: boolean;
+    strategyLegs?: StrategyLeg[];
     autoStrategySwitch: boolean;
     strategyPerformanceWindow: number;
     customStrategies: CustomStrategy[];
@@ -53,6 +54,15 @@ export interface AdvancedZenConfig {
     experimentalFeatures: boolean;
 }
 
+interface StrategyLeg {
+    strategy: LegStrategy;
+    market: string;
+}
+
+type LegStrategy = 'Even' | 'Odd' | 'Matches' | 'Differs' | 'Over' | 'Under' | 'Rise' | 'Fall';
+
+const LEG_STRATEGIES: LegStrategy[] = ['Even', 'Odd', 'Matches', 'Differs', 'Over', 'Under', 'Rise', 'Fall'];
+
 interface CustomStrategy {
     id: string;
     name: string;
@@ -97,6 +107,14 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
         handleConfigUpdate({ [key]: value });
     };
 
+    const strategyLegs = config.strategyLegs ?? [];
+
+    const handleLegChange = (index: number, updates: Partial<StrategyLeg>) => {
+        handleConfigUpdate({
+            strategyLegs: strategyLegs.map((leg, i) => (i === index ? { ...leg, ...updates } : leg)),
+        });
+    };
+
     if (!isVisible) return null;
 
     return (
@@ -186,7 +204,7 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
                                         onChange={() => handleToggle('volatilityAdjustment')}
                                     />
                                     <span>Volatility-Based Adjustment</span>
-                                    <small>Reduce stakes during high volatility periods</small>
+                                    <small>Scale stakes to recent tick volatility (smaller when choppy)</small>
                                 </label>
                             </div>
 
@@ -199,7 +217,7 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
                                     min='0'
                                     max='100'
                                 />
-                                <small>Maximum correlation exposure between strategies</small>
+                                <small>Skip markets correlated above this % with open trades</small>
                             </div>
 
                             <div className='zen-advanced-config__group'>
@@ -210,7 +228,7 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
                                         onChange={() => handleToggle('drawdownProtection')}
                                     />
                                     <span>Drawdown Protection</span>
-                                    <small>Auto-reduce stakes during losing streaks</small>
+                                    <small>Halve stakes past half the limit and halt trading at the limit</small>
                                 </label>
                             </div>
 
@@ -223,7 +241,7 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
                                     min='1'
                                     max='50'
                                 />
-                                <small>Stop trading if drawdown exceeds this percentage</small>
+                                <small>Stop trading once the drop from the session peak reaches this percentage</small>
                             </div>
                         </div>
                     )}
@@ -240,10 +258,61 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
                                         onChange={() => handleToggle('multiStrategyMode')}
                                     />
                                     <span>Multi-Strategy Portfolio</span>
-                                    <small>Run multiple strategies simultaneously with allocation</small>
+                                    <small>Trade the extra strategy legs below alongside the main strategy</small>
                                 </label>
                             </div>
 
+                            {config.multiStrategyMode && (
+                                <div className='zen-advanced-config__group'>
+                                    <h4>Strategy Legs</h4>
+                                    {strategyLegs.map((leg, index) => (
+                                        <div key={index} className='zen-advanced-config__leg'>
+                                            <select
+                                                value={leg.strategy}
+                                                onChange={e =>
+                                                    handleLegChange(index, { strategy: e.target.value as LegStrategy })
+                                                }
+                                            >
+                                                {LEG_STRATEGIES.map(strategy => (
+                                                    <option key={strategy} value={strategy}>
+                                                        {strategy}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <input
+                                                type='text'
+                                                value={leg.market}
+                                                placeholder='Market symbol, e.g. R_50'
+                                                onChange={e =>
+                                                    handleLegChange(index, { market: e.target.value.trim() })
+                                                }
+                                            />
+                                            <button
+                                                className='zen-advanced-config__btn'
+                                                onClick={() =>
+                                                    handleConfigUpdate({
+                                                        strategyLegs: strategyLegs.filter((_, i) => i !== index),
+                                                    })
+                                                }
+                                            >
+                                                Remove
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <button
+                                        className='zen-advanced-config__btn'
+                                        onClick={() =>
+                                            handleConfigUpdate({
+                                                strategyLegs: [...strategyLegs, { strategy: 'Even', market: 'R_100' }],
+                                            })
+                                        }
+                                    >
+                                        + Add Leg
+                                    </button>
+                                    <small>Each leg keeps at most one open contract on its own market</small>
+                                </div>
+                            )}
+
                             <div className='zen-advanced-config__group'>
                                 <label className='zen-advanced-config__toggle'>
                                     <input
@@ -346,7 +415,7 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
                                         onChange={() => handleToggle('smartOrderRouting')}
                                     />
                                     <span>Smart Order Routing</span>
-                                    <small>Optimize trade execution timing and routing</small>
+                                    <small>Buy in one request, skipping the proposal step</small>
                                 </label>
                             </div>
 
@@ -358,7 +427,7 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
                                         onChange={() => handleToggle('slippageProtection')}
                                     />
                                     <span>Slippage Protection</span>
-                                    <small>Prevent execution at unfavorable prices</small>
+                                    <small>Reject proposals whose price moved beyond the max slippage</small>
                                 </label>
                             </div>
 
@@ -0,0 +1,55 @@
+/**
+ * Zen Execution Mode Control
+ * Selects where rule-engine trade intents go: the paper account or the real buy API on a demo account
+ */
+
+import React from 'react';
+import type { RuleExecutionMode, RuleExecutionSettings } from '@/engine/executionSettings';
+import './ZenExecutionModeControl.scss';
+
+interface ZenExecutionModeControlProps {
+    settings: RuleExecutionSettings;
+    onChange: (settings: RuleExecutionSettings) => void;
+    disabled?: boolean; // The executor cannot change while rules are trading
+}
+
+export const ZenExecutionModeControl: React.FC<ZenExecutionModeControlProps> = ({
+    settings,
+    onChange,
+    disabled = false,
+}) => (
+    <div className='zen-execution-mode'>
+        <div className='config-row'>
+            <label htmlFor='zen-execution-mode'>Rule Execution:</label>
+            <select
+                id='zen-execution-mode'
+                value={settings.mode}
+                disabled={disabled}
+                onChange={e => onChange({ ...settings, mode: e.target.value as RuleExecutionMode })}
+            >
+                <option value='paper'>Paper (simulated balance)</option>
+                <option value='demo'>Demo account (real buy API)</option>
+            </select>
+        </div>
+
+        {settings.mode === 'paper' ? (
+            <div className='config-row'>
+                <label htmlFor='zen-paper-balance'>Paper Balance:</label>
+                <input
+                    id='zen-paper-balance'
+                    type='number'
+                    min={1}
+                    step={100}
+                    value={settings.paperBalance}
+                    disabled={disabled}
+                    onChange={e => {
+                        const paperBalance = Number(e.target.value);
+                        if (paperBalance > 0) onChange({ ...settings, paperBalance });
+                    }}
+                />
+            </div>
+        ) : (
+            <p className='zen-execution-mode__hint'>Trades are only placed when a virtual (VRTC) account is active.</p>
+        )}
+    </div>
+);
@@ -24,6 +24,9 @@ export interface ZenTransaction {
     proposalId?: string;
     buyPrice?: number;
     transactionId?: number;
+    exitDigit?: number;
+    settlement?: 'estimated' | 'confirmed';
+    correctedFrom?: { status: 'won' | 'lost'; profit: number };
 }
 
 interface ZenTransactionHistoryProps {
@@ -64,6 +67,8 @@ export const ZenTransactionHistory: React.FC<ZenTransactionHistoryProps> = ({ tr
         losses: transactions.filter(tx => tx.status === 'lost').length,
         errors: transactions.filter(tx => tx.status === 'error' || tx.status === 'cancelled').length,
         pending: transactions.filter(tx => tx.status === 'pending').length,
+        unconfirmed: transactions.filter(tx => tx.settlement === 'estimated').length,
+        corrected: transactions.filter(tx => tx.correctedFrom).length,
         totalProfit: transactions.reduce((sum, tx) => sum + (tx.profit || 0), 0),
         totalStake: transactions.reduce((sum, tx) => sum + tx.stake, 0),
         winRate:
@@ -96,6 +101,8 @@ export const ZenTransactionHistory: React.FC<ZenTransactionHistoryProps> = ({ tr
                 'Stake',
                 'Profit',
                 'Status',
+                'Settlement',
+                'Estimated Profit',
                 'Duration',
                 'Contract ID',
                 'Time',
@@ -112,6 +119,8 @@ export const ZenTransactionHistory: React.FC<ZenTransactionHistoryProps> = ({ tr
                 tx.stake.toFixed(2),
                 (tx.profit || 0).toFixed(2),
                 tx.status,
+                tx.settlement || 'N/A',
+                tx.correctedFrom ? tx.correctedFrom.profit.toFixed(2) : 'N/A',
                 tx.duration,
                 tx.contractId || 'N/A',
                 new Date(tx.timestamp).toLocaleString(),
@@ -271,6 +280,8 @@ export const ZenTransactionHistory: React.FC<ZenTransactionHistoryProps> = ({ tr
                             {summary.total > 0 && (
                                 <>
                                     <small>Avg P&L: ${(summary.totalProfit / summary.total).toFixed(2)}</small>
+                                    {summary.unconfirmed > 0 && <small>Unconfirmed: {summary.unconfirmed}</small>}
+                                    {summary.corrected > 0 && <small>Corrected by Deriv: {summary.corrected}</small>}
                                     {summary.totalStake > 0 && (
                                         <small>
                                             ROI: {((summary.totalProfit / summary.totalStake) * 100).toFixed(1)}%
@@ -365,7 +376,7 @@ export const ZenTransactionHistory: React.FC<ZenTransactionHistoryProps> = ({ tr
                                                 {tx.status === 'pending'
                                                     ? '...'
                                                     : tx.exitSpot
-                                                      ? `${tx.exitSpot.toFixed(4)} (${Math.floor((tx.exitSpot * 10000) % 10)})`
+                                                      ? `${tx.exitSpot.toFixed(4)} (${tx.exitDigit ?? Math.floor((tx.exitSpot * 10000) % 10)})`
                                                       : 'N/A'}
                                             </span>
                                         </div>
@@ -392,6 +403,7 @@ export const ZenTransactionHistory: React.FC<ZenTransactionHistoryProps> = ({ tr
                                                 : tx.status === 'cancelled'
                                                   ? '🚫 CANCELLED'
                                                   : '⏳ PENDING'}
+                                        {tx.settlement === 'estimated' && ' (est.)'}
                                     </span>
                                     <div className='zen-transaction-history__item-profit-details'>
                                         <span
@@ -415,6 +427,13 @@ export const ZenTransactionHistory: React.FC<ZenTransactionHistoryProps> = ({ tr
                                         )}
                                     </div>
                                 </div>
+                                {tx.correctedFrom && (
+                                    <div className='zen-transaction-history__item-correction'>
+                                        Corrected by Deriv: estimated {tx.correctedFrom.status} (
+                                        {tx.correctedFrom.profit >= 0 ? '+' : ''}
+                                        {tx.correctedFrom.profit.toFixed(2)})
+                                    </div>
+                                )}
                                 {tx.error && (
                                     <div className='zen-transaction-history__item-error'>Error: {tx.error}</div>
                                 )}
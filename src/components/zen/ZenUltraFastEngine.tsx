@@ -7,9 +7,17 @@
  */
 
 import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
-import { TradeExecutor } from '@/engine/executor';
+import {
+    createIntentExecutor,
+    loadExecutionSettings,
+    type RuleExecutionSettings,
+    saveExecutionSettings,
+} from '@/engine/executionSettings';
+import type { IntentExecutor } from '@/engine/executor';
+import { PaperTradeExecutor } from '@/engine/paperExecutor';
 import { type RiskLimits, RiskManager } from '@/engine/riskManager';
 import { RuleEngine, type TradeIntent, type TradeRule } from '@/engine/ruleEngine';
+import { loadSavedRules, saveRules } from '@/engine/ruleLibrary';
 import { type DigitChangeEvent, TickStateManager } from '@/engine/tickState';
 import { TradeQueue } from '@/engine/tradeQueue';
 import { api_base } from '@/external/bot-skeleton/services/api/api-base';
@@ -20,6 +28,7 @@ import {
     type UltraFastConfig,
     zenUltraFastExecution,
 } from '@/services/zen-ultra-fast-execution.service';
+import { ZenExecutionModeControl } from './ZenExecutionModeControl';
 
 interface UltraFastStats {
     totalTrades: number;
@@ -43,8 +52,31 @@ interface CentralizedMartingale {
     getCurrentStake: () => number;
 }
 
+/**
+ * Zen page settings read by the engine
+ */
+interface ZenUltraFastEngineSettings {
+    market: string;
+    tradeType: string;
+    stake: number;
+    duration?: number;
+    barrier?: number | string;
+    prediction?: number | string;
+    enableTickTrading?: boolean;
+    ultraFastMode?: boolean;
+    ultraFastInterval?: number;
+    tradesPerPriceChange?: number;
+    maxConcurrentTrades?: number;
+    fireAndForget?: boolean;
+    batchBalanceUpdates?: boolean;
+    enableMartingale?: boolean;
+    martingaleMultiplier?: number;
+    martingaleMaxSteps?: number;
+    martingaleResetOnWin?: boolean;
+}
+
 interface ZenUltraFastEngineProps {
-    settings: any;
+    settings: ZenUltraFastEngineSettings;
     onTradeExecuted?: (transaction: any) => void;
     onStatsUpdate?: (stats: UltraFastStats) => void;
     onSpeedUpdate?: (speed: number) => void;
@@ -70,6 +102,7 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
         // Tick-driven engine state
         const [tickDrivenMode, setTickDrivenMode] = useState(false);
         const [tradeRules, setTradeRules] = useState<TradeRule[]>([]);
+        const [executionSettings, setExecutionSettings] = useState<RuleExecutionSettings>(loadExecutionSettings);
         const [tickStats, setTickStats] = useState({
             totalTicks: 0,
             digitChanges: 0,
@@ -84,7 +117,7 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
         const ruleEngineRef = useRef<RuleEngine | null>(null);
         const tradeQueueRef = useRef<TradeQueue | null>(null);
         const riskManagerRef = useRef<RiskManager | null>(null);
-        const tradeExecutorRef = useRef<TradeExecutor | null>(null);
+        const tradeExecutorRef = useRef<IntentExecutor | null>(null);
 
         const tickSubscriptionRef = useRef<string | null>(null);
         const lastTickRef = useRef(0);
@@ -140,8 +173,11 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
             // Initialize tick state manager
             tickStateManagerRef.current = new TickStateManager();
 
-            // Initialize rule engine
+            // Initialize rule engine with the rules saved in the last session
             ruleEngineRef.current = new RuleEngine();
+            const savedRules = loadSavedRules();
+            savedRules.forEach(rule => ruleEngineRef.current?.addRule(rule));
+            setTradeRules(savedRules);
 
             // Initialize trade queue
             tradeQueueRef.current = new TradeQueue();
@@ -159,20 +195,19 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
             };
             riskManagerRef.current = new RiskManager(riskLimits);
 
-            // Initialize simulated trade executor
-            tradeExecutorRef.current = new TradeExecutor({
-                simulationMode: true, // Always simulated for safety
-                winRate: 0.5, // 50% win rate simulation
-                payoutMultiplier: 1.9, // 1.9x payout
-                executionDelay: { min: 50, max: 200 }, // 50-200ms execution delay
-                errorRate: 0.05, // 5% error rate
-            });
+            // Rules are validated on paper first and only reach the real buy API on a demo account
+            tradeExecutorRef.current = createIntentExecutor(executionSettings, settings.market);
 
             // Set up event handlers
             setupTickDrivenEventHandlers();
 
             console.log('✅ Tick-driven engine initialized');
-        }, [settings.market, settings.tradesPerPriceChange, settings.maxConcurrentTrades]);
+        }, [
+            settings.market,
+            settings.tradesPerPriceChange,
+            settings.maxConcurrentTrades,
+            executionSettings,
+        ]);
 
         /**
          * Set up event handlers for tick-driven engine
@@ -193,11 +228,15 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
                     return;
                 }
 
+                // Settle open paper contracts before new intents are generated from this tick
+                tradeExecutorRef.current?.onTick?.(tickData);
+
                 // Process tick through state manager
                 const hasDigitChanged = tickStateManagerRef.current.processTick(tickData);
 
                 // Update stats
                 const stats = tickStateManagerRef.current.getStats();
+                ruleEngineRef.current.observeDigit(tickData.lastDigit, stats.totalTicks);
                 setTickStats({
                     totalTicks: stats.totalTicks,
                     digitChanges: stats.digitChanges,
@@ -247,31 +286,40 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
                 // Record trade with risk manager
                 riskManagerRef.current.recordTrade(intent.stake);
 
-                // Execute trade (simulated)
-                const result = await tradeExecutorRef.current.executeTradeIntent(intent);
-
-                // Record completion with risk manager
-                riskManagerRef.current.recordTradeCompletion(result.simulatedPnL);
-
-                // Martingale state is now managed centrally in Zen page
-                // No local state updates needed - handled by handleTradeExecuted callback
-
-                // Notify parent component
-                if (onTradeExecuted) {
-                    const transaction = {
-                        id: result.id,
-                        contractId: result.id,
-                        type: intent.contractType,
-                        market: settings.market,
-                        entryTick: intent.price,
-                        stake: intent.stake,
-                        timestamp: result.timestamp,
-                        status: result.simulatedOutcome,
-                        profit: result.simulatedPnL,
-                        executionTime: result.executionTime,
-                    };
-                    onTradeExecuted(transaction);
-                }
+                // Settlement arrives on later ticks, so the queue moves on once the trade is placed
+                tradeExecutorRef.current.executeTradeIntent(intent).then(result => {
+                    // Record completion with risk manager
+                    riskManagerRef.current?.recordTradeCompletion(result.simulatedPnL);
+
+                    if (result.status === 'error') {
+                        console.log('🚫 Trade intent not executed:', result.error);
+                        return;
+                    }
+
+                    // Feeds the rule's recent-outcome conditions
+                    ruleEngineRef.current?.recordOutcome(intent.ruleId, result.simulatedOutcome);
+
+                    // Martingale state is now managed centrally in Zen page
+                    // No local state updates needed - handled by handleTradeExecuted callback
+
+                    // Notify parent component
+                    if (onTradeExecuted) {
+                        const transaction = {
+                            id: result.id,
+                            contractId: result.contractId || result.id,
+                            type: intent.contractType,
+                            market: settings.market,
+                            entryTick: result.entrySpot ?? intent.price,
+                            exitTick: result.exitSpot,
+                            stake: intent.stake,
+                            timestamp: result.timestamp,
+                            status: result.simulatedOutcome,
+                            profit: result.simulatedPnL,
+                            executionTime: result.executionTime,
+                        };
+                        onTradeExecuted(transaction);
+                    }
+                });
             });
 
             console.log('✅ Tick-driven event handlers set up');
@@ -310,6 +358,10 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
                 tradeQueueRef.current.clearQueue();
             }
 
+            if (tradeExecutorRef.current instanceof PaperTradeExecutor) {
+                tradeExecutorRef.current.cancelOpenContracts();
+            }
+
             setTickDrivenMode(false);
             console.log('✅ Tick-driven trading stopped');
         }, []);
@@ -324,6 +376,7 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
             }
 
             ruleEngineRef.current.addRule(rule);
+            saveRules(ruleEngineRef.current.getRules());
             setTradeRules(prev => [...prev, rule]);
             console.log('✅ Trade rule added:', rule.name);
         }, []);
@@ -338,10 +391,19 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
             }
 
             ruleEngineRef.current.removeRule(ruleId);
+            saveRules(ruleEngineRef.current.getRules());
             setTradeRules(prev => prev.filter(rule => rule.id !== ruleId));
             console.log('✅ Trade rule removed:', ruleId);
         }, []);
 
+        /**
+         * Switch between the paper and demo account executors; the engine re-initializes with the new one
+         */
+        const updateExecutionSettings = useCallback((next: RuleExecutionSettings) => {
+            saveExecutionSettings(next);
+            setExecutionSettings(next);
+        }, []);
+
         /**
          * Toggle a trading rule
          */
@@ -352,6 +414,7 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
             }
 
             ruleEngineRef.current.toggleRule(ruleId, enabled);
+            saveRules(ruleEngineRef.current.getRules());
             setTradeRules(prev => prev.map(rule => (rule.id === ruleId ? { ...rule, enabled } : rule)));
             console.log(`✅ Trade rule ${enabled ? 'enabled' : 'disabled'}:`, ruleId);
         }, []);
@@ -728,6 +791,12 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
                     )}
                 </div>
 
+                <ZenExecutionModeControl
+                    settings={executionSettings}
+                    onChange={updateExecutionSettings}
+                    disabled={tickDrivenMode}
+                />
+
                 {/* Performance Indicators */}
                 {isActive && (
                     <div className='performance-indicators'>
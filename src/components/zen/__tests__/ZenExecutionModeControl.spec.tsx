@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {
+    createIntentExecutor,
+    loadExecutionSettings,
+    type RuleExecutionSettings,
+    saveExecutionSettings,
+} from '../../../engine/executionSettings';
+import { ZenExecutionModeControl } from '../ZenExecutionModeControl';
+
+// Same wiring as the Ultra-Fast engine: every change is saved and picked up on the next load
+const SavedControl = ({ disabled }: { disabled?: boolean }) => {
+    const [settings, setSettings] = useState<RuleExecutionSettings>(loadExecutionSettings);
+    return (
+        <ZenExecutionModeControl
+            settings={settings}
+            disabled={disabled}
+            onChange={next => {
+                saveExecutionSettings(next);
+                setSettings(next);
+            }}
+        />
+    );
+};
+
+describe('<ZenExecutionModeControl/>', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('defaults to paper trading with an editable balance', async () => {
+        render(<SavedControl />);
+
+        expect(screen.getByLabelText('Rule Execution:')).toHaveValue('paper');
+        // A cleared field is not a balance, so the value is replaced in one edit
+        await userEvent.tripleClick(screen.getByLabelText('Paper Balance:'));
+        await userEvent.keyboard('250');
+
+        expect(loadExecutionSettings()).toEqual({ mode: 'paper', paperBalance: 250 });
+        expect(createIntentExecutor(loadExecutionSettings(), 'R_100').mode).toBe('paper');
+    });
+
+    it('selects demo mode, which sends rule intents to the demo account executor', async () => {
+        render(<SavedControl />);
+
+        await userEvent.selectOptions(screen.getByLabelText('Rule Execution:'), 'demo');
+
+        expect(screen.queryByLabelText('Paper Balance:')).not.toBeInTheDocument();
+        expect(screen.getByText(/virtual \(VRTC\) account/)).toBeInTheDocument();
+        expect(loadExecutionSettings().mode).toBe('demo');
+        expect(createIntentExecutor(loadExecutionSettings(), 'R_100').mode).toBe('demo');
+    });
+
+    it('cannot change the executor while rules are trading', () => {
+        render(<SavedControl disabled />);
+
+        expect(screen.getByLabelText('Rule Execution:')).toBeDisabled();
+    });
+});
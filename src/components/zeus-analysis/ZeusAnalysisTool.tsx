@@ -1,5 +1,10 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { DBOT_TABS } from '../../constants/bot-contents';
+import { appEventBus } from '../../services/app-event-bus.service';
+import { derivConnectionPool } from '../../services/deriv-connection-pool.service';
+import { historicalTickLoader } from '../../services/historical-tick-loader.service';
 import { patelBotLoaderService } from '../../services/patel-bot-loader.service';
+import { DEFAULT_TICK_REPLAY_BUFFER } from '../../services/tick-stream-multiplexer.service';
 import { Alert, AlertManager, checkForAlerts, DEFAULT_ALERT_SETTINGS } from '../../utils/alert-manager';
 import { logError } from '../../utils/error-logger';
 import { DEFAULT_NOTIFICATION_SETTINGS, NotificationManager } from '../../utils/notification-manager';
@@ -73,6 +78,21 @@ const MARKETS = [
     { value: '1HZ100V', label: 'Volatility 100 (1s)' },
 ];
 
+// Extract last digit from price
+const getLastDigit = (price: number): number => {
+    const priceStr = price.toString();
+    const lastChar = priceStr[priceStr.length - 1];
+    return parseInt(lastChar, 10);
+};
+
+const toTickData = (epoch: number, quote: number, source: TickData['source']): TickData => ({
+    epoch,
+    quote,
+    lastDigit: getLastDigit(quote),
+    source,
+    localTime: new Date(epoch * 1000).toISOString(),
+});
+
 interface ZeusAnalysisToolProps {
     onNavigateToFreeBots?: () => void;
 }
@@ -92,11 +112,8 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
     const [error, setError] = useState<string | null>(null);
     const [predictionStrategy, setPredictionStrategy] = useState<PredictionStrategy>('ensemble');
 
-    // Auto-reconnection states
-    const [reconnectAttempts, setReconnectAttempts] = useState(0);
-    const [isReconnecting, setIsReconnecting] = useState(false);
-    const [maxReconnectAttempts] = useState(10);
-    const [reconnectDelay, setReconnectDelay] = useState(1000); // Start with 1 second
+    // Connection states
+    const [isConnecting, setIsConnecting] = useState(false);
     const [connectionHealth, setConnectionHealth] = useState<'healthy' | 'stale' | 'failed'>('healthy');
 
     // Prediction tracking states
@@ -115,124 +132,17 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
     // Constant for tick count
     const tickCount = 1000;
 
-    const wsRef = useRef<WebSocket | null>(null);
-    const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
+    const unsubscribeRef = useRef<(() => void) | null>(null);
+    const subscribeRequestRef = useRef(0);
+    const lastEpochRef = useRef(0);
+    const subscribeToMarketRef = useRef<() => void>(() => undefined);
     const statusIntervalRef = useRef<NodeJS.Timeout | null>(null);
-    const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-    const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
     const alertManagerRef = useRef<AlertManager>(new AlertManager(DEFAULT_ALERT_SETTINGS));
     const notificationManagerRef = useRef<NotificationManager>(new NotificationManager(DEFAULT_NOTIFICATION_SETTINGS));
     const signalCountdownRef = useRef<NodeJS.Timeout | null>(null);
     const predictionCheckRef = useRef<NodeJS.Timeout | null>(null);
 
-    // Extract last digit from price
-    const getLastDigit = (price: number): number => {
-        const priceStr = price.toString();
-        const lastChar = priceStr[priceStr.length - 1];
-        return parseInt(lastChar, 10);
-    };
-
-    // Auto-reconnection function with exponential backoff and better stale detection
-    const scheduleReconnect = useCallback(() => {
-        if (reconnectAttempts >= maxReconnectAttempts) {
-            console.log('❌ Max reconnection attempts reached');
-            setSyncStatus('Connection Failed - Max Retries Reached');
-            setIsReconnecting(false);
-            return;
-        }
-
-        setIsReconnecting(true);
-        setSyncStatus(`Reconnecting... (${reconnectAttempts + 1}/${maxReconnectAttempts})`);
-
-        const delay = Math.min(reconnectDelay * Math.pow(1.5, reconnectAttempts), 15000); // More gradual backoff, max 15 seconds
-        console.log(`🔄 Scheduling reconnection in ${delay}ms (attempt ${reconnectAttempts + 1})`);
-
-        reconnectTimeoutRef.current = setTimeout(() => {
-            setReconnectAttempts(prev => prev + 1);
-            connectWebSocket();
-        }, delay);
-    }, [reconnectAttempts, maxReconnectAttempts, reconnectDelay]);
-
-    // Reset reconnection state on successful connection
-    const resetReconnectionState = useCallback(() => {
-        setReconnectAttempts(0);
-        setIsReconnecting(false);
-        setReconnectDelay(1000);
-        if (reconnectTimeoutRef.current) {
-            clearTimeout(reconnectTimeoutRef.current);
-            reconnectTimeoutRef.current = null;
-        }
-    }, []);
-
-    // Heartbeat to detect connection issues with enhanced stale detection
-    const startHeartbeat = useCallback(() => {
-        if (heartbeatIntervalRef.current) {
-            clearInterval(heartbeatIntervalRef.current);
-        }
-
-        let lastPongTime = Date.now();
-        let missedPongs = 0;
-        const maxMissedPongs = 3;
-
-        heartbeatIntervalRef.current = setInterval(() => {
-            if (wsRef.current?.readyState === WebSocket.OPEN) {
-                const now = Date.now();
-
-                // Check if connection appears stale (no activity for 60 seconds)
-                if (lastSync && now - lastSync.getTime() > 60000) {
-                    console.warn('⚠️ Connection appears stale, reconnecting...');
-                    wsRef.current.close();
-                    scheduleReconnect();
-                    return;
-                }
-
-                // Send ping and track response
-                try {
-                    wsRef.current.send(
-                        JSON.stringify({
-                            ping: 1,
-                            req_id: `ping_${now}`,
-                        })
-                    );
-
-                    // Check if we've missed too many pongs
-                    if (now - lastPongTime > 90000) {
-                        // 90 seconds without pong
-                        missedPongs++;
-                        console.warn(`⚠️ Missed pong ${missedPongs}/${maxMissedPongs}`);
-
-                        if (missedPongs >= maxMissedPongs) {
-                            console.warn('⚠️ Connection failed');
-                            wsRef.current.close();
-                            scheduleReconnect();
-                            return;
-                        }
-                    }
-                } catch (error) {
-                    console.error('❌ Failed to send ping:', error);
-                    wsRef.current.close();
-                    scheduleReconnect();
-                }
-            } else if (wsRef.current?.readyState === WebSocket.CLOSED) {
-                console.log('💔 Heartbeat detected closed connection, attempting reconnect');
-                scheduleReconnect();
-            }
-        }, 30000); // Check every 30 seconds
-
-        // Reset pong tracking when we receive any message
-        const originalOnMessage = wsRef.current?.onmessage;
-        if (wsRef.current) {
-            wsRef.current.onmessage = event => {
-                lastPongTime = Date.now();
-                missedPongs = 0;
-                if (originalOnMessage) {
-                    originalOnMessage.call(wsRef.current, event);
-                }
-            };
-        }
-    }, [scheduleReconnect, lastSync]);
-
-    // Connection health monitor - runs independently to detect stale connections
+    // Connection health monitor - resubscribes when the stream stops delivering ticks
     useEffect(() => {
         const healthCheckInterval = setInterval(() => {
             if (!isConnected || !lastSync) {
@@ -247,12 +157,7 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
                 // 2 minutes without data
                 console.warn('⚠️ Connection health: STALE (no data for 2+ minutes)');
                 setConnectionHealth('stale');
-
-                // Force reconnection for stale connections
-                if (wsRef.current?.readyState === WebSocket.OPEN) {
-                    console.log('🔄 Forcing reconnection due to stale connection');
-                    wsRef.current.close();
-                }
+                subscribeToMarketRef.current();
             } else if (timeSinceLastSync > 60000) {
                 // 1 minute without data
                 console.warn('⚠️ Connection health: DEGRADED (no data for 1+ minute)');
@@ -265,297 +170,187 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
         return () => clearInterval(healthCheckInterval);
     }, [isConnected, lastSync]);
 
-    // Connect to Deriv WebSocket with enhanced error handling
-    const connectWebSocket = useCallback(() => {
-        // Clear any existing reconnection timeout
-        if (reconnectTimeoutRef.current) {
-            clearTimeout(reconnectTimeoutRef.current);
-            reconnectTimeoutRef.current = null;
-        }
-
-        if (wsRef.current?.readyState === WebSocket.OPEN) {
-            wsRef.current.close();
-        }
-
-        setIsLoading(true);
-        setError(null);
-
-        try {
-            const ws = new WebSocket('wss://ws.binaryws.com/websockets/v3?app_id=125045');
-            wsRef.current = ws;
-
-            // Set connection timeout - reduced for faster detection
-            const connectionTimeout = setTimeout(() => {
-                if (ws.readyState === WebSocket.CONNECTING) {
-                    console.log('⏰ Connection timeout, closing and retrying');
-                    ws.close();
-                    scheduleReconnect();
+    // Append a live tick from the shared stream and run the alert and prediction checks on it
+    const handleTick = useCallback(
+        (tickData: unknown) => {
+            const tick = (tickData as { tick?: { epoch: number; quote: number } })?.tick;
+            if (!tick?.quote || !tick?.epoch) return;
+
+            // Replayed ticks may already be part of the loaded history
+            if (tick.epoch <= lastEpochRef.current) return;
+            lastEpochRef.current = tick.epoch;
+
+            const newTick = toTickData(tick.epoch, tick.quote, 'live');
+            setTicks(prev => {
+                const updatedTicks = [...prev, newTick];
+
+                // Check for alerts with updated ticks
+                if (updatedTicks.length >= 10) {
+                    try {
+                        const predictions = getTopN(updatedTicks, 5);
+                        const currentAlertSettings = alertManagerRef.current.getSettings();
+                        const newAlerts = checkForAlerts(updatedTicks, predictions, currentAlertSettings);
+
+                        if (newAlerts.length > 0) {
+                            alertManagerRef.current.addAlerts(newAlerts);
+                            setAlerts(alertManagerRef.current.getAlerts());
+
+                            // Handle notifications for each new alert
+                            newAlerts.forEach(alert => {
+                                notificationManagerRef.current.handleAlert(alert);
+                            });
+                        }
+                    } catch (error) {
+                        logError(
+                            'ZeusAnalysisTool',
+                            error instanceof Error ? error : new Error('Failed to check for alerts'),
+                            'medium',
+                            {
+                                tickCount: updatedTicks.length,
+                            }
+                        );
+                        console.error('Failed to check for alerts:', error);
+                    }
                 }
-            }, 8000); // Reduced to 8 seconds
-
-            ws.onopen = () => {
-                clearTimeout(connectionTimeout);
-                console.log('✅ WebSocket connected successfully');
-                setIsConnected(true);
-                setSyncStatus('Connected');
-                resetReconnectionState();
-                startHeartbeat();
-
-                // Request historical ticks with live subscription
-                ws.send(
-                    JSON.stringify({
-                        ticks_history: selectedMarket,
-                        count: tickCount,
-                        end: 'latest',
-                        style: 'ticks',
-                        subscribe: 1, // Subscribe to live tick updates
-                    })
-                );
-                console.log('📡 Subscribed to live ticks for', selectedMarket);
-
-                // Subscribe to live ticks
-                ws.send(
-                    JSON.stringify({
-                        ticks: selectedMarket,
-                        subscribe: 1,
-                    })
-                );
-            };
 
-            ws.onmessage = event => {
-                try {
-                    const data = JSON.parse(event.data);
+                // Check prediction tracking
+                if (currentTracker && !currentTracker.matched) {
+                    if (newTick.lastDigit === currentTracker.predictedDigit) {
+                        const runNumber = updatedTicks.length;
+                        const updatedTracker = {
+                            ...currentTracker,
+                            matched: true,
+                            matchedAtRun: runNumber,
+                            matchedAtTime: newTick.epoch,
+                        };
 
-                    // Handle pong responses
-                    if (data.pong) {
-                        console.log('🏓 Pong received, connection alive');
-                        return;
-                    }
+                        setCurrentTracker(updatedTracker);
+                        setPredictionTrackers(prev => [...prev, updatedTracker]);
 
-                    if (data.error) {
-                        const errorMessage = `API Error: ${data.error.message}`;
-                        logError('ZeusAnalysisTool', errorMessage, 'high', {
-                            errorCode: data.error.code,
-                            market: selectedMarket,
-                        });
-                        setError(errorMessage);
-                        setSyncStatus('API Error');
-                        setIsLoading(false);
-                        return;
-                    }
+                        console.log(
+                            `🎯 PREDICTION MATCHED! Digit ${currentTracker.predictedDigit} appeared at run ${runNumber}`
+                        );
 
-                    // Update last sync time for any valid message
-                    setLastSync(new Date());
-
-                    if (data.history) {
-                        // Historical ticks
-                        const historicalTicks: TickData[] = data.history.times.map((epoch: number, idx: number) => {
-                            const quote = data.history.prices[idx];
-                            return {
-                                epoch,
-                                quote,
-                                lastDigit: getLastDigit(quote),
-                                source: 'historical' as const,
-                                localTime: new Date(epoch * 1000).toISOString(),
+                        // Show notification
+                        if (notificationManagerRef.current) {
+                            const matchAlert: Alert = {
+                                id: `match-${Date.now()}`,
+                                type: 'high-confidence',
+                                message: `Prediction Matched! Digit ${currentTracker.predictedDigit} appeared at run ${runNumber}`,
+                                timestamp: Date.now(),
+                                digit: currentTracker.predictedDigit,
+                                priority: 'medium',
                             };
-                        });
-                        setTicks(historicalTicks);
-                        setLastSync(new Date());
-                        setSyncStatus('Synced');
-                        setIsLoading(false);
-                    } else if (data.tick) {
-                        // Live tick
-                        const newTick: TickData = {
-                            epoch: data.tick.epoch,
-                            quote: data.tick.quote,
-                            lastDigit: getLastDigit(data.tick.quote),
-                            source: 'live',
-                            localTime: new Date(data.tick.epoch * 1000).toISOString(),
-                        };
-                        console.log('📊 New tick received:', newTick.lastDigit, 'Quote:', newTick.quote);
-                        setTicks(prev => {
-                            const updatedTicks = [...prev, newTick];
-
-                            // Check for alerts with updated ticks
-                            if (updatedTicks.length >= 10) {
-                                try {
-                                    const predictions = getTopN(updatedTicks, 5);
-                                    const currentAlertSettings = alertManagerRef.current.getSettings();
-                                    const newAlerts = checkForAlerts(updatedTicks, predictions, currentAlertSettings);
-
-                                    if (newAlerts.length > 0) {
-                                        alertManagerRef.current.addAlerts(newAlerts);
-                                        setAlerts(alertManagerRef.current.getAlerts());
-
-                                        // Handle notifications for each new alert
-                                        newAlerts.forEach(alert => {
-                                            notificationManagerRef.current.handleAlert(alert);
-                                        });
-                                    }
-                                } catch (error) {
-                                    logError(
-                                        'ZeusAnalysisTool',
-                                        error instanceof Error ? error : new Error('Failed to check for alerts'),
-                                        'medium',
-                                        {
-                                            tickCount: updatedTicks.length,
-                                        }
-                                    );
-                                    console.error('Failed to check for alerts:', error);
-                                }
-                            }
-
-                            // Check prediction tracking
-                            if (currentTracker && !currentTracker.matched) {
-                                if (newTick.lastDigit === currentTracker.predictedDigit) {
-                                    const runNumber = updatedTicks.length;
-                                    const updatedTracker = {
-                                        ...currentTracker,
-                                        matched: true,
-                                        matchedAtRun: runNumber,
-                                        matchedAtTime: newTick.epoch,
-                                    };
-
-                                    setCurrentTracker(updatedTracker);
-                                    setPredictionTrackers(prev => [...prev, updatedTracker]);
-
-                                    console.log(
-                                        `🎯 PREDICTION MATCHED! Digit ${currentTracker.predictedDigit} appeared at run ${runNumber}`
-                                    );
-
-                                    // Show notification
-                                    if (notificationManagerRef.current) {
-                                        const matchAlert: Alert = {
-                                            id: `match-${Date.now()}`,
-                                            type: 'high-confidence',
-                                            message: `Prediction Matched! Digit ${currentTracker.predictedDigit} appeared at run ${runNumber}`,
-                                            timestamp: Date.now(),
-                                            digit: currentTracker.predictedDigit,
-                                            priority: 'medium',
-                                        };
-                                        notificationManagerRef.current.handleAlert(matchAlert);
-                                    }
-                                }
-                            }
-
-                            return updatedTicks;
-                        });
-                        setCurrentPrice(data.tick.quote);
-                        setLastSync(new Date());
-                    }
-                } catch (error) {
-                    logError(
-                        'ZeusAnalysisTool',
-                        error instanceof Error ? error : new Error('Failed to parse WebSocket message'),
-                        'medium',
-                        {
-                            market: selectedMarket,
-                            rawData: event.data,
+                            notificationManagerRef.current.handleAlert(matchAlert);
                         }
-                    );
-                    console.error('Failed to parse WebSocket message:', error);
+                    }
                 }
-            };
 
-            ws.onerror = error => {
-                clearTimeout(connectionTimeout);
-                console.error('❌ WebSocket error:', error);
-                logError(
-                    'ZeusAnalysisTool',
-                    error instanceof Error ? error : new Error('WebSocket connection error'),
-                    'high',
-                    {
-                        market: selectedMarket,
-                        tickCount,
-                        readyState: ws.readyState,
-                        reconnectAttempts,
-                    }
-                );
-                setIsConnected(false);
-                setSyncStatus('Connection Error');
-                setIsLoading(false);
+                return updatedTicks;
+            });
+            setCurrentPrice(tick.quote);
+            setLastSync(new Date());
+        },
+        [currentTracker]
+    );
 
-                // Don't immediately reconnect on error, let onclose handle it
-            };
+    const handleTickRef = useRef(handleTick);
+    handleTickRef.current = handleTick;
 
-            ws.onclose = event => {
-                clearTimeout(connectionTimeout);
-                console.log('🔌 WebSocket closed:', event.code, event.reason);
-                logError('ZeusAnalysisTool', `WebSocket connection closed: ${event.code} - ${event.reason}`, 'medium', {
-                    market: selectedMarket,
-                    tickCount,
-                    wasClean: event.wasClean,
-                    code: event.code,
-                    reason: event.reason,
-                });
+    // Load the market's history and join its shared tick stream in the connection pool
+    const subscribeToMarket = useCallback(async () => {
+        const request = ++subscribeRequestRef.current;
+        unsubscribeRef.current?.();
+        unsubscribeRef.current = null;
 
-                setIsConnected(false);
-                setIsLoading(false);
+        setIsConnecting(true);
+        setError(null);
 
-                // Stop heartbeat
-                if (heartbeatIntervalRef.current) {
-                    clearInterval(heartbeatIntervalRef.current);
-                    heartbeatIntervalRef.current = null;
-                }
+        // Ticks other panels already stream for this market show while the history loads
+        const buffered = derivConnectionPool
+            .getRecentTicks(selectedMarket)
+            .map(tickData => (tickData as { tick?: { epoch: number; quote: number } })?.tick)
+            .filter((tick): tick is { epoch: number; quote: number } => !!tick?.quote && !!tick?.epoch)
+            .map(tick => toTickData(tick.epoch, tick.quote, 'live'));
+        setTicks(buffered);
+        lastEpochRef.current = buffered[buffered.length - 1]?.epoch ?? 0;
+        setIsLoading(buffered.length === 0);
+
+        const result = await historicalTickLoader.loadHistoricalTicks(selectedMarket, tickCount);
+        if (request !== subscribeRequestRef.current) return;
+
+        if (!result.success) {
+            const errorMessage = `API Error: ${result.error}`;
+            logError('ZeusAnalysisTool', errorMessage, 'high', { market: selectedMarket });
+            setError(errorMessage);
+            setSyncStatus('API Error');
+            setIsLoading(false);
+            setIsConnecting(false);
+            return;
+        }
 
-                // Only attempt reconnection if it wasn't a clean close and we're not already reconnecting
-                if (!event.wasClean && !isReconnecting && reconnectAttempts < maxReconnectAttempts) {
-                    console.log('🔄 Connection lost unexpectedly, scheduling reconnection');
-                    scheduleReconnect();
-                } else if (event.wasClean) {
-                    setSyncStatus('Disconnected');
-                    resetReconnectionState();
-                }
-            };
+        const historicalTicks = result.ticks.map(tick => toTickData(tick.epoch, tick.quote, 'historical'));
+        const lastEpoch = historicalTicks[historicalTicks.length - 1]?.epoch ?? 0;
+        setTicks(prev => [...historicalTicks, ...prev.filter(tick => tick.epoch > lastEpoch)]);
+        lastEpochRef.current = Math.max(lastEpochRef.current, lastEpoch);
+        setLastSync(new Date());
+        setSyncStatus('Synced');
+        setIsLoading(false);
+
+        try {
+            // The replay covers ticks that arrived while the history was loading
+            const unsubscribe = await derivConnectionPool.subscribeToTicks(
+                selectedMarket,
+                tickData => handleTickRef.current(tickData),
+                undefined,
+                { replay: DEFAULT_TICK_REPLAY_BUFFER }
+            );
+
+            if (request !== subscribeRequestRef.current) {
+                unsubscribe();
+                return;
+            }
+
+            unsubscribeRef.current = unsubscribe;
+            setIsConnected(true);
+            console.log('📡 Subscribed to live ticks for', selectedMarket);
         } catch (error) {
-            console.error('❌ Failed to create WebSocket:', error);
-            setError('Failed to create WebSocket connection');
-            setIsLoading(false);
-            scheduleReconnect();
+            if (request !== subscribeRequestRef.current) return;
+
+            logError(
+                'ZeusAnalysisTool',
+                error instanceof Error ? error : new Error('Tick subscription failed'),
+                'high',
+                { market: selectedMarket }
+            );
+            setIsConnected(false);
+            setError('Failed to subscribe to live ticks');
+            setSyncStatus('Connection Error');
+        } finally {
+            if (request === subscribeRequestRef.current) setIsConnecting(false);
         }
-    }, [
-        selectedMarket,
-        scheduleReconnect,
-        resetReconnectionState,
-        startHeartbeat,
-        isReconnecting,
-        reconnectAttempts,
-        maxReconnectAttempts,
-    ]);
-
-    // Initialize connection with enhanced cleanup
+    }, [selectedMarket]);
+
+    subscribeToMarketRef.current = subscribeToMarket;
+
+    // Subscribe to the selected market, leaving its shared stream on change or unmount
     useEffect(() => {
-        connectWebSocket();
-
-        // Reduced auto-refresh interval since we have better reconnection logic
-        syncIntervalRef.current = setInterval(
-            () => {
-                console.log('🔄 Scheduled refresh...');
-                // Only refresh if not currently reconnecting
-                if (!isReconnecting && isConnected) {
-                    connectWebSocket();
-                }
-            },
-            5 * 60 * 1000 // 5 minutes instead of 2
-        );
+        subscribeToMarket();
 
         return () => {
-            // Cleanup all intervals and timeouts
-            if (wsRef.current) {
-                wsRef.current.close();
-            }
-            if (syncIntervalRef.current) {
-                clearInterval(syncIntervalRef.current);
-            }
+            subscribeRequestRef.current++;
+            unsubscribeRef.current?.();
+            unsubscribeRef.current = null;
+            setIsConnected(false);
+        };
+    }, [subscribeToMarket]);
+
+    // Cleanup timers and notifications on unmount
+    useEffect(() => {
+        return () => {
             if (statusIntervalRef.current) {
                 clearInterval(statusIntervalRef.current);
             }
-            if (reconnectTimeoutRef.current) {
-                clearTimeout(reconnectTimeoutRef.current);
-            }
-            if (heartbeatIntervalRef.current) {
-                clearInterval(heartbeatIntervalRef.current);
-            }
             if (signalCountdownRef.current) {
                 clearInterval(signalCountdownRef.current);
             }
@@ -565,7 +360,7 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
             // Cleanup notification manager
             notificationManagerRef.current.cleanup();
         };
-    }, [connectWebSocket, isReconnecting, isConnected]);
+    }, []);
 
     // Update sync status every second
     useEffect(() => {
@@ -850,26 +645,20 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
         if (onNavigateToFreeBots) {
             onNavigateToFreeBots();
         } else {
-            // Fallback: Dispatch custom event to switch to Free Bots tab
-            const event = new CustomEvent('switch.tab', {
-                detail: { tabIndex: 8 }, // DBOT_TABS.FREE_BOTS = 8
-                bubbles: true,
-                cancelable: true,
-            });
-            window.dispatchEvent(event);
+            // Fallback: Publish event to switch to Free Bots tab
+            appEventBus.publish('switch.tab', { tab: DBOT_TABS.FREE_BOTS }, 'ZeusAnalysisTool');
         }
 
         // Dispatch event to auto-open MatchesMaster bot after a short delay
         setTimeout(() => {
-            const openBotEvent = new CustomEvent('open.matchesmaster.bot', {
-                detail: {
+            appEventBus.publish(
+                'open.matchesmaster.bot',
+                {
                     predictedDigit: prediction.digit,
                     market: selectedMarket,
                 },
-                bubbles: true,
-                cancelable: true,
-            });
-            window.dispatchEvent(openBotEvent);
+                'ZeusAnalysisTool'
+            );
             console.log('🤖 Opening MatchesMaster bot with digit:', prediction.digit);
         }, 300); // Small delay to ensure tab has switched
 
@@ -877,45 +666,17 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
     };
 
     // Show error message if there's an error
-    if (error && !isReconnecting) {
+    if (error && !isConnecting) {
         return (
             <div className='zeus-analysis-tool'>
                 <div className='zeus-error-message'>
                     <div className='error-icon'>⚠️</div>
                     <h3>Connection Error</h3>
                     <p>{error}</p>
-                    {reconnectAttempts > 0 && (
-                        <p className='reconnect-info'>
-                            Reconnection attempts: {reconnectAttempts}/{maxReconnectAttempts}
-                        </p>
-                    )}
                     <div className='error-actions'>
-                        <button
-                            className='btn-primary'
-                            onClick={() => {
-                                setError(null);
-                                setIsLoading(true);
-                                resetReconnectionState();
-                                connectWebSocket();
-                            }}
-                            disabled={isReconnecting}
-                        >
-                            {isReconnecting ? 'Reconnecting...' : 'Retry Connection'}
+                        <button className='btn-primary' onClick={() => subscribeToMarket()}>
+                            Retry Connection
                         </button>
-                        {reconnectAttempts >= maxReconnectAttempts && (
-                            <button
-                                className='btn-secondary'
-                                onClick={() => {
-                                    setError(null);
-                                    setIsLoading(true);
-                                    setReconnectAttempts(0);
-                                    setIsReconnecting(false);
-                                    connectWebSocket();
-                                }}
-                            >
-                                Force Reconnect
-                            </button>
-                        )}
                     </div>
                 </div>
             </div>
@@ -990,7 +751,7 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
                     className={`status-dot ${
                         isConnected && connectionHealth === 'healthy'
                             ? 'connected'
-                            : isReconnecting
+                            : isConnecting
                               ? 'reconnecting'
                               : connectionHealth === 'stale'
                                 ? 'stale'
@@ -1000,7 +761,7 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
                 >
                     {isConnected && connectionHealth === 'healthy'
                         ? '🟢'
-                        : isReconnecting
+                        : isConnecting
                           ? '🟡'
                           : connectionHealth === 'stale'
                             ? '🟠'
@@ -1009,14 +770,11 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
                 {currentPrice && <span className='compact-price'>{currentPrice.toFixed(2)}</span>}
                 <button
                     className='compact-btn'
-                    onClick={() => {
-                        resetReconnectionState();
-                        connectWebSocket();
-                    }}
-                    title={isReconnecting ? 'Reconnecting...' : 'Reconnect'}
-                    disabled={isReconnecting}
+                    onClick={() => subscribeToMarket()}
+                    title={isConnecting ? 'Reconnecting...' : 'Reconnect'}
+                    disabled={isConnecting}
                 >
-                    {isReconnecting ? '🔄' : '🔌'}
+                    {isConnecting ? '🔄' : '🔌'}
                 </button>
                 <button className='compact-btn' onClick={exportCSV} title='Export CSV'>
                     📥
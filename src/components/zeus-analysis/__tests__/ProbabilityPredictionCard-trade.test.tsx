@@ -6,7 +6,9 @@
 import React from 'react';
 import * as fc from 'fast-check';
 import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { appEventBus } from '../../../services/app-event-bus.service';
 import { ProbabilityPrediction } from '../../../utils/probability-calculator';
+import { TradeSignal } from '../../../utils/trade-signal-generator';
 import { ProbabilityPredictionCard } from '../ProbabilityPredictionCard';
 
 // Custom generator for ProbabilityPrediction
@@ -67,11 +69,11 @@ describe('ProbabilityPredictionCard - Trade Functionality Property-Based Tests',
             ];
             
             // Set up event listener to capture dispatched event
-            let capturedEvent: CustomEvent | null = null;
-            const eventListener = (event: Event) => {
-                capturedEvent = event as CustomEvent;
+            let capturedSignal: TradeSignal | null = null;
+            const eventListener = (payload: TradeSignal) => {
+                capturedSignal = payload;
             };
-            window.addEventListener('zeus.trade.signal', eventListener);
+            const unsubscribe = appEventBus.subscribe('zeus.trade.signal', eventListener);
             
             const { container } = render(
                 <ProbabilityPredictionCard predictions={predictions} market="R_100" />
@@ -83,18 +85,17 @@ describe('ProbabilityPredictionCard - Trade Functionality Property-Based Tests',
             
             // Wait for event to be dispatched
             await waitFor(() => {
-                expect(capturedEvent).not.toBeNull();
+                expect(capturedSignal).not.toBeNull();
             });
             
             // Verify event was dispatched with correct data
-            expect(capturedEvent?.type).toBe('zeus.trade.signal');
-            expect(capturedEvent?.detail).toHaveProperty('type');
-            expect(capturedEvent?.detail).toHaveProperty('market', 'R_100');
-            expect(capturedEvent?.detail).toHaveProperty('prediction', 7);
-            expect(capturedEvent?.detail).toHaveProperty('confidence', 'high');
+            expect(capturedSignal).toHaveProperty('type');
+            expect(capturedSignal).toHaveProperty('market', 'R_100');
+            expect(capturedSignal).toHaveProperty('prediction', 7);
+            expect(capturedSignal).toHaveProperty('confidence', 'high');
             
             // Clean up
-            window.removeEventListener('zeus.trade.signal', eventListener);
+            unsubscribe();
         });
 
         test('should show success notification after trade signal is sent', async () => {
@@ -182,11 +183,11 @@ describe('ProbabilityPredictionCard - Trade Functionality Property-Based Tests',
                 { digit: 9, probability: 0.11, confidence: 'low', reasoning: 'Test' }
             ];
             
-            const capturedEvents: CustomEvent[] = [];
-            const eventListener = (event: Event) => {
-                capturedEvents.push(event as CustomEvent);
+            const capturedSignals: TradeSignal[] = [];
+            const eventListener = (payload: TradeSignal) => {
+                capturedSignals.push(payload);
             };
-            window.addEventListener('zeus.trade.signal', eventListener);
+            const unsubscribe = appEventBus.subscribe('zeus.trade.signal', eventListener);
             
             const { container } = render(
                 <ProbabilityPredictionCard predictions={predictions} market="R_50" />
@@ -196,18 +197,18 @@ describe('ProbabilityPredictionCard - Trade Functionality Property-Based Tests',
             
             // Click first button
             fireEvent.click(tradeButtons[0]);
-            await waitFor(() => expect(capturedEvents.length).toBe(1));
+            await waitFor(() => expect(capturedSignals.length).toBe(1));
             
             // Click second button
             fireEvent.click(tradeButtons[1]);
-            await waitFor(() => expect(capturedEvents.length).toBe(2));
+            await waitFor(() => expect(capturedSignals.length).toBe(2));
             
             // Verify both events were dispatched with correct predictions
-            expect(capturedEvents[0].detail.prediction).toBe(5);
-            expect(capturedEvents[1].detail.prediction).toBe(6);
+            expect(capturedSignals[0].prediction).toBe(5);
+            expect(capturedSignals[1].prediction).toBe(6);
             
             // Clean up
-            window.removeEventListener('zeus.trade.signal', eventListener);
+            unsubscribe();
         });
     });
 });
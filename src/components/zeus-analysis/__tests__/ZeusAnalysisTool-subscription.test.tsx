@@ -0,0 +1,66 @@
+import React from 'react';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import { derivConnectionPool } from '../../../services/deriv-connection-pool.service';
+import { historicalTickLoader } from '../../../services/historical-tick-loader.service';
+import { ZeusAnalysisTool } from '../ZeusAnalysisTool';
+
+jest.mock('../../../services/deriv-connection-pool.service', () => ({
+    derivConnectionPool: {
+        subscribeToTicks: jest.fn(),
+        getRecentTicks: jest.fn(() => []),
+    },
+}));
+
+jest.mock('../../../services/historical-tick-loader.service', () => ({
+    historicalTickLoader: {
+        loadHistoricalTicks: jest.fn(),
+    },
+}));
+
+describe('ZeusAnalysisTool - shared tick stream', () => {
+    const unsubscribe = jest.fn();
+    let onTick: (tickData: unknown) => void = () => undefined;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(window, 'WebSocket');
+
+        const history = Array.from({ length: 20 }, (_, i) => ({ epoch: 1000 + i, quote: 100 + i / 10, lastDigit: 0 }));
+        jest.mocked(historicalTickLoader.loadHistoricalTicks).mockResolvedValue({
+            success: true,
+            ticks: history,
+            count: history.length,
+            symbol: 'R_50',
+        });
+        jest.mocked(derivConnectionPool.subscribeToTicks).mockImplementation(async (_symbol, callback) => {
+            onTick = callback;
+            return unsubscribe;
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.clearAllMocks();
+    });
+
+    it('joins the pool stream with a replay instead of opening its own socket', async () => {
+        const { container, unmount } = render(<ZeusAnalysisTool />);
+
+        await waitFor(() =>
+            expect(derivConnectionPool.subscribeToTicks).toHaveBeenCalledWith('R_50', expect.any(Function), undefined, {
+                replay: 50,
+            })
+        );
+        expect(historicalTickLoader.loadHistoricalTicks).toHaveBeenCalledWith('R_50', 1000);
+        expect(window.WebSocket).not.toHaveBeenCalled();
+
+        // A replayed tick the history already holds is skipped, a newer one becomes the price
+        act(() => onTick({ tick: { epoch: 1010, quote: 555.55 } }));
+        act(() => onTick({ tick: { epoch: 1020, quote: 123.45 } }));
+        await waitFor(() => expect(container.querySelector('.compact-price')).toHaveTextContent('123.45'));
+        expect(screen.queryByText('555.55')).not.toBeInTheDocument();
+
+        unmount();
+        expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+});
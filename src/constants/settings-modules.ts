@@ -0,0 +1,142 @@
+import type { SettingsModuleDefinition } from '@/types/settings-profile.types';
+
+/**
+ * localStorage keys owned by each module, exported together as the user's settings profile
+ * Bump a module's version and add a `migrate` step whenever the format of one of its keys changes
+ */
+export const SETTINGS_MODULES: SettingsModuleDefinition[] = [
+    {
+        id: 'stake-manager',
+        label: 'Stake & martingale',
+        version: 1,
+        keys: [{ key: 'tradermaster_stake_settings', type: 'json' }],
+    },
+    {
+        id: 'position-sizer',
+        label: 'Position sizing',
+        version: 1,
+        keys: [{ key: 'positionSizeConfig', type: 'json' }],
+    },
+    {
+        id: 'risk-limits',
+        label: 'Risk limits',
+        version: 1,
+        keys: [{ key: 'risk-policy:', prefix: true, type: 'json' }],
+    },
+    {
+        id: 'alerts',
+        label: 'Alert & sound preferences',
+        version: 1,
+        keys: [
+            { key: 'alertPreferences', type: 'json' },
+            { key: 'soundPreferences', type: 'json' },
+        ],
+    },
+    {
+        id: 'signals',
+        label: 'Signals & auto trading',
+        version: 1,
+        keys: [
+            { key: 'autoTradeConfig', type: 'json' },
+            { key: 'signalsCenterRiskMode', type: 'text' },
+            { key: 'patel-signal-center-settings', type: 'json' },
+        ],
+    },
+    {
+        id: 'tickshark',
+        label: 'TickShark',
+        version: 1,
+        keys: [
+            { key: 'tickshark_config', type: 'json' },
+            { key: 'tickshark-analysis-config', type: 'json' },
+            { key: 'tickshark-session-config', type: 'json' },
+            { key: 'tickshark-current-mode', type: 'text' },
+        ],
+    },
+    {
+        id: 'copy-trading',
+        label: 'Copy trading',
+        version: 1,
+        keys: [
+            { key: 'copyTradingData', type: 'json' },
+            { key: 'copyTradingVaultSettings', type: 'json' },
+            { key: 'copyTradingVault', type: 'json', secret: true },
+        ],
+        sanitize: (key, value) => {
+            if (key !== 'copyTradingData') return value;
+            // Traders saved before the token vault still carry their API token
+            const data = JSON.parse(value);
+            data.copyTraders = (data.copyTraders || []).map(([id, trader]: [string, Record<string, unknown>]) => {
+                const rest = { ...trader };
+                delete rest.apiToken;
+                return [id, rest];
+            });
+            return JSON.stringify(data);
+        },
+    },
+    {
+        id: 'zen',
+        label: 'Zen',
+        version: 1,
+        keys: [
+            { key: 'zen-trade-rules', type: 'json' },
+            { key: 'zen-rule-execution', type: 'json' },
+            { key: 'zen_preferred_server', type: 'text' },
+            { key: 'zen_app_id', type: 'text' },
+            { key: 'zen_token', type: 'text', secret: true },
+        ],
+    },
+    {
+        id: 'speed-mode',
+        label: 'Speed mode',
+        version: 1,
+        keys: [
+            { key: 'speed_mode_app_id', type: 'text' },
+            { key: 'speed_mode_token', type: 'text', secret: true },
+        ],
+    },
+    {
+        id: 'digit-circles',
+        label: 'Digit circles',
+        version: 1,
+        keys: [
+            { key: 'global-digit-circles-settings', type: 'json' },
+            { key: 'fibonacci-bot-settings', type: 'json' },
+        ],
+    },
+    {
+        id: 'fast-lane',
+        label: 'Fast Lane',
+        version: 1,
+        keys: [{ key: 'fast-lane-ticker-settings', type: 'json' }],
+    },
+    {
+        id: 'bot-builder',
+        label: 'Bot builder',
+        version: 1,
+        keys: [
+            { key: 'dbot_settings', type: 'json' },
+            { key: 'bot-xml-preview', type: 'text' },
+        ],
+    },
+    {
+        id: 'appearance',
+        label: 'Appearance',
+        version: 1,
+        keys: [
+            { key: 'theme', type: 'text' },
+            { key: 'site_theme', type: 'text' },
+            { key: 'selected-theme', type: 'text' },
+        ],
+    },
+    {
+        id: 'connection',
+        label: 'Server & app ID',
+        version: 1,
+        keys: [
+            { key: 'deriv_server_endpoint', type: 'text' },
+            { key: 'config.server_url', type: 'text' },
+            { key: 'config.app_id', type: 'text' },
+        ],
+    },
+];
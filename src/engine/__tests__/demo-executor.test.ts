@@ -0,0 +1,86 @@
+/**
+ * Demo Account Executor Tests
+ * Intents are bought on a virtual account of the in-process fake Deriv server
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - No types available for this package
+import DerivAPIBasic from '@deriv/deriv-api/dist/DerivAPIBasic';
+import { riskPolicyService } from '../../services/risk-policy.service';
+import { FakeDerivServer } from '../../utils/mock/fake-deriv-server';
+import { DemoAccountExecutor } from '../demoExecutor';
+import type { TradeIntent } from '../ruleEngine';
+
+const TOKEN = 'demo-executor-token';
+
+const intent: TradeIntent = {
+    id: 'intent_demo',
+    ruleId: 'rule_1',
+    digit: 5,
+    timestamp: 0,
+    contractType: 'DIGITEVEN',
+    stake: 1,
+    price: 100,
+    metadata: { ruleName: 'Test rule', digitChangeCount: 1, tickCount: 1 },
+};
+
+describe('DemoAccountExecutor', () => {
+    let server: FakeDerivServer;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        server = new FakeDerivServer();
+        server.install();
+        server.addAccount(TOKEN, { loginid: 'VRTC600', balance: 100 });
+
+        const api = new DerivAPIBasic({ connection: new WebSocket('wss://ws.derivws.com/websockets/v3?app_id=1089') });
+        api_base.api = api as unknown as typeof api_base.api;
+        const { authorize } = await api.send({ authorize: TOKEN });
+        api_base.account_info = authorize;
+        api_base.is_authorized = true;
+    });
+
+    afterEach(async () => {
+        api_base.api?.disconnect();
+        api_base.api = null;
+        api_base.is_authorized = false;
+        api_base.account_info = {};
+        await server.flush();
+        server.uninstall();
+        jest.restoreAllMocks();
+    });
+
+    it('buys under its own risk source and forgets the contract subscription once settled', async () => {
+        const authorize = jest.spyOn(riskPolicyService, 'authorize');
+        const executor = new DemoAccountExecutor({ symbol: 'R_100' });
+
+        const pending = executor.executeTradeIntent(intent);
+        await server.flush();
+        server.pushTick('R_100', 100.02);
+
+        const result = await pending;
+        await server.flush();
+        const [subscribe] = server.getRequests('proposal_open_contract');
+
+        expect(authorize).toHaveBeenCalledWith(expect.objectContaining({ source: 'DEMO_EXECUTOR' }));
+        expect(result).toMatchObject({ status: 'success', simulatedOutcome: 'win', simulatedPnL: 0.95 });
+        expect(subscribe).toMatchObject({ subscribe: 1 });
+        expect(server.getRequests('forget')).toHaveLength(1);
+    });
+
+    it('settles as failed when the contract subscription is rejected', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const send = api_base.api!.send.bind(api_base.api);
+        jest.spyOn(api_base.api!, 'send').mockImplementation((request: Record<string, unknown>) =>
+            request.proposal_open_contract ? Promise.reject({ error: { message: 'Rate limit' } }) : send(request)
+        );
+
+        const result = await new DemoAccountExecutor({ symbol: 'R_100' }).executeTradeIntent(intent);
+
+        expect(result).toMatchObject({ status: 'error' });
+        expect(result.error).toMatch(/timed out/);
+    });
+});
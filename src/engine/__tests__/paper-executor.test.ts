@@ -0,0 +1,84 @@
+/**
+ * Paper Trade Executor Tests
+ * Intents are settled on the ticks that follow them with real contract rules
+ */
+
+import { PaperTradeExecutor } from '../paperExecutor';
+import type { TradeIntent } from '../ruleEngine';
+
+const createIntent = (contractType: string, overrides: Partial<TradeIntent> = {}): TradeIntent => ({
+    id: `intent_${contractType}`,
+    ruleId: 'rule_1',
+    digit: 5,
+    timestamp: 0,
+    contractType,
+    stake: 10,
+    price: 1000,
+    metadata: { ruleName: 'Test rule', digitChangeCount: 1, tickCount: 1 },
+    ...overrides,
+});
+
+const tick = (price: number, timestamp = 0) => ({ price, lastDigit: 0, timestamp, symbol: 'R_100' });
+
+describe('PaperTradeExecutor', () => {
+    it('settles digit contracts on the first tick after purchase using the pip-size last digit', async () => {
+        const executor = new PaperTradeExecutor({ initialBalance: 100 });
+
+        const match = executor.executeTradeIntent(createIntent('DIGITMATCH', { digit: 0 }));
+        const differ = executor.executeTradeIntent(createIntent('DIGITDIFF', { id: 'differ', barrier: 3 }));
+        expect(executor.getBalance()).toBe(80);
+
+        executor.onTick(tick(1234.1, 1));
+
+        await expect(match).resolves.toMatchObject({
+            status: 'success',
+            simulatedOutcome: 'win',
+            simulatedPayout: 97.5,
+            simulatedPnL: 87.5,
+            exitDigit: 0,
+        });
+        await expect(differ).resolves.toMatchObject({ simulatedOutcome: 'win', simulatedPnL: 0.8 });
+        expect(executor.getBalance()).toBe(188.3);
+    });
+
+    it('waits for the configured number of ticks and applies over/under/even/odd rules', async () => {
+        const executor = new PaperTradeExecutor({ initialBalance: 100 });
+
+        const over = executor.executeTradeIntent(createIntent('DIGITOVER', { barrier: 6, duration: 3 }));
+        const under = executor.executeTradeIntent(createIntent('DIGITUNDER', { id: 'under', barrier: 6, duration: 3 }));
+        const odd = executor.executeTradeIntent(createIntent('DIGITODD', { id: 'odd', duration: 2 }));
+
+        executor.onTick(tick(1000.01));
+        executor.onTick(tick(1000.05));
+        expect(executor.getOpenContractCount()).toBe(2);
+        executor.onTick(tick(1000.07));
+
+        await expect(odd).resolves.toMatchObject({ exitDigit: 5, simulatedOutcome: 'win' });
+        await expect(over).resolves.toMatchObject({ exitDigit: 7, simulatedOutcome: 'win' });
+        await expect(under).resolves.toMatchObject({ exitDigit: 7, simulatedOutcome: 'loss', simulatedPnL: -10 });
+    });
+
+    it('settles Rise/Fall against the entry spot after the contract duration', async () => {
+        const executor = new PaperTradeExecutor({ initialBalance: 100 });
+
+        const rise = executor.executeTradeIntent(createIntent('CALL', { duration: 2 }));
+        [1000, 999, 1001].forEach(price => executor.onTick(tick(price)));
+
+        await expect(rise).resolves.toMatchObject({ entrySpot: 1000, exitSpot: 1001, simulatedOutcome: 'win' });
+    });
+
+    it('rejects intents the virtual balance cannot cover and refunds cancelled contracts', async () => {
+        const executor = new PaperTradeExecutor({ initialBalance: 15 });
+
+        const open = executor.executeTradeIntent(createIntent('DIGITEVEN'));
+        await expect(executor.executeTradeIntent(createIntent('DIGITODD'))).resolves.toMatchObject({
+            status: 'error',
+            simulatedPnL: 0,
+        });
+
+        executor.cancelOpenContracts();
+        await expect(open).resolves.toMatchObject({ status: 'error' });
+        expect(executor.getBalance()).toBe(15);
+        expect(executor.getStats()).toMatchObject({ totalTrades: 0, openContracts: 0 });
+    });
+});
@@ -0,0 +1,190 @@
+/**
+ * Rule Condition Tests
+ * Composable conditions, their evaluation inside the rule engine and rule import/export
+ */
+
+import { evaluateCondition, type RuleCondition } from '../ruleConditions';
+import { RuleEngine, type TradeRule } from '../ruleEngine';
+import {
+    createShareCode,
+    exportRules,
+    importRules,
+    loadSavedRules,
+    saveRules,
+    validateTradeRule,
+} from '../ruleLibrary';
+import type { DigitChangeEvent } from '../tickState';
+
+const NOON_UTC = Date.UTC(2026, 2, 2, 12, 0);
+
+const context = (digits: number[], outcomes: Array<'win' | 'loss'> = [], timestamp = NOON_UTC) => ({
+    digits,
+    outcomes,
+    timestamp,
+});
+
+const createRule = (overrides: Partial<TradeRule> = {}): TradeRule => ({
+    id: 'rule_1',
+    name: 'Even after odd streak',
+    enabled: true,
+    triggerDigit: 3,
+    tradesPerTick: 1,
+    contractType: 'DIGITEVEN',
+    stake: 1,
+    ...overrides,
+});
+
+const digitEvent = (currentDigit: number, tickCount: number): DigitChangeEvent => ({
+    previousDigit: null,
+    currentDigit,
+    price: 1000,
+    timestamp: NOON_UTC,
+    tickCount,
+    digitChangeCount: tickCount,
+});
+
+describe('evaluateCondition', () => {
+    it('measures digit frequency over the last N digits and waits for a full window', () => {
+        const rare: RuleCondition = { type: 'digitFrequency', digits: [7], window: 5, operator: 'lte', percent: 20 };
+
+        expect(evaluateCondition(rare, context([7, 1, 2, 3]))).toBe(false);
+        expect(evaluateCondition(rare, context([7, 7, 1, 2, 3, 4, 7]))).toBe(true);
+        expect(evaluateCondition(rare, context([7, 1, 7, 3, 7]))).toBe(false);
+    });
+
+    it('counts even/odd and over/under streaks from the latest digit', () => {
+        const odd: RuleCondition = { type: 'digitStreak', kind: 'odd', operator: 'gte', length: 3 };
+        const over: RuleCondition = { type: 'digitStreak', kind: 'over', barrier: 5, operator: 'eq', length: 2 };
+
+        expect(evaluateCondition(odd, context([2, 1, 3, 5]))).toBe(true);
+        expect(evaluateCondition(odd, context([1, 3, 4]))).toBe(false);
+        expect(evaluateCondition(over, context([6, 2, 9, 8]))).toBe(true);
+        expect(evaluateCondition(over, context([6, 7, 8]))).toBe(false);
+    });
+
+    it('supports time windows that wrap past midnight', () => {
+        const session: RuleCondition = { type: 'timeWindow', start: '08:00', end: '16:00' };
+        const overnight: RuleCondition = { type: 'timeWindow', start: '22:00', end: '02:00' };
+
+        expect(evaluateCondition(session, context([]))).toBe(true);
+        expect(evaluateCondition(overnight, context([]))).toBe(false);
+        expect(evaluateCondition(overnight, context([], [], Date.UTC(2026, 2, 2, 1, 30)))).toBe(true);
+    });
+
+    it('combines nested AND/OR groups with recent outcomes', () => {
+        const condition: RuleCondition = {
+            type: 'group',
+            operator: 'AND',
+            conditions: [
+                { type: 'recentOutcomes', metric: 'lossStreak', operator: 'lt', value: 2 },
+                {
+                    type: 'group',
+                    operator: 'OR',
+                    conditions: [
+                        { type: 'recentOutcomes', metric: 'wins', window: 3, operator: 'gte', value: 2 },
+                        { type: 'digitStreak', kind: 'even', operator: 'gte', length: 2 },
+                    ],
+                },
+            ],
+        };
+
+        expect(evaluateCondition(condition, context([1], ['win', 'loss', 'win']))).toBe(true);
+        expect(evaluateCondition(condition, context([2, 4], ['loss', 'win', 'loss']))).toBe(true);
+        expect(evaluateCondition(condition, context([1], ['loss', 'win', 'loss']))).toBe(false);
+        expect(evaluateCondition(condition, context([2, 4], ['win', 'loss', 'loss']))).toBe(false);
+    });
+});
+
+describe('RuleEngine conditions', () => {
+    it('uses every observed tick and the rule outcome history', () => {
+        const engine = new RuleEngine();
+        engine.addRule(
+            createRule({
+                conditions: {
+                    digitSequence: [5, 5, 3],
+                    when: { type: 'recentOutcomes', metric: 'lossStreak', operator: 'lt', value: 2 },
+                },
+            })
+        );
+
+        // Repeated digits never produce a digit change, but they are part of the history
+        engine.observeDigit(5, 1);
+        engine.observeDigit(5, 2);
+        expect(engine.processDigitChange(digitEvent(3, 3))).toHaveLength(1);
+
+        engine.observeDigit(5, 4);
+        expect(engine.processDigitChange(digitEvent(3, 5))).toHaveLength(0);
+
+        // Two losses in a row pause the rule
+        engine.recordOutcome('rule_1', 'loss');
+        engine.recordOutcome('rule_1', 'loss');
+        engine.observeDigit(5, 6);
+        engine.observeDigit(5, 7);
+        expect(engine.processDigitChange(digitEvent(3, 8))).toHaveLength(0);
+
+        engine.recordOutcome('rule_1', 'win');
+        engine.observeDigit(5, 9);
+        engine.observeDigit(5, 10);
+        expect(engine.processDigitChange(digitEvent(3, 11))).toHaveLength(1);
+    });
+});
+
+describe('rule library', () => {
+    const conditionalRule = createRule({
+        conditions: {
+            minInterval: 1000,
+            when: {
+                type: 'group',
+                operator: 'OR',
+                conditions: [{ type: 'timeWindow', start: '08:00', end: '16:00', timezone: 'local' }],
+            },
+        },
+    });
+
+    it('validates rules against the schema', () => {
+        expect(validateTradeRule(conditionalRule)).toEqual({ valid: true, errors: [] });
+
+        const result = validateTradeRule({
+            ...conditionalRule,
+            triggerDigit: 12,
+            conditions: {
+                when: {
+                    type: 'group',
+                    operator: 'AND',
+                    conditions: [
+                        { type: 'digitStreak', kind: 'under', operator: 'gte', length: 2 },
+                        { type: 'timeWindow', start: '25:00', end: '16:00' },
+                        { type: 'coinFlip' },
+                    ],
+                },
+            },
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.errors).toEqual([
+            '$.triggerDigit: must be ≤ 9',
+            '$.conditions.when.conditions[1].start: does not match ^([01]\\d|2[0-3]):[0-5]\\d$',
+            '$.conditions.when.conditions[2]: unknown condition type "coinFlip"',
+            '$.conditions.when: under streak needs a barrier',
+        ]);
+    });
+
+    it('round-trips rules through exports, share codes and storage', () => {
+        expect(importRules(exportRules([conditionalRule]))).toEqual({ rules: [conditionalRule], errors: [] });
+        expect(importRules(createShareCode([conditionalRule]))).toEqual({ rules: [conditionalRule], errors: [] });
+
+        saveRules([conditionalRule]);
+        expect(loadSavedRules()).toEqual([conditionalRule]);
+    });
+
+    it('keeps valid rules and reports invalid ones on import', () => {
+        const { rules, errors } = importRules(JSON.stringify([conditionalRule, { ...conditionalRule, stake: 0 }]));
+
+        expect(rules).toEqual([conditionalRule]);
+        expect(errors).toEqual(['Rule 2: $.stake: must be > 0']);
+        expect(importRules('not json').errors).toHaveLength(1);
+        expect(importRules(JSON.stringify({ format: 'other', rules: [] })).errors).toEqual([
+            'Unrecognised rule export format',
+        ]);
+    });
+});
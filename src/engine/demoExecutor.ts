@@ -0,0 +1,210 @@
+/**
+ * Demo Account Executor
+ * Sends trade intents to the real `buy` API, restricted to virtual (demo) accounts
+ * Use it once a rule set has been validated with the paper executor
+ */
+
+import { api_base } from '../external/bot-skeleton/services/api/api-base';
+import { riskPolicyService } from '../services/risk-policy.service';
+import { needsDigitBarrier } from '../utils/fast-lane/backtester';
+import type { ExecutionMode, IntentExecutor, SimulatedTradeResult } from './executor';
+import type { TradeIntent } from './ruleEngine';
+
+export interface DemoExecutorConfig {
+    symbol: string;
+    defaultDuration?: number; // Contract duration in ticks when the intent has none
+    settlementTimeoutMs?: number;
+}
+
+interface OpenContractMessage {
+    contract_id?: number;
+    is_sold?: number;
+    profit?: number;
+    sell_price?: number;
+    entry_spot?: number;
+    exit_tick?: number;
+}
+
+export class DemoAccountExecutor implements IntentExecutor {
+    public readonly mode: ExecutionMode = 'demo';
+    private config: Required<DemoExecutorConfig>;
+    private settledTrades: SimulatedTradeResult[] = [];
+
+    constructor(config: DemoExecutorConfig) {
+        this.config = {
+            defaultDuration: 1,
+            settlementTimeoutMs: 60 * 1000,
+            ...config,
+        };
+    }
+
+    /**
+     * Check whether the active account is a virtual account
+     */
+    public isDemoAccount(): boolean {
+        const { is_virtual, loginid } = api_base.account_info as { is_virtual?: number; loginid?: string };
+        return Boolean(is_virtual) || Boolean(loginid?.startsWith('VR'));
+    }
+
+    /**
+     * Buy the intent on the demo account; resolves once the contract is sold
+     */
+    public async executeTradeIntent(intent: TradeIntent): Promise<SimulatedTradeResult> {
+        const startTime = performance.now();
+
+        if (!api_base.api || !api_base.is_authorized) {
+            return this.reject(intent, startTime, 'API not connected');
+        }
+
+        if (!this.isDemoAccount()) {
+            return this.reject(intent, startTime, 'Demo executor only trades on virtual accounts');
+        }
+
+        const riskDecision = riskPolicyService.authorize({
+            source: 'DEMO_EXECUTOR',
+            stake: intent.stake,
+            symbol: this.config.symbol,
+            contractType: intent.contractType,
+        });
+        if (!riskDecision.allowed) {
+            return this.reject(intent, startTime, `Trade blocked: ${riskDecision.reason}`);
+        }
+
+        const barrier = needsDigitBarrier(intent.contractType) ? (intent.barrier ?? intent.digit) : undefined;
+        const currency = (api_base.account_info as { currency?: string }).currency || 'USD';
+
+        let buyResponse;
+        try {
+            buyResponse = await api_base.api.send({
+                buy: 1,
+                price: intent.stake,
+                parameters: {
+                    amount: intent.stake,
+                    basis: 'stake',
+                    contract_type: intent.contractType,
+                    currency,
+                    duration: intent.duration ?? this.config.defaultDuration,
+                    duration_unit: 't',
+                    symbol: this.config.symbol,
+                    ...(barrier !== undefined && { barrier: String(barrier) }),
+                },
+            });
+        } catch (error) {
+            buyResponse = { error };
+        }
+
+        const contractId = buyResponse?.buy?.contract_id;
+        if (!contractId) {
+            riskPolicyService.cancel(riskDecision.ticket);
+            return this.reject(intent, startTime, buyResponse?.error?.message || 'Buy failed');
+        }
+
+        riskPolicyService.confirm(riskDecision.ticket, contractId, buyResponse.buy.buy_price);
+        console.log('🧪 Demo contract purchased:', contractId);
+
+        const contract = await this.waitForSettlement(contractId);
+        if (!contract) {
+            return this.reject(intent, startTime, `Settlement of contract ${contractId} timed out`);
+        }
+
+        const profit = Number(contract.profit) || 0;
+        const result: SimulatedTradeResult = {
+            id: intent.id,
+            intent,
+            status: 'success',
+            executionTime: performance.now() - startTime,
+            simulatedOutcome: profit > 0 ? 'win' : 'loss',
+            simulatedPayout: Number(contract.sell_price) || 0,
+            simulatedPnL: profit,
+            timestamp: Date.now(),
+            contractId: String(contractId),
+            entrySpot: contract.entry_spot !== undefined ? Number(contract.entry_spot) : undefined,
+            exitSpot: contract.exit_tick !== undefined ? Number(contract.exit_tick) : undefined,
+        };
+
+        this.settledTrades.push(result);
+        if (this.settledTrades.length > 1000) {
+            this.settledTrades.shift();
+        }
+
+        return result;
+    }
+
+    /**
+     * Get recent settled trades
+     */
+    public getRecentTrades(limit = 50): SimulatedTradeResult[] {
+        return this.settledTrades.slice(-limit);
+    }
+
+    /**
+     * Reset statistics
+     */
+    public resetStats(): void {
+        this.settledTrades = [];
+    }
+
+    /**
+     * Private helpers
+     */
+    private waitForSettlement(contractId: number): Promise<OpenContractMessage | null> {
+        return new Promise(resolve => {
+            let subscriptionId: string | undefined;
+            let settled = false;
+
+            const subscription = api_base.api.onMessage().subscribe((message: unknown) => {
+                const data = ((message as { data?: unknown })?.data ?? message) as {
+                    proposal_open_contract?: OpenContractMessage;
+                };
+                const contract = data?.proposal_open_contract;
+
+                if (contract?.contract_id === contractId && contract.is_sold) {
+                    finish(contract);
+                }
+            });
+
+            const timeout = setTimeout(() => finish(null), this.config.settlementTimeoutMs);
+
+            const finish = (contract: OpenContractMessage | null) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timeout);
+                subscription.unsubscribe();
+                if (subscriptionId) this.forget(subscriptionId);
+                resolve(contract);
+            };
+
+            api_base.api
+                .send({ proposal_open_contract: 1, contract_id: contractId, subscribe: 1 })
+                .then((response: { subscription?: { id: string } }) => {
+                    subscriptionId = response?.subscription?.id;
+                    // The contract may have settled before the subscription id arrived
+                    if (settled && subscriptionId) this.forget(subscriptionId);
+                })
+                .catch((error: unknown) => {
+                    console.error('❌ Demo contract subscription failed:', error);
+                    finish(null);
+                });
+        });
+    }
+
+    private forget(subscriptionId: string): void {
+        api_base.api?.send({ forget: subscriptionId })?.catch(() => undefined);
+    }
+
+    private reject(intent: TradeIntent, startTime: number, error: string): SimulatedTradeResult {
+        console.warn('🧪 Demo trade rejected:', error);
+
+        return {
+            id: intent.id,
+            intent,
+            status: 'error',
+            executionTime: performance.now() - startTime,
+            simulatedOutcome: 'loss',
+            simulatedPayout: 0,
+            simulatedPnL: 0,
+            timestamp: Date.now(),
+            error,
+        };
+    }
+}
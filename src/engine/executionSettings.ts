@@ -0,0 +1,61 @@
+/**
+ * Rule Execution Settings
+ * Chooses where the tick-driven rule engine sends its trade intents; saved across sessions
+ */
+
+import { DemoAccountExecutor } from './demoExecutor';
+import type { ExecutionMode, IntentExecutor } from './executor';
+import { PaperTradeExecutor } from './paperExecutor';
+
+export type RuleExecutionMode = Extract<ExecutionMode, 'paper' | 'demo'>;
+
+export interface RuleExecutionSettings {
+    mode: RuleExecutionMode;
+    paperBalance: number; // Starting balance of the paper account
+}
+
+export const EXECUTION_SETTINGS_STORAGE_KEY = 'zen-rule-execution';
+
+export const DEFAULT_RULE_EXECUTION_SETTINGS: RuleExecutionSettings = {
+    mode: 'paper',
+    paperBalance: 1000,
+};
+
+/**
+ * Create the executor for the selected mode; rules reach the real buy API only in demo mode
+ */
+export const createIntentExecutor = (settings: RuleExecutionSettings, symbol: string): IntentExecutor =>
+    settings.mode === 'demo'
+        ? new DemoAccountExecutor({ symbol })
+        : new PaperTradeExecutor({ initialBalance: settings.paperBalance, symbol });
+
+/**
+ * Save the execution settings for the next session
+ */
+export const saveExecutionSettings = (settings: RuleExecutionSettings): void => {
+    try {
+        localStorage.setItem(EXECUTION_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('❌ Failed to save rule execution settings:', error);
+    }
+};
+
+/**
+ * Load the settings saved by saveExecutionSettings; invalid values fall back to the defaults
+ */
+export const loadExecutionSettings = (): RuleExecutionSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(EXECUTION_SETTINGS_STORAGE_KEY) || '{}');
+
+        return {
+            mode: saved.mode === 'demo' ? 'demo' : DEFAULT_RULE_EXECUTION_SETTINGS.mode,
+            paperBalance:
+                Number(saved.paperBalance) > 0
+                    ? Number(saved.paperBalance)
+                    : DEFAULT_RULE_EXECUTION_SETTINGS.paperBalance,
+        };
+    } catch (error) {
+        console.error('❌ Failed to load rule execution settings:', error);
+        return { ...DEFAULT_RULE_EXECUTION_SETTINGS };
+    }
+};
@@ -8,8 +8,14 @@
  * DO NOT place actual trades
  */
 
+import type { TickData } from '../services/tick-driven/derivSocket';
 import type { TradeIntent } from './ruleEngine';
 
+export type ExecutionMode = 'simulated' | 'paper' | 'demo';
+
+/**
+ * Outcome of a trade intent; the simulated* fields hold the settled result for every executor
+ */
 export interface SimulatedTradeResult {
     id: string;
     intent: TradeIntent;
@@ -20,6 +26,22 @@ export interface SimulatedTradeResult {
     simulatedPnL: number;
     timestamp: number;
     error?: string;
+    contractId?: string;
+    entrySpot?: number;
+    exitSpot?: number;
+    exitDigit?: number;
+    balanceAfter?: number;
+}
+
+/**
+ * Executes trade intents from the rule engine and resolves once they are settled
+ */
+export interface IntentExecutor {
+    readonly mode: ExecutionMode;
+    executeTradeIntent(intent: TradeIntent): Promise<SimulatedTradeResult>;
+    onTick?(tick: TickData): void; // Executors that settle on market data consume the tick stream
+    getRecentTrades(limit?: number): SimulatedTradeResult[];
+    resetStats(): void;
 }
 
 export interface ExecutorConfig {
@@ -30,7 +52,8 @@ export interface ExecutorConfig {
     errorRate: number; // Simulated error rate (0-1)
 }
 
-export class TradeExecutor {
+export class TradeExecutor implements IntentExecutor {
+    public readonly mode: ExecutionMode = 'simulated';
     private config: ExecutorConfig;
     private executedTrades: SimulatedTradeResult[] = [];
     private isEnabled = false;
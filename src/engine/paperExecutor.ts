@@ -0,0 +1,248 @@
+/**
+ * Paper Trading Executor
+ * Settles trade intents against the ticks that follow them, using real contract rules and a virtual balance
+ * No orders are sent to Deriv
+ */
+
+import { symbolMetadataService } from '../services/symbol-metadata.service';
+import type { TickData } from '../services/tick-driven/derivSocket';
+import {
+    DEFAULT_HOUSE_EDGE,
+    getExitTickOffset,
+    getPayoutRatio,
+    isWinningContract,
+    needsDigitBarrier,
+} from '../utils/fast-lane/backtester';
+import type { ExecutionMode, IntentExecutor, SimulatedTradeResult } from './executor';
+import type { TradeIntent } from './ruleEngine';
+
+export interface PaperExecutorConfig {
+    initialBalance: number;
+    symbol?: string; // Used for pip size when ticks carry no symbol
+    defaultDuration?: number; // Contract duration in ticks when the intent has none
+    houseEdge?: number;
+    payoutOverrides?: Record<string, number>; // Keyed by contract type or `${contractType}_${barrier}`
+}
+
+interface PaperContract {
+    contractId: string;
+    intent: TradeIntent;
+    barrier?: number;
+    exitOffset: number;
+    payoutRatio: number;
+    startTime: number;
+    ticks: TickData[];
+    resolve: (result: SimulatedTradeResult) => void;
+}
+
+export class PaperTradeExecutor implements IntentExecutor {
+    public readonly mode: ExecutionMode = 'paper';
+    private config: Required<Omit<PaperExecutorConfig, 'symbol'>> & { symbol?: string };
+    private balance: number;
+    private openContracts: PaperContract[] = [];
+    private settledTrades: SimulatedTradeResult[] = [];
+    private contractCounter = 0;
+
+    constructor(config: PaperExecutorConfig) {
+        this.config = {
+            defaultDuration: 1,
+            houseEdge: DEFAULT_HOUSE_EDGE,
+            payoutOverrides: {},
+            ...config,
+        };
+        this.balance = config.initialBalance;
+
+        console.log('📝 Paper Trade Executor initialized with balance:', this.balance);
+    }
+
+    /**
+     * Open a paper contract; resolves once the following ticks settle it
+     */
+    public executeTradeIntent(intent: TradeIntent): Promise<SimulatedTradeResult> {
+        const startTime = performance.now();
+        const barrier = needsDigitBarrier(intent.contractType) ? (intent.barrier ?? intent.digit) : undefined;
+        const payoutRatio = getPayoutRatio(
+            intent.contractType,
+            barrier,
+            this.config.houseEdge,
+            this.config.payoutOverrides
+        );
+
+        if (payoutRatio <= 0) {
+            return Promise.resolve(this.reject(intent, startTime, `Unsupported contract: ${intent.contractType}`));
+        }
+
+        if (intent.stake <= 0 || intent.stake > this.balance) {
+            return Promise.resolve(this.reject(intent, startTime, `Insufficient paper balance: ${this.balance}`));
+        }
+
+        this.balance = this.round(this.balance - intent.stake);
+
+        return new Promise(resolve => {
+            this.openContracts.push({
+                contractId: `PAPER_${++this.contractCounter}`,
+                intent,
+                barrier,
+                exitOffset: getExitTickOffset(intent.contractType, intent.duration ?? this.config.defaultDuration),
+                payoutRatio,
+                startTime,
+                ticks: [],
+                resolve,
+            });
+        });
+    }
+
+    /**
+     * Feed the next tick to every open contract; the first tick after purchase is the entry spot
+     */
+    public onTick(tick: TickData): void {
+        const stillOpen: PaperContract[] = [];
+
+        this.openContracts.forEach(contract => {
+            contract.ticks.push(tick);
+            if (contract.ticks.length > contract.exitOffset) {
+                this.settle(contract);
+            } else {
+                stillOpen.push(contract);
+            }
+        });
+
+        this.openContracts = stillOpen;
+    }
+
+    /**
+     * Close every open contract without a result and refund its stake
+     */
+    public cancelOpenContracts(reason = 'Paper trading stopped'): void {
+        const contracts = this.openContracts;
+        this.openContracts = [];
+
+        contracts.forEach(contract => {
+            this.balance = this.round(this.balance + contract.intent.stake);
+            contract.resolve(this.reject(contract.intent, contract.startTime, reason));
+        });
+    }
+
+    /**
+     * Get the virtual balance
+     */
+    public getBalance(): number {
+        return this.balance;
+    }
+
+    /**
+     * Get the number of unsettled contracts
+     */
+    public getOpenContractCount(): number {
+        return this.openContracts.length;
+    }
+
+    /**
+     * Get paper trading statistics
+     */
+    public getStats(): {
+        totalTrades: number;
+        wins: number;
+        losses: number;
+        winRate: number;
+        totalPnL: number;
+        balance: number;
+        openContracts: number;
+    } {
+        const wins = this.settledTrades.filter(trade => trade.simulatedOutcome === 'win').length;
+        const totalPnL = this.settledTrades.reduce((sum, trade) => sum + trade.simulatedPnL, 0);
+
+        return {
+            totalTrades: this.settledTrades.length,
+            wins,
+            losses: this.settledTrades.length - wins,
+            winRate: this.settledTrades.length > 0 ? wins / this.settledTrades.length : 0,
+            totalPnL: this.round(totalPnL),
+            balance: this.balance,
+            openContracts: this.openContracts.length,
+        };
+    }
+
+    /**
+     * Get recent settled trades
+     */
+    public getRecentTrades(limit = 50): SimulatedTradeResult[] {
+        return this.settledTrades.slice(-limit);
+    }
+
+    /**
+     * Clear history and restore the initial balance
+     */
+    public resetStats(): void {
+        this.cancelOpenContracts('Paper account reset');
+        this.settledTrades = [];
+        this.balance = this.config.initialBalance;
+    }
+
+    /**
+     * Private helpers
+     */
+    private settle(contract: PaperContract): void {
+        const { intent } = contract;
+        const entryTick = contract.ticks[0];
+        const exitTick = contract.ticks[contract.exitOffset];
+        const exitDigit = symbolMetadataService.getLastDigit(
+            exitTick.price,
+            exitTick.symbol || this.config.symbol || ''
+        );
+
+        const isWin = isWinningContract(
+            intent.contractType,
+            contract.barrier,
+            entryTick.price,
+            exitTick.price,
+            exitDigit
+        );
+        const payout = isWin ? this.round(intent.stake * contract.payoutRatio) : 0;
+        this.balance = this.round(this.balance + payout);
+
+        const result: SimulatedTradeResult = {
+            id: intent.id,
+            intent,
+            status: 'success',
+            executionTime: performance.now() - contract.startTime,
+            simulatedOutcome: isWin ? 'win' : 'loss',
+            simulatedPayout: payout,
+            simulatedPnL: this.round(payout - intent.stake),
+            timestamp: exitTick.timestamp,
+            contractId: contract.contractId,
+            entrySpot: entryTick.price,
+            exitSpot: exitTick.price,
+            exitDigit,
+            balanceAfter: this.balance,
+        };
+
+        this.settledTrades.push(result);
+        if (this.settledTrades.length > 1000) {
+            this.settledTrades.shift();
+        }
+
+        contract.resolve(result);
+    }
+
+    private reject(intent: TradeIntent, startTime: number, error: string): SimulatedTradeResult {
+        console.warn('📝 Paper trade rejected:', error);
+
+        return {
+            id: intent.id,
+            intent,
+            status: 'error',
+            executionTime: performance.now() - startTime,
+            simulatedOutcome: 'loss',
+            simulatedPayout: 0,
+            simulatedPnL: 0,
+            timestamp: Date.now(),
+            error,
+            balanceAfter: this.balance,
+        };
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
@@ -2,8 +2,13 @@
  * Risk & Throttling Manager
  * Enforces trading limits and safety controls
  * Prevents system overload and implements risk management
+ *
+ * Account limits (kill switch, losses, stake, rates) come from the shared risk policy;
+ * the limits here only throttle this engine.
  */
 
+import { riskPolicyService } from '../services/risk-policy.service';
+
 export interface RiskLimits {
     maxTradesPerTick: number;
     maxTradesPerMinute: number;
@@ -68,6 +73,12 @@ export class RiskManager {
             return { allowed: false, reason: 'Emergency stop active' };
         }
 
+        // Check account risk policy
+        const policyDecision = riskPolicyService.check({ source: 'ZEN', stake });
+        if (!policyDecision.allowed) {
+            return { allowed: false, reason: policyDecision.reason };
+        }
+
         // Check stake limit
         if (stake > this.limits.maxStakePerTrade) {
             return {
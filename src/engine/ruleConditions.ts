@@ -0,0 +1,252 @@
+/**
+ * Rule Condition Language
+ * Composable, JSON-serialisable conditions for trade rules
+ * Conditions are evaluated against recent digits, the clock and the rule's own settled outcomes
+ */
+
+export type ComparisonOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq';
+
+export type RuleOutcome = 'win' | 'loss';
+
+/**
+ * Combines child conditions; an empty AND passes and an empty OR fails
+ */
+export interface ConditionGroup {
+    type: 'group';
+    operator: 'AND' | 'OR';
+    conditions: RuleCondition[];
+}
+
+/**
+ * Share (in percent) of the last `window` digits that are one of `digits`
+ */
+export interface DigitFrequencyCondition {
+    type: 'digitFrequency';
+    digits: number[];
+    window: number;
+    operator: ComparisonOperator;
+    percent: number;
+}
+
+/**
+ * Number of consecutive latest digits that are even, odd, over or under a barrier
+ */
+export interface DigitStreakCondition {
+    type: 'digitStreak';
+    kind: 'even' | 'odd' | 'over' | 'under';
+    barrier?: number; // Required for over/under
+    operator: ComparisonOperator;
+    length: number;
+}
+
+/**
+ * Time-of-day window in HH:MM; windows that end before they start wrap past midnight
+ */
+export interface TimeWindowCondition {
+    type: 'timeWindow';
+    start: string;
+    end: string;
+    timezone?: 'utc' | 'local'; // Defaults to UTC, the Deriv server time
+}
+
+/**
+ * The rule's own recent results: wins/losses count within the last `window` outcomes,
+ * winStreak/lossStreak count the current run
+ */
+export interface RecentOutcomesCondition {
+    type: 'recentOutcomes';
+    metric: 'wins' | 'losses' | 'winStreak' | 'lossStreak';
+    window?: number;
+    operator: ComparisonOperator;
+    value: number;
+}
+
+export type RuleCondition =
+    | ConditionGroup
+    | DigitFrequencyCondition
+    | DigitStreakCondition
+    | TimeWindowCondition
+    | RecentOutcomesCondition;
+
+export type RuleConditionType = RuleCondition['type'];
+
+export interface ConditionContext {
+    digits: number[]; // Oldest first, the current digit last
+    outcomes: RuleOutcome[]; // Oldest first
+    timestamp: number; // ms
+}
+
+/**
+ * Evaluate a condition tree; digit conditions fail until enough history is available
+ */
+export const evaluateCondition = (condition: RuleCondition, context: ConditionContext): boolean => {
+    switch (condition.type) {
+        case 'group':
+            return condition.operator === 'AND'
+                ? condition.conditions.every(child => evaluateCondition(child, context))
+                : condition.conditions.some(child => evaluateCondition(child, context));
+
+        case 'digitFrequency': {
+            if (condition.window <= 0 || context.digits.length < condition.window) {
+                return false;
+            }
+            const recent = context.digits.slice(-condition.window);
+            const hits = recent.filter(digit => condition.digits.includes(digit)).length;
+            return compare((hits / condition.window) * 100, condition.operator, condition.percent);
+        }
+
+        case 'digitStreak': {
+            if (context.digits.length === 0) {
+                return false;
+            }
+            const matches = getDigitPredicate(condition);
+            return compare(countTrailing(context.digits, matches), condition.operator, condition.length);
+        }
+
+        case 'timeWindow':
+            return isWithinTimeWindow(condition, context.timestamp);
+
+        case 'recentOutcomes':
+            return compare(getOutcomeMetric(condition, context.outcomes), condition.operator, condition.value);
+
+        default:
+            return false;
+    }
+};
+
+/**
+ * Create a condition with editor defaults for the given type
+ */
+export const createDefaultCondition = (type: RuleConditionType): RuleCondition => {
+    switch (type) {
+        case 'group':
+            return { type, operator: 'AND', conditions: [] };
+        case 'digitFrequency':
+            return { type, digits: [0], window: 20, operator: 'lte', percent: 5 };
+        case 'digitStreak':
+            return { type, kind: 'even', operator: 'gte', length: 3 };
+        case 'timeWindow':
+            return { type, start: '08:00', end: '16:00', timezone: 'utc' };
+        case 'recentOutcomes':
+            return { type, metric: 'lossStreak', operator: 'lt', value: 3 };
+    }
+};
+
+/**
+ * Human-readable summary of a condition tree
+ */
+export const describeCondition = (condition: RuleCondition): string => {
+    switch (condition.type) {
+        case 'group':
+            if (condition.conditions.length === 0) {
+                return condition.operator === 'AND' ? 'always' : 'never';
+            }
+            return `(${condition.conditions.map(describeCondition).join(` ${condition.operator} `)})`;
+        case 'digitFrequency':
+            return `digits [${condition.digits.join(',')}] in last ${condition.window} ${OPERATOR_SYMBOLS[condition.operator]} ${condition.percent}%`;
+        case 'digitStreak': {
+            const kind =
+                condition.kind === 'over' || condition.kind === 'under'
+                    ? `${condition.kind} ${condition.barrier ?? '?'}`
+                    : condition.kind;
+            return `${kind} streak ${OPERATOR_SYMBOLS[condition.operator]} ${condition.length}`;
+        }
+        case 'timeWindow':
+            return `${condition.start}-${condition.end} ${(condition.timezone ?? 'utc').toUpperCase()}`;
+        case 'recentOutcomes': {
+            const scope =
+                condition.metric === 'wins' || condition.metric === 'losses'
+                    ? ` in last ${condition.window ?? 'all'}`
+                    : '';
+            return `${condition.metric}${scope} ${OPERATOR_SYMBOLS[condition.operator]} ${condition.value}`;
+        }
+        default:
+            return 'unknown';
+    }
+};
+
+export const OPERATOR_SYMBOLS: Record<ComparisonOperator, string> = {
+    gt: '>',
+    gte: '≥',
+    lt: '<',
+    lte: '≤',
+    eq: '=',
+};
+
+/**
+ * Private helpers
+ */
+const compare = (actual: number, operator: ComparisonOperator, expected: number): boolean => {
+    switch (operator) {
+        case 'gt':
+            return actual > expected;
+        case 'gte':
+            return actual >= expected;
+        case 'lt':
+            return actual < expected;
+        case 'lte':
+            return actual <= expected;
+        case 'eq':
+            return actual === expected;
+        default:
+            return false;
+    }
+};
+
+const getDigitPredicate = (condition: DigitStreakCondition): ((digit: number) => boolean) => {
+    switch (condition.kind) {
+        case 'even':
+            return digit => digit % 2 === 0;
+        case 'odd':
+            return digit => digit % 2 === 1;
+        case 'over':
+            return digit => condition.barrier !== undefined && digit > condition.barrier;
+        case 'under':
+            return digit => condition.barrier !== undefined && digit < condition.barrier;
+        default:
+            return () => false;
+    }
+};
+
+const countTrailing = <T>(values: T[], matches: (value: T) => boolean): number => {
+    let count = 0;
+    for (let i = values.length - 1; i >= 0 && matches(values[i]); i--) {
+        count++;
+    }
+    return count;
+};
+
+const getOutcomeMetric = (condition: RecentOutcomesCondition, outcomes: RuleOutcome[]): number => {
+    switch (condition.metric) {
+        case 'winStreak':
+            return countTrailing(outcomes, outcome => outcome === 'win');
+        case 'lossStreak':
+            return countTrailing(outcomes, outcome => outcome === 'loss');
+        default: {
+            const recent = condition.window ? outcomes.slice(-condition.window) : outcomes;
+            const target: RuleOutcome = condition.metric === 'wins' ? 'win' : 'loss';
+            return recent.filter(outcome => outcome === target).length;
+        }
+    }
+};
+
+const parseMinutes = (time: string): number | null => {
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const isWithinTimeWindow = (condition: TimeWindowCondition, timestamp: number): boolean => {
+    const start = parseMinutes(condition.start);
+    const end = parseMinutes(condition.end);
+    if (start === null || end === null) {
+        return false;
+    }
+
+    const date = new Date(timestamp);
+    const minutes =
+        condition.timezone === 'local'
+            ? date.getHours() * 60 + date.getMinutes()
+            : date.getUTCHours() * 60 + date.getUTCMinutes();
+
+    return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
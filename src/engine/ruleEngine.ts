@@ -4,8 +4,12 @@
  * Supports multiple rules and complex trigger conditions
  */
 
+import { evaluateCondition, type RuleCondition, type RuleOutcome } from './ruleConditions';
 import type { DigitChangeEvent } from './tickState';
 
+const MAX_DIGIT_HISTORY = 1000;
+const MAX_OUTCOME_HISTORY = 100;
+
 export interface TradeRule {
     id: string;
     name: string;
@@ -14,11 +18,14 @@ export interface TradeRule {
     tradesPerTick: number;
     contractType: string;
     stake: number;
+    barrier?: number; // Digit barrier for match/differ/over/under (defaults to the trigger digit)
+    duration?: number; // Contract duration in ticks (defaults to 1)
     conditions?: {
         minInterval?: number; // Minimum ms between triggers
         maxPerMinute?: number; // Max trades per minute for this rule
-        digitSequence?: number[]; // Sequence of digits to match
+        digitSequence?: number[]; // Latest digits must end with this sequence
         priceRange?: { min: number; max: number }; // Price range filter
+        when?: RuleCondition; // Composable condition tree, see ruleConditions
     };
 }
 
@@ -29,6 +36,8 @@ export interface TradeIntent {
     timestamp: number;
     contractType: string;
     stake: number;
+    barrier?: number;
+    duration?: number;
     price: number;
     metadata: {
         ruleName: string;
@@ -47,6 +56,9 @@ export class RuleEngine {
             tradesGenerated: number;
         }
     > = new Map();
+    private digitHistory: number[] = [];
+    private lastObservedTick = -1;
+    private ruleOutcomes: Map<string, RuleOutcome[]> = new Map();
 
     /**
      * Add or update a trading rule
@@ -71,6 +83,7 @@ export class RuleEngine {
         console.log('🗑️ Removing trade rule:', ruleId);
         this.rules.delete(ruleId);
         this.ruleStats.delete(ruleId);
+        this.ruleOutcomes.delete(ruleId);
     }
 
     /**
@@ -84,6 +97,33 @@ export class RuleEngine {
         }
     }
 
+    /**
+     * Record the last digit of every tick, so frequency and streak conditions also see repeated digits
+     */
+    public observeDigit(digit: number, tickCount: number): void {
+        this.lastObservedTick = tickCount;
+        this.digitHistory.push(digit);
+        if (this.digitHistory.length > MAX_DIGIT_HISTORY) {
+            this.digitHistory.shift();
+        }
+    }
+
+    /**
+     * Record a settled result for the rule that generated the trade
+     */
+    public recordOutcome(ruleId: string, outcome: RuleOutcome): void {
+        if (!this.rules.has(ruleId)) {
+            return;
+        }
+
+        const outcomes = this.ruleOutcomes.get(ruleId) ?? [];
+        outcomes.push(outcome);
+        if (outcomes.length > MAX_OUTCOME_HISTORY) {
+            outcomes.shift();
+        }
+        this.ruleOutcomes.set(ruleId, outcomes);
+    }
+
     /**
      * Process digit change and generate trade intents
      */
@@ -91,6 +131,11 @@ export class RuleEngine {
         const intents: TradeIntent[] = [];
         const now = Date.now();
 
+        // Callers that only report digit changes still build up a history
+        if (event.tickCount !== this.lastObservedTick) {
+            this.observeDigit(event.currentDigit, event.tickCount);
+        }
+
         console.log('🎯 Processing digit change for rules:', {
             digit: event.currentDigit,
             activeRules: Array.from(this.rules.values()).filter(r => r.enabled).length,
@@ -175,6 +220,28 @@ export class RuleEngine {
             }
         }
 
+        // Check digit sequence
+        const sequence = rule.conditions?.digitSequence;
+        if (sequence?.length) {
+            const recent = this.digitHistory.slice(-sequence.length);
+            if (recent.length < sequence.length || recent.some((digit, index) => digit !== sequence[index])) {
+                return false;
+            }
+        }
+
+        // Check composable conditions
+        if (rule.conditions?.when) {
+            const passed = evaluateCondition(rule.conditions.when, {
+                digits: this.digitHistory,
+                outcomes: this.ruleOutcomes.get(rule.id) ?? [],
+                timestamp: event.timestamp,
+            });
+            if (!passed) {
+                console.log('🧩 Rule blocked by conditions:', { ruleId: rule.id });
+                return false;
+            }
+        }
+
         return true;
     }
 
@@ -192,6 +259,8 @@ export class RuleEngine {
                 timestamp: event.timestamp + i, // Slight offset for multiple trades
                 contractType: rule.contractType,
                 stake: rule.stake,
+                barrier: rule.barrier,
+                duration: rule.duration,
                 price: event.price,
                 metadata: {
                     ruleName: rule.name,
@@ -265,5 +334,6 @@ export class RuleEngine {
         console.log('🗑️ Clearing all rules');
         this.rules.clear();
         this.ruleStats.clear();
+        this.ruleOutcomes.clear();
     }
 }
@@ -0,0 +1,363 @@
+/**
+ * Trade Rule Library
+ * JSON schema, validation, persistence and sharing for trade rules
+ * Rules are exported as a versioned JSON document; share codes are the same document in a copy-paste friendly form
+ */
+
+import type { RuleCondition } from './ruleConditions';
+import type { TradeRule } from './ruleEngine';
+
+type JsonSchema = {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    minItems?: number;
+    enum?: Array<string | number>;
+    const?: string | number;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    pattern?: string;
+    oneOf?: JsonSchema[];
+    $ref?: string;
+    definitions?: Record<string, JsonSchema>;
+    $schema?: string;
+    $id?: string;
+    title?: string;
+    description?: string;
+};
+
+export interface RuleValidationResult {
+    valid: boolean;
+    errors: string[];
+}
+
+export interface TradeRuleExport {
+    format: typeof RULE_EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    rules: TradeRule[];
+}
+
+export const RULE_EXPORT_FORMAT = 'zen-trade-rules';
+export const RULE_EXPORT_VERSION = 1;
+export const SAVED_RULES_STORAGE_KEY = 'zen-trade-rules';
+
+const SHARE_CODE_PREFIX = 'ZR1:';
+
+const DIGIT: JsonSchema = { type: 'integer', minimum: 0, maximum: 9 };
+const OPERATOR: JsonSchema = { type: 'string', enum: ['gt', 'gte', 'lt', 'lte', 'eq'] };
+const TIME_OF_DAY: JsonSchema = { type: 'string', pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' };
+
+/**
+ * JSON schema (draft-07) for a single trade rule, including the recursive condition tree
+ */
+export const TRADE_RULE_SCHEMA: JsonSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: 'https://bruceobloc.app/schemas/trade-rule.json',
+    title: 'TradeRule',
+    type: 'object',
+    required: ['id', 'name', 'enabled', 'triggerDigit', 'tradesPerTick', 'contractType', 'stake'],
+    properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        enabled: { type: 'boolean' },
+        triggerDigit: DIGIT,
+        tradesPerTick: { type: 'integer', minimum: 1, maximum: 10 },
+        contractType: { type: 'string' },
+        stake: { type: 'number', exclusiveMinimum: 0 },
+        barrier: DIGIT,
+        duration: { type: 'integer', minimum: 1, maximum: 10 },
+        conditions: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                minInterval: { type: 'number', minimum: 0 },
+                maxPerMinute: { type: 'number', minimum: 0 },
+                digitSequence: { type: 'array', items: DIGIT },
+                priceRange: {
+                    type: 'object',
+                    required: ['min', 'max'],
+                    properties: { min: { type: 'number' }, max: { type: 'number' } },
+                },
+                when: { $ref: '#/definitions/condition' },
+            },
+        },
+    },
+    definitions: {
+        condition: {
+            oneOf: [
+                {
+                    type: 'object',
+                    required: ['type', 'operator', 'conditions'],
+                    additionalProperties: false,
+                    properties: {
+                        type: { const: 'group' },
+                        operator: { type: 'string', enum: ['AND', 'OR'] },
+                        conditions: { type: 'array', items: { $ref: '#/definitions/condition' } },
+                    },
+                },
+                {
+                    type: 'object',
+                    required: ['type', 'digits', 'window', 'operator', 'percent'],
+                    additionalProperties: false,
+                    properties: {
+                        type: { const: 'digitFrequency' },
+                        digits: { type: 'array', items: DIGIT, minItems: 1 },
+                        window: { type: 'integer', minimum: 1, maximum: 1000 },
+                        operator: OPERATOR,
+                        percent: { type: 'number', minimum: 0, maximum: 100 },
+                    },
+                },
+                {
+                    type: 'object',
+                    required: ['type', 'kind', 'operator', 'length'],
+                    additionalProperties: false,
+                    properties: {
+                        type: { const: 'digitStreak' },
+                        kind: { type: 'string', enum: ['even', 'odd', 'over', 'under'] },
+                        barrier: DIGIT,
+                        operator: OPERATOR,
+                        length: { type: 'integer', minimum: 0, maximum: 1000 },
+                    },
+                },
+                {
+                    type: 'object',
+                    required: ['type', 'start', 'end'],
+                    additionalProperties: false,
+                    properties: {
+                        type: { const: 'timeWindow' },
+                        start: TIME_OF_DAY,
+                        end: TIME_OF_DAY,
+                        timezone: { type: 'string', enum: ['utc', 'local'] },
+                    },
+                },
+                {
+                    type: 'object',
+                    required: ['type', 'metric', 'operator', 'value'],
+                    additionalProperties: false,
+                    properties: {
+                        type: { const: 'recentOutcomes' },
+                        metric: { type: 'string', enum: ['wins', 'losses', 'winStreak', 'lossStreak'] },
+                        window: { type: 'integer', minimum: 1, maximum: 1000 },
+                        operator: OPERATOR,
+                        value: { type: 'number', minimum: 0 },
+                    },
+                },
+            ],
+        },
+    },
+};
+
+/**
+ * Validate an unknown value against the trade rule schema
+ */
+export const validateTradeRule = (value: unknown): RuleValidationResult => {
+    const errors = validateAgainst(TRADE_RULE_SCHEMA, value, '$');
+
+    // Over/under streaks compare against a barrier, which the schema cannot express conditionally
+    collectConditions((value as Partial<TradeRule>)?.conditions?.when).forEach(condition => {
+        if (
+            condition.type === 'digitStreak' &&
+            ['over', 'under'].includes(condition.kind) &&
+            condition.barrier === undefined
+        ) {
+            errors.push(`$.conditions.when: ${condition.kind} streak needs a barrier`);
+        }
+    });
+
+    return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Serialise rules into a portable JSON document
+ */
+export const exportRules = (rules: TradeRule[]): string => JSON.stringify(createExportDocument(rules), null, 2);
+
+/**
+ * Parse an exported document, a bare rule array or a share code; invalid rules are reported, not thrown
+ */
+export const importRules = (input: string): { rules: TradeRule[]; errors: string[] } => {
+    let parsed: unknown;
+    try {
+        const text = input.trim();
+        parsed = JSON.parse(
+            text.startsWith(SHARE_CODE_PREFIX) ? decodeURIComponent(atob(text.slice(SHARE_CODE_PREFIX.length))) : text
+        );
+    } catch {
+        return { rules: [], errors: ['Input is not a valid rule export or share code'] };
+    }
+
+    const document = parsed as Partial<TradeRuleExport>;
+    if (!Array.isArray(parsed) && document?.format !== RULE_EXPORT_FORMAT) {
+        return { rules: [], errors: ['Unrecognised rule export format'] };
+    }
+    if (!Array.isArray(parsed) && (document.version ?? 0) > RULE_EXPORT_VERSION) {
+        return { rules: [], errors: [`Rule export version ${document.version} is newer than supported`] };
+    }
+
+    const candidates: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(document.rules) ? document.rules : [];
+    const rules: TradeRule[] = [];
+    const errors: string[] = [];
+
+    candidates.forEach((candidate, index) => {
+        const result = validateTradeRule(candidate);
+        if (result.valid) {
+            rules.push(candidate as TradeRule);
+        } else {
+            errors.push(...result.errors.map(error => `Rule ${index + 1}: ${error}`));
+        }
+    });
+
+    return { rules, errors };
+};
+
+/**
+ * Encode rules as a single-line share code
+ */
+export const createShareCode = (rules: TradeRule[]): string =>
+    SHARE_CODE_PREFIX + btoa(encodeURIComponent(JSON.stringify(createExportDocument(rules))));
+
+/**
+ * Persist rules for the next session
+ */
+export const saveRules = (rules: TradeRule[]): void => {
+    try {
+        localStorage.setItem(SAVED_RULES_STORAGE_KEY, exportRules(rules));
+    } catch (error) {
+        console.error('❌ Failed to save trade rules:', error);
+    }
+};
+
+/**
+ * Load rules saved by saveRules; corrupt entries are skipped
+ */
+export const loadSavedRules = (): TradeRule[] => {
+    try {
+        const saved = localStorage.getItem(SAVED_RULES_STORAGE_KEY);
+        if (!saved) {
+            return [];
+        }
+
+        const { rules, errors } = importRules(saved);
+        if (errors.length > 0) {
+            console.warn('⚠️ Skipped invalid saved trade rules:', errors);
+        }
+        return rules;
+    } catch (error) {
+        console.error('❌ Failed to load trade rules:', error);
+        return [];
+    }
+};
+
+/**
+ * Private helpers
+ */
+const createExportDocument = (rules: TradeRule[]): TradeRuleExport => ({
+    format: RULE_EXPORT_FORMAT,
+    version: RULE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    rules,
+});
+
+const resolveRef = (ref: string): JsonSchema => {
+    const name = ref.replace('#/definitions/', '');
+    return TRADE_RULE_SCHEMA.definitions?.[name] ?? {};
+};
+
+const validateAgainst = (schema: JsonSchema, value: unknown, path: string): string[] => {
+    if (schema.$ref) {
+        return validateAgainst(resolveRef(schema.$ref), value, path);
+    }
+
+    if (schema.oneOf) {
+        // Conditions are discriminated by their `type`, so report errors for the matching branch only
+        const kind = (value as { type?: unknown })?.type;
+        const branch = schema.oneOf.find(option => option.properties?.type?.const === kind);
+        return branch ? validateAgainst(branch, value, path) : [`${path}: unknown condition type "${String(kind)}"`];
+    }
+
+    if (schema.const !== undefined) {
+        return value === schema.const ? [] : [`${path}: must be ${schema.const}`];
+    }
+
+    const typeError = checkType(schema, value, path);
+    if (typeError) {
+        return [typeError];
+    }
+
+    const errors: string[] = [];
+
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+        errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be ≥ ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be ≤ ${schema.maximum}`);
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+            errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+        }
+    }
+
+    if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        errors.push(`${path}: does not match ${schema.pattern}`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path}: needs at least ${schema.minItems} item(s)`);
+        }
+        if (schema.items) {
+            value.forEach((item, index) => errors.push(...validateAgainst(schema.items!, item, `${path}[${index}]`)));
+        }
+    }
+
+    if (schema.type === 'object') {
+        const record = value as Record<string, unknown>;
+        schema.required?.forEach(key => {
+            if (record[key] === undefined) errors.push(`${path}.${key}: is required`);
+        });
+        Object.entries(record).forEach(([key, child]) => {
+            const childSchema = schema.properties?.[key];
+            if (childSchema) {
+                if (child !== undefined) errors.push(...validateAgainst(childSchema, child, `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: is not allowed`);
+            }
+        });
+    }
+
+    return errors;
+};
+
+const checkType = (schema: JsonSchema, value: unknown, path: string): string | null => {
+    switch (schema.type) {
+        case 'object':
+            return value && typeof value === 'object' && !Array.isArray(value) ? null : `${path}: must be an object`;
+        case 'array':
+            return Array.isArray(value) ? null : `${path}: must be an array`;
+        case 'string':
+            return typeof value === 'string' ? null : `${path}: must be a string`;
+        case 'boolean':
+            return typeof value === 'boolean' ? null : `${path}: must be a boolean`;
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value) ? null : `${path}: must be a number`;
+        case 'integer':
+            return Number.isInteger(value) ? null : `${path}: must be an integer`;
+        default:
+            return null;
+    }
+};
+
+const collectConditions = (condition: unknown): RuleCondition[] => {
+    const node = condition as RuleCondition | undefined;
+    if (!node || typeof node !== 'object') {
+        return [];
+    }
+    return node.type === 'group' && Array.isArray(node.conditions)
+        ? [node, ...node.conditions.flatMap(collectConditions)]
+        : [node];
+};
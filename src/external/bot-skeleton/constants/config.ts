@@ -31,6 +31,23 @@ export const config = () => ({
             [localize('Fall'), 'fall'],
             [localize('No Change'), ''],
         ],
+        SIGNAL_CONTRACT_TYPE: [
+            [localize('any contract'), 'any'],
+            [localize('Over'), 'DIGITOVER'],
+            [localize('Under'), 'DIGITUNDER'],
+            [localize('Even'), 'DIGITEVEN'],
+            [localize('Odd'), 'DIGITODD'],
+            [localize('Matches'), 'DIGITMATCH'],
+            [localize('Differs'), 'DIGITDIFF'],
+            [localize('Rise'), 'CALL'],
+            [localize('Fall'), 'PUT'],
+        ],
+        SIGNAL_FIELD: [
+            [localize('contract type'), 'contract_type'],
+            [localize('barrier / prediction'), 'barrier'],
+            [localize('generator'), 'generator'],
+            [localize('age in seconds'), 'age'],
+        ],
         BALANCE_TYPE: [
             [localize('string'), 'STR'],
             [localize('number'), 'NUM'],
@@ -0,0 +1,71 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.digit_frequency = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Frequency of digit {{ digit }} in last {{ tick_count }} ticks', {
+                digit: '%1',
+                tick_count: '%2',
+            }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'DIGIT',
+                    check: 'Number',
+                },
+                {
+                    type: 'input_value',
+                    name: 'TICK_COUNT',
+                    check: 'Number',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            inputsInline: true,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the percentage of recent ticks that ended in the digit'),
+            category: window.Blockly.Categories.Signals,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Digit frequency'),
+            description: localize(
+                'This block gives you the percentage (0-100) of the last N ticks of your market whose last digit is the given digit, up to the last 1000 ticks.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            DIGIT: null,
+            TICK_COUNT: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.digit_frequency = block => {
+    const digit =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'DIGIT',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '0';
+    const tick_count =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'TICK_COUNT',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '100';
+
+    const code = `Bot.getDigitFrequency(${digit}, ${tick_count})`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
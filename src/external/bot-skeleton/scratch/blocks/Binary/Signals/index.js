@@ -0,0 +1,4 @@
+import './digit_frequency';
+import './signal_available';
+import './signal_confidence';
+import './signal_value';
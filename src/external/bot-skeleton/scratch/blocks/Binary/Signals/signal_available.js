@@ -0,0 +1,60 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.signal_available = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Live signal for {{ contract_type }}', { contract_type: '%1' }),
+            message1: localize('on market {{ market }}', { market: '%1' }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'SIGNAL_CONTRACT_TYPE',
+                    options: config().lists.SIGNAL_CONTRACT_TYPE,
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_value',
+                    name: 'MARKET',
+                    check: 'String',
+                },
+            ],
+            output: 'Boolean',
+            outputShape: window.Blockly.OUTPUT_SHAPE_HEXAGONAL,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('True if an in-app generator produced a signal for the market in the last minute'),
+            category: window.Blockly.Categories.Signals,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Live signal'),
+            description: localize(
+                'This block is used to check whether the in-app signal generators produced a signal for a market and contract type in the last minute. It gives you a value of “True” or “False”.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.signal_available = block => {
+    const contract_type = block.getFieldValue('SIGNAL_CONTRACT_TYPE');
+    const market =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'MARKET',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || "''";
+
+    const code = `Bot.hasLiveSignal(${market}, '${contract_type}')`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
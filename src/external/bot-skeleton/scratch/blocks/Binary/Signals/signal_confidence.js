@@ -0,0 +1,60 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.signal_confidence = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Signal confidence for {{ contract_type }}', { contract_type: '%1' }),
+            message1: localize('on market {{ market }}', { market: '%1' }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'SIGNAL_CONTRACT_TYPE',
+                    options: config().lists.SIGNAL_CONTRACT_TYPE,
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_value',
+                    name: 'MARKET',
+                    check: 'String',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the confidence (0-100) of the latest live signal, or 0 when there is none'),
+            category: window.Blockly.Categories.Signals,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Signal confidence'),
+            description: localize(
+                'This block gives you the confidence, from 0 to 100, of the latest live signal for a market. It gives 0 when no generator produced a signal in the last minute.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.signal_confidence = block => {
+    const contract_type = block.getFieldValue('SIGNAL_CONTRACT_TYPE');
+    const market =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'MARKET',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || "''";
+
+    const code = `Bot.getSignalConfidence(${market}, '${contract_type}')`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
@@ -0,0 +1,71 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.signal_value = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Latest signal {{ signal_field }} for {{ contract_type }}', {
+                signal_field: '%1',
+                contract_type: '%2',
+            }),
+            message1: localize('on market {{ market }}', { market: '%1' }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'SIGNAL_FIELD',
+                    options: config().lists.SIGNAL_FIELD,
+                },
+                {
+                    type: 'field_dropdown',
+                    name: 'SIGNAL_CONTRACT_TYPE',
+                    options: config().lists.SIGNAL_CONTRACT_TYPE,
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_value',
+                    name: 'MARKET',
+                    check: 'String',
+                },
+            ],
+            output: null,
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize(
+                'Returns a detail of the latest live signal from the in-app signal generators, or -1 / empty text when there is none'
+            ),
+            category: window.Blockly.Categories.Signals,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Latest signal'),
+            description: localize(
+                'This block gives you a detail of the latest signal the in-app generators (Signals, Patel, scanners) produced for a market in the last minute. Leave the market empty to use the market your bot is trading.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.signal_value = block => {
+    const field = block.getFieldValue('SIGNAL_FIELD');
+    const contract_type = block.getFieldValue('SIGNAL_CONTRACT_TYPE');
+    const market =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'MARKET',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || "''";
+
+    const code = `Bot.getSignalValue(${market}, '${contract_type}', '${field}')`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
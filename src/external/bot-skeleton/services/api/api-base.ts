@@ -1,3 +1,5 @@
+import { riskPolicyService } from '@/services/risk-policy.service';
+import { pipToPipSize, symbolMetadataService } from '@/services/symbol-metadata.service';
 import CommonStore from '@/stores/common-store';
 import { TAuthData } from '@/types/api-types';
 import { observer as globalObserver } from '../../utils/observer';
@@ -176,6 +178,7 @@ class APIBase {
                 setIsAuthorized(true);
                 this.is_authorized = true;
                 this.subscribe();
+                riskPolicyService.attachTransactionStream(this.api, authorize.loginid);
                 this.getSelfExclusion();
             } catch (e) {
                 this.is_authorized = false;
@@ -223,9 +226,10 @@ class APIBase {
                 const pip_sizes = {};
                 if (active_symbols.length) this.has_active_symbols = true;
                 active_symbols.forEach(({ symbol, pip }: { symbol: string; pip: string }) => {
-                    (pip_sizes as Record<string, number>)[symbol] = +(+pip).toExponential().substring(3);
+                    (pip_sizes as Record<string, number>)[symbol] = pipToPipSize(pip);
                 });
                 this.pip_sizes = pip_sizes as Record<string, number>;
+                symbolMetadataService.loadActiveSymbols(active_symbols);
                 this.toggleRunButton(false);
                 this.active_symbols = active_symbols;
                 return active_symbols || error;
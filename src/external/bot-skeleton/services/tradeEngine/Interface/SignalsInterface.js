@@ -0,0 +1,17 @@
+import { liveSignalFeedService } from '@/services/live-signal-feed.service';
+
+// An empty market means the market the bot is trading
+const getSignalsInterface = tradeEngine => {
+    const getMarket = market => market || tradeEngine.symbol;
+
+    return {
+        getSignalValue: (market, contract_type, field) =>
+            liveSignalFeedService.getSignalField(getMarket(market), contract_type, field),
+        getSignalConfidence: (market, contract_type) =>
+            liveSignalFeedService.getConfidence(getMarket(market), contract_type),
+        hasLiveSignal: (market, contract_type) =>
+            !!liveSignalFeedService.getLatestSignal(getMarket(market), contract_type),
+    };
+};
+
+export default getSignalsInterface;
@@ -10,6 +10,7 @@ const getTicksInterface = tradeEngine => {
         getOhlcFromEnd: (...args) => tradeEngine.getOhlcFromEnd(...args),
         getOhlc: (...args) => tradeEngine.getOhlc(...args),
         getLastDigitList: (...args) => tradeEngine.getLastDigitList(...args),
+        getDigitFrequency: (...args) => tradeEngine.getDigitFrequency(...args),
     };
 };
 
@@ -1,5 +1,6 @@
 import TradeEngine from '../trade';
 import getBotInterface from './BotInterface';
+import getSignalsInterface from './SignalsInterface';
 import getTicksInterface from './TicksInterface';
 import getToolsInterface from './ToolsInterface';
 
@@ -22,6 +23,7 @@ const Interface = $scope => {
         return {
             ...getBotInterface(tradeEngine),
             ...getToolsInterface(tradeEngine),
+            ...getSignalsInterface(tradeEngine),
             getTicksInterface: getTicksInterface(tradeEngine),
             watch: (...args) => tradeEngine.watch(...args),
             sleep: (...args) => sleep(observer, ...args),
@@ -1,4 +1,6 @@
+import { riskPolicyService } from '@/services/risk-policy.service';
 import { LogTypes } from '../../../constants/messages';
+import { createError } from '../../../utils/error';
 import { api_base } from '../../api/api-base';
 import { contractStatus, info, log } from '../utils/broadcast';
 import { doUntilDone, getUUID, recoverFromError, tradeOptionToBuy } from '../utils/helpers';
@@ -16,10 +18,30 @@ export default Engine =>
                 return Promise.resolve();
             }
 
+            let risk_ticket;
+            const authorizePurchase = stake => {
+                const decision = riskPolicyService.authorize({
+                    source: 'BOT',
+                    stake: Number(stake),
+                    symbol: this.tradeOptions?.symbol,
+                    contractType: contract_type,
+                    accountId: this.accountInfo?.loginid,
+                });
+                risk_ticket = decision.ticket;
+                // Rejected like a failed buy, so the interpreter stops the bot instead of restarting it
+                return decision.allowed ? null : createError('RiskPolicyBlocked', decision.reason);
+            };
+            const onFailure = error => {
+                riskPolicyService.cancel(risk_ticket);
+                throw error;
+            };
+
             const onSuccess = response => {
                 // Don't unnecessarily send a forget request for a purchased contract.
                 const { buy } = response;
 
+                riskPolicyService.confirm(risk_ticket, buy.contract_id, buy.buy_price);
+
                 contractStatus({
                     id: 'contract.purchase_received',
                     data: buy.transaction_id,
@@ -46,6 +68,8 @@ export default Engine =>
 
             if (this.is_proposal_subscription_required) {
                 const { id, askPrice } = this.selectProposal(contract_type);
+                const blocked = authorizePurchase(askPrice);
+                if (blocked) return Promise.reject(blocked);
 
                 const action = () => api_base.api.send({ buy: id, price: askPrice });
 
@@ -57,7 +81,7 @@ export default Engine =>
                 });
 
                 if (!this.options.timeMachineEnabled) {
-                    return doUntilDone(action).then(onSuccess);
+                    return doUntilDone(action).then(onSuccess, onFailure);
                 }
 
                 return recoverFromError(
@@ -80,8 +104,10 @@ export default Engine =>
                     },
                     ['PriceMoved', 'InvalidContractProposal'],
                     delayIndex++
-                ).then(onSuccess);
+                ).then(onSuccess, onFailure);
             }
+            const blocked = authorizePurchase(this.tradeOptions.amount);
+            if (blocked) return Promise.reject(blocked);
             const trade_option = tradeOptionToBuy(contract_type, this.tradeOptions);
             const action = () => api_base.api.send(trade_option);
 
@@ -93,7 +119,7 @@ export default Engine =>
             });
 
             if (!this.options.timeMachineEnabled) {
-                return doUntilDone(action).then(onSuccess);
+                return doUntilDone(action).then(onSuccess, onFailure);
             }
 
             return recoverFromError(
@@ -112,7 +138,7 @@ export default Engine =>
                 },
                 ['PriceMoved', 'InvalidContractProposal'],
                 delayIndex++
-            ).then(onSuccess);
+            ).then(onSuccess, onFailure);
         }
         getPurchaseReference = () => purchase_reference;
         regeneratePurchaseReference = () => {
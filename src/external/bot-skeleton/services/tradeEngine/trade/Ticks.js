@@ -1,10 +1,11 @@
 /* eslint-disable no-promise-executor-return */
 import debounce from 'lodash.debounce';
+import { extractLastDigit, symbolMetadataService } from '@/services/symbol-metadata.service';
 import { localize } from '@deriv-com/translations';
 import { getLast } from '../../../utils/binary-utils';
 import { observer as globalObserver } from '../../../utils/observer';
 import { api_base } from '../../api/api-base';
-import { getDirection, getLastDigit } from '../utils/helpers';
+import { getDirection } from '../utils/helpers';
 import { expectPositiveInteger } from '../utils/sanitize';
 import * as constants from './state/constants';
 
@@ -75,17 +76,29 @@ export default Engine =>
         }
 
         getLastDigit() {
-            return new Promise(resolve => this.getLastTick(false, true).then(tick => resolve(getLastDigit(tick))));
+            return new Promise(resolve =>
+                this.getLastTick().then(tick => resolve(extractLastDigit(tick, this.getPipSize())))
+            );
         }
 
         getLastDigitList() {
             return new Promise(resolve => this.getTicks().then(ticks => resolve(this.getLastDigitsFromList(ticks))));
         }
         getLastDigitsFromList(ticks) {
-            const digits = ticks.map(tick => {
-                return getLastDigit(tick.toFixed(this.getPipSize()));
-            });
-            return digits;
+            const pip_size = this.getPipSize();
+            return ticks.map(tick => extractLastDigit(tick, pip_size));
+        }
+
+        getDigitFrequency(digit, count) {
+            const tick_count = expectPositiveInteger(Number(count), localize('Tick count must be a positive integer'));
+
+            return new Promise(resolve =>
+                this.getLastDigitList().then(digits => {
+                    const recent = digits.slice(-tick_count);
+                    const matches = recent.filter(last_digit => last_digit === Number(digit)).length;
+                    resolve(recent.length ? Number(((matches / recent.length) * 100).toFixed(2)) : 0);
+                })
+            );
         }
 
         checkDirection(dir) {
@@ -115,7 +128,7 @@ export default Engine =>
         }
 
         getPipSize() {
-            return this.$scope.ticksService.pipSizes[this.symbol];
+            return this.$scope.ticksService.pipSizes?.[this.symbol] ?? symbolMetadataService.getPipSize(this.symbol);
         }
 
         async requestAccumulatorStats() {
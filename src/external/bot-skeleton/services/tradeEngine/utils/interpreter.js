@@ -20,11 +20,11 @@ JSInterpreter.prototype.restoreStateSnapshot = function (snapshot) {
 
 const botInitialized = bot => bot && bot.tradeEngine.options;
 const botStarted = bot => botInitialized(bot) && bot.tradeEngine.tradeOptions;
-const shouldRestartOnError = (bot, errorName = '') =>
+export const shouldRestartOnError = (bot, errorName = '') =>
     !unrecoverable_errors.includes(errorName) && botInitialized(bot) && bot.tradeEngine.options.shouldRestartOnError;
 
-const shouldStopOnError = (bot, errorName = '') => {
-    const stopErrors = ['SellNotAvailableCustom', 'ContractCreationFailure', 'InvalidtoBuy'];
+export const shouldStopOnError = (bot, errorName = '') => {
+    const stopErrors = ['SellNotAvailableCustom', 'ContractCreationFailure', 'InvalidtoBuy', 'RiskPolicyBlocked'];
     if (stopErrors.includes(errorName) && botInitialized(bot)) {
         return true;
     }
@@ -13,6 +13,7 @@ import {
     type AlgorithmStats,
     type RealSignal,
 } from '../services/advanced-algo-signal.service';
+import { appEventBus } from '../services/app-event-bus.service';
 import { type BotRecommendation, signalBotLoader } from '../services/signal-bot-loader.service';
 import './advanced-algo.scss';
 
@@ -187,10 +188,7 @@ export const AdvancedAlgo: React.FC = () => {
 
             if (success) {
                 // Switch to bot builder tab
-                const switchTabEvent = new CustomEvent('switch.tab', {
-                    detail: { tab: DBOT_TABS.BOT_BUILDER },
-                });
-                window.dispatchEvent(switchTabEvent);
+                appEventBus.publish('switch.tab', { tab: DBOT_TABS.BOT_BUILDER }, 'AdvancedAlgo');
 
                 // Show success notification
                 if ('Notification' in window && Notification.permission === 'granted') {
@@ -408,6 +408,46 @@ export const ToolboxItems = () =>
                     <Block type='ohlc' />
                 </Category>
 
+                <Category name={localize('Signals')} id='signals'>
+                    <Block type='signal_available'>
+                        <Field name='SIGNAL_CONTRACT_TYPE'>any</Field>
+                        <Value name='MARKET'>
+                            <Shadow type='text'>
+                                <Field name='TEXT' />
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='signal_value'>
+                        <Field name='SIGNAL_FIELD'>barrier</Field>
+                        <Field name='SIGNAL_CONTRACT_TYPE'>any</Field>
+                        <Value name='MARKET'>
+                            <Shadow type='text'>
+                                <Field name='TEXT' />
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='signal_confidence'>
+                        <Field name='SIGNAL_CONTRACT_TYPE'>any</Field>
+                        <Value name='MARKET'>
+                            <Shadow type='text'>
+                                <Field name='TEXT' />
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='digit_frequency'>
+                        <Value name='DIGIT'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>0</Field>
+                            </Shadow>
+                        </Value>
+                        <Value name='TICK_COUNT'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>100</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                </Category>
+
                 <Category name={localize('Contract')} id='contract_details'>
                     <Block type='contract_check_result' />
                     <Block type='read_details' />
@@ -5,7 +5,8 @@ import { MarketSelector } from '@/components/elvis-zone/MarketSelector';
 import { SimulationPanel } from '@/components/elvis-zone/SimulationPanel';
 import { StreakHeatmap } from '@/components/elvis-zone/StreakHeatmap';
 import { TickTable } from '@/components/elvis-zone/TickTable';
-import { ConnectionType,derivConnectionPool } from '@/services/deriv-connection-pool.service';
+import { ConnectionType } from '@/services/deriv-connection-pool.service';
+import { tickSourceService } from '@/services/tick-source/tick-source.service';
 import './elvis-zone.scss';
 
 interface TickData {
@@ -225,10 +226,10 @@ const ElvisZone: React.FC = () => {
 
                 console.log(`🔌 [ElvisZone] Subscribing to ${symbol}...`);
 
-                const unsubscribe = await derivConnectionPool.subscribeToTicks(
+                const unsubscribe = await tickSourceService.subscribe(
                     symbol,
-                    handleNewTick,
-                    ConnectionType.ANALYSIS
+                    tick => handleNewTick({ quote: String(tick.quote), epoch: tick.epoch }),
+                    { connectionType: ConnectionType.ANALYSIS }
                 );
 
                 unsubscribeRef.current = unsubscribe;
@@ -1,4 +1,4 @@
-import React, { lazy, Suspense, useCallback, useEffect, useState } from 'react';
+import React, { lazy, Suspense, useCallback, useEffect, useMemo, useState } from 'react';
 import classNames from 'classnames';
 import { observer } from 'mobx-react-lite';
 import AnalysisTool from '@/components/analysis-tool/AnalysisTool';
@@ -18,6 +18,22 @@ import { api_base, updateWorkspaceName } from '@/external/bot-skeleton';
 import { CONNECTION_STATUS } from '@/external/bot-skeleton/services/api/observables/connection-status-stream';
 import { useApiBase } from '@/hooks/useApiBase';
 import { useStore } from '@/hooks/useStore';
+import { appEventBus } from '@/services/app-event-bus.service';
+import { freeBotsCatalogService } from '@/services/free-bots-catalog.service';
+import type { BotConfiguration } from '@/services/signal-bot-loader.service';
+import type {
+    CfxBotLoadEvent,
+    EnhancedBotLoadEvent,
+    EvenOddBotLoadEvent,
+    FibonacciBotLoadEvent,
+    FreeBotsBotLoadEvent,
+    MatchesBotLoadEvent,
+    MatchesMasterOpenEvent,
+    OverUnderBotLoadEvent,
+    SwitchTabEvent,
+    UnifiedBotLoadEvent,
+} from '@/types/app-events.types';
+import type { FreeBot } from '@/types/free-bots.types';
 import { Localize, localize } from '@deriv-com/translations';
 import { useDevice } from '@deriv-com/ui';
 import { BotLoadingErrorHandler, withBotLoadingErrorHandling } from '@/utils/bot-loading-error-handler';
@@ -347,13 +363,16 @@ const AppWrapper = observer(() => {
     const { is_chart_modal_visible } = dashboard;
     const { isDesktop } = useDevice();
 
-    type BotType = {
-        title: string;
-        image: string;
-        filePath: string;
-        xmlContent: string;
-    };
-    const [bots, setBots] = useState<BotType[]>([]);
+    const [freeBots, setFreeBots] = useState<FreeBot[]>([]);
+    const [catalogError, setCatalogError] = useState<string | null>(null);
+    const [botSearch, setBotSearch] = useState('');
+    const [botContractType, setBotContractType] = useState('');
+    // Only bots that loaded cleanly can be opened
+    const bots = useMemo(() => freeBots.filter(bot => bot.status === 'ready'), [freeBots]);
+    const visibleFreeBots = useMemo(
+        () => freeBotsCatalogService.filterBots(freeBots, { query: botSearch, contractType: botContractType }),
+        [freeBots, botSearch, botContractType]
+    );
     const [analysisToolUrl, setAnalysisToolUrl] = useState('ai');
 
     // Initialize API error monitoring
@@ -374,88 +393,12 @@ const AppWrapper = observer(() => {
 
     useEffect(() => {
         const fetchBots = async () => {
-            const botFiles = [
-                // Core Trading Bots
-                'PATEL (with Entry).xml', // Added to top of the list
-                'Game Changer AI (1).xml', // NEW: Game Changer AI bot
-                'Game Changer AI -  State FX.xml', // NEW: Game Changer AI - States FX version
-                'Random LDP Differ -  State FX.xml', // NEW: Random LDP Differ bot
-                
-                // CFX Series Bots
-                'CFX-025-Base.xml',
-                'CFX-025-Step1.xml',
-                'CFX-025-Step2.xml',
-                'CFX-025-Step3.xml',
-                'CFX-025-Step4.xml',
-                'CFX-025-Enhanced.xml',
-                'CFX - 025.xml',
-                'CFX-EvenOdd.xml',
-                'CFX-RiseFall.xml',
-                
-                // Professional Trading Bots
-                'Digit-Hunter-Pro.xml',
-                'MatchesMaster.xml',
-                'MarketMakerPro-Enhanced.xml',
-                'MarketMakerPro.xml',
-                'Deriv Killer -  State FX.xml',
-                'SpeedHunter.xml',
-                
-                // States FX Bot Collection
-                'States FX SpeedBot(With Entry).xml',
-                'Elvis SpeedBot(Risk-Based Martingale).xml',
-                'Elvis SpeedBot(Risk-Based).xml',
-                'Elvis SpeedBot(With Entry).xml',
-                'Over 3 Delirium by  State FX.xml',
-                'Over_Under Ghost - by  State FX.xml',
-                'Over_Under Ghost v2 - by State FX.xml',
-                'Flipping-Tool-2026 -  State FX .xml',
-                
-                // Advanced Strategy Bots
-                'Dexterator AI .xml',
-                'Dexterator CFX Hit&Run by  State FX.xml',
-                'D6 Deriv by  State FX.xml',
-                'Even Odd Ghost V1 by  State FX.xml',
-                'updated CFX Auto-Bot by  State FX.xml',
-                
-                // Specialized Bots
-                'MATCHES (with Entry).xml',
-                'EVENODD Double loss Bot .xml',
-                'Over2 Master.xml',
-                'Raziel Over Under.xml',
-                'Raziel Over Under Entry Point.xml',
-                'noloss bot.xml',
-                'DIFF SMART BOT.xml',
-                'Digit Differ Split martingale Strategy[4nd July 2022].xml',
-                
-                // Premium & Special Bots
-                'AUTO C4 VOLT 🇬🇧 2 🇬🇧 AI PREMIUM ROBOT  (2) (1).xml',
-                '$Dollar printer .xml',
-                'M27 Auto Switch bot 2024 (1).xml',
-                'GreenLight Pro - 2026 Over .xml',
-                'Odins_ghost.xml',
-            ];
-            const botPromises = botFiles.map(async file => {
-                try {
-                    const response = await fetch(file);
-                    if (!response.ok) {
-                        throw new Error(`Failed to fetch ${file}: ${response.statusText}`);
-                    }
-                    const text = await response.text();
-                    const parser = new DOMParser();
-                    const xml = parser.parseFromString(text, 'application/xml');
-                    return {
-                        title: file.split('/').pop(),
-                        image: xml.getElementsByTagName('image')[0]?.textContent || 'default_image_path',
-                        filePath: file,
-                        xmlContent: text,
-                    };
-                } catch (error) {
-                    console.error(error);
-                    return null;
-                }
-            });
-            const bots = (await Promise.all(botPromises)).filter(Boolean);
-            setBots(bots);
+            try {
+                setFreeBots(await freeBotsCatalogService.loadBots());
+            } catch (error) {
+                console.error('❌ Failed to load Free Bots catalog:', error);
+                setCatalogError(error instanceof Error ? error.message : 'Failed to load Free Bots catalog');
+            }
         };
         fetchBots();
     }, []);
@@ -522,9 +465,7 @@ const AppWrapper = observer(() => {
 
     // Listen for CFX bot load events from signals
     useEffect(() => {
-        const handleCFXBotLoad = async (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { botFile, signalType, market, prediction } = customEvent.detail;
+        const handleCFXBotLoad = async ({ botFile, signalType, market, prediction }: CfxBotLoadEvent) => {
             console.log('📥 Received CFX bot load request:', { botFile, signalType, market, prediction });
 
             // Find the bot in the bots array
@@ -631,9 +572,8 @@ const AppWrapper = observer(() => {
                             console.log('✅ Bot auto-started successfully');
                         } else {
                             console.warn('⚠️ Run button not found, trying alternative method...');
-                            // Alternative method: dispatch run button event
-                            const runEvent = new CustomEvent('bot.auto.run');
-                            window.dispatchEvent(runEvent);
+                            // Alternative method: publish run event
+                            appEventBus.publish('bot.run', { source: 'cfx-auto-run' }, 'MainPage');
                         }
                     } catch (error) {
                         console.error('❌ Failed to auto-run bot:', error);
@@ -644,17 +584,12 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('load.cfx.bot', handleCFXBotLoad);
-        return () => {
-            window.removeEventListener('load.cfx.bot', handleCFXBotLoad);
-        };
+        return appEventBus.subscribe('load.cfx.bot', handleCFXBotLoad, 'MainPage');
     }, [bots, handleBotClick]);
 
     // Listen for MatchesMaster bot auto-open events from Zeus Analysis
     useEffect(() => {
-        const handleMatchesMasterOpen = async (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { predictedDigit, market } = customEvent.detail;
+        const handleMatchesMasterOpen = async ({ predictedDigit, market }: MatchesMasterOpenEvent) => {
             console.log('📥 Received MatchesMaster auto-open request:', { predictedDigit, market });
 
             // Find the MatchesMaster bot in the bots array
@@ -707,18 +642,21 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('open.matchesmaster.bot', handleMatchesMasterOpen);
-        return () => {
-            window.removeEventListener('open.matchesmaster.bot', handleMatchesMasterOpen);
-        };
+        return appEventBus.subscribe('open.matchesmaster.bot', handleMatchesMasterOpen, 'MainPage');
     }, [bots, handleBotClick]);
 
     // Listen for generic signal bot load events from Advanced Algo
     useEffect(() => {
-        const handleSignalBotLoad = async (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { botFile, botName, market, contractType, stake, prediction, signalType, confidence } =
-                customEvent.detail;
+        const handleSignalBotLoad = async ({
+            botFile,
+            botName,
+            market,
+            contractType,
+            stake,
+            prediction,
+            signalType,
+            confidence,
+        }: BotConfiguration) => {
             console.log('📥 Received generic signal bot load request:', {
                 botFile,
                 botName,
@@ -814,17 +752,12 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('load.signal.bot', handleSignalBotLoad);
-        return () => {
-            window.removeEventListener('load.signal.bot', handleSignalBotLoad);
-        };
+        return appEventBus.subscribe('load.signal.bot', handleSignalBotLoad, 'MainPage');
     }, [bots, handleBotClick]);
 
     // Listen for enhanced CFX bot loading events from Advanced Algorithm
     useEffect(() => {
-        const handleEnhancedCFXBotLoad = async (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { botFile, signal, autoLoaded } = customEvent.detail;
+        const handleEnhancedCFXBotLoad = async ({ botFile, signal, autoLoaded }: EnhancedBotLoadEvent) => {
             console.log('🚀 Received enhanced CFX bot load request:', { botFile, signal, autoLoaded });
 
             // Find the bot in the bots array
@@ -862,17 +795,12 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('load.cfx.bot.enhanced', handleEnhancedCFXBotLoad);
-        return () => {
-            window.removeEventListener('load.cfx.bot.enhanced', handleEnhancedCFXBotLoad);
-        };
+        return appEventBus.subscribe('load.cfx.bot.enhanced', handleEnhancedCFXBotLoad, 'MainPage');
     }, [bots, handleBotClick, setActiveTab]);
 
     // Listen for enhanced Elvis bot loading events from Advanced Algorithm
     useEffect(() => {
-        const handleEnhancedElvisBotLoad = async (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { botFile, signal, autoLoaded } = customEvent.detail;
+        const handleEnhancedElvisBotLoad = async ({ botFile, signal, autoLoaded }: EnhancedBotLoadEvent) => {
             console.log('🚀 Received enhanced Elvis bot load request:', { botFile, signal, autoLoaded });
 
             // Find the bot in the bots array
@@ -910,17 +838,12 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('load.elvis.bot.enhanced', handleEnhancedElvisBotLoad);
-        return () => {
-            window.removeEventListener('load.elvis.bot.enhanced', handleEnhancedElvisBotLoad);
-        };
+        return appEventBus.subscribe('load.elvis.bot.enhanced', handleEnhancedElvisBotLoad, 'MainPage');
     }, [bots, handleBotClick, setActiveTab]);
 
     // Listen for enhanced signal bot loading events from Advanced Algorithm
     useEffect(() => {
-        const handleEnhancedSignalBotLoad = async (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { botFile, signal, autoLoaded } = customEvent.detail;
+        const handleEnhancedSignalBotLoad = async ({ botFile, signal, autoLoaded }: EnhancedBotLoadEvent) => {
             console.log('🚀 Received enhanced signal bot load request:', { botFile, signal, autoLoaded });
 
             // Find the bot in the bots array
@@ -958,17 +881,18 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('load.signal.bot.enhanced', handleEnhancedSignalBotLoad);
-        return () => {
-            window.removeEventListener('load.signal.bot.enhanced', handleEnhancedSignalBotLoad);
-        };
+        return appEventBus.subscribe('load.signal.bot.enhanced', handleEnhancedSignalBotLoad, 'MainPage');
     }, [bots, handleBotClick, setActiveTab]);
 
     // Listen for enhanced PATEL bot loading events from Advanced Algorithm
     useEffect(() => {
-        const handleEnhancedPatelBotLoad = async (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { botFile, signal, autoLoaded, barrier, recoveryStrategy } = customEvent.detail;
+        const handleEnhancedPatelBotLoad = async ({
+            botFile,
+            signal,
+            autoLoaded,
+            barrier,
+            recoveryStrategy,
+        }: EnhancedBotLoadEvent) => {
 
             console.log('🎯 Received enhanced PATEL bot load request:', {
                 botFile,
@@ -1090,7 +1014,8 @@ const AppWrapper = observer(() => {
                 console.log('ℹ️ PATEL bot will use entry point detection with adaptive recovery');
 
                 // Update Search Number (entry point digit) if provided
-                if (signal.entryDigit) {
+                const searchNumber = signal.entryDigit;
+                if (searchNumber) {
                     const variableFields = xmlDoc.querySelectorAll('block[type="variables_set"] field[name="VAR"]');
                     variableFields.forEach(field => {
                         if (field.textContent === 'Search Number') {
@@ -1098,8 +1023,8 @@ const AppWrapper = observer(() => {
                             if (block) {
                                 const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
                                 if (numField) {
-                                    numField.textContent = signal.entryDigit.toString();
-                                    console.log(`🔍 Search Number set to: ${signal.entryDigit}`);
+                                    numField.textContent = searchNumber.toString();
+                                    console.log(`🔍 Search Number set to: ${searchNumber}`);
                                 }
                             }
                         }
@@ -1163,31 +1088,12 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('load.patel.bot.enhanced', handleEnhancedPatelBotLoad);
-        return () => {
-            window.removeEventListener('load.patel.bot.enhanced', handleEnhancedPatelBotLoad);
-        };
+        return appEventBus.subscribe('load.patel.bot.enhanced', handleEnhancedPatelBotLoad, 'MainPage');
     }, [bots, handleBotClick, setActiveTab]);
 
     // Listen for Raziel Over Under bot loading events from Zeus AI
     useEffect(() => {
-        const handleRazielBotLoad = async (event: Event) => {
-            let eventData;
-
-            // Handle both CustomEvent and MessageEvent
-            if (event instanceof MessageEvent) {
-                // Handle postMessage from AI tool iframe
-                if (event.data.type === 'LOAD_RAZIEL_BOT') {
-                    eventData = event.data.data;
-                } else {
-                    return; // Not our message
-                }
-            } else {
-                // Handle CustomEvent
-                const customEvent = event as CustomEvent;
-                eventData = customEvent.detail;
-            }
-
+        const handleRazielBotLoad = async (eventData: OverUnderBotLoadEvent) => {
             const {
                 botFile,
                 botName,
@@ -1353,33 +1259,24 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('LOAD_RAZIEL_BOT', handleRazielBotLoad);
-        window.addEventListener('message', handleRazielBotLoad);
+        // Same request posted from the AI tool iframe
+        const handleRazielBotMessage = (event: MessageEvent) => {
+            if (event.data?.type === 'LOAD_RAZIEL_BOT') {
+                handleRazielBotLoad(event.data.data);
+            }
+        };
+
+        window.addEventListener('message', handleRazielBotMessage);
+        const unsubscribe = appEventBus.subscribe('load.raziel.bot', handleRazielBotLoad, 'MainPage');
         return () => {
-            window.removeEventListener('LOAD_RAZIEL_BOT', handleRazielBotLoad);
-            window.removeEventListener('message', handleRazielBotLoad);
+            window.removeEventListener('message', handleRazielBotMessage);
+            unsubscribe();
         };
     }, [bots, handleBotClick, setActiveTab]);
 
     // Listen for PATEL bot loading events from Zeus AI
     useEffect(() => {
-        const handlePatelBotLoad = async (event: Event) => {
-            let eventData;
-
-            // Handle both CustomEvent and MessageEvent
-            if (event instanceof MessageEvent) {
-                // Handle postMessage from AI tool iframe
-                if (event.data.type === 'LOAD_PATEL_BOT') {
-                    eventData = event.data.data;
-                } else {
-                    return; // Not our message
-                }
-            } else {
-                // Handle CustomEvent
-                const customEvent = event as CustomEvent;
-                eventData = customEvent.detail;
-            }
-
+        const handlePatelBotLoad = async (eventData: OverUnderBotLoadEvent) => {
             const {
                 botFile,
                 botName,
@@ -1506,33 +1403,24 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('LOAD_PATEL_BOT', handlePatelBotLoad);
-        window.addEventListener('message', handlePatelBotLoad);
+        // Same request posted from the AI tool iframe
+        const handlePatelBotMessage = (event: MessageEvent) => {
+            if (event.data?.type === 'LOAD_PATEL_BOT') {
+                handlePatelBotLoad(event.data.data);
+            }
+        };
+
+        window.addEventListener('message', handlePatelBotMessage);
+        const unsubscribe = appEventBus.subscribe('load.patel.entry.bot', handlePatelBotLoad, 'MainPage');
         return () => {
-            window.removeEventListener('LOAD_PATEL_BOT', handlePatelBotLoad);
-            window.removeEventListener('message', handlePatelBotLoad);
+            window.removeEventListener('message', handlePatelBotMessage);
+            unsubscribe();
         };
     }, [bots, handleBotClick, setActiveTab]);
 
     // Listen for MATCHES bot load events from AI Analysis Tool
     useEffect(() => {
-        const handleMatchesBotLoad = async (event: Event) => {
-            let eventData: any;
-
-            // Handle both CustomEvent and MessageEvent
-            if (event instanceof MessageEvent) {
-                // Handle postMessage from AI tool iframe
-                if (event.data.type === 'LOAD_MATCHES_BOT') {
-                    eventData = event.data.data;
-                } else {
-                    return; // Not our message
-                }
-            } else {
-                // Handle CustomEvent
-                const customEvent = event as CustomEvent;
-                eventData = customEvent.detail;
-            }
-
+        const handleMatchesBotLoad = async (eventData: MatchesBotLoadEvent) => {
             const {
                 botFile,
                 botName,
@@ -1671,33 +1559,24 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('LOAD_MATCHES_BOT', handleMatchesBotLoad);
-        window.addEventListener('message', handleMatchesBotLoad);
+        // Same request posted from the AI tool iframe
+        const handleMatchesBotMessage = (event: MessageEvent) => {
+            if (event.data?.type === 'LOAD_MATCHES_BOT') {
+                handleMatchesBotLoad(event.data.data);
+            }
+        };
+
+        window.addEventListener('message', handleMatchesBotMessage);
+        const unsubscribe = appEventBus.subscribe('load.matches.bot', handleMatchesBotLoad, 'MainPage');
         return () => {
-            window.removeEventListener('LOAD_MATCHES_BOT', handleMatchesBotLoad);
-            window.removeEventListener('message', handleMatchesBotLoad);
+            window.removeEventListener('message', handleMatchesBotMessage);
+            unsubscribe();
         };
     }, [bots, handleBotClick, setActiveTab]);
 
     // Listen for EVEN/ODD bot loading events from Zeus AI
     useEffect(() => {
-        const handleEvenOddBotLoad = async (event: Event) => {
-            let eventData: any;
-
-            // Handle both CustomEvent and MessageEvent
-            if (event instanceof MessageEvent) {
-                // Handle postMessage from AI tool iframe
-                if (event.data.type === 'LOAD_EVEN_ODD_BOT') {
-                    eventData = event.data.data;
-                } else {
-                    return; // Not our message
-                }
-            } else {
-                // Handle CustomEvent
-                const customEvent = event as CustomEvent;
-                eventData = customEvent.detail;
-            }
-
+        const handleEvenOddBotLoad = async (eventData: EvenOddBotLoadEvent) => {
             const {
                 botFile,
                 botName,
@@ -1806,19 +1685,24 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('LOAD_EVEN_ODD_BOT', handleEvenOddBotLoad);
-        window.addEventListener('message', handleEvenOddBotLoad);
+        // Same request posted from the AI tool iframe
+        const handleEvenOddBotMessage = (event: MessageEvent) => {
+            if (event.data?.type === 'LOAD_EVEN_ODD_BOT') {
+                handleEvenOddBotLoad(event.data.data);
+            }
+        };
+
+        window.addEventListener('message', handleEvenOddBotMessage);
+        const unsubscribe = appEventBus.subscribe('load.even-odd.bot', handleEvenOddBotLoad, 'MainPage');
         return () => {
-            window.removeEventListener('LOAD_EVEN_ODD_BOT', handleEvenOddBotLoad);
-            window.removeEventListener('message', handleEvenOddBotLoad);
+            window.removeEventListener('message', handleEvenOddBotMessage);
+            unsubscribe();
         };
     }, [bots, handleBotClick, setActiveTab]);
 
     // Listen for auto load bot events from Advanced Algorithm
     useEffect(() => {
-        const handleAutoLoadBot = async (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { botFile, signal, autoLoaded } = customEvent.detail;
+        const handleAutoLoadBot = async ({ botFile, signal, autoLoaded }: EnhancedBotLoadEvent) => {
             console.log('🤖 Received auto load bot request:', { botFile, signal, autoLoaded });
 
             // Find the bot in the bots array
@@ -1839,17 +1723,17 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('auto.load.bot', handleAutoLoadBot);
-        return () => {
-            window.removeEventListener('auto.load.bot', handleAutoLoadBot);
-        };
+        return appEventBus.subscribe('auto.load.bot', handleAutoLoadBot, 'MainPage');
     }, [bots, handleBotClick, setActiveTab]);
 
     // Listen for Fibonacci bot loading events from Raziel Bot Loader
     useEffect(() => {
-        const handleFibonacciBotLoad = async (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { xmlContent, botName, market, parameters } = customEvent.detail;
+        const handleFibonacciBotLoad = async ({
+            xmlContent,
+            botName,
+            market,
+            parameters,
+        }: Pick<FibonacciBotLoadEvent, 'xmlContent' | 'botName'> & Partial<FibonacciBotLoadEvent>) => {
             console.log('🎯 Received Fibonacci bot load request:', { botName, market, parameters });
 
             try {
@@ -1877,21 +1761,22 @@ const AppWrapper = observer(() => {
             }
         };
 
+        const handleFreeBotsBotLoad = ({ bot }: FreeBotsBotLoadEvent) =>
+            handleFibonacciBotLoad({ xmlContent: bot.xmlContent, botName: bot.title });
+
         // Listen for both events
-        window.addEventListener('load.fibonacci.bot', handleFibonacciBotLoad);
-        window.addEventListener('load.bot.from.freebots', handleFibonacciBotLoad);
+        const unsubscribeFibonacci = appEventBus.subscribe('load.fibonacci.bot', handleFibonacciBotLoad, 'MainPage');
+        const unsubscribeFreeBots = appEventBus.subscribe('load.bot.from.freebots', handleFreeBotsBotLoad, 'MainPage');
 
         return () => {
-            window.removeEventListener('load.fibonacci.bot', handleFibonacciBotLoad);
-            window.removeEventListener('load.bot.from.freebots', handleFibonacciBotLoad);
+            unsubscribeFibonacci();
+            unsubscribeFreeBots();
         };
     }, [bots, handleBotClick, setActiveTab]);
 
     // Listen for unified bot loading events from enhanced signal processor
     useEffect(() => {
-        const handleUnifiedBotLoad = async (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { botName, xmlContent, parameters } = customEvent.detail;
+        const handleUnifiedBotLoad = async ({ botName, xmlContent, parameters }: UnifiedBotLoadEvent) => {
             
             console.log('🤖 Received unified bot load request:', { botName, parameters });
 
@@ -1943,17 +1828,12 @@ const AppWrapper = observer(() => {
             }
         };
 
-        window.addEventListener('unified.bot.load', handleUnifiedBotLoad);
-        return () => {
-            window.removeEventListener('unified.bot.load', handleUnifiedBotLoad);
-        };
+        return appEventBus.subscribe('unified.bot.load', handleUnifiedBotLoad, 'MainPage');
     }, [load_modal, setActiveTab]);
 
     // Listen for tab switching events from components
     useEffect(() => {
-        const handleTabSwitch = (event: Event) => {
-            const customEvent = event as CustomEvent;
-            const { tab } = customEvent.detail;
+        const handleTabSwitch = ({ tab }: SwitchTabEvent) => {
             console.log('📋 Received tab switch request to tab:', tab);
 
             if (typeof tab === 'number') {
@@ -1988,17 +1868,21 @@ const AppWrapper = observer(() => {
             };
 
             // Simulate the CFX bot loading
-            const loadEvent = new CustomEvent('load.fibonacci.bot', {
-                detail: {
+            appEventBus.publish(
+                'load.fibonacci.bot',
+                {
                     xmlContent: '<xml>test</xml>',
                     botName: 'CFX-025 Fibonacci Test',
                     market: mockSignal.market,
+                    contractType: 'DIGITOVER',
+                    stake: 1,
+                    prediction: mockSignal.recommendation.action,
                     parameters: mockSignal,
+                    source: 'cfx-test',
                 },
-            });
-
-            window.dispatchEvent(loadEvent);
-            console.log('✅ CFX bot loading test event dispatched');
+                'MainPage'
+            );
+            console.log('✅ CFX bot loading test event published');
         };
 
         // Add test function to window for debugging
@@ -2006,10 +1890,7 @@ const AppWrapper = observer(() => {
             (window as any).testCFXBotLoading = testCFXBotLoading;
         }
 
-        window.addEventListener('switch.tab', handleTabSwitch);
-        return () => {
-            window.removeEventListener('switch.tab', handleTabSwitch);
-        };
+        return appEventBus.subscribe('switch.tab', handleTabSwitch, 'MainPage');
     }, [setActiveTab]);
 
     const showRunPanel = [
@@ -2829,6 +2710,49 @@ const AppWrapper = observer(() => {
                                 >
                                     🤖 Free Trading Bots
                                 </h2>
+                                <div
+                                    className='free-bots__filters'
+                                    style={{
+                                        display: 'flex',
+                                        flexWrap: 'wrap',
+                                        gap: '1rem',
+                                        marginBottom: '1.5rem',
+                                        flexShrink: 0,
+                                    }}
+                                >
+                                    <input
+                                        type='search'
+                                        value={botSearch}
+                                        onChange={e => setBotSearch(e.target.value)}
+                                        placeholder={localize('Search by name, market, author or contract type')}
+                                        style={{
+                                            flex: '1 1 280px',
+                                            padding: '0.75rem 1rem',
+                                            border: '2px solid #e0e0e0',
+                                            borderRadius: '12px',
+                                            fontSize: '0.95rem',
+                                        }}
+                                    />
+                                    <select
+                                        value={botContractType}
+                                        onChange={e => setBotContractType(e.target.value)}
+                                        style={{
+                                            flex: '0 1 220px',
+                                            padding: '0.75rem 1rem',
+                                            border: '2px solid #e0e0e0',
+                                            borderRadius: '12px',
+                                            fontSize: '0.95rem',
+                                            background: '#ffffff',
+                                        }}
+                                    >
+                                        <option value=''>{localize('All contract types')}</option>
+                                        {freeBotsCatalogService.getContractTypes(freeBots).map(contractType => (
+                                            <option key={contractType} value={contractType}>
+                                                {contractType}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
                                 <ul
                                     className='free-bots__list'
                                     style={{
@@ -2845,7 +2769,19 @@ const AppWrapper = observer(() => {
                                         paddingBottom: '8rem',
                                     }}
                                 >
-                                    {bots.length === 0 ? (
+                                    {catalogError ? (
+                                        <li
+                                            style={{
+                                                textAlign: 'center',
+                                                padding: '3rem',
+                                                color: '#dc3545',
+                                                fontSize: '1.1rem',
+                                                gridColumn: '1 / -1',
+                                            }}
+                                        >
+                                            ❌ {catalogError}
+                                        </li>
+                                    ) : visibleFreeBots.length === 0 ? (
                                         <li
                                             style={{
                                                 textAlign: 'center',
@@ -2855,129 +2791,172 @@ const AppWrapper = observer(() => {
                                                 gridColumn: '1 / -1',
                                             }}
                                         >
-                                            <Localize i18n_default_text='No free bots available.' />
+                                            {freeBots.length === 0 ? (
+                                                <Localize i18n_default_text='No free bots available.' />
+                                            ) : (
+                                                <Localize i18n_default_text='No bots match your search.' />
+                                            )}
                                         </li>
                                     ) : (
-                                        bots.map((bot, index) => (
-                                            <li
-                                                key={index}
-                                                className='free-bot-item'
-                                                style={{
-                                                    background: '#f8f9fa',
-                                                    borderRadius: '16px',
-                                                    padding: '1.5rem',
-                                                    display: 'flex',
-                                                    flexDirection: 'column',
-                                                    gap: '1rem',
-                                                    boxShadow: '0 2px 8px rgba(0, 0, 0, 0.08)',
-                                                    transition: 'all 0.3s ease',
-                                                    cursor: 'pointer',
-                                                    border: '2px solid #e0e0e0',
-                                                }}
-                                                onMouseEnter={e => {
-                                                    e.currentTarget.style.transform = 'translateY(-8px) scale(1.02)';
-                                                    e.currentTarget.style.boxShadow =
-                                                        '0 12px 24px rgba(13, 148, 136, 0.2)';
-                                                    e.currentTarget.style.borderColor = '#0d9488';
-                                                    e.currentTarget.style.background = '#ffffff';
-                                                }}
-                                                onMouseLeave={e => {
-                                                    e.currentTarget.style.transform = 'translateY(0) scale(1)';
-                                                    e.currentTarget.style.boxShadow = '0 2px 8px rgba(0, 0, 0, 0.08)';
-                                                    e.currentTarget.style.borderColor = '#e0e0e0';
-                                                    e.currentTarget.style.background = '#f8f9fa';
-                                                }}
-                                                onClick={() => handleBotClick(bot)}
-                                            >
-                                                <div
+                                        visibleFreeBots.map(bot =>
+                                            bot.status !== 'ready' ? (
+                                                <li
+                                                    key={bot.filePath}
+                                                    className='free-bot-item free-bot-item--unavailable'
+                                                    style={{
+                                                        background: '#fff5f5',
+                                                        borderRadius: '16px',
+                                                        padding: '1.5rem',
+                                                        display: 'flex',
+                                                        flexDirection: 'column',
+                                                        gap: '0.5rem',
+                                                        border: '2px solid #f5c2c7',
+                                                        cursor: 'not-allowed',
+                                                    }}
+                                                >
+                                                    <h3 style={{ margin: 0, color: '#1a1a2e', fontSize: '1.1rem' }}>
+                                                        ⚠️ {bot.title}
+                                                    </h3>
+                                                    <p style={{ margin: 0, color: '#dc3545', fontSize: '0.9rem' }}>
+                                                        {bot.status === 'missing'
+                                                            ? localize('Missing bot')
+                                                            : localize('Corrupt bot')}
+                                                        : {bot.error}
+                                                    </p>
+                                                </li>
+                                            ) : (
+                                                <li
+                                                    key={bot.filePath}
+                                                    className='free-bot-item'
                                                     style={{
+                                                        background: '#f8f9fa',
+                                                        borderRadius: '16px',
+                                                        padding: '1.5rem',
                                                         display: 'flex',
-                                                        alignItems: 'center',
+                                                        flexDirection: 'column',
                                                         gap: '1rem',
-                                                        width: '100%',
-                                                        pointerEvents: 'none',
+                                                        boxShadow: '0 2px 8px rgba(0, 0, 0, 0.08)',
+                                                        transition: 'all 0.3s ease',
+                                                        cursor: 'pointer',
+                                                        border: '2px solid #e0e0e0',
+                                                    }}
+                                                    onMouseEnter={e => {
+                                                        e.currentTarget.style.transform =
+                                                            'translateY(-8px) scale(1.02)';
+                                                        e.currentTarget.style.boxShadow =
+                                                            '0 12px 24px rgba(13, 148, 136, 0.2)';
+                                                        e.currentTarget.style.borderColor = '#0d9488';
+                                                        e.currentTarget.style.background = '#ffffff';
+                                                    }}
+                                                    onMouseLeave={e => {
+                                                        e.currentTarget.style.transform = 'translateY(0) scale(1)';
+                                                        e.currentTarget.style.boxShadow =
+                                                            '0 2px 8px rgba(0, 0, 0, 0.08)';
+                                                        e.currentTarget.style.borderColor = '#e0e0e0';
+                                                        e.currentTarget.style.background = '#f8f9fa';
                                                     }}
+                                                    onClick={() => handleBotClick(bot)}
                                                 >
                                                     <div
                                                         style={{
-                                                            width: '40px',
-                                                            height: '40px',
-                                                            borderRadius: '8px',
-                                                            background:
-                                                                'linear-gradient(135deg, #0d9488 0%, #14b8a6 100%)',
                                                             display: 'flex',
                                                             alignItems: 'center',
-                                                            justifyContent: 'center',
-                                                            fontSize: '1.5rem',
-                                                            flexShrink: 0,
+                                                            gap: '1rem',
+                                                            width: '100%',
+                                                            pointerEvents: 'none',
                                                         }}
                                                     >
-                                                        🤖
+                                                        <div
+                                                            style={{
+                                                                width: '40px',
+                                                                height: '40px',
+                                                                borderRadius: '8px',
+                                                                background:
+                                                                    'linear-gradient(135deg, #0d9488 0%, #14b8a6 100%)',
+                                                                display: 'flex',
+                                                                alignItems: 'center',
+                                                                justifyContent: 'center',
+                                                                fontSize: '1.5rem',
+                                                                flexShrink: 0,
+                                                            }}
+                                                        >
+                                                            🤖
+                                                        </div>
+                                                        <h3
+                                                            style={{
+                                                                margin: 0,
+                                                                color: '#1a1a2e',
+                                                                fontSize: '1.1rem',
+                                                                fontWeight: '600',
+                                                                flex: 1,
+                                                                whiteSpace: 'nowrap',
+                                                                overflow: 'hidden',
+                                                                textOverflow: 'ellipsis',
+                                                            }}
+                                                        >
+                                                            {bot.title || 'Untitled Bot'}
+                                                        </h3>
                                                     </div>
-                                                    <h3
+                                                    <p
                                                         style={{
                                                             margin: 0,
-                                                            color: '#1a1a2e',
-                                                            fontSize: '1.1rem',
-                                                            fontWeight: '600',
-                                                            flex: 1,
-                                                            whiteSpace: 'nowrap',
+                                                            color: '#6c757d',
+                                                            fontSize: '0.9rem',
+                                                            lineHeight: '1.5',
+                                                            display: '-webkit-box',
+                                                            WebkitLineClamp: 2,
+                                                            WebkitBoxOrient: 'vertical',
                                                             overflow: 'hidden',
-                                                            textOverflow: 'ellipsis',
+                                                            pointerEvents: 'none',
                                                         }}
                                                     >
-                                                        {bot.title || 'Untitled Bot'}
-                                                    </h3>
-                                                </div>
-                                                <p
-                                                    style={{
-                                                        margin: 0,
-                                                        color: '#6c757d',
-                                                        fontSize: '0.9rem',
-                                                        lineHeight: '1.5',
-                                                        display: '-webkit-box',
-                                                        WebkitLineClamp: 2,
-                                                        WebkitBoxOrient: 'vertical',
-                                                        overflow: 'hidden',
-                                                        pointerEvents: 'none',
-                                                    }}
-                                                >
-                                                    Click to load this bot into your workspace
-                                                </p>
-                                                <div
-                                                    style={{
-                                                        display: 'flex',
-                                                        justifyContent: 'space-between',
-                                                        alignItems: 'center',
-                                                        marginTop: 'auto',
-                                                        paddingTop: '0.5rem',
-                                                        borderTop: '1px solid #e0e0e0',
-                                                        pointerEvents: 'none',
-                                                    }}
-                                                >
-                                                    <span
-                                                        style={{
-                                                            fontSize: '0.75rem',
-                                                            color: '#0d9488',
-                                                            fontWeight: '600',
-                                                            textTransform: 'uppercase',
-                                                            letterSpacing: '0.5px',
-                                                        }}
-                                                    >
-                                                        Free
-                                                    </span>
-                                                    <span
+                                                        {[
+                                                            bot.entry.contractTypes.join(', '),
+                                                            bot.entry.markets.join(', '),
+                                                            bot.entry.defaultStake !== null &&
+                                                                `${localize('Stake')} ${bot.entry.defaultStake}`,
+                                                            bot.entry.martingale !== null &&
+                                                                `${localize('Martingale')} x${bot.entry.martingale}`,
+                                                        ]
+                                                            .filter(Boolean)
+                                                            .join(' · ') ||
+                                                            'Click to load this bot into your workspace'}
+                                                    </p>
+                                                    <div
                                                         style={{
-                                                            fontSize: '0.85rem',
-                                                            color: '#0d9488',
-                                                            fontWeight: '500',
+                                                            display: 'flex',
+                                                            justifyContent: 'space-between',
+                                                            alignItems: 'center',
+                                                            marginTop: 'auto',
+                                                            paddingTop: '0.5rem',
+                                                            borderTop: '1px solid #e0e0e0',
+                                                            pointerEvents: 'none',
                                                         }}
                                                     >
-                                                        Load →
-                                                    </span>
-                                                </div>
-                                            </li>
-                                        ))
+                                                        <span
+                                                            style={{
+                                                                fontSize: '0.75rem',
+                                                                color: '#0d9488',
+                                                                fontWeight: '600',
+                                                                textTransform: 'uppercase',
+                                                                letterSpacing: '0.5px',
+                                                            }}
+                                                        >
+                                                            {bot.entry.author} · v{bot.entry.version}
+                                                        </span>
+                                                        <span
+                                                            style={{
+                                                                fontSize: '0.85rem',
+                                                                color: '#0d9488',
+                                                                fontWeight: '500',
+                                                            }}
+                                                        >
+                                                            Load →
+                                                        </span>
+                                                    </div>
+                                                </li>
+                                            )
+                                        )
                                     )}
                                 </ul>
                                 <style>
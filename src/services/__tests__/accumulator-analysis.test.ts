@@ -0,0 +1,98 @@
+/**
+ * Accumulator Analysis Tests
+ * Barrier model from ACCU proposals, knockout replay and backtests on recorded ticks
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - No types available for this package
+import DerivAPIBasic from '@deriv/deriv-api/dist/DerivAPIBasic';
+import { AccumulatorConfig, TickData } from '../../types/accumulator/accumulator.types';
+import { FakeDerivServer } from '../../utils/mock/fake-deriv-server';
+import { accumulatorAnalysisService } from '../accumulator/accumulator-analysis.service';
+import { accumulatorBarrierService } from '../accumulator/accumulator-barrier.service';
+
+const config: AccumulatorConfig = {
+    growthRate: 1,
+    takeProfit: 3,
+    stopLoss: 50,
+    maxTicks: 5,
+    minTicks: 1,
+    market: 'R_100',
+    initialStake: 10,
+    strategy: 'TICK_BASED_EXIT',
+    takeProfitTicks: 3,
+};
+
+// The 1% barrier is ±0.0625% of the spot, so only the 100.05 -> 100.13 move knocks a contract out
+const quotes = [100.0, 100.02, 100.04, 100.03, 100.05, 100.13, 100.12, 100.1, 100.11, 100.09];
+const ticks: TickData[] = quotes.map((value, index) => ({ timestamp: new Date((1700000000 + index) * 1000), value }));
+
+describe('accumulatorAnalysisService', () => {
+    let server: FakeDerivServer;
+
+    beforeEach(() => {
+        server = new FakeDerivServer();
+        server.install();
+        accumulatorBarrierService.clear();
+
+        const api = new DerivAPIBasic({ connection: new WebSocket('wss://ws.derivws.com/websockets/v3?app_id=1089') });
+        api_base.api = api as unknown as typeof api_base.api;
+    });
+
+    afterEach(() => {
+        api_base.api?.disconnect();
+        api_base.api = null;
+        server.uninstall();
+        jest.restoreAllMocks();
+    });
+
+    it('reads the barrier of a growth rate from an ACCU proposal', async () => {
+        const barrier = await accumulatorBarrierService.getBarrier('R_100', 1);
+
+        expect(barrier).toMatchObject({ tickSizeBarrier: 0.000625, source: 'PROPOSAL' });
+        expect(server.getRequests('proposal')[0]).toMatchObject({ contract_type: 'ACCU', growth_rate: 0.01 });
+        expect(accumulatorBarrierService.isKnockedOut(100.05, 100.13, barrier.tickSizeBarrier)).toBe(true);
+        expect(accumulatorBarrierService.isKnockedOut(100.05, 100.0, barrier.tickSizeBarrier)).toBe(false);
+    });
+
+    it('estimates the barrier from recorded ticks when no proposal is available', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        api_base.api = null;
+
+        const barrier = await accumulatorBarrierService.getBarrier('R_100', 5, quotes);
+
+        expect(barrier.source).toBe('ESTIMATED');
+        expect(barrier.tickSizeBarrier).toBeCloseTo(0.08 / 100.05, 8);
+    });
+
+    it('replays recorded ticks to estimate the knockout probability per tick count', async () => {
+        const profile = await accumulatorAnalysisService.getKnockoutProfile(config, ticks);
+
+        expect(profile.knockoutRatePerTick).toBeCloseTo(1 / 9, 10);
+        expect(profile.estimates).toHaveLength(5);
+        expect(profile.estimates[0]).toMatchObject({ ticks: 1, samples: 9 });
+        expect(profile.estimates[0].survivalProbability).toBeCloseTo(8 / 9, 10);
+        expect(profile.estimates[2].survivalProbability).toBeCloseTo(4 / 7, 10);
+        expect(profile.estimates[2].expectedReturn).toBeCloseTo((4 / 7) * Math.pow(1.01, 3) - 1, 10);
+
+        const analysis = await accumulatorAnalysisService.analyzeAccumulator(config, ticks);
+        expect(analysis.profitProbability.takeProfitProbability).toBeCloseTo((4 / 7) * 100, 8);
+    });
+
+    it('backtests back to back contracts that sell at the take-profit tick count', async () => {
+        const backtest = await accumulatorAnalysisService.runBacktest(config, ticks);
+        const { results } = backtest;
+
+        expect(backtest.period).toEqual({ start: ticks[0].timestamp, end: ticks[9].timestamp });
+        expect(results.trades.map(trade => [trade.action, trade.tickNumber, trade.profit])).toEqual([
+            ['TAKE_PROFIT', 3, 0.3],
+            ['STOP_LOSS', 1, -10],
+            ['TAKE_PROFIT', 3, 0.3],
+        ]);
+        expect(results).toMatchObject({ totalTrades: 3, winningTrades: 2, losingTrades: 1, totalLoss: 10 });
+        expect(results.netProfit).toBeCloseTo(-9.4, 10);
+        expect(results.maxDrawdown).toBeCloseTo(10, 10);
+        expect(results.equity.map(point => point.value)).toEqual([0, 0.3, expect.closeTo(-9.7), expect.closeTo(-9.4)]);
+    });
+});
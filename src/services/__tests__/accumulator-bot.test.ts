@@ -0,0 +1,117 @@
+/**
+ * Accumulator Bot Tests
+ * Trades ACCU contracts through the bot API connection against the in-process fake Deriv server
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - No types available for this package
+import DerivAPIBasic from '@deriv/deriv-api/dist/DerivAPIBasic';
+import { AccumulatorConfig } from '../../types/accumulator/accumulator.types';
+import { FakeDerivServer } from '../../utils/mock/fake-deriv-server';
+import { accumulatorBarrierService } from '../accumulator/accumulator-barrier.service';
+import { accumulatorBotService } from '../accumulator/accumulator-bot.service';
+import { tickSourceService } from '../tick-source/tick-source.service';
+
+const TOKEN = 'accumulator-token';
+
+const config: AccumulatorConfig = {
+    growthRate: 1,
+    takeProfit: 50,
+    stopLoss: 50,
+    maxTicks: 100,
+    minTicks: 1,
+    market: 'R_100',
+    initialStake: 10,
+    strategy: 'TICK_BASED_EXIT',
+    takeProfitTicks: 3,
+};
+
+describe('accumulatorBotService', () => {
+    let server: FakeDerivServer;
+
+    beforeAll(async () => {
+        await tickSourceService.initialize();
+    });
+
+    beforeEach(async () => {
+        server = new FakeDerivServer();
+        server.install();
+        server.addAccount(TOKEN, { loginid: 'VRTC400', balance: 100 });
+        accumulatorBarrierService.clear();
+
+        const api = new DerivAPIBasic({ connection: new WebSocket('wss://ws.derivws.com/websockets/v3?app_id=1089') });
+        api_base.api = api as unknown as typeof api_base.api;
+        await api.send({ authorize: TOKEN });
+    });
+
+    afterEach(async () => {
+        await Promise.all(accumulatorBotService.getActiveBots().map(bot => accumulatorBotService.deleteBot(bot.id)));
+        api_base.api?.disconnect();
+        api_base.api = null;
+        server.uninstall();
+    });
+
+    const pushTicks = async (quotes: number[]) => {
+        for (const quote of quotes) {
+            server.pushTick('R_100', quote);
+            await server.flush();
+        }
+    };
+
+    it('sells at the take-profit tick count and rebuys until the stop loss is reached', async () => {
+        const bot = await accumulatorBotService.createBot(config, 'ACCU test');
+        await accumulatorBotService.startBot(bot.id);
+        await server.flush();
+
+        // Entry, three surviving ticks and a sell; then an entry knocked out on its first tick
+        await pushTicks([100.0, 100.02, 100.03, 100.05, 100.06, 100.2]);
+
+        expect(server.getContracts()).toMatchObject([
+            { contract_type: 'ACCU', status: 'won', sell_price: 10.3, profit: 0.3 },
+            { contract_type: 'ACCU', status: 'lost', profit: -10 },
+        ]);
+        expect(server.getAccount(TOKEN)?.balance).toBe(90.3);
+
+        const session = accumulatorBotService.getBotSession(bot.id);
+        expect(session?.trades.map(trade => trade.action)).toEqual(['TAKE_PROFIT', 'STOP_LOSS']);
+        expect(session?.profit).toBe(-9.7);
+        expect(accumulatorBotService.getBot(bot.id)?.status).toBe('IDLE');
+        expect(accumulatorBotService.getBotPerformance(bot.id)).toMatchObject({ totalTrades: 2, winRate: 50 });
+    });
+
+    it('buys the next contract when one is knocked out before its updates are subscribed', async () => {
+        const api = api_base.api!;
+        const send = api.send.bind(api);
+        let knockedOut = false;
+        jest.spyOn(api, 'send').mockImplementation((request: Record<string, unknown>) => {
+            if ('proposal_open_contract' in request && !knockedOut) {
+                // Entry and a knock-out tick land between the buy and the subscription
+                knockedOut = true;
+                server.pushTick('R_100', 100.0);
+                server.pushTick('R_100', 100.2);
+            }
+            return send(request);
+        });
+
+        const bot = await accumulatorBotService.createBot({ ...config, stopLoss: 200 }, 'ACCU knock-out');
+        await accumulatorBotService.startBot(bot.id);
+        await server.flush();
+
+        expect(server.getContracts()).toMatchObject([
+            { contract_type: 'ACCU', status: 'lost', profit: -10 },
+            { contract_type: 'ACCU', status: 'open' },
+        ]);
+        expect(accumulatorBotService.getBotSession(bot.id)?.trades.map(trade => trade.action)).toEqual(['STOP_LOSS']);
+        expect(accumulatorBotService.getBot(bot.id)?.status).toBe('RUNNING');
+    });
+
+    it('refuses to start on a growth rate that is not offered', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const bot = await accumulatorBotService.createBot({ ...config, growthRate: 6 }, 'ACCU 6%');
+
+        await expect(accumulatorBotService.startBot(bot.id)).rejects.toThrow('Growth rate is not offered.');
+        expect(accumulatorBotService.getBot(bot.id)?.status).toBe('ERROR');
+        expect(server.getRequests('buy')).toHaveLength(0);
+    });
+});
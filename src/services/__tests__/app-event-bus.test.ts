@@ -0,0 +1,71 @@
+/**
+ * App Event Bus Tests
+ */
+
+import { appEventBus } from '../app-event-bus.service';
+
+describe('appEventBus', () => {
+    afterEach(() => {
+        appEventBus.setInspectorEnabled(false);
+        jest.restoreAllMocks();
+    });
+
+    it('delivers payloads to subscribers until they unsubscribe', () => {
+        const received: number[] = [];
+        const unsubscribe = appEventBus.subscribe('switch.tab', ({ tab }) => received.push(tab), 'TabTest');
+
+        appEventBus.publish('switch.tab', { tab: 1 });
+        expect(appEventBus.getSubscribers('switch.tab')).toEqual(['TabTest']);
+
+        unsubscribe();
+        appEventBus.publish('switch.tab', { tab: 2 });
+
+        expect(received).toEqual([1]);
+        expect(appEventBus.getSubscribers('switch.tab')).toEqual([]);
+    });
+
+    it('keeps delivering when a subscriber throws', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const handler = jest.fn();
+        const unsubscribeFailing = appEventBus.subscribe(
+            'bot.run',
+            () => {
+                throw new Error('boom');
+            },
+            'Failing'
+        );
+        const unsubscribe = appEventBus.subscribe('bot.run', handler, 'Working');
+
+        appEventBus.publish('bot.run', { source: 'test' });
+
+        expect(handler).toHaveBeenCalledWith({ source: 'test' });
+        expect(console.error).toHaveBeenCalledWith(
+            expect.stringContaining('subscriber Failing failed'),
+            expect.any(Error)
+        );
+        unsubscribeFailing();
+        unsubscribe();
+    });
+
+    it('records publishers and subscribers while the inspector is enabled', () => {
+        jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        appEventBus.setInspectorEnabled(true);
+
+        const unsubscribe = appEventBus.subscribe('signals.force-rescan', jest.fn(), 'EvenOddSignals');
+        appEventBus.publish('signals.force-rescan', undefined, 'SignalsCenter');
+        unsubscribe();
+        appEventBus.publish('signals.force-rescan', undefined, 'SignalsCenter');
+
+        expect(
+            appEventBus.getHistory().map(({ name, publisher, subscribers }) => [name, publisher, subscribers])
+        ).toEqual([
+            ['signals.force-rescan', 'SignalsCenter', ['EvenOddSignals']],
+            ['signals.force-rescan', 'SignalsCenter', []],
+        ]);
+        expect(warn).toHaveBeenCalledWith(
+            '📭 App event "signals.force-rescan" from SignalsCenter has no subscribers',
+            undefined
+        );
+    });
+});
@@ -0,0 +1,55 @@
+/**
+ * Bot Builder Risk Policy Tests
+ * A purchase the risk policy blocks must stop the bot rather than restart it
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+import Purchase from '@/external/bot-skeleton/services/tradeEngine/trade/Purchase';
+import { BEFORE_PURCHASE } from '@/external/bot-skeleton/services/tradeEngine/trade/state/constants';
+import {
+    shouldRestartOnError,
+    shouldStopOnError,
+} from '@/external/bot-skeleton/services/tradeEngine/utils/interpreter';
+import { riskPolicyService } from '../risk-policy.service';
+
+class Engine {
+    store = { getState: () => ({ scope: BEFORE_PURCHASE }), dispatch: jest.fn(), subscribe: jest.fn() };
+    options = { timeMachineEnabled: false, shouldRestartOnError: true };
+    tradeOptions = { amount: 5, symbol: 'R_100', duration: 1, duration_unit: 't', currency: 'USD', basis: 'stake' };
+    accountInfo = { loginid: 'CR_BOT_BLOCKED' };
+    is_proposal_subscription_required = false;
+}
+
+const TradeEngine = Purchase(Engine);
+
+describe('Bot Builder purchase under the risk policy', () => {
+    const send = jest.fn();
+
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        api_base.api = { send } as unknown as typeof api_base.api;
+        riskPolicyService.updatePolicy({ maxStakePerTrade: 2 }, 'CR_BOT_BLOCKED');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('rejects a blocked purchase without buying and stops the bot with the reason', async () => {
+        const trade_engine = new TradeEngine();
+
+        const error: Error & { code?: string } = await trade_engine.purchase('CALL').then(
+            () => new Error('bought'),
+            (e: Error) => e
+        );
+
+        expect(error).toMatchObject({ code: 'RiskPolicyBlocked', message: 'Stake 5 exceeds limit of 2' });
+        expect(send).not.toHaveBeenCalled();
+        expect(riskPolicyService.getStatus('CR_BOT_BLOCKED').dailyTrades).toBe(0);
+
+        // With "restart on error" on, the interpreter would otherwise buy again and be blocked again
+        const bot = { tradeEngine: trade_engine };
+        expect(shouldStopOnError(bot, error.code)).toBe(true);
+        expect(shouldRestartOnError(bot, error.code)).toBe(false);
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Bot Runtime Tests
+ * Shared tick loop with a pluggable strategy against the in-process fake Deriv server
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - No types available for this package
+import DerivAPIBasic from '@deriv/deriv-api/dist/DerivAPIBasic';
+import type { BotRuntimeConfig, BotRuntimeEvent, BotStrategy } from '../../types/bot-runtime.types';
+import { FakeDerivServer } from '../../utils/mock/fake-deriv-server';
+import { BotRuntime } from '../bot-runtime/bot-runtime.service';
+import { riskPolicyService } from '../risk-policy.service';
+import { tickSourceService } from '../tick-source/tick-source.service';
+
+const TOKEN = 'bot-runtime-token';
+
+const config: BotRuntimeConfig = {
+    name: 'Runtime test',
+    source: 'BOT',
+    symbol: 'R_100',
+    stake: 1,
+    martingale: 2,
+    maxMartingaleLevel: 2,
+    stopConditions: { maxTrades: 3 },
+};
+
+// Buys Over 4 only on even digits
+const evenDigitStrategy = (): BotStrategy & { settled: number[] } => {
+    const settled: number[] = [];
+    return {
+        name: 'Even digit',
+        settled,
+        decide: ({ tick }) =>
+            tick.lastDigit % 2 === 0
+                ? { contractType: 'DIGITOVER', barrier: '4', duration: 1, durationUnit: 't' }
+                : null,
+        onSettled: trade => settled.push(trade.profit),
+    };
+};
+
+describe('BotRuntime', () => {
+    let server: FakeDerivServer;
+    let runtime: BotRuntime;
+    let events: BotRuntimeEvent[];
+
+    beforeAll(async () => {
+        await tickSourceService.initialize();
+    });
+
+    beforeEach(async () => {
+        server = new FakeDerivServer();
+        server.install();
+        server.addAccount(TOKEN, { loginid: 'VRTC500', balance: 100 });
+
+        const api = new DerivAPIBasic({ connection: new WebSocket('wss://ws.derivws.com/websockets/v3?app_id=1089') });
+        api_base.api = api as unknown as typeof api_base.api;
+        await api.send({ authorize: TOKEN });
+        events = [];
+    });
+
+    afterEach(async () => {
+        await runtime.stop();
+        api_base.clearSubscriptions();
+        api_base.api?.disconnect();
+        api_base.api = null;
+        server.uninstall();
+    });
+
+    const start = async (strategy: BotStrategy) => {
+        runtime = new BotRuntime(config, strategy);
+        runtime.subscribe(event => events.push(event));
+        await runtime.start();
+    };
+
+    const pushTicks = async (quotes: number[]) => {
+        for (const quote of quotes) {
+            server.pushTick('R_100', quote);
+            await server.flush();
+        }
+    };
+
+    it('buys only when the strategy decides, applies martingale and stops after the trade limit', async () => {
+        const strategy = evenDigitStrategy();
+        await start(strategy);
+
+        // Odd digits are skipped; each even digit buys a contract settled on the next tick
+        await pushTicks([100.01, 100.02, 100.23, 100.04, 100.21, 100.06, 100.27, 100.08]);
+
+        expect(server.getContracts().map(contract => [contract.buy_price, contract.status])).toEqual([
+            [1, 'lost'],
+            [2, 'lost'],
+            [1, 'won'],
+        ]);
+        expect(strategy.settled).toEqual([-1, -2, expect.closeTo(0.95)]);
+        expect(runtime.getStats()).toMatchObject({ runs: 3, wins: 1, losses: 2, currentStake: 1, isRunning: false });
+        expect(runtime.getStats().totalPL).toBeCloseTo(-2.05, 10);
+        expect(events.filter(event => event.type === 'trade_opened')).toHaveLength(3);
+        expect(events[events.length - 1]).toMatchObject({
+            type: 'stopped',
+            reason: 'Reached 3 trades',
+            isAutoStop: true,
+        });
+    });
+
+    it('reports trades blocked by the risk policy without buying', async () => {
+        riskPolicyService.setKillSwitch(true, 'test');
+        try {
+            await start(evenDigitStrategy());
+            await pushTicks([100.02]);
+        } finally {
+            riskPolicyService.setKillSwitch(false);
+        }
+
+        expect(server.getRequests('buy')).toHaveLength(0);
+        expect(events).toContainEqual({ type: 'error', error: 'Trade blocked: Trading stopped: test' });
+        expect(runtime.isActive()).toBe(true);
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Bot XML Patcher Tests
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { appEventBus } from '../app-event-bus.service';
+import { botXmlPatcher, MARTINGALE_VARIABLE, STAKE_VARIABLE } from '../bot-xml-patcher.service';
+
+const BOT_XML = `<xml xmlns="https://developers.google.com/blockly/xml" is_dbot="true">
+  <variables>
+    <variable id="var-stake">Stake</variable>
+    <variable id="var-martingale">Martangle</variable>
+    <variable id="var-level">Martangle Level</variable>
+  </variables>
+  <block type="trade_definition_market" id="market">
+    <field name="SYMBOL_LIST">R_100</field>
+  </block>
+  <block type="variables_set" id="set-stake">
+    <field name="VAR" id="var-stake">Stake</field>
+    <value name="VALUE">
+      <block type="math_number" id="stake-value"><field name="NUM">2</field></block>
+    </value>
+    <next>
+      <block type="variables_set" id="set-martingale">
+        <field name="VAR" id="var-martingale">Martangle</field>
+        <value name="VALUE">
+          <block type="math_number" id="martingale-value"><field name="NUM">2</field></block>
+        </value>
+        <next>
+          <block type="variables_set" id="set-level">
+            <field name="VAR" id="var-level">Martangle Level</field>
+            <value name="VALUE">
+              <block type="math_number" id="level-value"><field name="NUM">2</field></block>
+            </value>
+          </block>
+        </next>
+      </block>
+    </next>
+  </block>
+  <block type="variables_set" id="double-stake">
+    <field name="VAR" id="var-stake">Stake</field>
+    <value name="VALUE">
+      <block type="math_arithmetic" id="double">
+        <value name="A"><block type="math_number" id="factor"><field name="NUM">2</field></block></value>
+      </block>
+    </value>
+  </block>
+  <block type="purchase" id="purchase"><field name="PURCHASE_LIST">DIGITOVER</field></block>
+</xml>`;
+
+const getField = (xml: string, blockId: string) =>
+    new DOMParser().parseFromString(xml, 'text/xml').querySelector(`block[id="${blockId}"] > field`)?.textContent;
+
+describe('botXmlPatcher', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('patches variable literals and block fields and reports every change', () => {
+        const result = botXmlPatcher.patch(BOT_XML, [
+            {
+                parameter: 'market',
+                value: '1HZ10V',
+                target: { blockType: 'trade_definition_market', field: 'SYMBOL_LIST' },
+            },
+            { parameter: 'stake', value: 0.5, target: { variableName: STAKE_VARIABLE } },
+            { parameter: 'martingale', value: 2.2, target: { variableName: MARTINGALE_VARIABLE } },
+            {
+                parameter: 'contractType',
+                value: 'DIGITOVER',
+                target: { blockType: 'purchase', field: 'PURCHASE_LIST' },
+            },
+            { parameter: 'prediction', value: 3, target: { variableName: 'prediction' } },
+        ]);
+
+        expect(result.success).toBe(false);
+        expect(result.unmatched).toEqual(['prediction']);
+        expect(result.changes).toEqual([
+            expect.objectContaining({ parameter: 'market', blockId: 'market', before: 'R_100', after: '1HZ10V' }),
+            expect.objectContaining({ parameter: 'stake', blockId: 'stake-value', variable: 'Stake', after: '0.5' }),
+            expect.objectContaining({ parameter: 'martingale', variable: 'Martangle', before: '2', after: '2.2' }),
+        ]);
+        // Computed values and look-alike variables are left alone
+        expect(getField(result.xml, 'factor')).toBe('2');
+        expect(getField(result.xml, 'level-value')).toBe('2');
+    });
+
+    it.each([
+        ['D6 Deriv by  State FX.xml', 'stake 2'],
+        ['updated CFX Auto-Bot by  State FX.xml', 'win stake'],
+    ])('patches only the initial stake of the bundled %s', (file, lookAlike) => {
+        const xml = readFileSync(join(__dirname, '../../../public', file), 'utf8');
+
+        const { changes } = botXmlPatcher.patch(xml, [
+            { parameter: 'stake', value: 0.5, target: { variableName: STAKE_VARIABLE } },
+        ]);
+
+        expect(changes.length).toBeGreaterThan(0);
+        expect(changes.map(change => change.variable)).not.toContain(lookAlike);
+        expect(new Set(changes.map(change => change.variable))).toEqual(new Set(['Stake']));
+    });
+
+    it('matches a variable by ID even after it was renamed', () => {
+        const renamed = BOT_XML.replace(
+            '<variable id="var-stake">Stake</variable>',
+            '<variable id="var-stake">Bet</variable>'
+        );
+
+        const { changes } = botXmlPatcher.patch(renamed, [
+            { parameter: 'stake', value: 1, target: { variableId: 'var-stake' } },
+        ]);
+
+        expect(changes.map(change => change.blockId)).toEqual(['stake-value']);
+    });
+
+    it('diffs the template against the patched XML field by field', () => {
+        const { xml } = botXmlPatcher.patch(BOT_XML, [
+            { parameter: 'stake', value: 0.5, target: { variableName: 'stake' } },
+        ]);
+
+        expect(botXmlPatcher.diff(BOT_XML, xml)).toEqual([
+            {
+                blockId: 'stake-value',
+                blockType: 'math_number',
+                variable: 'Stake',
+                field: 'NUM',
+                before: '2',
+                after: '0.5',
+            },
+        ]);
+    });
+
+    it('waits for the preview dialog before loading and skips it when disabled', async () => {
+        const { xml } = botXmlPatcher.patch(BOT_XML, [
+            { parameter: 'stake', value: 0.5, target: { variableName: 'Stake' } },
+        ]);
+        const unsubscribe = appEventBus.subscribe(
+            'bot.xml.preview',
+            ({ changes, respond }) => respond(changes.length !== 1),
+            'PreviewTest'
+        );
+
+        await expect(botXmlPatcher.confirmChanges('Test Bot', BOT_XML, xml)).resolves.toBe(false);
+
+        botXmlPatcher.setPreviewEnabled(false);
+        await expect(botXmlPatcher.confirmChanges('Test Bot', BOT_XML, xml)).resolves.toBe(true);
+
+        unsubscribe();
+    });
+});
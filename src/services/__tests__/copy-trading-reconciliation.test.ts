@@ -0,0 +1,152 @@
+/**
+ * Copy Trading Reconciliation Tests
+ */
+
+import type { CopyTradeExecution } from '@/types/copy-trading.types';
+import { copyTradingReconciliationService } from '../copy-trading-reconciliation.service';
+
+const NOW = 1_700_000_000_000;
+const START = NOW - 60 * 60 * 1000;
+
+const execution = (
+    id: string,
+    executedAt: number,
+    overrides: Partial<CopyTradeExecution> = {}
+): CopyTradeExecution => ({
+    id,
+    masterTradeId: `master-${id}`,
+    copyTraderId: 'follower',
+    market: 'R_100',
+    contractType: 'CALL',
+    stake: 1,
+    buyPrice: 1,
+    duration: 5,
+    durationUnit: 't',
+    executedAt,
+    status: 'ACTIVE',
+    retryCount: 0,
+    maxRetries: 3,
+    ...overrides,
+});
+
+const statementBuy = (
+    contractId: number,
+    seconds: number,
+    amount = -1,
+    shortcode = `CALL_R_100_1.95_${seconds}_5T_S0P_0`
+) => ({
+    action_type: 'buy',
+    amount,
+    contract_id: contractId,
+    transaction_time: seconds,
+    shortcode,
+});
+
+describe('copyTradingReconciliationService', () => {
+    it('merges statement buys with profit table results', () => {
+        const booked = copyTradingReconciliationService.parseBookedContracts(
+            { statement: { transactions: [statementBuy(1, 100), statementBuy(2, 200)] } },
+            { profit_table: { transactions: [{ contract_id: 1, buy_price: 1, sell_price: 1.95, sell_time: 110 }] } }
+        );
+
+        expect(booked).toEqual([
+            expect.objectContaining({
+                contractId: '1',
+                buyPrice: 1,
+                purchaseTime: 100000,
+                sellPrice: 1.95,
+                profit: 0.95,
+            }),
+            expect.objectContaining({ contractId: '2', buyPrice: 1, purchaseTime: 200000 }),
+        ]);
+        expect(booked[1].sellTime).toBeUndefined();
+    });
+
+    it('flags matched, open, missed, duplicate, mismatched and unlinked copies', () => {
+        const seconds = (offset: number) => Math.floor((START + offset) / 1000);
+        const executions = [
+            execution('matched', START + 1000, { contractId: '11' }),
+            execution('open', START + 2000, { contractId: '12' }),
+            execution('wrong-stake', START + 3000, { contractId: '13' }),
+            execution('lost', START + 4000, { contractId: '14' }),
+            execution('failed', START + 5000, { status: 'ERROR', error: 'Timeout' }),
+            execution('timed-out', START + 600_000, { status: 'ERROR', error: 'Timeout' }),
+            execution('twice', START + 900_000, { contractId: '16' }),
+            execution('other-follower', START + 1000, { copyTraderId: 'someone-else' }),
+        ];
+
+        const booked = copyTradingReconciliationService.parseBookedContracts(
+            {
+                statement: {
+                    transactions: [
+                        statementBuy(11, seconds(1000)),
+                        statementBuy(12, seconds(2000)),
+                        statementBuy(13, seconds(3000), -2),
+                        statementBuy(15, seconds(600_500)),
+                        statementBuy(16, seconds(900_000)),
+                        statementBuy(17, seconds(900_800)),
+                        statementBuy(18, seconds(1_500_000), -1, 'DIGITEVEN_R_50_1.95_0_1T'),
+                    ],
+                },
+            },
+            {
+                profit_table: {
+                    transactions: [
+                        { contract_id: 11, buy_price: 1, sell_price: 1.95, sell_time: seconds(6000) },
+                        { contract_id: 13, buy_price: 2, sell_price: 0, sell_time: seconds(8000) },
+                    ],
+                },
+            }
+        );
+
+        const report = copyTradingReconciliationService.reconcile('follower', executions, booked, START, NOW);
+        const statusOf = (id: string) =>
+            report.entries.find(entry => entry.executionId === id && !entry.id.includes(':contract:'))?.status;
+
+        expect(statusOf('matched')).toBe('MATCHED');
+        expect(statusOf('open')).toBe('OPEN');
+        expect(statusOf('wrong-stake')).toBe('MISMATCH');
+        expect(statusOf('lost')).toBe('MISSED');
+        expect(statusOf('failed')).toBe('MISSED');
+        expect(statusOf('timed-out')).toBe('MISMATCH');
+        expect(statusOf('twice')).toBe('OPEN');
+        expect(report.entries.find(entry => entry.contractId === '17')?.status).toBe('DUPLICATE');
+        expect(report.entries.find(entry => entry.contractId === '18')?.status).toBe('UNLINKED');
+        expect(report.entries.some(entry => entry.executionId === 'other-follower')).toBe(false);
+
+        expect(report.counts).toEqual({ MATCHED: 1, OPEN: 2, MISSED: 2, DUPLICATE: 1, MISMATCH: 2, UNLINKED: 1 });
+        expect(report.bookedProfit).toBe(-1.05);
+    });
+
+    it('keeps one ledger row per copy across runs and exports it', () => {
+        const executions = [execution('a', START + 1000, { contractId: '21', copyTraderId: 'exporter' })];
+        const buy = { statement: { transactions: [statementBuy(21, Math.floor((START + 1000) / 1000))] } };
+
+        copyTradingReconciliationService.reconcile(
+            'exporter',
+            executions,
+            copyTradingReconciliationService.parseBookedContracts(buy, {}),
+            START,
+            NOW
+        );
+        copyTradingReconciliationService.reconcile(
+            'exporter',
+            executions,
+            copyTradingReconciliationService.parseBookedContracts(buy, {
+                profit_table: { transactions: [{ contract_id: 21, buy_price: 1, sell_price: 1.95, sell_time: 1 }] },
+            }),
+            START,
+            NOW
+        );
+
+        const ledger = copyTradingReconciliationService.getLedger('exporter');
+        expect(ledger).toHaveLength(1);
+        expect(ledger[0]).toMatchObject({ status: 'MATCHED', profit: 0.95 });
+        expect(localStorage.getItem('copyTradingLedger')).toContain('exporter');
+
+        const csv = copyTradingReconciliationService.exportLedger('exporter', 'csv').split('\n');
+        expect(csv[0]).toMatch(/^status,masterTradeId,executionId,contractId/);
+        expect(csv[1]).toMatch(/^MATCHED,master-a,a,21,R_100,CALL,1,1,1.95,0.95,/);
+        expect(JSON.parse(copyTradingReconciliationService.exportLedger('exporter', 'json')).entries).toHaveLength(1);
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * Copy Trading Tests
+ * Copies master trades onto a follower account and reconciles them against the in-process fake Deriv server
+ */
+
+import type { CopyTrader, NewCopyTrader } from '@/types/copy-trading.types';
+import { FakeDerivServer } from '../../utils/mock/fake-deriv-server';
+import { copyTradingService } from '../copy-trading.service';
+import { tokenVaultService } from '../token-vault.service';
+
+const FOLLOWER_TOKEN = 'a1-FollowerTradeToken42';
+
+const follower: NewCopyTrader = {
+    name: 'Follower',
+    apiToken: FOLLOWER_TOKEN,
+    isActive: true,
+    maxStakePerTrade: 10,
+    maxDailyLoss: 50,
+    maxConcurrentTrades: 2,
+    allowedMarkets: [],
+    allowedContractTypes: [],
+    stakeMultiplier: 2,
+    followSignals: true,
+    followBots: true,
+    followManualTrades: true,
+};
+
+describe('copyTradingService', () => {
+    let server: FakeDerivServer;
+    let trader: CopyTrader;
+
+    beforeAll(async () => {
+        // The shared jest polyfill only provides digest
+        const { webcrypto } = jest.requireActual('crypto');
+        Object.defineProperty(globalThis.crypto, 'subtle', { value: webcrypto.subtle, configurable: true });
+        await tokenVaultService.create('correct horse battery');
+
+        copyTradingService.updateSettings({ executionDelay: 0 });
+    });
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        // Contracts are stamped with the server's tick epochs, which must fall in the reconciliation window
+        server = new FakeDerivServer({ startEpoch: Math.floor(Date.now() / 1000) });
+        server.install();
+        server.addAccount(FOLLOWER_TOKEN, { loginid: 'CR700', balance: 100 });
+
+        const result = await copyTradingService.addCopyTrader(follower);
+        trader = result.trader!;
+    });
+
+    afterEach(async () => {
+        copyTradingService.removeCopyTrader(trader.id);
+        await server.flush();
+        server.uninstall();
+        jest.restoreAllMocks();
+    });
+
+    const copyMasterTrade = () =>
+        copyTradingService.executeMasterTrade({
+            source: 'BOT',
+            market: 'R_100',
+            contractType: 'DIGITEVEN',
+            stake: 1,
+            duration: 1,
+            durationUnit: 't',
+            shouldCopy: true,
+        });
+
+    it('buys the copy on the follower account with its own token', async () => {
+        const masterTrade = await copyMasterTrade();
+        const [execution] = masterTrade.copyExecutions;
+
+        expect(server.getRequests('authorize').map(request => request.authorize)).toContain(FOLLOWER_TOKEN);
+        expect(server.getContracts()).toEqual([
+            expect.objectContaining({ loginid: 'CR700', contract_type: 'DIGITEVEN', symbol: 'R_100', buy_price: 2 }),
+        ]);
+        expect(execution).toMatchObject({ status: 'ACTIVE', buyPrice: 2 });
+        expect(String(execution.contractId)).toBe(String(server.getContracts()[0].contract_id));
+        expect(server.getAccount(FOLLOWER_TOKEN)!.balance).toBe(98);
+    });
+
+    it('settles copies from the follower statement and profit table', async () => {
+        const [execution] = (await copyMasterTrade()).copyExecutions;
+        server.pushTick('R_100', 100.02);
+        await server.flush();
+
+        const report = await copyTradingService.reconcileCopyTrader(trader.id);
+        const contract = server.getContracts()[0];
+
+        expect(server.getRequests('statement')).toHaveLength(1);
+        expect(server.getRequests('profit_table')).toHaveLength(1);
+        expect(report.counts).toMatchObject({ MATCHED: 1, MISSED: 0, DUPLICATE: 0, MISMATCH: 0 });
+        expect(copyTradingService.getCopyExecutions().find(e => e.id === execution.id)).toMatchObject({
+            status: 'WON',
+            profit: contract.profit,
+        });
+        expect(copyTradingService.getNotifications().map(n => n.title)).not.toContain('Copy Reconciliation Issues');
+    });
+
+    it('rejects a follower token the server does not authorize', async () => {
+        const result = await copyTradingService.addCopyTrader({ ...follower, apiToken: 'a1-RevokedFollowerToken' });
+
+        expect(result).toEqual({ success: false, error: 'The token is invalid.' });
+        expect(server.getContracts()).toHaveLength(0);
+    });
+});
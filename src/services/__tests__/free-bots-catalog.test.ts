@@ -0,0 +1,99 @@
+/**
+ * Free Bots Catalog Tests
+ */
+
+import type { FreeBotCatalogEntry } from '@/types/free-bots.types';
+import { freeBotsCatalogService } from '../free-bots-catalog.service';
+
+const { createHash } = jest.requireActual('crypto');
+
+const VALID_XML = '<xml xmlns="https://developers.google.com/blockly/xml"><block type="trade_definition"/></xml>';
+
+const checksum = (content: string) => `sha256-${createHash('sha256').update(content).digest('hex')}`;
+
+const entry = (overrides: Partial<FreeBotCatalogEntry> = {}): FreeBotCatalogEntry => ({
+    file: 'Test Bot.xml',
+    name: 'Test Bot',
+    category: 'Core Trading Bots',
+    author: 'State FX',
+    version: '1.0.0',
+    contractTypes: ['DIGITOVER'],
+    tradeTypes: ['overunder'],
+    markets: ['1HZ10V'],
+    defaultStake: 0.35,
+    martingale: 2,
+    size: VALID_XML.length,
+    checksum: checksum(VALID_XML),
+    ...overrides,
+});
+
+const mockFiles = (files: Record<string, string>) => {
+    global.fetch = jest.fn(async (url: string) => {
+        const content = files[url];
+        return {
+            ok: content !== undefined,
+            status: content === undefined ? 404 : 200,
+            statusText: content === undefined ? 'Not Found' : 'OK',
+            json: async () => JSON.parse(content),
+            arrayBuffer: async () => new TextEncoder().encode(content).buffer,
+        };
+    }) as unknown as typeof fetch;
+};
+
+describe('freeBotsCatalogService', () => {
+    it('loads catalog bots and flags missing and corrupt files', async () => {
+        const tampered = VALID_XML.replace('trade_definition', 'trade_definition_x');
+        const broken = '<xml><block type="trade_definition"></xml>';
+        mockFiles({
+            'free-bots-catalog.json': JSON.stringify({
+                version: 1,
+                bots: [
+                    entry(),
+                    entry({ file: 'Gone.xml', name: 'Gone' }),
+                    entry({ file: 'Tampered.xml', name: 'Tampered' }),
+                    entry({ file: 'Broken.xml', name: 'Broken', checksum: checksum(broken) }),
+                ],
+            }),
+            'Test Bot.xml': VALID_XML,
+            'Tampered.xml': tampered,
+            'Broken.xml': broken,
+        });
+
+        const bots = await freeBotsCatalogService.loadBots();
+
+        expect(bots.map(bot => [bot.title, bot.status])).toEqual([
+            ['Test Bot', 'ready'],
+            ['Gone', 'missing'],
+            ['Tampered', 'corrupt'],
+            ['Broken', 'corrupt'],
+        ]);
+        expect(bots[0]).toMatchObject({ filePath: 'Test Bot.xml', xmlContent: VALID_XML });
+        expect(bots[1].error).toBe('Bot file not found (404)');
+        expect(bots[2].error).toBe('Bot file does not match the catalog checksum');
+        expect(bots[3].error).toBe('Bot file is not valid XML');
+    });
+
+    it('searches and filters by contract type', () => {
+        const bots = [
+            entry({ name: 'Over Ghost', contractTypes: ['DIGITOVER', 'DIGITUNDER'] }),
+            entry({ name: 'Even Odd', author: 'Community', contractTypes: ['DIGITEVEN'], markets: ['R_100'] }),
+        ].map(catalogEntry => ({
+            title: catalogEntry.name,
+            image: '',
+            filePath: catalogEntry.file,
+            xmlContent: VALID_XML,
+            entry: catalogEntry,
+            status: 'ready' as const,
+        }));
+
+        const names = (query: string, contractType?: string) =>
+            freeBotsCatalogService.filterBots(bots, { query, contractType }).map(bot => bot.title);
+
+        expect(names('ghost')).toEqual(['Over Ghost']);
+        expect(names('r_100')).toEqual(['Even Odd']);
+        expect(names('state fx')).toEqual(['Over Ghost']);
+        expect(names('', 'DIGITUNDER')).toEqual(['Over Ghost']);
+        expect(names('ghost', 'DIGITEVEN')).toEqual([]);
+        expect(freeBotsCatalogService.getContractTypes(bots)).toEqual(['DIGITEVEN', 'DIGITOVER', 'DIGITUNDER']);
+    });
+});
@@ -0,0 +1,60 @@
+/**
+ * Live Signal Feed Tests
+ */
+
+import { LIVE_SIGNAL_MAX_AGE_MS, liveSignalFeedService } from '../live-signal-feed.service';
+
+describe('liveSignalFeedService', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2026-01-05T10:00:00Z'));
+        liveSignalFeedService.clear();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('keeps the latest signal per market and per contract type', () => {
+        liveSignalFeedService.publish({
+            generator: 'hot-cold-zone',
+            market: 'R_100',
+            contractType: 'DIGITOVER',
+            barrier: 3,
+            horizonTicks: 5,
+            confidence: 72,
+        });
+        liveSignalFeedService.publish({
+            generator: 'patel',
+            market: 'R_100',
+            contractType: 'DIGITEVEN',
+            horizonTicks: 5,
+            confidence: 0.6,
+        });
+
+        expect(liveSignalFeedService.getSignalField('R_100', 'any', 'contract_type')).toBe('DIGITEVEN');
+        expect(liveSignalFeedService.getSignalField('R_100', 'DIGITOVER', 'barrier')).toBe(3);
+        expect(liveSignalFeedService.getSignalField('R_100', 'DIGITOVER', 'generator')).toBe('hot-cold-zone');
+        expect(liveSignalFeedService.getConfidence('R_100')).toBe(60);
+        expect(liveSignalFeedService.getLatestSignal('R_50')).toBeNull();
+    });
+
+    it('stops reporting signals once they are no longer live', () => {
+        liveSignalFeedService.publish({
+            generator: 'digit-distribution',
+            market: 'R_50',
+            contractType: 'DIGITUNDER',
+            barrier: 7,
+            horizonTicks: 1,
+            confidence: 80,
+        });
+
+        jest.advanceTimersByTime(30 * 1000);
+        expect(liveSignalFeedService.getSignalField('R_50', 'DIGITUNDER', 'age')).toBe(30);
+
+        jest.advanceTimersByTime(LIVE_SIGNAL_MAX_AGE_MS);
+        expect(liveSignalFeedService.getConfidence('R_50', 'DIGITUNDER')).toBe(0);
+        expect(liveSignalFeedService.getSignalField('R_50', 'DIGITUNDER', 'barrier')).toBe(-1);
+        expect(liveSignalFeedService.getSignalField('R_50', 'DIGITUNDER', 'contract_type')).toBe('');
+    });
+});
@@ -0,0 +1,213 @@
+/**
+ * Risk Policy Service Tests
+ */
+
+import { riskPolicyService } from '../risk-policy.service';
+
+const createMessageSource = () => {
+    const callbacks: Array<(message: unknown) => void> = [];
+    return {
+        api: {
+            onMessage: () => ({
+                subscribe: (callback: (message: unknown) => void) => {
+                    callbacks.push(callback);
+                    return { unsubscribe: () => callbacks.splice(callbacks.indexOf(callback), 1) };
+                },
+            }),
+        },
+        emit: (transaction: Record<string, unknown>) =>
+            callbacks.forEach(callback => callback({ data: { msg_type: 'transaction', transaction } })),
+    };
+};
+
+describe('riskPolicyService', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2026-03-02T10:00:00'));
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('allows every trade with the default policy', () => {
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1000, accountId: 'CR_DEFAULT' })).toEqual({
+            allowed: true,
+        });
+    });
+
+    it('keeps the previous Tick Speed limits for Tick Speed only', () => {
+        expect(riskPolicyService.getSourcePolicy('TICK_SPEED', 'CR_TICK_SPEED')).toMatchObject({
+            maxStakePerTrade: 10,
+            maxDailyLoss: 100,
+            maxConsecutiveLosses: 5,
+            lossCooldownMinutes: 5,
+            maxOpenContracts: 3,
+            maxDailyTrades: 50,
+        });
+        expect(riskPolicyService.check({ source: 'TICK_SPEED', stake: 11, accountId: 'CR_TICK_SPEED' }).rule).toBe(
+            'STAKE'
+        );
+        expect(riskPolicyService.check({ source: 'BOT', stake: 11, accountId: 'CR_TICK_SPEED' }).allowed).toBe(true);
+
+        // Limits set on the account replace the fallback
+        riskPolicyService.updatePolicy({ maxStakePerTrade: 20 }, 'CR_TICK_SPEED');
+        expect(riskPolicyService.check({ source: 'TICK_SPEED', stake: 11, accountId: 'CR_TICK_SPEED' }).allowed).toBe(
+            true
+        );
+    });
+
+    it('cools Tick Speed down after its fallback loss streak without holding other paths', () => {
+        for (let id = 1; id <= 5; id++) {
+            riskPolicyService.recordResult({ contractId: id, accountId: 'CR_TICK_STREAK' }, -1);
+        }
+
+        expect(riskPolicyService.check({ source: 'TICK_SPEED', stake: 1, accountId: 'CR_TICK_STREAK' }).rule).toBe(
+            'LOSS_COOLDOWN'
+        );
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_TICK_STREAK' }).allowed).toBe(true);
+
+        jest.advanceTimersByTime(5 * 60 * 1000 + 1);
+        expect(riskPolicyService.check({ source: 'TICK_SPEED', stake: 1, accountId: 'CR_TICK_STREAK' }).allowed).toBe(
+            true
+        );
+    });
+
+    it('applies a daily loss limit to every execution path on the account', () => {
+        riskPolicyService.updatePolicy({ maxDailyLoss: 10 }, 'CR_LOSS');
+
+        riskPolicyService.recordResult({ contractId: 1, accountId: 'CR_LOSS' }, -6);
+        expect(riskPolicyService.check({ source: 'ZEN', stake: 1, accountId: 'CR_LOSS' }).allowed).toBe(true);
+
+        riskPolicyService.recordResult({ contractId: 2, accountId: 'CR_LOSS' }, -4);
+        ['BOT', 'ZEN', 'FAST_LANE', 'SIGNALS', 'SPEED_BOT'].forEach(source => {
+            expect(riskPolicyService.check({ source: source as 'BOT', stake: 1, accountId: 'CR_LOSS' })).toMatchObject({
+                allowed: false,
+                rule: 'DAILY_LOSS',
+            });
+        });
+
+        // Other accounts keep trading, and the limit resets the next day
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_OTHER' }).allowed).toBe(true);
+        jest.setSystemTime(new Date('2026-03-03T00:00:01'));
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_LOSS' }).allowed).toBe(true);
+    });
+
+    it('limits stake per trade and as a share of balance', () => {
+        riskPolicyService.updatePolicy({ maxStakePerTrade: 5, maxStakePercentOfBalance: 10 }, 'CR_STAKE');
+
+        expect(riskPolicyService.check({ source: 'BOT', stake: 6, accountId: 'CR_STAKE' }).rule).toBe('STAKE');
+        expect(riskPolicyService.check({ source: 'BOT', stake: 4, balance: 30, accountId: 'CR_STAKE' }).rule).toBe(
+            'STAKE_BALANCE'
+        );
+        expect(riskPolicyService.check({ source: 'BOT', stake: 3, balance: 30, accountId: 'CR_STAKE' }).allowed).toBe(
+            true
+        );
+    });
+
+    it('reserves concurrency slots until the contract settles or the buy fails', () => {
+        riskPolicyService.updatePolicy({ maxOpenContracts: 1 }, 'CR_OPEN');
+
+        const first = riskPolicyService.authorize({ source: 'ZEN', stake: 1, accountId: 'CR_OPEN' });
+        expect(first.allowed).toBe(true);
+        expect(riskPolicyService.authorize({ source: 'BOT', stake: 1, accountId: 'CR_OPEN' }).rule).toBe('CONCURRENCY');
+
+        // A failed buy releases the slot and does not count as a trade
+        riskPolicyService.cancel(first.ticket);
+        expect(riskPolicyService.getStatus('CR_OPEN')).toMatchObject({ openContracts: 0, dailyTrades: 0 });
+
+        const second = riskPolicyService.authorize({ source: 'ZEN', stake: 1, accountId: 'CR_OPEN' });
+        riskPolicyService.confirm(second.ticket, 123, 1);
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_OPEN' }).allowed).toBe(false);
+
+        riskPolicyService.recordResult({ contractId: 123, accountId: 'CR_OPEN' }, 0.95);
+        expect(riskPolicyService.getStatus('CR_OPEN')).toMatchObject({
+            openContracts: 0,
+            dailyTrades: 1,
+            realizedPnL: 0.95,
+        });
+    });
+
+    it('pauses after a loss streak and starts a fresh streak once the cooldown is over', () => {
+        riskPolicyService.updatePolicy({ maxConsecutiveLosses: 2, lossCooldownMinutes: 1 }, 'CR_STREAK');
+
+        riskPolicyService.recordResult({ contractId: 1, accountId: 'CR_STREAK' }, -1);
+        riskPolicyService.recordResult({ contractId: 2, accountId: 'CR_STREAK' }, -1);
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_STREAK' }).rule).toBe('LOSS_COOLDOWN');
+
+        jest.advanceTimersByTime(61 * 1000);
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_STREAK' }).allowed).toBe(true);
+        expect(riskPolicyService.getStatus('CR_STREAK').consecutiveLosses).toBe(0);
+    });
+
+    it('blocks on a loss streak until reset when no cooldown is configured', () => {
+        riskPolicyService.updatePolicy({ maxConsecutiveLosses: 1 }, 'CR_RESET');
+
+        riskPolicyService.recordResult({ contractId: 1, accountId: 'CR_RESET' }, -1);
+        jest.advanceTimersByTime(60 * 60 * 1000);
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_RESET' }).rule).toBe(
+            'CONSECUTIVE_LOSSES'
+        );
+
+        riskPolicyService.resetLossStreak('CR_RESET');
+        expect(riskPolicyService.check({ source: 'BOT', stake: 1, accountId: 'CR_RESET' }).allowed).toBe(true);
+    });
+
+    it('enforces rate limits and the minimum time between trades', () => {
+        riskPolicyService.updatePolicy({ maxTradesPerMinute: 2, minTimeBetweenTradesMs: 1000 }, 'CR_RATE');
+
+        expect(riskPolicyService.authorize({ source: 'SIGNALS', stake: 1, accountId: 'CR_RATE' }).allowed).toBe(true);
+        expect(riskPolicyService.authorize({ source: 'SIGNALS', stake: 1, accountId: 'CR_RATE' }).rule).toBe(
+            'COOLDOWN'
+        );
+
+        jest.advanceTimersByTime(1000);
+        expect(riskPolicyService.authorize({ source: 'SIGNALS', stake: 1, accountId: 'CR_RATE' }).allowed).toBe(true);
+        jest.advanceTimersByTime(1000);
+        expect(riskPolicyService.authorize({ source: 'SIGNALS', stake: 1, accountId: 'CR_RATE' }).rule).toBe(
+            'RATE_MINUTE'
+        );
+    });
+
+    it('stops every path with the kill switch', () => {
+        riskPolicyService.setKillSwitch(true, 'manual stop', 'CR_KILL');
+        expect(riskPolicyService.check({ source: 'COPY_TRADING', stake: 1, accountId: 'CR_KILL' })).toMatchObject({
+            allowed: false,
+            rule: 'KILL_SWITCH',
+        });
+
+        riskPolicyService.setKillSwitch(false, undefined, 'CR_KILL');
+        expect(riskPolicyService.check({ source: 'COPY_TRADING', stake: 1, accountId: 'CR_KILL' }).allowed).toBe(true);
+    });
+
+    it('settles contracts from the transaction stream exactly once', () => {
+        const { api, emit } = createMessageSource();
+        riskPolicyService.attachTransactionStream(api, 'CR_STREAM');
+
+        // A reserved buy is linked to the contract, an unmanaged buy is tracked on its own
+        const reservation = riskPolicyService.authorize({ source: 'BOT', stake: 2, accountId: 'CR_STREAM' });
+        emit({ action: 'buy', amount: -2, contract_id: 10 });
+        emit({ action: 'buy', amount: -5, contract_id: 11 });
+        riskPolicyService.confirm(reservation.ticket, 10, 2);
+        expect(riskPolicyService.getStatus('CR_STREAM')).toMatchObject({ openContracts: 2, dailyTrades: 2 });
+
+        emit({ action: 'sell', amount: 3.9, contract_id: 10 });
+        emit({ action: 'sell', amount: 0, contract_id: 11 });
+        riskPolicyService.recordResult({ contractId: 10, accountId: 'CR_STREAM' }, 1.9);
+
+        expect(riskPolicyService.getStatus('CR_STREAM')).toMatchObject({
+            openContracts: 0,
+            realizedPnL: -3.1,
+            consecutiveLosses: 1,
+        });
+
+        riskPolicyService.attachTransactionStream(null, '');
+    });
+
+    it('persists policies per account', () => {
+        riskPolicyService.updatePolicy({ maxDailyTrades: 7 }, 'CR_SAVED');
+
+        expect(JSON.parse(localStorage.getItem('risk-policy:CR_SAVED') as string)).toMatchObject({ maxDailyTrades: 7 });
+        expect(riskPolicyService.getPolicy('CR_UNSAVED').maxDailyTrades).toBe(0);
+    });
+});
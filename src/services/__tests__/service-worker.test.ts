@@ -0,0 +1,106 @@
+/**
+ * Service Worker Service Tests
+ * Single registration, first install without a prompt and the "update available" flow
+ */
+
+import type { ServiceWorkerState } from '../service-worker.service';
+
+class FakeWorker extends EventTarget {
+    postMessage = jest.fn();
+
+    constructor(public state: ServiceWorkerState['status'] | string = 'installing') {
+        super();
+    }
+
+    moveTo(state: string) {
+        this.state = state;
+        this.dispatchEvent(new Event('statechange'));
+    }
+}
+
+class FakeRegistration extends EventTarget {
+    scope = 'https://app.test/';
+    installing: FakeWorker | null = null;
+    waiting: FakeWorker | null = null;
+    update = jest.fn(async () => undefined);
+
+    startInstall(worker: FakeWorker) {
+        this.installing = worker;
+        this.dispatchEvent(new Event('updatefound'));
+    }
+}
+
+describe('serviceWorkerService', () => {
+    let registration: FakeRegistration;
+    let container: EventTarget & { register: jest.Mock; controller: FakeWorker | null };
+
+    // Fresh singleton per test, since registration happens once per page load
+    const loadService = async () => {
+        jest.resetModules();
+        return (await import('../service-worker.service')).serviceWorkerService;
+    };
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        registration = new FakeRegistration();
+        container = Object.assign(new EventTarget(), {
+            register: jest.fn(async () => registration),
+            controller: null as FakeWorker | null,
+        });
+        Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stays disabled outside production builds', async () => {
+        const service = await loadService();
+
+        await service.register();
+
+        expect(service.getState().status).toBe('DISABLED');
+        expect(container.register).not.toHaveBeenCalled();
+    });
+
+    it('registers once and does not prompt on the first install', async () => {
+        const service = await loadService();
+        const states: string[] = [];
+        service.subscribe(state => states.push(state.status));
+
+        await Promise.all([service.register({ enabled: true }), service.register({ enabled: true })]);
+        const worker = new FakeWorker();
+        registration.startInstall(worker);
+        worker.moveTo('installed');
+
+        expect(container.register).toHaveBeenCalledTimes(1);
+        expect(container.register).toHaveBeenCalledWith('/service-worker.js');
+        expect(states).toEqual(['REGISTERING', 'ACTIVE']);
+    });
+
+    it('offers a downloaded update and activates it on request', async () => {
+        const service = await loadService();
+        container.controller = new FakeWorker('activated');
+        await service.register({ enabled: true });
+
+        const worker = new FakeWorker();
+        registration.startInstall(worker);
+        worker.moveTo('installed');
+        registration.waiting = worker;
+
+        expect(service.getState().status).toBe('UPDATE_AVAILABLE');
+
+        service.applyUpdate();
+        expect(worker.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+    });
+
+    it('offers a version already waiting from an earlier visit', async () => {
+        registration.waiting = new FakeWorker('installed');
+        container.controller = new FakeWorker('activated');
+        const service = await loadService();
+
+        await service.register({ enabled: true });
+
+        expect(service.getState().status).toBe('UPDATE_AVAILABLE');
+    });
+});
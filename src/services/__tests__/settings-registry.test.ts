@@ -0,0 +1,110 @@
+/**
+ * Settings Registry Tests
+ */
+
+import { settingsRegistry } from '../settings-registry.service';
+
+describe('settingsRegistry', () => {
+    beforeAll(() => {
+        settingsRegistry.register({
+            id: 'test-layout',
+            label: 'Test layout',
+            version: 2,
+            keys: [{ key: 'test-layout-settings', type: 'json' }],
+            // v1 stored a bare column count
+            migrate: (entries, fromVersion) =>
+                fromVersion === 1
+                    ? { 'test-layout-settings': JSON.stringify({ columns: Number(entries['test-layout-settings']) }) }
+                    : entries,
+        });
+    });
+
+    beforeEach(() => {
+        localStorage.clear();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('leaves tokens out of exports unless opted in', () => {
+        localStorage.setItem('zen_app_id', '1089');
+        localStorage.setItem('zen_token', 'secret-token');
+        localStorage.setItem('risk-policy:CR123', '{"dailyLossLimit":50}');
+        localStorage.setItem(
+            'copyTradingData',
+            JSON.stringify({ copyTraders: [['t1', { name: 'Alice', apiToken: 'abc' }]] })
+        );
+
+        const profile = settingsRegistry.exportProfile({ modules: ['zen', 'risk-limits', 'copy-trading'] });
+
+        expect(profile.modules.zen.entries).toEqual({ zen_app_id: '1089' });
+        expect(profile.modules['risk-limits'].entries).toEqual({ 'risk-policy:CR123': '{"dailyLossLimit":50}' });
+        expect(JSON.parse(profile.modules['copy-trading'].entries.copyTradingData)).toEqual({
+            copyTraders: [['t1', { name: 'Alice' }]],
+        });
+
+        const withSecrets = settingsRegistry.exportProfile({ modules: ['zen'], includeSecrets: true });
+        expect(withSecrets.modules.zen).toMatchObject({
+            includesSecrets: true,
+            entries: { zen_app_id: '1089', zen_token: 'secret-token' },
+        });
+    });
+
+    it('rejects profiles that do not match the schema', () => {
+        expect(settingsRegistry.parseProfile('not json').errors).toEqual(['File is not valid JSON']);
+        expect(settingsRegistry.validateProfile({ format: 'other' }).success).toBe(false);
+
+        const profile = settingsRegistry.exportProfile({ modules: ['alerts'] });
+        profile.modules.alerts.entries = { alertPreferences: '{broken', injected: 'x' };
+
+        const validation = settingsRegistry.validateProfile(profile);
+        expect(validation.success).toBe(false);
+        expect(validation.errors).toEqual([
+            'Alert & sound preferences: setting "alertPreferences" is not valid JSON',
+            'Alert & sound preferences: unknown setting "injected"',
+        ]);
+    });
+
+    it('restores only the selected modules, migrating older versions', () => {
+        localStorage.setItem('theme', 'dark');
+        const profile = settingsRegistry.exportProfile({ modules: ['appearance'] });
+        profile.modules['test-layout'] = {
+            version: 1,
+            includesSecrets: false,
+            entries: { 'test-layout-settings': '3' },
+        };
+        profile.modules.zen = { version: 1, includesSecrets: true, entries: { zen_token: 'secret-token' } };
+        profile.modules['retired-module'] = { version: 1, includesSecrets: false, entries: {} };
+        localStorage.clear();
+
+        const result = settingsRegistry.importProfile(profile, { modules: ['test-layout', 'zen', 'retired-module'] });
+
+        expect(result.success).toBe(true);
+        expect(result.restored).toEqual(['test-layout', 'zen']);
+        expect(result.skipped).toEqual([
+            { module: 'retired-module', reason: 'Not supported by this version of the app' },
+        ]);
+        expect(JSON.parse(localStorage.getItem('test-layout-settings') as string)).toEqual({ columns: 3 });
+        expect(localStorage.getItem('zen_token')).toBeNull();
+        expect(localStorage.getItem('theme')).toBeNull();
+    });
+
+    it('rolls back every key when a write fails', () => {
+        localStorage.setItem('theme', 'light');
+        const profile = settingsRegistry.exportProfile({ modules: ['appearance'] });
+        profile.modules.appearance.entries = { theme: 'dark', site_theme: 'dark' };
+
+        const setItem = Storage.prototype.setItem;
+        jest.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key, value) {
+            if (key === 'site_theme') throw new Error('QuotaExceededError');
+            return setItem.call(this, key, value);
+        });
+
+        const result = settingsRegistry.importProfile(profile);
+
+        expect(result.success).toBe(false);
+        expect(localStorage.getItem('theme')).toBe('light');
+    });
+});
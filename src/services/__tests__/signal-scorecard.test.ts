@@ -0,0 +1,129 @@
+/**
+ * Signal Scorecard Tests
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+import type { SourceTick } from '../../types/tick-source.types';
+import { resolveSignalContract, signalScorecardService } from '../signal-scorecard.service';
+import { tickSourceService } from '../tick-source/tick-source.service';
+
+jest.mock('@/external/bot-skeleton/services/api/api-base', () => ({ api_base: { api: null } }));
+
+jest.mock('../tick-source/tick-source.service', () => ({
+    tickSourceService: { subscribe: jest.fn() },
+}));
+
+const handlers = new Map<string, (tick: SourceTick) => void>();
+const unsubscribe = jest.fn();
+
+const sendTick = (symbol: string, quote: number) => handlers.get(symbol)?.({ symbol, epoch: 0, quote, pipSize: 2 });
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('signalScorecardService', () => {
+    beforeEach(() => {
+        handlers.clear();
+        unsubscribe.mockClear();
+        (tickSourceService.subscribe as jest.Mock).mockImplementation(async (symbol, onTick) => {
+            handlers.set(symbol, onTick);
+            return unsubscribe;
+        });
+        (api_base as { api: unknown }).api = null;
+        signalScorecardService.reset();
+    });
+
+    it('maps generator predictions to Deriv contracts', () => {
+        expect(resolveSignalContract('OVER5')).toEqual({ contractType: 'DIGITOVER', barrier: 5 });
+        expect(resolveSignalContract('UNDER', 4)).toEqual({ contractType: 'DIGITUNDER', barrier: 4 });
+        expect(resolveSignalContract('EVEN')).toEqual({ contractType: 'DIGITEVEN' });
+        expect(resolveSignalContract('FALL')).toEqual({ contractType: 'PUT' });
+        expect(resolveSignalContract('MATCHES', 7)).toEqual({ contractType: 'DIGITMATCH', barrier: 7 });
+        expect(resolveSignalContract('MATCHES')).toBeNull();
+        expect(resolveSignalContract('HIGHER')).toBeNull();
+    });
+
+    it('settles a signal on the exit tick after its entry and releases the market', async () => {
+        const id = signalScorecardService.recordSignal({
+            generator: 'hot-cold-zone',
+            market: 'R_100',
+            contractType: 'DIGITOVER',
+            barrier: 4,
+            horizonTicks: 3,
+            confidence: 72,
+        });
+        await flush();
+
+        // Digit contracts count the entry tick as tick 1, so the third tick settles
+        sendTick('R_100', 100.11);
+        sendTick('R_100', 100.12);
+        expect(signalScorecardService.getSettledSignals()).toHaveLength(0);
+        sendTick('R_100', 100.17);
+        await flush();
+
+        const [signal] = signalScorecardService.getSettledSignals();
+        expect(signal).toMatchObject({
+            id,
+            entrySpot: 100.11,
+            exitSpot: 100.17,
+            exitDigit: 7,
+            won: true,
+            confidence: 0.72,
+            chance: 0.5,
+            payoutRatio: 1.95,
+            payoutSource: 'estimated',
+        });
+        expect(unsubscribe).toHaveBeenCalledTimes(1);
+
+        const { generators, markets, pending } = signalScorecardService.getScorecard();
+        expect(pending).toBe(0);
+        expect(generators[0]).toMatchObject({ generator: 'hot-cold-zone', settled: 1, wins: 1, hitRate: 1 });
+        expect(generators[0].expectedValue).toBeCloseTo(0.95);
+        expect(markets[0]).toMatchObject({ market: 'R_100', verdict: 'INSUFFICIENT_DATA' });
+    });
+
+    it('skips unscorable signals and repeats of a prediction that is still open', () => {
+        const prediction = {
+            generator: 'patel' as const,
+            market: 'R_50',
+            contractType: 'DIGITMATCH',
+            barrier: 3,
+            horizonTicks: 5,
+            confidence: 60,
+        };
+
+        expect(signalScorecardService.recordSignal(prediction)).not.toBeNull();
+        expect(signalScorecardService.recordSignal(prediction)).toBeNull();
+        expect(signalScorecardService.recordSignal({ ...prediction, barrier: undefined })).toBeNull();
+        expect(signalScorecardService.recordSignal({ ...prediction, contractType: 'ACCU' })).toBeNull();
+        expect(signalScorecardService.getScorecard().pending).toBe(1);
+    });
+
+    it('uses the quoted payout and scores hit rate against chance with calibration', async () => {
+        const send = jest.fn(async () => ({ proposal: { payout: 1.9, ask_price: 1 } }));
+        (api_base as { api: unknown }).api = { send };
+
+        for (let i = 0; i < 40; i++) {
+            signalScorecardService.recordSignal({
+                generator: 'advanced-algo',
+                market: 'R_10',
+                contractType: 'DIGITEVEN',
+                horizonTicks: 1,
+                confidence: 0.65,
+            });
+            await flush();
+            // Wins on even digits, three out of four times
+            sendTick('R_10', i % 4 === 3 ? 10.01 : 10.02);
+        }
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send).toHaveBeenCalledWith(expect.objectContaining({ contract_type: 'DIGITEVEN', duration: 1 }));
+
+        const [entry] = signalScorecardService.getScorecard().generators;
+        expect(entry).toMatchObject({ settled: 40, wins: 30, hitRate: 0.75, chanceRate: 0.5 });
+        expect(entry.zScore).toBeCloseTo(10 / Math.sqrt(10));
+        expect(entry.verdict).toBe('BEATS_CHANCE');
+        expect(entry.expectedValue).toBeCloseTo((30 * 0.9 - 10) / 40);
+        expect(entry.calibration).toEqual([expect.objectContaining({ from: 0.6, count: 40, observedFrequency: 0.75 })]);
+        expect(entry.calibration[0].statedConfidence).toBeCloseTo(0.65);
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * Speed Bot Tests
+ * Trades tick by tick through the bot API connection against the in-process fake Deriv server
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - No types available for this package
+import DerivAPIBasic from '@deriv/deriv-api/dist/DerivAPIBasic';
+import { FakeDerivServer } from '../../utils/mock/fake-deriv-server';
+import { SpeedBotConfig, speedBotService, TradeUpdate } from '../speed-bot.service';
+import { tickSourceService } from '../tick-source/tick-source.service';
+
+const TOKEN = 'speed-bot-token';
+
+const config: SpeedBotConfig = {
+    market: 'R_100',
+    stake: 1,
+    martingale: 2,
+    strategy: 'Over',
+    prediction: '4',
+    ticks: '1',
+};
+
+describe('speedBotService', () => {
+    let server: FakeDerivServer;
+
+    beforeAll(async () => {
+        await tickSourceService.initialize();
+    });
+
+    beforeEach(async () => {
+        server = new FakeDerivServer();
+        server.install();
+        server.addAccount(TOKEN, { loginid: 'VRTC300', balance: 50 });
+
+        const api = new DerivAPIBasic({ connection: new WebSocket('wss://ws.derivws.com/websockets/v3?app_id=1089') });
+        api_base.api = api as unknown as typeof api_base.api;
+        await api.send({ authorize: TOKEN });
+    });
+
+    afterEach(async () => {
+        await speedBotService.stop();
+        speedBotService.resetStats();
+        api_base.clearSubscriptions();
+        api_base.api?.disconnect();
+        api_base.api = null;
+        server.uninstall();
+    });
+
+    const runUntilStopped = async (exitQuote: number, stopConfig: Partial<SpeedBotConfig>) => {
+        const updates: TradeUpdate[] = [];
+        await speedBotService.start({ ...config, ...stopConfig }, { onTradeUpdate: update => updates.push(update) });
+
+        // The first tick triggers a purchase, which enters and settles on the next tick
+        server.pushTick('R_100', 100.01);
+        await server.flush();
+        server.pushTick('R_100', exitQuote);
+        await server.flush();
+
+        return updates;
+    };
+
+    it('buys on every tick and auto-stops after the configured wins', async () => {
+        const updates = await runUntilStopped(100.27, { stopAfterWins: 1 });
+        const stats = speedBotService.getStats();
+
+        expect(server.getContracts()[0]).toMatchObject({ contract_type: 'DIGITOVER', barrier: '4', status: 'won' });
+        expect(stats).toMatchObject({ runs: 1, wins: 1, isRunning: false });
+        expect(stats.totalPL).toBeCloseTo(0.95, 10);
+        expect(updates).toContainEqual({ type: 'auto_stopped', stopReason: 'Reached 1 consecutive wins' });
+    });
+
+    it('applies the martingale multiplier after a loss', async () => {
+        const updates = await runUntilStopped(100.23, { stopAfterLosses: 1 });
+        const stats = speedBotService.getStats();
+
+        expect(server.getContracts()[0]).toMatchObject({ status: 'lost', profit: -1 });
+        expect(stats).toMatchObject({ runs: 1, losses: 1, totalPL: -1, currentStake: 2 });
+        expect(updates).toContainEqual({ type: 'auto_stopped', stopReason: 'Reached 1 consecutive losses' });
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Symbol Metadata Service Tests
+ */
+
+import { StrategyManager } from '../../utils/fast-lane/strategy-manager';
+import { extractLastDigit, pipToPipSize, symbolMetadataService } from '../symbol-metadata.service';
+
+describe('extractLastDigit', () => {
+    it('keeps trailing zeros that the number itself drops', () => {
+        expect(extractLastDigit(1000.1, 2)).toBe(0);
+        expect(extractLastDigit(1000.2, 2)).toBe(0);
+        expect(extractLastDigit(1234, 2)).toBe(0);
+        expect(extractLastDigit(512.3, 3)).toBe(0);
+        expect(extractLastDigit(1.5, 4)).toBe(0);
+    });
+
+    it('reads the last decimal at the pip size', () => {
+        expect(extractLastDigit(1000.25, 2)).toBe(5);
+        expect(extractLastDigit(253.1237, 4)).toBe(7);
+        expect(extractLastDigit(6123.987, 3)).toBe(7);
+        expect(extractLastDigit(-12.34, 2)).toBe(4);
+    });
+
+    it('accepts string quotes and returns NaN for non-numeric values', () => {
+        expect(extractLastDigit('1000.10', 2)).toBe(0);
+        expect(extractLastDigit('1000.1', 2)).toBe(0);
+        expect(extractLastDigit('MarketIsClosed', 2)).toBeNaN();
+    });
+});
+
+describe('pipToPipSize', () => {
+    it('converts active_symbols pip values to decimals', () => {
+        expect(pipToPipSize(0.01)).toBe(2);
+        expect(pipToPipSize('0.001')).toBe(3);
+        expect(pipToPipSize(0.0001)).toBe(4);
+        expect(pipToPipSize(1)).toBe(0);
+    });
+});
+
+describe('symbolMetadataService', () => {
+    it('resolves pip sizes from active_symbols before the defaults', () => {
+        expect(symbolMetadataService.getPipSize('R_50')).toBe(4);
+        expect(symbolMetadataService.getLastDigit(253.12, 'R_50')).toBe(0);
+
+        symbolMetadataService.loadActiveSymbols([
+            { symbol: 'R_50', pip: 0.0001, display_name: 'Volatility 50 Index' },
+            { symbol: 'TEST_SYM', pip: '0.001' },
+        ]);
+
+        expect(symbolMetadataService.getMetadata('R_50')).toMatchObject({
+            pipSize: 4,
+            displayName: 'Volatility 50 Index',
+            source: 'active_symbols',
+        });
+        expect(symbolMetadataService.getLastDigit(10.5, 'TEST_SYM')).toBe(0);
+        expect(symbolMetadataService.formatQuote(10.5, 'TEST_SYM')).toBe('10.500');
+    });
+
+    it('records tick pip sizes without overriding active_symbols', () => {
+        symbolMetadataService.recordPipSize('R_50', 2);
+        expect(symbolMetadataService.getPipSize('R_50')).toBe(4);
+
+        symbolMetadataService.recordPipSize('TICK_ONLY', 2);
+        expect(symbolMetadataService.getLastDigit(99.9, 'TICK_ONLY')).toBe(0);
+    });
+
+    it('falls back to the quote precision for unknown symbols', () => {
+        expect(symbolMetadataService.hasPipSize('UNKNOWN')).toBe(false);
+        expect(symbolMetadataService.getLastDigit(12.34, 'UNKNOWN')).toBe(4);
+    });
+});
+
+describe('StrategyManager backtest digits', () => {
+    it('settles trades on the pip-size last digit instead of the integer part', () => {
+        const manager = new StrategyManager();
+        const settings = { market: 'R_100', tradeType: 'DIGITEVEN', stake: 1, duration: 1, durationType: 't' as const };
+
+        // Every quote ends in an even digit at 2 decimals (x.x0), but the integer parts alternate parity
+        const ticks = Array.from({ length: 12 }, (_, i) => ({ epoch: i, quote: 1001 + i + 0.1, symbol: 'R_100' }));
+        const result = manager.backtest('momentum', ticks, settings);
+
+        expect(result.totalTrades).toBeGreaterThan(0);
+        expect(result.losses).toBe(0);
+    });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tick Source Tests
+ */
+
+import type { SourceTick } from '../../types/tick-source.types';
+import { riskPolicyService } from '../risk-policy.service';
+import { ANY_SYMBOL, parseTickFile, ReplayTickSource } from '../tick-source/replay-tick-source.service';
+import { tickSourceService } from '../tick-source/tick-source.service';
+
+jest.mock('../deriv-connection-pool.service', () => ({
+    derivConnectionPool: { subscribeToTicks: jest.fn(async () => () => undefined) },
+}));
+
+jest.mock('../historical-tick-loader.service', () => ({
+    historicalTickLoader: { loadHistoricalTicks: jest.fn() },
+}));
+
+const tick = (symbol: string, epoch: number, quote: number): SourceTick => ({ symbol, epoch, quote, pipSize: 2 });
+
+describe('parseTickFile', () => {
+    it('parses CSV with a header, keeping trailing-zero precision', () => {
+        const result = parseTickFile('epoch,quote,symbol\n1700000001,1000.10,R_100\n1700000002,1000.25,R_100\nbad,row');
+
+        expect(result.format).toBe('CSV');
+        expect(result.skippedRows).toBe(1);
+        expect(result.ticks).toEqual([
+            { symbol: 'R_100', epoch: 1700000001, quote: 1000.1, pipSize: 2 },
+            { symbol: 'R_100', epoch: 1700000002, quote: 1000.25, pipSize: 2 },
+        ]);
+    });
+
+    it('parses header-less CSV without a symbol column as a wildcard recording', () => {
+        const result = parseTickFile('1700000002,512.3\n1700000001,512.25');
+
+        expect(result.ticks.map(t => t.epoch)).toEqual([1700000001, 1700000002]);
+        expect(result.ticks.every(t => t.symbol === ANY_SYMBOL && t.pipSize === 2)).toBe(true);
+    });
+
+    it('parses JSON arrays, raw tick messages and ticks_history responses', () => {
+        const array = parseTickFile(JSON.stringify([{ epoch: 1700000001000, price: 10.5, symbol: 'R_10' }]));
+        expect(array.ticks[0]).toMatchObject({ symbol: 'R_10', epoch: 1700000001, quote: 10.5 });
+
+        const messages = parseTickFile(
+            JSON.stringify([{ tick: { epoch: 1700000001, quote: 1.234, symbol: 'R_50', pip_size: 4 } }])
+        );
+        expect(messages.ticks[0]).toMatchObject({ symbol: 'R_50', quote: 1.234, pipSize: 4 });
+
+        const history = parseTickFile(
+            JSON.stringify({
+                echo_req: { ticks_history: 'R_25' },
+                history: { prices: [100.1, 100.12], times: [1700000001, 1700000002] },
+                pip_size: 3,
+            })
+        );
+        expect(history.format).toBe('JSON');
+        expect(history.ticks).toHaveLength(2);
+        expect(history.ticks.every(t => t.symbol === 'R_25' && t.pipSize === 3)).toBe(true);
+    });
+
+    it('rejects files without valid ticks', () => {
+        expect(() => parseTickFile('')).toThrow('Tick file is empty');
+        expect(() => parseTickFile('epoch,quote\nx,y')).toThrow('Tick file contains no valid ticks');
+        expect(() => parseTickFile('time,ask\n1,2')).toThrow('CSV tick file needs epoch and quote columns');
+    });
+});
+
+describe('ReplayTickSource', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('replays ticks in recorded order and serves already replayed ticks as history', async () => {
+        const source = new ReplayTickSource(
+            [tick('R_100', 1, 100), tick('R_50', 1, 50), tick('R_100', 2, 101), tick('R_100', 3, 102)],
+            'test',
+            { autoPlay: false, warmupTicks: 1 }
+        );
+        const received: number[] = [];
+        await source.subscribe('R_100', t => received.push(t.quote));
+
+        expect(await source.getHistory('R_100', 10)).toEqual([tick('R_100', 1, 100)]);
+        expect(source.step(2)).toBe(2);
+        expect(received).toEqual([101]);
+
+        source.step(5);
+        expect(received).toEqual([101, 102]);
+        expect(source.getState()).toMatchObject({ status: 'FINISHED', cursor: 4, totalTicks: 4 });
+        expect((await source.getHistory('R_100', 2)).map(t => t.quote)).toEqual([101, 102]);
+    });
+
+    it('replays wildcard recordings for every subscribed symbol', async () => {
+        const source = new ReplayTickSource([tick(ANY_SYMBOL, 1, 100)], 'test', { autoPlay: false });
+        const received: SourceTick[] = [];
+        await source.subscribe('R_10', t => received.push(t));
+        await source.subscribe('1HZ100V', t => received.push(t));
+
+        source.step();
+
+        expect(received.map(t => t.symbol)).toEqual(['R_10', '1HZ100V']);
+        expect(received.every(t => t.quote === 100)).toBe(true);
+    });
+
+    it('plays back on the recorded timeline scaled by speed', async () => {
+        jest.useFakeTimers();
+        const source = new ReplayTickSource([tick('R_100', 1, 100), tick('R_100', 3, 101)], 'test', { speed: 2 });
+        const received: number[] = [];
+
+        await source.subscribe('R_100', t => received.push(t.quote));
+        expect(source.getState().status).toBe('PLAYING');
+
+        jest.advanceTimersByTime(0);
+        expect(received).toEqual([100]);
+
+        jest.advanceTimersByTime(999);
+        expect(received).toEqual([100]);
+
+        jest.advanceTimersByTime(1);
+        expect(received).toEqual([100, 101]);
+        expect(source.getState().status).toBe('FINISHED');
+    });
+});
+
+describe('tickSourceService', () => {
+    it('switches every subscriber between a loaded replay and the live feed', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        await tickSourceService.loadReplay('epoch,quote\n1700000001,1000.10\n1700000002,1000.20', 'session.csv', {
+            autoPlay: false,
+        });
+        expect(tickSourceService.isReplayActive()).toBe(true);
+
+        const received: SourceTick[] = [];
+        await tickSourceService.subscribe('R_75', t => received.push(t));
+        tickSourceService.getReplaySource()!.step(2);
+        expect(received.map(t => [t.symbol, t.quote])).toEqual([
+            ['R_75', 1000.1],
+            ['R_75', 1000.2],
+        ]);
+
+        await tickSourceService.useLive();
+        expect(tickSourceService.isReplayActive()).toBe(false);
+        expect(tickSourceService.getReplaySource()).toBeNull();
+    });
+
+    it('holds real purchases while a replay is active', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        await tickSourceService.loadReplay('epoch,quote\n1700000001,1000.10', 'session.csv', { autoPlay: false });
+        expect(riskPolicyService.check({ source: 'ZEN', stake: 1, accountId: 'CR_REPLAY' })).toMatchObject({
+            allowed: false,
+            rule: 'REPLAY',
+        });
+
+        await tickSourceService.useLive();
+        expect(riskPolicyService.check({ source: 'ZEN', stake: 1, accountId: 'CR_REPLAY' }).allowed).toBe(true);
+    });
+
+    describe('tick_replay URL parameter', () => {
+        const originalFetch = globalThis.fetch;
+        const originalLocation = window.location;
+
+        const setSearch = (search: string) =>
+            Object.defineProperty(window, 'location', {
+                configurable: true,
+                value: { href: `https://app.test/${search}`, origin: 'https://app.test', search },
+            });
+
+        // Fresh singleton per test, since the parameter is read once per page load
+        const loadService = async (replayUrl: string) => {
+            setSearch(`?tick_replay=${encodeURIComponent(replayUrl)}`);
+            jest.resetModules();
+            return (await import('../tick-source/tick-source.service')).tickSourceService;
+        };
+
+        beforeEach(() => {
+            jest.spyOn(console, 'log').mockImplementation(() => undefined);
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            globalThis.fetch = jest.fn(async () => ({
+                ok: true,
+                status: 200,
+                text: async () => 'epoch,quote\n1700000001,1000.10',
+            })) as unknown as typeof fetch;
+        });
+
+        afterEach(() => {
+            globalThis.fetch = originalFetch;
+            Object.defineProperty(window, 'location', { configurable: true, value: originalLocation });
+            jest.restoreAllMocks();
+        });
+
+        it('replays a same-origin recording for this page load only', async () => {
+            const service = await loadService('/replays/session.csv');
+            await service.initialize();
+
+            expect(globalThis.fetch).toHaveBeenCalledWith('https://app.test/replays/session.csv');
+            expect(service.isReplayActive()).toBe(true);
+            expect(service.getSource().name).toBe('session.csv');
+
+            // Without the parameter the next page load is live again
+            setSearch('');
+            jest.resetModules();
+            const reloaded = (await import('../tick-source/tick-source.service')).tickSourceService;
+            await reloaded.initialize();
+            expect(reloaded.isReplayActive()).toBe(false);
+        });
+
+        it('ignores recordings on other origins', async () => {
+            const service = await loadService('https://ticks.example.com/session.csv');
+            await service.initialize();
+
+            expect(globalThis.fetch).not.toHaveBeenCalled();
+            expect(service.isReplayActive()).toBe(false);
+        });
+    });
+});
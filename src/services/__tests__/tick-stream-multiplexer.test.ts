@@ -0,0 +1,107 @@
+/**
+ * Tick Stream Multiplexer Tests
+ * One shared upstream per symbol, fan-out, late subscriber replay and reference-counted forget
+ */
+
+import { TickListener, TickStreamMultiplexer } from '../tick-stream-multiplexer.service';
+
+const tick = (symbol: string, quote: number) => ({ tick: { symbol, quote, epoch: 1700000000 + quote } });
+
+describe('TickStreamMultiplexer', () => {
+    let upstreamListeners: Map<string, TickListener>;
+    let forget: jest.Mock;
+    let upstream: jest.Mock;
+    let multiplexer: TickStreamMultiplexer;
+
+    const emit = (symbol: string, quote: number) => upstreamListeners.get(symbol)?.(tick(symbol, quote));
+
+    beforeEach(() => {
+        upstreamListeners = new Map();
+        forget = jest.fn();
+        upstream = jest.fn(async (symbol: string, onTick: TickListener) => {
+            upstreamListeners.set(symbol, onTick);
+            return () => forget(symbol);
+        });
+        multiplexer = new TickStreamMultiplexer(upstream, 5);
+    });
+
+    it('shares one upstream subscription per symbol and fans ticks out to every listener', async () => {
+        const first = jest.fn();
+        const second = jest.fn();
+
+        await Promise.all([multiplexer.subscribe('R_50', first), multiplexer.subscribe('R_50', second)]);
+        await multiplexer.subscribe('R_100', jest.fn());
+        emit('R_50', 1);
+
+        expect(upstream).toHaveBeenCalledTimes(2);
+        expect(first).toHaveBeenCalledWith(tick('R_50', 1));
+        expect(second).toHaveBeenCalledWith(tick('R_50', 1));
+        expect(multiplexer.getListenerCount()).toBe(3);
+    });
+
+    it('replays buffered ticks only to late subscribers that opt in', async () => {
+        await multiplexer.subscribe('R_50', jest.fn());
+        [1, 2, 3, 4, 5, 6, 7].forEach(quote => emit('R_50', quote));
+
+        const liveOnly = jest.fn();
+        const latest = jest.fn();
+        const backfilled = jest.fn();
+        await multiplexer.subscribe('R_50', liveOnly);
+        await multiplexer.subscribe('R_50', latest, { replay: 1 });
+        await multiplexer.subscribe('R_50', backfilled, { replay: 10 });
+
+        expect(liveOnly).not.toHaveBeenCalled();
+        expect(latest.mock.calls).toEqual([[tick('R_50', 7)]]);
+        expect(backfilled.mock.calls.map(([data]) => data.tick.quote)).toEqual([3, 4, 5, 6, 7]);
+        expect(multiplexer.getStats()).toEqual([
+            { symbol: 'R_50', listeners: 4, bufferedTicks: 5, lastTickTime: expect.any(Number) },
+        ]);
+
+        emit('R_50', 8);
+        expect(liveOnly.mock.calls).toEqual([[tick('R_50', 8)]]);
+    });
+
+    it('forgets the upstream stream only when the last listener leaves', async () => {
+        const listener = jest.fn();
+        const unsubscribeFirst = await multiplexer.subscribe('R_50', listener);
+        const unsubscribeSecond = await multiplexer.subscribe('R_50', listener);
+
+        unsubscribeFirst();
+        unsubscribeFirst();
+        emit('R_50', 1);
+        expect(forget).not.toHaveBeenCalled();
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        unsubscribeSecond();
+        expect(forget).toHaveBeenCalledWith('R_50');
+        expect(multiplexer.hasStream('R_50')).toBe(false);
+
+        await multiplexer.subscribe('R_50', jest.fn());
+        expect(upstream).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects waiting subscribers when the upstream fails and retries on the next subscribe', async () => {
+        upstream.mockRejectedValueOnce(new Error('Connection timeout while waiting for Deriv API'));
+
+        await expect(
+            Promise.all([multiplexer.subscribe('R_50', jest.fn()), multiplexer.subscribe('R_50', jest.fn())])
+        ).rejects.toThrow('Connection timeout while waiting for Deriv API');
+        expect(multiplexer.hasStream('R_50')).toBe(false);
+
+        await multiplexer.subscribe('R_50', jest.fn());
+        expect(upstream).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps delivering to other listeners when one throws', async () => {
+        const healthy = jest.fn();
+        await multiplexer.subscribe('R_50', () => {
+            throw new Error('listener failed');
+        });
+        await multiplexer.subscribe('R_50', healthy);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        emit('R_50', 1);
+
+        expect(healthy).toHaveBeenCalledWith(tick('R_50', 1));
+    });
+});
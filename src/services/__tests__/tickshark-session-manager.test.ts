@@ -0,0 +1,196 @@
+/**
+ * TickShark Session Manager Service Tests
+ */
+
+import type { TickData } from '../../types/tickshark/analysis.types';
+import type { TradeIntent } from '../../types/tickshark/execution.types';
+import type { AnalysisSignal } from '../tickshark/signal-generator.service';
+
+jest.mock('../tickshark/tick-listener.service', () => ({
+    tickListenerService: {
+        getTickBuffers: jest.fn(() => ({})),
+        restoreTickBuffers: jest.fn(),
+    },
+}));
+
+// Fresh module instances simulate a page reload against the same storage
+const loadModules = async () => {
+    const session = await import('../tickshark/session-manager.service');
+    const tickListener = await import('../tickshark/tick-listener.service');
+    return { sessionManager: session.sessionManagerService, tickListener: tickListener.tickListenerService };
+};
+
+const createIntent = (id: string, overrides: Partial<TradeIntent> = {}): TradeIntent => ({
+    id,
+    type: 'EVEN_ODD',
+    status: 'CREATED',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    parameters: { symbol: 'R_100', contractType: 'EVEN_ODD', stake: 10, duration: 1 },
+    confidence: 0.8,
+    riskScore: 0.2,
+    validationChecks: [],
+    metadata: { source: 'SIGNAL', priority: 'MEDIUM', tags: [] },
+    ...overrides,
+});
+
+const settle = (intent: TradeIntent, payout: number): TradeIntent => ({
+    ...intent,
+    status: 'COMPLETED',
+    execution: {
+        success: true,
+        payout,
+        profit: payout - intent.parameters.stake,
+        executionMetrics: {
+            latency: 50,
+            slippage: 0,
+            executionTime: 50,
+            networkDelay: 20,
+            processingTime: 10,
+            confirmationTime: 20,
+        },
+    },
+});
+
+const tick: TickData = {
+    symbol: 'R_100',
+    timestamp: 1_700_000_000_000,
+    bid: 1000.12,
+    ask: 1000.22,
+    spread: 0.1,
+    receiveTime: 0,
+    processTime: 0,
+    latency: 0,
+    quality: 'HIGH',
+    source: 'test',
+    sequenceNumber: 1,
+    isValid: true,
+};
+
+describe('SessionManagerService', () => {
+    beforeEach(() => {
+        jest.resetModules();
+        localStorage.clear();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('tracks trades against the session limits and pauses when the loss limit is hit', async () => {
+        const { sessionManager } = await loadModules();
+        await sessionManager.initialize();
+        sessionManager.updateConfig({ maxLoss: 20, tradeCooldown: 0 });
+
+        const win = createIntent('intent-1');
+        sessionManager.recordIntent(win);
+        sessionManager.recordTrade(settle(win, 19), 'WIN');
+
+        let stats = sessionManager.getSessionStats();
+        expect(stats.current.trades).toMatchObject({ total: 1, successful: 1 });
+        expect(stats.current.financial.netProfit).toBe(9);
+        expect(stats.openIntents).toBe(0);
+        expect(sessionManager.canTrade().allowed).toBe(true);
+
+        for (const id of ['intent-2', 'intent-3', 'intent-4']) {
+            sessionManager.recordTrade(createIntent(id), 'LOSS');
+        }
+        await Promise.resolve();
+
+        stats = sessionManager.getSessionStats();
+        expect(stats.current.financial.netProfit).toBe(-21);
+        expect(stats.current.financial.maxDrawdown).toBe(30);
+        expect(stats.limits.loss.used).toBe(21);
+        expect(sessionManager.checkLimits()).toEqual({ exceeded: true, limits: ['Maximum session loss'] });
+        expect(stats.current.status).toBe('PAUSED');
+        expect(sessionManager.canTrade().allowed).toBe(false);
+    });
+
+    it('restores the session, open intents and tick buffers after a reload', async () => {
+        const first = await loadModules();
+        await first.sessionManager.initialize();
+        (first.tickListener.getTickBuffers as jest.Mock).mockReturnValue({ R_100: [tick] });
+
+        const open = createIntent('intent-open', { status: 'EXECUTING' });
+        first.sessionManager.recordIntent(open);
+        first.sessionManager.recordTrade(createIntent('intent-lost'), 'LOSS');
+        await first.sessionManager.pauseSession('Before reload');
+        const { id } = first.sessionManager.getSessionStats().current;
+
+        jest.resetModules();
+        const second = await loadModules();
+        await second.sessionManager.initialize();
+
+        const stats = second.sessionManager.getSessionStats();
+        expect(stats.current.id).toBe(id);
+        expect(stats.current.status).toBe('PAUSED');
+        expect(stats.current.trades.total).toBe(1);
+        expect(second.sessionManager.getOpenIntents().map(intent => intent.id)).toEqual(['intent-open']);
+        expect(second.sessionManager.getTradeRecords()).toHaveLength(1);
+        expect(second.tickListener.restoreTickBuffers).toHaveBeenCalledWith({ R_100: [tick] });
+
+        expect(await second.sessionManager.resumeSession()).toBe(true);
+        expect(second.sessionManager.getSessionStats().current.status).toBe('ACTIVE');
+    });
+
+    it('restores an active session with its open intents and settles them once resumed', async () => {
+        const first = await loadModules();
+        await first.sessionManager.initialize();
+        first.sessionManager.updateConfig({ persistInterval: 0, tradeCooldown: 0 });
+
+        first.sessionManager.recordSignal({ id: 'signal-1', type: 'EVEN_ODD' } as AnalysisSignal);
+        const executing = createIntent('intent-executing', {
+            status: 'EXECUTING',
+            signalId: 'signal-1',
+            parameters: { symbol: 'R_100', contractType: 'EVEN_ODD', stake: 10, duration: 1, entrySpot: 1000.12 },
+        });
+        first.sessionManager.recordIntent(executing);
+        first.sessionManager.recordIntent(createIntent('intent-queued', { status: 'QUEUED' }));
+
+        // Let the scheduled snapshot reach storage before the reload
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        jest.resetModules();
+        const second = await loadModules();
+        await second.sessionManager.initialize();
+
+        const restored = second.sessionManager.getSessionStats();
+        expect(restored.current).toMatchObject({
+            status: 'PAUSED',
+            endReason: 'Restored after reload',
+            performance: { signalsGenerated: 1, intentsCreated: 2 },
+        });
+        expect(second.sessionManager.getOpenIntents()).toEqual([
+            executing,
+            expect.objectContaining({ id: 'intent-queued' }),
+        ]);
+
+        await second.sessionManager.resumeSession();
+        const [restoredExecuting, restoredQueued] = second.sessionManager.getOpenIntents();
+        second.sessionManager.recordTrade(settle(restoredExecuting, 19), 'WIN');
+        second.sessionManager.recordTrade(restoredQueued, 'CANCELLED');
+
+        const stats = second.sessionManager.getSessionStats();
+        expect(stats.openIntents).toBe(0);
+        expect(stats.current.trades).toMatchObject({ total: 1, successful: 1, cancelled: 1 });
+        expect(stats.current.financial.netProfit).toBe(9);
+    });
+
+    it('starts a new session on mode change once the current one has activity', async () => {
+        const { sessionManager } = await loadModules();
+        await sessionManager.initialize();
+        const initialId = sessionManager.getSessionStats().current.id;
+
+        await sessionManager.handleModeChange('SIMULATION');
+        expect(sessionManager.getSessionStats().current).toMatchObject({ id: initialId, mode: 'SIMULATION' });
+
+        sessionManager.recordTrade(createIntent('intent-1'), 'LOSS');
+        await sessionManager.handleModeChange('SEMI_AUTOMATED');
+
+        const stats = sessionManager.getSessionStats();
+        expect(stats.current.id).not.toBe(initialId);
+        expect(stats.current.mode).toBe('SEMI_AUTOMATED');
+        expect(stats.history[0]).toMatchObject({ id: initialId, status: 'CLOSED', mode: 'SIMULATION' });
+    });
+});
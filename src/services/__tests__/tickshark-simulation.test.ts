@@ -0,0 +1,319 @@
+/**
+ * TickShark Simulation Service Tests
+ */
+
+import type { AnalysisResult, TickData } from '../../types/tickshark/analysis.types';
+import { AnalysisEngineService } from '../tickshark/analysis-engine.service';
+import { modeManagerService } from '../tickshark/mode-manager.service';
+import { sessionManagerService } from '../tickshark/session-manager.service';
+import type { AnalysisSignal } from '../tickshark/signal-generator.service';
+import { SignalGeneratorService } from '../tickshark/signal-generator.service';
+import { SimulationService } from '../tickshark/simulation.service';
+import { tickListenerService } from '../tickshark/tick-listener.service';
+
+jest.mock('../historical-tick-loader.service', () => ({
+    historicalTickLoader: { loadHistoricalTicks: jest.fn() },
+}));
+
+jest.mock('../tickshark/tick-listener.service', () => ({
+    tickListenerService: {
+        subscribe: jest.fn(() => () => undefined),
+        getTickBuffers: jest.fn(() => ({})),
+        restoreTickBuffers: jest.fn(),
+    },
+}));
+
+const createTick = (index: number, quote: number): TickData => ({
+    symbol: 'R_100',
+    timestamp: 1_700_000_000_000 + index * 1000,
+    bid: quote,
+    ask: quote + 0.1,
+    spread: 0.1,
+    receiveTime: 0,
+    processTime: 0,
+    latency: 0,
+    quality: 'HIGH',
+    source: 'test',
+    sequenceNumber: index,
+    isValid: true,
+});
+
+const createSignal = (overrides: Partial<AnalysisSignal>): AnalysisSignal => ({
+    id: 'signal-test',
+    timestamp: Date.now(),
+    analysisId: 'analysis-test',
+    type: 'EVEN_ODD',
+    symbol: 'R_100',
+    confidence: 0.8,
+    strength: 0.8,
+    recommendedStake: 10,
+    recommendedDuration: 1,
+    prediction: 2,
+    riskScore: 0.2,
+    riskFactors: [],
+    validFrom: Date.now(),
+    validUntil: Date.now() + 1000,
+    urgency: 'HIGH',
+    currentPrice: 1000,
+    expectedPrice: 1000,
+    isValid: true,
+    validationScore: 0.8,
+    source: 'PATTERN_DETECTION',
+    priority: 'HIGH',
+    tags: [],
+    ...overrides,
+});
+
+// Minimal analysis result carrying one opportunity so the signal generator is consulted
+const mockOpportunityAnalysis = (): void => {
+    jest.spyOn(AnalysisEngineService.prototype, 'analyzeTickData').mockImplementation(
+        async ticks =>
+            ({
+                id: 'analysis-test',
+                symbol: ticks[0].symbol,
+                isValid: true,
+                opportunities: [{ id: 'opportunity-test' }],
+                marketCondition: { riskLevel: 'LOW' },
+            }) as unknown as AnalysisResult
+    );
+};
+
+const quietExecution = {
+    latencyRange: [0, 0] as [number, number],
+    slippageRange: [0, 0] as [number, number],
+    rejectionRate: 0,
+    partialFillRate: 0,
+    networkJitter: 0,
+};
+
+describe('SimulationService', () => {
+    let service: SimulationService;
+
+    beforeEach(() => {
+        service = new SimulationService();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('replays recorded ticks and reports progress until completion', async () => {
+        const ticks = Array.from({ length: 40 }, (_, i) => createTick(i, 1000 + i / 100));
+        const states: string[] = [];
+        service.subscribe(state => states.push(state.status));
+
+        const result = await service.runSimulation(
+            {
+                mode: 'HISTORICAL_REPLAY',
+                logging: { enableDetailedLogging: false, logLevel: 'ERROR', saveResults: false },
+            },
+            { ticks }
+        );
+
+        expect(result.ticksProcessed).toBe(40);
+        expect(result.analysesCompleted).toBe(31);
+        expect(service.getState()?.status).toBe('COMPLETED');
+        expect(service.getState()?.progress).toBe(1);
+        expect(states[0]).toBe('INITIALIZING');
+        expect(states).toContain('RUNNING');
+        expect(service.getLastResult()).toBe(result);
+    });
+
+    it('generates the same synthetic market for the same seed', async () => {
+        const config = {
+            mode: 'SYNTHETIC_DATA' as const,
+            duration: 30_000,
+            logging: { enableDetailedLogging: false, logLevel: 'ERROR' as const, saveResults: false },
+        };
+
+        const first = await service.runSimulation(config, { seed: 42 });
+        const second = await new SimulationService().runSimulation(config, { seed: 42 });
+
+        expect(first.tickData).toHaveLength(30);
+        expect(first.tickData.map(tick => tick.bid)).toEqual(second.tickData.map(tick => tick.bid));
+    });
+
+    it('settles digit signals against the following tick', async () => {
+        // Exit quotes alternate between even (x.x2) and odd (x.x3) last digits
+        const ticks = Array.from({ length: 30 }, (_, i) => createTick(i, i % 2 === 0 ? 1000.02 : 1000.03));
+        const signalConfig = new SignalGeneratorService().getConfiguration();
+        mockOpportunityAnalysis();
+        jest.spyOn(SignalGeneratorService.prototype, 'generateSignals').mockReturnValue([
+            createSignal({ prediction: 2 }),
+        ]);
+        jest.spyOn(SignalGeneratorService.prototype, 'getConfiguration').mockReturnValue({
+            ...signalConfig,
+            minSignalInterval: 0,
+        });
+
+        const result = await service.runSimulation(
+            {
+                mode: 'HISTORICAL_REPLAY',
+                executionSimulation: quietExecution,
+                logging: { enableDetailedLogging: false, logLevel: 'ERROR', saveResults: false },
+            },
+            { ticks }
+        );
+
+        const settled = result.tradeData.filter(trade => trade.status === 'COMPLETED');
+        expect(settled.length).toBeGreaterThan(0);
+        settled.forEach(trade => {
+            const exitDigit = Math.round((trade.execution!.exitSpot! * 100) % 10);
+            expect(trade.execution!.profit).toBe(exitDigit % 2 === 0 ? 9 : -10);
+        });
+    });
+
+    it('pays Over/Under contracts according to their barrier', async () => {
+        // Exit quotes alternate between digit 2 (not over 2) and digit 3 (over 2)
+        const ticks = Array.from({ length: 30 }, (_, i) => createTick(i, i % 2 === 0 ? 1000.02 : 1000.03));
+        const signalConfig = new SignalGeneratorService().getConfiguration();
+        mockOpportunityAnalysis();
+        jest.spyOn(SignalGeneratorService.prototype, 'generateSignals').mockReturnValue([
+            createSignal({ type: 'OVER_UNDER', prediction: 2 }),
+        ]);
+        jest.spyOn(SignalGeneratorService.prototype, 'getConfiguration').mockReturnValue({
+            ...signalConfig,
+            minSignalInterval: 0,
+        });
+
+        const result = await service.runSimulation(
+            {
+                mode: 'HISTORICAL_REPLAY',
+                executionSimulation: quietExecution,
+                logging: { enableDetailedLogging: false, logLevel: 'ERROR', saveResults: false },
+            },
+            { ticks }
+        );
+
+        const settled = result.tradeData.filter(trade => trade.status === 'COMPLETED');
+        expect(settled.length).toBeGreaterThan(0);
+        settled.forEach(trade => {
+            // Over 2 wins 7 digits in 10, so it pays 0.975 / 0.7 = 1.39 per unit stake
+            const isOver = trade.execution!.exitSpot === 1000.03;
+            expect(trade.execution!.payout).toBeCloseTo(isOver ? 13.9 : 0);
+        });
+    });
+
+    it('settles live digit contracts on the pip size of the symbol', async () => {
+        // R_10 quotes 3 decimals: x.217 ends on 7 and x.214 on 4, which 2 decimals would round to 2 and 1
+        const ticks = Array.from({ length: 30 }, (_, i) => ({
+            ...createTick(i, i % 2 === 0 ? 6543.217 : 6543.214),
+            symbol: 'R_10',
+        }));
+        const signalConfig = new SignalGeneratorService().getConfiguration();
+        mockOpportunityAnalysis();
+        jest.spyOn(SignalGeneratorService.prototype, 'generateSignals').mockReturnValue([
+            createSignal({ symbol: 'R_10', prediction: 2 }),
+        ]);
+        jest.spyOn(SignalGeneratorService.prototype, 'getConfiguration').mockReturnValue({
+            ...signalConfig,
+            minSignalInterval: 0,
+        });
+        let onTick: (tick: TickData) => void = () => undefined;
+        jest.mocked(tickListenerService.subscribe).mockImplementationOnce(callback => {
+            onTick = callback;
+            return () => undefined;
+        });
+
+        const run = service.runSimulation({
+            mode: 'LIVE_SIMULATION',
+            duration: 60_000,
+            dataSource: { ...service.getDefaultConfig().dataSource, symbol: 'R_10' },
+            executionSimulation: quietExecution,
+            logging: { enableDetailedLogging: false, logLevel: 'ERROR', saveResults: false },
+        });
+        ticks.forEach(tick => onTick(tick));
+        service.stop();
+        const result = await run;
+
+        const settled = result.tradeData.filter(trade => trade.status === 'COMPLETED');
+        expect(settled.length).toBeGreaterThan(0);
+        settled.forEach(trade => {
+            expect(trade.execution!.profit).toBe(trade.execution!.exitSpot === 6543.214 ? 9 : -10);
+        });
+    });
+
+    it('rejects every order when the rejection rate is 100%', async () => {
+        const ticks = Array.from({ length: 20 }, (_, i) => createTick(i, 1000 + i / 100));
+        mockOpportunityAnalysis();
+        jest.spyOn(SignalGeneratorService.prototype, 'generateSignals').mockReturnValue([createSignal({})]);
+
+        const result = await service.runSimulation(
+            {
+                mode: 'HISTORICAL_REPLAY',
+                executionSimulation: { ...quietExecution, rejectionRate: 1 },
+                logging: { enableDetailedLogging: false, logLevel: 'ERROR', saveResults: false },
+            },
+            { ticks }
+        );
+
+        expect(result.tradingResults.totalTrades).toBeGreaterThan(0);
+        expect(result.tradesExecuted).toBe(0);
+        expect(result.tradingResults.failedTrades).toBe(result.tradingResults.totalTrades);
+        expect(result.tradeData.every(trade => trade.execution?.errorMessage === 'Rejected by simulated broker')).toBe(
+            true
+        );
+    });
+
+    it('tracks signals, intents and trades in the TickShark session while in SIMULATION mode', async () => {
+        const ticks = Array.from({ length: 30 }, (_, i) => createTick(i, i % 2 === 0 ? 1000.02 : 1000.03));
+        const signalConfig = new SignalGeneratorService().getConfiguration();
+        mockOpportunityAnalysis();
+        jest.spyOn(SignalGeneratorService.prototype, 'generateSignals').mockReturnValue([createSignal({})]);
+        jest.spyOn(SignalGeneratorService.prototype, 'getConfiguration').mockReturnValue({
+            ...signalConfig,
+            minSignalInterval: 0,
+        });
+        jest.spyOn(modeManagerService, 'getCurrentMode').mockReturnValue('SIMULATION');
+        await sessionManagerService.resetSession(true);
+
+        const result = await service.runSimulation(
+            {
+                mode: 'HISTORICAL_REPLAY',
+                executionSimulation: quietExecution,
+                logging: { enableDetailedLogging: false, logLevel: 'ERROR', saveResults: false },
+            },
+            { ticks }
+        );
+
+        const settled = result.tradeData.filter(trade => trade.status === 'COMPLETED');
+        const stats = sessionManagerService.getSessionStats();
+        expect(stats.current.performance.intentsCreated).toBe(result.tradeData.length);
+        // Signals during the session's trade cooldown, counted in market time, take no intent
+        expect(stats.current.performance.signalsGenerated).toBeGreaterThan(result.tradeData.length);
+        expect(stats.current.trades).toMatchObject({
+            total: settled.length,
+            cancelled: result.tradeData.length - settled.length,
+        });
+        expect(stats.current.financial.netProfit).toBeCloseTo(
+            settled.reduce((sum, trade) => sum + trade.execution!.profit!, 0)
+        );
+        expect(sessionManagerService.getOpenIntents()).toEqual([]);
+        expect(sessionManagerService.getTradeRecords().map(record => record.intentId)).toEqual(
+            expect.arrayContaining(settled.map(trade => trade.id))
+        );
+    });
+
+    it('takes no intents while the TickShark session cannot trade', async () => {
+        const ticks = Array.from({ length: 30 }, (_, i) => createTick(i, i % 2 === 0 ? 1000.02 : 1000.03));
+        mockOpportunityAnalysis();
+        jest.spyOn(SignalGeneratorService.prototype, 'generateSignals').mockReturnValue([createSignal({})]);
+        jest.spyOn(modeManagerService, 'getCurrentMode').mockReturnValue('SIMULATION');
+        await sessionManagerService.resetSession(true);
+        await sessionManagerService.pauseSession('Paused by the user');
+
+        const result = await service.runSimulation(
+            {
+                mode: 'HISTORICAL_REPLAY',
+                executionSimulation: quietExecution,
+                logging: { enableDetailedLogging: false, logLevel: 'ERROR', saveResults: false },
+            },
+            { ticks }
+        );
+
+        expect(result.tradeData).toEqual([]);
+        expect(sessionManagerService.getSessionStats().current.performance).toMatchObject({ intentsCreated: 0 });
+        expect(sessionManagerService.getSessionStats().current.performance.signalsGenerated).toBeGreaterThan(0);
+    });
+});
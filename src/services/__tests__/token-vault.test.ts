@@ -0,0 +1,103 @@
+/**
+ * Token Vault Tests
+ */
+
+import { FakeDerivServer } from '../../utils/mock/fake-deriv-server';
+import { copyTradingService } from '../copy-trading.service';
+import { tokenVaultService } from '../token-vault.service';
+
+const PASSPHRASE = 'correct horse battery';
+const TOKEN = 'a1-FollowerTradeToken42';
+
+describe('tokenVaultService', () => {
+    beforeAll(() => {
+        // The shared jest polyfill only provides digest
+        const { webcrypto } = jest.requireActual('crypto');
+        Object.defineProperty(globalThis.crypto, 'subtle', { value: webcrypto.subtle, configurable: true });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('creates a vault, keeps tokens encrypted at rest and unlocks only with the passphrase', async () => {
+        expect(await tokenVaultService.create('short')).toMatchObject({ success: false });
+        expect(await tokenVaultService.create(PASSPHRASE)).toEqual({ success: true });
+
+        await tokenVaultService.setToken('trader-1', TOKEN);
+        expect(localStorage.getItem('copyTradingVault')).not.toContain(TOKEN);
+        expect(await tokenVaultService.getToken('trader-1')).toBe(TOKEN);
+
+        tokenVaultService.lock();
+        expect(tokenVaultService.hasToken('trader-1')).toBe(true);
+        await expect(tokenVaultService.getToken('trader-1')).rejects.toThrow('Token vault is locked');
+
+        expect(await tokenVaultService.unlock('wrong passphrase')).toEqual({
+            success: false,
+            error: 'Incorrect passphrase',
+        });
+        expect(await tokenVaultService.unlock(PASSPHRASE)).toEqual({ success: true });
+        expect(await tokenVaultService.getToken('trader-1')).toBe(TOKEN);
+    });
+
+    it('re-encrypts tokens when the passphrase changes', async () => {
+        expect(await tokenVaultService.changePassphrase(PASSPHRASE, 'a new passphrase')).toEqual({ success: true });
+        tokenVaultService.lock();
+
+        expect((await tokenVaultService.unlock(PASSPHRASE)).success).toBe(false);
+        expect((await tokenVaultService.unlock('a new passphrase')).success).toBe(true);
+        expect(await tokenVaultService.getToken('trader-1')).toBe(TOKEN);
+    });
+
+    it('locks itself after the idle timeout unless there is activity', async () => {
+        tokenVaultService.lock();
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+        tokenVaultService.setAutoLockMinutes(5);
+        await tokenVaultService.unlock('a new passphrase');
+
+        jest.advanceTimersByTime(4 * 60 * 1000);
+        window.dispatchEvent(new Event('keydown'));
+        jest.advanceTimersByTime(2 * 60 * 1000);
+        expect(tokenVaultService.isUnlocked()).toBe(true);
+
+        jest.advanceTimersByTime(3 * 60 * 1000);
+        expect(tokenVaultService.isUnlocked()).toBe(false);
+    });
+
+    it('stores copy trader tokens in the vault instead of the trader record', async () => {
+        const trader = {
+            name: 'Follower',
+            apiToken: TOKEN,
+            isActive: true,
+            maxStakePerTrade: 10,
+            maxDailyLoss: 50,
+            maxConcurrentTrades: 2,
+            allowedMarkets: [],
+            allowedContractTypes: [],
+            stakeMultiplier: 1,
+            followSignals: true,
+            followBots: true,
+            followManualTrades: true,
+        };
+
+        expect(await copyTradingService.addCopyTrader(trader)).toMatchObject({
+            success: false,
+            error: 'Unlock the token vault before adding a copy trader',
+        });
+
+        // Adding a trader authorizes its token on the follower's own connection
+        const server = new FakeDerivServer();
+        server.install();
+        server.addAccount(TOKEN, { loginid: 'CR900' });
+
+        await tokenVaultService.unlock('a new passphrase');
+        const result = await copyTradingService.addCopyTrader(trader);
+
+        expect(result.trader).toMatchObject({ tokenHint: TOKEN.slice(-6) });
+        expect(result.trader).not.toHaveProperty('apiToken');
+        expect(localStorage.getItem('copyTradingData')).not.toContain(TOKEN);
+        expect(await tokenVaultService.getToken(result.trader!.id)).toBe(TOKEN);
+        expect((await copyTradingService.addCopyTrader(trader)).error).toBe('This API token is already registered');
+        server.uninstall();
+    });
+});
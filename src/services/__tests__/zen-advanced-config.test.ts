@@ -0,0 +1,273 @@
+/**
+ * Zen Advanced Config Tests
+ * Risk and execution options driven through a fake tick stream and a fake Deriv API
+ */
+
+import type { AdvancedZenConfig, ZenTradeConfig, ZenTradeResult } from '../zen-trading.service';
+import { zenTradingService } from '../zen-trading.service';
+
+jest.mock('../master-trade-integration.service', () => ({
+    masterTradeIntegrationService: { onZenTrade: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../risk-policy.service', () => ({
+    riskPolicyService: {
+        authorize: () => ({ allowed: true, ticket: 'ticket' }),
+        confirm: jest.fn(),
+        cancel: jest.fn(),
+    },
+}));
+
+const service = zenTradingService as unknown as {
+    trades: ZenTradeResult[];
+    isRunning: boolean;
+    authToken: string | null;
+    initialBalance: number | null;
+    sendRequest: jest.Mock;
+    handleWebSocketMessage: (data: Record<string, unknown>) => void;
+};
+
+const config: ZenTradeConfig = {
+    strategy: 'Even',
+    market: 'R_100',
+    stake: 1,
+    martingaleMultiplier: 1,
+    ticks: 1,
+    defaultDigit: 5,
+    switchOnLoss: false,
+    lossesToSwitch: 3,
+    switchMarket: false,
+    mainMode: true,
+    rounds: 10,
+    delay: false,
+};
+
+const advancedDefaults: AdvancedZenConfig = {
+    dynamicPositionSizing: false,
+    maxPositionSize: 0,
+    volatilityAdjustment: false,
+    correlationLimit: 0,
+    drawdownProtection: false,
+    maxDrawdownPercent: 20,
+    multiStrategyMode: false,
+    autoStrategySwitch: false,
+    strategyPerformanceWindow: 50,
+    customStrategies: [],
+    volatilityDetection: false,
+    patternRecognition: false,
+    sentimentAnalysis: false,
+    marketCorrelationTracking: false,
+    smartOrderRouting: false,
+    slippageProtection: false,
+    maxSlippagePercent: 2,
+    executionDelayMs: 0,
+    realTimePnL: false,
+    sharpeRatioTracking: false,
+    drawdownMonitoring: false,
+    timeBasedAnalytics: false,
+    debugMode: false,
+    verboseLogging: false,
+    performanceOptimization: false,
+    experimentalFeatures: false,
+};
+
+// Fake Deriv API: proposals quote `payoutRatio`, contracts settle as `outcome` or stay open
+let payoutRatio = 1.95;
+let outcome: 'won' | 'lost' | 'open' = 'open';
+let contractCounter = 0;
+
+const fakeApi = async (request: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    if (request.proposal) {
+        const amount = request.amount as number;
+        return { proposal: { id: `proposal-${++contractCounter}`, ask_price: amount, payout: amount * payoutRatio } };
+    }
+    if (request.buy) {
+        const price = request.price as number;
+        return { buy: { contract_id: ++contractCounter, buy_price: price, payout: price * payoutRatio } };
+    }
+    if (request.proposal_open_contract) {
+        const contractId = request.contract_id as number;
+        if (outcome === 'open') {
+            return { proposal_open_contract: { contract_id: contractId, status: 'open' } };
+        }
+        const trade = service.trades.find(t => t.contractId === String(contractId))!;
+        const sellPrice = outcome === 'won' ? trade.stake * payoutRatio : 0;
+        return {
+            proposal_open_contract: {
+                contract_id: contractId,
+                is_sold: 1,
+                status: outcome,
+                buy_price: trade.stake,
+                sell_price: sellPrice,
+                profit: sellPrice - trade.stake,
+            },
+        };
+    }
+    return {};
+};
+
+// Let the awaited proposal, buy and status round trips settle
+const flush = async () => {
+    for (let i = 0; i < 50; i++) {
+        await Promise.resolve();
+    }
+};
+
+const tick = async (quote: number, symbol = 'R_100') => {
+    service.handleWebSocketMessage({ tick: { quote, symbol } });
+    await flush();
+};
+
+// Quotes following the given relative returns
+const series = (start: number, returns: number[]) =>
+    returns.reduce((quotes, r) => [...quotes, quotes[quotes.length - 1] * (1 + r)], [start]);
+
+const requestsOf = (type: string) =>
+    service.sendRequest.mock.calls.map(([request]) => request).filter(request => request[type] !== undefined);
+
+const start = (advanced: Partial<AdvancedZenConfig>, tradeConfig = config) => {
+    zenTradingService.initialize(tradeConfig);
+    zenTradingService.updateAdvancedConfig({ ...advancedDefaults, ...advanced });
+    zenTradingService.updateAdvancedFeaturesEnabled(true);
+};
+
+describe('Zen advanced risk and execution controls', () => {
+    const onError = jest.fn();
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        payoutRatio = 1.95;
+        outcome = 'open';
+        service.isRunning = false;
+        service.authToken = 'token';
+        service.sendRequest = jest.fn(fakeApi);
+        onError.mockClear();
+        zenTradingService.setCallbacks({ onError });
+    });
+
+    afterEach(() => {
+        service.isRunning = false;
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    it('halts trading once the drawdown from the session peak reaches the limit', async () => {
+        start({ drawdownProtection: true, maxDrawdownPercent: 18 });
+        service.initialBalance = 10;
+        service.isRunning = true;
+        outcome = 'lost';
+
+        await tick(100.01);
+        expect(service.isRunning).toBe(true);
+
+        // 10% down is past half the limit, so the next stakes are halved
+        await tick(100.02);
+        expect(service.isRunning).toBe(true);
+
+        await tick(100.03);
+        expect(requestsOf('proposal').map(request => request.amount)).toEqual([1, 0.5, 0.5]);
+        expect(service.isRunning).toBe(false);
+        expect(onError).toHaveBeenCalledWith(expect.stringContaining('Drawdown protection halted trading'));
+
+        await tick(100.04);
+        expect(service.trades).toHaveLength(3);
+    });
+
+    it('scales the stake with recent tick volatility', async () => {
+        start({ volatilityAdjustment: true }, { ...config, stake: 2 });
+
+        // Trade on the last tick of each stretch
+        const trade = async (quotes: number[]) => {
+            service.isRunning = false;
+            for (const quote of quotes.slice(0, -1)) await tick(quote);
+            service.isRunning = true;
+            await tick(quotes[quotes.length - 1]);
+        };
+
+        const calm = Array.from({ length: 60 }, (_, i) => (i % 2 ? -0.0001 : 0.0001));
+        const choppy = Array.from({ length: 20 }, (_, i) => (i % 2 ? -0.002 : 0.002));
+        await trade(series(100, calm));
+        await trade(series(100, choppy));
+
+        expect(requestsOf('proposal').map(request => request.amount)).toEqual([2, 1]);
+    });
+
+    it('rejects a proposal whose payout moved beyond the max slippage', async () => {
+        start({ slippageProtection: true, maxSlippagePercent: 2 });
+        service.isRunning = true;
+
+        await tick(100.01);
+        payoutRatio = 1.85;
+        await tick(100.02);
+
+        expect(requestsOf('proposal')).toHaveLength(2);
+        expect(requestsOf('buy')).toHaveLength(1);
+        expect(service.trades[1]).toMatchObject({ status: 'error' });
+        expect(service.trades[1].error).toMatch(/^Slippage protection: Payout dropped/);
+    });
+
+    it('runs strategy legs on their own markets with one open contract per leg', async () => {
+        start({ multiStrategyMode: true, strategyLegs: [{ strategy: 'Odd', market: 'R_50' }] });
+        service.isRunning = true;
+
+        await tick(100.01);
+        await tick(50.01, 'R_50');
+        await tick(50.02, 'R_50');
+
+        const legProposals = requestsOf('proposal').filter(request => request.symbol === 'R_50');
+        expect(legProposals).toHaveLength(1);
+        expect(legProposals[0].contract_type).toBe('DIGITODD');
+        expect(service.trades.filter(t => t.market === 'R_50')).toEqual([
+            expect.objectContaining({ strategy: 'Odd', entrySpot: 50.01, status: 'pending' }),
+        ]);
+    });
+
+    it('keeps a leg blocked while its result is only a local estimate', async () => {
+        start({ multiStrategyMode: true, strategyLegs: [{ strategy: 'Odd', market: 'R_50' }] });
+        service.isRunning = true;
+
+        await tick(50.01, 'R_50');
+        const [legTrade] = service.trades.filter(t => t.market === 'R_50');
+        Object.assign(legTrade, { status: 'won', settlement: 'estimated' });
+
+        await tick(50.02, 'R_50');
+        expect(requestsOf('proposal').filter(request => request.symbol === 'R_50')).toHaveLength(1);
+
+        legTrade.settlement = 'confirmed';
+        await tick(50.03, 'R_50');
+        expect(requestsOf('proposal').filter(request => request.symbol === 'R_50')).toHaveLength(2);
+    });
+
+    it('skips legs whose market correlates above the limit with open trades', async () => {
+        start({
+            multiStrategyMode: true,
+            correlationLimit: 60,
+            strategyLegs: [
+                { strategy: 'Even', market: 'R_50' },
+                { strategy: 'Even', market: 'R_25' },
+            ],
+        });
+
+        // R_50 moves with R_100, R_25 moves independently of it
+        const returns = Array.from({ length: 24 }, (_, i) => (i % 4 < 2 ? 0.001 : -0.001));
+        const independent = Array.from({ length: 24 }, (_, i) => (i % 2 ? -0.001 : 0.001));
+        const r100 = series(100, returns);
+        const r50 = series(50, returns);
+        const r25 = series(25, independent);
+        for (let i = 0; i < r100.length - 1; i++) {
+            await tick(r100[i]);
+            await tick(r50[i], 'R_50');
+            await tick(r25[i], 'R_25');
+        }
+
+        service.isRunning = true;
+        await tick(r100[r100.length - 1]);
+        await tick(r50[r50.length - 1], 'R_50');
+        await tick(r25[r25.length - 1], 'R_25');
+
+        const markets = service.trades.map(t => t.market);
+        expect(markets).toContain('R_100');
+        expect(markets).toContain('R_25');
+        expect(markets).not.toContain('R_50');
+    });
+});
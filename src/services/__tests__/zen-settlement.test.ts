@@ -0,0 +1,111 @@
+/**
+ * Zen Settlement Tests
+ * Local profit math is only an estimate; Deriv's settled result drives P&L and martingale
+ */
+
+import type { ZenTradeConfig, ZenTradeResult } from '../zen-trading.service';
+import { zenTradingService } from '../zen-trading.service';
+
+// Drive the service the way the WebSocket does
+const service = zenTradingService as unknown as {
+    trades: ZenTradeResult[];
+    consecutiveLosses: number;
+    handleWebSocketMessage: (data: Record<string, unknown>) => void;
+};
+
+const config: ZenTradeConfig = {
+    strategy: 'Even',
+    market: 'R_100',
+    stake: 1,
+    martingaleMultiplier: 2,
+    ticks: 1,
+    defaultDigit: 5,
+    switchOnLoss: false,
+    lossesToSwitch: 3,
+    switchMarket: false,
+    mainMode: true,
+    rounds: 10,
+    delay: false,
+};
+
+const openTrade = (contractId: string): ZenTradeResult => {
+    const trade: ZenTradeResult = {
+        id: `trade-${contractId}`,
+        timestamp: Date.now(),
+        strategy: 'Even',
+        market: 'R_100',
+        stake: 1,
+        contractType: 'DIGITEVEN',
+        duration: 1,
+        entrySpot: 1234.56,
+        status: 'pending',
+        contractId,
+        buyPrice: 1,
+    };
+    service.trades.push(trade);
+    return trade;
+};
+
+describe('Zen settlement confirmation', () => {
+    beforeEach(() => {
+        zenTradingService.initialize(config);
+    });
+
+    it('shows a local estimate but only steps martingale on the confirmed result', () => {
+        const trade = openTrade('101');
+
+        // Expired with exit 1234.58: local math reads digit 8 (even) and estimates a win
+        service.handleWebSocketMessage({
+            proposal_open_contract: { contract_id: 101, is_expired: 1, exit_tick: 1234.58, status: 'open' },
+        });
+        expect(trade).toMatchObject({ status: 'won', settlement: 'estimated', exitDigit: 8 });
+        expect(zenTradingService.getStats().totalProfit).toBe(0);
+
+        // Deriv settles a loss
+        service.handleWebSocketMessage({
+            proposal_open_contract: {
+                contract_id: 101,
+                is_sold: 1,
+                status: 'lost',
+                buy_price: 1,
+                sell_price: 0,
+                profit: -1,
+                exit_tick: 1234.58,
+                exit_tick_display_value: '1234.58',
+            },
+        });
+
+        expect(trade).toMatchObject({
+            status: 'lost',
+            profit: -1,
+            settlement: 'confirmed',
+            exitDigit: 8,
+            correctedFrom: { status: 'won', profit: 0.9 },
+        });
+        expect(service.consecutiveLosses).toBe(1);
+        expect(zenTradingService.getStats().totalProfit).toBe(-1);
+    });
+
+    it('settles once even when the result arrives on several channels', () => {
+        const trade = openTrade('202');
+        const sold = { contract_id: 202, is_sold: 1, status: 'won', buy_price: 1, sell_price: 1.95, profit: 0.95 };
+
+        service.handleWebSocketMessage({ proposal_open_contract: sold });
+        service.handleWebSocketMessage({ proposal_open_contract: sold });
+        service.handleWebSocketMessage({ transaction: { action: 'sell', contract_id: 202, amount: 1.95 } });
+
+        expect(trade).toMatchObject({ status: 'won', profit: 0.95, settlement: 'confirmed' });
+        expect(trade.correctedFrom).toBeUndefined();
+        expect(service.consecutiveLosses).toBe(0);
+        expect(zenTradingService.getStats().totalProfit).toBe(0.95);
+    });
+
+    it('confirms from a sell on the transaction stream', () => {
+        const trade = openTrade('303');
+
+        service.handleWebSocketMessage({ transaction: { action: 'sell', contract_id: 303, amount: 0 } });
+
+        expect(trade).toMatchObject({ status: 'lost', profit: -1, settlement: 'confirmed' });
+        expect(service.consecutiveLosses).toBe(1);
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Zen WebSocket Tests
+ * Runs the Zen connection layer against the in-process fake Deriv server
+ */
+
+import { FakeDerivServer } from '../../utils/mock/fake-deriv-server';
+import { tickSourceService } from '../tick-source/tick-source.service';
+import { zenWebSocketService } from '../zen-websocket.service';
+
+const TOKEN = 'zen-test-token-123';
+
+describe('zenWebSocketService', () => {
+    let server: FakeDerivServer;
+
+    beforeAll(async () => {
+        await tickSourceService.initialize();
+    });
+
+    beforeEach(() => {
+        server = new FakeDerivServer();
+        server.install();
+        server.addAccount(TOKEN, { loginid: 'VRTC200', balance: 250 });
+    });
+
+    afterEach(async () => {
+        await zenWebSocketService.disconnect();
+        server.uninstall();
+        jest.useRealTimers();
+    });
+
+    it('authorizes on connect and streams ticks, proposals and balance', async () => {
+        const onTick = jest.fn();
+        const onProposal = jest.fn();
+        const onBalance = jest.fn();
+        zenWebSocketService.initialize({ appId: '1089', apiToken: TOKEN }, { onTick, onProposal, onBalance });
+
+        await zenWebSocketService.connect();
+        expect(zenWebSocketService.isReady()).toBe(true);
+
+        await zenWebSocketService.subscribeTicks('R_50');
+        await zenWebSocketService.subscribeProposal({
+            symbol: 'R_50',
+            contract_type: 'DIGITEVEN',
+            amount: 2,
+            basis: 'stake',
+            duration: 1,
+            duration_unit: 't',
+        });
+        await zenWebSocketService.subscribeBalance();
+
+        server.scriptTicks('R_50', [250.31, 250.48]);
+        server.runTicks('R_50');
+        await server.flush();
+
+        expect(onTick.mock.calls.map(([tick]) => tick.quote)).toEqual([250.31, 250.48]);
+        expect(onProposal).toHaveBeenCalledTimes(3);
+        expect(onProposal).toHaveBeenLastCalledWith(expect.objectContaining({ ask_price: 2, payout: 3.9 }));
+        expect(onBalance).toHaveBeenCalledWith({ balance: 250, currency: 'USD' });
+        expect(zenWebSocketService.getState().subscriptions).toBe(3);
+    });
+
+    it('reconnects and restores its subscriptions after the connection drops', async () => {
+        const onTick = jest.fn();
+        const onConnectionChange = jest.fn();
+        zenWebSocketService.initialize({ appId: '1089', apiToken: TOKEN }, { onTick, onConnectionChange });
+        await zenWebSocketService.connect();
+        await zenWebSocketService.subscribeTicks('R_50');
+
+        jest.useFakeTimers();
+        server.disconnect();
+        await server.flush();
+        expect(onConnectionChange).toHaveBeenLastCalledWith('disconnected');
+
+        jest.advanceTimersByTime(1000);
+        await server.flush();
+
+        expect(zenWebSocketService.isReady()).toBe(true);
+        expect(server.getRequests('ticks')).toHaveLength(2);
+
+        server.pushTick('R_50', 251.07);
+        await server.flush();
+        expect(onTick).toHaveBeenCalledWith({ quote: 251.07, epoch: expect.any(Number), symbol: 'R_50' });
+    });
+
+    it('reports rejected tokens and rate limited subscriptions', async () => {
+        const onError = jest.fn();
+        zenWebSocketService.initialize({ appId: '1089', apiToken: 'unknown-token-456' }, { onError });
+
+        await zenWebSocketService.connect();
+        await server.flush();
+        expect(zenWebSocketService.isReady()).toBe(false);
+        expect(onError).toHaveBeenCalledWith('The token is invalid.');
+
+        server.rateLimit('ticks');
+        await expect(zenWebSocketService.subscribeTicks('R_50')).rejects.toThrow(
+            'You have reached the rate limit for ticks.'
+        );
+    });
+});
@@ -6,19 +6,30 @@
 import {
     AccumulatorConfig,
     AccumulatorAnalysis,
+    AccumulatorBacktest,
     AccumulatorSession,
     AccumulatorSignal,
+    AccumulatorTrade,
     TickAnalysis,
     VolatilityAnalysis,
     ProfitProbability,
     RiskAssessment,
     AccumulatorRecommendation,
+    BacktestResults,
+    EquityPoint,
+    KnockoutProfile,
     TickData,
     TickPattern,
 } from '../../types/accumulator/accumulator.types';
+import { tickSourceService } from '../tick-source/tick-source.service';
+import { accumulatorBarrierService } from './accumulator-barrier.service';
+
+const MAX_TICK_HISTORY = 1000;
+const BACKTEST_TICKS = 1000;
 
 class AccumulatorAnalysisService {
-    private tickHistory: TickData[] = [];
+    private tickHistory = new Map<string, TickData[]>();
+    private tickMonitors = new Map<string, { unsubscribe?: () => void }>();
     private currentSession: AccumulatorSession | null = null;
     private analysisInterval: NodeJS.Timeout | null = null;
 
@@ -44,6 +55,7 @@ class AccumulatorAnalysisService {
         };
 
         this.currentSession = session;
+        this.startTickMonitoring(session.id, config);
         this.startTickAnalysis();
 
         return session;
@@ -55,7 +67,11 @@ class AccumulatorAnalysisService {
     async analyzeAccumulator(config: AccumulatorConfig, tickData: TickData[]): Promise<AccumulatorAnalysis> {
         const tickAnalysis = this.analyzeTickData(tickData);
         const volatilityAnalysis = this.analyzeVolatility(tickData);
-        const profitProbability = this.calculateProfitProbability(config, tickAnalysis, volatilityAnalysis);
+        const knockoutProfile = await this.getKnockoutProfile(config, tickData).catch(error => {
+            console.warn('⚠️ Accumulator knockout profile unavailable:', error);
+            return null;
+        });
+        const profitProbability = this.calculateProfitProbability(config, knockoutProfile);
         const riskAssessment = this.assessRisk(config, tickAnalysis, volatilityAnalysis);
         const recommendations = this.generateRecommendations(
             config,
@@ -128,32 +144,101 @@ class AccumulatorAnalysisService {
     }
 
     /**
-     * Calculate profit probability using Monte Carlo simulation
+     * Estimate the knockout probability per tick count by replaying recorded ticks against the market's barrier
      */
-    private calculateProfitProbability(
-        config: AccumulatorConfig,
-        tickAnalysis: TickAnalysis,
-        volatilityAnalysis: VolatilityAnalysis
-    ): ProfitProbability {
-        const simulations = 1000;
-        let takeProfitCount = 0;
-        let stopLossCount = 0;
-        let totalExpectedValue = 0;
+    async getKnockoutProfile(config: AccumulatorConfig, tickData?: TickData[]): Promise<KnockoutProfile> {
+        const ticks = tickData ?? (await this.getRecentTickData(config.market, MAX_TICK_HISTORY));
+        const quotes = ticks.map(tick => tick.value);
+        const barrier = await accumulatorBarrierService.getBarrier(config.market, config.growthRate, quotes);
+        const maxTicks = Math.max(accumulatorBarrierService.getTakeProfitTicks(config), config.maxTicks || 0);
+
+        return accumulatorBarrierService.estimateKnockoutProfile(
+            config.market,
+            config.growthRate,
+            quotes,
+            barrier.tickSizeBarrier,
+            maxTicks
+        );
+    }
 
-        for (let i = 0; i < simulations; i++) {
-            const result = this.simulateAccumulatorTrade(config, tickAnalysis, volatilityAnalysis);
+    /**
+     * Trade recorded ticks back to back: buy, sell after the take-profit tick count or get knocked out, repeat
+     */
+    async runBacktest(config: AccumulatorConfig, tickData?: TickData[]): Promise<AccumulatorBacktest> {
+        const ticks = tickData ?? (await this.getRecentTickData(config.market, BACKTEST_TICKS));
+        if (ticks.length < 2) {
+            throw new Error(`Not enough recorded ticks to backtest ${config.market}`);
+        }
 
-            if (result.outcome === 'TAKE_PROFIT') takeProfitCount++;
-            if (result.outcome === 'STOP_LOSS') stopLossCount++;
+        const quotes = ticks.map(tick => tick.value);
+        const barrier = await accumulatorBarrierService.getBarrier(config.market, config.growthRate, quotes);
+        const takeProfitTicks = accumulatorBarrierService.getTakeProfitTicks(config);
+        const trades: AccumulatorTrade[] = [];
+
+        // Every contract enters on a tick and is followed until it is sold or knocked out
+        let entry = 0;
+        while (entry < ticks.length - 1) {
+            let exit = entry + 1;
+            while (
+                exit < ticks.length &&
+                exit - entry < takeProfitTicks &&
+                !accumulatorBarrierService.isKnockedOut(quotes[exit - 1], quotes[exit], barrier.tickSizeBarrier)
+            ) {
+                exit++;
+            }
+            if (exit >= ticks.length) break; // Still open when the recording ends
+
+            const isKnockedOut = accumulatorBarrierService.isKnockedOut(
+                quotes[exit - 1],
+                quotes[exit],
+                barrier.tickSizeBarrier
+            );
+            const heldTicks = exit - entry;
+            const value = isKnockedOut
+                ? 0
+                : accumulatorBarrierService.getContractValue(config.initialStake, config.growthRate, heldTicks);
+            const profit = Math.round((value - config.initialStake) * 100) / 100;
+
+            trades.push({
+                id: `${config.market}_${ticks[entry].timestamp.getTime()}`,
+                timestamp: ticks[exit].timestamp,
+                action: isKnockedOut ? 'STOP_LOSS' : 'TAKE_PROFIT',
+                value,
+                profit,
+                profitPercentage: (profit / config.initialStake) * 100,
+                tickNumber: heldTicks,
+                reason: isKnockedOut ? `Knocked out on tick ${heldTicks}` : `Sold after ${heldTicks} ticks`,
+            });
 
-            totalExpectedValue += result.finalValue - config.initialStake;
+            // The next contract is bought after this one settles and enters on the following tick
+            entry = exit + 1;
         }
 
-        const takeProfitProbability = (takeProfitCount / simulations) * 100;
-        const stopLossProbability = (stopLossCount / simulations) * 100;
-        const expectedValue = totalExpectedValue / simulations;
+        return {
+            id: this.generateBacktestId(),
+            strategy: config.strategy,
+            config,
+            period: { start: ticks[0].timestamp, end: ticks[ticks.length - 1].timestamp },
+            results: this.summarizeBacktest(trades, ticks[0].timestamp),
+        };
+    }
+
+    /**
+     * Probabilities of reaching the take-profit tick count, from the knockout profile
+     */
+    private calculateProfitProbability(
+        config: AccumulatorConfig,
+        knockoutProfile: KnockoutProfile | null
+    ): ProfitProbability {
+        const estimates = knockoutProfile?.estimates ?? [];
+        const takeProfitTicks = accumulatorBarrierService.getTakeProfitTicks(config);
+        const estimate = estimates[Math.min(takeProfitTicks, estimates.length) - 1];
+
+        const takeProfitProbability = estimate ? estimate.survivalProbability * 100 : 0;
+        const stopLossProbability = estimate ? estimate.knockoutProbability * 100 : 0;
+        const expectedValue = estimate ? estimate.expectedReturn * config.initialStake : 0;
         const riskRewardRatio = this.calculateRiskRewardRatio(config);
-        const optimalExitTick = this.calculateOptimalExitTick(config, tickAnalysis);
+        const optimalExitTick = this.calculateOptimalExitTick(config, knockoutProfile);
 
         return {
             takeProfitProbability,
@@ -292,6 +377,17 @@ class AccumulatorAnalysisService {
         return botId;
     }
 
+    /**
+     * Stop the tick monitoring of a bot
+     */
+    stopTickBot(botId: string): void {
+        const monitor = this.tickMonitors.get(botId);
+        if (!monitor) return;
+
+        this.tickMonitors.delete(botId);
+        monitor.unsubscribe?.();
+    }
+
     /**
      * Helper Methods
      */
@@ -314,47 +410,78 @@ class AccumulatorAnalysisService {
         }, 1000); // Analyze every second
     }
 
-    private async startTickMonitoring(botId: string, config: AccumulatorConfig): Promise<void> {
-        // Implementation for real-time tick monitoring and bot execution
-        console.log(`🔄 Monitoring ticks for bot ${botId} with ${config.growthRate}% growth rate`);
+    private async startTickMonitoring(monitorId: string, config: AccumulatorConfig): Promise<void> {
+        console.log(`🔄 Monitoring ticks for ${monitorId} with ${config.growthRate}% growth rate`);
 
-        // This would integrate with your existing tick data services
-        // and execute trades based on the configured strategy
-    }
+        const monitor: { unsubscribe?: () => void } = {};
+        this.tickMonitors.set(monitorId, monitor);
 
-    private simulateAccumulatorTrade(
-        config: AccumulatorConfig,
-        tickAnalysis: TickAnalysis,
-        volatilityAnalysis: VolatilityAnalysis
-    ): { outcome: string; finalValue: number; ticks: number } {
-        let currentValue = config.initialStake;
-        let ticks = 0;
-        const maxTicks = config.maxTicks || 1000;
-
-        const takeProfitTarget = config.initialStake * (1 + config.takeProfit / 100);
-        const stopLossTarget = config.initialStake * (1 - config.stopLoss / 100);
-
-        while (ticks < maxTicks) {
-            // Simulate tick movement based on volatility
-            const tickChange = this.generateRandomTick(volatilityAnalysis.currentVolatility);
-            currentValue *= 1 + config.growthRate / 100 + tickChange;
-            ticks++;
-
-            if (currentValue >= takeProfitTarget) {
-                return { outcome: 'TAKE_PROFIT', finalValue: currentValue, ticks };
-            }
+        try {
+            // Live ticks, or the recorded ones while a tick replay is active
+            await tickSourceService.initialize();
+            const unsubscribe = await tickSourceService.subscribe(config.market, tick =>
+                this.recordTick(config.market, { timestamp: new Date(tick.epoch * 1000), value: tick.quote })
+            );
 
-            if (currentValue <= stopLossTarget) {
-                return { outcome: 'STOP_LOSS', finalValue: currentValue, ticks };
+            // Stopped while the subscription was being set up
+            if (this.tickMonitors.get(monitorId) !== monitor) {
+                unsubscribe();
+                return;
             }
+            monitor.unsubscribe = unsubscribe;
+        } catch (error) {
+            this.tickMonitors.delete(monitorId);
+            console.error(`❌ Failed to monitor ${config.market} ticks for ${monitorId}:`, error);
         }
-
-        return { outcome: 'MAX_TICKS', finalValue: currentValue, ticks };
     }
 
-    private generateRandomTick(volatility: number): number {
-        // Generate random tick movement based on volatility
-        return (Math.random() - 0.5) * volatility * 0.01;
+    private recordTick(market: string, tick: TickData): void {
+        const history = this.tickHistory.get(market) ?? [];
+        history.push(tick);
+        if (history.length > MAX_TICK_HISTORY) {
+            history.splice(0, history.length - MAX_TICK_HISTORY);
+        }
+        this.tickHistory.set(market, history);
+    }
+
+    private summarizeBacktest(trades: AccumulatorTrade[], start: Date): BacktestResults {
+        const wins = trades.filter(trade => trade.profit > 0);
+        const losses = trades.filter(trade => trade.profit <= 0);
+        const totalProfit = wins.reduce((sum, trade) => sum + trade.profit, 0);
+        const totalLoss = Math.abs(losses.reduce((sum, trade) => sum + trade.profit, 0));
+        const netProfit = totalProfit - totalLoss;
+
+        // Equity is the running net profit; drawdown is measured from its previous peak
+        const equity: EquityPoint[] = [{ timestamp: start, value: 0, drawdown: 0 }];
+        let peak = 0;
+        let maxDrawdown = 0;
+        trades.reduce((value, trade) => {
+            const next = value + trade.profit;
+            peak = Math.max(peak, next);
+            maxDrawdown = Math.max(maxDrawdown, peak - next);
+            equity.push({ timestamp: trade.timestamp, value: next, drawdown: peak - next });
+            return next;
+        }, 0);
+
+        const profits = trades.map(trade => trade.profit);
+        const averageTrade = trades.length > 0 ? netProfit / trades.length : 0;
+        const profitStdDev = trades.length > 0 ? this.calculateStandardDeviation(profits) : 0;
+
+        return {
+            totalTrades: trades.length,
+            winningTrades: wins.length,
+            losingTrades: losses.length,
+            winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+            totalProfit,
+            totalLoss,
+            netProfit,
+            profitFactor: totalLoss > 0 ? totalProfit / totalLoss : totalProfit > 0 ? 999 : 0,
+            maxDrawdown,
+            averageTrade,
+            sharpeRatio: profitStdDev > 0 ? averageTrade / profitStdDev : 0,
+            trades,
+            equity,
+        };
     }
 
     private calculateStandardDeviation(values: number[]): number {
@@ -475,9 +602,16 @@ class AccumulatorAnalysisService {
         return config.takeProfit / config.stopLoss;
     }
 
-    private calculateOptimalExitTick(config: AccumulatorConfig, tickAnalysis: TickAnalysis): number {
-        // Simplified calculation - could be more sophisticated
-        return Math.floor(config.maxTicks * 0.7);
+    private calculateOptimalExitTick(config: AccumulatorConfig, knockoutProfile: KnockoutProfile | null): number {
+        // Tick count with the best expected return within the configured range
+        const candidates = (knockoutProfile?.estimates ?? []).filter(
+            estimate =>
+                estimate.ticks >= (config.minTicks || 1) && (!config.maxTicks || estimate.ticks <= config.maxTicks)
+        );
+        if (candidates.length === 0) return accumulatorBarrierService.getTakeProfitTicks(config);
+
+        return candidates.reduce((best, estimate) => (estimate.expectedReturn > best.expectedReturn ? estimate : best))
+            .ticks;
     }
 
     private calculateRiskScore(config: AccumulatorConfig, volatilityAnalysis: VolatilityAnalysis): number {
@@ -625,19 +759,21 @@ class AccumulatorAnalysisService {
     }
 
     private async getRecentTickData(market: string, count: number): Promise<TickData[]> {
-        // This would integrate with your existing tick data services
-        // For now, return mock data
-        const mockData: TickData[] = [];
-        const now = new Date();
-
-        for (let i = 0; i < count; i++) {
-            mockData.push({
-                timestamp: new Date(now.getTime() - (count - i) * 1000),
-                value: 100 + Math.random() * 10 - 5,
-            });
+        const monitored = this.tickHistory.get(market) ?? [];
+        if (monitored.length >= count) {
+            return monitored.slice(-count);
         }
 
-        return mockData;
+        // Seed the history from the active tick source; monitored ticks keep it current afterwards
+        await tickSourceService.initialize();
+        const history = await tickSourceService.getHistory(market, count);
+        const ticks = history.map(tick => ({ timestamp: new Date(tick.epoch * 1000), value: tick.quote }));
+
+        const latestEpoch = ticks[ticks.length - 1]?.timestamp.getTime() ?? 0;
+        const newer = monitored.filter(tick => tick.timestamp.getTime() > latestEpoch);
+        this.tickHistory.set(market, [...ticks, ...newer].slice(-MAX_TICK_HISTORY));
+
+        return this.tickHistory.get(market)!.slice(-count);
     }
 
     // ID generators
@@ -653,6 +789,10 @@ class AccumulatorAnalysisService {
         return `acc_bot_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
     }
 
+    private generateBacktestId(): string {
+        return `acc_backtest_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    }
+
     /**
      * Stop current analysis
      */
@@ -663,6 +803,7 @@ class AccumulatorAnalysisService {
         }
 
         if (this.currentSession) {
+            this.stopTickBot(this.currentSession.id);
             this.currentSession.status = 'STOPPED';
             this.currentSession.endTime = new Date();
         }
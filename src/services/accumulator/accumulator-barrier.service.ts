@@ -0,0 +1,211 @@
+/**
+ * Accumulator Barrier Service
+ * Knockout barrier model for ACCU contracts. Deriv places the barriers at ± tick_size_barrier (a fraction
+ * of the spot) around every tick, and the contract is knocked out when the next tick touches or crosses
+ * one of them. The barrier distance per growth rate comes from real ACCU proposals.
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+import {
+    AccumulatorBarrier,
+    AccumulatorConfig,
+    KnockoutEstimate,
+    KnockoutProfile,
+} from '../../types/accumulator/accumulator.types';
+
+// Deriv only changes the barrier distance of a growth rate occasionally
+const BARRIER_CACHE_TTL = 10 * 60 * 1000;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+class AccumulatorBarrierService {
+    private barriers = new Map<string, AccumulatorBarrier>();
+
+    /**
+     * Barrier for a market and growth rate: cached or from an ACCU proposal, estimated from quotes when offline
+     */
+    async getBarrier(symbol: string, growthRate: number, recentQuotes: number[] = []): Promise<AccumulatorBarrier> {
+        const cached = this.barriers.get(this.getKey(symbol, growthRate));
+        if (cached && Date.now() - cached.updatedAt < BARRIER_CACHE_TTL) {
+            return cached;
+        }
+
+        try {
+            return await this.fetchBarrier(symbol, growthRate);
+        } catch (error) {
+            if (recentQuotes.length < 2) throw error;
+
+            console.warn(`⚠️ Using an estimated ${growthRate}% barrier for ${symbol}:`, this.getErrorMessage(error));
+            return this.estimateBarrier(symbol, growthRate, recentQuotes);
+        }
+    }
+
+    /**
+     * Read tick_size_barrier from an ACCU proposal
+     */
+    async fetchBarrier(symbol: string, growthRate: number): Promise<AccumulatorBarrier> {
+        if (!api_base.api) {
+            throw new Error('Deriv API is not connected');
+        }
+
+        let response;
+        try {
+            response = await api_base.api.send({
+                proposal: 1,
+                amount: 1,
+                basis: 'stake',
+                contract_type: 'ACCU',
+                currency: this.getCurrency(),
+                growth_rate: growthRate / 100,
+                symbol,
+            });
+        } catch (error) {
+            throw new Error(this.getErrorMessage(error));
+        }
+
+        const tickSizeBarrier = Number(response?.proposal?.contract_details?.tick_size_barrier);
+        if (!(tickSizeBarrier > 0)) {
+            throw new Error(`No accumulator barrier offered for ${symbol} at ${growthRate}%`);
+        }
+
+        const barrier: AccumulatorBarrier = {
+            symbol,
+            growthRate,
+            tickSizeBarrier,
+            source: 'PROPOSAL',
+            updatedAt: Date.now(),
+        };
+        this.barriers.set(this.getKey(symbol, growthRate), barrier);
+
+        console.log(`🎯 ${symbol} ${growthRate}% accumulator barrier: ±${(tickSizeBarrier * 100).toFixed(4)}%`);
+        return barrier;
+    }
+
+    /**
+     * Barrier a growth rate would need to be roughly fair on these quotes: one tick stays inside it
+     * with probability 1 / (1 + growth rate)
+     */
+    estimateBarrier(symbol: string, growthRate: number, quotes: number[]): AccumulatorBarrier {
+        const moves = this.getTickMoves(quotes).sort((a, b) => a - b);
+        const quantile = 1 / (1 + growthRate / 100);
+        const index = Math.min(moves.length - 1, Math.floor(quantile * moves.length));
+
+        return {
+            symbol,
+            growthRate,
+            tickSizeBarrier: moves[index] ?? 0,
+            source: 'ESTIMATED',
+            updatedAt: Date.now(),
+        };
+    }
+
+    getBarrierRange(spot: number, tickSizeBarrier: number): { high: number; low: number } {
+        return { high: spot * (1 + tickSizeBarrier), low: spot * (1 - tickSizeBarrier) };
+    }
+
+    /**
+     * Whether a tick knocks out a contract whose barriers were set around the previous tick
+     */
+    isKnockedOut(previousQuote: number, quote: number, tickSizeBarrier: number): boolean {
+        const { high, low } = this.getBarrierRange(previousQuote, tickSizeBarrier);
+        return quote >= high || quote <= low;
+    }
+
+    /**
+     * Contract value after surviving a number of ticks past the entry tick
+     */
+    getContractValue(stake: number, growthRate: number, ticks: number): number {
+        return roundMoney(stake * Math.pow(1 + growthRate / 100, ticks));
+    }
+
+    /**
+     * Ticks to hold before selling: the configured count, or the first that reaches the take-profit percentage
+     */
+    getTakeProfitTicks(config: AccumulatorConfig): number {
+        const target =
+            config.takeProfitTicks ??
+            Math.ceil(Math.log(1 + config.takeProfit / 100) / Math.log(1 + config.growthRate / 100));
+        const maxTicks = config.maxTicks > 0 ? config.maxTicks : Infinity;
+
+        return Math.max(1, config.minTicks || 1, Math.min(target, maxTicks));
+    }
+
+    /**
+     * Replay recorded quotes, entering on every tick, to estimate the knockout probability per tick count
+     */
+    estimateKnockoutProfile(
+        symbol: string,
+        growthRate: number,
+        quotes: number[],
+        tickSizeBarrier: number,
+        maxTicks: number
+    ): KnockoutProfile {
+        // knockoutAt[i] is the first tick after i that leaves the barriers set around its previous tick
+        const knockoutAt: number[] = new Array(quotes.length).fill(Infinity);
+        let breaches = 0;
+        for (let i = quotes.length - 2; i >= 0; i--) {
+            const isBreach = this.isKnockedOut(quotes[i], quotes[i + 1], tickSizeBarrier);
+            if (isBreach) breaches++;
+            knockoutAt[i] = isBreach ? i + 1 : knockoutAt[i + 1];
+        }
+
+        const estimates: KnockoutEstimate[] = [];
+        for (let ticks = 1; ticks <= maxTicks; ticks++) {
+            // Only entries with enough recorded ticks after them to hold for `ticks`
+            const samples = quotes.length - ticks;
+            if (samples <= 0) break;
+
+            let survived = 0;
+            for (let entry = 0; entry < samples; entry++) {
+                if (knockoutAt[entry] > entry + ticks) survived++;
+            }
+
+            const survivalProbability = survived / samples;
+            estimates.push({
+                ticks,
+                survivalProbability,
+                knockoutProbability: 1 - survivalProbability,
+                expectedReturn: survivalProbability * Math.pow(1 + growthRate / 100, ticks) - 1,
+                samples,
+            });
+        }
+
+        return {
+            symbol,
+            growthRate,
+            tickSizeBarrier,
+            ticksReplayed: quotes.length,
+            knockoutRatePerTick: quotes.length > 1 ? breaches / (quotes.length - 1) : 0,
+            estimates,
+        };
+    }
+
+    clear(): void {
+        this.barriers.clear();
+    }
+
+    /** Private helpers */
+
+    private getTickMoves(quotes: number[]): number[] {
+        const moves: number[] = [];
+        for (let i = 1; i < quotes.length; i++) {
+            if (quotes[i - 1] > 0) moves.push(Math.abs(quotes[i] - quotes[i - 1]) / quotes[i - 1]);
+        }
+        return moves;
+    }
+
+    private getCurrency(): string {
+        return (api_base.account_info as { currency?: string })?.currency || 'USD';
+    }
+
+    private getErrorMessage(error: unknown): string {
+        const apiError = error as { error?: { message?: string }; message?: string };
+        return apiError?.error?.message || apiError?.message || 'Unknown error';
+    }
+
+    private getKey(symbol: string, growthRate: number): string {
+        return `${symbol}:${growthRate}`;
+    }
+}
+
+export const accumulatorBarrierService = new AccumulatorBarrierService();
@@ -1,19 +1,49 @@
 /**
  * Accumulator Bot Service
  * Automated trading bot for accumulator strategies
+ *
+ * A running bot keeps one ACCU contract open at a time: it buys, sells once the contract has
+ * survived the take-profit tick count, and buys the next one as soon as the previous is settled.
  */
 
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
 import {
     AccumulatorConfig,
     AccumulatorBot,
     AccumulatorSession,
+    AccumulatorTrade,
     BotPerformance,
 } from '../../types/accumulator/accumulator.types';
+import { riskPolicyService } from '../risk-policy.service';
 import { accumulatorAnalysisService } from './accumulator-analysis.service';
+import { accumulatorBarrierService } from './accumulator-barrier.service';
+
+interface OpenAccumulatorContract {
+    contractId: number;
+    buyPrice: number;
+    isSelling: boolean;
+    unsubscribe?: () => void;
+}
+
+interface AccumulatorContractUpdate {
+    contract_id?: number;
+    is_sold?: number;
+    tick_passed?: number;
+    profit?: number;
+    sell_price?: number;
+}
+
+interface BotRuntime {
+    takeProfitTicks: number;
+    monitorId?: string;
+    isBuying: boolean;
+    contract?: OpenAccumulatorContract;
+}
 
 class AccumulatorBotService {
     private activeBots: Map<string, AccumulatorBot> = new Map();
     private botSessions: Map<string, AccumulatorSession> = new Map();
+    private runtimes: Map<string, BotRuntime> = new Map();
 
     /**
      * Create and start a new accumulator bot
@@ -52,14 +82,25 @@ class AccumulatorBotService {
         try {
             bot.status = 'RUNNING';
 
-            // Start analysis session
-            const session = await accumulatorAnalysisService.startAnalysis(bot.config);
-            this.botSessions.set(botId, session);
+            // Fails when accumulators are not offered on the market at this growth rate
+            const barrier = await accumulatorBarrierService.fetchBarrier(bot.config.market, bot.config.growthRate);
+            const runtime: BotRuntime = {
+                takeProfitTicks: accumulatorBarrierService.getTakeProfitTicks(bot.config),
+                isBuying: false,
+            };
+            this.runtimes.set(botId, runtime);
+            this.botSessions.set(botId, this.createSession(bot.config));
+
+            // Keep the market's tick history current for the knockout estimates
+            runtime.monitorId = await accumulatorAnalysisService.startTickBot(bot.config);
 
             // Start bot monitoring
             this.startBotMonitoring(botId);
 
-            console.log(`🚀 Started accumulator bot: ${bot.name}`);
+            console.log(
+                `🚀 Started accumulator bot: ${bot.name} (sells after ${runtime.takeProfitTicks} ticks, barrier ±${(barrier.tickSizeBarrier * 100).toFixed(4)}%)`
+            );
+            await this.buyContract(botId);
         } catch (error) {
             bot.status = 'ERROR';
             console.error(`❌ Failed to start bot ${botId}:`, error);
@@ -78,11 +119,20 @@ class AccumulatorBotService {
 
         bot.status = 'IDLE';
 
-        // Stop analysis session
         const session = this.botSessions.get(botId);
-        if (session) {
-            accumulatorAnalysisService.stopAnalysis();
-            this.botSessions.delete(botId);
+        if (session && session.status === 'ACTIVE') {
+            session.status = 'STOPPED';
+            session.endTime = new Date();
+        }
+
+        const runtime = this.runtimes.get(botId);
+        if (runtime) {
+            if (runtime.monitorId) accumulatorAnalysisService.stopTickBot(runtime.monitorId);
+
+            // Take the open contract's current value instead of leaving it to run unattended
+            if (runtime.contract) {
+                await this.sellContract(runtime.contract);
+            }
         }
 
         console.log(`⏹️ Stopped accumulator bot: ${bot.name}`);
@@ -103,6 +153,13 @@ class AccumulatorBotService {
         return Array.from(this.activeBots.values());
     }
 
+    /**
+     * Get the trading session of a bot
+     */
+    getBotSession(botId: string): AccumulatorSession | null {
+        return this.botSessions.get(botId) || null;
+    }
+
     /**
      * Get bot by ID
      */
@@ -142,6 +199,8 @@ class AccumulatorBotService {
         }
 
         this.activeBots.delete(botId);
+        this.botSessions.delete(botId);
+        this.runtimes.delete(botId);
         console.log(`🗑️ Deleted accumulator bot: ${bot.name}`);
     }
 
@@ -212,6 +271,191 @@ class AccumulatorBotService {
     /**
      * Private helper methods
      */
+    private async buyContract(botId: string): Promise<void> {
+        const bot = this.activeBots.get(botId);
+        const runtime = this.runtimes.get(botId);
+        if (!bot || !runtime || bot.status !== 'RUNNING' || runtime.contract || runtime.isBuying) return;
+
+        const { config } = bot;
+        const riskDecision = riskPolicyService.authorize({
+            source: 'ACCUMULATOR',
+            stake: config.initialStake,
+            symbol: config.market,
+        });
+        if (!riskDecision.allowed) {
+            console.warn(`🛡️ Accumulator bot ${bot.name} paused: ${riskDecision.reason}`);
+            await this.stopBot(botId);
+            return;
+        }
+
+        runtime.isBuying = true;
+        let contract: OpenAccumulatorContract;
+        try {
+            const response = await api_base.api!.send({
+                buy: 1,
+                price: config.initialStake,
+                parameters: {
+                    amount: config.initialStake,
+                    basis: 'stake',
+                    contract_type: 'ACCU',
+                    currency: (api_base.account_info as { currency?: string })?.currency || 'USD',
+                    growth_rate: config.growthRate / 100,
+                    symbol: config.market,
+                },
+            });
+
+            riskPolicyService.confirm(riskDecision.ticket, response.buy.contract_id, response.buy.buy_price);
+            contract = {
+                contractId: response.buy.contract_id,
+                buyPrice: response.buy.buy_price,
+                isSelling: false,
+            };
+            runtime.contract = contract;
+            console.log(`📈 Accumulator bot ${bot.name} bought contract ${response.buy.contract_id}`);
+        } catch (error) {
+            riskPolicyService.cancel(riskDecision.ticket);
+            const apiError = error as { error?: { message?: string }; message?: string };
+            console.error(
+                `❌ Accumulator bot ${bot.name} failed to buy:`,
+                apiError?.error?.message || apiError?.message
+            );
+            bot.status = 'ERROR';
+            return;
+        } finally {
+            runtime.isBuying = false;
+        }
+
+        // Bought, so a knock-out seen while subscribing can already buy the next contract
+        try {
+            await this.monitorContract(botId, contract);
+        } catch (error) {
+            const apiError = error as { error?: { message?: string }; message?: string };
+            console.error(
+                `❌ Accumulator bot ${bot.name} could not follow contract ${contract.contractId}:`,
+                apiError?.error?.message || apiError?.message
+            );
+            bot.status = 'ERROR';
+        }
+    }
+
+    private async monitorContract(botId: string, contract: OpenAccumulatorContract): Promise<void> {
+        const subscription = api_base.api?.onMessage().subscribe((message: unknown) => {
+            const data = ((message as { data?: unknown })?.data ?? message) as {
+                proposal_open_contract?: AccumulatorContractUpdate;
+            };
+            if (data?.proposal_open_contract?.contract_id === contract.contractId) {
+                this.handleContractUpdate(botId, contract, data.proposal_open_contract);
+            }
+        });
+        contract.unsubscribe = () => subscription?.unsubscribe();
+
+        const response = await api_base.api?.send({
+            proposal_open_contract: 1,
+            contract_id: contract.contractId,
+            subscribe: 1,
+        });
+        if (response?.subscription && this.runtimes.get(botId)?.contract !== contract) {
+            // Settled while the subscription was being set up
+            api_base.api?.send({ forget: response.subscription.id }).catch(() => undefined);
+        } else if (response?.subscription) {
+            const unsubscribe = contract.unsubscribe;
+            contract.unsubscribe = () => {
+                unsubscribe();
+                api_base.api?.send({ forget: response.subscription.id }).catch(() => undefined);
+            };
+        }
+    }
+
+    private handleContractUpdate(
+        botId: string,
+        contract: OpenAccumulatorContract,
+        update: AccumulatorContractUpdate
+    ): void {
+        if (update.is_sold) {
+            this.settleContract(botId, contract, update);
+            return;
+        }
+
+        const runtime = this.runtimes.get(botId);
+        if (runtime && (update.tick_passed ?? 0) >= runtime.takeProfitTicks) {
+            this.sellContract(contract);
+        }
+    }
+
+    private async sellContract(contract: OpenAccumulatorContract): Promise<void> {
+        if (contract.isSelling) return;
+        contract.isSelling = true;
+
+        try {
+            // Price 0 sells at the current value
+            await api_base.api?.send({ sell: contract.contractId, price: 0 });
+        } catch (error) {
+            // Usually knocked out just before the sell; the contract update settles it either way
+            const apiError = error as { error?: { message?: string }; message?: string };
+            console.warn(
+                `⚠️ Could not sell accumulator ${contract.contractId}:`,
+                apiError?.error?.message || apiError?.message
+            );
+        }
+    }
+
+    private async settleContract(
+        botId: string,
+        contract: OpenAccumulatorContract,
+        update: AccumulatorContractUpdate
+    ): Promise<void> {
+        const bot = this.activeBots.get(botId);
+        const session = this.botSessions.get(botId);
+        const runtime = this.runtimes.get(botId);
+        if (!bot || !session || runtime?.contract !== contract) return;
+
+        contract.unsubscribe?.();
+        runtime.contract = undefined;
+
+        const profit = Number(update.profit) || 0;
+        const ticks = Number(update.tick_passed) || 0;
+        const trade: AccumulatorTrade = {
+            id: String(contract.contractId),
+            timestamp: new Date(),
+            action: profit > 0 ? 'TAKE_PROFIT' : 'STOP_LOSS',
+            value: Number(update.sell_price) || 0,
+            profit,
+            profitPercentage: (profit / contract.buyPrice) * 100,
+            tickNumber: ticks,
+            reason: profit > 0 ? `Sold after ${ticks} ticks` : `Knocked out on tick ${ticks}`,
+        };
+
+        session.trades.push(trade);
+        session.tickCount += ticks;
+        session.profit = Math.round((session.profit + profit) * 100) / 100;
+        session.profitPercentage = (session.profit / session.initialStake) * 100;
+        session.currentValue = session.initialStake + session.profit;
+        session.maxValue = Math.max(session.maxValue, session.currentValue);
+        session.minValue = Math.min(session.minValue, session.currentValue);
+        console.log(`🏁 Accumulator bot ${bot.name}: ${trade.reason} (${profit >= 0 ? '+' : ''}${profit.toFixed(2)})`);
+
+        this.updateBotPerformance(bot, session);
+        await this.checkBotExitConditions(bot, session);
+        await this.buyContract(botId);
+    }
+
+    private createSession(config: AccumulatorConfig): AccumulatorSession {
+        return {
+            id: `acc_session_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+            startTime: new Date(),
+            config,
+            status: 'ACTIVE',
+            currentValue: config.initialStake,
+            initialStake: config.initialStake,
+            profit: 0,
+            profitPercentage: 0,
+            tickCount: 0,
+            maxValue: config.initialStake,
+            minValue: config.initialStake,
+            trades: [],
+        };
+    }
+
     private startBotMonitoring(botId: string): void {
         const monitoringInterval = setInterval(async () => {
             const bot = this.activeBots.get(botId);
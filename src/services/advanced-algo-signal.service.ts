@@ -7,6 +7,7 @@
 import { derivConnectionPool } from './deriv-connection-pool.service';
 import { entryPointDetector } from './entry-point-detector.service';
 import { patternPredictor } from './pattern-predictor.service';
+import { DEFAULT_SIGNAL_HORIZON, resolveSignalContract, signalScorecardService } from './signal-scorecard.service';
 
 export interface BarrierSuggestion {
     level: number;
@@ -1090,6 +1091,17 @@ class AdvancedAlgoSignalService {
         this.stats.lastSignalTime = signal.timestamp;
         this.stats.avgConfidence = this.calculateAverageConfidence();
 
+        const contract = resolveSignalContract(signal.prediction, signal.targetDigit);
+        if (contract) {
+            signalScorecardService.recordSignal({
+                generator: 'advanced-algo',
+                market: signal.market,
+                ...contract,
+                horizonTicks: DEFAULT_SIGNAL_HORIZON,
+                confidence: signal.confidence,
+            });
+        }
+
         // Notify listeners
         this.listeners.forEach(listener => {
             try {
@@ -1,6 +1,8 @@
 // Advanced AI Signal Intelligence Service
 // Implements neural network-like pattern recognition and adaptive learning
 
+import { DEFAULT_SIGNAL_HORIZON, resolveSignalContract, signalScorecardService } from './signal-scorecard.service';
+
 interface NeuralSignalPattern {
     id: string;
     pattern: number[];
@@ -397,6 +399,17 @@ class AISignalIntelligenceService {
             riskLevel,
         });
 
+        const contract = resolveSignalContract(signalType);
+        if (contract) {
+            signalScorecardService.recordSignal({
+                generator: 'ai-intelligence',
+                market,
+                ...contract,
+                horizonTicks: DEFAULT_SIGNAL_HORIZON,
+                confidence,
+            });
+        }
+
         return prediction;
     }
 
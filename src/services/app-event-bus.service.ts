@@ -0,0 +1,120 @@
+/**
+ * App Event Bus Service
+ * Typed publish/subscribe channel between pages, components and services
+ *
+ * Event names and payloads are declared once in AppEventMap, so renaming or dropping an event
+ * is a compile error at every publisher and subscriber. In development the inspector logs who
+ * published each event and which subscribers received it.
+ */
+
+import type { AppEventHandler, AppEventMap, AppEventName } from '../types/app-events.types';
+
+interface Subscription<K extends AppEventName> {
+    handler: AppEventHandler<K>;
+    subscriber: string;
+}
+
+export interface AppEventRecord {
+    name: AppEventName;
+    publisher: string;
+    subscribers: string[];
+    payload: unknown;
+    timestamp: number;
+}
+
+const ANONYMOUS = 'anonymous';
+const HISTORY_LIMIT = 100;
+
+class AppEventBus {
+    private subscriptions = new Map<AppEventName, Set<Subscription<AppEventName>>>();
+    private history: AppEventRecord[] = [];
+    private inspectorEnabled = process.env.NODE_ENV === 'development';
+
+    constructor() {
+        if (this.inspectorEnabled && typeof window !== 'undefined') {
+            // Lets events be published and inspected from the devtools console
+            (window as unknown as { appEventBus?: AppEventBus }).appEventBus = this;
+        }
+    }
+
+    /**
+     * Deliver a payload to every subscriber of the event; a throwing subscriber does not stop the others
+     */
+    publish<K extends AppEventName>(name: K, payload: AppEventMap[K], publisher: string = ANONYMOUS): void {
+        const subscriptions = Array.from(this.subscriptions.get(name) ?? []) as Subscription<K>[];
+
+        if (this.inspectorEnabled) {
+            this.inspect(name, payload, publisher, subscriptions);
+        }
+
+        subscriptions.forEach(({ handler, subscriber }) => {
+            try {
+                handler(payload);
+            } catch (error) {
+                console.error(`❌ App event "${name}" subscriber ${subscriber} failed:`, error);
+            }
+        });
+    }
+
+    /**
+     * Register a handler; the returned function unsubscribes it (suitable as a useEffect cleanup)
+     */
+    subscribe<K extends AppEventName>(
+        name: K,
+        handler: AppEventHandler<K>,
+        subscriber: string = ANONYMOUS
+    ): () => void {
+        const subscription = { handler, subscriber } as Subscription<AppEventName>;
+        const subscriptions = this.subscriptions.get(name) ?? new Set();
+        subscriptions.add(subscription);
+        this.subscriptions.set(name, subscriptions);
+
+        return () => {
+            subscriptions.delete(subscription);
+            if (subscriptions.size === 0 && this.subscriptions.get(name) === subscriptions) {
+                this.subscriptions.delete(name);
+            }
+        };
+    }
+
+    /**
+     * Names of the current subscribers of an event
+     */
+    getSubscribers(name: AppEventName): string[] {
+        return Array.from(this.subscriptions.get(name) ?? []).map(subscription => subscription.subscriber);
+    }
+
+    /**
+     * Events recorded by the inspector, oldest first
+     */
+    getHistory(): AppEventRecord[] {
+        return [...this.history];
+    }
+
+    setInspectorEnabled(enabled: boolean): void {
+        this.inspectorEnabled = enabled;
+        if (!enabled) this.history = [];
+    }
+
+    /** Private helpers */
+
+    private inspect<K extends AppEventName>(
+        name: K,
+        payload: AppEventMap[K],
+        publisher: string,
+        subscriptions: Subscription<K>[]
+    ): void {
+        const subscribers = subscriptions.map(subscription => subscription.subscriber);
+
+        this.history.push({ name, publisher, subscribers, payload, timestamp: Date.now() });
+        if (this.history.length > HISTORY_LIMIT) this.history.shift();
+
+        if (subscribers.length === 0) {
+            console.warn(`📭 App event "${name}" from ${publisher} has no subscribers`, payload);
+        } else {
+            console.debug(`📣 App event "${name}" from ${publisher} → ${subscribers.join(', ')}`, payload);
+        }
+    }
+}
+
+export const appEventBus = new AppEventBus();
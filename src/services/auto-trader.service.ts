@@ -6,6 +6,7 @@
 
 import type { EntryPointAnalysis } from './entry-point-detector.service';
 import type { PredictionResult } from './pattern-predictor.service';
+import { riskPolicyService } from './risk-policy.service';
 
 export interface AutoTradeConfig {
     enabled: boolean;
@@ -169,6 +170,12 @@ class AutoTraderService {
      * Check trade limits
      */
     private checkTradeLimits(): { allowed: boolean; reason: string } {
+        // Check account risk policy
+        const policyDecision = riskPolicyService.check({ source: 'AUTO_TRADER', stake: this.config.tradeAmount });
+        if (!policyDecision.allowed) {
+            return { allowed: false, reason: policyDecision.reason || 'Blocked by risk policy' };
+        }
+
         // Check concurrent trades
         if (this.stats.activeTrades >= this.config.maxConcurrentTrades) {
             return {
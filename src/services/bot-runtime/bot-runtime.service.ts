@@ -0,0 +1,451 @@
+/**
+ * Bot Runtime
+ * Headless tick-by-tick trading loop shared by the bots: subscribe to ticks, ask the strategy for a
+ * decision, propose, buy, wait for settlement, apply martingale and check the stop conditions.
+ *
+ * One contract is open at a time; ticks arriving while it runs are recorded for the strategy but
+ * do not trigger purchases. Stopping ends the tick subscription, an open contract is still settled.
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+import type {
+    BotRuntimeConfig,
+    BotRuntimeEvent,
+    BotRuntimeListener,
+    BotRuntimeStats,
+    BotStrategy,
+    RuntimeTick,
+    SettledTrade,
+    TradeDecision,
+} from '../../types/bot-runtime.types';
+import { derivAPIService } from '../deriv-api.service';
+import { riskPolicyService } from '../risk-policy.service';
+import { symbolMetadataService } from '../symbol-metadata.service';
+
+const DEFAULT_HISTORY_SIZE = 100;
+const DEFAULT_MAX_MARTINGALE_LEVEL = 10;
+
+interface OpenContract {
+    contractId: number;
+    decision: TradeDecision;
+    stake: number;
+    subscriptionId?: string;
+    unsubscribe: () => void;
+}
+
+interface OpenContractMessage {
+    contract_id?: number;
+    is_sold?: number;
+    status?: string;
+    profit?: number;
+}
+
+export class BotRuntime {
+    private isRunning = false;
+    private isTrading = false;
+    private tickSubscriptionId: string | null = null;
+    private history: RuntimeTick[] = [];
+    private openContract: OpenContract | null = null;
+    private listeners = new Set<BotRuntimeListener>();
+    private stats: BotRuntimeStats;
+
+    constructor(
+        private config: BotRuntimeConfig,
+        private strategy: BotStrategy
+    ) {
+        this.stats = this.createStats();
+    }
+
+    /**
+     * Subscribe to the configured market and trade until stopped
+     */
+    async start(): Promise<void> {
+        if (this.isRunning) {
+            throw new Error(`${this.config.name} is already running`);
+        }
+
+        this.isRunning = true;
+        this.isTrading = false;
+        this.history = [];
+        this.stats = {
+            ...this.stats,
+            currentStake: this.config.stake,
+            martingaleLevel: 0,
+            consecutiveWins: 0,
+            consecutiveLosses: 0,
+            isRunning: true,
+            startTime: Date.now(),
+            elapsedTime: 0,
+        };
+
+        console.log(`🚀 ${this.config.name} started with ${this.strategy.name}`, this.config);
+        this.emit({ type: 'started', stats: this.getStats() });
+
+        try {
+            this.tickSubscriptionId =
+                (await derivAPIService.subscribeToTicks(this.config.symbol, tickData => {
+                    if (tickData.tick) this.handleTick(tickData.tick);
+                })) || null;
+        } catch (error) {
+            console.error(`❌ ${this.config.name} could not subscribe to ${this.config.symbol}:`, error);
+            this.emit({ type: 'error', error: 'Failed to subscribe to market' });
+            await this.stop();
+        }
+    }
+
+    /**
+     * Stop buying; an open contract is still followed to settlement
+     */
+    async stop(reason?: string): Promise<void> {
+        const wasRunning = this.isRunning;
+        this.markStopped();
+
+        if (this.tickSubscriptionId) {
+            const subscriptionId = this.tickSubscriptionId;
+            this.tickSubscriptionId = null;
+            await derivAPIService.unsubscribe(subscriptionId).catch(() => undefined);
+        }
+
+        if (!wasRunning) return;
+
+        console.log(`🛑 ${this.config.name} stopped${reason ? `: ${reason}` : ''}`);
+        this.emit({ type: 'stopped', stats: this.getStats(), reason, isAutoStop: false });
+    }
+
+    /**
+     * Change stake, martingale or stop conditions; the market applies on the next start
+     */
+    updateConfig(updates: Partial<Omit<BotRuntimeConfig, 'source'>>): void {
+        this.config = { ...this.config, ...updates };
+    }
+
+    setStrategy(strategy: BotStrategy): void {
+        this.strategy = strategy;
+    }
+
+    /**
+     * Register a listener for runtime events; the returned function removes it
+     */
+    subscribe(listener: BotRuntimeListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    getStats(): BotRuntimeStats {
+        const elapsedTime = this.stats.startTime ? Date.now() - this.stats.startTime : undefined;
+        return { ...this.stats, elapsedTime: this.isRunning ? elapsedTime : this.stats.elapsedTime };
+    }
+
+    resetStats(): void {
+        this.stats = { ...this.createStats(), isRunning: this.isRunning, startTime: this.stats.startTime };
+    }
+
+    getHistory(): RuntimeTick[] {
+        return [...this.history];
+    }
+
+    isActive(): boolean {
+        return this.isRunning;
+    }
+
+    /** Private helpers */
+
+    private handleTick(tick: { symbol?: string; epoch?: number; quote?: number }): void {
+        const quote = Number(tick.quote);
+        if (!Number.isFinite(quote)) return;
+
+        const symbol = tick.symbol ?? this.config.symbol;
+        const runtimeTick: RuntimeTick = {
+            symbol,
+            epoch: Number(tick.epoch) || Math.floor(Date.now() / 1000),
+            quote,
+            lastDigit: symbolMetadataService.getLastDigit(quote, symbol),
+        };
+
+        this.history.push(runtimeTick);
+        const historySize = this.config.historySize ?? DEFAULT_HISTORY_SIZE;
+        if (this.history.length > historySize) {
+            this.history.splice(0, this.history.length - historySize);
+        }
+
+        if (!this.isRunning || this.isTrading) return;
+
+        let decision: TradeDecision | null;
+        try {
+            decision = this.strategy.decide({ tick: runtimeTick, history: this.getHistory(), stats: this.getStats() });
+        } catch (error) {
+            console.error(`❌ ${this.strategy.name} failed to decide:`, error);
+            this.emit({ type: 'error', error: this.getErrorMessage(error) });
+            return;
+        }
+
+        if (decision) {
+            this.placeTrade(decision);
+        }
+    }
+
+    private async placeTrade(decision: TradeDecision): Promise<void> {
+        const stake = this.stats.currentStake;
+        let riskTicket: string | undefined;
+
+        this.isTrading = true;
+        this.emit({ type: 'trade_started', decision, stake });
+
+        try {
+            if (!api_base.api) {
+                throw new Error('Deriv API is not connected');
+            }
+
+            const proposalResponse = await api_base.api.send({
+                proposal: 1,
+                amount: stake,
+                basis: 'stake',
+                contract_type: decision.contractType,
+                currency: this.getCurrency(),
+                duration: decision.duration,
+                duration_unit: decision.durationUnit,
+                symbol: this.config.symbol,
+                ...(decision.barrier !== undefined ? { barrier: decision.barrier } : {}),
+            });
+            const proposal = proposalResponse?.proposal;
+            if (!proposal?.id) {
+                throw new Error('Failed to get proposal');
+            }
+
+            const riskDecision = riskPolicyService.authorize({
+                source: this.config.source,
+                stake,
+                symbol: this.config.symbol,
+            });
+            if (!riskDecision.allowed) {
+                this.isTrading = false;
+                this.emit({ type: 'error', error: `Trade blocked: ${riskDecision.reason}` });
+                return;
+            }
+            riskTicket = riskDecision.ticket;
+
+            const buyResponse = await api_base.api.send({ buy: proposal.id, price: proposal.ask_price });
+            const contract = buyResponse?.buy;
+            if (!contract?.contract_id) {
+                throw new Error('Failed to buy contract');
+            }
+
+            riskPolicyService.confirm(riskTicket, contract.contract_id, contract.buy_price);
+            riskTicket = undefined;
+
+            console.log(`📈 ${this.config.name} bought ${decision.contractType} #${contract.contract_id}`);
+            this.emit({
+                type: 'trade_opened',
+                decision,
+                stake,
+                contractId: contract.contract_id,
+                buyPrice: contract.buy_price,
+            });
+
+            await this.monitorContract(contract.contract_id, decision, stake);
+        } catch (error) {
+            riskPolicyService.cancel(riskTicket);
+            this.isTrading = false;
+
+            const message = this.getErrorMessage(error);
+            console.error(`❌ ${this.config.name} trade failed:`, message);
+            this.emit({ type: 'error', error: message });
+        }
+    }
+
+    private async monitorContract(contractId: number, decision: TradeDecision, stake: number): Promise<void> {
+        // Listen before subscribing so an update racing the response is not missed
+        const subscription = api_base.api?.onMessage().subscribe((message: unknown) => {
+            const data = ((message as { data?: unknown })?.data ?? message) as {
+                proposal_open_contract?: OpenContractMessage;
+            };
+            const contract = data?.proposal_open_contract;
+            if (contract?.contract_id === contractId) {
+                this.handleContractUpdate(contract);
+            }
+        });
+
+        this.openContract = {
+            contractId,
+            decision,
+            stake,
+            unsubscribe: () => subscription?.unsubscribe(),
+        };
+
+        const response = await api_base.api?.send({
+            proposal_open_contract: 1,
+            contract_id: contractId,
+            subscribe: 1,
+        });
+
+        if (this.openContract?.contractId !== contractId) {
+            // Settled while the subscription was being set up
+            if (response?.subscription?.id) this.forget(response.subscription.id);
+            return;
+        }
+
+        this.openContract.subscriptionId = response?.subscription?.id;
+        if (response?.proposal_open_contract) {
+            this.handleContractUpdate(response.proposal_open_contract);
+        }
+    }
+
+    private handleContractUpdate(contract: OpenContractMessage) {
+        const openContract = this.openContract;
+        if (!openContract || contract.contract_id !== openContract.contractId) return;
+        if (!contract.is_sold && contract.status !== 'sold') return;
+
+        this.openContract = null;
+        openContract.unsubscribe();
+        if (openContract.subscriptionId) this.forget(openContract.subscriptionId);
+
+        this.settle({
+            contractId: openContract.contractId,
+            decision: openContract.decision,
+            stake: openContract.stake,
+            profit: Number(contract.profit) || 0,
+            isWin: Number(contract.profit) > 0,
+        });
+    }
+
+    private settle(trade: SettledTrade): void {
+        const stats = this.stats;
+
+        stats.runs++;
+        stats.totalPL += trade.profit;
+
+        if (trade.isWin) {
+            stats.wins++;
+            stats.consecutiveWins++;
+            stats.consecutiveLosses = 0;
+            stats.martingaleLevel = 0;
+            stats.currentStake = this.config.stake;
+        } else {
+            stats.losses++;
+            stats.consecutiveLosses++;
+            stats.consecutiveWins = 0;
+            stats.martingaleLevel++;
+            this.applyMartingale();
+        }
+
+        stats.winRate = (stats.wins / stats.runs) * 100;
+        stats.elapsedTime = stats.startTime ? Date.now() - stats.startTime : 0;
+
+        console.log(
+            trade.isWin ? `✅ ${this.config.name} won` : `❌ ${this.config.name} lost`,
+            `Profit: ${trade.profit.toFixed(2)}, Total: ${stats.totalPL.toFixed(2)}`
+        );
+
+        try {
+            this.strategy.onSettled?.(trade, this.getStats());
+        } catch (error) {
+            console.error(`❌ ${this.strategy.name} failed to handle a settlement:`, error);
+        }
+
+        this.isTrading = false;
+        this.emit({ type: 'trade_complete', trade, stats: this.getStats() });
+
+        const stopReason = this.isRunning ? this.checkStopConditions() : null;
+        if (stopReason) {
+            this.autoStop(stopReason);
+        }
+    }
+
+    private applyMartingale(): void {
+        if (this.config.martingale <= 1) return;
+
+        const maxLevel = this.config.maxMartingaleLevel || DEFAULT_MAX_MARTINGALE_LEVEL;
+        if (this.stats.martingaleLevel < maxLevel) {
+            this.stats.currentStake = Math.round(this.stats.currentStake * this.config.martingale * 100) / 100;
+        } else {
+            console.log(`⚠️ Max martingale level ${maxLevel} reached, resetting stake`);
+            this.stats.currentStake = this.config.stake;
+            this.stats.martingaleLevel = 0;
+        }
+    }
+
+    private checkStopConditions(): string | null {
+        const conditions = this.config.stopConditions;
+        if (!conditions) return null;
+
+        const { stats } = this;
+        if (conditions.stopAfterWins && stats.consecutiveWins >= conditions.stopAfterWins) {
+            return `Reached ${conditions.stopAfterWins} consecutive wins`;
+        }
+        if (conditions.stopAfterLosses && stats.consecutiveLosses >= conditions.stopAfterLosses) {
+            return `Reached ${conditions.stopAfterLosses} consecutive losses`;
+        }
+        if (conditions.targetProfit && stats.totalPL >= conditions.targetProfit) {
+            return `Target profit of $${conditions.targetProfit} reached`;
+        }
+        if (conditions.maxLoss && stats.totalPL <= -conditions.maxLoss) {
+            return `Max loss of $${conditions.maxLoss} reached`;
+        }
+        if (conditions.maxTrades && stats.runs >= conditions.maxTrades) {
+            return `Reached ${conditions.maxTrades} trades`;
+        }
+        if (conditions.maxRunTime && stats.startTime) {
+            const elapsedMinutes = (Date.now() - stats.startTime) / 60000;
+            if (elapsedMinutes >= conditions.maxRunTime) {
+                return `Max run time of ${conditions.maxRunTime} minutes reached`;
+            }
+        }
+
+        return null;
+    }
+
+    private async autoStop(reason: string): Promise<void> {
+        // Mark stopped before unsubscribing so the stop event reports the auto stop once
+        this.markStopped();
+        await this.stop();
+
+        console.log(`🛑 ${this.config.name} auto-stopped: ${reason}`);
+        this.emit({ type: 'stopped', stats: this.getStats(), reason, isAutoStop: true });
+    }
+
+    private markStopped(): void {
+        if (this.isRunning && this.stats.startTime) {
+            this.stats.elapsedTime = Date.now() - this.stats.startTime;
+        }
+        this.isRunning = false;
+        this.stats.isRunning = false;
+    }
+
+    private forget(subscriptionId: string): void {
+        api_base.api?.send({ forget: subscriptionId })?.catch(() => undefined);
+    }
+
+    private emit(event: BotRuntimeEvent): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error(`❌ ${this.config.name} runtime listener failed:`, error);
+            }
+        });
+    }
+
+    private createStats(): BotRuntimeStats {
+        return {
+            runs: 0,
+            wins: 0,
+            losses: 0,
+            totalPL: 0,
+            currentStake: this.config.stake,
+            martingaleLevel: 0,
+            consecutiveWins: 0,
+            consecutiveLosses: 0,
+            winRate: 0,
+            isRunning: false,
+        };
+    }
+
+    private getCurrency(): string {
+        return (api_base.account_info as { currency?: string })?.currency || 'USD';
+    }
+
+    private getErrorMessage(error: unknown): string {
+        const apiError = error as { error?: { message?: string }; message?: string };
+        return apiError?.error?.message || apiError?.message || 'Unknown error';
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * Bot Runtime Strategies
+ * Decision modules for the bots running on the shared bot runtime
+ */
+
+import type { BotStrategy, TradeDecision } from '../../types/bot-runtime.types';
+
+export interface DigitStrategyParams {
+    contractType: string;
+    barrier?: string;
+    ticks: number;
+}
+
+/**
+ * Buy the same digit contract on every tick; params are read per tick so live config edits apply
+ */
+export const createEveryTickDigitStrategy = (name: string, getParams: () => DigitStrategyParams): BotStrategy => ({
+    name,
+    decide: (): TradeDecision => {
+        const { contractType, barrier, ticks } = getParams();
+        return { contractType, barrier, duration: ticks, durationUnit: 't' };
+    },
+});
+
+/**
+ * Speed Bot: Over trades DIGITOVER and every other mode DIGITUNDER against the prediction digit
+ */
+export const createSpeedBotStrategy = (
+    getConfig: () => { strategy: string; prediction: string; ticks: string }
+): BotStrategy =>
+    createEveryTickDigitStrategy('Speed Bot', () => {
+        const { strategy, prediction, ticks } = getConfig();
+        return {
+            contractType: strategy === 'Over' ? 'DIGITOVER' : 'DIGITUNDER',
+            barrier: prediction,
+            ticks: parseInt(ticks) || 1,
+        };
+    });
+
+/**
+ * Flipping Tool: one-tick Over / Under on the configured digit
+ */
+export const createFlippingToolStrategy = (
+    getConfig: () => { tradeType: 'OVER' | 'UNDER'; overUnderDigit: number }
+): BotStrategy =>
+    createEveryTickDigitStrategy('Flipping Tool', () => {
+        const { tradeType, overUnderDigit } = getConfig();
+        return {
+            contractType: tradeType === 'OVER' ? 'DIGITOVER' : 'DIGITUNDER',
+            barrier: overUnderDigit.toString(),
+            ticks: 1,
+        };
+    });
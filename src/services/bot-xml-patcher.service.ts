@@ -0,0 +1,214 @@
+/**
+ * Bot XML Patcher Service
+ * One place where bot loaders change parameters in Blockly XML before it reaches the workspace
+ *
+ * Parameters are located by Blockly variable (ID or name) or by block type/ID and field name, never by
+ * searching for default values. Every write is reported, and the field diff between the template and
+ * the patched XML can be confirmed by the user before the bot is loaded.
+ */
+
+import type {
+    XmlBlockTarget,
+    XmlFieldChange,
+    XmlParameterPatch,
+    XmlPatchResult,
+    XmlVariableTarget,
+} from '../types/bot-xml-patch.types';
+import { appEventBus } from './app-event-bus.service';
+
+/** Variable names used for the initial stake and the martingale multiplier across the bundled bots */
+export const STAKE_VARIABLE = /^(initial\s*stake|inital\s*stake|stake|stake\s*amount|stake\s*awal)$/i;
+export const MARTINGALE_VARIABLE = /^(?!.*(level|multiplier)).*(martingale|martangle)/i;
+
+const PREVIEW_STORAGE_KEY = 'bot-xml-preview';
+const PUBLISHER = 'BotXmlPatcher';
+
+// Value blocks whose field holds a literal that can be patched in place
+const LITERAL_FIELDS: Record<string, string> = {
+    math_number: 'NUM',
+    text: 'TEXT',
+};
+
+class BotXmlPatcherService {
+    /**
+     * Parse, patch and serialise bot XML
+     */
+    patch(xml: string, patches: XmlParameterPatch[]): XmlPatchResult {
+        const doc = new DOMParser().parseFromString(xml, 'text/xml');
+        const parseError = doc.getElementsByTagName('parsererror')[0];
+        if (parseError) {
+            return {
+                success: false,
+                xml,
+                changes: [],
+                unmatched: patches.map(patch => patch.parameter),
+                error: `XML parsing failed: ${parseError.textContent}`,
+            };
+        }
+
+        const { success, changes, unmatched } = this.patchDocument(doc, patches);
+        return { success, xml: new XMLSerializer().serializeToString(doc), changes, unmatched };
+    }
+
+    /**
+     * Patch an already parsed document in place
+     */
+    patchDocument(doc: Document, patches: XmlParameterPatch[]): Omit<XmlPatchResult, 'xml'> {
+        const changes: XmlFieldChange[] = [];
+        const unmatched: string[] = [];
+
+        patches.forEach(({ parameter, value, target }) => {
+            const fields = 'field' in target ? this.findBlockFields(doc, target) : this.findVariableValues(doc, target);
+            if (fields.length === 0) {
+                unmatched.push(parameter);
+                return;
+            }
+
+            const after = String(value);
+            fields.forEach(field => {
+                const before = field.textContent ?? '';
+                if (before === after) return;
+                field.textContent = after;
+                changes.push({ parameter, ...this.describeField(field), before, after });
+            });
+        });
+
+        if (unmatched.length > 0) {
+            console.warn(`⚠️ Bot XML parameters not found: ${unmatched.join(', ')}`);
+        }
+
+        return { success: unmatched.length === 0, changes, unmatched };
+    }
+
+    /**
+     * Field-level differences between two versions of the same bot
+     */
+    diff(beforeXml: string, afterXml: string): XmlFieldChange[] {
+        const before = this.indexFields(beforeXml);
+        const changes: XmlFieldChange[] = [];
+
+        this.indexFields(afterXml).forEach((field, key) => {
+            const previous = before.get(key)?.textContent ?? '';
+            const current = field.textContent ?? '';
+            if (previous !== current) {
+                changes.push({ ...this.describeField(field), before: previous, after: current });
+            }
+        });
+
+        return changes;
+    }
+
+    /**
+     * Show the changes made to a bot template and wait for the user to approve loading it.
+     * Resolves true straight away when nothing changed, previews are disabled or no dialog is mounted.
+     */
+    confirmChanges(botName: string, templateXml: string, patchedXml: string): Promise<boolean> {
+        if (!this.isPreviewEnabled() || appEventBus.getSubscribers('bot.xml.preview').length === 0) {
+            return Promise.resolve(true);
+        }
+
+        const changes = this.diff(templateXml, patchedXml);
+        if (changes.length === 0) return Promise.resolve(true);
+
+        return new Promise(resolve => {
+            appEventBus.publish('bot.xml.preview', { botName, changes, respond: resolve }, PUBLISHER);
+        });
+    }
+
+    isPreviewEnabled(): boolean {
+        return localStorage.getItem(PREVIEW_STORAGE_KEY) !== 'off';
+    }
+
+    setPreviewEnabled(enabled: boolean): void {
+        localStorage.setItem(PREVIEW_STORAGE_KEY, enabled ? 'on' : 'off');
+    }
+
+    /** Private helpers */
+
+    private findBlockFields(doc: Document, { blockId, blockType, field }: XmlBlockTarget): Element[] {
+        return this.getBlocks(doc)
+            .filter(
+                block =>
+                    (!blockId || block.getAttribute('id') === blockId) &&
+                    (!blockType || block.getAttribute('type') === blockType)
+            )
+            .map(block => this.getChild(block, 'field', field))
+            .filter((element): element is Element => !!element);
+    }
+
+    private findVariableValues(doc: Document, { variableId, variableName }: XmlVariableTarget): Element[] {
+        const matchesName = (name: string | null) =>
+            !!name &&
+            !!variableName &&
+            (typeof variableName === 'string'
+                ? name.toLowerCase() === variableName.toLowerCase()
+                : variableName.test(name));
+
+        // Names are resolved to IDs through the <variables> list so renamed fields still match
+        const ids = new Set(variableId ? [variableId] : []);
+        Array.from(doc.getElementsByTagName('variable')).forEach(variable => {
+            if (matchesName(variable.textContent)) ids.add(variable.getAttribute('id') ?? '');
+        });
+
+        return this.getBlocks(doc)
+            .filter(block => block.getAttribute('type') === 'variables_set')
+            .filter(block => {
+                const varField = this.getChild(block, 'field', 'VAR');
+                const id = varField?.getAttribute('id');
+                return id ? ids.has(id) : matchesName(varField?.textContent ?? null);
+            })
+            .map(block => {
+                const valueBlock = this.getChild(block, 'value', 'VALUE')?.firstElementChild;
+                const literalField = LITERAL_FIELDS[valueBlock?.getAttribute('type') ?? ''];
+                return valueBlock && literalField ? this.getChild(valueBlock, 'field', literalField) : null;
+            })
+            .filter((element): element is Element => !!element);
+    }
+
+    private describeField(field: Element): Omit<XmlFieldChange, 'parameter' | 'before' | 'after'> {
+        const block = field.parentElement;
+        const input = block?.parentElement;
+        const owner = input?.parentElement;
+        const variable =
+            input?.tagName === 'value' && owner?.getAttribute('type') === 'variables_set'
+                ? (this.getChild(owner, 'field', 'VAR')?.textContent ?? undefined)
+                : undefined;
+
+        return {
+            blockId: block?.getAttribute('id') ?? null,
+            blockType: block?.getAttribute('type') ?? '',
+            variable,
+            field: field.getAttribute('name') ?? '',
+        };
+    }
+
+    private indexFields(xml: string): Map<string, Element> {
+        const fields = new Map<string, Element>();
+        const occurrences = new Map<string, number>();
+        const doc = new DOMParser().parseFromString(xml, 'text/xml');
+
+        // Blocks without IDs are told apart by the order they appear in
+        Array.from(doc.getElementsByTagName('field')).forEach(field => {
+            const base = `${field.parentElement?.getAttribute('id') ?? ''}:${field.getAttribute('name')}`;
+            const occurrence = occurrences.get(base) ?? 0;
+            occurrences.set(base, occurrence + 1);
+            fields.set(`${base}:${occurrence}`, field);
+        });
+
+        return fields;
+    }
+
+    private getBlocks(doc: Document): Element[] {
+        return [...Array.from(doc.getElementsByTagName('block')), ...Array.from(doc.getElementsByTagName('shadow'))];
+    }
+
+    private getChild(parent: Element, tagName: string, name: string): Element | null {
+        return (
+            Array.from(parent.children).find(
+                child => child.tagName === tagName && child.getAttribute('name') === name
+            ) ?? null
+        );
+    }
+}
+
+export const botXmlPatcher = new BotXmlPatcherService();
@@ -0,0 +1,397 @@
+/**
+ * Copy Trading Reconciliation Service
+ * Matches copy trade executions against what each follower account actually booked,
+ * flags missed, duplicated and mismatched copies, and keeps a per-follower audit ledger
+ */
+
+import type {
+    CopyLedgerEntry,
+    CopyLedgerStatus,
+    CopyTradeExecution,
+    FollowerBookedContract,
+    ReconciliationReport,
+} from '@/types/copy-trading.types';
+
+interface StatementTransaction {
+    action_type?: string;
+    amount?: number;
+    contract_id?: number | string;
+    transaction_id?: number | string;
+    transaction_time?: number;
+    shortcode?: string;
+}
+
+interface ProfitTableTransaction {
+    contract_id?: number | string;
+    transaction_id?: number | string;
+    buy_price?: number;
+    sell_price?: number;
+    purchase_time?: number;
+    sell_time?: number;
+    shortcode?: string;
+}
+
+const STORAGE_KEY = 'copyTradingLedger';
+const MAX_LEDGER_ENTRIES = 2000;
+const STATEMENT_GRACE_MS = 2 * 60 * 1000; // Time for a fresh buy to show up on the statement
+const ATTRIBUTION_WINDOW_MS = 60 * 1000; // Max distance between a copy attempt and an unlinked booking
+const STAKE_TOLERANCE = 0.01;
+
+const CSV_COLUMNS: (keyof CopyLedgerEntry)[] = [
+    'status',
+    'masterTradeId',
+    'executionId',
+    'contractId',
+    'market',
+    'contractType',
+    'expectedStake',
+    'bookedStake',
+    'payout',
+    'profit',
+    'executedAt',
+    'purchaseTime',
+    'sellTime',
+    'issues',
+    'reconciledAt',
+];
+
+class CopyTradingReconciliationService {
+    private ledgers: Map<string, CopyLedgerEntry[]> = new Map();
+    private lastReports: Map<string, ReconciliationReport> = new Map();
+
+    constructor() {
+        this.loadFromStorage();
+    }
+
+    /**
+     * Merge statement buys with profit_table rows into booked contracts
+     */
+    parseBookedContracts(statementResponse: unknown, profitTableResponse: unknown): FollowerBookedContract[] {
+        const statement = ((statementResponse as { statement?: { transactions?: StatementTransaction[] } })?.statement
+            ?.transactions ?? []) as StatementTransaction[];
+        const profitTable = ((profitTableResponse as { profit_table?: { transactions?: ProfitTableTransaction[] } })
+            ?.profit_table?.transactions ?? []) as ProfitTableTransaction[];
+
+        const contracts = new Map<string, FollowerBookedContract>();
+
+        statement
+            .filter(transaction => transaction.action_type === 'buy' && transaction.contract_id)
+            .forEach(transaction => {
+                contracts.set(String(transaction.contract_id), {
+                    contractId: String(transaction.contract_id),
+                    transactionId: transaction.transaction_id ? String(transaction.transaction_id) : undefined,
+                    shortcode: transaction.shortcode || '',
+                    buyPrice: Math.abs(Number(transaction.amount) || 0),
+                    purchaseTime: (transaction.transaction_time || 0) * 1000,
+                });
+            });
+
+        profitTable
+            .filter(transaction => transaction.contract_id)
+            .forEach(transaction => {
+                const contractId = String(transaction.contract_id);
+                const buyPrice = Number(transaction.buy_price) || contracts.get(contractId)?.buyPrice || 0;
+                const sellPrice = Number(transaction.sell_price) || 0;
+
+                contracts.set(contractId, {
+                    ...contracts.get(contractId),
+                    contractId,
+                    shortcode: transaction.shortcode || contracts.get(contractId)?.shortcode || '',
+                    buyPrice,
+                    purchaseTime:
+                        (transaction.purchase_time || 0) * 1000 || contracts.get(contractId)?.purchaseTime || 0,
+                    sellPrice,
+                    sellTime: (transaction.sell_time || 0) * 1000,
+                    profit: Math.round((sellPrice - buyPrice) * 100) / 100,
+                });
+            });
+
+        return Array.from(contracts.values());
+    }
+
+    /**
+     * Reconcile a follower's copy executions since periodStart against its booked contracts
+     */
+    reconcile(
+        copyTraderId: string,
+        executions: CopyTradeExecution[],
+        booked: FollowerBookedContract[],
+        periodStart: number,
+        now = Date.now()
+    ): ReconciliationReport {
+        const bookedById = new Map(booked.map(contract => [contract.contractId, contract]));
+        const linkedContracts = new Set<string>();
+        const bookedMasterTrades = new Set<string>();
+        const entries: CopyLedgerEntry[] = [];
+
+        const inPeriod = executions
+            .filter(execution => execution.copyTraderId === copyTraderId && execution.executedAt >= periodStart)
+            .sort((a, b) => a.executedAt - b.executedAt);
+
+        // Pass 1: executions that know their contract id
+        inPeriod.forEach(execution => {
+            const contract = execution.contractId ? bookedById.get(String(execution.contractId)) : undefined;
+
+            if (contract) {
+                linkedContracts.add(contract.contractId);
+                entries.push(this.linkEntry(copyTraderId, execution, contract, bookedMasterTrades, now));
+                return;
+            }
+
+            const entry = this.createEntry(copyTraderId, execution, now);
+            if (execution.contractId && now - execution.executedAt < STATEMENT_GRACE_MS) {
+                entry.status = 'OPEN';
+                entry.issues.push('Not on the follower statement yet');
+            } else if (execution.contractId) {
+                entry.status = 'MISSED';
+                entry.issues.push(`Contract ${execution.contractId} is not on the follower statement`);
+            } else {
+                entry.status = 'MISSED';
+                entry.issues.push(`Copy was not placed${execution.error ? `: ${execution.error}` : ''}`);
+            }
+            entries.push(entry);
+        });
+
+        // Pass 2: bookings no execution points at, attributed to the nearest matching copy attempt
+        booked
+            .filter(contract => !linkedContracts.has(contract.contractId) && contract.purchaseTime >= periodStart)
+            .sort((a, b) => a.purchaseTime - b.purchaseTime)
+            .forEach(contract => {
+                const execution = this.findAttemptFor(contract, inPeriod);
+                if (!execution) {
+                    entries.push({
+                        ...this.bookedFields(contract),
+                        id: `${copyTraderId}:contract:${contract.contractId}`,
+                        copyTraderId,
+                        status: 'UNLINKED',
+                        issues: ['Not linked to any master trade'],
+                        reconciledAt: now,
+                    });
+                    return;
+                }
+
+                const missedIndex = entries.findIndex(
+                    entry => entry.executionId === execution.id && entry.status === 'MISSED'
+                );
+                const entry = this.linkEntry(copyTraderId, execution, contract, bookedMasterTrades, now);
+
+                if (missedIndex >= 0 && entry.status !== 'DUPLICATE') {
+                    // The buy went through although the copy was recorded as failed
+                    entry.status = 'MISMATCH';
+                    entry.issues.unshift('Booked although the copy was recorded as failed');
+                    entries[missedIndex] = entry;
+                } else {
+                    entry.id = `${copyTraderId}:contract:${contract.contractId}`;
+                    entries.push(entry);
+                }
+            });
+
+        const report: ReconciliationReport = {
+            copyTraderId,
+            reconciledAt: now,
+            periodStart,
+            entries,
+            counts: this.countStatuses(entries),
+            bookedProfit:
+                Math.round(entries.reduce((sum, entry) => sum + (entry.contractId ? entry.profit || 0 : 0), 0) * 100) /
+                100,
+        };
+
+        this.recordReport(report);
+        return report;
+    }
+
+    /**
+     * Record a report that could not be produced (e.g. locked vault, API error)
+     */
+    recordFailure(copyTraderId: string, periodStart: number, error: string): ReconciliationReport {
+        const report: ReconciliationReport = {
+            copyTraderId,
+            reconciledAt: Date.now(),
+            periodStart,
+            entries: [],
+            counts: this.countStatuses([]),
+            bookedProfit: 0,
+            error,
+        };
+        this.lastReports.set(copyTraderId, report);
+        return report;
+    }
+
+    /**
+     * Get a follower's ledger, newest first
+     */
+    getLedger(copyTraderId: string): CopyLedgerEntry[] {
+        return [...(this.ledgers.get(copyTraderId) ?? [])].sort((a, b) => this.entryTime(b) - this.entryTime(a));
+    }
+
+    getLastReport(copyTraderId: string): ReconciliationReport | undefined {
+        return this.lastReports.get(copyTraderId);
+    }
+
+    /**
+     * Export a follower's ledger as CSV or JSON
+     */
+    exportLedger(copyTraderId: string, format: 'csv' | 'json'): string {
+        const ledger = this.getLedger(copyTraderId);
+
+        if (format === 'json') {
+            return JSON.stringify({ copyTraderId, exportedAt: new Date().toISOString(), entries: ledger }, null, 2);
+        }
+
+        const rows = ledger.map(entry =>
+            CSV_COLUMNS.map(column => {
+                const value = entry[column];
+                const text = Array.isArray(value) ? value.join('; ') : value === undefined ? '' : String(value);
+                return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+            }).join(',')
+        );
+
+        return [CSV_COLUMNS.join(','), ...rows].join('\n');
+    }
+
+    /**
+     * Remove a follower's ledger
+     */
+    clearLedger(copyTraderId: string): void {
+        this.ledgers.delete(copyTraderId);
+        this.lastReports.delete(copyTraderId);
+        this.saveToStorage();
+    }
+
+    /**
+     * Private helpers
+     */
+    private createEntry(copyTraderId: string, execution: CopyTradeExecution, now: number): CopyLedgerEntry {
+        return {
+            id: `${copyTraderId}:execution:${execution.id}`,
+            copyTraderId,
+            masterTradeId: execution.masterTradeId,
+            executionId: execution.id,
+            market: execution.market,
+            contractType: execution.contractType,
+            expectedStake: execution.buyPrice ?? execution.stake,
+            executedAt: execution.executedAt,
+            status: 'MATCHED',
+            issues: [],
+            reconciledAt: now,
+        };
+    }
+
+    private bookedFields(contract: FollowerBookedContract): Partial<CopyLedgerEntry> {
+        return {
+            contractId: contract.contractId,
+            bookedStake: contract.buyPrice,
+            payout: contract.sellPrice,
+            profit: contract.profit,
+            purchaseTime: contract.purchaseTime,
+            sellTime: contract.sellTime,
+        };
+    }
+
+    private linkEntry(
+        copyTraderId: string,
+        execution: CopyTradeExecution,
+        contract: FollowerBookedContract,
+        bookedMasterTrades: Set<string>,
+        now: number
+    ): CopyLedgerEntry {
+        const entry: CopyLedgerEntry = {
+            ...this.createEntry(copyTraderId, execution, now),
+            ...this.bookedFields(contract),
+        };
+
+        if (bookedMasterTrades.has(execution.masterTradeId)) {
+            entry.status = 'DUPLICATE';
+            entry.issues.push(`Master trade ${execution.masterTradeId} was already copied to this follower`);
+            return entry;
+        }
+        bookedMasterTrades.add(execution.masterTradeId);
+
+        if (Math.abs(contract.buyPrice - (entry.expectedStake ?? 0)) > STAKE_TOLERANCE) {
+            entry.issues.push(`Booked stake ${contract.buyPrice} differs from expected ${entry.expectedStake}`);
+        }
+        if (contract.shortcode && !this.shortcodeMatches(contract.shortcode, execution)) {
+            entry.issues.push(
+                `Booked contract ${contract.shortcode.split('_')[0]} differs from ${execution.contractType}`
+            );
+        }
+
+        entry.status = entry.issues.length > 0 ? 'MISMATCH' : contract.sellTime ? 'MATCHED' : 'OPEN';
+        return entry;
+    }
+
+    private shortcodeMatches(shortcode: string, execution: CopyTradeExecution): boolean {
+        return shortcode.startsWith(`${execution.contractType}_${execution.market}_`);
+    }
+
+    private findAttemptFor(
+        contract: FollowerBookedContract,
+        executions: CopyTradeExecution[]
+    ): CopyTradeExecution | undefined {
+        let best: CopyTradeExecution | undefined;
+        let bestDistance = ATTRIBUTION_WINDOW_MS;
+
+        executions.forEach(execution => {
+            const distance = Math.abs(contract.purchaseTime - execution.executedAt);
+            if (distance <= bestDistance && this.shortcodeMatches(contract.shortcode, execution)) {
+                best = execution;
+                bestDistance = distance;
+            }
+        });
+
+        return best;
+    }
+
+    private countStatuses(entries: CopyLedgerEntry[]): Record<CopyLedgerStatus, number> {
+        const counts: Record<CopyLedgerStatus, number> = {
+            MATCHED: 0,
+            OPEN: 0,
+            MISSED: 0,
+            DUPLICATE: 0,
+            MISMATCH: 0,
+            UNLINKED: 0,
+        };
+        entries.forEach(entry => counts[entry.status]++);
+        return counts;
+    }
+
+    private entryTime(entry: CopyLedgerEntry): number {
+        return entry.executedAt ?? entry.purchaseTime ?? entry.reconciledAt;
+    }
+
+    private recordReport(report: ReconciliationReport): void {
+        const ledger = new Map((this.ledgers.get(report.copyTraderId) ?? []).map(entry => [entry.id, entry]));
+        report.entries.forEach(entry => ledger.set(entry.id, entry));
+
+        const entries = Array.from(ledger.values())
+            .sort((a, b) => this.entryTime(a) - this.entryTime(b))
+            .slice(-MAX_LEDGER_ENTRIES);
+
+        this.ledgers.set(report.copyTraderId, entries);
+        this.lastReports.set(report.copyTraderId, report);
+        this.saveToStorage();
+    }
+
+    private saveToStorage(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.ledgers.entries())));
+        } catch (error) {
+            console.error('Failed to save copy trading ledger:', error);
+        }
+    }
+
+    private loadFromStorage(): void {
+        try {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (saved) {
+                this.ledgers = new Map(JSON.parse(saved));
+            }
+        } catch (error) {
+            console.error('Failed to load copy trading ledger:', error);
+        }
+    }
+}
+
+// Export singleton instance
+export const copyTradingReconciliationService = new CopyTradingReconciliationService();
@@ -3,15 +3,42 @@
  * Manages copy trading functionality including trader management and trade execution
  */
 
+import { getWebSocketURL } from '@/config/api-config';
 import type {
     ApiTokenValidation,
+    CopyLedgerStatus,
     CopyTradeExecution,
     CopyTrader,
     CopyTradingNotification,
     CopyTradingSettings,
     CopyTradingStats,
     MasterTrade,
+    NewCopyTrader,
+    ReconciliationReport,
 } from '@/types/copy-trading.types';
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - No types available for this package
+import DerivAPIBasic from '@deriv/deriv-api/dist/DerivAPIBasic';
+import { copyTradingReconciliationService } from './copy-trading-reconciliation.service';
+import { riskPolicyService } from './risk-policy.service';
+import { tokenVaultService } from './token-vault.service';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type FollowerResponse = Record<string, any>;
+
+/**
+ * Authorized connection to a follower's own account
+ */
+interface FollowerConnection {
+    loginid: string;
+    currency: string;
+    balance: number;
+    country: string;
+    email: string;
+    scopes: string[];
+    send: (request: Record<string, unknown>) => Promise<FollowerResponse>;
+    close: () => void;
+}
 
 class CopyTradingService {
     private copyTraders: Map<string, CopyTrader> = new Map();
@@ -20,10 +47,19 @@ class CopyTradingService {
     private notifications: CopyTradingNotification[] = [];
     private settings: CopyTradingSettings;
     private isInitialized = false;
+    private reconciliationTimer: ReturnType<typeof setInterval> | null = null;
+    private followerConnections = new Map<string, Promise<FollowerConnection>>();
 
     constructor() {
         this.settings = this.getDefaultSettings();
         this.loadFromStorage();
+
+        // Tokens saved before the vault existed move into it the first time it is unlocked
+        tokenVaultService.subscribe(status => {
+            if (status.unlocked) {
+                this.migrateLegacyTokens();
+            }
+        });
     }
 
     /**
@@ -40,6 +76,9 @@ class CopyTradingService {
         // Validate all copy trader connections
         await this.validateAllConnections();
 
+        // Check follower statements against copy executions in the background
+        this.startReconciliationJob();
+
         this.isInitialized = true;
         console.log('✅ Copy Trading Service initialized');
     }
@@ -47,21 +86,14 @@ class CopyTradingService {
     /**
      * Add a new copy trader
      */
-    async addCopyTrader(
-        traderData: Omit<
-            CopyTrader,
-            | 'id'
-            | 'createdAt'
-            | 'totalTrades'
-            | 'winningTrades'
-            | 'totalProfit'
-            | 'currentDrawdown'
-            | 'connectionStatus'
-        >
-    ): Promise<{ success: boolean; trader?: CopyTrader; error?: string }> {
+    async addCopyTrader(traderData: NewCopyTrader): Promise<{ success: boolean; trader?: CopyTrader; error?: string }> {
         try {
             console.log('👤 Adding new copy trader:', traderData.name);
 
+            if (!tokenVaultService.isUnlocked()) {
+                return { success: false, error: 'Unlock the token vault before adding a copy trader' };
+            }
+
             // Validate API token first
             const validation = await this.validateApiToken(traderData.apiToken);
             if (!validation.isValid) {
@@ -72,19 +104,21 @@ class CopyTradingService {
             }
 
             // Check if trader already exists
-            const existingTrader = Array.from(this.copyTraders.values()).find(
-                trader => trader.apiToken === traderData.apiToken
+            const existingTokens = await Promise.all(
+                Array.from(this.copyTraders.values()).map(trader => this.getApiToken(trader).catch(() => undefined))
             );
-            if (existingTrader) {
+            if (existingTokens.includes(traderData.apiToken)) {
                 return {
                     success: false,
                     error: 'This API token is already registered',
                 };
             }
 
-            // Create new trader
+            // Create new trader; the token itself is only kept in the vault
+            const { apiToken, ...profile } = traderData;
             const trader: CopyTrader = {
-                ...traderData,
+                ...profile,
+                tokenHint: apiToken.slice(-6),
                 id: `trader-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
                 createdAt: Date.now(),
                 totalTrades: 0,
@@ -93,6 +127,7 @@ class CopyTradingService {
                 currentDrawdown: 0,
                 connectionStatus: 'CONNECTED',
             };
+            await tokenVaultService.setToken(trader.id, apiToken);
 
             // Add to collection
             this.copyTraders.set(trader.id, trader);
@@ -131,6 +166,8 @@ class CopyTradingService {
 
         // Remove trader
         this.copyTraders.delete(traderId);
+        tokenVaultService.removeToken(traderId);
+        this.closeTraderAPIConnection(traderId);
 
         // Save to storage
         this.saveToStorage();
@@ -243,6 +280,7 @@ class CopyTradingService {
             retryCount: 0,
             maxRetries: this.settings.retryAttempts,
         };
+        let riskTicket: string | undefined;
 
         try {
             // Validate trade before execution
@@ -251,6 +289,19 @@ class CopyTradingService {
                 throw new Error(validation.error);
             }
 
+            // Each copier account has its own risk policy
+            const riskDecision = riskPolicyService.authorize({
+                source: 'COPY_TRADING',
+                stake: copyExecution.stake,
+                symbol: copyExecution.market,
+                contractType: copyExecution.contractType,
+                accountId: this.getRiskAccountId(trader),
+            });
+            if (!riskDecision.allowed) {
+                throw new Error(`Trade blocked: ${riskDecision.reason}`);
+            }
+            riskTicket = riskDecision.ticket;
+
             console.log(`💼 Executing copy trade for ${trader.name}:`, {
                 market: copyExecution.market,
                 contractType: copyExecution.contractType,
@@ -264,6 +315,8 @@ class CopyTradingService {
                 copyExecution.status = 'ACTIVE';
                 copyExecution.contractId = result.contractId;
                 copyExecution.buyPrice = result.buyPrice;
+                riskPolicyService.confirm(riskTicket, result.contractId, result.buyPrice);
+                riskTicket = undefined;
 
                 // Update trader stats
                 this.updateTraderStats(trader.id, 'TRADE_EXECUTED', copyExecution.stake);
@@ -273,6 +326,7 @@ class CopyTradingService {
                 throw new Error(result.error);
             }
         } catch (error) {
+            riskPolicyService.cancel(riskTicket);
             console.error(`❌ Copy trade failed for ${trader.name}:`, error);
 
             copyExecution.status = 'ERROR';
@@ -301,6 +355,178 @@ class CopyTradingService {
         return copyExecution;
     }
 
+    /**
+     * Reconcile one follower's copy executions against its statement and profit table
+     */
+    async reconcileCopyTrader(traderId: string): Promise<ReconciliationReport> {
+        const trader = this.copyTraders.get(traderId);
+        const periodStart = Date.now() - this.settings.reconciliationLookbackHours * 60 * 60 * 1000;
+
+        if (!trader) {
+            return copyTradingReconciliationService.recordFailure(traderId, periodStart, 'Copy trader not found');
+        }
+        if (!trader.apiToken && !tokenVaultService.isUnlocked()) {
+            return copyTradingReconciliationService.recordFailure(traderId, periodStart, 'Token vault is locked');
+        }
+
+        try {
+            const api = await this.createTraderAPIConnection(trader);
+            const dateFrom = Math.floor(periodStart / 1000);
+            const [statement, profitTable] = await Promise.all([
+                api.send({ statement: 1, description: 1, action_type: 'buy', date_from: dateFrom, limit: 999 }),
+                api.send({ profit_table: 1, description: 1, date_from: dateFrom, limit: 500, sort: 'ASC' }),
+            ]);
+
+            const booked = copyTradingReconciliationService.parseBookedContracts(statement, profitTable);
+            const previousStatuses = new Map(
+                copyTradingReconciliationService.getLedger(traderId).map(entry => [entry.id, entry.status])
+            );
+            const report = copyTradingReconciliationService.reconcile(
+                traderId,
+                this.getCopyExecutions(),
+                booked,
+                periodStart
+            );
+
+            this.applyReconciliation(trader, report, previousStatuses);
+            console.log(
+                `🧾 Reconciled ${trader.name}: ${report.counts.MATCHED} matched, ${report.counts.MISSED} missed, ${report.counts.DUPLICATE} duplicate, ${report.counts.MISMATCH} mismatched`
+            );
+            return report;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Reconciliation failed';
+            console.error(`❌ Reconciliation failed for ${trader.name}:`, error);
+            return copyTradingReconciliationService.recordFailure(traderId, periodStart, message);
+        }
+    }
+
+    /**
+     * Reconcile every follower whose token is available
+     */
+    async reconcileAll(): Promise<ReconciliationReport[]> {
+        const reports: ReconciliationReport[] = [];
+        for (const trader of this.copyTraders.values()) {
+            reports.push(await this.reconcileCopyTrader(trader.id));
+        }
+        return reports;
+    }
+
+    /**
+     * Start the periodic reconciliation job (restarts it if already running)
+     */
+    startReconciliationJob(): void {
+        this.stopReconciliationJob();
+
+        const minutes = this.settings.reconciliationIntervalMinutes;
+        if (minutes <= 0) return;
+
+        this.reconciliationTimer = setInterval(
+            () => {
+                this.reconcileAll();
+            },
+            minutes * 60 * 1000
+        );
+    }
+
+    stopReconciliationJob(): void {
+        if (this.reconciliationTimer) {
+            clearInterval(this.reconciliationTimer);
+            this.reconciliationTimer = null;
+        }
+    }
+
+    /**
+     * Apply booked results to executions, trader stats and the risk policy
+     */
+    private applyReconciliation(
+        trader: CopyTrader,
+        report: ReconciliationReport,
+        previousStatuses: Map<string, CopyLedgerStatus>
+    ): void {
+        const accountId = this.getRiskAccountId(trader);
+
+        report.entries.forEach(entry => {
+            const execution = entry.executionId ? this.copyExecutions.get(entry.executionId) : undefined;
+            if (!execution || !entry.contractId || entry.status === 'DUPLICATE') return;
+
+            execution.contractId = entry.contractId;
+            execution.buyPrice = entry.bookedStake;
+            execution.error = undefined;
+
+            if (entry.sellTime !== undefined && entry.profit !== undefined) {
+                execution.sellPrice = entry.payout;
+                execution.profit = entry.profit;
+                execution.status = entry.profit > 0 ? 'WON' : 'LOST';
+                riskPolicyService.recordResult({ contractId: entry.contractId, accountId }, entry.profit);
+            } else {
+                execution.status = 'ACTIVE';
+            }
+        });
+
+        // Trader totals follow what the broker booked rather than what was attempted
+        const settled = this.getCopyExecutions().filter(
+            e => e.copyTraderId === trader.id && (e.status === 'WON' || e.status === 'LOST')
+        );
+        this.updateCopyTrader(trader.id, {
+            totalTrades: this.getCopyExecutions().filter(e => e.copyTraderId === trader.id && e.contractId).length,
+            winningTrades: settled.filter(e => e.status === 'WON').length,
+            totalProfit: Math.round(settled.reduce((sum, e) => sum + (e.profit || 0), 0) * 100) / 100,
+        });
+
+        // Only notify about issues that were not already flagged by an earlier run
+        const newIssues = report.entries.filter(
+            entry =>
+                ['MISSED', 'DUPLICATE', 'MISMATCH'].includes(entry.status) &&
+                previousStatuses.get(entry.id) !== entry.status
+        );
+        if (newIssues.length > 0 && this.settings.notifyOnErrors) {
+            this.addNotification({
+                type: 'RISK_WARNING',
+                title: 'Copy Reconciliation Issues',
+                message: `${trader.name}: ${newIssues.length} new missed, duplicated or mismatched copies found on the follower statement`,
+                copyTraderId: trader.id,
+                severity: 'WARNING',
+            });
+        }
+
+        this.saveToStorage();
+    }
+
+    /**
+     * Resolve a trader's API token from the vault (or the legacy record)
+     */
+    private async getApiToken(trader: CopyTrader): Promise<string | undefined> {
+        return trader.apiToken ?? (await tokenVaultService.getToken(trader.id));
+    }
+
+    /**
+     * Move plain-text tokens from older saves into the unlocked vault
+     */
+    private async migrateLegacyTokens(): Promise<void> {
+        const legacyTraders = Array.from(this.copyTraders.values()).filter(trader => trader.apiToken);
+        if (legacyTraders.length === 0) return;
+
+        try {
+            for (const trader of legacyTraders) {
+                const { apiToken, ...profile } = trader;
+                await tokenVaultService.setToken(trader.id, apiToken!);
+                this.copyTraders.set(trader.id, { ...profile, tokenHint: apiToken!.slice(-6) });
+            }
+
+            this.saveToStorage();
+            console.log(`🔐 Moved ${legacyTraders.length} copy trader token(s) into the vault`);
+        } catch (error) {
+            console.error('❌ Failed to migrate copy trader tokens:', error);
+        }
+    }
+
+    /**
+     * Risk policy account for a copier
+     */
+    private getRiskAccountId(trader: CopyTrader): string {
+        return `copy:${trader.id}`;
+    }
+
     /**
      * Calculate copy trade stake based on trader's multiplier and limits
      */
@@ -376,6 +602,9 @@ class CopyTradingService {
                 buy: 1,
                 price: copyExecution.stake,
                 parameters: {
+                    amount: copyExecution.stake,
+                    basis: 'stake',
+                    currency: traderAPI.currency,
                     contract_type: copyExecution.contractType,
                     symbol: copyExecution.market,
                     duration: copyExecution.duration,
@@ -407,29 +636,78 @@ class CopyTradingService {
     }
 
     /**
-     * Create API connection for a specific trader
+     * Authorized connection to a trader's account, shared by its copy buys and reconciliation runs
      */
-    private async createTraderAPIConnection(trader: CopyTrader): Promise<{
-        send: (request: Record<string, unknown>) => Promise<Record<string, unknown>>;
-    }> {
-        // This would create a separate WebSocket connection using the trader's API token
-        // For now, we'll simulate this - in production, you'd need to implement proper API connection management
+    private createTraderAPIConnection(trader: CopyTrader): Promise<FollowerConnection> {
+        const existing = this.followerConnections.get(trader.id);
+        if (existing) return existing;
+
+        const connection = (async () => {
+            const apiToken = await this.getApiToken(trader);
+            if (!apiToken) {
+                throw new Error(`No API token stored for ${trader.name}`);
+            }
+            return this.openFollowerConnection(apiToken, () => {
+                // A dropped socket is reopened on the next request
+                if (this.followerConnections.get(trader.id) === connection) {
+                    this.followerConnections.delete(trader.id);
+                }
+            });
+        })();
 
-        // Placeholder implementation
-        return {
-            send: async (request: Record<string, unknown>) => {
-                // Simulate API call with trader's token
-                console.log(`🔗 API call for trader ${trader.name} with token: ${trader.apiToken.substring(0, 10)}...`);
+        this.followerConnections.set(trader.id, connection);
+        connection.catch(() => {
+            if (this.followerConnections.get(trader.id) === connection) {
+                this.followerConnections.delete(trader.id);
+            }
+        });
+        return connection;
+    }
 
-                // Simulate response (replace with actual Deriv API call)
-                return {
-                    buy: {
-                        contract_id: `CT${Date.now()}`,
-                        buy_price: request.price,
-                    },
-                };
-            },
+    private closeTraderAPIConnection(traderId: string): void {
+        const connection = this.followerConnections.get(traderId);
+        if (!connection) return;
+
+        this.followerConnections.delete(traderId);
+        connection.then(({ close }) => close()).catch(() => undefined);
+    }
+
+    /**
+     * Open a WebSocket of its own and authorize it with the follower's token
+     */
+    private async openFollowerConnection(apiToken: string, onClose?: () => void): Promise<FollowerConnection> {
+        const socket = new WebSocket(getWebSocketURL());
+        const api = new DerivAPIBasic({ connection: socket });
+
+        const send = async (request: Record<string, unknown>): Promise<FollowerResponse> => {
+            try {
+                return await api.send(request);
+            } catch (error) {
+                // DerivAPIBasic rejects with the whole response when the API answers with an error
+                const response = error as { error?: { message?: string }; message?: string };
+                throw new Error(response?.error?.message || response?.message || 'API error');
+            }
         };
+
+        try {
+            const { authorize } = await send({ authorize: apiToken });
+            socket.addEventListener('close', () => onClose?.());
+
+            console.log(`🔗 Follower connection authorized for ${authorize.loginid}`);
+            return {
+                loginid: authorize.loginid,
+                currency: authorize.currency,
+                balance: Number(authorize.balance) || 0,
+                country: authorize.country || '',
+                email: authorize.email || '',
+                scopes: authorize.scopes || [],
+                send,
+                close: () => api.disconnect(),
+            };
+        } catch (error) {
+            api.disconnect();
+            throw error;
+        }
     }
 
     /**
@@ -439,10 +717,6 @@ class CopyTradingService {
         try {
             console.log('🔐 Validating API token...');
 
-            // Create temporary connection to validate token
-            // This is a placeholder - implement actual Deriv API validation
-
-            // Simulate validation
             if (token.length < 10) {
                 return {
                     isValid: false,
@@ -450,21 +724,31 @@ class CopyTradingService {
                 };
             }
 
-            // Simulate successful validation
+            // Authorize on a short-lived connection to read the account and the token's scopes
+            const connection = await this.openFollowerConnection(token);
+            connection.close();
+
+            if (!connection.scopes.includes('trade')) {
+                return {
+                    isValid: false,
+                    error: 'API token needs the Trade scope',
+                };
+            }
+
             return {
                 isValid: true,
                 accountInfo: {
-                    loginId: 'CR1234567',
-                    currency: 'USD',
-                    balance: 1000,
-                    country: 'US',
-                    email: 'user@example.com',
+                    loginId: connection.loginid,
+                    currency: connection.currency,
+                    balance: connection.balance,
+                    country: connection.country,
+                    email: connection.email,
                 },
                 permissions: {
-                    read: true,
+                    read: connection.scopes.includes('read'),
                     trade: true,
-                    payments: false,
-                    admin: false,
+                    payments: connection.scopes.includes('payments'),
+                    admin: connection.scopes.includes('admin'),
                 },
             };
         } catch (error) {
@@ -481,9 +765,12 @@ class CopyTradingService {
     private async validateAllConnections(): Promise<void> {
         console.log('🔍 Validating all copy trader connections...');
 
-        const traders = Array.from(this.copyTraders.values());
+        // Tokens of a locked vault cannot be checked until it is unlocked
+        const traders = Array.from(this.copyTraders.values()).filter(
+            trader => trader.apiToken || tokenVaultService.isUnlocked()
+        );
         const validationPromises = traders.map(async trader => {
-            const validation = await this.validateApiToken(trader.apiToken);
+            const validation = await this.validateApiToken((await this.getApiToken(trader)) ?? '');
 
             if (!validation.isValid) {
                 this.updateCopyTrader(trader.id, {
@@ -655,6 +942,8 @@ class CopyTradingService {
             executionDelay: 1000,
             maxExecutionTime: 30000,
             retryAttempts: 3,
+            reconciliationIntervalMinutes: 10,
+            reconciliationLookbackHours: 24,
             notifyOnNewCopyTrader: true,
             notifyOnCopyTradeExecution: true,
             notifyOnCopyTradeResult: true,
@@ -692,6 +981,10 @@ class CopyTradingService {
     updateSettings(updates: Partial<CopyTradingSettings>): void {
         this.settings = { ...this.settings, ...updates };
         this.saveToStorage();
+
+        if (this.isInitialized && updates.reconciliationIntervalMinutes !== undefined) {
+            this.startReconciliationJob();
+        }
     }
 }
 
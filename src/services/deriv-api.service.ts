@@ -27,8 +27,11 @@ import type {
     TTradingTimesRequest,
     TTradingTimesResponse,
 } from '@/types/deriv-api.types';
+import { tickSourceService } from './tick-source/tick-source.service';
 
 class DerivAPIService {
+    private replaySubscriptions = new Map<string, () => void>();
+
     /**
      * Get all open positions in portfolio
      */
@@ -53,7 +56,7 @@ class DerivAPIService {
         const response = await api_base.api?.send(request);
 
         if (response?.subscription) {
-            const subscription = api_base.api?.onMessage().subscribe((message: any) => {
+            const subscription = api_base.api?.onMessage().subscribe(({ data: message }: any) => {
                 if (message.portfolio) {
                     callback(message as TPortfolioResponse);
                 }
@@ -182,6 +185,11 @@ class DerivAPIService {
      * Subscribe to real-time ticks
      */
     async subscribeToTicks(symbol: string, callback: (data: TTicksSubscribeResponse) => void) {
+        await tickSourceService.initialize();
+        if (tickSourceService.isReplayActive()) {
+            return this.subscribeToReplayTicks(symbol, callback);
+        }
+
         const request: TTicksSubscribeRequest = {
             ticks: symbol,
             subscribe: 1,
@@ -190,7 +198,7 @@ class DerivAPIService {
         const response = await api_base.api?.send(request);
 
         if (response?.subscription) {
-            const subscription = api_base.api?.onMessage().subscribe((message: any) => {
+            const subscription = api_base.api?.onMessage().subscribe(({ data: message }: any) => {
                 if (message.tick && message.tick.symbol === symbol) {
                     callback(message as TTicksSubscribeResponse);
                 }
@@ -222,7 +230,7 @@ class DerivAPIService {
         const response = await api_base.api?.send(request);
 
         if (response?.subscription) {
-            const subscription = api_base.api?.onMessage().subscribe((message: any) => {
+            const subscription = api_base.api?.onMessage().subscribe(({ data: message }: any) => {
                 if (message.ohlc && message.ohlc.symbol === symbol) {
                     callback(message as TCandlesSubscribeResponse);
                 }
@@ -250,7 +258,7 @@ class DerivAPIService {
         const response = await api_base.api?.send(request);
 
         if (response?.subscription) {
-            const subscription = api_base.api?.onMessage().subscribe((message: any) => {
+            const subscription = api_base.api?.onMessage().subscribe(({ data: message }: any) => {
                 if (message.proposal_open_contract) {
                     callback(message);
                 }
@@ -269,6 +277,13 @@ class DerivAPIService {
      * Unsubscribe from a stream
      */
     async unsubscribe(subscription_id: string) {
+        const replayUnsubscribe = this.replaySubscriptions.get(subscription_id);
+        if (replayUnsubscribe) {
+            replayUnsubscribe();
+            this.replaySubscriptions.delete(subscription_id);
+            return;
+        }
+
         return api_base.api?.send({
             forget: subscription_id,
         });
@@ -280,6 +295,39 @@ class DerivAPIService {
     unsubscribeAll() {
         api_base.clearSubscriptions();
     }
+
+    /**
+     * Serve tick subscriptions from the active tick replay, shaped like Deriv responses
+     */
+    private async subscribeToReplayTicks(symbol: string, callback: (data: TTicksSubscribeResponse) => void) {
+        const id = `replay-${symbol}-${this.replaySubscriptions.size + 1}-${Date.now()}`;
+
+        const unsubscribe = await tickSourceService.subscribe(symbol, tick =>
+            callback({
+                tick: {
+                    ask: tick.quote,
+                    bid: tick.quote,
+                    epoch: tick.epoch,
+                    id,
+                    pip_size: tick.pipSize ?? 0,
+                    quote: tick.quote,
+                    symbol: tick.symbol,
+                },
+                subscription: { id },
+            })
+        );
+
+        this.replaySubscriptions.set(id, unsubscribe);
+        api_base.pushSubscription({
+            id,
+            unsubscribe: () => {
+                unsubscribe();
+                this.replaySubscriptions.delete(id);
+            },
+        });
+
+        return id;
+    }
 }
 
 export const derivAPIService = new DerivAPIService();
@@ -4,6 +4,7 @@
  */
 
 import { RobustDerivConnectionService } from './robust-deriv-connection.service';
+import { TickStreamMultiplexer, TickStreamStats, TickStreamSubscribeOptions } from './tick-stream-multiplexer.service';
 
 export enum ConnectionType {
     CORE = 'core', // Default App ID - unchanged for core features
@@ -23,8 +24,14 @@ interface AppIdConfig {
 class DerivConnectionPoolService {
     private connections: Map<ConnectionType, RobustDerivConnectionService> = new Map();
     private subscriptionCounts: Map<ConnectionType, number> = new Map();
+    private streamConnectionTypes: Map<string, ConnectionType> = new Map();
     private roundRobinIndex: number = 0;
 
+    // One upstream `ticks` subscription per symbol, shared by every consumer in the app
+    private tickStreams = new TickStreamMultiplexer((symbol, onTick, options) =>
+        this.openTickStream(symbol, onTick, options.connectionType)
+    );
+
     // App ID Configuration - TEMPORARY: Use single App ID to resolve connection issues
     private readonly appIdConfigs: AppIdConfig[] = [
         {
@@ -131,48 +138,81 @@ class DerivConnectionPoolService {
     }
 
     /**
-     * Subscribe to ticks with automatic connection selection
+     * Subscribe to ticks, sharing the symbol's upstream stream with every other subscriber
      */
     public async subscribeToTicks(
         symbol: string,
         callback: (tickData: unknown) => void,
-        preferredType?: ConnectionType
+        preferredType?: ConnectionType,
+        options: Omit<TickStreamSubscribeOptions, 'connectionType'> = {}
     ): Promise<() => void> {
-        // Determine which connection to use
-        let connectionType: ConnectionType;
+        const unsubscribe = await this.tickStreams.subscribe(symbol, callback, {
+            ...options,
+            connectionType: preferredType,
+        });
 
-        if (preferredType) {
-            connectionType = preferredType;
-        } else {
-            // Auto-select based on symbol and feature
-            connectionType = this.selectConnectionForSymbol(symbol);
-        }
+        console.log(`👥 ${symbol} listeners: ${this.tickStreams.getListenerCount(symbol)}`);
+        return unsubscribe;
+    }
+
+    /**
+     * Latest ticks of a symbol already streaming through the pool, oldest first
+     */
+    public getRecentTicks(symbol: string, count?: number): unknown[] {
+        return this.tickStreams.getRecentTicks(symbol, count);
+    }
+
+    /**
+     * Live tick streams with their connection type and listener counts
+     */
+    public getTickStreamStats(): Array<TickStreamStats & { connectionType?: ConnectionType }> {
+        return this.tickStreams.getStats().map(stream => ({
+            ...stream,
+            connectionType: this.streamConnectionTypes.get(stream.symbol),
+        }));
+    }
 
+    /**
+     * Open the upstream subscription behind a shared tick stream
+     */
+    private async openTickStream(
+        symbol: string,
+        onTick: (tickData: unknown) => void,
+        preferredType?: ConnectionType
+    ): Promise<() => void> {
+        // Determine which connection to use
+        const connectionType = preferredType || this.selectConnectionForSymbol(symbol);
         const connection = this.getConnection(connectionType);
 
         // Increment subscription count
         const currentCount = this.subscriptionCounts.get(connectionType) || 0;
         this.subscriptionCounts.set(connectionType, currentCount + 1);
+        this.streamConnectionTypes.set(symbol, connectionType);
 
         console.log(
             `📡 Subscribing to ${symbol} via ${connectionType.toUpperCase()} (${this.getAppId(connectionType)})`
         );
         console.log(`📊 ${connectionType} load: ${currentCount + 1}/${this.getMaxSubscriptions(connectionType)}`);
 
+        const release = () => {
+            const count = this.subscriptionCounts.get(connectionType) || 0;
+            this.subscriptionCounts.set(connectionType, Math.max(0, count - 1));
+            this.streamConnectionTypes.delete(symbol);
+            return count - 1;
+        };
+
         try {
-            const unsubscribe = await connection.subscribeToTicks(symbol, callback);
+            const unsubscribe = await connection.subscribeToTicks(symbol, onTick);
 
-            // Return wrapped unsubscribe function that decrements count
+            // Called once the last listener leaves, which forgets the upstream stream
             return () => {
-                const count = this.subscriptionCounts.get(connectionType) || 0;
-                this.subscriptionCounts.set(connectionType, Math.max(0, count - 1));
-                console.log(`🔇 Unsubscribed from ${symbol} (${connectionType} load: ${count - 1})`);
+                const count = release();
+                console.log(`🔇 Unsubscribed from ${symbol} (${connectionType} load: ${count})`);
                 unsubscribe();
             };
         } catch (error) {
             // Decrement count on error
-            const count = this.subscriptionCounts.get(connectionType) || 0;
-            this.subscriptionCounts.set(connectionType, Math.max(0, count - 1));
+            release();
             throw error;
         }
     }
@@ -219,6 +259,9 @@ class DerivConnectionPoolService {
         this.appIdConfigs.forEach(config => {
             const connection = this.connections.get(config.type);
             const subscriptionCount = this.subscriptionCounts.get(config.type) || 0;
+            const listeners = this.getTickStreamStats()
+                .filter(stream => stream.connectionType === config.type)
+                .reduce((total, stream) => total + stream.listeners, 0);
 
             stats[config.type] = {
                 appId: config.appId,
@@ -226,6 +269,7 @@ class DerivConnectionPoolService {
                 features: config.features,
                 isConnected: connection?.isConnectionActive() || false,
                 subscriptions: subscriptionCount,
+                listeners,
                 maxSubscriptions: config.maxConcurrentSubscriptions,
                 loadPercentage: Math.round((subscriptionCount / config.maxConcurrentSubscriptions) * 100),
                 connectionStats: connection?.getConnectionStats(),
@@ -255,6 +299,8 @@ class DerivConnectionPoolService {
             totalConnections: this.connections.size,
             activeConnections: 0,
             totalSubscriptions: 0,
+            totalListeners: this.tickStreams.getListenerCount(),
+            tickStreams: this.getTickStreamStats(),
             connectionDetails: {} as Record<string, any>,
         };
 
@@ -303,7 +349,7 @@ class DerivConnectionPoolService {
         setInterval(() => {
             const health = this.getHealthStatus();
             console.log(
-                `💓 Health: ${health.activeConnections}/${health.totalConnections} connections active, ${health.totalSubscriptions} total subscriptions`
+                `💓 Health: ${health.activeConnections}/${health.totalConnections} connections active, ${health.totalSubscriptions} total subscriptions, ${health.totalListeners} listeners`
             );
         }, 60000); // Every minute
     }
@@ -313,9 +359,11 @@ class DerivConnectionPoolService {
      */
     public destroy(): void {
         console.log('🧹 Destroying connection pool...');
+        this.tickStreams.destroy();
         this.connections.forEach(connection => connection.destroy());
         this.connections.clear();
         this.subscriptionCounts.clear();
+        this.streamConnectionTypes.clear();
     }
 }
 
@@ -4,8 +4,16 @@
  * Focuses on mathematical probability corrections and statistical arbitrage
  */
 
+import {
+    analyzeDigitSignificance,
+    applyMultipleComparisonCorrection,
+    describeSignificance,
+    DigitSignificance,
+} from '../utils/digit-statistics';
 import { ensembleStrategy } from '../utils/prediction-algorithms';
 import { derivAPIService } from './deriv-api.service';
+import { DEFAULT_SIGNAL_HORIZON, signalScorecardService } from './signal-scorecard.service';
+import { symbolMetadataService } from './symbol-metadata.service';
 import { api_base } from '@/external/bot-skeleton/services/api/api-base';
 
 export interface DigitDistributionAnalysis {
@@ -60,6 +68,7 @@ export interface DigitDistributionSignal {
         underrepresentedDigits: DigitDistributionAnalysis[];
         overrepresentedDigits: DigitDistributionAnalysis[];
     };
+    significance?: DigitSignificance; // Corrected across the markets of the scan that produced the signal
 }
 
 interface TickData {
@@ -103,6 +112,9 @@ class DigitDistributionScannerService {
     private readonly MIN_Z_SCORE = 1.5; // Reduced from 1.96 to 1.5 for more flexibility
     private readonly MIN_SAMPLE_SIZE = 50; // Reduced from 100 to 50 for more market coverage
 
+    // Significance of every market analysed in the current scan, for multiple-comparison correction
+    private scanSignificance = new Map<string, DigitSignificance>();
+
     /**
      * Analyze market state for filtering signals
      */
@@ -272,6 +284,7 @@ class DigitDistributionScannerService {
         console.log('📊 [PATEL DISTRIBUTION] Markets to scan:', this.MARKETS_TO_SCAN.length);
 
         const signals: Array<{ signal: DigitDistributionSignal; score: number }> = [];
+        this.scanSignificance.clear();
 
         for (const market of this.MARKETS_TO_SCAN) {
             try {
@@ -322,6 +335,9 @@ class DigitDistributionScannerService {
             }
         }
 
+        // Signals share their market's significance object, so they pick up the correction
+        applyMultipleComparisonCorrection(Array.from(this.scanSignificance.values()));
+
         // Sort by intelligent score instead of simple confidence
         signals.sort((a, b) => b.score - a.score);
 
@@ -349,6 +365,18 @@ class DigitDistributionScannerService {
                 `🎯 [PATEL DISTRIBUTION] Recommendation: ${bestSignal.recommendation.action} ${bestSignal.recommendation.barrier}`
             );
             console.log(`🎯 [PATEL DISTRIBUTION] Reasoning: ${bestSignal.recommendation.reasoning}`);
+            if (bestSignal.significance) {
+                console.log(`📐 [PATEL DISTRIBUTION] ${describeSignificance(bestSignal.significance)}`);
+            }
+
+            signalScorecardService.recordSignal({
+                generator: 'digit-distribution',
+                market: bestSignal.market,
+                contractType: `DIGIT${bestSignal.recommendation.action}`,
+                barrier: bestSignal.recommendation.barrier,
+                horizonTicks: DEFAULT_SIGNAL_HORIZON,
+                confidence: bestSignal.recommendation.confidence,
+            });
         } else {
             console.log(
                 '❌ [PATEL DISTRIBUTION] No suitable Distribution Deviation opportunities found (enhanced filtering applied)'
@@ -376,6 +404,11 @@ class DigitDistributionScannerService {
             }
 
             const currentPrice = tickData[tickData.length - 1].quote;
+            const significance = analyzeDigitSignificance(
+                tickData.map(tick => tick.lastDigit),
+                tickData.map(tick => tick.quote)
+            );
+            this.scanSignificance.set(symbol, significance);
 
             // Perform digit distribution analysis
             const distributionAnalysis = this.analyzeDigitDistribution(tickData);
@@ -483,6 +516,10 @@ class DigitDistributionScannerService {
                 console.log(`  ℹ️ [${name}] No strategy matched criteria`);
             }
 
+            if (signal) {
+                signal.significance = significance;
+            }
+
             return signal;
         } catch (error) {
             console.error(`  ❌ [${name}] Error analyzing:`, error);
@@ -508,10 +545,11 @@ class DigitDistributionScannerService {
             });
 
             if (response.history && response.history.prices && response.history.times) {
+                symbolMetadataService.recordPipSize(symbol, response.pip_size);
                 const ticks = response.history.prices.map((price: number, index: number) => ({
                     epoch: response.history!.times[index],
                     quote: price,
-                    lastDigit: this.extractLastDigit(price),
+                    lastDigit: symbolMetadataService.getLastDigit(price, symbol),
                     source: 'historical' as const,
                     localTime: new Date(response.history!.times[index] * 1000).toLocaleTimeString(),
                 }));
@@ -529,15 +567,6 @@ class DigitDistributionScannerService {
         }
     }
 
-    /**
-     * Extract last digit from price
-     */
-    private extractLastDigit(price: number): number {
-        const priceStr = Math.abs(price).toString();
-        const lastChar = priceStr.charAt(priceStr.length - 1);
-        return parseInt(lastChar, 10);
-    }
-
     /**
      * Analyze digit distribution with statistical metrics
      */
@@ -177,11 +177,6 @@ class EnhancedConnectionManagerService {
             }
         });
 
-        // Setup service worker for background connectivity (if available)
-        if ('serviceWorker' in navigator) {
-            this.setupServiceWorkerConnection();
-        }
-
         // Setup periodic connection validation
         setInterval(() => {
             this.validateConnectionIntegrity();
@@ -301,17 +296,6 @@ class EnhancedConnectionManagerService {
         return false; // Placeholder
     }
 
-    /**
-     * Setup service worker for background connectivity
-     */
-    private setupServiceWorkerConnection(): void {
-        navigator.serviceWorker.register('/sw.js').then(() => {
-            console.log('👷 Service worker registered for background connectivity');
-        }).catch(() => {
-            console.log('👷 Service worker not available');
-        });
-    }
-
     /**
      * Validate connection integrity
      */
@@ -1,9 +1,11 @@
 import { makeAutoObservable } from 'mobx';
 import { FastLaneStore } from '@/stores/fast-lane-store';
 import type { BuyRequest, ProposalRequest, StrategyDecision } from '@/types/fast-lane.types';
+import { TradingState } from '@/types/fast-lane.types';
 import { FastLaneStateMachine } from './fast-lane-state-machine.service';
 import { FastLaneWebSocketService } from './fast-lane-websocket.service';
 import { masterTradeIntegrationService } from './master-trade-integration.service';
+import { riskPolicyService } from './risk-policy.service';
 
 /**
  * Executor Service
@@ -15,6 +17,7 @@ export class FastLaneExecutor {
     private wsService: FastLaneWebSocketService;
     private stateMachine: FastLaneStateMachine;
     private currentProposalId: string | null = null;
+    private riskTicket: string | undefined;
 
     constructor(store: FastLaneStore, wsService: FastLaneWebSocketService, stateMachine: FastLaneStateMachine) {
         this.store = store;
@@ -119,6 +122,19 @@ export class FastLaneExecutor {
      * Buy a contract
      */
     async buyContract(proposalId: string, price: number): Promise<void> {
+        const reservation = riskPolicyService.authorize({
+            source: 'FAST_LANE',
+            stake: price,
+            balance: this.store.balance?.balance,
+            symbol: this.store.config.symbol,
+        });
+        if (!reservation.allowed) {
+            this.store.addLog('warning', `Trade blocked: ${reservation.reason}`);
+            this.stateMachine.transition(TradingState.IDLE);
+            return;
+        }
+        this.riskTicket = reservation.ticket;
+
         try {
             // Transition to BUYING state
             this.stateMachine.transitionTo('BUYING');
@@ -135,6 +151,8 @@ export class FastLaneExecutor {
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : 'Unknown error';
             this.store.addLog('error', `Buy failed: ${errorMsg}`);
+            riskPolicyService.cancel(this.riskTicket);
+            this.riskTicket = undefined;
             this.stateMachine.transitionTo('ERROR');
             throw error;
         }
@@ -149,6 +167,8 @@ export class FastLaneExecutor {
         try {
             if (buy.error) {
                 this.store.addLog('error', `Buy error: ${buy.error.message}`);
+                riskPolicyService.cancel(this.riskTicket);
+                this.riskTicket = undefined;
                 this.stateMachine.transitionTo('ERROR');
                 return;
             }
@@ -156,6 +176,9 @@ export class FastLaneExecutor {
             const buyData = buy.buy;
             const contractId = buyData.contract_id;
 
+            riskPolicyService.confirm(this.riskTicket, contractId, buyData.buy_price);
+            this.riskTicket = undefined;
+
             this.store.addLog('success', `Contract purchased: ID=${contractId}, Buy Price=${buyData.buy_price}`);
 
             // 🔗 COPY TRADING INTEGRATION: Execute copy trades for clients
@@ -239,6 +262,7 @@ export class FastLaneExecutor {
             // If contract is settled, return to IDLE
             if (status === 'sold' || status === 'lost' || status === 'won') {
                 this.store.addLog(profit >= 0 ? 'success' : 'error', `Contract settled: Profit=${profit}`);
+                riskPolicyService.recordResult({ contractId }, profit || 0);
 
                 // Unsubscribe from contract updates
                 this.wsService.send({
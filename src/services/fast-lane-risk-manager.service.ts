@@ -1,11 +1,13 @@
 import { makeAutoObservable } from 'mobx';
 import { FastLaneStore } from '@/stores/fast-lane-store';
 import type { TradeDecision } from '@/types/fast-lane.types';
+import { riskPolicyService } from './risk-policy.service';
 
 /**
  * Risk Manager Service
  * Gates all trade execution with safety checks
  * Enforces rate limits, balance checks, and risk controls
+ * Account-wide limits come from the shared risk policy
  */
 export class FastLaneRiskManager {
     private store: FastLaneStore;
@@ -35,6 +37,17 @@ export class FastLaneRiskManager {
             return balanceCheck;
         }
 
+        // Check account risk policy
+        const policyDecision = riskPolicyService.check({
+            source: 'FAST_LANE',
+            stake: this.store.config.stake,
+            balance: this.store.balance?.balance,
+            symbol: this.store.config.symbol,
+        });
+        if (!policyDecision.allowed) {
+            return { allowed: false, reason: policyDecision.reason };
+        }
+
         // Check rate limits
         const rateLimitCheck = this.checkRateLimits();
         if (!rateLimitCheck.allowed) {
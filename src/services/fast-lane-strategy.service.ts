@@ -1,5 +1,6 @@
 import { makeAutoObservable } from 'mobx';
 import type { StrategyConfig, StrategyDecision, TickData } from '@/types/fast-lane.types';
+import { symbolMetadataService } from './symbol-metadata.service';
 
 /**
  * Strategy Service
@@ -54,7 +55,7 @@ export class FastLaneStrategy {
      * Trade when last digit is likely to be over barrier
      */
     private evaluateDigitOver(tick: TickData, config: StrategyConfig): StrategyDecision {
-        const lastDigit = this.getLastDigit(tick.quote);
+        const lastDigit = this.getLastDigit(tick);
         const barrier = config.barrier || 5;
 
         // Simple pattern: if recent digits show upward trend
@@ -82,7 +83,7 @@ export class FastLaneStrategy {
      * Trade when last digit is likely to be under barrier
      */
     private evaluateDigitUnder(tick: TickData, config: StrategyConfig): StrategyDecision {
-        const lastDigit = this.getLastDigit(tick.quote);
+        const lastDigit = this.getLastDigit(tick);
         const barrier = config.barrier || 5;
 
         const recentDigits = this.getRecentDigits(5);
@@ -183,9 +184,8 @@ export class FastLaneStrategy {
     /**
      * Helper: Extract last digit from quote
      */
-    private getLastDigit(quote: number): number {
-        const quoteStr = quote.toFixed(5);
-        return parseInt(quoteStr[quoteStr.length - 1], 10);
+    private getLastDigit(tick: TickData): number {
+        return symbolMetadataService.getLastDigit(tick.quote, tick.symbol);
     }
 
     /**
@@ -194,7 +194,7 @@ export class FastLaneStrategy {
     private getRecentDigits(count: number): number[] {
         return this.tickHistory
             .slice(-count)
-            .map(tick => this.getLastDigit(tick.quote));
+            .map(tick => this.getLastDigit(tick));
     }
 
     /**
@@ -12,6 +12,7 @@ import {
     TradingMode,
     TradingState,
 } from '@/types/fast-lane.types';
+import { tickSourceService } from './tick-source/tick-source.service';
 import { fastLaneStateMachine } from './fast-lane-state-machine.service';
 
 export class FastLaneWebSocketService {
@@ -21,6 +22,7 @@ export class FastLaneWebSocketService {
     private reconnectDelay = 3000;
     private pingInterval: NodeJS.Timeout | null = null;
     private subscriptions: Map<string, string> = new Map(); // subscription_id -> type
+    private replayUnsubscribe: (() => void) | null = null;
     private store: FastLaneStore;
     // private messageHandlers: Map<string, (data: any) => void> = new Map(); // eslint-disable-line @typescript-eslint/no-explicit-any
 
@@ -127,6 +129,18 @@ export class FastLaneWebSocketService {
      * Subscribe to tick stream
      */
     async subscribeTicks(symbol: string): Promise<boolean> {
+        // A replay moves the state machine to SUBSCRIBED just as a live subscription does
+        await tickSourceService.initialize();
+        if (tickSourceService.isReplayActive()) {
+            this.replayUnsubscribe?.();
+            this.replayUnsubscribe = await tickSourceService.subscribe(symbol, tick =>
+                this.handleTick({ tick: { epoch: tick.epoch, quote: tick.quote, symbol: tick.symbol } })
+            );
+            this.store.addLog('info', `Replaying ${symbol} ticks from ${tickSourceService.getSource().name}`);
+            fastLaneStateMachine.transition(TradingState.SUBSCRIBED);
+            return true;
+        }
+
         return new Promise((resolve, reject) => {
             if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
                 reject(new Error('WebSocket not connected'));
@@ -362,6 +376,9 @@ export class FastLaneWebSocketService {
      * Disconnect
      */
     disconnect(): void {
+        this.replayUnsubscribe?.();
+        this.replayUnsubscribe = null;
+
         if (this.ws) {
             this.stopPing();
             this.ws.close();
@@ -4,6 +4,7 @@
  */
 
 import { derivAPIService } from './deriv-api.service';
+import { DEFAULT_SIGNAL_HORIZON, signalScorecardService } from './signal-scorecard.service';
 
 export interface FibonacciLevel {
     level: number;
@@ -104,6 +105,15 @@ class FibonacciRangingScannerService {
             console.log(
                 `🎯 Best ranging market found: ${bestSignal.marketName} (${bestSignal.confidence.toFixed(1)}% confidence)`
             );
+
+            // The barrier is a price level, so the call is scored as a rise / fall from the entry spot
+            signalScorecardService.recordSignal({
+                generator: 'fibonacci-ranging',
+                market: bestSignal.market,
+                contractType: bestSignal.recommendation.action === 'OVER' ? 'CALL' : 'PUT',
+                horizonTicks: DEFAULT_SIGNAL_HORIZON,
+                confidence: bestSignal.recommendation.confidence,
+            });
         } else {
             console.log('❌ No suitable ranging markets found');
         }
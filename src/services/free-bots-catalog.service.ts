@@ -0,0 +1,130 @@
+/**
+ * Free Bots Catalog Service
+ * Loads the generated bot catalog and the XML it describes, flagging missing or corrupt bot files
+ */
+
+import type { FreeBot, FreeBotCatalog, FreeBotCatalogEntry, FreeBotFilter } from '@/types/free-bots.types';
+
+const CATALOG_URL = 'free-bots-catalog.json';
+const CATALOG_VERSION = 1;
+const DEFAULT_IMAGE = 'default_image_path';
+
+class FreeBotsCatalogService {
+    private catalog: FreeBotCatalog | null = null;
+
+    /**
+     * Fetch the catalog manifest (cached after the first successful load)
+     */
+    async loadCatalog(): Promise<FreeBotCatalog> {
+        if (this.catalog) return this.catalog;
+
+        const response = await fetch(CATALOG_URL);
+        if (!response.ok) {
+            throw new Error(`Free Bots catalog unavailable: ${response.status} ${response.statusText}`);
+        }
+
+        const catalog = (await response.json()) as FreeBotCatalog;
+        if (catalog?.version !== CATALOG_VERSION || !Array.isArray(catalog.bots)) {
+            throw new Error('Free Bots catalog has an unsupported format');
+        }
+
+        this.catalog = catalog;
+        console.log(`📚 Free Bots catalog loaded: ${catalog.bots.length} bots`);
+        return catalog;
+    }
+
+    /**
+     * Load every catalog bot; failed bots come back with a missing/corrupt status instead of being dropped
+     */
+    async loadBots(): Promise<FreeBot[]> {
+        const catalog = await this.loadCatalog();
+        return Promise.all(catalog.bots.map(entry => this.loadBot(entry)));
+    }
+
+    /**
+     * Download a bot's XML and check it against the catalog checksum
+     */
+    async loadBot(entry: FreeBotCatalogEntry): Promise<FreeBot> {
+        const bot: FreeBot = {
+            title: entry.name,
+            image: DEFAULT_IMAGE,
+            filePath: entry.file,
+            xmlContent: '',
+            entry,
+            status: 'ready',
+        };
+
+        let content: ArrayBuffer;
+        try {
+            const response = await fetch(entry.file);
+            if (!response.ok) {
+                console.error(`❌ Free bot ${entry.file} not found (${response.status})`);
+                return { ...bot, status: 'missing', error: `Bot file not found (${response.status})` };
+            }
+            content = await response.arrayBuffer();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Network error';
+            return { ...bot, status: 'missing', error: `Bot file could not be downloaded: ${message}` };
+        }
+
+        const checksum = await this.computeChecksum(content);
+        if (checksum && checksum !== entry.checksum) {
+            console.error(`❌ Free bot ${entry.file} does not match its catalog checksum`);
+            return { ...bot, status: 'corrupt', error: 'Bot file does not match the catalog checksum' };
+        }
+
+        const text = new TextDecoder().decode(content);
+        const xml = new DOMParser().parseFromString(text, 'application/xml');
+        if (xml.getElementsByTagName('parsererror').length > 0) {
+            console.error(`❌ Free bot ${entry.file} is not valid XML`);
+            return { ...bot, status: 'corrupt', error: 'Bot file is not valid XML' };
+        }
+
+        return {
+            ...bot,
+            image: xml.getElementsByTagName('image')[0]?.textContent || DEFAULT_IMAGE,
+            xmlContent: text,
+        };
+    }
+
+    /**
+     * Search by name, category, author, market or contract type, and filter by contract type
+     */
+    filterBots(bots: FreeBot[], filter: FreeBotFilter): FreeBot[] {
+        const query = filter.query?.trim().toLowerCase() ?? '';
+
+        return bots.filter(bot => {
+            if (filter.contractType && !bot.entry.contractTypes.includes(filter.contractType)) {
+                return false;
+            }
+            if (!query) return true;
+
+            const { name, category, author, markets, contractTypes } = bot.entry;
+            return [name, category, author, ...markets, ...contractTypes].some(value =>
+                value.toLowerCase().includes(query)
+            );
+        });
+    }
+
+    /**
+     * Contract types offered by at least one bot
+     */
+    getContractTypes(bots: FreeBot[]): string[] {
+        return Array.from(new Set(bots.flatMap(bot => bot.entry.contractTypes))).sort();
+    }
+
+    /** Private helpers */
+
+    private async computeChecksum(content: ArrayBuffer): Promise<string | null> {
+        const subtle = globalThis.crypto?.subtle;
+        if (!subtle) return null;
+
+        const digest = await subtle.digest('SHA-256', content);
+        const hex = Array.from(new Uint8Array(digest))
+            .map(byte => byte.toString(16).padStart(2, '0'))
+            .join('');
+        return `sha256-${hex}`;
+    }
+}
+
+export const freeBotsCatalogService = new FreeBotsCatalogService();
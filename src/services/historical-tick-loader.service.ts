@@ -4,6 +4,7 @@
  */
 
 import { derivConnectionPool, ConnectionType } from './deriv-connection-pool.service';
+import { symbolMetadataService } from './symbol-metadata.service';
 
 interface HistoricalTickData {
     quote: number;
@@ -55,11 +56,13 @@ export class HistoricalTickLoaderService {
                 throw new Error('Invalid response from ticks_history API');
             }
 
+            symbolMetadataService.recordPipSize(symbol, response.pip_size);
+
             // Process the historical data
             const ticks: HistoricalTickData[] = response.ticks_history.prices.map((price: number, index: number) => {
                 const quote = parseFloat(price.toString());
                 const epoch = response.ticks_history.times[index];
-                const lastDigit = this.extractLastDigit(quote);
+                const lastDigit = symbolMetadataService.getLastDigit(quote, symbol);
                 
                 return {
                     quote,
@@ -134,15 +137,6 @@ export class HistoricalTickLoaderService {
         });
     }
 
-    /**
-     * Extract last digit from quote using the same method as live data
-     */
-    private extractLastDigit(quote: number): number {
-        const quoteStr = quote.toFixed(5);
-        const digitsOnly = quoteStr.replace('.', '');
-        return parseInt(digitsOnly.slice(-1));
-    }
-
     /**
      * Wait for connection to be established
      */
@@ -216,12 +210,14 @@ export class HistoricalTickLoaderService {
             // Generate realistic price movement
             const volatility = this.getVolatility(symbol);
             const randomChange = (Math.random() - 0.5) * volatility;
-            const quote = basePrice + randomChange + (Math.random() * 0.1);
+            const quote = parseFloat(
+                symbolMetadataService.formatQuote(basePrice + randomChange + Math.random() * 0.1, symbol)
+            );
             const epoch = Math.floor((now - (count - i) * 1000) / 1000); // 1 second intervals
-            const lastDigit = this.extractLastDigit(quote);
+            const lastDigit = symbolMetadataService.getLastDigit(quote, symbol);
             
             ticks.push({
-                quote: parseFloat(quote.toFixed(5)),
+                quote,
                 epoch,
                 lastDigit
             });
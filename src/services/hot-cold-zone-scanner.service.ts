@@ -4,8 +4,16 @@
  * Superior to Fibonacci analysis for digit-based trading
  */
 
+import {
+    analyzeDigitSignificance,
+    applyMultipleComparisonCorrection,
+    describeSignificance,
+    DigitSignificance,
+} from '../utils/digit-statistics';
 import { ensembleStrategy } from '../utils/prediction-algorithms';
 import { derivAPIService } from './deriv-api.service';
+import { DEFAULT_SIGNAL_HORIZON, signalScorecardService } from './signal-scorecard.service';
+import { symbolMetadataService } from './symbol-metadata.service';
 
 export interface DigitZoneAnalysis {
     digit: number;
@@ -39,6 +47,7 @@ export interface HotColdZoneSignal {
         meanReversionPotential: number;
         momentumStrength: number;
     };
+    significance?: DigitSignificance; // Corrected across the markets of the scan that produced the signal
 }
 
 interface TickData {
@@ -80,6 +89,9 @@ class HotColdZoneScannerService {
     private readonly HIGH_CONFIDENCE_THRESHOLD = 80; // Premium signals 80%+
     private readonly MIN_SAMPLE_SIZE = 50; // Reduced from 100 to 50 for more market coverage
 
+    // Significance of every market analysed in the current scan, for multiple-comparison correction
+    private scanSignificance = new Map<string, DigitSignificance>();
+
     /**
      * Scan all markets for hot/cold zone opportunities
      */
@@ -87,6 +99,7 @@ class HotColdZoneScannerService {
         console.log('🔥❄️ Scanning markets for Hot/Cold Zone opportunities...');
 
         const signals: Array<{ signal: HotColdZoneSignal; score: number }> = [];
+        this.scanSignificance.clear();
 
         for (const market of this.MARKETS_TO_SCAN) {
             try {
@@ -104,6 +117,9 @@ class HotColdZoneScannerService {
             }
         }
 
+        // Signals share their market's significance object, so they pick up the correction
+        applyMultipleComparisonCorrection(Array.from(this.scanSignificance.values()));
+
         // Sort by intelligent score instead of simple confidence
         signals.sort((a, b) => b.score - a.score);
 
@@ -125,6 +141,18 @@ class HotColdZoneScannerService {
             console.log(
                 `🎯 Best Hot/Cold Zone signal found: ${bestSignal.marketName} - ${bestSignal.signalType} (${bestSignal.confidence.toFixed(1)}% confidence, Score: ${signals[0].score.toFixed(3)}) ${qualityIndicator}`
             );
+            if (bestSignal.significance) {
+                console.log(`📐 ${describeSignificance(bestSignal.significance)}`);
+            }
+
+            signalScorecardService.recordSignal({
+                generator: 'hot-cold-zone',
+                market: bestSignal.market,
+                contractType: `DIGIT${bestSignal.recommendation.action}`,
+                barrier: bestSignal.recommendation.barrier,
+                horizonTicks: DEFAULT_SIGNAL_HORIZON,
+                confidence: bestSignal.recommendation.confidence,
+            });
         } else {
             console.log('❌ No suitable Hot/Cold Zone opportunities found (enhanced filtering applied)');
         }
@@ -168,6 +196,11 @@ class HotColdZoneScannerService {
             }
 
             const currentPrice = tickData[tickData.length - 1].quote;
+            const significance = analyzeDigitSignificance(
+                tickData.map(tick => tick.lastDigit),
+                tickData.map(tick => tick.quote)
+            );
+            this.scanSignificance.set(symbol, significance);
 
             // Perform digit zone analysis
             const zoneAnalysis = this.analyzeDigitZones(tickData);
@@ -215,6 +248,10 @@ class HotColdZoneScannerService {
                 });
             }
 
+            if (signal) {
+                signal.significance = significance;
+            }
+
             // Apply high confidence threshold for premium signals
             if (signal && signal.confidence >= this.HIGH_CONFIDENCE_THRESHOLD) {
                 console.log(
@@ -242,10 +279,11 @@ class HotColdZoneScannerService {
             });
 
             if (response.history && response.history.prices && response.history.times) {
+                symbolMetadataService.recordPipSize(symbol, response.pip_size);
                 const ticks = response.history.prices.map((price: number, index: number) => ({
                     epoch: response.history!.times[index],
                     quote: price,
-                    lastDigit: this.extractLastDigit(price),
+                    lastDigit: symbolMetadataService.getLastDigit(price, symbol),
                     source: 'historical' as const,
                     localTime: new Date(response.history!.times[index] * 1000).toLocaleTimeString(),
                 }));
@@ -259,15 +297,6 @@ class HotColdZoneScannerService {
         }
     }
 
-    /**
-     * Extract last digit from price
-     */
-    private extractLastDigit(price: number): number {
-        const priceStr = Math.abs(price).toString();
-        const lastChar = priceStr.charAt(priceStr.length - 1);
-        return parseInt(lastChar, 10);
-    }
-
     /**
      * Analyze digit zones (hot/cold/neutral)
      */
@@ -0,0 +1,99 @@
+/**
+ * Live Signal Feed Service
+ * Latest signal of the in-app generators per market and contract type, read by the Bot Builder
+ * "Signals" blocks so a running strategy can gate its purchases on them.
+ *
+ * Every generator already reports its signals to the scorecard, which forwards them here.
+ */
+
+import type { SignalGeneratorId, SignalPrediction } from '../types/signal-scorecard.types';
+
+export interface LiveSignal {
+    generator: SignalGeneratorId;
+    market: string;
+    contractType: string;
+    barrier?: number;
+    confidence: number; // 0-100
+    horizonTicks: number;
+    emittedAt: number;
+}
+
+export type LiveSignalField = 'contract_type' | 'barrier' | 'generator' | 'age';
+
+/** Signals older than this no longer count as live */
+export const LIVE_SIGNAL_MAX_AGE_MS = 60 * 1000;
+
+const ANY_CONTRACT = 'any';
+
+class LiveSignalFeedService {
+    private latest = new Map<string, LiveSignal>();
+
+    /**
+     * Keep a signal as the latest for its market, and for its market and contract type
+     */
+    publish(prediction: SignalPrediction): void {
+        if (!prediction.market) return;
+
+        const signal: LiveSignal = {
+            generator: prediction.generator,
+            market: prediction.market,
+            contractType: prediction.contractType,
+            barrier: prediction.barrier,
+            confidence: prediction.confidence <= 1 ? prediction.confidence * 100 : prediction.confidence,
+            horizonTicks: prediction.horizonTicks,
+            emittedAt: Date.now(),
+        };
+
+        this.latest.set(this.getKey(signal.market, ANY_CONTRACT), signal);
+        this.latest.set(this.getKey(signal.market, signal.contractType), signal);
+    }
+
+    /**
+     * Latest live signal for a market, optionally of one contract type
+     */
+    getLatestSignal(market: string, contractType: string = ANY_CONTRACT): LiveSignal | null {
+        const signal = this.latest.get(this.getKey(market, contractType || ANY_CONTRACT));
+        if (!signal || Date.now() - signal.emittedAt > LIVE_SIGNAL_MAX_AGE_MS) return null;
+        return signal;
+    }
+
+    /**
+     * Stated confidence (0-100) of the latest live signal, 0 when there is none
+     */
+    getConfidence(market: string, contractType?: string): number {
+        return this.getLatestSignal(market, contractType)?.confidence ?? 0;
+    }
+
+    /**
+     * One field of the latest live signal, in a form a Blockly block can output
+     */
+    getSignalField(market: string, contractType: string | undefined, field: LiveSignalField): string | number {
+        const signal = this.getLatestSignal(market, contractType);
+        if (!signal) return field === 'barrier' || field === 'age' ? -1 : '';
+
+        switch (field) {
+            case 'contract_type':
+                return signal.contractType;
+            case 'barrier':
+                return signal.barrier ?? -1;
+            case 'generator':
+                return signal.generator;
+            case 'age':
+                return Math.round((Date.now() - signal.emittedAt) / 1000);
+            default:
+                return '';
+        }
+    }
+
+    clear(): void {
+        this.latest.clear();
+    }
+
+    /** Private helpers */
+
+    private getKey(market: string, contractType: string): string {
+        return `${market}:${contractType.toUpperCase()}`;
+    }
+}
+
+export const liveSignalFeedService = new LiveSignalFeedService();
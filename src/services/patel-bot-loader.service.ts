@@ -3,6 +3,8 @@
  * Loads the PATEL (with Entry).xml bot and actually opens it in Bot Builder
  */
 
+import { appEventBus } from './app-event-bus.service';
+
 class PatelBotLoaderService {
     private isLoading = false;
 
@@ -55,13 +57,8 @@ class PatelBotLoaderService {
 
             console.log(`🚀 Dispatching PATEL bot load event with complete data:`, eventData);
 
-            // Dispatch the event for main.tsx to handle
-            const loadEvent = new CustomEvent('LOAD_PATEL_BOT', {
-                detail: eventData,
-                bubbles: true,
-                cancelable: true,
-            });
-            window.dispatchEvent(loadEvent);
+            // Publish the event for main.tsx to handle
+            appEventBus.publish('load.patel.entry.bot', eventData, 'PatelBotLoader');
 
             // Also send as postMessage for iframe compatibility
             if (window.parent !== window) {
@@ -181,41 +178,4 @@ class PatelBotLoaderService {
     }
 }
 
-export const patelBotLoaderService = new PatelBotLoaderService();
-            font-family: 'Inter', sans-serif;
-            font-weight: 600;
-            font-size: 0.875rem;
-            transform: translateX(100%);
-            transition: transform 0.2s ease-out;
-            max-width: 300px;
-        `;
-
-        notification.innerHTML = `🎯 PATEL Bot Loaded for Digit ${digit}`;
-
-        document.body.appendChild(notification);
-
-        // Animate in
-        setTimeout(() => {
-            notification.style.transform = 'translateX(0)';
-        }, 10);
-
-        // Remove after 3 seconds
-        setTimeout(() => {
-            notification.style.transform = 'translateX(100%)';
-            setTimeout(() => {
-                if (notification.parentNode) {
-                    notification.parentNode.removeChild(notification);
-                }
-            }, 200);
-        }, 3000);
-    }
-
-    /**
-     * Get loading status
-     */
-    isCurrentlyLoading(): boolean {
-        return this.isLoading;
-    }
-}
-
 export const patelBotLoaderService = new PatelBotLoaderService();
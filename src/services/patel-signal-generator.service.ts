@@ -9,6 +9,7 @@ import type {
   EntryPattern,
   PatelMetrics,
 } from '../types/patel-signals';
+import { resolveSignalContract, signalScorecardService } from './signal-scorecard.service';
 
 class PatelSignalGeneratorService {
   private static instance: PatelSignalGeneratorService;
@@ -125,9 +126,23 @@ class PatelSignalGeneratorService {
       .sort((a, b) => b.confidencePercentage - a.confidencePercentage)
       .slice(0, this.config.maxSignalsPerHour);
 
+    this.signals.forEach((signal) => this.recordForScorecard(signal));
     this.notifyListeners();
   }
 
+  private recordForScorecard(signal: PatelSignal): void {
+    const contract = resolveSignalContract(signal.type, signal.barrier ?? signal.digit);
+    if (!contract) return;
+
+    signalScorecardService.recordSignal({
+      generator: 'patel',
+      market: signal.market,
+      ...contract,
+      horizonTicks: parseInt(signal.duration, 10),
+      confidence: signal.confidencePercentage,
+    });
+  }
+
   private analyzePatterns(market: Market, digitStats: DigitStats[], ticks: number[]): PatelSignal[] {
     const signals: PatelSignal[] = [];
 
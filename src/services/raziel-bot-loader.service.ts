@@ -3,6 +3,10 @@
  * Handles loading and configuring Raziel Over Under bot with signal parameters
  */
 
+import { DBOT_TABS } from '../constants/bot-contents';
+import type { XmlPatchResult } from '../types/bot-xml-patch.types';
+import { appEventBus } from './app-event-bus.service';
+import { botXmlPatcher } from './bot-xml-patcher.service';
 import { DigitDistributionSignal } from './digit-distribution-scanner.service';
 import { HotColdZoneSignal } from './hot-cold-zone-scanner.service';
 import { botLoadingDebugger } from '../utils/bot-loading-debugger';
@@ -81,6 +85,8 @@ export interface RazielBotConfiguration {
     };
 }
 
+const PUBLISHER = 'RazielBotLoader';
+
 class RazielBotLoaderService {
     private readonly RAZIEL_BOT_FILE = 'Raziel Over Under.xml'; // Changed back from CFX-EvenOdd.xml
 
@@ -122,9 +128,15 @@ class RazielBotLoaderService {
             // Configure bot parameters
             botLoadingDebugger.addStep('xml_config', 'pending', 'Configuring bot parameters');
             botLoadingDebugger.debugXMLConfiguration(botXML, botConfig);
-            const configuredXML = this.configureBotXML(botXML, botConfig);
+            const { xml: configuredXML } = this.configureBotXML(botXML, botConfig);
             botLoadingDebugger.addStep('xml_config', 'success', 'Bot parameters configured');
 
+            if (!(await botXmlPatcher.confirmChanges('Raziel Over Under', botXML, configuredXML))) {
+                botLoadingDebugger.completeDebugging(false, 'Cancelled by user');
+                console.log('🚫 Raziel Over Under bot load cancelled');
+                return;
+            }
+
             // Debug available loading methods
             botLoadingDebugger.debugBotLoadingMethods();
 
@@ -185,9 +197,15 @@ class RazielBotLoaderService {
             // Configure bot parameters
             botLoadingDebugger.addStep('xml_config', 'pending', 'Configuring bot parameters');
             botLoadingDebugger.debugXMLConfiguration(botXML, botConfig);
-            const configuredXML = this.configureBotXML(botXML, botConfig);
+            const { xml: configuredXML } = this.configureBotXML(botXML, botConfig);
             botLoadingDebugger.addStep('xml_config', 'success', 'Bot parameters configured');
 
+            if (!(await botXmlPatcher.confirmChanges('Raziel Over Under', botXML, configuredXML))) {
+                botLoadingDebugger.completeDebugging(false, 'Cancelled by user');
+                console.log('🚫 Raziel Over Under bot load cancelled');
+                return;
+            }
+
             // Debug available loading methods
             botLoadingDebugger.debugBotLoadingMethods();
 
@@ -226,7 +244,11 @@ class RazielBotLoaderService {
             const botXML = await this.loadBotXML(botConfig.botFile);
 
             // Configure bot parameters
-            const configuredXML = this.configureBotXML(botXML, botConfig);
+            const { xml: configuredXML } = this.configureBotXML(botXML, botConfig);
+            if (!(await botXmlPatcher.confirmChanges('Raziel Over Under', botXML, configuredXML))) {
+                console.log('🚫 Raziel Over Under bot load cancelled');
+                return;
+            }
 
             // Load bot into Deriv Bot Builder
             await this.loadBotIntoBuilder(configuredXML, botConfig);
@@ -525,273 +547,55 @@ class RazielBotLoaderService {
     /**
      * Configure bot XML with signal parameters
      */
-    private configureBotXML(xmlContent: string, config: RazielBotConfiguration): string {
-        let configuredXML = xmlContent;
-
-        try {
-            console.log('🔧 Configuring Raziel Over Under bot XML with parameters:', {
-                stake: config.stake,
-                martingale: config.parameters.martingaleSplit,
-                contractType: config.contractType,
-                market: config.market,
-                predictionBeforeLoss: config.parameters.predictionBeforeLoss,
-                predictionAfterLoss: config.parameters.predictionAfterLoss,
-            });
-
-            // Parse XML to modify parameters
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
-
-            // Check for parsing errors
-            const parseError = xmlDoc.querySelector('parsererror');
-            if (parseError) {
-                throw new Error(`XML parsing failed: ${parseError.textContent}`);
-            }
-
-            // Track configuration success
-            const configResults = {
-                market: false,
-                contractType: false,
-                initialStake: false,
-                martingaleSplit: false,
-                predictionBeforeLoss: false,
-                predictionAfterLoss: false,
-                purchaseType: false,
-            };
-
-            // Update market symbol (SYMBOL_LIST field)
-            const symbolField = xmlDoc.querySelector('field[name="SYMBOL_LIST"]');
-            if (symbolField) {
-                symbolField.textContent = config.market;
-                configResults.market = true;
-                console.log(`✅ Updated market symbol to: ${config.market}`);
-            } else {
-                console.warn('❌ Could not find SYMBOL_LIST field');
-            }
-
-            // Update contract type (TYPE_LIST field)
-            const contractField = xmlDoc.querySelector('field[name="TYPE_LIST"]');
-            if (contractField) {
-                contractField.textContent = config.contractType;
-                configResults.contractType = true;
-                console.log(`✅ Updated contract type to: ${config.contractType}`);
-            } else {
-                console.warn('❌ Could not find TYPE_LIST field');
-            }
-
-            // Update initial stake - Raziel Over Under uses specific block IDs
-            const initialStakeBlock = xmlDoc.querySelector('block[id="TDv/W;dNI84TFbp}8X8="] field[name="NUM"]');
-            if (initialStakeBlock) {
-                initialStakeBlock.textContent = config.stake.toString();
-                configResults.initialStake = true;
-                console.log(`✅ Updated initial stake (Stake variable) to: ${config.stake}`);
-            } else {
-                console.warn('❌ Could not find initial stake block');
-                // Try alternative method
-                this.updateStakeWithFallback(xmlDoc, config.stake);
-            }
-
-            // Update initial stake variable (initalStake) - CRITICAL: Both stakes must match!
-            const initalStakeBlock = xmlDoc.querySelector('block[id="9Z%4%dmqCp;/sSt8wGv#"] field[name="NUM"]');
-            if (initalStakeBlock) {
-                initalStakeBlock.textContent = config.stake.toString();
-                console.log(`✅ Updated initalStake variable to: ${config.stake}`);
-            } else {
-                console.warn('❌ Could not find initalStake variable block');
-            }
-
-            // Update martingale split - Raziel Over Under uses specific block ID
-            const martingaleBlock = xmlDoc.querySelector('block[id="Ib,Krc`nUJzn1KMo9)`A"] field[name="NUM"]');
-            if (martingaleBlock) {
-                const martingaleValue =
-                    typeof config.parameters.martingaleSplit === 'number' ? config.parameters.martingaleSplit : 2.2;
-                martingaleBlock.textContent = martingaleValue.toString();
-                configResults.martingaleSplit = true;
-                console.log(`✅ Updated martingale split to: ${martingaleValue}`);
-            } else {
-                console.warn('❌ Could not find martingale split block');
-                // Try fallback method
-                const martingaleValue =
-                    typeof config.parameters.martingaleSplit === 'number' ? config.parameters.martingaleSplit : 2.2;
-                this.updateMartingaleWithFallback(xmlDoc, martingaleValue);
-            }
-
-            // Update prediction before loss
-            const predictionBeforeLossBlock = xmlDoc.querySelector(
-                'block[id="~]Q~lGg)3FCGB95VKA`b"] field[name="NUM"]'
-            );
-            if (predictionBeforeLossBlock) {
-                const predictionValue =
-                    typeof config.parameters.predictionBeforeLoss === 'number'
-                        ? config.parameters.predictionBeforeLoss
-                        : 2;
-                predictionBeforeLossBlock.textContent = predictionValue.toString();
-                configResults.predictionBeforeLoss = true;
-                console.log(`✅ Updated prediction before loss to: ${predictionValue}`);
-            } else {
-                console.warn('❌ Could not find prediction before loss block');
-            }
-
-            // Update prediction after loss
-            const predictionAfterLossBlock = xmlDoc.querySelector('block[id="(6)D~Nlfu/PCG*s5!9Qy"] field[name="NUM"]');
-            if (predictionAfterLossBlock) {
-                const predictionValue =
-                    typeof config.parameters.predictionAfterLoss === 'number'
-                        ? config.parameters.predictionAfterLoss
-                        : 3;
-                predictionAfterLossBlock.textContent = predictionValue.toString();
-                configResults.predictionAfterLoss = true;
-                console.log(`✅ Updated prediction after loss to: ${predictionValue}`);
-            } else {
-                console.warn('❌ Could not find prediction after loss block');
-            }
-
-            // Update purchase type in before_purchase block
-            const purchaseFields = xmlDoc.querySelectorAll('field[name="PURCHASE_LIST"]');
-            purchaseFields.forEach(field => {
-                field.textContent = config.contractType;
-                configResults.purchaseType = true;
-                console.log(`✅ Updated purchase type to: ${config.contractType}`);
-            });
-
-            // Serialize back to string
-            const serializer = new XMLSerializer();
-            configuredXML = serializer.serializeToString(xmlDoc);
-
-            // Log configuration results
-            const successCount = Object.values(configResults).filter(Boolean).length;
-            const totalCount = Object.keys(configResults).length;
-
-            console.log(
-                `🔧 Raziel Over Under Configuration Results: ${successCount}/${totalCount} successful`,
-                configResults
-            );
-
-            if (successCount < totalCount) {
-                console.warn('⚠️ Some XML configurations failed - using string replacement fallback');
-                configuredXML = this.configureXMLWithStringReplacement(configuredXML, config);
-            } else {
-                console.log('✅ Raziel Over Under XML configuration completed successfully');
-            }
-
-            // Validate the configuration
-            this.validateXMLConfiguration(configuredXML, config);
-        } catch (error) {
-            console.warn('Failed to parse/modify Raziel Over Under XML, using string replacement fallback:', error);
-            // Fall back to string replacement if XML parsing fails
-            configuredXML = this.configureXMLWithStringReplacement(xmlContent, config);
-        }
-
-        return configuredXML;
-    }
-
-    /**
-     * Validate that XML configuration was applied correctly
-     */
-    private validateXMLConfiguration(xmlContent: string, config: RazielBotConfiguration): void {
-        try {
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
-
-            // Check stake values
-            const stakeFields = xmlDoc.querySelectorAll('field[name="NUM"]');
-            let stakeFound = false;
-            let martingaleFound = false;
-
-            stakeFields.forEach((field, index) => {
-                const value = field.textContent;
-                if (value === config.stake.toString()) {
-                    stakeFound = true;
-                    console.log(`✅ Stake validation: Found ${value} at position ${index}`);
-                }
-                if (value === config.parameters.martingaleSplit?.toString()) {
-                    martingaleFound = true;
-                    console.log(`✅ Martingale validation: Found ${value} at position ${index}`);
-                }
-            });
-
-            if (!stakeFound) {
-                console.warn(`❌ Stake validation failed: ${config.stake} not found in XML`);
-            }
-            if (!martingaleFound) {
-                console.warn(`❌ Martingale validation failed: ${config.parameters.martingaleSplit} not found in XML`);
-            }
-
-            console.log('🔍 XML Validation Summary:', {
-                stakeConfigured: stakeFound,
-                martingaleConfigured: martingaleFound,
-                expectedStake: config.stake,
-                expectedMartingale: config.parameters.martingaleSplit,
-            });
-        } catch (error) {
-            console.warn('XML validation failed:', error);
-        }
-    }
-
-    /**
-     * Fallback method to configure XML using string replacement
-     */
-    private configureXMLWithStringReplacement(xmlContent: string, config: RazielBotConfiguration): string {
-        let configuredXML = xmlContent;
-
-        try {
-            console.log('🔄 Using string replacement fallback for XML configuration');
-
-            // Replace market symbol
-            configuredXML = configuredXML.replace(
-                /<field name="SYMBOL_LIST">[^<]*<\/field>/,
-                `<field name="SYMBOL_LIST">${config.market}</field>`
-            );
-
-            // Replace stake values - target the specific blocks
-            // Update initial stake (first occurrence with value 2)
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="TDv\/W;dNI84TFbp}8X8=">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${config.stake}$2`
-            );
-
-            // Update initial stake variable (second occurrence with value 2) - CRITICAL: Both stakes must match!
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="9Z%4%dmqCp;\/sSt8wGv#">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${config.stake}$2`
-            );
-
-            // Update martingale split value
-            const martingaleValue =
-                typeof config.parameters.martingaleSplit === 'number' ? config.parameters.martingaleSplit : 2.2;
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="Ib,Krc`nUJzn1KMo9\)`A">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${martingaleValue}$2`
-            );
-
-            // Update prediction before loss
-            const predictionBeforeLoss =
-                typeof config.parameters.predictionBeforeLoss === 'number' ? config.parameters.predictionBeforeLoss : 2;
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="~\]Q~lGg\)3FCGB95VKA`b">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${predictionBeforeLoss}$2`
-            );
+    private configureBotXML(xmlContent: string, config: RazielBotConfiguration): XmlPatchResult {
+        const { martingaleSplit, predictionBeforeLoss, predictionAfterLoss } = config.parameters;
+        const martingale = typeof martingaleSplit === 'number' ? martingaleSplit : 2.2;
+        const beforeLoss = typeof predictionBeforeLoss === 'number' ? predictionBeforeLoss : 2;
+        const afterLoss = typeof predictionAfterLoss === 'number' ? predictionAfterLoss : 3;
+
+        console.log('🔧 Configuring Raziel Over Under bot XML with parameters:', {
+            stake: config.stake,
+            martingale,
+            contractType: config.contractType,
+            market: config.market,
+            predictionBeforeLoss: beforeLoss,
+            predictionAfterLoss: afterLoss,
+        });
 
-            // Update prediction after loss
-            const predictionAfterLoss =
-                typeof config.parameters.predictionAfterLoss === 'number' ? config.parameters.predictionAfterLoss : 3;
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="\(6\)D~Nlfu\/PCG\*s5!9Qy">[\s]*<field name="NUM">)3(<\/field>)/,
-                `$1${predictionAfterLoss}$2`
-            );
+        const result = botXmlPatcher.patch(xmlContent, [
+            {
+                parameter: 'market',
+                value: config.market,
+                target: { blockType: 'trade_definition_market', field: 'SYMBOL_LIST' },
+            },
+            {
+                parameter: 'contractType',
+                value: config.contractType,
+                target: { blockType: 'trade_definition_contracttype', field: 'TYPE_LIST' },
+            },
+            {
+                parameter: 'purchaseType',
+                value: config.contractType,
+                target: { blockType: 'purchase', field: 'PURCHASE_LIST' },
+            },
+            { parameter: 'stake', value: config.stake, target: { variableName: 'Stake' } },
+            // CRITICAL: Both stakes must match!
+            { parameter: 'initialStake', value: config.stake, target: { variableName: 'initalStake' } },
+            { parameter: 'martingaleSplit', value: martingale, target: { variableName: 'Martingale split' } },
+            {
+                parameter: 'predictionBeforeLoss',
+                value: beforeLoss,
+                target: { variableName: 'Prediction before loss' },
+            },
+            { parameter: 'predictionAfterLoss', value: afterLoss, target: { variableName: 'prediction after loss' } },
+        ]);
 
-            console.log('✅ String replacement configuration completed with values:', {
-                stake: config.stake,
-                initalStake: config.stake, // Both stakes now match
-                martingale: martingaleValue,
-                predictionBeforeLoss,
-                predictionAfterLoss,
-            });
-        } catch (error) {
-            console.warn('String replacement also failed:', error);
+        if (result.error) {
+            throw new Error(result.error);
         }
 
-        return configuredXML;
+        console.log(`🔧 Raziel Over Under configuration: ${result.changes.length} fields changed`, result.changes);
+        return result;
     }
 
     /**
@@ -810,8 +614,9 @@ class RazielBotLoaderService {
             }
 
             // Method 3: Dispatch custom event for any listening components
-            const loadEvent = new CustomEvent('load.fibonacci.bot', {
-                detail: {
+            appEventBus.publish(
+                'load.fibonacci.bot',
+                {
                     xmlContent: xmlContent,
                     botName: 'Raziel Over Under Hot/Cold Zone',
                     market: config.market,
@@ -822,8 +627,8 @@ class RazielBotLoaderService {
                     parameters: config.parameters,
                     source: 'hot-cold-zone-scanner',
                 },
-            });
-            window.dispatchEvent(loadEvent);
+                PUBLISHER
+            );
 
             // Method 4: AUTO-RUN - Start the bot automatically after loading
             await this.autoStartBot();
@@ -843,19 +648,14 @@ class RazielBotLoaderService {
         try {
             console.log('🎯 Navigating to Free Bots section...');
 
-            // Navigate to Free Bots tab (index 7)
-            const switchTabEvent = new CustomEvent('switch.tab', {
-                detail: { tab: 7 }, // FREE_BOTS is at index 7
-                bubbles: true,
-                cancelable: true,
-            });
-            window.dispatchEvent(switchTabEvent);
+            // Navigate to Free Bots tab
+            appEventBus.publish('switch.tab', { tab: DBOT_TABS.FREE_BOTS }, PUBLISHER);
 
             // Also try direct dashboard store access if available
             if (typeof window !== 'undefined') {
                 const windowGlobals = window as unknown as WindowGlobals;
                 if (windowGlobals.dashboard_store?.setActiveTab) {
-                    windowGlobals.dashboard_store.setActiveTab(7); // FREE_BOTS tab
+                    windowGlobals.dashboard_store.setActiveTab(DBOT_TABS.FREE_BOTS);
                     console.log('✅ Switched to Free Bots tab via dashboard store');
                 }
             }
@@ -908,15 +708,11 @@ class RazielBotLoaderService {
             }
 
             // Dispatch event to load the bot as final fallback
-            const loadBotEvent = new CustomEvent('load.bot.from.freebots', {
-                detail: {
-                    bot: botObject,
-                    source: 'hot-cold-zone-scanner',
-                },
-                bubbles: true,
-                cancelable: true,
-            });
-            window.dispatchEvent(loadBotEvent);
+            appEventBus.publish(
+                'load.bot.from.freebots',
+                { bot: botObject, source: 'hot-cold-zone-scanner' },
+                PUBLISHER
+            );
 
             console.log('✅ Raziel Over Under bot loading initiated from Free Bots');
         } catch (error) {
@@ -1073,12 +869,7 @@ class RazielBotLoaderService {
             }
 
             // Method 3: Dispatch run event
-            const runEvent = new CustomEvent('bot.run', {
-                detail: { source: 'raziel-auto-start' },
-                bubbles: true,
-                cancelable: true,
-            });
-            window.dispatchEvent(runEvent);
+            appEventBus.publish('bot.run', { source: 'raziel-auto-start' }, PUBLISHER);
 
             // Method 4: Try keyboard shortcut (F2 is common for Run)
             const keyEvent = new KeyboardEvent('keydown', {
@@ -1112,49 +903,6 @@ class RazielBotLoaderService {
             'Raziel-Over-Under-Step4.xml',
         ];
     }
-
-    /**
-     * Fallback method to update stake using alternative selectors
-     */
-    private updateStakeWithFallback(xmlDoc: Document, stake: number): void {
-        // Try to find stake blocks by variable name
-        const stakeVariableBlocks = xmlDoc.querySelectorAll('field[name="VAR"]');
-
-        stakeVariableBlocks.forEach(varField => {
-            if (varField.textContent === 'Stake' || varField.getAttribute('id') === 'y)BE|l7At6oT)ur0Dsw?') {
-                const block = varField.closest('block');
-                const numField = block?.querySelector(
-                    'value[name="VALUE"] block[type="math_number"] field[name="NUM"]'
-                );
-                if (numField) {
-                    numField.textContent = stake.toString();
-                    console.log(`✅ Updated stake via fallback method: ${stake}`);
-                }
-            }
-        });
-    }
-
-    /**
-     * Fallback method to update martingale using alternative selectors
-     */
-    private updateMartingaleWithFallback(xmlDoc: Document, martingale: number): void {
-        // Try to find martingale blocks by variable name
-        const martingaleVariableBlocks = xmlDoc.querySelectorAll('field[name="VAR"]');
-
-        martingaleVariableBlocks.forEach(varField => {
-            if (varField.textContent === 'Martingale split' || varField.getAttribute('id') === '.5ELQ4[J.e4czk,qPqKM') {
-                const block = varField.closest('block');
-                const numField = block?.querySelector(
-                    'value[name="VALUE"] block[type="math_number"] field[name="NUM"]'
-                );
-                if (numField) {
-                    const martingaleValue = typeof martingale === 'number' ? martingale : 2.2;
-                    numField.textContent = martingaleValue.toString();
-                    console.log(`✅ Updated martingale via fallback method: ${martingaleValue}`);
-                }
-            }
-        });
-    }
 }
 
 export const razielBotLoaderService = new RazielBotLoaderService();
@@ -5,6 +5,7 @@
  */
 
 import { DBOT_TABS } from '../constants/bot-contents';
+import { appEventBus } from './app-event-bus.service';
 
 interface WindowGlobals {
     dashboard_store?: {
@@ -151,14 +152,9 @@ export class RazielEntryPointBotLoaderService {
                 return;
             }
 
-            // Method 2: Dispatch custom event
-            const switchTabEvent = new CustomEvent('switch.tab', {
-                detail: { tab: DBOT_TABS.BOT_BUILDER },
-                bubbles: true,
-                cancelable: true,
-            });
-            document.dispatchEvent(switchTabEvent);
-            console.log('✅ Dispatched switch tab event for Bot Builder');
+            // Method 2: Publish tab switch event
+            appEventBus.publish('switch.tab', { tab: DBOT_TABS.BOT_BUILDER }, 'RazielEntryPointBotLoader');
+            console.log('✅ Published switch tab event for Bot Builder');
 
             // Small delay to ensure tab switch completes
             await new Promise(resolve => setTimeout(resolve, 500));
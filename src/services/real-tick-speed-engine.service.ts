@@ -5,6 +5,8 @@
 
 import { RealDerivAPIService, TickData, TradeContract } from './real-deriv-api.service';
 import { RiskManagerService, TradeRisk } from './risk-manager.service';
+import { riskPolicyService } from './risk-policy.service';
+import { symbolMetadataService } from './symbol-metadata.service';
 
 export interface RealTickSpeedConfig {
     apiToken: string;
@@ -185,7 +187,7 @@ export class RealTickSpeedEngineService {
         }
 
         // Extract last digit
-        const lastDigit = this.extractLastDigit(tick.tick);
+        const lastDigit = this.extractLastDigit(tick);
         this.digitHistory.push(lastDigit);
         if (this.digitHistory.length > 100) {
             this.digitHistory.shift();
@@ -221,7 +223,7 @@ export class RealTickSpeedEngineService {
             return { action: 'WAIT', confidence: 0, prediction: 0, reasoning: 'Rate limit', tradeType: '' };
         }
 
-        const lastDigit = this.extractLastDigit(tick.tick);
+        const lastDigit = this.extractLastDigit(tick);
 
         switch (this.config.strategy) {
             case 'storm_shadow':
@@ -351,6 +353,15 @@ export class RealTickSpeedEngineService {
                 return;
             }
 
+            const reservation = riskPolicyService.authorize({
+                source: 'TICK_SPEED',
+                stake: this.config.stakeAmount,
+                balance: balance.balance,
+                symbol: this.config.symbol,
+                contractType: signal.tradeType,
+            });
+            if (!reservation.allowed) return;
+
             // Prepare contract
             const contract: TradeContract = {
                 contract_type: signal.tradeType,
@@ -367,9 +378,16 @@ export class RealTickSpeedEngineService {
             };
 
             // Execute trade
-            const result = await this.derivAPI.purchaseContract(contract);
+            const result = await this.derivAPI.purchaseContract(contract).catch(error => {
+                riskPolicyService.cancel(reservation.ticket);
+                throw error;
+            });
+
+            if (!result.buy) {
+                riskPolicyService.cancel(reservation.ticket);
+            } else {
+                riskPolicyService.confirm(reservation.ticket, result.buy.contract_id, result.buy.cost);
 
-            if (result.buy) {
                 const tradeRisk: TradeRisk = {
                     tradeId: result.buy.contract_id.toString(),
                     symbol: this.config.symbol,
@@ -487,11 +505,11 @@ export class RealTickSpeedEngineService {
     }
 
     /**
-     * Extract last digit from price
+     * Extract last digit from a tick at the symbol's pip size
      */
-    private extractLastDigit(price: number): number {
-        const priceStr = price.toString().replace('.', '');
-        return parseInt(priceStr.slice(-1));
+    private extractLastDigit(tick: TickData): number {
+        symbolMetadataService.recordPipSize(tick.symbol, tick.pip_size);
+        return symbolMetadataService.getLastDigit(tick.tick, tick.symbol);
     }
 
     /**
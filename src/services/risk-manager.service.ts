@@ -1,8 +1,12 @@
 /**
  * Risk Manager Service
  * Implements comprehensive risk management for real-world trading
+ *
+ * Limits and daily stats live in the account-scoped risk policy; Tick Speed keeps its own limits for rules the account leaves off.
  */
 
+import { riskPolicyService } from './risk-policy.service';
+
 export interface RiskLimits {
     maxStakePerTrade: number;
     maxDailyLoss: number;
@@ -43,17 +47,8 @@ export interface AccountRisk {
 
 export class RiskManagerService {
     private static instance: RiskManagerService;
-    private riskLimits: RiskLimits;
+    private emergencyStopLoss = 20; // Stop if 20% of balance lost
     private tradeHistory: TradeRisk[] = [];
-    private dailyStats = {
-        date: new Date().toDateString(),
-        totalLoss: 0,
-        totalProfit: 0,
-        tradeCount: 0,
-        consecutiveLosses: 0,
-    };
-    private isEmergencyStop = false;
-    private cooldownUntil = 0;
 
     static getInstance(): RiskManagerService {
         if (!RiskManagerService.instance) {
@@ -63,17 +58,6 @@ export class RiskManagerService {
     }
 
     constructor() {
-        // Default conservative risk limits
-        this.riskLimits = {
-            maxStakePerTrade: 10, // $10 max per trade
-            maxDailyLoss: 100, // $100 max daily loss
-            maxConsecutiveLosses: 5, // Stop after 5 consecutive losses
-            maxOpenPositions: 3, // Max 3 open positions
-            maxDailyTrades: 50, // Max 50 trades per day
-            cooldownPeriod: 5, // 5 minutes cooldown after consecutive losses
-            emergencyStopLoss: 20, // Stop if 20% of balance lost
-        };
-
         this.loadStoredData();
     }
 
@@ -81,94 +65,72 @@ export class RiskManagerService {
      * Configure risk limits
      */
     setRiskLimits(limits: Partial<RiskLimits>): void {
-        this.riskLimits = { ...this.riskLimits, ...limits };
-        this.saveRiskLimits();
+        if (limits.emergencyStopLoss !== undefined) {
+            this.emergencyStopLoss = limits.emergencyStopLoss;
+        }
+
+        riskPolicyService.updatePolicy({
+            ...(limits.maxStakePerTrade !== undefined && { maxStakePerTrade: limits.maxStakePerTrade }),
+            ...(limits.maxDailyLoss !== undefined && { maxDailyLoss: limits.maxDailyLoss }),
+            ...(limits.maxConsecutiveLosses !== undefined && { maxConsecutiveLosses: limits.maxConsecutiveLosses }),
+            ...(limits.maxOpenPositions !== undefined && { maxOpenContracts: limits.maxOpenPositions }),
+            ...(limits.maxDailyTrades !== undefined && { maxDailyTrades: limits.maxDailyTrades }),
+            ...(limits.cooldownPeriod !== undefined && { lossCooldownMinutes: limits.cooldownPeriod }),
+        });
     }
 
     /**
      * Get current risk limits
      */
     getRiskLimits(): RiskLimits {
-        return { ...this.riskLimits };
+        const policy = riskPolicyService.getSourcePolicy('TICK_SPEED');
+
+        return {
+            maxStakePerTrade: policy.maxStakePerTrade,
+            maxDailyLoss: policy.maxDailyLoss,
+            maxConsecutiveLosses: policy.maxConsecutiveLosses,
+            maxOpenPositions: policy.maxOpenContracts,
+            maxDailyTrades: policy.maxDailyTrades,
+            cooldownPeriod: policy.lossCooldownMinutes,
+            emergencyStopLoss: this.emergencyStopLoss,
+        };
     }
 
     /**
      * Validate if a trade can be executed
      */
     validateTrade(amount: number, accountBalance: number): RiskStatus {
-        this.updateDailyStats();
+        const dailyStats = this.getDailyStats();
 
         const status: RiskStatus = {
             canTrade: true,
-            dailyLoss: this.dailyStats.totalLoss,
-            consecutiveLosses: this.dailyStats.consecutiveLosses,
-            openPositions: this.getOpenPositionsCount(),
-            dailyTrades: this.dailyStats.tradeCount,
+            dailyLoss: dailyStats.totalLoss,
+            consecutiveLosses: dailyStats.consecutiveLosses,
+            openPositions: dailyStats.openPositions,
+            dailyTrades: dailyStats.tradeCount,
             lastTradeTime: this.getLastTradeTime(),
             riskLevel: this.calculateRiskLevel(accountBalance),
         };
 
-        // Check emergency stop
-        if (this.isEmergencyStop) {
+        const decision = riskPolicyService.check({ source: 'TICK_SPEED', stake: amount, balance: accountBalance });
+        if (!decision.allowed) {
             status.canTrade = false;
-            status.reason = 'Emergency stop activated - contact support';
-            return status;
-        }
-
-        // Check cooldown period
-        if (Date.now() < this.cooldownUntil) {
-            status.canTrade = false;
-            status.reason = `Cooldown period active until ${new Date(this.cooldownUntil).toLocaleTimeString()}`;
-            return status;
-        }
-
-        // Check stake amount
-        if (amount > this.riskLimits.maxStakePerTrade) {
-            status.canTrade = false;
-            status.reason = `Stake amount exceeds limit of $${this.riskLimits.maxStakePerTrade}`;
-            return status;
-        }
-
-        // Check daily loss limit
-        if (this.dailyStats.totalLoss >= this.riskLimits.maxDailyLoss) {
-            status.canTrade = false;
-            status.reason = `Daily loss limit of $${this.riskLimits.maxDailyLoss} reached`;
-            return status;
-        }
-
-        // Check consecutive losses
-        if (this.dailyStats.consecutiveLosses >= this.riskLimits.maxConsecutiveLosses) {
-            status.canTrade = false;
-            status.reason = `Maximum consecutive losses (${this.riskLimits.maxConsecutiveLosses}) reached`;
-            this.activateCooldown();
-            return status;
-        }
-
-        // Check open positions
-        if (this.getOpenPositionsCount() >= this.riskLimits.maxOpenPositions) {
-            status.canTrade = false;
-            status.reason = `Maximum open positions (${this.riskLimits.maxOpenPositions}) reached`;
-            return status;
-        }
-
-        // Check daily trade limit
-        if (this.dailyStats.tradeCount >= this.riskLimits.maxDailyTrades) {
-            status.canTrade = false;
-            status.reason = `Daily trade limit of ${this.riskLimits.maxDailyTrades} reached`;
+            status.reason = decision.reason;
             return status;
         }
 
         // Check emergency stop loss
-        const balanceLossPercentage = (this.dailyStats.totalLoss / accountBalance) * 100;
-        if (balanceLossPercentage >= this.riskLimits.emergencyStopLoss) {
+        const balanceLossPercentage = (dailyStats.totalLoss / accountBalance) * 100;
+        if (this.emergencyStopLoss > 0 && balanceLossPercentage >= this.emergencyStopLoss) {
             this.activateEmergencyStop();
             status.canTrade = false;
-            status.reason = `Emergency stop: ${this.riskLimits.emergencyStopLoss}% balance loss reached`;
+            status.reason = `Emergency stop: ${this.emergencyStopLoss}% balance loss reached`;
             return status;
         }
 
         // Check if trade would exceed daily loss limit
-        if (this.dailyStats.totalLoss + amount > this.riskLimits.maxDailyLoss) {
+        const { maxDailyLoss } = riskPolicyService.getSourcePolicy('TICK_SPEED');
+        if (maxDailyLoss > 0 && dailyStats.totalLoss + amount > maxDailyLoss) {
             status.canTrade = false;
             status.reason = 'Trade would exceed daily loss limit';
             return status;
@@ -182,7 +144,6 @@ export class RiskManagerService {
      */
     recordTrade(trade: TradeRisk): void {
         this.tradeHistory.push(trade);
-        this.updateDailyStats();
         this.saveTradeHistory();
     }
 
@@ -194,8 +155,10 @@ export class RiskManagerService {
         if (trade) {
             trade.result = result;
             trade.payout = payout || 0;
-            this.updateDailyStats();
             this.saveTradeHistory();
+
+            // Ignored by the policy when the transaction stream already settled it
+            riskPolicyService.recordResult({ contractId: tradeId }, trade.payout - trade.amount);
         }
     }
 
@@ -203,8 +166,10 @@ export class RiskManagerService {
      * Calculate current risk level
      */
     private calculateRiskLevel(accountBalance: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
-        const lossPercentage = (this.dailyStats.totalLoss / accountBalance) * 100;
-        const consecutiveLossRatio = this.dailyStats.consecutiveLosses / this.riskLimits.maxConsecutiveLosses;
+        const { totalLoss, consecutiveLosses } = this.getDailyStats();
+        const { maxConsecutiveLosses } = riskPolicyService.getSourcePolicy('TICK_SPEED');
+        const lossPercentage = (totalLoss / accountBalance) * 100;
+        const consecutiveLossRatio = maxConsecutiveLosses > 0 ? consecutiveLosses / maxConsecutiveLosses : 0;
 
         if (lossPercentage >= 15 || consecutiveLossRatio >= 0.8) {
             return 'CRITICAL';
@@ -217,49 +182,19 @@ export class RiskManagerService {
     }
 
     /**
-     * Update daily statistics
+     * Get daily statistics from the account risk policy
      */
-    private updateDailyStats(): void {
-        const today = new Date().toDateString();
-
-        // Reset stats if new day
-        if (this.dailyStats.date !== today) {
-            this.dailyStats = {
-                date: today,
-                totalLoss: 0,
-                totalProfit: 0,
-                tradeCount: 0,
-                consecutiveLosses: 0,
-            };
-        }
+    private getDailyStats() {
+        const status = riskPolicyService.getStatus();
 
-        // Calculate stats from today's trades
-        const todayTrades = this.tradeHistory.filter(trade => new Date(trade.timestamp).toDateString() === today);
-
-        this.dailyStats.tradeCount = todayTrades.length;
-        this.dailyStats.totalLoss = 0;
-        this.dailyStats.totalProfit = 0;
-        this.dailyStats.consecutiveLosses = 0;
-
-        let consecutiveLosses = 0;
-        for (let i = todayTrades.length - 1; i >= 0; i--) {
-            const trade = todayTrades[i];
-            if (trade.result === 'loss') {
-                this.dailyStats.totalLoss += trade.amount;
-                consecutiveLosses++;
-            } else if (trade.result === 'win') {
-                this.dailyStats.totalProfit += (trade.payout || 0) - trade.amount;
-                break; // Stop counting consecutive losses
-            }
-        }
-        this.dailyStats.consecutiveLosses = consecutiveLosses;
-    }
-
-    /**
-     * Get open positions count
-     */
-    private getOpenPositionsCount(): number {
-        return this.tradeHistory.filter(trade => trade.result === 'pending').length;
+        return {
+            date: new Date().toDateString(),
+            totalLoss: Math.max(0, -status.realizedPnL),
+            totalProfit: Math.max(0, status.realizedPnL),
+            tradeCount: status.dailyTrades,
+            consecutiveLosses: status.consecutiveLosses,
+            openPositions: status.openContracts,
+        };
     }
 
     /**
@@ -270,19 +205,11 @@ export class RiskManagerService {
         return Math.max(...this.tradeHistory.map(trade => trade.timestamp));
     }
 
-    /**
-     * Activate cooldown period
-     */
-    private activateCooldown(): void {
-        this.cooldownUntil = Date.now() + this.riskLimits.cooldownPeriod * 60 * 1000;
-        console.warn(`🚨 Risk cooldown activated until ${new Date(this.cooldownUntil).toLocaleTimeString()}`);
-    }
-
     /**
      * Activate emergency stop
      */
     private activateEmergencyStop(): void {
-        this.isEmergencyStop = true;
+        riskPolicyService.setKillSwitch(true, `${this.emergencyStopLoss}% balance loss reached`);
         console.error('🚨 EMERGENCY STOP ACTIVATED - All trading suspended');
         // Could send notification to user/admin here
     }
@@ -293,7 +220,7 @@ export class RiskManagerService {
     deactivateEmergencyStop(adminCode: string): boolean {
         // In real implementation, verify admin credentials
         if (adminCode === 'ADMIN_OVERRIDE_2024') {
-            this.isEmergencyStop = false;
+            riskPolicyService.setKillSwitch(false);
             console.log('✅ Emergency stop deactivated by admin');
             return true;
         }
@@ -304,30 +231,27 @@ export class RiskManagerService {
      * Get comprehensive risk report
      */
     getRiskReport(accountBalance: number): any {
-        this.updateDailyStats();
+        const dailyStats = this.getDailyStats();
+        const status = riskPolicyService.getStatus();
+        const exposure = this.tradeHistory
+            .filter(trade => trade.result === 'pending')
+            .reduce((sum, trade) => sum + trade.amount, 0);
 
         return {
             riskStatus: this.validateTrade(0, accountBalance),
-            dailyStats: { ...this.dailyStats },
-            riskLimits: { ...this.riskLimits },
+            dailyStats,
+            riskLimits: this.getRiskLimits(),
             accountRisk: {
                 balance: accountBalance,
-                totalExposure: this.getOpenPositionsCount() * this.riskLimits.maxStakePerTrade,
-                riskPercentage: (this.dailyStats.totalLoss / accountBalance) * 100,
+                totalExposure: exposure,
+                riskPercentage: (dailyStats.totalLoss / accountBalance) * 100,
             },
-            emergencyStop: this.isEmergencyStop,
-            cooldownActive: Date.now() < this.cooldownUntil,
-            cooldownUntil: this.cooldownUntil,
+            emergencyStop: status.killSwitch.active,
+            cooldownActive: Date.now() < status.cooldownUntil,
+            cooldownUntil: status.cooldownUntil,
         };
     }
 
-    /**
-     * Save risk limits to localStorage
-     */
-    private saveRiskLimits(): void {
-        localStorage.setItem('tickSpeed_riskLimits', JSON.stringify(this.riskLimits));
-    }
-
     /**
      * Save trade history to localStorage
      */
@@ -342,9 +266,11 @@ export class RiskManagerService {
      */
     private loadStoredData(): void {
         try {
+            // Limits saved before the shared risk policy existed are moved onto it once
             const storedLimits = localStorage.getItem('tickSpeed_riskLimits');
             if (storedLimits) {
-                this.riskLimits = { ...this.riskLimits, ...JSON.parse(storedLimits) };
+                this.setRiskLimits(JSON.parse(storedLimits));
+                localStorage.removeItem('tickSpeed_riskLimits');
             }
 
             const storedHistory = localStorage.getItem('tickSpeed_tradeHistory');
@@ -361,15 +287,8 @@ export class RiskManagerService {
      */
     resetRiskData(): void {
         this.tradeHistory = [];
-        this.dailyStats = {
-            date: new Date().toDateString(),
-            totalLoss: 0,
-            totalProfit: 0,
-            tradeCount: 0,
-            consecutiveLosses: 0,
-        };
-        this.isEmergencyStop = false;
-        this.cooldownUntil = 0;
+        riskPolicyService.resetLossStreak();
+        riskPolicyService.setKillSwitch(false);
         localStorage.removeItem('tickSpeed_tradeHistory');
         console.log('✅ Risk data reset');
     }
@@ -0,0 +1,577 @@
+/**
+ * Risk Policy Service
+ * Single account-scoped gate that every execution path consults before buying
+ *
+ * Limits and daily stats are stored per account, so a limit set from one page stops trading
+ * from every other page on the same account. Results are picked up from the account's
+ * transaction stream; paths trading on other accounts (copy trading) report them explicitly.
+ */
+
+import {
+    ExecutionSource,
+    RiskAccountState,
+    RiskCheckRequest,
+    RiskDecision,
+    RiskPolicy,
+    RiskRule,
+    RiskStatus,
+    RiskStatusListener,
+} from '../types/risk-policy.types';
+
+interface TransactionMessage {
+    action?: string;
+    amount?: number;
+    contract_id?: number | string;
+}
+
+interface MessageSource {
+    onMessage: () => { subscribe: (callback: (message: unknown) => void) => { unsubscribe: () => void } };
+}
+
+const POLICY_KEY_PREFIX = 'risk-policy:';
+const STATE_KEY_PREFIX = 'risk-policy-state:';
+const DEFAULT_ACCOUNT = 'default';
+const PENDING_TICKET_TTL = 30 * 1000; // Unconfirmed reservations are released after 30 seconds
+const OPEN_CONTRACT_TTL = 24 * 60 * 60 * 1000;
+const SETTLED_IDS_LIMIT = 200;
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+    enabled: true,
+    maxDailyLoss: 0,
+    maxConsecutiveLosses: 0,
+    lossCooldownMinutes: 0,
+    maxStakePerTrade: 0,
+    maxStakePercentOfBalance: 0,
+    maxOpenContracts: 0,
+    maxTradesPerMinute: 0,
+    maxTradesPerHour: 0,
+    maxDailyTrades: 0,
+    minTimeBetweenTradesMs: 0,
+};
+
+/**
+ * Limits a path falls back to for rules its account leaves off
+ * Tick Speed keeps the conservative limits it enforced before the shared policy existed
+ */
+export const SOURCE_DEFAULT_LIMITS: Partial<Record<ExecutionSource, Partial<RiskPolicy>>> = {
+    TICK_SPEED: {
+        maxDailyLoss: 100,
+        maxConsecutiveLosses: 5,
+        lossCooldownMinutes: 5,
+        maxStakePerTrade: 10,
+        maxOpenContracts: 3,
+        maxDailyTrades: 50,
+    },
+};
+
+class RiskPolicyService {
+    private policies = new Map<string, RiskPolicy>();
+    private states = new Map<string, RiskAccountState>();
+    private listeners = new Set<RiskStatusListener>();
+    private streamAccountId: string | null = null;
+    private streamSubscription: { unsubscribe: () => void } | null = null;
+    private ticketCounter = 0;
+    private replayName: string | null = null;
+
+    /**
+     * Evaluate a purchase without reserving capacity
+     */
+    check(request: RiskCheckRequest): RiskDecision {
+        const accountId = this.resolveAccountId(request.accountId);
+        const blocked = this.evaluate(accountId, request.stake, request.balance, request.source);
+        return blocked ? { allowed: false, ...blocked } : { allowed: true };
+    }
+
+    /**
+     * Evaluate a purchase and reserve a slot for it when allowed
+     */
+    authorize(request: RiskCheckRequest): RiskDecision {
+        const accountId = this.resolveAccountId(request.accountId);
+        const blocked = this.evaluate(accountId, request.stake, request.balance, request.source);
+
+        if (blocked) {
+            console.warn(`🛡️ ${request.source} trade blocked by risk policy: ${blocked.reason}`);
+            this.notify(accountId);
+            return { allowed: false, ...blocked };
+        }
+
+        const state = this.getState(accountId);
+        const now = Date.now();
+        const ticket = `${accountId}:${now}:${++this.ticketCounter}`;
+
+        state.dailyTrades++;
+        state.lastTradeTime = now;
+        state.tradeTimes.push(now);
+        state.openContracts.push({ ticket, source: request.source, stake: request.stake, openedAt: now });
+
+        this.saveState(state);
+        this.notify(accountId);
+        return { allowed: true, ticket };
+    }
+
+    /**
+     * Link a reservation to the purchased contract
+     */
+    confirm(ticket: string | undefined, contractId: number | string | undefined, buyPrice?: number): void {
+        if (!ticket) return;
+        const state = this.findStateByTicket(ticket);
+        if (!state) return;
+
+        const id = contractId === undefined ? undefined : String(contractId);
+        const reservation = state.openContracts.find(contract => contract.ticket === ticket);
+
+        // The transaction stream may already have registered this contract
+        if (id && state.openContracts.some(contract => contract.contractId === id && contract.ticket !== ticket)) {
+            state.openContracts = state.openContracts.filter(contract => contract.ticket !== ticket);
+        } else if (reservation) {
+            reservation.contractId = id;
+            if (buyPrice !== undefined) reservation.stake = buyPrice;
+        }
+
+        this.saveState(state);
+    }
+
+    /**
+     * Release a reservation whose purchase failed
+     */
+    cancel(ticket: string | undefined): void {
+        if (!ticket) return;
+        const state = this.findStateByTicket(ticket);
+        if (!state) return;
+
+        const reservation = state.openContracts.find(contract => contract.ticket === ticket);
+        state.openContracts = state.openContracts.filter(contract => contract.ticket !== ticket);
+
+        if (reservation && !reservation.contractId) {
+            // A failed buy is not a trade
+            state.dailyTrades = Math.max(0, state.dailyTrades - 1);
+            state.tradeTimes = state.tradeTimes.filter(time => time !== reservation.openedAt);
+        }
+
+        this.saveState(state);
+        this.notify(state.accountId);
+    }
+
+    /**
+     * Record the result of a contract (by contract id or reservation ticket)
+     */
+    recordResult(
+        reference: { contractId?: number | string; ticket?: string; accountId?: string },
+        profit: number
+    ): void {
+        const contractId = reference.contractId === undefined ? undefined : String(reference.contractId);
+        const state = reference.ticket
+            ? this.findStateByTicket(reference.ticket)
+            : this.getState(this.resolveAccountId(reference.accountId));
+        if (!state) return;
+
+        if (contractId && state.settledContractIds.includes(contractId)) return;
+
+        state.openContracts = state.openContracts.filter(
+            contract =>
+                !(
+                    (reference.ticket && contract.ticket === reference.ticket) ||
+                    (contractId && contract.contractId === contractId)
+                )
+        );
+
+        if (contractId) {
+            state.settledContractIds = [...state.settledContractIds, contractId].slice(-SETTLED_IDS_LIMIT);
+        }
+
+        state.realizedPnL = Math.round((state.realizedPnL + profit) * 100) / 100;
+        state.consecutiveLosses = profit < 0 ? state.consecutiveLosses + 1 : 0;
+
+        const policy = this.getPolicy(state.accountId);
+        if (
+            policy.maxConsecutiveLosses > 0 &&
+            state.consecutiveLosses >= policy.maxConsecutiveLosses &&
+            policy.lossCooldownMinutes > 0
+        ) {
+            state.cooldownUntil = Date.now() + policy.lossCooldownMinutes * 60 * 1000;
+        }
+
+        this.saveState(state);
+        this.notify(state.accountId);
+    }
+
+    /**
+     * Follow buys and sells on the account's transaction stream
+     */
+    attachTransactionStream(api: MessageSource | null | undefined, accountId: string): void {
+        this.streamSubscription?.unsubscribe();
+        this.streamSubscription = null;
+        this.streamAccountId = accountId || null;
+
+        if (!api || !accountId) return;
+
+        this.streamSubscription = api.onMessage().subscribe((message: unknown) => {
+            const data = ((message as { data?: unknown })?.data ?? message) as {
+                msg_type?: string;
+                transaction?: TransactionMessage;
+            };
+            if (data?.msg_type === 'transaction' && data.transaction) {
+                this.handleTransaction(accountId, data.transaction);
+            }
+        });
+    }
+
+    /**
+     * Get the policy of an account (the active account by default)
+     */
+    getPolicy(accountId?: string): RiskPolicy {
+        const id = this.resolveAccountId(accountId);
+        let policy = this.policies.get(id);
+
+        if (!policy) {
+            policy = { ...DEFAULT_RISK_POLICY, ...this.readStorage<Partial<RiskPolicy>>(POLICY_KEY_PREFIX + id) };
+            this.policies.set(id, policy);
+        }
+        return { ...policy };
+    }
+
+    /**
+     * Get the limits applied to one execution path: the account policy plus that path's fallback limits
+     */
+    getSourcePolicy(source: ExecutionSource, accountId?: string): RiskPolicy {
+        const policy = this.getPolicy(accountId);
+        const fallback = SOURCE_DEFAULT_LIMITS[source] ?? {};
+
+        (Object.keys(fallback) as (keyof RiskPolicy)[]).forEach(rule => {
+            if (!policy[rule]) Object.assign(policy, { [rule]: fallback[rule] });
+        });
+        return policy;
+    }
+
+    /**
+     * Update the policy of an account (the active account by default)
+     */
+    updatePolicy(updates: Partial<RiskPolicy>, accountId?: string): RiskPolicy {
+        const id = this.resolveAccountId(accountId);
+        const policy = { ...this.getPolicy(id), ...updates };
+
+        this.policies.set(id, policy);
+        this.writeStorage(POLICY_KEY_PREFIX + id, policy);
+        this.notify(id);
+        return { ...policy };
+    }
+
+    /**
+     * Get limits usage for an account
+     */
+    getStatus(accountId?: string): RiskStatus {
+        const id = this.resolveAccountId(accountId);
+        const state = this.getState(id);
+        const now = Date.now();
+        const blocked = this.evaluate(id, 0);
+
+        return {
+            accountId: id,
+            policy: this.getPolicy(id),
+            realizedPnL: state.realizedPnL,
+            dailyTrades: state.dailyTrades,
+            consecutiveLosses: state.consecutiveLosses,
+            openContracts: state.openContracts.length,
+            tradesLastMinute: state.tradeTimes.filter(time => time > now - 60 * 1000).length,
+            tradesLastHour: state.tradeTimes.length,
+            cooldownUntil: state.cooldownUntil,
+            killSwitch: { ...state.killSwitch },
+            blockedBy: blocked ? { rule: blocked.rule, reason: blocked.reason } : undefined,
+        };
+    }
+
+    /**
+     * Stop (or resume) all trading on an account
+     */
+    setKillSwitch(active: boolean, reason?: string, accountId?: string): void {
+        const state = this.getState(this.resolveAccountId(accountId));
+        state.killSwitch = active ? { active, reason, activatedAt: Date.now() } : { active: false };
+
+        console.log(active ? `🛑 Risk kill switch activated: ${reason}` : '✅ Risk kill switch cleared');
+        this.saveState(state);
+        this.notify(state.accountId);
+    }
+
+    /**
+     * Hold every real purchase while ticks come from a recording (null releases the hold)
+     *
+     * Strategies deciding on replayed ticks must never buy on the live account.
+     */
+    setReplayHold(replayName: string | null): void {
+        if (this.replayName === replayName) return;
+
+        this.replayName = replayName;
+        console.log(replayName ? `🎞️ Real trading held during replay "${replayName}"` : '📡 Replay hold released');
+        this.notify(this.resolveAccountId());
+    }
+
+    /**
+     * Clear the loss streak and any loss cooldown
+     */
+    resetLossStreak(accountId?: string): void {
+        const state = this.getState(this.resolveAccountId(accountId));
+        state.consecutiveLosses = 0;
+        state.cooldownUntil = 0;
+
+        this.saveState(state);
+        this.notify(state.accountId);
+    }
+
+    /**
+     * Subscribe to status changes of the active account
+     */
+    subscribe(listener: RiskStatusListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Private helpers
+     */
+    private evaluate(
+        accountId: string,
+        stake: number,
+        balance?: number,
+        source?: ExecutionSource
+    ): { rule: RiskRule; reason: string } | null {
+        const policy = source ? this.getSourcePolicy(source, accountId) : this.getPolicy(accountId);
+        const state = this.getState(accountId);
+        const now = Date.now();
+
+        if (this.replayName !== null) {
+            return {
+                rule: 'REPLAY',
+                reason: `Tick replay "${this.replayName}" is active; switch to live ticks to trade`,
+            };
+        }
+
+        if (state.killSwitch.active) {
+            return {
+                rule: 'KILL_SWITCH',
+                reason: `Trading stopped: ${state.killSwitch.reason || 'kill switch active'}`,
+            };
+        }
+
+        if (!policy.enabled) return null;
+
+        if (policy.maxDailyLoss > 0 && -state.realizedPnL >= policy.maxDailyLoss) {
+            return { rule: 'DAILY_LOSS', reason: `Daily loss limit of ${policy.maxDailyLoss} reached` };
+        }
+
+        // A cooldown only holds the paths that have a loss streak rule
+        if (policy.maxConsecutiveLosses > 0 && state.cooldownUntil > now) {
+            const remaining = Math.ceil((state.cooldownUntil - now) / 1000);
+            return { rule: 'LOSS_COOLDOWN', reason: `Loss streak cooldown active: ${remaining}s remaining` };
+        }
+
+        if (policy.maxConsecutiveLosses > 0 && state.consecutiveLosses >= policy.maxConsecutiveLosses) {
+            if (state.cooldownUntil === 0 && policy.lossCooldownMinutes > 0) {
+                // The streak was reached under a path's fallback limit, so no result has started the cooldown yet
+                state.cooldownUntil = now + policy.lossCooldownMinutes * 60 * 1000;
+                this.saveState(state);
+                this.notify(accountId);
+                return {
+                    rule: 'LOSS_COOLDOWN',
+                    reason: `Loss streak cooldown active: ${policy.lossCooldownMinutes * 60}s remaining`,
+                };
+            }
+
+            if (state.cooldownUntil > 0 && policy.lossCooldownMinutes > 0) {
+                // Cooldown served: start a fresh streak
+                state.consecutiveLosses = 0;
+                state.cooldownUntil = 0;
+                this.saveState(state);
+            } else {
+                return {
+                    rule: 'CONSECUTIVE_LOSSES',
+                    reason: `Maximum consecutive losses (${policy.maxConsecutiveLosses}) reached`,
+                };
+            }
+        }
+
+        if (policy.maxStakePerTrade > 0 && stake > policy.maxStakePerTrade) {
+            return { rule: 'STAKE', reason: `Stake ${stake} exceeds limit of ${policy.maxStakePerTrade}` };
+        }
+
+        if (policy.maxStakePercentOfBalance > 0 && balance !== undefined && balance > 0) {
+            const maxStake = (balance * policy.maxStakePercentOfBalance) / 100;
+            if (stake > maxStake) {
+                return {
+                    rule: 'STAKE_BALANCE',
+                    reason: `Stake ${stake} exceeds ${policy.maxStakePercentOfBalance}% of balance`,
+                };
+            }
+        }
+
+        if (policy.maxOpenContracts > 0 && state.openContracts.length >= policy.maxOpenContracts) {
+            return { rule: 'CONCURRENCY', reason: `Maximum open contracts (${policy.maxOpenContracts}) reached` };
+        }
+
+        const tradesLastMinute = state.tradeTimes.filter(time => time > now - 60 * 1000).length;
+        if (policy.maxTradesPerMinute > 0 && tradesLastMinute >= policy.maxTradesPerMinute) {
+            return {
+                rule: 'RATE_MINUTE',
+                reason: `Rate limit of ${policy.maxTradesPerMinute} trades per minute reached`,
+            };
+        }
+
+        if (policy.maxTradesPerHour > 0 && state.tradeTimes.length >= policy.maxTradesPerHour) {
+            return { rule: 'RATE_HOUR', reason: `Rate limit of ${policy.maxTradesPerHour} trades per hour reached` };
+        }
+
+        if (policy.maxDailyTrades > 0 && state.dailyTrades >= policy.maxDailyTrades) {
+            return { rule: 'DAILY_TRADES', reason: `Daily trade limit of ${policy.maxDailyTrades} reached` };
+        }
+
+        const sinceLastTrade = now - state.lastTradeTime;
+        if (policy.minTimeBetweenTradesMs > 0 && sinceLastTrade < policy.minTimeBetweenTradesMs) {
+            return {
+                rule: 'COOLDOWN',
+                reason: `Cooldown active: ${policy.minTimeBetweenTradesMs - sinceLastTrade}ms remaining`,
+            };
+        }
+
+        return null;
+    }
+
+    private handleTransaction(accountId: string, transaction: TransactionMessage): void {
+        if (transaction.contract_id === undefined) return;
+
+        const state = this.getState(accountId);
+        const contractId = String(transaction.contract_id);
+        const amount = Number(transaction.amount) || 0;
+
+        if (transaction.action === 'buy') {
+            if (state.openContracts.some(contract => contract.contractId === contractId)) return;
+
+            // Attribute the buy to the oldest unconfirmed reservation, or track it as an unmanaged purchase
+            const reservation = state.openContracts.find(contract => !contract.contractId);
+            if (reservation) {
+                reservation.contractId = contractId;
+                reservation.stake = Math.abs(amount) || reservation.stake;
+            } else {
+                const now = Date.now();
+                state.openContracts.push({ contractId, stake: Math.abs(amount), openedAt: now });
+                state.dailyTrades++;
+                state.lastTradeTime = now;
+                state.tradeTimes.push(now);
+            }
+
+            this.saveState(state);
+            this.notify(accountId);
+            return;
+        }
+
+        if (transaction.action === 'sell') {
+            const contract = state.openContracts.find(open => open.contractId === contractId);
+            if (contract) {
+                this.recordResult({ contractId, accountId }, amount - contract.stake);
+            }
+        }
+    }
+
+    private resolveAccountId(accountId?: string): string {
+        if (accountId) return accountId;
+        if (this.streamAccountId) return this.streamAccountId;
+
+        try {
+            return localStorage.getItem('active_loginid') || DEFAULT_ACCOUNT;
+        } catch {
+            return DEFAULT_ACCOUNT;
+        }
+    }
+
+    private getState(accountId: string): RiskAccountState {
+        let state = this.states.get(accountId);
+        const today = new Date().toDateString();
+
+        if (!state) {
+            state = {
+                ...this.createState(accountId, today),
+                ...this.readStorage<Partial<RiskAccountState>>(STATE_KEY_PREFIX + accountId),
+                accountId,
+            };
+            this.states.set(accountId, state);
+        }
+
+        // Daily counters roll over at midnight
+        if (state.date !== today) {
+            state.date = today;
+            state.realizedPnL = 0;
+            state.dailyTrades = 0;
+        }
+
+        const now = Date.now();
+        state.tradeTimes = state.tradeTimes.filter(time => time > now - 60 * 60 * 1000);
+        state.openContracts = state.openContracts.filter(
+            contract => now - contract.openedAt < (contract.contractId ? OPEN_CONTRACT_TTL : PENDING_TICKET_TTL)
+        );
+
+        return state;
+    }
+
+    private createState(accountId: string, date: string): RiskAccountState {
+        return {
+            accountId,
+            date,
+            realizedPnL: 0,
+            dailyTrades: 0,
+            consecutiveLosses: 0,
+            lastTradeTime: 0,
+            tradeTimes: [],
+            cooldownUntil: 0,
+            killSwitch: { active: false },
+            openContracts: [],
+            settledContractIds: [],
+        };
+    }
+
+    private findStateByTicket(ticket: string): RiskAccountState | undefined {
+        for (const state of this.states.values()) {
+            if (state.openContracts.some(contract => contract.ticket === ticket)) {
+                return state;
+            }
+        }
+        return undefined;
+    }
+
+    private saveState(state: RiskAccountState): void {
+        this.writeStorage(STATE_KEY_PREFIX + state.accountId, state);
+    }
+
+    private notify(accountId: string): void {
+        if (accountId !== this.resolveAccountId()) return;
+
+        const status = this.getStatus(accountId);
+        this.listeners.forEach(listener => {
+            try {
+                listener(status);
+            } catch (error) {
+                console.error('❌ Risk policy listener error:', error);
+            }
+        });
+    }
+
+    private readStorage<T>(key: string): T | undefined {
+        try {
+            const saved = localStorage.getItem(key);
+            return saved ? (JSON.parse(saved) as T) : undefined;
+        } catch (error) {
+            console.warn(`⚠️ Failed to load ${key}:`, error);
+            return undefined;
+        }
+    }
+
+    private writeStorage(key: string, value: unknown): void {
+        try {
+            localStorage.setItem(key, JSON.stringify(value));
+        } catch (error) {
+            console.warn(`⚠️ Failed to save ${key}:`, error);
+        }
+    }
+}
+
+// Export singleton instance
+export const riskPolicyService = new RiskPolicyService();
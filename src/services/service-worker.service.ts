@@ -0,0 +1,140 @@
+/**
+ * Service Worker Service
+ * Single registration point for the offline service worker and its "update available" flow
+ *
+ * A new deploy installs in the background and waits; the page shows the update prompt and only
+ * reloads once the user accepts, so a running bot is never interrupted by an update.
+ */
+
+export type ServiceWorkerStatus = 'UNSUPPORTED' | 'DISABLED' | 'REGISTERING' | 'ACTIVE' | 'UPDATE_AVAILABLE' | 'ERROR';
+
+export interface ServiceWorkerState {
+    status: ServiceWorkerStatus;
+    error?: string;
+}
+
+export interface ServiceWorkerRegisterOptions {
+    // Defaults to production builds only; development bundles are not precached
+    enabled?: boolean;
+    scriptUrl?: string;
+}
+
+type ServiceWorkerListener = (state: ServiceWorkerState) => void;
+
+const SERVICE_WORKER_URL = '/service-worker.js';
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+class ServiceWorkerService {
+    private state: ServiceWorkerState = { status: 'DISABLED' };
+    private listeners = new Set<ServiceWorkerListener>();
+    private registration: ServiceWorkerRegistration | null = null;
+    private registering?: Promise<void>;
+    private isUpdateRequested = false;
+
+    /**
+     * Register the service worker once per page load; later calls return the same registration
+     */
+    register(options: ServiceWorkerRegisterOptions = {}): Promise<void> {
+        if (!this.registering) {
+            this.registering = this.registerWorker(options);
+        }
+        return this.registering;
+    }
+
+    /**
+     * Activate the waiting version; the page reloads once it has taken over
+     */
+    applyUpdate(): void {
+        const waiting = this.registration?.waiting;
+        if (!waiting) return;
+
+        this.isUpdateRequested = true;
+        waiting.postMessage({ type: 'SKIP_WAITING' });
+    }
+
+    async checkForUpdate(): Promise<void> {
+        try {
+            await this.registration?.update();
+        } catch (error) {
+            console.warn('⚠️ Service worker update check failed:', error);
+        }
+    }
+
+    getState(): ServiceWorkerState {
+        return { ...this.state };
+    }
+
+    /**
+     * Subscribe to status changes; the returned function unsubscribes
+     */
+    subscribe(listener: ServiceWorkerListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /** Private helpers */
+
+    private async registerWorker({
+        enabled = process.env.NODE_ENV === 'production',
+        scriptUrl = SERVICE_WORKER_URL,
+    }: ServiceWorkerRegisterOptions): Promise<void> {
+        if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+            this.setState({ status: 'UNSUPPORTED' });
+            return;
+        }
+        if (!enabled) {
+            this.setState({ status: 'DISABLED' });
+            return;
+        }
+
+        this.setState({ status: 'REGISTERING' });
+
+        // Keep the first load's bandwidth for the app bundles
+        if (document.readyState !== 'complete') {
+            await new Promise(resolve => window.addEventListener('load', resolve, { once: true }));
+        }
+
+        try {
+            const registration = await navigator.serviceWorker.register(scriptUrl);
+            this.registration = registration;
+            console.log('👷 Service worker registered with scope:', registration.scope);
+
+            navigator.serviceWorker.addEventListener('controllerchange', () => {
+                if (this.isUpdateRequested) {
+                    window.location.reload();
+                }
+            });
+            registration.addEventListener('updatefound', () => this.trackInstalling(registration.installing));
+
+            // A version installed on an earlier visit may already be waiting
+            if (registration.waiting && navigator.serviceWorker.controller) {
+                this.setState({ status: 'UPDATE_AVAILABLE' });
+            } else {
+                this.setState({ status: 'ACTIVE' });
+                this.trackInstalling(registration.installing);
+            }
+
+            setInterval(() => this.checkForUpdate(), UPDATE_CHECK_INTERVAL);
+        } catch (error) {
+            console.error('❌ Service worker registration failed:', error);
+            this.setState({ status: 'ERROR', error: (error as Error)?.message || String(error) });
+        }
+    }
+
+    private trackInstalling(worker: ServiceWorker | null): void {
+        worker?.addEventListener('statechange', () => {
+            // Without a controller this is the first install, which needs no prompt
+            if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+                console.log('🆕 A new version of the app is ready');
+                this.setState({ status: 'UPDATE_AVAILABLE' });
+            }
+        });
+    }
+
+    private setState(state: ServiceWorkerState): void {
+        this.state = state;
+        this.listeners.forEach(listener => listener(this.getState()));
+    }
+}
+
+export const serviceWorkerService = new ServiceWorkerService();
@@ -0,0 +1,287 @@
+/**
+ * Settings Registry Service
+ * Knows which localStorage keys each module owns and moves them in and out of one versioned profile
+ *
+ * Secrets (tokens, the copy trading vault) are left out of exports unless the caller opts in,
+ * and a profile is fully validated before any key is written.
+ */
+
+import { SETTINGS_MODULES } from '../constants/settings-modules';
+import {
+    SettingsEntries,
+    SettingsImportResult,
+    SettingsKeyDefinition,
+    SettingsModuleDefinition,
+    SettingsModuleSnapshot,
+    SettingsProfile,
+    SettingsProfileValidation,
+    SettingsTransferOptions,
+} from '../types/settings-profile.types';
+
+export const SETTINGS_PROFILE_FORMAT = 'bruceobloc-settings-profile';
+export const SETTINGS_PROFILE_SCHEMA_VERSION = 1;
+
+class SettingsRegistryService {
+    private modules = new Map<string, SettingsModuleDefinition>();
+
+    constructor() {
+        SETTINGS_MODULES.forEach(module => this.register(module));
+    }
+
+    /**
+     * Declare the keys a module owns; ids and keys must be unique across modules
+     */
+    register(module: SettingsModuleDefinition): void {
+        if (this.modules.has(module.id)) {
+            throw new Error(`Settings module "${module.id}" is already registered`);
+        }
+        module.keys.forEach(definition => {
+            const owner = this.findOwner(definition.key);
+            if (owner) {
+                throw new Error(`Settings key "${definition.key}" is already owned by "${owner.id}"`);
+            }
+        });
+        this.modules.set(module.id, module);
+    }
+
+    getModules(): SettingsModuleDefinition[] {
+        return Array.from(this.modules.values());
+    }
+
+    /**
+     * Snapshot the selected modules into a profile
+     */
+    exportProfile(options: SettingsTransferOptions = {}): SettingsProfile {
+        const includeSecrets = options.includeSecrets ?? false;
+        const modules: Record<string, SettingsModuleSnapshot> = {};
+
+        this.selectModules(options.modules).forEach(module => {
+            const entries: SettingsEntries = {};
+
+            this.getStoredKeys(module).forEach(({ key, definition }) => {
+                if (definition.secret && !includeSecrets) return;
+
+                const value = localStorage.getItem(key);
+                if (value === null) return;
+
+                try {
+                    entries[key] = !includeSecrets && module.sanitize ? module.sanitize(key, value) : value;
+                } catch (error) {
+                    console.warn(`⚠️ Skipping unreadable setting ${key}:`, error);
+                }
+            });
+
+            modules[module.id] = { version: module.version, includesSecrets: includeSecrets, entries };
+        });
+
+        return {
+            format: SETTINGS_PROFILE_FORMAT,
+            schemaVersion: SETTINGS_PROFILE_SCHEMA_VERSION,
+            exportedAt: new Date().toISOString(),
+            modules,
+        };
+    }
+
+    /**
+     * Check a parsed profile against the schema and the registered modules
+     */
+    validateProfile(raw: unknown): SettingsProfileValidation {
+        const errors: string[] = [];
+
+        if (!this.isRecord(raw)) {
+            return { success: false, errors: ['Profile is not a JSON object'] };
+        }
+        if (raw.format !== SETTINGS_PROFILE_FORMAT) {
+            errors.push('File is not a settings profile');
+        }
+        if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion > SETTINGS_PROFILE_SCHEMA_VERSION) {
+            errors.push(`Unsupported profile schema version: ${String(raw.schemaVersion)}`);
+        }
+        if (typeof raw.exportedAt !== 'string' || Number.isNaN(Date.parse(raw.exportedAt))) {
+            errors.push('Profile export date is missing or invalid');
+        }
+        if (!this.isRecord(raw.modules)) {
+            errors.push('Profile has no modules');
+        }
+        if (errors.length) return { success: false, errors };
+
+        Object.entries(raw.modules as Record<string, unknown>).forEach(([id, snapshot]) => {
+            const module = this.modules.get(id);
+            if (!module) return; // Reported as skipped on import
+
+            if (!this.isRecord(snapshot) || !Number.isInteger(snapshot.version) || !this.isRecord(snapshot.entries)) {
+                errors.push(`${module.label}: malformed module entry`);
+                return;
+            }
+            if ((snapshot.version as number) < 1) {
+                errors.push(`${module.label}: invalid version ${snapshot.version}`);
+            }
+
+            Object.entries(snapshot.entries).forEach(([key, value]) => {
+                const definition = this.findDefinition(module, key);
+                if (!definition) {
+                    errors.push(`${module.label}: unknown setting "${key}"`);
+                } else if (typeof value !== 'string') {
+                    errors.push(`${module.label}: setting "${key}" must be a string`);
+                } else if (definition.type === 'json' && !this.isJson(value)) {
+                    errors.push(`${module.label}: setting "${key}" is not valid JSON`);
+                }
+            });
+        });
+
+        return errors.length
+            ? { success: false, errors }
+            : { success: true, profile: raw as unknown as SettingsProfile, errors };
+    }
+
+    /**
+     * Parse and validate a profile file's contents
+     */
+    parseProfile(content: string): SettingsProfileValidation {
+        try {
+            return this.validateProfile(JSON.parse(content));
+        } catch {
+            return { success: false, errors: ['File is not valid JSON'] };
+        }
+    }
+
+    /**
+     * Restore the selected modules from a validated profile; nothing is written if any module fails
+     */
+    importProfile(profile: SettingsProfile, options: SettingsTransferOptions = {}): SettingsImportResult {
+        const validation = this.validateProfile(profile);
+        if (!validation.success) {
+            return { success: false, restored: [], skipped: [], error: validation.errors.join('\n') };
+        }
+
+        const includeSecrets = options.includeSecrets ?? false;
+        const selected = options.modules ?? Object.keys(profile.modules);
+        const skipped: SettingsImportResult['skipped'] = [];
+        const writes: { module: SettingsModuleDefinition; entries: SettingsEntries }[] = [];
+
+        for (const id of selected) {
+            const module = this.modules.get(id);
+            const snapshot = profile.modules[id];
+
+            if (!snapshot) {
+                skipped.push({ module: id, reason: 'Not in this profile' });
+            } else if (!module) {
+                skipped.push({ module: id, reason: 'Not supported by this version of the app' });
+            } else if (snapshot.version > module.version) {
+                skipped.push({ module: id, reason: `Exported by a newer version (v${snapshot.version})` });
+            } else {
+                try {
+                    const entries =
+                        snapshot.version < module.version && module.migrate
+                            ? module.migrate({ ...snapshot.entries }, snapshot.version)
+                            : snapshot.entries;
+                    writes.push({ module, entries: this.withoutSecrets(module, entries, includeSecrets) });
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : 'Unknown error';
+                    return {
+                        success: false,
+                        restored: [],
+                        skipped,
+                        error: `${module.label}: migration failed (${message})`,
+                    };
+                }
+            }
+        }
+
+        const previous = new Map<string, string | null>();
+        try {
+            writes.forEach(({ entries }) => {
+                Object.entries(entries).forEach(([key, value]) => {
+                    if (!previous.has(key)) previous.set(key, localStorage.getItem(key));
+                    localStorage.setItem(key, value);
+                });
+            });
+        } catch (error) {
+            this.restore(previous);
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            return { success: false, restored: [], skipped, error: `Could not write settings: ${message}` };
+        }
+
+        const restored = writes.map(({ module }) => module.id);
+        console.log(`📦 Settings profile imported: ${restored.join(', ') || 'nothing selected'}`);
+        return { success: true, restored, skipped };
+    }
+
+    /** Private helpers */
+
+    private selectModules(ids?: string[]): SettingsModuleDefinition[] {
+        const modules = this.getModules();
+        return ids ? modules.filter(module => ids.includes(module.id)) : modules;
+    }
+
+    private getStoredKeys(module: SettingsModuleDefinition): { key: string; definition: SettingsKeyDefinition }[] {
+        const keys: { key: string; definition: SettingsKeyDefinition }[] = [];
+
+        module.keys.forEach(definition => {
+            if (!definition.prefix) {
+                keys.push({ key: definition.key, definition });
+                return;
+            }
+            for (let i = 0; i < localStorage.length; i++) {
+                const key = localStorage.key(i);
+                if (key?.startsWith(definition.key)) keys.push({ key, definition });
+            }
+        });
+
+        return keys;
+    }
+
+    private findDefinition(module: SettingsModuleDefinition, key: string): SettingsKeyDefinition | undefined {
+        return module.keys.find(definition =>
+            definition.prefix
+                ? key.startsWith(definition.key) && key.length > definition.key.length
+                : key === definition.key
+        );
+    }
+
+    private findOwner(key: string): SettingsModuleDefinition | undefined {
+        return this.getModules().find(module =>
+            module.keys.some(
+                definition => definition.key === key || (definition.prefix && key.startsWith(definition.key))
+            )
+        );
+    }
+
+    private withoutSecrets(
+        module: SettingsModuleDefinition,
+        entries: SettingsEntries,
+        includeSecrets: boolean
+    ): SettingsEntries {
+        if (includeSecrets) return entries;
+        return Object.fromEntries(Object.entries(entries).filter(([key]) => !this.findDefinition(module, key)?.secret));
+    }
+
+    private restore(previous: Map<string, string | null>): void {
+        previous.forEach((value, key) => {
+            try {
+                if (value === null) {
+                    localStorage.removeItem(key);
+                } else {
+                    localStorage.setItem(key, value);
+                }
+            } catch (error) {
+                console.error(`❌ Failed to roll back setting ${key}:`, error);
+            }
+        });
+    }
+
+    private isJson(value: string): boolean {
+        try {
+            JSON.parse(value);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private isRecord(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
+
+export const settingsRegistry = new SettingsRegistryService();
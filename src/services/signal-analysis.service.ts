@@ -3,9 +3,18 @@
  * Analyzes real tick data to generate trading signals
  */
 
+import {
+    CONFIDENCE_LEVEL_VALUES,
+    DEFAULT_SIGNAL_HORIZON,
+    resolveSignalContract,
+    signalScorecardService,
+} from './signal-scorecard.service';
+import { extractLastDigit, symbolMetadataService } from './symbol-metadata.service';
+
 interface TickData {
     quote: number;
     epoch: number;
+    symbol?: string;
 }
 
 interface DigitAnalysis {
@@ -68,10 +77,12 @@ export class SignalAnalysisService {
     }
 
     /**
-     * Get last digit from price
+     * Get last digit from a tick (2 decimals when the symbol is unknown)
      */
-    private getLastDigit(price: number): number {
-        return Math.floor(Math.abs(price * 100)) % 10;
+    private getLastDigit(tick: TickData): number {
+        return tick.symbol
+            ? symbolMetadataService.getLastDigit(tick.quote, tick.symbol)
+            : extractLastDigit(tick.quote, 2);
     }
 
     /**
@@ -90,7 +101,7 @@ export class SignalAnalysisService {
         let lastDigit = -1;
 
         recentTicks.forEach((tick, index) => {
-            const digit = this.getLastDigit(tick.quote);
+            const digit = this.getLastDigit(tick);
             const digitData = analysis.get(digit)!;
 
             digitData.frequency++;
@@ -225,7 +236,7 @@ export class SignalAnalysisService {
     private detectPattern(length: number = 5): number[] {
         if (this.tickHistory.length < length) return [];
 
-        const recentDigits = this.tickHistory.slice(-length).map(t => this.getLastDigit(t.quote));
+        const recentDigits = this.tickHistory.slice(-length).map(t => this.getLastDigit(t));
 
         return recentDigits;
     }
@@ -239,7 +250,7 @@ export class SignalAnalysisService {
         let odd = 0;
 
         recentTicks.forEach(tick => {
-            const digit = this.getLastDigit(tick.quote);
+            const digit = this.getLastDigit(tick);
             if (digit % 2 === 0) even++;
             else odd++;
         });
@@ -259,7 +270,7 @@ export class SignalAnalysisService {
         let under = 0;
 
         recentTicks.forEach(tick => {
-            const digit = this.getLastDigit(tick.quote);
+            const digit = this.getLastDigit(tick);
             if (digit > threshold) over++;
             else if (digit < threshold) under++;
         });
@@ -536,14 +547,30 @@ export class SignalAnalysisService {
 
         if (validSignals.length === 0) return null;
 
-        // Prioritize HIGH confidence signals
+        // Prioritize HIGH confidence signals, otherwise return any valid signal
         const highConfidence = validSignals.filter(s => s.confidence === 'HIGH');
-        if (highConfidence.length > 0) {
-            return highConfidence[Math.floor(Math.random() * highConfidence.length)];
-        }
+        const candidates = highConfidence.length > 0 ? highConfidence : validSignals;
+        const signal = candidates[Math.floor(Math.random() * candidates.length)];
+
+        this.recordForScorecard(signal);
+        return signal;
+    }
 
-        // Return any valid signal
-        return validSignals[Math.floor(Math.random() * validSignals.length)];
+    /**
+     * Record the signal against the market the ticks came from
+     */
+    private recordForScorecard(signal: SignalResult): void {
+        const market = this.tickHistory[this.tickHistory.length - 1]?.symbol;
+        const contract = resolveSignalContract(signal.type);
+        if (!market || !contract) return;
+
+        signalScorecardService.recordSignal({
+            generator: 'signal-analysis',
+            market,
+            ...contract,
+            horizonTicks: DEFAULT_SIGNAL_HORIZON,
+            confidence: CONFIDENCE_LEVEL_VALUES[signal.confidence],
+        });
     }
 
     /**
@@ -5,8 +5,12 @@
  */
 
 import { DBOT_TABS } from '@/constants/bot-contents';
+import type { EnhancedBotLoadEvent } from '@/types/app-events.types';
+import type { XmlParameterPatch } from '@/types/bot-xml-patch.types';
 import type { RealSignal } from './advanced-algo-signal.service';
 import { adaptiveRecoveryStrategy } from './adaptive-recovery-strategy.service';
+import { appEventBus } from './app-event-bus.service';
+import { botXmlPatcher, MARTINGALE_VARIABLE, STAKE_VARIABLE } from './bot-xml-patcher.service';
 import { stakeManager } from './stake-manager.service';
 
 export interface BotConfiguration {
@@ -55,6 +59,8 @@ export interface MartingaleUpdateResult {
     xmlContent?: string;
 }
 
+const PUBLISHER = 'SignalBotLoader';
+
 class SignalBotLoaderService {
     private readonly BOT_MAPPINGS = {
         // Even/Odd Bots - CFX Even/Odd as primary (from Free Bots)
@@ -529,20 +535,22 @@ class SignalBotLoaderService {
     private dispatchBotLoadEvent(config: BotConfiguration): void {
         // For CFX bots, use the existing CFX bot loader
         if (config.botFile.includes('CFX')) {
-            const event = new CustomEvent('load.cfx.bot', {
-                detail: {
+            appEventBus.publish(
+                'load.cfx.bot',
+                {
                     botFile: config.botFile,
                     signalType: config.signalType,
                     market: config.market,
                     prediction: config.prediction,
                 },
-            });
-            window.dispatchEvent(event);
+                PUBLISHER
+            );
         }
         // For PATEL bot, use specific PATEL loader with entry point
         else if (config.botFile.includes('PATEL')) {
-            const event = new CustomEvent('load.patel.bot', {
-                detail: {
+            appEventBus.publish(
+                'load.patel.bot',
+                {
                     botFile: config.botFile,
                     signalType: config.signalType,
                     market: config.market,
@@ -550,25 +558,23 @@ class SignalBotLoaderService {
                     searchNumber: config.prediction, // Entry digit becomes search number
                     entryPoint: config.prediction,
                 },
-            });
-            window.dispatchEvent(event);
+                PUBLISHER
+            );
         }
         // For MatchesMaster, use the existing MatchesMaster loader
         else if (config.botFile === 'MatchesMaster.xml') {
-            const event = new CustomEvent('open.matchesmaster.bot', {
-                detail: {
+            appEventBus.publish(
+                'open.matchesmaster.bot',
+                {
                     predictedDigit: config.prediction || 5,
                     market: config.market,
                 },
-            });
-            window.dispatchEvent(event);
+                PUBLISHER
+            );
         }
         // For other bots, create a generic bot load event
         else {
-            const event = new CustomEvent('load.signal.bot', {
-                detail: config,
-            });
-            window.dispatchEvent(event);
+            appEventBus.publish('load.signal.bot', config, PUBLISHER);
         }
 
         console.log('📡 Bot load event dispatched:', config);
@@ -589,7 +595,7 @@ class SignalBotLoaderService {
         }
 
         // Enhanced event with full signal data and adaptive recovery
-        const enhancedDetail = {
+        const enhancedDetail: EnhancedBotLoadEvent = {
             ...config,
             barrier, // Add barrier for OVER/UNDER signals
             // Adaptive Recovery Configuration
@@ -624,39 +630,27 @@ class SignalBotLoaderService {
 
         // Dispatch specific events based on bot type
         if (config.botFile.includes('CFX')) {
-            const event = new CustomEvent('load.cfx.bot.enhanced', {
-                detail: enhancedDetail,
-            });
-            window.dispatchEvent(event);
+            appEventBus.publish('load.cfx.bot.enhanced', enhancedDetail, PUBLISHER);
         } else if (config.botFile.includes('States FX')) {
-            const event = new CustomEvent('load.statesfx.bot.enhanced', {
-                detail: enhancedDetail,
-            });
-            window.dispatchEvent(event);
+            appEventBus.publish('load.statesfx.bot.enhanced', enhancedDetail, PUBLISHER);
         } else if (config.botFile.includes('PATEL')) {
             // PATEL bot with entry point and adaptive recovery strategy
-            const patelDetail = {
-                ...enhancedDetail,
-                searchNumber: signal.entryDigit || signal.targetDigit, // Entry digit becomes search number
-                entryPoint: signal.entryDigit || signal.targetDigit,
-                recoveryStrategy: config.recoveryStrategy, // Pass recovery strategy
-            };
-            const event = new CustomEvent('load.patel.bot.enhanced', {
-                detail: patelDetail,
-            });
-            window.dispatchEvent(event);
+            appEventBus.publish(
+                'load.patel.bot.enhanced',
+                {
+                    ...enhancedDetail,
+                    searchNumber: signal.entryDigit || signal.targetDigit, // Entry digit becomes search number
+                    entryPoint: signal.entryDigit || signal.targetDigit,
+                    recoveryStrategy: config.recoveryStrategy, // Pass recovery strategy
+                },
+                PUBLISHER
+            );
         } else {
-            const event = new CustomEvent('load.signal.bot.enhanced', {
-                detail: enhancedDetail,
-            });
-            window.dispatchEvent(event);
+            appEventBus.publish('load.signal.bot.enhanced', enhancedDetail, PUBLISHER);
         }
 
         // Also dispatch generic auto-load event
-        const autoLoadEvent = new CustomEvent('auto.load.bot', {
-            detail: enhancedDetail,
-        });
-        window.dispatchEvent(autoLoadEvent);
+        appEventBus.publish('auto.load.bot', enhancedDetail, PUBLISHER);
 
         console.log('🚀 Enhanced bot load event dispatched:', enhancedDetail);
     }
@@ -665,11 +659,7 @@ class SignalBotLoaderService {
      * Switch to bot builder tab
      */
     public switchToBotBuilder(): void {
-        // Dispatch event to switch to bot builder tab
-        const event = new CustomEvent('switch.tab', {
-            detail: { tab: DBOT_TABS.BOT_BUILDER },
-        });
-        window.dispatchEvent(event);
+        appEventBus.publish('switch.tab', { tab: DBOT_TABS.BOT_BUILDER }, PUBLISHER);
     }
 
     /**
@@ -727,94 +717,12 @@ class SignalBotLoaderService {
      */
     public updateMartingaleInXML(xmlDoc: Document, targetMartingale?: number): MartingaleUpdateResult {
         const martingaleValue = targetMartingale || stakeManager.getMartingale();
-        const result: MartingaleUpdateResult = {
-            success: false,
-            fieldsUpdated: 0,
-            updatedFields: [],
-            errors: [],
-        };
-
         console.log(`🎯 [SignalBotLoader] Updating martingale to: ${martingaleValue}`);
 
-        try {
-            // Method 1: Update by specific block ID
-            const martingaleBlock = xmlDoc.querySelector('block[id="multiplier_value"] field[name="NUM"]');
-            if (martingaleBlock) {
-                const oldValue = martingaleBlock.textContent;
-                martingaleBlock.textContent = martingaleValue.toString();
-                result.fieldsUpdated++;
-                result.updatedFields.push(`Block ID "multiplier_value": ${oldValue} → ${martingaleValue}`);
-                console.log(`🎯 Updated Martingale Multiplier (Block ID) from ${oldValue} to ${martingaleValue}`);
-            }
-
-            // Method 2: Update by variable names (PRECISE - only "Martangle", NOT "Martangle Level")
-            const allVariableFields = xmlDoc.querySelectorAll('block[type="variables_set"] field[name="VAR"]');
-            console.log(`🔍 Found ${allVariableFields.length} variable fields to check`);
-
-            allVariableFields.forEach((varField, index) => {
-                const varName = varField.textContent?.toLowerCase();
-                console.log(`🔍 Variable ${index}: "${varName}"`);
-
-                // PRECISE MATCHING: Only "martangle" or "martingale", NOT "level"
-                if (
-                    varName &&
-                    (varName.includes('martingale') || varName.includes('martangle')) &&
-                    !varName.includes('level') && // EXCLUDE "Martangle Level"
-                    !varName.includes('multiplier')
-                ) {
-                    const block = varField.closest('block[type="variables_set"]');
-                    if (block) {
-                        const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                        if (numField) {
-                            const oldValue = numField.textContent;
-                            numField.textContent = martingaleValue.toString();
-                            result.fieldsUpdated++;
-                            result.updatedFields.push(`Variable "${varName}": ${oldValue} → ${martingaleValue}`);
-                            console.log(
-                                `🎯 Updated "${varName}" from ${oldValue} to ${martingaleValue} (StakeManager)`
-                            );
-                        }
-                    }
-                }
-            });
-
-            // Method 3: TARGETED - Only update field with value "2" that is specifically "Martangle"
-            console.log('🔍 TARGETED: Looking for "Martangle" field with value "2"...');
-            const suspiciousFields = xmlDoc.querySelectorAll('field[name="NUM"]');
-            suspiciousFields.forEach((field, index) => {
-                const value = field.textContent;
-                if (value === '2') {
-                    const parentBlock = field.closest('block');
-                    const blockContext = parentBlock?.textContent?.toLowerCase() || '';
-
-                    // Only update if it's specifically "Martangle" (not "Martangle Level")
-                    if (blockContext.includes('martangle') && !blockContext.includes('level')) {
-                        const oldValue = field.textContent;
-                        field.textContent = martingaleValue.toString();
-                        result.fieldsUpdated++;
-                        result.updatedFields.push(`Targeted "Martangle" field: ${oldValue} → ${martingaleValue}`);
-                        console.log(`🎯 TARGETED: Updated "Martangle" field from "${oldValue}" to ${martingaleValue}`);
-                    }
-                }
-            });
-
-            result.success = result.fieldsUpdated > 0;
-
-            if (result.success) {
-                console.log(
-                    `✅ Martingale Update Summary: ${result.fieldsUpdated} fields updated to ${martingaleValue}x`
-                );
-                console.log(`🎉 SUCCESS: Martingale ${martingaleValue}x applied to bot XML!`);
-            } else {
-                result.errors.push('No martingale fields found or updated in bot XML');
-                console.warn('⚠️ No martingale fields found or updated in bot XML');
-            }
-        } catch (error) {
-            result.errors.push(`Error updating martingale: ${error}`);
-            console.error('❌ Error updating martingale in XML:', error);
-        }
-
-        return result;
+        return this.patchXML(xmlDoc, 'martingale', [
+            { parameter: 'martingale', value: martingaleValue, target: { blockId: 'multiplier_value', field: 'NUM' } },
+            { parameter: 'martingale', value: martingaleValue, target: { variableName: MARTINGALE_VARIABLE } },
+        ]);
     }
 
     /**
@@ -822,50 +730,32 @@ class SignalBotLoaderService {
      */
     public updateStakeInXML(xmlDoc: Document, targetStake?: number): MartingaleUpdateResult {
         const stakeValue = targetStake || stakeManager.getStake();
-        const result: MartingaleUpdateResult = {
-            success: false,
-            fieldsUpdated: 0,
-            updatedFields: [],
-            errors: [],
-        };
-
         console.log(`💰 [SignalBotLoader] Updating stake to: ${stakeValue}`);
 
-        try {
-            // Update stake fields
-            const stakeFields = xmlDoc.querySelectorAll('field[name="NUM"]');
-            stakeFields.forEach((field, index) => {
-                // Look for stake-related NUM fields
-                const parentBlock = field.closest('block');
-                if (parentBlock && parentBlock.getAttribute('type') === 'math_number') {
-                    // Check if this is a stake-related field by looking at surrounding context
-                    const variableSet = field.closest('block[type="variables_set"]');
-                    if (variableSet) {
-                        const varField = variableSet.querySelector('field[name="VAR"]');
-                        if (varField && varField.textContent?.toLowerCase().includes('stake')) {
-                            const oldValue = field.textContent;
-                            field.textContent = stakeValue.toString();
-                            result.fieldsUpdated++;
-                            result.updatedFields.push(`Stake "${varField.textContent}": ${oldValue} → ${stakeValue}`);
-                            console.log(
-                                `💰 Updated stake to ${stakeValue} (${varField.textContent}) from StakeManager`
-                            );
-                        }
-                    }
-                }
-            });
+        return this.patchXML(xmlDoc, 'stake', [
+            { parameter: 'stake', value: stakeValue, target: { variableName: STAKE_VARIABLE } },
+        ]);
+    }
 
-            result.success = result.fieldsUpdated > 0;
+    /**
+     * Apply patches through the shared XML patcher and report them in the legacy result shape
+     */
+    private patchXML(xmlDoc: Document, label: string, patches: XmlParameterPatch[]): MartingaleUpdateResult {
+        const { changes, unmatched } = botXmlPatcher.patchDocument(xmlDoc, patches);
+        const result: MartingaleUpdateResult = {
+            success: unmatched.length < patches.length,
+            fieldsUpdated: changes.length,
+            updatedFields: changes.map(
+                change => `${change.variable ?? change.blockId}: ${change.before} → ${change.after}`
+            ),
+            errors: [],
+        };
 
-            if (result.success) {
-                console.log(`✅ Stake Update Summary: ${result.fieldsUpdated} fields updated to ${stakeValue}`);
-            } else {
-                result.errors.push('No stake fields found or updated in bot XML');
-                console.warn('⚠️ No stake fields found or updated in bot XML');
-            }
-        } catch (error) {
-            result.errors.push(`Error updating stake: ${error}`);
-            console.error('❌ Error updating stake in XML:', error);
+        if (result.success) {
+            console.log(`✅ ${label} update summary: ${result.fieldsUpdated} fields updated`);
+        } else {
+            result.errors.push(`No ${label} fields found in bot XML`);
+            console.warn(`⚠️ No ${label} fields found in bot XML`);
         }
 
         return result;
@@ -0,0 +1,389 @@
+/**
+ * Signal Scorecard Service
+ * Records every signal the generators emit, settles it against the ticks that follow and scores
+ * each generator per market: hit rate against chance, expected value at the real payout and
+ * calibration of the stated confidence.
+ */
+
+import type {
+    CalibrationBucket,
+    ScorecardEntry,
+    ScoredSignal,
+    SignalGeneratorId,
+    SignalPrediction,
+    SignalScorecard,
+} from '../types/signal-scorecard.types';
+import type { SourceTick } from '../types/tick-source.types';
+import {
+    getExitTickOffset,
+    getPayoutRatio,
+    getWinProbability,
+    isWinningContract,
+    needsDigitBarrier,
+} from '../utils/fast-lane/backtester';
+import { liveSignalFeedService } from './live-signal-feed.service';
+import { extractLastDigit, symbolMetadataService } from './symbol-metadata.service';
+
+/** Horizon the signal cards advertise ('5 ticks') when a generator does not set one */
+export const DEFAULT_SIGNAL_HORIZON = 5;
+
+/** Stated confidence for generators that only grade signals HIGH / MEDIUM / LOW */
+export const CONFIDENCE_LEVEL_VALUES = { HIGH: 80, MEDIUM: 65, LOW: 50 } as const;
+
+const STORAGE_KEY = 'signal-scorecard';
+const MAX_STORED_SIGNALS = 2000;
+const PENDING_TIMEOUT_MS = 2 * 60 * 1000; // Markets that stop ticking drop their pending signals
+const MIN_SETTLED_FOR_VERDICT = 30;
+const BEATS_CHANCE_Z = 1.645; // One-sided 95%
+const CALIBRATION_BUCKETS = 10;
+
+interface PendingSignal {
+    signal: ScoredSignal;
+    ticksAfterEntry: number;
+    timeout: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Map a generator prediction such as 'OVER5', 'EVEN', 'RISE' or 'MATCHES' to a Deriv contract
+ */
+export const resolveSignalContract = (
+    prediction: string,
+    barrier?: number
+): { contractType: string; barrier?: number } | null => {
+    const overUnder = prediction.toUpperCase().match(/^(OVER|UNDER)(\d)?$/);
+    if (overUnder) {
+        const digit = overUnder[2] !== undefined ? Number(overUnder[2]) : barrier;
+        return digit === undefined ? null : { contractType: `DIGIT${overUnder[1]}`, barrier: digit };
+    }
+
+    switch (prediction.toUpperCase()) {
+        case 'EVEN':
+            return { contractType: 'DIGITEVEN' };
+        case 'ODD':
+            return { contractType: 'DIGITODD' };
+        case 'RISE':
+        case 'CALL':
+            return { contractType: 'CALL' };
+        case 'FALL':
+        case 'PUT':
+            return { contractType: 'PUT' };
+        case 'MATCHES':
+            return barrier === undefined ? null : { contractType: 'DIGITMATCH', barrier };
+        case 'DIFFERS':
+            return barrier === undefined ? null : { contractType: 'DIGITDIFF', barrier };
+        default:
+            return null;
+    }
+};
+
+class SignalScorecardService {
+    private settled: ScoredSignal[] = this.loadSettled();
+    private pending = new Map<string, PendingSignal>();
+    private feeds = new Map<string, Promise<() => void>>();
+    private payouts = new Map<string, number>();
+    private listeners = new Set<() => void>();
+    private sequence = 0;
+
+    /**
+     * Record an emitted signal; returns its ID, or null when it cannot be scored or the
+     * same prediction from the same generator is still waiting to settle. Every signal is also
+     * forwarded to the live signal feed read by the Bot Builder blocks.
+     */
+    recordSignal(prediction: SignalPrediction): string | null {
+        liveSignalFeedService.publish(prediction);
+
+        const { generator, market, contractType, barrier, horizonTicks } = prediction;
+        const chance = getWinProbability(contractType, barrier);
+
+        if (!market || chance <= 0 || chance >= 1 || (needsDigitBarrier(contractType) && barrier === undefined)) {
+            return null;
+        }
+
+        const isDuplicate = Array.from(this.pending.values()).some(
+            ({ signal }) =>
+                signal.generator === generator &&
+                signal.market === market &&
+                signal.contractType === contractType &&
+                signal.barrier === barrier
+        );
+        if (isDuplicate) return null;
+
+        const horizon = Math.max(1, Math.round(horizonTicks || DEFAULT_SIGNAL_HORIZON));
+        const payoutKey = this.getPayoutKey(market, contractType, barrier, horizon);
+        const realPayout = this.payouts.get(payoutKey);
+
+        const signal: ScoredSignal = {
+            id: `${generator}-${Date.now()}-${++this.sequence}`,
+            generator,
+            market,
+            contractType,
+            barrier,
+            horizonTicks: horizon,
+            confidence: this.normaliseConfidence(prediction.confidence),
+            chance,
+            payoutRatio: realPayout ?? getPayoutRatio(contractType, barrier),
+            payoutSource: realPayout ? 'proposal' : 'estimated',
+            emittedAt: Date.now(),
+        };
+
+        this.pending.set(signal.id, {
+            signal,
+            ticksAfterEntry: 0,
+            timeout: setTimeout(() => this.dropPending(signal.id), PENDING_TIMEOUT_MS),
+        });
+        this.watchMarket(market);
+        if (!realPayout) this.fetchPayout(signal, payoutKey);
+
+        return signal.id;
+    }
+
+    /**
+     * Per-generator and per-generator-and-market scores from the settled signals
+     */
+    getScorecard(): SignalScorecard {
+        const byGenerator = new Map<SignalGeneratorId, ScoredSignal[]>();
+        const byMarket = new Map<string, ScoredSignal[]>();
+
+        this.settled.forEach(signal => {
+            byGenerator.set(signal.generator, [...(byGenerator.get(signal.generator) ?? []), signal]);
+            const key = `${signal.generator}|${signal.market}`;
+            byMarket.set(key, [...(byMarket.get(key) ?? []), signal]);
+        });
+
+        const bySample = (a: ScorecardEntry, b: ScorecardEntry) => b.settled - a.settled;
+
+        return {
+            generators: Array.from(byGenerator.entries())
+                .map(([generator, signals]) => this.score(generator, signals))
+                .sort(bySample),
+            markets: Array.from(byMarket.values())
+                .map(signals => this.score(signals[0].generator, signals, signals[0].market))
+                .sort(bySample),
+            pending: this.pending.size,
+        };
+    }
+
+    /**
+     * Settled signals, oldest first
+     */
+    getSettledSignals(): ScoredSignal[] {
+        return [...this.settled];
+    }
+
+    /**
+     * Listen for settlements and resets
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Forget every recorded signal and stop watching markets
+     */
+    reset(): void {
+        Array.from(this.pending.keys()).forEach(id => this.dropPending(id));
+        this.settled = [];
+        this.payouts.clear();
+        localStorage.removeItem(STORAGE_KEY);
+        this.notifyListeners();
+    }
+
+    /** Private helpers */
+
+    private handleTick(tick: SourceTick): void {
+        const digit =
+            tick.pipSize !== undefined
+                ? extractLastDigit(tick.quote, tick.pipSize)
+                : symbolMetadataService.getLastDigit(tick.quote, tick.symbol);
+
+        this.pending.forEach(pending => {
+            const { signal } = pending;
+            if (signal.market !== tick.symbol) return;
+
+            // The first tick after emission is the entry spot
+            if (signal.entrySpot === undefined) {
+                signal.entrySpot = tick.quote;
+            } else {
+                pending.ticksAfterEntry++;
+            }
+
+            if (pending.ticksAfterEntry >= getExitTickOffset(signal.contractType, signal.horizonTicks)) {
+                this.settle(pending, tick.quote, digit);
+            }
+        });
+    }
+
+    private settle(pending: PendingSignal, exitSpot: number, exitDigit: number): void {
+        const { signal } = pending;
+        clearTimeout(pending.timeout);
+        this.pending.delete(signal.id);
+
+        signal.exitSpot = exitSpot;
+        signal.exitDigit = exitDigit;
+        signal.won = isWinningContract(
+            signal.contractType,
+            signal.barrier,
+            signal.entrySpot as number,
+            exitSpot,
+            exitDigit
+        );
+        signal.settledAt = Date.now();
+
+        this.settled = [...this.settled, signal].slice(-MAX_STORED_SIGNALS);
+        this.saveSettled();
+        this.releaseIdleMarket(signal.market);
+        this.notifyListeners();
+    }
+
+    private dropPending(id: string): void {
+        const pending = this.pending.get(id);
+        if (!pending) return;
+        clearTimeout(pending.timeout);
+        this.pending.delete(id);
+        this.releaseIdleMarket(pending.signal.market);
+    }
+
+    private score(generator: SignalGeneratorId, signals: ScoredSignal[], market?: string): ScorecardEntry {
+        const settled = signals.length;
+        const wins = signals.filter(signal => signal.won).length;
+        const chanceWins = signals.reduce((sum, signal) => sum + signal.chance, 0);
+        const variance = signals.reduce((sum, signal) => sum + signal.chance * (1 - signal.chance), 0);
+        const profit = signals.reduce((sum, signal) => sum + (signal.won ? signal.payoutRatio - 1 : -1), 0);
+        const squaredError = signals.reduce(
+            (sum, signal) => sum + Math.pow(signal.confidence - (signal.won ? 1 : 0), 2),
+            0
+        );
+        const zScore = variance > 0 ? (wins - chanceWins) / Math.sqrt(variance) : 0;
+
+        let verdict: ScorecardEntry['verdict'] = 'NO_EDGE';
+        if (settled < MIN_SETTLED_FOR_VERDICT) verdict = 'INSUFFICIENT_DATA';
+        else if (zScore >= BEATS_CHANCE_Z) verdict = 'BEATS_CHANCE';
+
+        return {
+            generator,
+            market,
+            settled,
+            wins,
+            hitRate: settled ? wins / settled : 0,
+            chanceRate: settled ? chanceWins / settled : 0,
+            expectedValue: settled ? profit / settled : 0,
+            zScore,
+            brierScore: settled ? squaredError / settled : 0,
+            calibration: this.calibrate(signals),
+            verdict,
+        };
+    }
+
+    private calibrate(signals: ScoredSignal[]): CalibrationBucket[] {
+        const buckets: CalibrationBucket[] = [];
+
+        for (let i = 0; i < CALIBRATION_BUCKETS; i++) {
+            const from = i / CALIBRATION_BUCKETS;
+            const to = (i + 1) / CALIBRATION_BUCKETS;
+            const inBucket = signals.filter(
+                signal => signal.confidence >= from && (signal.confidence < to || (to === 1 && signal.confidence === 1))
+            );
+            if (inBucket.length === 0) continue;
+
+            buckets.push({
+                from,
+                to,
+                count: inBucket.length,
+                statedConfidence: inBucket.reduce((sum, signal) => sum + signal.confidence, 0) / inBucket.length,
+                observedFrequency: inBucket.filter(signal => signal.won).length / inBucket.length,
+            });
+        }
+
+        return buckets;
+    }
+
+    private normaliseConfidence(confidence: number): number {
+        const value = confidence > 1 ? confidence / 100 : confidence;
+        return Math.min(1, Math.max(0, value || 0));
+    }
+
+    private watchMarket(market: string): void {
+        if (this.feeds.has(market)) return;
+
+        // The tick feed and the bot API are loaded lazily so generators stay usable without a
+        // connection, e.g. in the TickShark simulator
+        this.feeds.set(
+            market,
+            import('./tick-source/tick-source.service')
+                .then(({ tickSourceService }) => tickSourceService.subscribe(market, tick => this.handleTick(tick)))
+                .catch(error => {
+                    console.warn(`⚠️ Signal scorecard could not watch ${market}:`, error);
+                    return () => undefined;
+                })
+        );
+    }
+
+    private releaseIdleMarket(market: string): void {
+        const feed = this.feeds.get(market);
+        const isWatched = Array.from(this.pending.values()).some(({ signal }) => signal.market === market);
+        if (!feed || isWatched) return;
+
+        this.feeds.delete(market);
+        feed.then(unsubscribe => unsubscribe());
+    }
+
+    /**
+     * Replace the estimated payout with the one Deriv quotes for the same contract
+     */
+    private async fetchPayout(signal: ScoredSignal, payoutKey: string): Promise<void> {
+        try {
+            const { api_base } = await import('@/external/bot-skeleton/services/api/api-base');
+            if (!api_base.api) return;
+
+            const response = await api_base.api.send({
+                proposal: 1,
+                amount: 1,
+                basis: 'stake',
+                contract_type: signal.contractType,
+                currency: 'USD',
+                duration: signal.horizonTicks,
+                duration_unit: 't',
+                symbol: signal.market,
+                ...(signal.barrier !== undefined && { barrier: String(signal.barrier) }),
+            });
+            const { payout, ask_price } = response?.proposal ?? {};
+            if (!payout || !ask_price) return;
+
+            const ratio = Math.round((payout / ask_price) * 100) / 100;
+            this.payouts.set(payoutKey, ratio);
+            signal.payoutRatio = ratio;
+            signal.payoutSource = 'proposal';
+        } catch (error) {
+            console.warn('⚠️ Signal scorecard payout lookup failed, keeping the estimate:', error);
+        }
+    }
+
+    private getPayoutKey(market: string, contractType: string, barrier: number | undefined, horizon: number): string {
+        return `${market}:${contractType}:${barrier ?? ''}:${horizon}`;
+    }
+
+    private loadSettled(): ScoredSignal[] {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            return stored ? JSON.parse(stored) : [];
+        } catch (error) {
+            console.warn('⚠️ Failed to load signal scorecard:', error);
+            return [];
+        }
+    }
+
+    private saveSettled(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settled));
+        } catch (error) {
+            console.warn('⚠️ Failed to save signal scorecard:', error);
+        }
+    }
+
+    private notifyListeners(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+export const signalScorecardService = new SignalScorecardService();
@@ -6,6 +6,7 @@
 import { api_base } from '@/external/bot-skeleton/services/api/api-base';
 import { derivAPIService } from './deriv-api.service';
 import { masterTradeIntegrationService } from './master-trade-integration.service';
+import { riskPolicyService } from './risk-policy.service';
 
 export interface SignalTradeConfig {
     signalId: string;
@@ -289,6 +290,8 @@ class SignalTradingService {
         config: SignalTradeConfig,
         callback?: (result: SignalTradeResult) => void
     ): Promise<SignalTradeResult> {
+        let riskTicket: string | undefined;
+
         try {
             // STRICT VALIDATION: Ensure stake is valid
             if (!config.stake || config.stake <= 0 || isNaN(config.stake)) {
@@ -410,11 +413,32 @@ class SignalTradingService {
             const proposalData = proposal.proposal as { id?: string } | undefined;
             console.log('✅ Proposal received:', proposalData?.id);
 
+            // Check account risk policy
+            const riskDecision = riskPolicyService.authorize({
+                source: 'SIGNALS',
+                stake: config.stake,
+                symbol: config.market,
+                contractType,
+            });
+            if (!riskDecision.allowed) {
+                const errorResult: SignalTradeResult = {
+                    success: false,
+                    error: `Trade blocked: ${riskDecision.reason}`,
+                    signalId: config.signalId,
+                    timestamp: Date.now(),
+                };
+                this.addToHistory(errorResult);
+                if (callback) callback(errorResult);
+                return errorResult;
+            }
+            riskTicket = riskDecision.ticket;
+
             // Buy contract
             console.log('💰 Buying contract...');
             const buyResponse = await derivAPIService.buyContract(proposalData?.id || '', config.stake);
 
             if (!buyResponse || !buyResponse.buy) {
+                riskPolicyService.cancel(riskTicket);
                 const errorMsg = 'Failed to buy contract';
                 const errorResult: SignalTradeResult = {
                     success: false,
@@ -431,6 +455,8 @@ class SignalTradingService {
 
             console.log('✅ Contract purchased:', buyResponse.buy.contract_id);
             console.log('📝 This trade will appear in Transactions tab');
+            riskPolicyService.confirm(riskTicket, buyResponse.buy.contract_id, buyResponse.buy.buy_price);
+            riskTicket = undefined;
 
             // Store active contract
             if (buyResponse.buy?.contract_id) {
@@ -494,6 +520,7 @@ class SignalTradingService {
 
             return result;
         } catch (error) {
+            riskPolicyService.cancel(riskTicket);
             const errorMsg = (error as Error).message;
             const errorResult: SignalTradeResult = {
                 success: false,
@@ -951,6 +978,12 @@ class SignalTradingService {
      * Check if trading is allowed based on risk management
      */
     canTrade(): { allowed: boolean; reason?: string } {
+        // Account-wide limits apply even when signal risk management is off
+        const policyDecision = riskPolicyService.check({ source: 'SIGNALS', stake: this.autoTradeConfig.stake });
+        if (!policyDecision.allowed) {
+            return { allowed: false, reason: policyDecision.reason };
+        }
+
         if (!this.riskConfig.enabled) {
             return { allowed: true };
         }
@@ -1,10 +1,15 @@
 /**
  * Speed Bot Trading Service
  * Implements automated trading for the Speed Bot with tick-by-tick execution
+ *
+ * The trading loop, martingale and auto-stop run on the shared bot runtime; this service adds
+ * sounds, notifications, copy trading and digit pattern detection on top.
  */
 
 import { api_base } from '@/external/bot-skeleton/services/api/api-base';
-import { derivAPIService } from './deriv-api.service';
+import type { BotRuntimeEvent, TradeDecision } from '../types/bot-runtime.types';
+import { BotRuntime } from './bot-runtime/bot-runtime.service';
+import { createSpeedBotStrategy } from './bot-runtime/strategies';
 import { masterTradeIntegrationService } from './master-trade-integration.service';
 
 export interface SpeedBotConfig {
@@ -67,21 +72,21 @@ export interface PatternDetection {
     lastDigits: number[];
 }
 
+const EMPTY_STATS: SpeedBotStats = {
+    totalPL: 0,
+    runs: 0,
+    wins: 0,
+    losses: 0,
+    currentStake: 0,
+    isRunning: false,
+    consecutiveWins: 0,
+    consecutiveLosses: 0,
+    winRate: 0,
+};
+
 class SpeedBotService {
-    private isRunning = false;
     private config: SpeedBotConfig | null = null;
-    private stats: SpeedBotStats = {
-        totalPL: 0,
-        runs: 0,
-        wins: 0,
-        losses: 0,
-        currentStake: 0,
-        isRunning: false,
-        consecutiveWins: 0,
-        consecutiveLosses: 0,
-        winRate: 0,
-    };
-    private tickSubscriptionId: string | null = null;
+    private runtime: BotRuntime | null = null;
     private onStatsUpdate: ((stats: SpeedBotStats) => void) | null = null;
     private onTradeUpdate: ((update: TradeUpdate) => void) | null = null;
     private onPatternUpdate: ((pattern: PatternDetection) => void) | null = null;
@@ -91,10 +96,6 @@ class SpeedBotService {
     private digitCounts: Map<number, number> = new Map();
     private currentStreak: { digit: number; count: number } | null = null;
 
-    // Auto-stop tracking
-    private startTime: number = 0;
-    private martingaleLevel: number = 0;
-
     /**
      * Start the Speed Bot
      */
@@ -106,19 +107,11 @@ class SpeedBotService {
             onPatternUpdate?: (pattern: PatternDetection) => void;
         }
     ): Promise<void> {
-        if (this.isRunning) {
+        if (this.runtime?.isActive()) {
             throw new Error('Speed Bot is already running');
         }
 
         this.config = config;
-        this.stats.currentStake = config.stake;
-        this.isRunning = true;
-        this.stats.isRunning = true;
-        this.stats.consecutiveLosses = 0;
-        this.stats.consecutiveWins = 0;
-        this.startTime = Date.now();
-        this.stats.startTime = this.startTime;
-        this.martingaleLevel = 0;
         this.onStatsUpdate = callbacks?.onStatsUpdate || null;
         this.onTradeUpdate = callbacks?.onTradeUpdate || null;
         this.onPatternUpdate = callbacks?.onPatternUpdate || null;
@@ -131,268 +124,111 @@ class SpeedBotService {
         }
 
         // Subscribe to ticks and start trading
-        await this.subscribeToMarket();
+        await this.getRuntime(config).start();
     }
 
     /**
      * Stop the bot
      */
     async stop(): Promise<void> {
-        this.isRunning = false;
-        this.stats.isRunning = false;
-
-        if (this.tickSubscriptionId) {
-            await derivAPIService.unsubscribe(this.tickSubscriptionId);
-            this.tickSubscriptionId = null;
-        }
-
-        console.log('🛑 Speed Bot Stopped');
+        await this.runtime?.stop();
         this.notifyStatsUpdate();
     }
 
     /**
-     * Subscribe to market ticks
+     * Shared runtime owning the trading loop; kept across runs so stats accumulate until reset
      */
-    private async subscribeToMarket(): Promise<void> {
-        if (!this.config) return;
+    private getRuntime(config: SpeedBotConfig): BotRuntime {
+        const runtimeConfig = {
+            name: 'Speed Bot',
+            source: 'SPEED_BOT' as const,
+            symbol: config.market,
+            stake: config.stake,
+            martingale: config.martingale,
+            maxMartingaleLevel: config.maxMartingaleLevel,
+            stopConditions: {
+                stopAfterWins: config.stopAfterWins,
+                stopAfterLosses: config.stopAfterLosses,
+                targetProfit: config.targetProfit,
+                maxLoss: config.maxLoss,
+                maxRunTime: config.maxRunTime,
+            },
+        };
 
-        try {
-            this.tickSubscriptionId =
-                (await derivAPIService.subscribeToTicks(this.config.market, tickData => {
-                    if (this.isRunning) {
-                        this.handleTick(tickData);
-                    }
-                })) || null;
-        } catch (error) {
-            console.error('Error subscribing to market:', error);
-            this.notifyTradeUpdate({
-                type: 'error',
-                error: 'Failed to subscribe to market',
-            });
-            this.stop();
+        if (this.runtime) {
+            this.runtime.updateConfig(runtimeConfig);
+            return this.runtime;
         }
-    }
 
-    /**
-     * Handle incoming tick data
-     */
-    private async handleTick(): Promise<void> {
-        if (!this.config || !this.isRunning) return;
-
-        // Place trade on every tick
-        await this.placeTrade();
+        this.runtime = new BotRuntime(
+            runtimeConfig,
+            createSpeedBotStrategy(() => this.config ?? config)
+        );
+        this.runtime.subscribe(event => this.handleRuntimeEvent(event));
+        return this.runtime;
     }
 
     /**
-     * Place a trade
+     * Translate runtime events into Speed Bot updates, sounds, notifications and copy trades
      */
-    private async placeTrade(): Promise<void> {
-        if (!this.config || !this.isRunning) return;
-
-        try {
-            // Notify trade started
-            this.notifyTradeUpdate({ type: 'trade_started' });
-
-            // Get proposal
-            const proposal = await this.getProposal();
-
-            if (!proposal || !proposal.proposal) {
-                console.error('Failed to get proposal');
-                return;
-            }
-
-            // Buy the contract
-            const buyResponse = await derivAPIService.buyContract(proposal.proposal.id, this.stats.currentStake);
-
-            if (!buyResponse || !buyResponse.buy) {
-                console.error('Error buying contract: No response');
+    private handleRuntimeEvent(event: BotRuntimeEvent): void {
+        switch (event.type) {
+            case 'trade_started':
+                this.notifyTradeUpdate({ type: 'trade_started' });
+                break;
+            case 'trade_opened':
+                this.copyTrade(event.decision, event.stake, event.contractId);
+                break;
+            case 'trade_complete': {
+                const { trade } = event;
+                if (this.config?.enableSoundAlerts) {
+                    this.playSound(trade.isWin ? 'win' : 'loss');
+                }
+                this.notifyStatsUpdate();
                 this.notifyTradeUpdate({
-                    type: 'error',
-                    error: 'Failed to buy contract',
+                    type: 'trade_complete',
+                    profit: trade.profit,
+                    isWin: trade.isWin,
+                    contractId: trade.contractId,
                 });
-                return;
+                break;
             }
-
-            console.log('📈 Speed Bot Trade placed:', buyResponse.buy);
-
-            // 🔗 COPY TRADING INTEGRATION: Execute copy trades for clients
-            try {
-                console.log('🔗 Triggering copy trading for Speed Bot trade...');
-                await masterTradeIntegrationService.onSpeedBotTrade({
-                    market: this.config.market,
-                    contractType: contractType,
-                    stake: this.stats.currentStake,
-                    duration: parseInt(this.config.ticks),
-                    durationUnit: 't',
-                    contractId: buyResponse.buy.contract_id,
-                });
-                console.log('✅ Copy trading executed successfully');
-            } catch (copyError) {
-                console.error('❌ Copy trading failed:', copyError);
-                // Don't fail the main trade if copy trading fails
-            }
-
-            // Monitor the contract
-            if (buyResponse.buy?.contract_id) {
-                await this.monitorContract(buyResponse.buy.contract_id);
-            }
-        } catch (error) {
-            console.error('Error placing trade:', error);
-            this.notifyTradeUpdate({
-                type: 'error',
-                error: (error as Error).message,
-            });
-        }
-    }
-
-    /**
-     * Get proposal for the trade
-     */
-    private async getProposal(): Promise<any> {
-        if (!this.config) return null;
-
-        const contractType = this.config.strategy === 'Over' ? 'DIGITOVER' : 'DIGITUNDER';
-
-        const proposal = {
-            proposal: 1,
-            amount: this.stats.currentStake,
-            basis: 'stake',
-            contract_type: contractType,
-            currency: 'USD',
-            duration: parseInt(this.config.ticks),
-            duration_unit: 't',
-            symbol: this.config.market,
-            barrier: this.config.prediction,
-        };
-
-        try {
-            return await api_base.api?.send(proposal);
-        } catch (error) {
-            console.error('Error getting proposal:', error);
-            return null;
-        }
-    }
-
-    /**
-     * Monitor contract until completion
-     */
-    private async monitorContract(contractId: number): Promise<void> {
-        try {
-            const proposalOpenContract = {
-                proposal_open_contract: 1,
-                contract_id: contractId,
-                subscribe: 1,
-            };
-
-            const response = await api_base.api?.send(proposalOpenContract);
-
-            if (response?.subscription) {
-                const subscription = api_base.api?.onMessage().subscribe((message: any) => {
-                    if (message.proposal_open_contract?.contract_id === contractId) {
-                        this.handleContractUpdate(message.proposal_open_contract);
+            case 'error':
+                this.notifyTradeUpdate({ type: 'error', error: event.error });
+                break;
+            case 'stopped':
+                if (event.isAutoStop && event.reason) {
+                    this.notifyTradeUpdate({ type: 'auto_stopped', stopReason: event.reason });
+                    if (this.config?.enableNotifications) {
+                        this.sendNotification('Speed Bot Stopped', event.reason);
                     }
-                });
-
-                api_base.pushSubscription({
-                    id: response.subscription.id,
-                    unsubscribe: () => subscription?.unsubscribe(),
-                });
-            }
-        } catch (error) {
-            console.error('Error monitoring contract:', error);
+                }
+                this.notifyStatsUpdate();
+                break;
         }
     }
 
     /**
-     * Handle contract updates
+     * 🔗 COPY TRADING INTEGRATION: Execute copy trades for clients
      */
-    private handleContractUpdate(contract: any): void {
-        if (contract.is_sold || contract.status === 'sold') {
-            const profit = contract.profit || 0;
-            const isWin = profit > 0;
-
-            // Update stats
-            this.stats.runs++;
-            this.stats.totalPL += profit;
-
-            if (isWin) {
-                this.stats.wins++;
-                this.stats.consecutiveLosses = 0;
-                this.stats.consecutiveWins++;
-                this.martingaleLevel = 0;
-                // Reset stake on win
-                this.stats.currentStake = this.config!.stake;
-
-                // Play win sound
-                if (this.config!.enableSoundAlerts) {
-                    this.playSound('win');
-                }
-            } else {
-                this.stats.losses++;
-                this.stats.consecutiveLosses++;
-                this.stats.consecutiveWins = 0;
-                this.martingaleLevel++;
-
-                // Apply martingale on loss (with max level check)
-                if (this.config!.martingale > 1) {
-                    const maxLevel = this.config!.maxMartingaleLevel || 10;
-                    if (this.martingaleLevel < maxLevel) {
-                        this.stats.currentStake = this.stats.currentStake * this.config!.martingale;
-                    } else {
-                        console.log(`⚠️ Max martingale level ${maxLevel} reached, resetting stake`);
-                        this.stats.currentStake = this.config!.stake;
-                        this.martingaleLevel = 0;
-                    }
-                }
-
-                // Play loss sound
-                if (this.config!.enableSoundAlerts) {
-                    this.playSound('loss');
-                }
-            }
-
-            // Update win rate
-            this.stats.winRate = this.stats.runs > 0 ? (this.stats.wins / this.stats.runs) * 100 : 0;
-
-            // Update elapsed time
-            this.stats.elapsedTime = Date.now() - this.startTime;
-
-            console.log(
-                isWin ? '✅ Speed Bot Won' : '❌ Speed Bot Lost',
-                `Profit: ${profit.toFixed(2)}, Total: ${this.stats.totalPL.toFixed(2)}`
-            );
-
-            // Check auto-stop conditions
-            const stopReason = this.checkAutoStop();
-            if (stopReason) {
-                console.log(`🛑 Auto-stopping: ${stopReason}`);
-                this.stop();
-                this.notifyTradeUpdate({
-                    type: 'auto_stopped',
-                    stopReason,
-                });
-
-                // Send notification
-                if (this.config!.enableNotifications) {
-                    this.sendNotification('Speed Bot Stopped', stopReason);
-                }
-
-                return;
-            }
+    private async copyTrade(decision: TradeDecision, stake: number, contractId: number): Promise<void> {
+        if (!this.config) return;
 
-            // Notify callbacks
-            this.notifyStatsUpdate();
-            this.notifyTradeUpdate({
-                type: 'trade_complete',
-                profit,
-                isWin,
-                contractId: contract.contract_id,
+        try {
+            console.log('🔗 Triggering copy trading for Speed Bot trade...');
+            await masterTradeIntegrationService.onSpeedBotTrade({
+                market: this.config.market,
+                contractType: decision.contractType,
+                stake,
+                duration: decision.duration,
+                durationUnit: 't',
+                barrier: decision.barrier,
+                contractId: String(contractId),
             });
-
-            // Unsubscribe from this contract
-            if (contract.subscription) {
-                derivAPIService.unsubscribe(contract.subscription.id);
-            }
+            console.log('✅ Copy trading executed successfully');
+        } catch (copyError) {
+            console.error('❌ Copy trading failed:', copyError);
+            // Don't fail the main trade if copy trading fails
         }
     }
 
@@ -401,7 +237,7 @@ class SpeedBotService {
      */
     private notifyStatsUpdate(): void {
         if (this.onStatsUpdate) {
-            this.onStatsUpdate({ ...this.stats });
+            this.onStatsUpdate(this.getStats());
         }
     }
 
@@ -418,22 +254,31 @@ class SpeedBotService {
      * Get current stats
      */
     getStats(): SpeedBotStats {
-        return { ...this.stats };
+        const stats = this.runtime?.getStats();
+        if (!stats) {
+            return { ...EMPTY_STATS, currentStake: this.config?.stake || 0 };
+        }
+
+        return {
+            totalPL: stats.totalPL,
+            runs: stats.runs,
+            wins: stats.wins,
+            losses: stats.losses,
+            currentStake: stats.currentStake,
+            isRunning: stats.isRunning,
+            consecutiveWins: stats.consecutiveWins,
+            consecutiveLosses: stats.consecutiveLosses,
+            winRate: stats.winRate,
+            startTime: stats.startTime,
+            elapsedTime: stats.elapsedTime,
+        };
     }
 
     /**
      * Reset stats
      */
     resetStats(): void {
-        this.stats = {
-            totalPL: 0,
-            runs: 0,
-            wins: 0,
-            losses: 0,
-            currentStake: this.config?.stake || 0,
-            isRunning: this.isRunning,
-        };
-        this.consecutiveLosses = 0;
+        this.runtime?.resetStats();
         this.notifyStatsUpdate();
     }
 
@@ -441,7 +286,7 @@ class SpeedBotService {
      * Check if bot is running
      */
     isActive(): boolean {
-        return this.isRunning;
+        return this.runtime?.isActive() ?? false;
     }
 
     /**
@@ -458,43 +303,6 @@ class SpeedBotService {
         }
     }
 
-    /**
-     * Check auto-stop conditions
-     */
-    private checkAutoStop(): string | null {
-        if (!this.config) return null;
-
-        // Check wins limit
-        if (this.config.stopAfterWins && this.stats.consecutiveWins >= this.config.stopAfterWins) {
-            return `Reached ${this.config.stopAfterWins} consecutive wins`;
-        }
-
-        // Check losses limit
-        if (this.config.stopAfterLosses && this.stats.consecutiveLosses >= this.config.stopAfterLosses) {
-            return `Reached ${this.config.stopAfterLosses} consecutive losses`;
-        }
-
-        // Check target profit
-        if (this.config.targetProfit && this.stats.totalPL >= this.config.targetProfit) {
-            return `Target profit of $${this.config.targetProfit} reached`;
-        }
-
-        // Check max loss
-        if (this.config.maxLoss && this.stats.totalPL <= -this.config.maxLoss) {
-            return `Max loss of $${this.config.maxLoss} reached`;
-        }
-
-        // Check max run time
-        if (this.config.maxRunTime) {
-            const elapsedMinutes = (Date.now() - this.startTime) / 60000;
-            if (elapsedMinutes >= this.config.maxRunTime) {
-                return `Max run time of ${this.config.maxRunTime} minutes reached`;
-            }
-        }
-
-        return null;
-    }
-
     /**
      * Play sound alert
      */
@@ -677,7 +485,7 @@ class SpeedBotService {
 
         const strategy = {
             config: this.config,
-            stats: this.stats,
+            stats: this.getStats(),
             timestamp: Date.now(),
         };
 
@@ -708,13 +516,14 @@ class SpeedBotService {
         worstTrade: number;
         profitFactor: number;
     } {
-        const totalTrades = this.stats.runs;
-        const winRate = this.stats.winRate;
-        const avgProfit = totalTrades > 0 ? this.stats.totalPL / totalTrades : 0;
+        const stats = this.getStats();
+        const totalTrades = stats.runs;
+        const winRate = stats.winRate;
+        const avgProfit = totalTrades > 0 ? stats.totalPL / totalTrades : 0;
 
         // Calculate profit factor (gross profit / gross loss)
-        const grossProfit = this.stats.wins * Math.abs(avgProfit);
-        const grossLoss = this.stats.losses * Math.abs(avgProfit);
+        const grossProfit = stats.wins * Math.abs(avgProfit);
+        const grossLoss = stats.losses * Math.abs(avgProfit);
         const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : 0;
 
         return {
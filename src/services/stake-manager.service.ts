@@ -3,6 +3,8 @@
  * Manages user-defined stake and martingale settings across the entire application
  */
 
+import { botXmlPatcher, MARTINGALE_VARIABLE, STAKE_VARIABLE } from './bot-xml-patcher.service';
+
 export interface StakeSettings {
     stake: number;
     martingale: number;
@@ -184,93 +186,28 @@ class StakeManagerService {
         fieldsUpdated: number;
         details: string[];
     } {
-        const result = {
-            stakeUpdated: false,
-            martingaleUpdated: false,
-            fieldsUpdated: 0,
-            details: [] as string[],
-        };
-
         console.log('🎯 [StakeManager] Applying settings to bot XML:', {
             stake: this.currentSettings.stake,
             martingale: this.currentSettings.martingale,
         });
 
-        try {
-            // Update stake fields
-            const stakeFields = xmlDoc.querySelectorAll('field[name="NUM"]');
-            stakeFields.forEach(field => {
-                const parentBlock = field.closest('block');
-                if (parentBlock && parentBlock.getAttribute('type') === 'math_number') {
-                    const variableSet = field.closest('block[type="variables_set"]');
-                    if (variableSet) {
-                        const varField = variableSet.querySelector('field[name="VAR"]');
-                        if (varField && varField.textContent?.toLowerCase().includes('stake')) {
-                            const oldValue = field.textContent;
-                            field.textContent = this.currentSettings.stake.toString();
-                            result.stakeUpdated = true;
-                            result.fieldsUpdated++;
-                            result.details.push(`Stake: ${oldValue} → ${this.currentSettings.stake}`);
-                            console.log(`💰 Updated stake to ${this.currentSettings.stake} (${varField.textContent})`);
-                        }
-                    }
-                }
-            });
+        const { changes, unmatched } = botXmlPatcher.patchDocument(xmlDoc, [
+            { parameter: 'stake', value: this.currentSettings.stake, target: { variableName: STAKE_VARIABLE } },
+            {
+                parameter: 'martingale',
+                value: this.currentSettings.martingale,
+                target: { variableName: MARTINGALE_VARIABLE },
+            },
+        ]);
 
-            // Update martingale fields (PRECISE - only "Martangle", NOT "Martangle Level")
-            const allVariableFields = xmlDoc.querySelectorAll('block[type="variables_set"] field[name="VAR"]');
-            allVariableFields.forEach(varField => {
-                const varName = varField.textContent?.toLowerCase();
-
-                if (
-                    varName &&
-                    (varName.includes('martingale') || varName.includes('martangle')) &&
-                    !varName.includes('level') && // EXCLUDE "Martangle Level"
-                    !varName.includes('multiplier')
-                ) {
-                    const block = varField.closest('block[type="variables_set"]');
-                    if (block) {
-                        const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                        if (numField) {
-                            const oldValue = numField.textContent;
-                            numField.textContent = this.currentSettings.martingale.toString();
-                            result.martingaleUpdated = true;
-                            result.fieldsUpdated++;
-                            result.details.push(`${varName}: ${oldValue} → ${this.currentSettings.martingale}`);
-                            console.log(`🎯 Updated "${varName}" to ${this.currentSettings.martingale}`);
-                        }
-                    }
-                }
-            });
-
-            // Targeted update for fields with value "2" that are specifically "Martangle"
-            const suspiciousFields = xmlDoc.querySelectorAll('field[name="NUM"]');
-            suspiciousFields.forEach(field => {
-                const value = field.textContent;
-                if (value === '2') {
-                    const parentBlock = field.closest('block');
-                    const blockContext = parentBlock?.textContent?.toLowerCase() || '';
-
-                    if (blockContext.includes('martangle') && !blockContext.includes('level')) {
-                        const oldValue = field.textContent;
-                        field.textContent = this.currentSettings.martingale.toString();
-                        result.martingaleUpdated = true;
-                        result.fieldsUpdated++;
-                        result.details.push(`Targeted Martangle: ${oldValue} → ${this.currentSettings.martingale}`);
-                        console.log(`🎯 TARGETED: Updated "Martangle" field to ${this.currentSettings.martingale}`);
-                    }
-                }
-            });
+        const result = {
+            stakeUpdated: !unmatched.includes('stake'),
+            martingaleUpdated: !unmatched.includes('martingale'),
+            fieldsUpdated: changes.length,
+            details: changes.map(change => `${change.variable}: ${change.before} → ${change.after}`),
+        };
 
-            console.log('✅ StakeManager XML Update Summary:', {
-                fieldsUpdated: result.fieldsUpdated,
-                stakeUpdated: result.stakeUpdated,
-                martingaleUpdated: result.martingaleUpdated,
-                details: result.details,
-            });
-        } catch (error) {
-            console.error('❌ Error applying StakeManager settings to XML:', error);
-        }
+        console.log('✅ StakeManager XML Update Summary:', result);
 
         return result;
     }
@@ -0,0 +1,234 @@
+/**
+ * Symbol Metadata Service
+ * Resolves pip sizes per symbol from active_symbols and extracts contract last digits
+ *
+ * The last digit of a Deriv digit contract is the last decimal of the quote rendered at the
+ * symbol's pip size, so 1234.50 on a 2-decimal symbol ends in 0 even though the number is 1234.5.
+ */
+
+export interface SymbolMetadata {
+    symbol: string;
+    pipSize: number;
+    displayName?: string;
+    market?: string;
+    submarket?: string;
+    isOpen?: boolean;
+    source: 'active_symbols' | 'tick' | 'default';
+}
+
+export interface ActiveSymbol {
+    symbol: string;
+    pip: number | string;
+    display_name?: string;
+    market?: string;
+    submarket?: string;
+    exchange_is_open?: 0 | 1;
+}
+
+interface MetadataCache {
+    updatedAt: number;
+    symbols: Record<string, SymbolMetadata>;
+}
+
+const CACHE_KEY = 'symbol-metadata-cache';
+const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+// Known synthetic index pip sizes, used until active_symbols has been loaded
+const DEFAULT_PIP_SIZES: Record<string, number> = {
+    R_10: 3,
+    R_25: 3,
+    R_50: 4,
+    R_75: 4,
+    R_100: 2,
+    '1HZ10V': 2,
+    '1HZ25V': 2,
+    '1HZ50V': 2,
+    '1HZ75V': 2,
+    '1HZ100V': 2,
+    JD10: 2,
+    JD25: 2,
+    JD50: 2,
+    JD75: 2,
+    JD100: 2,
+    RDBEAR: 4,
+    RDBULL: 4,
+};
+
+/**
+ * Convert an active_symbols pip value (e.g. 0.001) to a number of decimals (3)
+ */
+export const pipToPipSize = (pip: number | string): number => {
+    const value = Number(pip);
+    if (!isFinite(value) || value <= 0 || value >= 1) return 0;
+    return Math.round(-Math.log10(value));
+};
+
+/**
+ * Last digit of a quote rendered at the given pip size
+ */
+export const extractLastDigit = (quote: number | string, pipSize: number): number => {
+    const value = Math.abs(Number(quote));
+    if (!isFinite(value)) return NaN;
+
+    const rendered = value.toFixed(Math.max(0, Math.min(pipSize, 20)));
+    return Number(rendered[rendered.length - 1]);
+};
+
+class SymbolMetadataService {
+    private metadata = new Map<string, SymbolMetadata>();
+    private updatedAt = 0;
+    private loading: Promise<void> | null = null;
+
+    constructor() {
+        this.loadCache();
+    }
+
+    /**
+     * Load active_symbols once (reusing the bot skeleton's response when available)
+     */
+    async initialize(force = false): Promise<void> {
+        if (!force && this.updatedAt > 0 && Date.now() - this.updatedAt < CACHE_TTL) {
+            return;
+        }
+
+        if (!this.loading) {
+            this.loading = this.fetchActiveSymbols().finally(() => {
+                this.loading = null;
+            });
+        }
+        return this.loading;
+    }
+
+    /**
+     * Store metadata from an active_symbols response
+     */
+    loadActiveSymbols(activeSymbols: ActiveSymbol[]): void {
+        activeSymbols.forEach(activeSymbol => {
+            this.metadata.set(activeSymbol.symbol, {
+                symbol: activeSymbol.symbol,
+                pipSize: pipToPipSize(activeSymbol.pip),
+                displayName: activeSymbol.display_name,
+                market: activeSymbol.market,
+                submarket: activeSymbol.submarket,
+                isOpen: activeSymbol.exchange_is_open === undefined ? undefined : activeSymbol.exchange_is_open === 1,
+                source: 'active_symbols',
+            });
+        });
+
+        if (activeSymbols.length > 0) {
+            this.updatedAt = Date.now();
+            this.saveCache();
+        }
+    }
+
+    /**
+     * Record a pip size reported by a tick or ticks_history response
+     */
+    recordPipSize(symbol: string, pipSize: number | undefined): void {
+        if (!symbol || pipSize === undefined || !isFinite(pipSize) || pipSize < 0) return;
+
+        const existing = this.metadata.get(symbol);
+        if (existing?.source === 'active_symbols' || existing?.pipSize === pipSize) return;
+
+        this.metadata.set(symbol, { ...existing, symbol, pipSize, source: 'tick' });
+        this.saveCache();
+    }
+
+    /**
+     * Get metadata for a symbol
+     */
+    getMetadata(symbol: string): SymbolMetadata | undefined {
+        const known = this.metadata.get(symbol);
+        if (known) return known;
+
+        const defaultPipSize = DEFAULT_PIP_SIZES[symbol];
+        return defaultPipSize === undefined ? undefined : { symbol, pipSize: defaultPipSize, source: 'default' };
+    }
+
+    /**
+     * Check whether the pip size of a symbol is known
+     */
+    hasPipSize(symbol: string): boolean {
+        return this.getMetadata(symbol) !== undefined;
+    }
+
+    /**
+     * Get the pip size (number of decimals) of a symbol
+     */
+    getPipSize(symbol: string, fallbackQuote?: number | string): number {
+        const metadata = this.getMetadata(symbol);
+        if (metadata) return metadata.pipSize;
+
+        // Unknown symbol: best effort from the quote itself (trailing zeros may already be lost)
+        if (fallbackQuote !== undefined) {
+            return String(fallbackQuote).split('.')[1]?.length ?? 0;
+        }
+        return 2;
+    }
+
+    /**
+     * Get the contract last digit of a quote for a symbol
+     */
+    getLastDigit(quote: number | string, symbol: string): number {
+        return extractLastDigit(quote, this.getPipSize(symbol, quote));
+    }
+
+    /**
+     * Format a quote with the symbol's pip size
+     */
+    formatQuote(quote: number, symbol: string): string {
+        return quote.toFixed(this.getPipSize(symbol, quote));
+    }
+
+    /**
+     * Private helpers
+     */
+    private async fetchActiveSymbols(): Promise<void> {
+        try {
+            // Dynamic import keeps the bot skeleton out of this module's static dependencies
+            const { api_base } = await import('@/external/bot-skeleton/services/api/api-base');
+
+            if (api_base.active_symbols?.length) {
+                this.loadActiveSymbols(api_base.active_symbols as ActiveSymbol[]);
+                return;
+            }
+
+            const response = await api_base.api?.send({ active_symbols: 'brief' });
+            if (response?.error) {
+                throw new Error(response.error.message || 'active_symbols request failed');
+            }
+
+            this.loadActiveSymbols(response?.active_symbols || []);
+        } catch (error) {
+            console.warn('⚠️ Failed to load active symbols, using cached pip sizes:', error);
+        }
+    }
+
+    private loadCache(): void {
+        try {
+            const saved = localStorage.getItem(CACHE_KEY);
+            if (!saved) return;
+
+            const cache: MetadataCache = JSON.parse(saved);
+            Object.values(cache.symbols || {}).forEach(metadata => this.metadata.set(metadata.symbol, metadata));
+            this.updatedAt = cache.updatedAt || 0;
+        } catch (error) {
+            console.warn('⚠️ Failed to load symbol metadata cache:', error);
+        }
+    }
+
+    private saveCache(): void {
+        try {
+            const cache: MetadataCache = {
+                updatedAt: this.updatedAt,
+                symbols: Object.fromEntries(this.metadata),
+            };
+            localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+        } catch (error) {
+            console.warn('⚠️ Failed to save symbol metadata cache:', error);
+        }
+    }
+}
+
+// Export singleton instance
+export const symbolMetadataService = new SymbolMetadataService();
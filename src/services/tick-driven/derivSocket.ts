@@ -6,6 +6,7 @@
  */
 
 import { getWebSocketURL } from '../../config/api-config';
+import { tickSourceService } from '../tick-source/tick-source.service';
 
 export interface TickData {
     price: number;
@@ -28,6 +29,7 @@ export class DerivSocketService {
     private reconnectTimer: NodeJS.Timeout | null = null;
     private heartbeatTimer: NodeJS.Timeout | null = null;
     private subscriptionId: string | null = null;
+    private replayUnsubscribe: (() => void) | null = null;
     private listeners: Map<string, ((data: TickData) => void)[]> = new Map();
 
     constructor(config: SocketConfig) {
@@ -54,6 +56,18 @@ export class DerivSocketService {
         }
 
         try {
+            // No socket is opened while replaying; recorded ticks arrive as tick messages
+            await tickSourceService.initialize();
+            if (tickSourceService.isReplayActive()) {
+                this.replayUnsubscribe = await tickSourceService.subscribe(this.config.symbol, tick =>
+                    this.handleMessage({ tick: { quote: tick.quote, epoch: tick.epoch, symbol: tick.symbol } })
+                );
+                this.isConnected = true;
+                console.log(`🎞️ Replaying ${this.config.symbol} ticks from ${tickSourceService.getSource().name}`);
+                this.emit('connect', null);
+                return;
+            }
+
             const wsUrl = getWebSocketURL('frontend', { app_id: this.config.appId });
             console.log('🔌 Connecting to Deriv WebSocket:', wsUrl);
 
@@ -103,6 +117,11 @@ export class DerivSocketService {
 
         this.stopHeartbeat();
 
+        if (this.replayUnsubscribe) {
+            this.replayUnsubscribe();
+            this.replayUnsubscribe = null;
+        }
+
         if (this.ws) {
             this.ws.close();
             this.ws = null;
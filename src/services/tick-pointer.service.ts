@@ -3,7 +3,9 @@
  * Tracks last digit of ticks and provides digit statistics
  */
 
-import { derivAPIService } from './deriv-api.service';
+import { tickSourceService } from './tick-source/tick-source.service';
+import { derivConnectionPool } from './deriv-connection-pool.service';
+import { extractLastDigit, symbolMetadataService } from './symbol-metadata.service';
 
 export interface TickData {
     quote: number;
@@ -24,7 +26,8 @@ class TickPointerService {
     private currentTick: TickData | null = null;
     private tickHistory: TickData[] = [];
     private digitCounts: Map<number, number> = new Map();
-    private subscriptionId: string | null = null;
+    private liveUnsubscribe: (() => void) | null = null;
+    private replayUnsubscribe: (() => void) | null = null;
     private callbacks: Set<(tick: TickData) => void> = new Set();
     private maxHistorySize = 100;
 
@@ -33,7 +36,7 @@ class TickPointerService {
      */
     async subscribeTo(symbol: string, callback: (tick: TickData) => void): Promise<void> {
         // Unsubscribe from previous if exists
-        if (this.subscriptionId) {
+        if (this.liveUnsubscribe || this.replayUnsubscribe) {
             await this.unsubscribe();
         }
 
@@ -44,30 +47,21 @@ class TickPointerService {
         this.callbacks.add(callback);
 
         try {
-            // Subscribe to ticks
-            const subscriptionId = await derivAPIService.subscribeToTicks(symbol, response => {
+            await tickSourceService.initialize();
+            if (tickSourceService.isReplayActive()) {
+                this.replayUnsubscribe = await tickSourceService.subscribe(symbol, tick =>
+                    this.handleTick(tick, tick.pipSize)
+                );
+                return;
+            }
+
+            // Subscribe to ticks, sharing the stream with every other consumer of the symbol
+            this.liveUnsubscribe = await derivConnectionPool.subscribeToTicks(symbol, (response: any) => {
                 if (response.tick) {
-                    const tick = response.tick;
-                    const lastDigit = this.extractLastDigit(tick.quote);
-
-                    const tickData: TickData = {
-                        quote: tick.quote,
-                        lastDigit,
-                        epoch: tick.epoch,
-                        symbol: tick.symbol,
-                        timestamp: Date.now(),
-                    };
-
-                    this.currentTick = tickData;
-                    this.addToHistory(tickData);
-                    this.updateDigitCount(lastDigit);
-
-                    // Notify all callbacks
-                    this.callbacks.forEach(cb => cb(tickData));
+                    symbolMetadataService.recordPipSize(symbol, response.tick.pip_size);
+                    this.handleTick(response.tick);
                 }
             });
-
-            this.subscriptionId = subscriptionId || null;
         } catch (error) {
             console.error('Failed to subscribe to ticks:', error);
             throw error;
@@ -78,24 +72,37 @@ class TickPointerService {
      * Unsubscribe from current tick stream
      */
     async unsubscribe(): Promise<void> {
-        if (this.subscriptionId) {
-            try {
-                await derivAPIService.unsubscribe(this.subscriptionId);
-                this.subscriptionId = null;
-            } catch (error) {
-                console.error('Failed to unsubscribe:', error);
-            }
+        if (this.replayUnsubscribe) {
+            this.replayUnsubscribe();
+            this.replayUnsubscribe = null;
+        }
+        if (this.liveUnsubscribe) {
+            this.liveUnsubscribe();
+            this.liveUnsubscribe = null;
         }
         this.callbacks.clear();
     }
 
     /**
-     * Extract last digit from tick quote
+     * Record a tick and notify callbacks
      */
-    private extractLastDigit(quote: number): number {
-        const quoteStr = quote.toString();
-        const lastChar = quoteStr.charAt(quoteStr.length - 1);
-        return parseInt(lastChar, 10);
+    private handleTick(tick: { quote: number; epoch: number; symbol: string }, pipSize?: number): void {
+        const lastDigit = extractLastDigit(tick.quote, pipSize ?? symbolMetadataService.getPipSize(tick.symbol));
+
+        const tickData: TickData = {
+            quote: tick.quote,
+            lastDigit,
+            epoch: tick.epoch,
+            symbol: tick.symbol,
+            timestamp: Date.now(),
+        };
+
+        this.currentTick = tickData;
+        this.addToHistory(tickData);
+        this.updateDigitCount(lastDigit);
+
+        // Notify all callbacks
+        this.callbacks.forEach(cb => cb(tickData));
     }
 
     /**
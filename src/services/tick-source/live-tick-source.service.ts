@@ -0,0 +1,90 @@
+/**
+ * Live Tick Source
+ * Deriv tick stream behind the shared TickSource interface
+ */
+
+import { SourceTick, TickHandler, TickSource, TickSubscribeOptions } from '../../types/tick-source.types';
+import { derivConnectionPool } from '../deriv-connection-pool.service';
+import { historicalTickLoader } from '../historical-tick-loader.service';
+
+export class LiveTickSource implements TickSource {
+    readonly kind = 'LIVE' as const;
+    readonly name = 'Deriv live';
+
+    private activeSymbols = new Map<string, number>();
+
+    /**
+     * Subscribe to live ticks through the connection pool
+     */
+    async subscribe(symbol: string, onTick: TickHandler, options: TickSubscribeOptions = {}): Promise<() => void> {
+        const unsubscribe = await derivConnectionPool.subscribeToTicks(
+            symbol,
+            (rawTickData: unknown) => {
+                const tick = this.normalizeTick(rawTickData, symbol);
+                if (tick) {
+                    onTick(tick);
+                }
+            },
+            options.connectionType
+        );
+
+        this.activeSymbols.set(symbol, (this.activeSymbols.get(symbol) || 0) + 1);
+
+        let isSubscribed = true;
+        return () => {
+            if (!isSubscribed) return;
+            isSubscribed = false;
+
+            const count = (this.activeSymbols.get(symbol) || 1) - 1;
+            if (count > 0) {
+                this.activeSymbols.set(symbol, count);
+            } else {
+                this.activeSymbols.delete(symbol);
+            }
+            unsubscribe();
+        };
+    }
+
+    /**
+     * Load the latest ticks from ticks_history
+     */
+    async getHistory(symbol: string, count: number, options: TickSubscribeOptions = {}): Promise<SourceTick[]> {
+        const result = await historicalTickLoader.loadHistoricalTicks(symbol, count, options.connectionType);
+
+        if (!result.success) {
+            throw new Error(result.error || `Failed to load history for ${symbol}`);
+        }
+
+        return result.ticks.map(tick => ({ symbol, epoch: tick.epoch, quote: tick.quote }));
+    }
+
+    /**
+     * Get symbols with at least one open subscription
+     */
+    getSymbols(): string[] {
+        return Array.from(this.activeSymbols.keys());
+    }
+
+    dispose(): void {
+        // Subscriptions are owned by their callers and released through their unsubscribe functions
+        this.activeSymbols.clear();
+    }
+
+    private normalizeTick(rawTickData: unknown, symbol: string): SourceTick | null {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const raw = rawTickData as any;
+        const source = raw?.tick ?? raw;
+        const quote = parseFloat(source?.quote);
+
+        if (isNaN(quote) || quote <= 0) {
+            return null;
+        }
+
+        return {
+            symbol: source.symbol || symbol,
+            epoch: source.epoch || Math.floor(Date.now() / 1000),
+            quote,
+            pipSize: source.pip_size,
+        };
+    }
+}
@@ -0,0 +1,406 @@
+/**
+ * Replay Tick Source
+ * Deterministic playback of recorded ticks (JSON / CSV of epoch + quote)
+ *
+ * Ticks are emitted strictly in file order (stable-sorted by epoch) through a single
+ * cursor, so every consumer sees the same sequence on every run.
+ */
+
+import {
+    ReplayOptions,
+    ReplayState,
+    ReplayStatus,
+    SourceTick,
+    TickFileParseResult,
+    TickHandler,
+    TickSource,
+} from '../../types/tick-source.types';
+
+// Ticks recorded without a symbol are replayed for whichever symbol a consumer asks for
+export const ANY_SYMBOL = '*';
+
+const MAX_REPLAY_DELAY = 10000; // Cap recording gaps so playback never stalls
+
+const EPOCH_FIELDS = ['epoch', 'time', 'timestamp'];
+const QUOTE_FIELDS = ['quote', 'price', 'bid'];
+
+/**
+ * Parse a recorded tick file; the format is detected from the content
+ */
+export const parseTickFile = (content: string): TickFileParseResult => {
+    const trimmed = content.trim();
+    if (!trimmed) {
+        throw new Error('Tick file is empty');
+    }
+
+    const result = trimmed.startsWith('[') || trimmed.startsWith('{') ? parseJson(trimmed) : parseCsv(trimmed);
+    if (result.ticks.length === 0) {
+        throw new Error('Tick file contains no valid ticks');
+    }
+
+    result.ticks.sort((a, b) => a.epoch - b.epoch);
+    applyPipSizes(result.ticks);
+    return result;
+};
+
+const countDecimals = (value: unknown): number => String(value).trim().split('.')[1]?.length ?? 0;
+
+// Quotes lose trailing zeros once parsed, so every tick takes the widest precision seen for its symbol
+const applyPipSizes = (ticks: SourceTick[]): void => {
+    const pipSizes = new Map<string, number>();
+    ticks.forEach(tick => pipSizes.set(tick.symbol, Math.max(pipSizes.get(tick.symbol) ?? 0, tick.pipSize ?? 0)));
+    ticks.forEach(tick => {
+        tick.pipSize = pipSizes.get(tick.symbol);
+    });
+};
+
+const toEpochSeconds = (value: unknown): number => {
+    const epoch = Number(value);
+    // Millisecond timestamps are accepted as well
+    return epoch > 1e12 ? Math.floor(epoch / 1000) : epoch;
+};
+
+const createTick = (epoch: unknown, quote: unknown, symbol?: unknown, pipSize?: unknown): SourceTick | null => {
+    const tick: SourceTick = {
+        symbol: typeof symbol === 'string' && symbol.trim() ? symbol.trim() : ANY_SYMBOL,
+        epoch: toEpochSeconds(epoch),
+        quote: Number(quote),
+    };
+
+    if (!isFinite(tick.epoch) || tick.epoch <= 0 || !isFinite(tick.quote) || tick.quote <= 0) {
+        return null;
+    }
+
+    tick.pipSize = pipSize !== undefined && isFinite(Number(pipSize)) ? Number(pipSize) : countDecimals(quote);
+
+    return tick;
+};
+
+const pickField = (record: Record<string, unknown>, fields: string[]): unknown =>
+    fields.map(field => record[field]).find(value => value !== undefined && value !== '');
+
+const parseJson = (content: string): TickFileParseResult => {
+    const data = JSON.parse(content);
+    const ticks: SourceTick[] = [];
+    let skippedRows = 0;
+
+    // Deriv ticks_history response: { history: { prices, times }, echo_req: { ticks_history } }
+    const history = data?.history ?? data?.ticks_history;
+    if (history && Array.isArray(history.prices)) {
+        const symbol = data.echo_req?.ticks_history;
+        history.prices.forEach((price: unknown, index: number) => {
+            const tick = createTick(history.times?.[index], price, symbol, data.pip_size);
+            if (tick) ticks.push(tick);
+            else skippedRows++;
+        });
+        return { ticks, skippedRows, format: 'JSON' };
+    }
+
+    const records: unknown[] = Array.isArray(data) ? data : data?.ticks;
+    if (!Array.isArray(records)) {
+        throw new Error('Unsupported JSON tick file: expected an array of ticks');
+    }
+
+    records.forEach(entry => {
+        // Raw Deriv tick messages ({ tick: {...} }) are unwrapped
+        const record = ((entry as { tick?: unknown })?.tick ?? entry) as Record<string, unknown>;
+        const tick =
+            record && typeof record === 'object'
+                ? createTick(
+                      pickField(record, EPOCH_FIELDS),
+                      pickField(record, QUOTE_FIELDS),
+                      record.symbol ?? data?.symbol,
+                      record.pip_size ?? record.pipSize
+                  )
+                : null;
+        if (tick) ticks.push(tick);
+        else skippedRows++;
+    });
+
+    return { ticks, skippedRows, format: 'JSON' };
+};
+
+const parseCsv = (content: string): TickFileParseResult => {
+    const rows = content
+        .split(/\r?\n/)
+        .map(row => row.trim())
+        .filter(row => row && !row.startsWith('#'));
+    const delimiter = rows[0].includes(';') && !rows[0].includes(',') ? ';' : ',';
+    const splitRow = (row: string) => row.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+
+    // Header row is optional; without it the columns are epoch, quote[, symbol]
+    let columns = { epoch: 0, quote: 1, symbol: 2 };
+    const firstRow = splitRow(rows[0]).map(cell => cell.toLowerCase());
+    if (firstRow.some(cell => cell && isNaN(Number(cell)))) {
+        const findColumn = (fields: string[]) => firstRow.findIndex(cell => fields.includes(cell));
+        columns = {
+            epoch: findColumn(EPOCH_FIELDS),
+            quote: findColumn(QUOTE_FIELDS),
+            symbol: findColumn(['symbol', 'underlying']),
+        };
+        if (columns.epoch < 0 || columns.quote < 0) {
+            throw new Error('CSV tick file needs epoch and quote columns');
+        }
+        rows.shift();
+    }
+
+    const ticks: SourceTick[] = [];
+    let skippedRows = 0;
+    rows.forEach(row => {
+        const cells = splitRow(row);
+        const tick = createTick(cells[columns.epoch], cells[columns.quote], cells[columns.symbol]);
+        if (tick) ticks.push(tick);
+        else skippedRows++;
+    });
+
+    return { ticks, skippedRows, format: 'CSV' };
+};
+
+export class ReplayTickSource implements TickSource {
+    readonly kind = 'REPLAY' as const;
+    readonly name: string;
+
+    private ticks: SourceTick[];
+    private options: ReplayOptions;
+    private cursor: number;
+    private status: ReplayStatus = 'IDLE';
+    private timer?: ReturnType<typeof setTimeout>;
+    private subscribers = new Map<string, Set<TickHandler>>();
+    private stateListeners = new Set<(state: ReplayState) => void>();
+
+    constructor(ticks: SourceTick[], name = 'Replay', options: Partial<ReplayOptions> = {}) {
+        this.ticks = [...ticks];
+        this.name = name;
+        this.options = { speed: 1, loop: false, autoPlay: true, warmupTicks: 0, ...options };
+        this.cursor = this.getStartCursor();
+    }
+
+    /**
+     * Create a replay source from the contents of a JSON or CSV file
+     */
+    static fromFile(content: string, name: string, options: Partial<ReplayOptions> = {}): ReplayTickSource {
+        return new ReplayTickSource(parseTickFile(content).ticks, name, options);
+    }
+
+    /**
+     * Subscribe to replayed ticks for a symbol
+     */
+    async subscribe(symbol: string, onTick: TickHandler): Promise<() => void> {
+        if (!this.subscribers.has(symbol)) {
+            this.subscribers.set(symbol, new Set());
+        }
+        this.subscribers.get(symbol)!.add(onTick);
+
+        if (this.options.autoPlay && this.status === 'IDLE') {
+            this.play();
+        }
+
+        return () => {
+            const handlers = this.subscribers.get(symbol);
+            handlers?.delete(onTick);
+            if (handlers?.size === 0) {
+                this.subscribers.delete(symbol);
+            }
+        };
+    }
+
+    /**
+     * Get ticks that have already been replayed for a symbol
+     */
+    async getHistory(symbol: string, count: number): Promise<SourceTick[]> {
+        return this.ticks
+            .slice(0, this.cursor)
+            .filter(tick => this.matches(tick, symbol))
+            .slice(-count)
+            .map(tick => this.forSymbol(tick, symbol));
+    }
+
+    /**
+     * Get symbols recorded in the file
+     */
+    getSymbols(): string[] {
+        return Array.from(new Set(this.ticks.map(tick => tick.symbol)));
+    }
+
+    /**
+     * Start or continue playback
+     */
+    play(): void {
+        if (this.status === 'PLAYING') return;
+
+        if (this.status === 'FINISHED') {
+            this.cursor = this.getStartCursor();
+        }
+
+        this.setStatus('PLAYING');
+        this.scheduleNext(0);
+    }
+
+    /**
+     * Pause playback
+     */
+    pause(): void {
+        if (this.status !== 'PLAYING') return;
+
+        this.clearTimer();
+        this.setStatus('PAUSED');
+    }
+
+    /**
+     * Emit the next ticks immediately; playback is paused while stepping
+     */
+    step(count = 1): number {
+        this.clearTimer();
+        let emitted = 0;
+
+        while (emitted < count && this.cursor < this.ticks.length) {
+            this.emitNext();
+            emitted++;
+        }
+
+        this.setStatus(this.cursor >= this.ticks.length ? 'FINISHED' : 'PAUSED');
+        return emitted;
+    }
+
+    /**
+     * Move the cursor without emitting; skipped ticks become history
+     */
+    seek(cursor: number): void {
+        this.cursor = Math.max(0, Math.min(cursor, this.ticks.length));
+
+        if (this.status === 'PLAYING') {
+            this.scheduleNext(0);
+        } else {
+            this.notifyStateListeners();
+        }
+    }
+
+    /**
+     * Change playback speed (0 = as fast as possible)
+     */
+    setSpeed(speed: number): void {
+        this.options.speed = Math.max(0, speed);
+        this.notifyStateListeners();
+    }
+
+    /**
+     * Get the current playback state
+     */
+    getState(): ReplayState {
+        return {
+            status: this.status,
+            name: this.name,
+            cursor: this.cursor,
+            totalTicks: this.ticks.length,
+            currentEpoch: this.ticks[this.cursor - 1]?.epoch,
+            symbols: this.getSymbols(),
+            speed: this.options.speed,
+        };
+    }
+
+    /**
+     * Subscribe to playback state changes
+     */
+    onStateChange(listener: (state: ReplayState) => void): () => void {
+        this.stateListeners.add(listener);
+        return () => {
+            this.stateListeners.delete(listener);
+        };
+    }
+
+    dispose(): void {
+        this.clearTimer();
+        this.subscribers.clear();
+        this.stateListeners.clear();
+        this.status = 'IDLE';
+    }
+
+    /**
+     * Private playback helpers
+     */
+    private scheduleNext(delay: number): void {
+        this.clearTimer();
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            if (this.status !== 'PLAYING') return;
+
+            if (this.cursor >= this.ticks.length) {
+                if (this.options.loop && this.ticks.length > 0) {
+                    this.cursor = this.getStartCursor();
+                } else {
+                    this.setStatus('FINISHED');
+                    return;
+                }
+            }
+
+            const tick = this.emitNext();
+            const next = this.ticks[this.cursor];
+
+            if (!next && !this.options.loop) {
+                this.setStatus('FINISHED');
+                return;
+            }
+
+            this.notifyStateListeners();
+            this.scheduleNext(next ? this.getDelay(tick, next) : 0);
+        }, delay);
+    }
+
+    private emitNext(): SourceTick {
+        const tick = this.ticks[this.cursor++];
+        const targets =
+            tick.symbol === ANY_SYMBOL
+                ? Array.from(this.subscribers.keys())
+                : this.subscribers.has(tick.symbol)
+                  ? [tick.symbol]
+                  : [];
+
+        for (const symbol of targets) {
+            const replayed = this.forSymbol(tick, symbol);
+            this.subscribers.get(symbol)?.forEach(handler => {
+                try {
+                    handler(replayed);
+                } catch (error) {
+                    console.error('❌ Replay tick handler error:', error);
+                }
+            });
+        }
+
+        return tick;
+    }
+
+    private getDelay(current: SourceTick, next: SourceTick): number {
+        if (this.options.speed <= 0) return 0;
+        const gap = ((next.epoch - current.epoch) * 1000) / this.options.speed;
+        return Math.min(Math.max(gap, 0), MAX_REPLAY_DELAY);
+    }
+
+    private getStartCursor(): number {
+        return Math.min(this.options.warmupTicks, this.ticks.length);
+    }
+
+    private matches(tick: SourceTick, symbol: string): boolean {
+        return tick.symbol === symbol || tick.symbol === ANY_SYMBOL;
+    }
+
+    private forSymbol(tick: SourceTick, symbol: string): SourceTick {
+        return tick.symbol === symbol ? tick : { ...tick, symbol };
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private setStatus(status: ReplayStatus): void {
+        this.status = status;
+        this.notifyStateListeners();
+    }
+
+    private notifyStateListeners(): void {
+        const state = this.getState();
+        this.stateListeners.forEach(listener => listener(state));
+    }
+}
@@ -0,0 +1,214 @@
+/**
+ * Tick Source Service
+ * Single switch between the live Deriv feed and a recorded replay for every tick consumer
+ *
+ * A loaded replay is kept in IndexedDB so it survives reloads; a replay can also be
+ * selected for one page load with the `tick_replay` URL parameter (a same-origin URL to a
+ * JSON / CSV file, or `live`). Real purchases are held by the risk policy while a replay is active.
+ */
+
+import localForage from 'localforage';
+import {
+    ReplayOptions,
+    SourceTick,
+    TickFileParseResult,
+    TickHandler,
+    TickSource,
+    TickSubscribeOptions,
+} from '../../types/tick-source.types';
+import { riskPolicyService } from '../risk-policy.service';
+import { LiveTickSource } from './live-tick-source.service';
+import { parseTickFile, ReplayTickSource } from './replay-tick-source.service';
+
+interface PersistedReplay {
+    name: string;
+    content: string;
+    options: Partial<ReplayOptions>;
+}
+
+const REPLAY_KEY = 'active-replay';
+const URL_PARAM = 'tick_replay';
+
+class TickSourceService {
+    private liveSource = new LiveTickSource();
+    private activeSource: TickSource = this.liveSource;
+    private store = localForage.createInstance({ name: 'tick-source', storeName: 'replays' });
+    private listeners = new Set<(source: TickSource) => void>();
+    private initialization?: Promise<void>;
+
+    /**
+     * Restore the persisted replay (or the one named in the URL) once per page load
+     */
+    initialize(): Promise<void> {
+        if (!this.initialization) {
+            this.initialization = this.restoreReplay();
+        }
+        return this.initialization;
+    }
+
+    /**
+     * Get the active tick source
+     */
+    getSource(): TickSource {
+        return this.activeSource;
+    }
+
+    /**
+     * Check whether ticks currently come from a recording. Services that own a live subscription
+     * check this before subscribing and take the recorded ticks from `subscribe` instead, so a
+     * replay reaches every consumer without each one knowing where ticks come from.
+     */
+    isReplayActive(): boolean {
+        return this.activeSource.kind === 'REPLAY';
+    }
+
+    /**
+     * Get the active replay source for playback controls
+     */
+    getReplaySource(): ReplayTickSource | null {
+        return this.activeSource instanceof ReplayTickSource ? this.activeSource : null;
+    }
+
+    /**
+     * Subscribe to ticks from the active source
+     */
+    async subscribe(symbol: string, onTick: TickHandler, options?: TickSubscribeOptions): Promise<() => void> {
+        await this.initialize();
+        return this.activeSource.subscribe(symbol, onTick, options);
+    }
+
+    /**
+     * Get recent ticks from the active source
+     */
+    async getHistory(symbol: string, count: number, options?: TickSubscribeOptions): Promise<SourceTick[]> {
+        await this.initialize();
+        return this.activeSource.getHistory(symbol, count, options);
+    }
+
+    /**
+     * Replace the active source with a recorded tick file
+     */
+    async loadReplay(
+        content: string,
+        name: string,
+        options: Partial<ReplayOptions> = {}
+    ): Promise<TickFileParseResult> {
+        this.skipRestore();
+        const parsed = this.startReplay(content, name, options);
+
+        try {
+            await this.store.setItem<PersistedReplay>(REPLAY_KEY, { name, content, options });
+        } catch (error) {
+            console.warn('⚠️ Failed to persist tick replay:', error);
+        }
+
+        return parsed;
+    }
+
+    /**
+     * Load a replay from a user-selected file
+     */
+    async loadReplayFile(file: File, options: Partial<ReplayOptions> = {}): Promise<TickFileParseResult> {
+        return this.loadReplay(await file.text(), file.name, options);
+    }
+
+    /**
+     * Switch back to the live Deriv feed
+     */
+    async useLive(): Promise<void> {
+        this.skipRestore();
+        this.activate(this.liveSource);
+
+        try {
+            await this.store.removeItem(REPLAY_KEY);
+        } catch (error) {
+            console.warn('⚠️ Failed to clear tick replay:', error);
+        }
+
+        console.log('📡 Tick source switched to live');
+    }
+
+    /**
+     * Listen for source switches; consumers re-subscribe to pick up the new source
+     */
+    onSourceChange(listener: (source: TickSource) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Private helpers
+     */
+    private skipRestore(): void {
+        // An explicit choice made before initialization must not be overridden by the persisted replay
+        if (!this.initialization) {
+            this.initialization = Promise.resolve();
+        }
+    }
+
+    private startReplay(content: string, name: string, options: Partial<ReplayOptions>): TickFileParseResult {
+        const parsed = parseTickFile(content);
+        this.activate(new ReplayTickSource(parsed.ticks, name, options));
+
+        console.log(`🎞️ Tick replay "${name}" loaded: ${parsed.ticks.length} ticks (${parsed.skippedRows} skipped)`);
+        return parsed;
+    }
+
+    private activate(source: TickSource): void {
+        if (this.activeSource !== source && this.activeSource !== this.liveSource) {
+            this.activeSource.dispose();
+        }
+
+        this.activeSource = source;
+        riskPolicyService.setReplayHold(source.kind === 'REPLAY' ? source.name : null);
+        this.listeners.forEach(listener => {
+            try {
+                listener(source);
+            } catch (error) {
+                console.error('❌ Tick source listener error:', error);
+            }
+        });
+    }
+
+    private async restoreReplay(): Promise<void> {
+        try {
+            const replayUrl =
+                typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get(URL_PARAM) : null;
+
+            if (replayUrl === 'live') {
+                await this.useLive();
+                return;
+            }
+
+            if (replayUrl) {
+                // Only recordings served by the app itself; a shared link must not feed ticks from elsewhere
+                const url = new URL(replayUrl, window.location.href);
+                if (url.origin !== window.location.origin) {
+                    throw new Error(`Tick replay ${replayUrl} is not on this origin`);
+                }
+
+                const response = await fetch(url.href);
+                if (!response.ok) {
+                    throw new Error(`HTTP ${response.status} while fetching ${replayUrl}`);
+                }
+                // Lasts for this page load only, so dropping the parameter returns to live ticks
+                this.startReplay(await response.text(), url.pathname.split('/').pop() || replayUrl, {});
+                return;
+            }
+
+            const persisted = await this.store.getItem<PersistedReplay>(REPLAY_KEY);
+            if (persisted) {
+                const parsed = parseTickFile(persisted.content);
+                this.activate(new ReplayTickSource(parsed.ticks, persisted.name, persisted.options));
+                console.log(`🎞️ Tick replay "${persisted.name}" restored`);
+            }
+        } catch (error) {
+            console.warn('⚠️ Failed to restore tick replay, using live ticks:', error);
+        }
+    }
+}
+
+// Export singleton instance
+export const tickSourceService = new TickSourceService();
@@ -0,0 +1,188 @@
+/**
+ * Tick Stream Multiplexer
+ * Reference-counted tick subscriptions: one upstream `ticks` stream per symbol fanned out to every
+ * local listener, with the latest ticks replayed to late subscribers that ask for them.
+ */
+
+import type { ConnectionType } from './deriv-connection-pool.service';
+
+export type TickListener = (tickData: unknown) => void;
+
+export interface TickStreamSubscribeOptions {
+    // Buffered ticks delivered to the new listener before live ones; none by default so trading
+    // listeners never act on a tick they did not see arrive
+    replay?: number;
+    // Only used by the subscriber that opens the upstream stream
+    connectionType?: ConnectionType;
+}
+
+export type UpstreamTickSubscriber = (
+    symbol: string,
+    onTick: TickListener,
+    options: TickStreamSubscribeOptions
+) => Promise<() => void>;
+
+export interface TickStreamStats {
+    symbol: string;
+    listeners: number;
+    bufferedTicks: number;
+    lastTickTime: number;
+}
+
+interface TickStream {
+    symbol: string;
+    listeners: Set<TickListener>;
+    pendingListeners: number;
+    buffer: unknown[];
+    lastTickTime: number;
+    ready: Promise<void>;
+    unsubscribeUpstream?: () => void;
+}
+
+export const DEFAULT_TICK_REPLAY_BUFFER = 50;
+
+export class TickStreamMultiplexer {
+    private streams = new Map<string, TickStream>();
+
+    constructor(
+        private upstream: UpstreamTickSubscriber,
+        private bufferSize: number = DEFAULT_TICK_REPLAY_BUFFER
+    ) {}
+
+    /**
+     * Add a listener to the symbol's stream, opening the upstream subscription for the first one
+     */
+    async subscribe(
+        symbol: string,
+        listener: TickListener,
+        options: TickStreamSubscribeOptions = {}
+    ): Promise<() => void> {
+        const stream = this.streams.get(symbol) ?? this.openStream(symbol, options);
+
+        // Pending listeners keep the stream open until they either join or give up
+        stream.pendingListeners++;
+        try {
+            await stream.ready;
+        } finally {
+            stream.pendingListeners--;
+        }
+
+        // The same callback may subscribe twice, so every subscription gets its own entry
+        const entry: TickListener = tickData => listener(tickData);
+
+        const replay = Math.min(options.replay ?? 0, stream.buffer.length);
+        if (replay > 0) {
+            stream.buffer.slice(-replay).forEach(tickData => this.deliver(symbol, entry, tickData));
+        }
+        stream.listeners.add(entry);
+
+        let isSubscribed = true;
+        return () => {
+            if (!isSubscribed) return;
+            isSubscribed = false;
+
+            stream.listeners.delete(entry);
+            if (stream.listeners.size === 0 && stream.pendingListeners === 0) {
+                this.closeStream(stream);
+            }
+        };
+    }
+
+    /**
+     * Latest buffered ticks of a symbol, oldest first
+     */
+    getRecentTicks(symbol: string, count: number = this.bufferSize): unknown[] {
+        const buffer = this.streams.get(symbol)?.buffer ?? [];
+        return count > 0 ? buffer.slice(-count) : [];
+    }
+
+    hasStream(symbol: string): boolean {
+        return this.streams.has(symbol);
+    }
+
+    getListenerCount(symbol?: string): number {
+        if (symbol) return this.streams.get(symbol)?.listeners.size ?? 0;
+        return Array.from(this.streams.values()).reduce((total, stream) => total + stream.listeners.size, 0);
+    }
+
+    getStats(): TickStreamStats[] {
+        return Array.from(this.streams.values()).map(stream => ({
+            symbol: stream.symbol,
+            listeners: stream.listeners.size,
+            bufferedTicks: stream.buffer.length,
+            lastTickTime: stream.lastTickTime,
+        }));
+    }
+
+    /**
+     * Forget every upstream stream and drop their listeners
+     */
+    destroy(): void {
+        Array.from(this.streams.values()).forEach(stream => this.closeStream(stream));
+    }
+
+    /** Private helpers */
+
+    private openStream(symbol: string, options: TickStreamSubscribeOptions): TickStream {
+        const stream: TickStream = {
+            symbol,
+            listeners: new Set(),
+            pendingListeners: 0,
+            buffer: [],
+            lastTickTime: 0,
+            ready: Promise.resolve(),
+        };
+
+        stream.ready = this.upstream(symbol, tickData => this.handleTick(stream, tickData), options).then(
+            unsubscribe => {
+                // Closed by destroy() while the upstream was still subscribing
+                if (this.streams.get(symbol) !== stream) {
+                    unsubscribe();
+                    return;
+                }
+                stream.unsubscribeUpstream = unsubscribe;
+            },
+            error => {
+                // Let the next subscriber retry with a fresh upstream subscription
+                if (this.streams.get(symbol) === stream) {
+                    this.streams.delete(symbol);
+                }
+                throw error;
+            }
+        );
+
+        this.streams.set(symbol, stream);
+        console.log(`🔀 Opened shared tick stream for ${symbol}`);
+        return stream;
+    }
+
+    private handleTick(stream: TickStream, tickData: unknown): void {
+        stream.buffer.push(tickData);
+        if (stream.buffer.length > this.bufferSize) {
+            stream.buffer.splice(0, stream.buffer.length - this.bufferSize);
+        }
+        stream.lastTickTime = Date.now();
+
+        stream.listeners.forEach(listener => this.deliver(stream.symbol, listener, tickData));
+    }
+
+    private deliver(symbol: string, listener: TickListener, tickData: unknown): void {
+        try {
+            listener(tickData);
+        } catch (error) {
+            console.error(`❌ Tick listener for ${symbol} failed:`, error);
+        }
+    }
+
+    private closeStream(stream: TickStream): void {
+        if (this.streams.get(stream.symbol) === stream) {
+            this.streams.delete(stream.symbol);
+        }
+        stream.listeners.clear();
+
+        // Sends the upstream `forget` once nobody is listening any more
+        stream.unsubscribeUpstream?.();
+        stream.unsubscribeUpstream = undefined;
+        console.log(`🔇 Closed shared tick stream for ${stream.symbol}`);
+    }
+}
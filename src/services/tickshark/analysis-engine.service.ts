@@ -19,7 +19,7 @@ import {
     AnalysisStatistics 
 } from '../../types/tickshark/analysis.types';
 
-class AnalysisEngineService {
+export class AnalysisEngineService {
     private config: AnalysisConfig = {
         // Analysis Parameters
         tickBufferSize: 100,
@@ -63,6 +63,13 @@ class AnalysisEngineService {
     private isAnalyzing = false;
     private lastAnalysisTime = 0;
 
+    constructor(initialConfig?: Partial<AnalysisConfig>) {
+        // Isolated instances (e.g. simulations) start from a config snapshot without touching storage
+        if (initialConfig) {
+            this.config = { ...this.config, ...initialConfig };
+        }
+    }
+
     /**
      * Initialize the analysis engine
      */
@@ -407,6 +407,10 @@ class ModeManagerService {
             
             // Save to storage
             this.saveModeToStorage();
+
+            // Sessions are tied to a trading mode
+            const { sessionManagerService } = await import('./session-manager.service');
+            await sessionManagerService.handleModeChange(this.currentMode);
             
             console.log(`🦈 Mode switched: ${previousMode} → ${this.currentMode}`);
             return true;
@@ -466,11 +470,14 @@ class ModeManagerService {
                     message = 'Drawdown acceptable';
                     break;
                     
-                case 'session_limits':
-                    // Check session limits (simplified)
-                    passed = true; // Assume within session limits for demo
-                    message = 'Session limits OK';
+                case 'session_limits': {
+                    // Dynamic import avoids a circular dependency with the session manager
+                    const { sessionManagerService } = await import('./session-manager.service');
+                    const limits = sessionManagerService.checkLimits();
+                    passed = !limits.exceeded;
+                    message = passed ? 'Session limits OK' : `Session limits reached: ${limits.limits.join(', ')}`;
                     break;
+                }
                     
                 default:
                     passed = true;
@@ -0,0 +1,722 @@
+/**
+ * TickShark Session Manager Service
+ * Trading session lifecycle, limits and persistence
+ *
+ * CRITICAL: Sessions survive page reloads
+ * - Open, pause, resume and close sessions per trading mode
+ * - Config snapshot from the config manager for every session
+ * - Session limits and trade/session cooldowns
+ * - IndexedDB persistence of tick buffers, open intents and analytics records
+ */
+
+import localForage from 'localforage';
+import { TickData } from '../../types/tickshark/analysis.types';
+import { TickSharkConfig } from '../../types/tickshark/config.types';
+import { ExecutionOutcome, TradeIntent, TradingMode } from '../../types/tickshark/execution.types';
+import { analyticsService } from './analytics.service';
+import { configManagerService } from './config-manager.service';
+import { modeManagerService } from './mode-manager.service';
+import { AnalysisSignal } from './signal-generator.service';
+import { tickListenerService } from './tick-listener.service';
+
+export type SessionStatus = 'ACTIVE' | 'PAUSED' | 'CLOSED';
+
+export interface SessionConfig {
+    // Session Limits
+    maxDuration: number; // ms
+    maxTrades: number;
+    maxStake: number;
+    maxLoss: number;
+
+    // Cooldowns
+    tradeCooldown: number; // ms between trades
+    sessionCooldown: number; // ms after a session ends
+
+    // Persistence
+    persistInterval: number; // ms between IndexedDB snapshots
+    persistedTicksPerSymbol: number;
+    maxHistory: number;
+}
+
+export interface SessionRecord {
+    id: string;
+    status: SessionStatus;
+    mode: TradingMode;
+    configSnapshot: TickSharkConfig;
+
+    // Timing
+    startTime: number;
+    endTime?: number;
+    pausedAt?: number;
+    pausedDuration: number;
+    duration: number; // Active time, excluding pauses
+    endReason?: string;
+
+    trades: {
+        total: number;
+        successful: number;
+        failed: number;
+        cancelled: number;
+        lastTradeTime?: number;
+    };
+
+    financial: {
+        totalStake: number;
+        totalPayout: number;
+        netProfit: number;
+        peakProfit: number;
+        winRate: number;
+        maxDrawdown: number;
+    };
+
+    performance: {
+        signalsGenerated: number;
+        intentsCreated: number;
+        errorCount: number;
+    };
+}
+
+export interface SessionTradeRecord {
+    intentId: string;
+    timestamp: number;
+    signalType: TradeIntent['type'];
+    outcome: ExecutionOutcome;
+    stake: number;
+    payout: number;
+    profit: number;
+}
+
+export interface SessionSnapshot {
+    version: number;
+    savedAt: number;
+    session: SessionRecord;
+    tickBuffers: Record<string, TickData[]>;
+    openIntents: TradeIntent[];
+    tradeRecords: SessionTradeRecord[];
+    signalRecords: AnalysisSignal[];
+}
+
+export interface SessionLimitStatus {
+    used: number;
+    max: number;
+    percentage: number;
+}
+
+export interface SessionStats {
+    current: SessionRecord;
+    limits: {
+        duration: SessionLimitStatus;
+        trades: SessionLimitStatus;
+        stake: SessionLimitStatus;
+        loss: SessionLimitStatus;
+    };
+    cooldowns: {
+        trade: { active: boolean; remaining: number };
+        session: { active: boolean; remaining: number };
+    };
+    history: SessionRecord[];
+    openIntents: number;
+}
+
+const SNAPSHOT_VERSION = 1;
+const ACTIVE_SESSION_KEY = 'active-session';
+const HISTORY_KEY = 'session-history';
+const CONFIG_STORAGE_KEY = 'tickshark-session-config';
+const MAX_SIGNAL_RECORDS = 200;
+const TERMINAL_STATUSES: TradeIntent['status'][] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+class SessionManagerService {
+    private config: SessionConfig = {
+        maxDuration: 4 * 60 * 60 * 1000, // 4 hours
+        maxTrades: 100,
+        maxStake: 1000,
+        maxLoss: 200,
+
+        tradeCooldown: 5000, // 5 seconds
+        sessionCooldown: 5 * 60 * 1000, // 5 minutes
+
+        persistInterval: 5000, // 5 seconds
+        persistedTicksPerSymbol: 500,
+        maxHistory: 50,
+    };
+
+    private store = localForage.createInstance({ name: 'tickshark', storeName: 'sessions' });
+    private current: SessionRecord;
+    private history: SessionRecord[] = [];
+    private openIntents = new Map<string, TradeIntent>();
+    private tradeRecords: SessionTradeRecord[] = [];
+    private signalRecords: AnalysisSignal[] = [];
+    private sessionCooldownUntil = 0;
+
+    private listeners = new Set<(stats: SessionStats) => void>();
+    private persistTimer?: ReturnType<typeof setTimeout>;
+    private initialization?: Promise<void>;
+
+    constructor() {
+        this.loadConfig();
+        this.current = this.createSession(modeManagerService.getCurrentMode());
+        this.initialization = this.initialize();
+
+        if (typeof window !== 'undefined') {
+            // Flush the latest state before the page goes away
+            window.addEventListener('beforeunload', () => this.persistNow());
+            document.addEventListener('visibilitychange', () => {
+                if (document.visibilityState === 'hidden') {
+                    this.persistNow();
+                }
+            });
+        }
+    }
+
+    /**
+     * Restore the persisted session and history from IndexedDB
+     */
+    async initialize(): Promise<void> {
+        if (this.initialization) {
+            return this.initialization;
+        }
+
+        try {
+            const [snapshot, history] = await Promise.all([
+                this.store.getItem<SessionSnapshot>(ACTIVE_SESSION_KEY),
+                this.store.getItem<SessionRecord[]>(HISTORY_KEY),
+            ]);
+
+            this.history = history || [];
+
+            if (snapshot && snapshot.version === SNAPSHOT_VERSION && snapshot.session.status !== 'CLOSED') {
+                this.restoreSnapshot(snapshot);
+                console.log(`🦈 Session ${snapshot.session.id} restored (${this.openIntents.size} open intents)`);
+            }
+        } catch (error) {
+            console.warn('🦈 Failed to restore session:', error);
+        } finally {
+            this.notifyListeners();
+        }
+    }
+
+    /**
+     * Close the current session and open a new one
+     */
+    async startNewSession(mode: TradingMode = modeManagerService.getCurrentMode()): Promise<boolean> {
+        await this.initialization;
+
+        if (this.getSessionCooldownRemaining() > 0) {
+            console.warn('🦈 Cannot start session during cooldown');
+            return false;
+        }
+
+        if (this.current.status !== 'CLOSED') {
+            this.closeCurrent('Replaced by new session', false);
+        }
+
+        this.openSession(mode);
+        await this.persistNow();
+        console.log(`🦈 Session ${this.current.id} started in ${mode} mode`);
+        return true;
+    }
+
+    /**
+     * Pause the current session; trading is blocked until resumed
+     */
+    async pauseSession(reason = 'User paused'): Promise<boolean> {
+        if (this.current.status !== 'ACTIVE') {
+            return false;
+        }
+
+        this.updateDuration();
+        this.current.status = 'PAUSED';
+        this.current.pausedAt = Date.now();
+        this.current.endReason = reason;
+
+        await this.persistNow();
+        console.log(`🦈 Session paused: ${reason}`);
+        return true;
+    }
+
+    /**
+     * Resume a paused session
+     */
+    async resumeSession(): Promise<boolean> {
+        if (this.current.status !== 'PAUSED') {
+            return false;
+        }
+
+        if (this.current.pausedAt) {
+            this.current.pausedDuration += Date.now() - this.current.pausedAt;
+        }
+        this.current.status = 'ACTIVE';
+        this.current.pausedAt = undefined;
+        this.current.endReason = undefined;
+
+        await this.persistNow();
+        console.log('🦈 Session resumed');
+        return true;
+    }
+
+    /**
+     * Close the current session and start the session cooldown
+     */
+    async endSession(reason = 'Session ended'): Promise<boolean> {
+        if (this.current.status === 'CLOSED') {
+            return false;
+        }
+
+        this.closeCurrent(reason, true);
+        await this.persistNow();
+        console.log(`🦈 Session ended: ${reason}`);
+        return true;
+    }
+
+    /**
+     * Discard the current session data and start fresh
+     */
+    async resetSession(confirmed = false): Promise<boolean> {
+        if (!confirmed) {
+            return false;
+        }
+
+        this.openIntents.clear();
+        this.tradeRecords = [];
+        this.signalRecords = [];
+        this.sessionCooldownUntil = 0;
+        this.openSession(this.current.mode);
+
+        await this.persistNow();
+        console.log('🦈 Session reset');
+        return true;
+    }
+
+    /**
+     * Follow trading mode changes; sessions with activity are closed and replaced
+     */
+    async handleModeChange(mode: TradingMode): Promise<void> {
+        if (this.current.mode === mode) return;
+
+        const hasActivity = this.current.trades.total > 0 || this.openIntents.size > 0;
+        if (this.current.status === 'CLOSED' || hasActivity) {
+            if (this.current.status !== 'CLOSED') {
+                this.closeCurrent(`Mode switched to ${mode}`, false);
+            }
+            this.openSession(mode);
+        } else {
+            this.current.mode = mode;
+            this.current.configSnapshot = configManagerService.getConfig();
+        }
+
+        await this.persistNow();
+    }
+
+    /**
+     * Record a generated signal
+     */
+    recordSignal(signal: AnalysisSignal): void {
+        this.current.performance.signalsGenerated++;
+        this.signalRecords.unshift(signal);
+        if (this.signalRecords.length > MAX_SIGNAL_RECORDS) {
+            this.signalRecords = this.signalRecords.slice(0, MAX_SIGNAL_RECORDS);
+        }
+        this.schedulePersist();
+    }
+
+    /**
+     * Track a newly created or updated trade intent
+     */
+    recordIntent(intent: TradeIntent): void {
+        if (!this.openIntents.has(intent.id)) {
+            this.current.performance.intentsCreated++;
+        }
+
+        if (TERMINAL_STATUSES.includes(intent.status)) {
+            this.openIntents.delete(intent.id);
+        } else {
+            this.openIntents.set(intent.id, { ...intent });
+        }
+        this.schedulePersist();
+    }
+
+    /**
+     * Record the outcome of a trade
+     */
+    recordTrade(intent: TradeIntent, outcome: ExecutionOutcome): void {
+        const stake = intent.parameters.stake;
+        const payout = intent.execution?.payout ?? 0;
+        const profit = intent.execution?.profit ?? (outcome === 'LOSS' ? -stake : payout - stake);
+        const now = Date.now();
+        const { trades, financial } = this.current;
+
+        this.openIntents.delete(intent.id);
+
+        if (outcome === 'PENDING') {
+            this.openIntents.set(intent.id, { ...intent });
+            this.schedulePersist();
+            return;
+        }
+
+        if (outcome === 'CANCELLED') {
+            trades.cancelled++;
+        } else {
+            trades.total++;
+            // Settlement time of the trade, which is market time for simulated ones
+            trades.lastTradeTime = intent.updatedAt || now;
+            if (outcome === 'WIN') {
+                trades.successful++;
+            } else {
+                trades.failed++;
+            }
+
+            financial.totalStake += stake;
+            financial.totalPayout += payout;
+            financial.netProfit += profit;
+            financial.peakProfit = Math.max(financial.peakProfit, financial.netProfit);
+            financial.maxDrawdown = Math.max(financial.maxDrawdown, financial.peakProfit - financial.netProfit);
+            financial.winRate = trades.total > 0 ? (trades.successful / trades.total) * 100 : 0;
+
+            analyticsService.addTradeRecord({
+                timestamp: now,
+                signalType: intent.type,
+                confidence: intent.confidence,
+                risk: intent.riskScore,
+                stake,
+                profit,
+                duration: intent.parameters.duration * 1000,
+                latency: intent.execution?.executionMetrics.latency ?? 0,
+                marketCondition: 'UNKNOWN',
+                isWin: outcome === 'WIN',
+                isSimulation: this.current.mode === 'SIMULATION',
+            });
+        }
+
+        this.tradeRecords.push({
+            intentId: intent.id,
+            timestamp: now,
+            signalType: intent.type,
+            outcome,
+            stake,
+            payout,
+            profit,
+        });
+
+        const limits = this.checkLimits();
+        if (limits.exceeded && this.current.status === 'ACTIVE') {
+            this.pauseSession(`Session limit reached: ${limits.limits.join(', ')}`).catch(error => {
+                console.warn('🦈 Failed to pause session:', error);
+            });
+            return;
+        }
+
+        this.schedulePersist();
+    }
+
+    /**
+     * Record a session error
+     */
+    recordError(message: string): void {
+        this.current.performance.errorCount++;
+        console.warn(`🦈 Session error: ${message}`);
+        this.schedulePersist();
+    }
+
+    /**
+     * Check whether any session limit has been reached
+     */
+    checkLimits(): { exceeded: boolean; limits: string[] } {
+        const limits: string[] = [];
+        const { trades, financial } = this.current;
+
+        if (this.getActiveDuration() >= this.config.maxDuration) limits.push('Maximum session duration');
+        if (trades.total >= this.config.maxTrades) limits.push('Maximum trades per session');
+        if (financial.totalStake >= this.config.maxStake) limits.push('Maximum session stake');
+        if (-financial.netProfit >= this.config.maxLoss) limits.push('Maximum session loss');
+
+        return { exceeded: limits.length > 0, limits };
+    }
+
+    /**
+     * Check whether a new trade may be placed at the given time, now by default
+     */
+    canTrade(at: number = Date.now()): { allowed: boolean; reason?: string } {
+        if (this.current.status !== 'ACTIVE') {
+            return { allowed: false, reason: `Session is ${this.current.status.toLowerCase()}` };
+        }
+
+        const limits = this.checkLimits();
+        if (limits.exceeded) {
+            return { allowed: false, reason: limits.limits.join(', ') };
+        }
+
+        if (this.getTradeCooldownRemaining(at) > 0) {
+            return { allowed: false, reason: 'Trade cooldown active' };
+        }
+
+        return { allowed: true };
+    }
+
+    /**
+     * Get current session statistics
+     */
+    getSessionStats(): SessionStats {
+        this.updateDuration();
+
+        const { trades, financial } = this.current;
+        const tradeCooldown = this.getTradeCooldownRemaining();
+        const sessionCooldown = this.getSessionCooldownRemaining();
+
+        return {
+            current: { ...this.current },
+            limits: {
+                duration: this.limitStatus(this.current.duration, this.config.maxDuration),
+                trades: this.limitStatus(trades.total, this.config.maxTrades),
+                stake: this.limitStatus(financial.totalStake, this.config.maxStake),
+                loss: this.limitStatus(Math.max(0, -financial.netProfit), this.config.maxLoss),
+            },
+            cooldowns: {
+                trade: { active: tradeCooldown > 0, remaining: tradeCooldown },
+                session: { active: sessionCooldown > 0, remaining: sessionCooldown },
+            },
+            history: [...this.history],
+            openIntents: this.openIntents.size,
+        };
+    }
+
+    /**
+     * Get intents that were created but not yet settled
+     */
+    getOpenIntents(): TradeIntent[] {
+        return Array.from(this.openIntents.values());
+    }
+
+    /**
+     * Get trade records of the current session
+     */
+    getTradeRecords(): SessionTradeRecord[] {
+        return [...this.tradeRecords];
+    }
+
+    /**
+     * Get session configuration
+     */
+    getConfig(): SessionConfig {
+        return { ...this.config };
+    }
+
+    /**
+     * Update session configuration
+     */
+    updateConfig(newConfig: Partial<SessionConfig>): void {
+        this.config = { ...this.config, ...newConfig };
+        this.saveConfig();
+        this.notifyListeners();
+        console.log('🦈 Session configuration updated');
+    }
+
+    /**
+     * Export the current session with its buffers and records
+     */
+    exportSession(): (SessionSnapshot & { id: string }) | null {
+        this.updateDuration();
+        return { id: this.current.id, ...this.createSnapshot() };
+    }
+
+    /**
+     * Import an exported session into the history
+     */
+    async importSession(data: SessionSnapshot): Promise<boolean> {
+        if (!data?.session?.id || data.version !== SNAPSHOT_VERSION) {
+            return false;
+        }
+
+        if (this.history.some(session => session.id === data.session.id)) {
+            return false;
+        }
+
+        const imported: SessionRecord = {
+            ...data.session,
+            status: 'CLOSED',
+            endTime: data.session.endTime ?? data.savedAt,
+            endReason: data.session.endReason ?? 'Imported',
+        };
+        this.history = [imported, ...this.history].slice(0, this.config.maxHistory);
+
+        await this.store.setItem(HISTORY_KEY, this.history);
+        this.notifyListeners();
+        return true;
+    }
+
+    /**
+     * Subscribe to session changes
+     */
+    subscribe(listener: (stats: SessionStats) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Private session helpers
+     */
+    private createSession(mode: TradingMode): SessionRecord {
+        const startTime = Date.now();
+
+        return {
+            id: `session-${startTime}-${Math.random().toString(36).substr(2, 9)}`,
+            status: 'ACTIVE',
+            mode,
+            configSnapshot: configManagerService.getConfig(),
+            startTime,
+            pausedDuration: 0,
+            duration: 0,
+            trades: { total: 0, successful: 0, failed: 0, cancelled: 0 },
+            financial: { totalStake: 0, totalPayout: 0, netProfit: 0, peakProfit: 0, winRate: 0, maxDrawdown: 0 },
+            performance: { signalsGenerated: 0, intentsCreated: 0, errorCount: 0 },
+        };
+    }
+
+    private openSession(mode: TradingMode): void {
+        this.current = this.createSession(mode);
+        this.tradeRecords = [];
+        this.signalRecords = [];
+
+        // Unsettled intents carry over so they can still be reconciled
+        for (const intent of this.openIntents.values()) {
+            this.current.performance.intentsCreated++;
+            intent.updatedAt = Date.now();
+        }
+    }
+
+    private closeCurrent(reason: string, startCooldown: boolean): void {
+        this.updateDuration();
+
+        this.current.status = 'CLOSED';
+        this.current.endTime = Date.now();
+        this.current.endReason = reason;
+        this.history = [{ ...this.current }, ...this.history].slice(0, this.config.maxHistory);
+
+        if (startCooldown) {
+            this.sessionCooldownUntil = Date.now() + this.config.sessionCooldown;
+        }
+    }
+
+    private restoreSnapshot(snapshot: SessionSnapshot): void {
+        const { session } = snapshot;
+
+        // Never resume trading silently after a reload; the time away counts as paused
+        this.current = {
+            ...session,
+            status: 'PAUSED',
+            pausedAt: session.pausedAt ?? snapshot.savedAt,
+            endReason: session.status === 'ACTIVE' ? 'Restored after reload' : session.endReason,
+        };
+
+        this.openIntents = new Map(snapshot.openIntents.map(intent => [intent.id, intent]));
+        this.tradeRecords = snapshot.tradeRecords || [];
+        this.signalRecords = snapshot.signalRecords || [];
+
+        tickListenerService.restoreTickBuffers(snapshot.tickBuffers || {});
+    }
+
+    private createSnapshot(): SessionSnapshot {
+        return {
+            version: SNAPSHOT_VERSION,
+            savedAt: Date.now(),
+            session: { ...this.current },
+            tickBuffers: tickListenerService.getTickBuffers(this.config.persistedTicksPerSymbol),
+            openIntents: this.getOpenIntents(),
+            tradeRecords: [...this.tradeRecords],
+            signalRecords: [...this.signalRecords],
+        };
+    }
+
+    private getActiveDuration(): number {
+        const { startTime, endTime, pausedAt, pausedDuration } = this.current;
+        const end = endTime ?? pausedAt ?? Date.now();
+        return Math.max(0, end - startTime - pausedDuration);
+    }
+
+    private updateDuration(): void {
+        this.current.duration = this.getActiveDuration();
+    }
+
+    private getTradeCooldownRemaining(at: number = Date.now()): number {
+        const lastTradeTime = this.current.trades.lastTradeTime;
+        if (!lastTradeTime) return 0;
+        return Math.max(0, lastTradeTime + this.config.tradeCooldown - at);
+    }
+
+    private getSessionCooldownRemaining(): number {
+        return Math.max(0, this.sessionCooldownUntil - Date.now());
+    }
+
+    private limitStatus(used: number, max: number): SessionLimitStatus {
+        return { used, max, percentage: max > 0 ? (used / max) * 100 : 0 };
+    }
+
+    /**
+     * Persistence
+     */
+    private schedulePersist(): void {
+        this.notifyListeners();
+
+        if (this.persistTimer) return;
+        this.persistTimer = setTimeout(() => {
+            this.persistTimer = undefined;
+            this.persistNow();
+        }, this.config.persistInterval);
+    }
+
+    private async persistNow(): Promise<void> {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = undefined;
+        }
+
+        this.notifyListeners();
+
+        try {
+            if (this.current.status === 'CLOSED') {
+                await this.store.removeItem(ACTIVE_SESSION_KEY);
+            } else {
+                await this.store.setItem(ACTIVE_SESSION_KEY, this.createSnapshot());
+            }
+            await this.store.setItem(HISTORY_KEY, this.history);
+        } catch (error) {
+            console.warn('🦈 Failed to persist session:', error);
+        }
+    }
+
+    private loadConfig(): void {
+        try {
+            const saved = localStorage.getItem(CONFIG_STORAGE_KEY);
+            if (saved) {
+                this.config = { ...this.config, ...JSON.parse(saved) };
+            }
+        } catch (error) {
+            console.warn('🦈 Failed to load session configuration:', error);
+        }
+    }
+
+    private saveConfig(): void {
+        try {
+            localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(this.config));
+        } catch (error) {
+            console.warn('🦈 Failed to save session configuration:', error);
+        }
+    }
+
+    private notifyListeners(): void {
+        if (this.listeners.size === 0) return;
+
+        const stats = this.getSessionStats();
+        for (const listener of this.listeners) {
+            try {
+                listener(stats);
+            } catch (error) {
+                console.error('🦈 Session listener error:', error);
+            }
+        }
+    }
+}
+
+// Export singleton instance
+export const sessionManagerService = new SessionManagerService();
@@ -11,6 +11,7 @@
 
 import { AnalysisResult, ArbitrageOpportunity } from '../../types/tickshark/analysis.types';
 import { TradingMode, IntentType } from '../../types/tickshark/execution.types';
+import { signalScorecardService } from '../signal-scorecard.service';
 
 export interface AnalysisSignal {
     id: string;
@@ -121,7 +122,7 @@ export interface SignalStatistics {
     duplicateSignals: number;
 }
 
-class SignalGeneratorService {
+export class SignalGeneratorService {
     private config: SignalConfig = {
         // Signal Generation
         minConfidence: 0.6,
@@ -159,6 +160,12 @@ class SignalGeneratorService {
     private lastSignalTime = 0;
     private signalHistory: AnalysisSignal[] = [];
 
+    constructor(initialConfig?: Partial<SignalConfig>) {
+        if (initialConfig) {
+            this.config = { ...this.config, ...initialConfig };
+        }
+    }
+
     /**
      * Generate trading signals from analysis results
      */
@@ -189,6 +196,7 @@ class SignalGeneratorService {
             
             // Update tracking
             this.updateSignalTracking(filteredSignals);
+            filteredSignals.forEach(signal => this.recordForScorecard(signal));
             
             // Update statistics
             this.updateStatistics(signals, filteredSignals);
@@ -601,6 +609,30 @@ class SignalGeneratorService {
         this.recentSignals = this.recentSignals.filter(signal => signal.validUntil > now);
     }
 
+    private recordForScorecard(signal: AnalysisSignal): void {
+        // Same contract rules as the simulator; HIGHER_LOWER barriers are price levels and are not scored
+        const isUp = signal.expectedPrice >= signal.currentPrice;
+        const contracts: Partial<Record<IntentType, { contractType: string; barrier?: number }>> = {
+            RISE_FALL: { contractType: isUp ? 'CALL' : 'PUT' },
+            EVEN_ODD: { contractType: (signal.prediction ?? 0) % 2 === 0 ? 'DIGITEVEN' : 'DIGITODD' },
+            MATCHES_DIFFERS: { contractType: 'DIGITDIFF', barrier: signal.prediction },
+            OVER_UNDER: {
+                contractType: (signal.prediction ?? 4) <= 4 ? 'DIGITOVER' : 'DIGITUNDER',
+                barrier: signal.prediction ?? 4,
+            },
+        };
+        const contract = contracts[signal.type];
+        if (!contract) return;
+
+        signalScorecardService.recordSignal({
+            generator: 'tickshark',
+            market: signal.symbol,
+            ...contract,
+            horizonTicks: Math.min(10, Math.max(1, Math.round(signal.recommendedDuration))),
+            confidence: signal.confidence,
+        });
+    }
+
     private updateStatistics(allSignals: AnalysisSignal[], filteredSignals: AnalysisSignal[]): void {
         this.statistics.totalSignalsGenerated += allSignals.length;
         
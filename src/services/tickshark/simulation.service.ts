@@ -0,0 +1,1073 @@
+/**
+ * TickShark Simulation Service
+ * Backtesting and replay engine for the TickShark analysis pipeline
+ *
+ * CRITICAL: Risk-free evaluation of the live pipeline
+ * - Historical replay, synthetic data and hybrid tick sources
+ * - Ticks fed through the analysis engine and signal generator
+ * - Latency, slippage, rejection and partial fill execution model
+ * - Contract settlement against the ticks that follow each entry
+ * - Progress reporting and a final report for Performance Analytics
+ * - Signals, intents and trades tracked by the TickShark session while in SIMULATION mode
+ */
+
+import { AnalysisResult, TickData } from '../../types/tickshark/analysis.types';
+import { IntentType, TradeIntent } from '../../types/tickshark/execution.types';
+import { SimulationConfig, SimulationResult, SimulationState } from '../../types/tickshark/simulation.types';
+import { DEFAULT_HOUSE_EDGE, getPayoutRatio } from '../../utils/fast-lane/backtester';
+import { historicalTickLoader } from '../historical-tick-loader.service';
+import { extractLastDigit, symbolMetadataService } from '../symbol-metadata.service';
+import { AnalysisEngineService, analysisEngineService } from './analysis-engine.service';
+import { analyticsService } from './analytics.service';
+import { modeManagerService } from './mode-manager.service';
+import { sessionManagerService } from './session-manager.service';
+import { AnalysisSignal, SignalGeneratorService, signalGeneratorService } from './signal-generator.service';
+import { tickListenerService } from './tick-listener.service';
+
+export interface SimulationRunOptions {
+    // Pre-recorded ticks for HISTORICAL_REPLAY / HYBRID (skips loading from file or API)
+    ticks?: TickData[];
+
+    // Seed for the random number generator (synthetic prices and execution model)
+    seed?: number;
+
+    // Starting price for synthetic data when no historical tick is available
+    startPrice?: number;
+}
+
+type SimulationListener = (state: SimulationState) => void;
+
+// Heap statistics are only exposed by Chromium
+interface PerformanceWithMemory extends Performance {
+    memory?: { usedJSHeapSize: number };
+}
+
+interface PendingEntry {
+    intent: TradeIntent;
+    signal: AnalysisSignal;
+    fillTime: number;
+    latency: number;
+    slippage: number;
+    filledStake: number;
+    buyPrice: number;
+    marketCondition: string;
+}
+
+interface OpenContract extends PendingEntry {
+    entryTime: number;
+    entrySpot: number;
+    entryIndex: number;
+    contractType: string;
+    barrier?: number;
+}
+
+// Payout returned per unit stake (stake included), matching typical Deriv rates
+// Over/Under payouts depend on the barrier, so they come from the backtester's win probabilities
+const PAYOUT_MULTIPLIERS: Record<string, number> = {
+    CALL: 1.85,
+    PUT: 1.85,
+    DIGITEVEN: 1.9,
+    DIGITODD: 1.9,
+    DIGITMATCH: 9.0,
+    DIGITDIFF: 1.11,
+};
+
+const DIGIT_CONTRACT_TYPES: IntentType[] = ['EVEN_ODD', 'MATCHES_DIFFERS', 'OVER_UNDER'];
+
+const ANALYSIS_WINDOW = 20;
+const MIN_ANALYSIS_TICKS = 10;
+const PROGRESS_INTERVAL = 25;
+const RESULTS_STORAGE_KEY = 'tickshark-simulation-results';
+const SIMULATION_VERSION = '1.0.0';
+
+export class SimulationService {
+    private state: SimulationState | null = null;
+    private lastResult: SimulationResult | null = null;
+    private listeners = new Set<SimulationListener>();
+
+    private config: SimulationConfig = this.getDefaultConfig();
+    private engine!: AnalysisEngineService;
+    private generator!: SignalGeneratorService;
+    private random: () => number = Math.random;
+
+    private isPaused = false;
+    private isStopRequested = false;
+
+    // Run data
+    private window: TickData[] = [];
+    private recordedTicks: TickData[] = [];
+    private analyses: AnalysisResult[] = [];
+    private trades: TradeIntent[] = [];
+    private pendingEntries: PendingEntry[] = [];
+    private openContracts: OpenContract[] = [];
+    private settledProfits: number[] = [];
+    private settledReturns: number[] = [];
+    private settledStakes: number[] = [];
+    private latencies: number[] = [];
+    private processingTimes: number[] = [];
+    private tickIndex = 0;
+    private lastSignalTime = -Infinity;
+    private minSignalInterval = 0;
+    private opportunitiesDetected = 0;
+    private pipDecimals = 2;
+    private maxMemoryUsage = 0;
+    private tracksSession = false;
+
+    /**
+     * Default simulation configuration
+     */
+    getDefaultConfig(): SimulationConfig {
+        return {
+            mode: 'SYNTHETIC_DATA',
+            duration: 10 * 60 * 1000, // 10 minutes of market time
+
+            dataSource: {
+                type: 'SYNTHETIC_GENERATOR',
+                symbol: 'R_100',
+                timeRange: [0, 0],
+                tickRate: 1, // Deriv volatility indices tick once per second
+            },
+
+            executionSimulation: {
+                latencyRange: [20, 120],
+                slippageRange: [0, 0.002],
+                rejectionRate: 0.02,
+                partialFillRate: 0,
+                networkJitter: 10,
+            },
+
+            marketSimulation: {
+                spreadRange: [0.00005, 0.0002],
+                volatilityFactor: 1,
+                gapProbability: 0.001,
+                liquidityFactor: 1,
+                marketHours: false,
+            },
+
+            performance: {
+                maxTicksPerSecond: 5000,
+                bufferSize: 5000,
+                memoryLimit: 512, // MB
+                enableOptimizations: true,
+            },
+
+            logging: {
+                enableDetailedLogging: false,
+                logLevel: 'INFO',
+                saveResults: true,
+            },
+        };
+    }
+
+    /**
+     * Run a simulation to completion and return its report
+     */
+    async runSimulation(
+        configOverrides: Partial<SimulationConfig> = {},
+        options: SimulationRunOptions = {}
+    ): Promise<SimulationResult> {
+        if (this.state && (this.state.status === 'RUNNING' || this.state.status === 'PAUSED')) {
+            throw new Error('A simulation is already running');
+        }
+
+        this.config = this.mergeConfig(configOverrides);
+        this.resetRun(options.seed);
+
+        const startTime = Date.now();
+        this.state = {
+            id: `simulation-${startTime}-${Math.random().toString(36).substr(2, 9)}`,
+            startTime,
+            currentTime: startTime,
+            status: 'INITIALIZING',
+            progress: 0,
+            ticksProcessed: 0,
+            analysesCompleted: 0,
+            tradesExecuted: 0,
+            processingRate: 0,
+            memoryUsage: 0,
+            cpuUsage: 0,
+            errors: [],
+            warnings: [],
+        };
+        this.notifyListeners();
+
+        try {
+            if (this.config.mode === 'LIVE_SIMULATION') {
+                this.updateStatus('RUNNING');
+                await this.runLive();
+            } else {
+                const ticks = await this.loadTicks(options);
+                if (ticks.length === 0) {
+                    throw new Error('No tick data available for simulation');
+                }
+
+                this.updateStatus('RUNNING');
+                await this.runBatch(ticks);
+            }
+
+            // Contracts still waiting for exit ticks cannot be settled
+            this.expireUnsettled();
+
+            const result = this.buildResult();
+            this.lastResult = result;
+
+            this.state.results = result;
+            this.state.endTime = Date.now();
+            this.state.progress = 1;
+            this.updateStatus('COMPLETED');
+
+            if (this.config.logging.saveResults) {
+                this.saveResult(result);
+            }
+
+            this.log(
+                'INFO',
+                `Simulation completed: ${result.tradesExecuted} trades, net ${result.tradingResults.netProfit.toFixed(2)}`
+            );
+            return result;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown simulation error';
+            this.state.errors.push(message);
+            this.state.endTime = Date.now();
+            this.updateStatus('FAILED');
+            this.log('ERROR', `Simulation failed: ${message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Pause a running simulation
+     */
+    pause(): void {
+        if (this.state?.status === 'RUNNING') {
+            this.isPaused = true;
+            this.updateStatus('PAUSED');
+        }
+    }
+
+    /**
+     * Resume a paused simulation
+     */
+    resume(): void {
+        if (this.state?.status === 'PAUSED') {
+            this.isPaused = false;
+            this.updateStatus('RUNNING');
+        }
+    }
+
+    /**
+     * Stop the simulation early; the report covers the ticks processed so far
+     */
+    stop(): void {
+        if (this.state && (this.state.status === 'RUNNING' || this.state.status === 'PAUSED')) {
+            this.isStopRequested = true;
+            this.isPaused = false;
+            this.state.warnings.push('Simulation stopped before reaching the end of the data');
+        }
+    }
+
+    /**
+     * Get the current simulation state
+     */
+    getState(): SimulationState | null {
+        return this.state ? { ...this.state } : null;
+    }
+
+    /**
+     * Get the report of the last completed simulation
+     */
+    getLastResult(): SimulationResult | null {
+        return this.lastResult;
+    }
+
+    /**
+     * Subscribe to simulation progress updates
+     */
+    subscribe(listener: SimulationListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Data loading
+     */
+    private async loadTicks(options: SimulationRunOptions): Promise<TickData[]> {
+        const { mode, duration, dataSource } = this.config;
+
+        if (mode === 'SYNTHETIC_DATA') {
+            const count = Math.max(1, Math.floor((duration / 1000) * dataSource.tickRate));
+            const start = dataSource.timeRange[0] || Date.now() - duration;
+            return this.generateSyntheticTicks(count, start, options.startPrice ?? 1000);
+        }
+
+        const historical = options.ticks ?? (await this.loadHistoricalTicks());
+        const replay = this.applyTimeRange(historical);
+
+        if (mode === 'HYBRID') {
+            // Extend the recorded data with synthetic ticks until the configured duration is covered
+            const last = replay[replay.length - 1];
+            const first = replay[0];
+            const covered = last && first ? last.timestamp - first.timestamp : 0;
+            const missing = Math.floor(((duration - covered) / 1000) * dataSource.tickRate);
+
+            if (missing > 0) {
+                const interval = 1000 / dataSource.tickRate;
+                const start = last ? last.timestamp + interval : Date.now() - duration;
+                const startPrice = last ? last.bid : (options.startPrice ?? 1000);
+                return [...replay, ...this.generateSyntheticTicks(missing, start, startPrice)];
+            }
+        }
+
+        return replay;
+    }
+
+    private async loadHistoricalTicks(): Promise<TickData[]> {
+        const { dataSource, duration } = this.config;
+
+        if (dataSource.filePath) {
+            const response = await fetch(dataSource.filePath);
+            if (!response.ok) {
+                throw new Error(`Failed to load tick file ${dataSource.filePath}: ${response.status}`);
+            }
+
+            const records: Array<{ epoch: number; quote: number }> = await response.json();
+            return records.map((record, index) => this.createTick(record.epoch * 1000, Number(record.quote), index));
+        }
+
+        const count = Math.max(2, Math.floor((duration / 1000) * dataSource.tickRate));
+        const loaded = await historicalTickLoader.loadHistoricalTicks(dataSource.symbol, count);
+        if (!loaded.success) {
+            throw new Error(loaded.error || `Failed to load historical ticks for ${dataSource.symbol}`);
+        }
+
+        return loaded.ticks.map((tick, index) => this.createTick(tick.epoch * 1000, tick.quote, index));
+    }
+
+    private applyTimeRange(ticks: TickData[]): TickData[] {
+        const [start, end] = this.config.dataSource.timeRange;
+        const sorted = [...ticks].sort((a, b) => a.timestamp - b.timestamp);
+
+        return sorted.filter(tick => (!start || tick.timestamp >= start) && (!end || tick.timestamp <= end));
+    }
+
+    private generateSyntheticTicks(count: number, startTime: number, startPrice: number): TickData[] {
+        const { marketSimulation, dataSource } = this.config;
+        const interval = 1000 / dataSource.tickRate;
+        const baseStep = 0.0005 * marketSimulation.volatilityFactor;
+        const ticks: TickData[] = [];
+        let price = startPrice;
+
+        for (let i = 0; i < count; i++) {
+            let step = this.gaussian() * baseStep;
+            if (this.random() < marketSimulation.gapProbability) {
+                step *= 10;
+            }
+
+            price = Math.max(0.01, price * (1 + step));
+            price = Number(price.toFixed(this.pipDecimals));
+            ticks.push(this.createTick(startTime + i * interval, price, i));
+        }
+
+        return ticks;
+    }
+
+    private createTick(timestamp: number, quote: number, sequenceNumber: number): TickData {
+        const { executionSimulation, marketSimulation } = this.config;
+        const spread = quote * this.uniform(marketSimulation.spreadRange);
+        const latency = this.uniform(executionSimulation.latencyRange);
+
+        return {
+            symbol: this.config.dataSource.symbol,
+            timestamp,
+            bid: quote,
+            ask: quote + spread,
+            spread,
+            volume: Math.round(1000 * marketSimulation.liquidityFactor * (0.5 + this.random())),
+
+            receiveTime: timestamp + latency,
+            processTime: timestamp + latency,
+            latency,
+
+            quality: 'HIGH',
+            source: 'simulation',
+
+            sequenceNumber,
+            isValid: true,
+        };
+    }
+
+    /**
+     * Run loops
+     */
+    private async runBatch(ticks: TickData[]): Promise<void> {
+        // Recorded quotes are the only hint for a symbol whose pip size is unknown
+        if (!symbolMetadataService.hasPipSize(this.config.dataSource.symbol)) {
+            this.pipDecimals = this.detectPipDecimals(ticks);
+        }
+
+        const { maxTicksPerSecond, enableOptimizations } = this.config.performance;
+        const batchSize = Math.max(1, Math.floor(maxTicksPerSecond / 10));
+        let batchStart = Date.now();
+
+        for (let i = 0; i < ticks.length; i++) {
+            if (this.isStopRequested) break;
+
+            while (this.isPaused) {
+                await this.delay(100);
+            }
+
+            if (this.config.marketSimulation.marketHours && this.isOutsideMarketHours(ticks[i].timestamp)) {
+                continue;
+            }
+
+            await this.processTick(ticks[i]);
+
+            if (i % PROGRESS_INTERVAL === 0 || i === ticks.length - 1) {
+                this.updateProgress((i + 1) / ticks.length);
+            }
+
+            if ((i + 1) % batchSize === 0) {
+                // Cap the processing rate and keep the UI responsive between batches
+                const minBatchTime = enableOptimizations ? 0 : (batchSize / maxTicksPerSecond) * 1000;
+                const elapsed = Date.now() - batchStart;
+                await this.delay(Math.max(0, minBatchTime - elapsed));
+                batchStart = Date.now();
+            }
+        }
+    }
+
+    private async runLive(): Promise<void> {
+        const { duration, dataSource } = this.config;
+        const endTime = Date.now() + duration;
+        let queue = Promise.resolve();
+
+        const unsubscribe = tickListenerService.subscribe(tick => {
+            if (tick.symbol !== dataSource.symbol || this.isPaused) return;
+            queue = queue.then(() => this.processTick(tick));
+        });
+
+        try {
+            while (Date.now() < endTime && !this.isStopRequested) {
+                await this.delay(Math.min(250, Math.max(0, endTime - Date.now())));
+                this.updateProgress(1 - Math.max(0, endTime - Date.now()) / duration);
+            }
+            await queue;
+        } finally {
+            unsubscribe();
+        }
+    }
+
+    /**
+     * Tick processing
+     */
+    private async processTick(tick: TickData): Promise<void> {
+        const startedAt = Date.now();
+        const index = this.tickIndex++;
+
+        this.recordTick(tick);
+        this.fillPendingEntries(tick, index);
+        this.settleOpenContracts(tick, index);
+
+        this.window.push(tick);
+        if (this.window.length > ANALYSIS_WINDOW) {
+            this.window.shift();
+        }
+
+        if (this.window.length >= MIN_ANALYSIS_TICKS) {
+            const analysis = await this.engine.analyzeTickData(this.window);
+            this.state!.analysesCompleted++;
+
+            if (analysis.isValid && analysis.opportunities.length > 0) {
+                this.opportunitiesDetected += analysis.opportunities.length;
+                this.recordAnalysis(analysis);
+
+                const signals = this.generator.generateSignals(analysis, 'SIMULATION');
+                for (const signal of signals) {
+                    this.handleSignal(signal, tick, analysis);
+                }
+            }
+        }
+
+        this.state!.ticksProcessed++;
+        this.state!.currentTime = tick.timestamp;
+        this.processingTimes.push(Date.now() - startedAt);
+    }
+
+    private handleSignal(signal: AnalysisSignal, tick: TickData, analysis: AnalysisResult): void {
+        if (this.tracksSession) {
+            sessionManagerService.recordSignal(signal);
+        }
+
+        // Enforce the signal interval in market time rather than wall-clock time
+        if (tick.timestamp - this.lastSignalTime < this.minSignalInterval) {
+            this.recordSignal(signal, tick.timestamp, false);
+            return;
+        }
+
+        // A paused or limited session takes no new intents; its trade cooldown also runs in market time
+        if (this.tracksSession && !sessionManagerService.canTrade(tick.timestamp).allowed) {
+            this.recordSignal(signal, tick.timestamp, false);
+            return;
+        }
+        this.lastSignalTime = tick.timestamp;
+
+        const { executionSimulation } = this.config;
+        const intent = this.createIntent(signal, analysis, tick.timestamp);
+        this.trades.push(intent);
+        this.trackIntent(intent);
+
+        if (this.random() < executionSimulation.rejectionRate) {
+            this.failIntent(intent, 'Rejected by simulated broker');
+            this.recordSignal(signal, tick.timestamp, false);
+            return;
+        }
+
+        const jitter = (this.random() * 2 - 1) * executionSimulation.networkJitter;
+        const latency = Math.max(0, this.uniform(executionSimulation.latencyRange) + jitter);
+        const slippage = this.uniform(executionSimulation.slippageRange);
+        const isPartial = this.random() < executionSimulation.partialFillRate;
+        const filledStake = isPartial ? intent.parameters.stake * (0.5 + this.random() * 0.5) : intent.parameters.stake;
+
+        intent.status = 'QUEUED';
+        this.trackIntent(intent);
+        this.pendingEntries.push({
+            intent,
+            signal,
+            fillTime: tick.timestamp + latency,
+            latency,
+            slippage,
+            filledStake,
+            // The proposal price drifts against us while the buy request is in flight
+            buyPrice: filledStake * (1 + slippage),
+            marketCondition: analysis.marketCondition.riskLevel,
+        });
+    }
+
+    private fillPendingEntries(tick: TickData, index: number): void {
+        if (this.pendingEntries.length === 0) return;
+
+        const ready = this.pendingEntries.filter(entry => tick.timestamp >= entry.fillTime);
+        this.pendingEntries = this.pendingEntries.filter(entry => tick.timestamp < entry.fillTime);
+
+        for (const entry of ready) {
+            const { contractType, barrier } = this.resolveContract(entry.signal, tick.bid);
+
+            entry.intent.status = 'EXECUTING';
+            entry.intent.parameters.entrySpot = tick.bid;
+            entry.intent.updatedAt = tick.timestamp;
+            this.trackIntent(entry.intent);
+
+            this.latencies.push(entry.latency);
+            this.state!.tradesExecuted++;
+
+            this.openContracts.push({
+                ...entry,
+                entryTime: tick.timestamp,
+                entrySpot: tick.bid,
+                entryIndex: index,
+                contractType,
+                barrier,
+            });
+        }
+    }
+
+    private settleOpenContracts(tick: TickData, index: number): void {
+        if (this.openContracts.length === 0) return;
+
+        const remaining: OpenContract[] = [];
+
+        for (const contract of this.openContracts) {
+            if (!this.hasExpired(contract, tick, index)) {
+                remaining.push(contract);
+                continue;
+            }
+
+            const isWin = this.isWinningContract(contract, tick.bid);
+            const { contractType, barrier } = contract;
+            const payoutRatio = getPayoutRatio(contractType, barrier, DEFAULT_HOUSE_EDGE, PAYOUT_MULTIPLIERS);
+            const payout = isWin ? contract.filledStake * payoutRatio : 0;
+            const profit = Math.round((payout - contract.buyPrice) * 100) / 100;
+
+            contract.intent.status = 'COMPLETED';
+            contract.intent.updatedAt = tick.timestamp;
+            contract.intent.execution = {
+                success: true,
+                contractId: `sim-${contract.intent.id}`,
+                entrySpot: contract.entrySpot,
+                exitSpot: tick.bid,
+                payout,
+                profit,
+                executionMetrics: {
+                    latency: contract.latency,
+                    slippage: contract.slippage,
+                    executionTime: tick.timestamp - contract.intent.createdAt,
+                    networkDelay: contract.latency,
+                    processingTime: 0,
+                    confirmationTime: tick.timestamp - contract.entryTime,
+                },
+            };
+
+            this.settledProfits.push(profit);
+            this.settledReturns.push(profit / contract.buyPrice);
+            this.settledStakes.push(contract.buyPrice);
+
+            if (this.tracksSession) {
+                // The session adds the analytics record along with its own trade record
+                sessionManagerService.recordTrade(contract.intent, isWin ? 'WIN' : 'LOSS');
+            } else if (this.config.logging.saveResults) {
+                analyticsService.addTradeRecord({
+                    timestamp: tick.timestamp,
+                    signalType: contract.intent.type,
+                    confidence: contract.intent.confidence,
+                    risk: contract.intent.riskScore,
+                    stake: contract.buyPrice,
+                    profit,
+                    duration: tick.timestamp - contract.entryTime,
+                    latency: contract.latency,
+                    marketCondition: contract.marketCondition,
+                    isWin,
+                    isSimulation: true,
+                });
+            }
+            this.recordSignal(contract.signal, tick.timestamp, true, contract.latency, profit);
+
+            this.log(
+                'DEBUG',
+                `${contract.contractType} ${isWin ? 'WON' : 'LOST'} ${profit.toFixed(2)} (entry ${contract.entrySpot}, exit ${tick.bid})`
+            );
+        }
+
+        this.openContracts = remaining;
+    }
+
+    private expireUnsettled(): void {
+        const unsettled = [...this.pendingEntries, ...this.openContracts];
+        for (const entry of unsettled) {
+            this.failIntent(entry.intent, 'Simulation data ended before settlement');
+        }
+        if (unsettled.length > 0) {
+            this.state!.warnings.push(`${unsettled.length} trade(s) could not be settled before the data ended`);
+        }
+
+        this.pendingEntries = [];
+        this.openContracts = [];
+    }
+
+    /**
+     * Contract rules
+     */
+    private resolveContract(signal: AnalysisSignal, spot: number): { contractType: string; barrier?: number } {
+        const isUp = signal.expectedPrice >= signal.currentPrice;
+
+        switch (signal.type) {
+            case 'RISE_FALL':
+                return { contractType: isUp ? 'CALL' : 'PUT' };
+            case 'HIGHER_LOWER':
+                return { contractType: isUp ? 'CALL' : 'PUT', barrier: signal.barrier ?? signal.expectedPrice ?? spot };
+            case 'EVEN_ODD':
+                return { contractType: (signal.prediction ?? 0) % 2 === 0 ? 'DIGITEVEN' : 'DIGITODD' };
+            case 'MATCHES_DIFFERS':
+                // The generator predicts the current digit; betting it will not repeat is the DIFFERS side
+                return {
+                    contractType: 'DIGITDIFF',
+                    barrier: signal.prediction ?? extractLastDigit(spot, this.pipDecimals),
+                };
+            case 'OVER_UNDER': {
+                const digit = signal.prediction ?? 4;
+                return { contractType: digit <= 4 ? 'DIGITOVER' : 'DIGITUNDER', barrier: digit };
+            }
+            default:
+                return { contractType: 'CALL' };
+        }
+    }
+
+    private hasExpired(contract: OpenContract, tick: TickData, index: number): boolean {
+        const duration = contract.intent.parameters.duration;
+
+        if (DIGIT_CONTRACT_TYPES.includes(contract.intent.type)) {
+            // Digit contracts settle on the n-th tick after entry (Deriv allows 1-10 ticks)
+            const ticks = Math.min(10, Math.max(1, Math.round(duration)));
+            return index - contract.entryIndex >= ticks;
+        }
+
+        // Directional contracts use duration in seconds
+        return tick.timestamp - contract.entryTime >= duration * 1000;
+    }
+
+    private isWinningContract(contract: OpenContract, exitSpot: number): boolean {
+        const digit = extractLastDigit(exitSpot, this.pipDecimals);
+        const barrier = contract.barrier;
+
+        switch (contract.contractType) {
+            case 'CALL':
+                return exitSpot > (barrier ?? contract.entrySpot);
+            case 'PUT':
+                return exitSpot < (barrier ?? contract.entrySpot);
+            case 'DIGITEVEN':
+                return digit % 2 === 0;
+            case 'DIGITODD':
+                return digit % 2 === 1;
+            case 'DIGITMATCH':
+                return digit === barrier;
+            case 'DIGITDIFF':
+                return digit !== barrier;
+            case 'DIGITOVER':
+                return digit > (barrier ?? 4);
+            case 'DIGITUNDER':
+                return digit < (barrier ?? 5);
+            default:
+                return false;
+        }
+    }
+
+    private detectPipDecimals(ticks: TickData[]): number {
+        let decimals = 0;
+        for (const tick of ticks.slice(0, 200)) {
+            const [, fraction = ''] = tick.bid.toString().split('.');
+            decimals = Math.max(decimals, fraction.length);
+        }
+        return Math.min(5, decimals || this.pipDecimals);
+    }
+
+    /**
+     * Intent helpers
+     */
+    private createIntent(signal: AnalysisSignal, analysis: AnalysisResult, timestamp: number): TradeIntent {
+        return {
+            id: `${this.state!.id}-intent-${this.trades.length + 1}`,
+            type: signal.type,
+            status: 'VALIDATED',
+            createdAt: timestamp,
+            updatedAt: timestamp,
+            parameters: {
+                symbol: signal.symbol,
+                contractType: signal.type,
+                stake: signal.recommendedStake,
+                duration: signal.recommendedDuration,
+                barrier: signal.barrier,
+                prediction: signal.prediction,
+            },
+            analysisId: analysis.id,
+            signalId: signal.id,
+            confidence: signal.confidence,
+            riskScore: signal.riskScore,
+            validationChecks: [],
+            metadata: {
+                source: 'SIGNAL',
+                priority: signal.priority,
+                tags: ['simulation', ...signal.tags],
+            },
+        };
+    }
+
+    private failIntent(intent: TradeIntent, message: string): void {
+        intent.status = 'FAILED';
+        intent.execution = {
+            success: false,
+            errorMessage: message,
+            executionMetrics: {
+                latency: 0,
+                slippage: 0,
+                executionTime: 0,
+                networkDelay: 0,
+                processingTime: 0,
+                confirmationTime: 0,
+            },
+        };
+
+        if (this.tracksSession) {
+            sessionManagerService.recordTrade(intent, 'CANCELLED');
+        }
+    }
+
+    private trackIntent(intent: TradeIntent): void {
+        if (this.tracksSession) {
+            sessionManagerService.recordIntent(intent);
+        }
+    }
+
+    /**
+     * Recording
+     */
+    private recordTick(tick: TickData): void {
+        this.recordedTicks.push(tick);
+        if (this.recordedTicks.length > this.config.performance.bufferSize) {
+            this.recordedTicks.shift();
+        }
+    }
+
+    private recordAnalysis(analysis: AnalysisResult): void {
+        this.analyses.push(analysis);
+        if (this.analyses.length > this.config.performance.bufferSize) {
+            this.analyses.shift();
+        }
+    }
+
+    private recordSignal(
+        signal: AnalysisSignal,
+        timestamp: number,
+        executed: boolean,
+        executionLatency?: number,
+        profit?: number
+    ): void {
+        if (!this.config.logging.saveResults) return;
+
+        analyticsService.addSignalRecord({
+            timestamp,
+            signalType: signal.type,
+            confidence: signal.confidence,
+            risk: signal.riskScore,
+            strength: signal.strength,
+            executed,
+            executionLatency,
+            profit,
+        });
+    }
+
+    /**
+     * Report generation
+     */
+    private buildResult(): SimulationResult {
+        const state = this.state!;
+        const completed = this.trades.filter(trade => trade.status === 'COMPLETED');
+        const failed = this.trades.filter(trade => trade.status === 'FAILED');
+        const wins = this.settledProfits.filter(profit => profit > 0).length;
+
+        const totalStake = this.settledStakes.reduce((sum, stake) => sum + stake, 0);
+        const totalPayout = completed.reduce((sum, trade) => sum + (trade.execution?.payout ?? 0), 0);
+        const netProfit = this.settledProfits.reduce((sum, profit) => sum + profit, 0);
+        const settled = this.settledProfits.length;
+
+        return {
+            id: state.id,
+            config: this.config,
+
+            duration: Date.now() - state.startTime,
+            ticksProcessed: state.ticksProcessed,
+            analysesCompleted: state.analysesCompleted,
+            tradesExecuted: state.tradesExecuted,
+
+            tradingResults: {
+                totalTrades: this.trades.length,
+                successfulTrades: wins,
+                failedTrades: failed.length,
+                totalStake: this.round(totalStake),
+                totalPayout: this.round(totalPayout),
+                netProfit: this.round(netProfit),
+                winRate: settled > 0 ? (wins / settled) * 100 : 0,
+                maxDrawdown: this.round(this.calculateMaxDrawdown(this.settledProfits)),
+                sharpeRatio: this.calculateSharpeRatio(this.settledReturns),
+            },
+
+            analysisResults: {
+                opportunitiesDetected: this.opportunitiesDetected,
+                opportunitiesActioned: state.tradesExecuted,
+                averageLatency: this.average(this.latencies),
+                predictionAccuracy: settled > 0 ? wins / settled : 0,
+                falsePositiveRate: settled > 0 ? (settled - wins) / settled : 0,
+            },
+
+            systemPerformance: {
+                averageProcessingTime: this.average(this.processingTimes),
+                maxMemoryUsage: this.maxMemoryUsage,
+                averageCpuUsage: state.cpuUsage,
+                errorCount: state.errors.length,
+                warningCount: state.warnings.length,
+            },
+
+            tickData: [...this.recordedTicks],
+            analysisData: [...this.analyses],
+            tradeData: [...this.trades],
+
+            timestamp: Date.now(),
+            version: SIMULATION_VERSION,
+        };
+    }
+
+    private calculateMaxDrawdown(profits: number[]): number {
+        let equity = 0;
+        let peak = 0;
+        let maxDrawdown = 0;
+
+        for (const profit of profits) {
+            equity += profit;
+            peak = Math.max(peak, equity);
+            maxDrawdown = Math.max(maxDrawdown, peak - equity);
+        }
+
+        return maxDrawdown;
+    }
+
+    private calculateSharpeRatio(returns: number[]): number {
+        if (returns.length < 2) return 0;
+
+        const mean = this.average(returns);
+        const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+        const stdDev = Math.sqrt(variance);
+
+        return stdDev > 0 ? mean / stdDev : 0;
+    }
+
+    private saveResult(result: SimulationResult): void {
+        try {
+            // Keep stored reports small; raw ticks and analyses stay in memory only
+            const summary = { ...result, tickData: [], analysisData: [] };
+            const saved: SimulationResult[] = JSON.parse(localStorage.getItem(RESULTS_STORAGE_KEY) || '[]');
+            localStorage.setItem(RESULTS_STORAGE_KEY, JSON.stringify([summary, ...saved].slice(0, 10)));
+        } catch (error) {
+            console.warn('🦈 Failed to save simulation result:', error);
+        }
+    }
+
+    /**
+     * State helpers
+     */
+    private resetRun(seed?: number): void {
+        this.random = seed !== undefined ? this.createSeededRandom(seed) : Math.random;
+        this.isPaused = false;
+        this.isStopRequested = false;
+
+        // Isolated pipeline instances keep simulated signals out of the live statistics
+        const signalConfig = signalGeneratorService.getConfiguration();
+        this.engine = new AnalysisEngineService(analysisEngineService.getConfiguration());
+        this.generator = new SignalGeneratorService({ ...signalConfig, minSignalInterval: 0 });
+        this.minSignalInterval = signalConfig.minSignalInterval;
+        this.tracksSession = modeManagerService.getCurrentMode() === 'SIMULATION';
+
+        this.window = [];
+        this.recordedTicks = [];
+        this.analyses = [];
+        this.trades = [];
+        this.pendingEntries = [];
+        this.openContracts = [];
+        this.settledProfits = [];
+        this.settledReturns = [];
+        this.settledStakes = [];
+        this.latencies = [];
+        this.processingTimes = [];
+        this.tickIndex = 0;
+        this.lastSignalTime = -Infinity;
+        this.opportunitiesDetected = 0;
+        this.pipDecimals = symbolMetadataService.getPipSize(this.config.dataSource.symbol);
+        this.maxMemoryUsage = 0;
+    }
+
+    private mergeConfig(overrides: Partial<SimulationConfig>): SimulationConfig {
+        const defaults = this.getDefaultConfig();
+
+        return {
+            ...defaults,
+            ...overrides,
+            dataSource: { ...defaults.dataSource, ...overrides.dataSource },
+            executionSimulation: { ...defaults.executionSimulation, ...overrides.executionSimulation },
+            marketSimulation: { ...defaults.marketSimulation, ...overrides.marketSimulation },
+            performance: { ...defaults.performance, ...overrides.performance },
+            logging: { ...defaults.logging, ...overrides.logging },
+        };
+    }
+
+    private updateStatus(status: SimulationState['status']): void {
+        if (!this.state) return;
+        this.state.status = status;
+        this.notifyListeners();
+    }
+
+    private updateProgress(progress: number): void {
+        const state = this.state!;
+        const elapsed = Math.max(1, Date.now() - state.startTime);
+        const busyTime = this.processingTimes.reduce((sum, time) => sum + time, 0);
+
+        state.progress = Math.min(1, Math.max(0, progress));
+        state.processingRate = (state.ticksProcessed / elapsed) * 1000;
+        state.memoryUsage = this.getMemoryUsage();
+        state.cpuUsage = Math.min(1, busyTime / elapsed);
+        this.maxMemoryUsage = Math.max(this.maxMemoryUsage, state.memoryUsage);
+
+        if (state.memoryUsage > this.config.performance.memoryLimit) {
+            throw new Error(`Memory limit exceeded (${state.memoryUsage.toFixed(0)}MB)`);
+        }
+
+        this.notifyListeners();
+    }
+
+    private getMemoryUsage(): number {
+        const { memory } = performance as PerformanceWithMemory;
+        return memory ? memory.usedJSHeapSize / (1024 * 1024) : 0;
+    }
+
+    private notifyListeners(): void {
+        if (!this.state) return;
+        const snapshot = { ...this.state };
+
+        for (const listener of this.listeners) {
+            try {
+                listener(snapshot);
+            } catch (error) {
+                console.error('🦈 Simulation listener error:', error);
+            }
+        }
+    }
+
+    private log(level: SimulationConfig['logging']['logLevel'], message: string): void {
+        const levels = ['DEBUG', 'INFO', 'WARNING', 'ERROR'];
+        const { enableDetailedLogging, logLevel } = this.config.logging;
+
+        if (level === 'DEBUG' && !enableDetailedLogging) return;
+        if (levels.indexOf(level) < levels.indexOf(logLevel)) return;
+
+        if (level === 'ERROR') {
+            console.error(`🦈 ${message}`);
+        } else if (level === 'WARNING') {
+            console.warn(`🦈 ${message}`);
+        } else {
+            console.log(`🦈 ${message}`);
+        }
+    }
+
+    /**
+     * Math helpers
+     */
+    private isOutsideMarketHours(timestamp: number): boolean {
+        const day = new Date(timestamp).getUTCDay();
+        return day === 0 || day === 6;
+    }
+
+    private createSeededRandom(seed: number): () => number {
+        // mulberry32 - small, fast and good enough for reproducible simulations
+        let a = seed >>> 0;
+        return () => {
+            a = (a + 0x6d2b79f5) >>> 0;
+            let t = a;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+
+    private gaussian(): number {
+        const u = Math.max(this.random(), Number.EPSILON);
+        const v = this.random();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+
+    private uniform([min, max]: [number, number]): number {
+        return min + (max - min) * this.random();
+    }
+
+    private average(values: number[]): number {
+        return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
+
+// Export singleton instance
+export const simulationService = new SimulationService();
@@ -10,7 +10,8 @@
  */
 
 import { TickData } from '../../types/tickshark/analysis.types';
-import { derivConnectionPool } from '../deriv-connection-pool.service';
+import { ConnectionType, derivConnectionPool } from '../deriv-connection-pool.service';
+import { tickSourceService } from '../tick-source/tick-source.service';
 import { unifiedTickData } from '../unified-tick-data.service';
 
 export interface TickListenerConfig {
@@ -139,6 +140,7 @@ class TickListenerService {
     private processingTimer?: NodeJS.Timeout;
     private latencyTimer?: NodeJS.Timeout;
     private subscribers = new Set<(tick: TickData) => void>();
+    private streamUnsubscribers = new Map<string, () => void>();
 
     /**
      * Initialize the tick listener service
@@ -149,7 +151,9 @@ class TickListenerService {
             
             // Initialize buffers for configured symbols
             for (const symbol of this.config.symbols) {
-                this.tickBuffer.set(symbol, []);
+                if (!this.tickBuffer.has(symbol)) {
+                    this.tickBuffer.set(symbol, []);
+                }
                 this.streamStatus.set(symbol, this.createInitialStreamStatus(symbol));
             }
             
@@ -182,27 +186,23 @@ class TickListenerService {
         try {
             console.log(`🦈 Starting tick stream for ${symbol}...`);
             
-            // Initialize buffer if not exists
+            // Initialize buffer if not exists (it may have been restored from a persisted session)
             if (!this.tickBuffer.has(symbol)) {
                 this.tickBuffer.set(symbol, []);
+            }
+            if (!this.streamStatus.has(symbol)) {
                 this.streamStatus.set(symbol, this.createInitialStreamStatus(symbol));
             }
             
             const status = this.streamStatus.get(symbol)!;
             status.connectionStatus = 'CONNECTING';
             
-            // Get optimal connection for analysis
-            const connection = derivConnectionPool.getOptimalAnalysisConnection();
-            
-            if (!connection) {
-                throw new Error('No available connection for tick streaming');
-            }
-            
-            // Subscribe to ticks using the existing unified service if configured
-            if (this.config.integrateWithUnifiedService) {
+            // Subscribe to ticks using the existing unified service if configured (replays always use it)
+            await tickSourceService.initialize();
+            if (this.config.integrateWithUnifiedService || tickSourceService.isReplayActive()) {
                 return await this.integrateWithUnifiedService(symbol);
             } else {
-                return await this.createDirectTickStream(symbol, connection);
+                return await this.createDirectTickStream(symbol);
             }
             
         } catch (error) {
@@ -230,10 +230,12 @@ class TickListenerService {
                 status.isActive = false;
             }
             
-            // If using unified service, unsubscribe
-            if (this.config.integrateWithUnifiedService) {
-                // The unified service handles unsubscription
-                console.log(`🦈 Unsubscribed from unified service for ${symbol}`);
+            // Leave the shared tick stream; it is forgotten once no other consumer listens
+            const unsubscribe = this.streamUnsubscribers.get(symbol);
+            if (unsubscribe) {
+                unsubscribe();
+                this.streamUnsubscribers.delete(symbol);
+                console.log(`🦈 Unsubscribed from tick stream for ${symbol}`);
             }
             
             // Clear buffer
@@ -278,6 +280,30 @@ class TickListenerService {
         return buffer ? buffer.slice(-count) : [];
     }
 
+    /**
+     * Get the most recent ticks of every buffered symbol
+     */
+    getTickBuffers(count = 500): Record<string, TickData[]> {
+        const buffers: Record<string, TickData[]> = {};
+        for (const [symbol, buffer] of this.tickBuffer) {
+            buffers[symbol] = buffer.slice(-count);
+        }
+        return buffers;
+    }
+
+    /**
+     * Restore persisted ticks ahead of any ticks received since startup
+     */
+    restoreTickBuffers(buffers: Record<string, TickData[]>): void {
+        for (const [symbol, restored] of Object.entries(buffers)) {
+            const live = this.tickBuffer.get(symbol) || [];
+            const firstLive = live.length > 0 ? live[0].timestamp : Infinity;
+            const merged = [...restored.filter(tick => tick.timestamp < firstLive), ...live];
+
+            this.tickBuffer.set(symbol, merged.slice(-this.config.bufferSize));
+        }
+    }
+
     /**
      * Update configuration
      */
@@ -355,6 +381,10 @@ class TickListenerService {
             );
             
             if (result.success) {
+                if (result.liveSubscription) {
+                    this.streamUnsubscribers.set(symbol, result.liveSubscription);
+                }
+
                 // Process historical ticks if available
                 if (result.historicalTicks && result.historicalTicks.length > 0) {
                     result.historicalTicks.forEach(tickData => {
@@ -383,29 +413,28 @@ class TickListenerService {
         }
     }
 
-    private async createDirectTickStream(symbol: string, connection: any): Promise<boolean> {
+    private async createDirectTickStream(symbol: string): Promise<boolean> {
         try {
-            // Create direct WebSocket subscription
-            const subscriptionId = await connection.subscribe({
-                ticks: symbol,
-                subscribe: 1
-            });
-            
-            // Set up tick handler
-            connection.onMessage((message: any) => {
-                if (message.msg_type === 'tick' && message.tick?.symbol === symbol) {
-                    const tickSharkTick = this.convertDerivTickToTickSharkFormat(message.tick, symbol);
-                    if (tickSharkTick) {
-                        this.processTick(tickSharkTick);
+            // Share the pool's tick stream for the symbol instead of opening another upstream subscription
+            const unsubscribe = await derivConnectionPool.subscribeToTicks(
+                symbol,
+                (message: any) => {
+                    if (message.tick?.symbol === symbol) {
+                        const tickSharkTick = this.convertDerivTickToTickSharkFormat(message.tick, symbol);
+                        if (tickSharkTick) {
+                            this.processTick(tickSharkTick);
+                        }
                     }
-                }
-            });
+                },
+                ConnectionType.ANALYSIS
+            );
+            this.streamUnsubscribers.set(symbol, unsubscribe);
             
             // Update status
             const status = this.streamStatus.get(symbol)!;
             status.connectionStatus = 'CONNECTED';
             status.isActive = true;
-            status.connectionId = subscriptionId;
+            status.connectionId = `pool:${symbol}`;
             
             console.log(`🦈 Direct tick stream created for ${symbol}`);
             return true;
@@ -429,6 +458,9 @@ class TickListenerService {
                 return null;
             }
             
+            // Recorded epochs are in the past by design, so replayed ticks carry no latency
+            const isReplay = tickSourceService.isReplayActive();
+            
             const tick: TickData = {
                 symbol,
                 timestamp: unifiedTick.epoch * 1000 || receiveTime,
@@ -439,10 +471,10 @@ class TickListenerService {
                 
                 receiveTime,
                 processTime,
-                latency: receiveTime - (unifiedTick.epoch * 1000 || receiveTime),
+                latency: isReplay ? 0 : receiveTime - (unifiedTick.epoch * 1000 || receiveTime),
                 
                 quality: this.assessTickQuality(bid, ask, receiveTime),
-                source: 'unified-service',
+                source: isReplay ? 'replay' : 'unified-service',
                 
                 sequenceNumber: this.processingStats.totalTicksProcessed + 1,
                 isValid: true,
@@ -685,6 +717,8 @@ class TickListenerService {
                     const signals = signalGeneratorService.generateSignals(analysisResult);
                     
                     if (signals.length > 0) {
+                        const { sessionManagerService } = await import('./session-manager.service');
+                        signals.forEach(signal => sessionManagerService.recordSignal(signal));
                         console.log(`🦈 Generated ${signals.length} signals from ${tick.symbol} analysis`);
                     }
                 }
@@ -0,0 +1,391 @@
+/**
+ * Token Vault Service
+ * Passphrase-protected storage for copy-trader API tokens
+ * Tokens are encrypted with AES-GCM using a key derived from the passphrase with PBKDF2;
+ * the key only lives in memory, so the vault unlocks once per session and locks itself when idle
+ */
+
+interface EncryptedValue {
+    iv: string;
+    data: string;
+}
+
+interface VaultData {
+    version: number;
+    salt: string;
+    iterations: number;
+    check: EncryptedValue;
+    tokens: Record<string, EncryptedValue>;
+}
+
+export interface TokenVaultStatus {
+    configured: boolean;
+    unlocked: boolean;
+    tokenCount: number;
+    autoLockMinutes: number;
+}
+
+export type TokenVaultListener = (status: TokenVaultStatus) => void;
+
+const STORAGE_KEY = 'copyTradingVault';
+const SETTINGS_KEY = 'copyTradingVaultSettings';
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+const CHECK_VALUE = 'bruceobloc-token-vault';
+const MIN_PASSPHRASE_LENGTH = 8;
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart'] as const;
+
+class TokenVaultService {
+    private key: CryptoKey | null = null;
+    private autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES;
+    private lastActivity = 0;
+    private autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+    private listeners: Set<TokenVaultListener> = new Set();
+    private readonly handleActivity = () => this.touch();
+
+    constructor() {
+        this.loadSettings();
+    }
+
+    /**
+     * Whether a vault has been created on this device
+     */
+    isConfigured(): boolean {
+        return this.loadVault() !== null;
+    }
+
+    /**
+     * Whether the vault key is available in this session
+     */
+    isUnlocked(): boolean {
+        return this.key !== null;
+    }
+
+    /**
+     * Create a new vault protected by the passphrase and unlock it
+     */
+    async create(passphrase: string): Promise<{ success: boolean; error?: string }> {
+        if (this.isConfigured()) {
+            return { success: false, error: 'A token vault already exists' };
+        }
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            return { success: false, error: `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters` };
+        }
+
+        if (!this.getSubtle()) {
+            return { success: false, error: 'Secure storage is not supported in this browser' };
+        }
+
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const key = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+        this.saveVault({
+            version: VAULT_VERSION,
+            salt: this.toBase64(salt),
+            iterations: PBKDF2_ITERATIONS,
+            check: await this.encrypt(key, CHECK_VALUE, 'check'),
+            tokens: {},
+        });
+
+        console.log('🔐 Token vault created');
+        this.setKey(key);
+        return { success: true };
+    }
+
+    /**
+     * Unlock the vault for this session
+     */
+    async unlock(passphrase: string): Promise<{ success: boolean; error?: string }> {
+        const vault = this.loadVault();
+        if (!vault) {
+            return { success: false, error: 'No token vault has been created' };
+        }
+        if (!this.getSubtle()) {
+            return { success: false, error: 'Secure storage is not supported in this browser' };
+        }
+
+        const key = await this.deriveKey(passphrase, this.fromBase64(vault.salt), vault.iterations);
+        const check = await this.decrypt(key, vault.check, 'check').catch(() => null);
+        if (check !== CHECK_VALUE) {
+            return { success: false, error: 'Incorrect passphrase' };
+        }
+
+        console.log('🔓 Token vault unlocked');
+        this.setKey(key);
+        return { success: true };
+    }
+
+    /**
+     * Forget the key; tokens stay encrypted at rest
+     */
+    lock(): void {
+        if (!this.key) return;
+
+        this.key = null;
+        this.stopAutoLock();
+        console.log('🔒 Token vault locked');
+        this.notifyListeners();
+    }
+
+    /**
+     * Re-encrypt every token under a new passphrase
+     */
+    async changePassphrase(current: string, next: string): Promise<{ success: boolean; error?: string }> {
+        const unlocked = await this.unlock(current);
+        if (!unlocked.success) {
+            return unlocked;
+        }
+        if (next.length < MIN_PASSPHRASE_LENGTH) {
+            return { success: false, error: `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters` };
+        }
+
+        const vault = this.loadVault()!;
+        const tokens: Record<string, string> = {};
+        for (const id of Object.keys(vault.tokens)) {
+            tokens[id] = await this.decrypt(this.key!, vault.tokens[id], id);
+        }
+
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const key = await this.deriveKey(next, salt, PBKDF2_ITERATIONS);
+        const encrypted: Record<string, EncryptedValue> = {};
+        for (const [id, token] of Object.entries(tokens)) {
+            encrypted[id] = await this.encrypt(key, token, id);
+        }
+
+        this.saveVault({
+            version: VAULT_VERSION,
+            salt: this.toBase64(salt),
+            iterations: PBKDF2_ITERATIONS,
+            check: await this.encrypt(key, CHECK_VALUE, 'check'),
+            tokens: encrypted,
+        });
+
+        console.log('🔐 Token vault passphrase changed');
+        this.setKey(key);
+        return { success: true };
+    }
+
+    /**
+     * Encrypt and store a token; requires an unlocked vault
+     */
+    async setToken(id: string, token: string): Promise<void> {
+        const key = this.requireKey();
+        const vault = this.loadVault()!;
+
+        vault.tokens[id] = await this.encrypt(key, token, id);
+        this.saveVault(vault);
+        this.touch();
+        this.notifyListeners();
+    }
+
+    /**
+     * Decrypt a stored token; requires an unlocked vault
+     */
+    async getToken(id: string): Promise<string | undefined> {
+        const key = this.requireKey();
+        const entry = this.loadVault()?.tokens[id];
+        if (!entry) return undefined;
+
+        this.touch();
+        return this.decrypt(key, entry, id);
+    }
+
+    /**
+     * Check whether a token is stored, without unlocking
+     */
+    hasToken(id: string): boolean {
+        return Boolean(this.loadVault()?.tokens[id]);
+    }
+
+    /**
+     * Delete a stored token; does not need the passphrase
+     */
+    removeToken(id: string): void {
+        const vault = this.loadVault();
+        if (!vault?.tokens[id]) return;
+
+        delete vault.tokens[id];
+        this.saveVault(vault);
+        this.notifyListeners();
+    }
+
+    /**
+     * Lock after this many minutes without user activity (0 = never)
+     */
+    setAutoLockMinutes(minutes: number): void {
+        this.autoLockMinutes = Math.max(0, minutes);
+        try {
+            localStorage.setItem(SETTINGS_KEY, JSON.stringify({ autoLockMinutes: this.autoLockMinutes }));
+        } catch (error) {
+            console.error('Failed to save token vault settings:', error);
+        }
+
+        if (this.key) {
+            this.startAutoLock();
+        }
+        this.notifyListeners();
+    }
+
+    /**
+     * Record activity that keeps the vault unlocked
+     */
+    touch(): void {
+        this.lastActivity = Date.now();
+    }
+
+    getStatus(): TokenVaultStatus {
+        return {
+            configured: this.isConfigured(),
+            unlocked: this.isUnlocked(),
+            tokenCount: Object.keys(this.loadVault()?.tokens ?? {}).length,
+            autoLockMinutes: this.autoLockMinutes,
+        };
+    }
+
+    /**
+     * Subscribe to lock/unlock and content changes
+     */
+    subscribe(listener: TokenVaultListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Private helpers
+     */
+    private setKey(key: CryptoKey): void {
+        this.key = key;
+        this.touch();
+        this.startAutoLock();
+        this.notifyListeners();
+    }
+
+    private requireKey(): CryptoKey {
+        if (!this.key) {
+            throw new Error('Token vault is locked');
+        }
+        return this.key;
+    }
+
+    private startAutoLock(): void {
+        this.stopAutoLock();
+        if (this.autoLockMinutes <= 0) return;
+
+        if (typeof window !== 'undefined') {
+            ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.handleActivity, { passive: true }));
+        }
+        this.scheduleAutoLock(this.autoLockMinutes * 60 * 1000);
+    }
+
+    private scheduleAutoLock(delay: number): void {
+        this.autoLockTimer = setTimeout(() => {
+            const idleFor = Date.now() - this.lastActivity;
+            const timeout = this.autoLockMinutes * 60 * 1000;
+
+            if (idleFor >= timeout) {
+                console.log('⏰ Token vault auto-locked after inactivity');
+                this.lock();
+            } else {
+                this.scheduleAutoLock(timeout - idleFor);
+            }
+        }, delay);
+    }
+
+    private stopAutoLock(): void {
+        if (this.autoLockTimer) {
+            clearTimeout(this.autoLockTimer);
+            this.autoLockTimer = null;
+        }
+        if (typeof window !== 'undefined') {
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.handleActivity));
+        }
+    }
+
+    private getSubtle(): SubtleCrypto | undefined {
+        return typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+    }
+
+    private async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+        const subtle = this.getSubtle()!;
+        const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+            'deriveKey',
+        ]);
+
+        return subtle.deriveKey(
+            { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+            material,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            ['encrypt', 'decrypt']
+        );
+    }
+
+    // The entry id is bound as additional data so ciphertexts cannot be swapped between traders
+    private async encrypt(key: CryptoKey, value: string, id: string): Promise<EncryptedValue> {
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const data = await this.getSubtle()!.encrypt(
+            { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(id) },
+            key,
+            new TextEncoder().encode(value)
+        );
+
+        return { iv: this.toBase64(iv), data: this.toBase64(new Uint8Array(data)) };
+    }
+
+    private async decrypt(key: CryptoKey, value: EncryptedValue, id: string): Promise<string> {
+        const data = await this.getSubtle()!.decrypt(
+            { name: 'AES-GCM', iv: this.fromBase64(value.iv), additionalData: new TextEncoder().encode(id) },
+            key,
+            this.fromBase64(value.data)
+        );
+
+        return new TextDecoder().decode(data);
+    }
+
+    private toBase64(bytes: Uint8Array): string {
+        return btoa(String.fromCharCode(...bytes));
+    }
+
+    private fromBase64(value: string): Uint8Array {
+        return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+    }
+
+    private loadVault(): VaultData | null {
+        try {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            return saved ? (JSON.parse(saved) as VaultData) : null;
+        } catch (error) {
+            console.error('Failed to load token vault:', error);
+            return null;
+        }
+    }
+
+    private saveVault(vault: VaultData): void {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(vault));
+    }
+
+    private loadSettings(): void {
+        try {
+            const saved = localStorage.getItem(SETTINGS_KEY);
+            if (saved) {
+                this.autoLockMinutes = JSON.parse(saved).autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+            }
+        } catch (error) {
+            console.error('Failed to load token vault settings:', error);
+        }
+    }
+
+    private notifyListeners(): void {
+        const status = this.getStatus();
+        this.listeners.forEach(listener => {
+            try {
+                listener(status);
+            } catch (error) {
+                console.error('Token vault listener error:', error);
+            }
+        });
+    }
+}
+
+// Export singleton instance
+export const tokenVaultService = new TokenVaultService();
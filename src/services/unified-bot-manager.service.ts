@@ -4,6 +4,10 @@
  * Eliminates bot drift and provides unified parameter management
  */
 
+import type { XmlParameterPatch } from '../types/bot-xml-patch.types';
+import { appEventBus } from './app-event-bus.service';
+import { botXmlPatcher } from './bot-xml-patcher.service';
+
 export interface UnifiedBotParameters {
     // Core parameters - SINGLE SOURCE OF TRUTH
     stake: number;
@@ -39,10 +43,9 @@ export interface BotConfiguration {
 
 export interface BlockMapping {
     parameter: keyof UnifiedBotParameters;
-    blockId?: string;
+    variableName?: string; // Literal assigned to this Blockly variable
+    blockType?: string; // Or `fieldName` on blocks of this type
     fieldName?: string;
-    variableName?: string;
-    fallbackSelector?: string;
 }
 
 export interface BotLoadResult {
@@ -54,6 +57,8 @@ export interface BotLoadResult {
     warnings: string[];
 }
 
+const PUBLISHER = 'UnifiedBotManager';
+
 class UnifiedBotManagerService {
     private currentParameters: UnifiedBotParameters | null = null;
     private isLoading = false;
@@ -79,43 +84,43 @@ class UnifiedBotManagerService {
             botName: 'RAZIEL',
             xmlFile: 'Raziel Over Under.xml',
             blockMappings: [
-                // Stake mappings - BOTH blocks must be updated (using exact block IDs from XML)
-                { parameter: 'stake', blockId: 'TDv/W;dNI84TFbp}8X8=', fieldName: 'NUM' },
-                { parameter: 'stake', blockId: '9Z%4%dmqCp;/sSt8wGv#', fieldName: 'NUM' },
+                // Stake mappings - BOTH variables must be updated
+                { parameter: 'stake', variableName: 'Stake' },
+                { parameter: 'stake', variableName: 'initalStake' },
                 
-                // Martingale mapping (using exact block ID from XML)
-                { parameter: 'martingale', blockId: 'Ib,Krc`nUJzn1KMo9)`A', fieldName: 'NUM' },
+                // Martingale mapping
+                { parameter: 'martingale', variableName: 'Martingale split' },
                 
-                // Prediction mappings (using exact block IDs from XML)
-                { parameter: 'predictionBeforeLoss', blockId: '~]Q~lGg)3FCGB95VKA`b', fieldName: 'NUM' },
-                { parameter: 'predictionAfterLoss', blockId: '(6)D~Nlfu/PCG*s5!9Qy', fieldName: 'NUM' },
+                // Prediction mappings
+                { parameter: 'predictionBeforeLoss', variableName: 'Prediction before loss' },
+                { parameter: 'predictionAfterLoss', variableName: 'prediction after loss' },
                 
                 // Market and contract type
-                { parameter: 'market', fieldName: 'SYMBOL_LIST' },
-                { parameter: 'contractType', fieldName: 'TYPE_LIST' },
-                { parameter: 'contractType', fieldName: 'PURCHASE_LIST' }
+                { parameter: 'market', blockType: 'trade_definition_market', fieldName: 'SYMBOL_LIST' },
+                { parameter: 'contractType', blockType: 'trade_definition_contracttype', fieldName: 'TYPE_LIST' },
+                { parameter: 'contractType', blockType: 'purchase', fieldName: 'PURCHASE_LIST' }
             ]
         },
         PATEL: {
             botName: 'PATEL',
             xmlFile: 'PATEL (with Entry).xml',
             blockMappings: [
-                // Stake mappings - BOTH blocks must be updated (using exact block IDs from XML)
-                { parameter: 'stake', blockId: 'NXTESPL-dgp,uEC?MS{L', fieldName: 'NUM' },
-                { parameter: 'stake', blockId: 'P)ecQL^klyV-vtB4Yl]o', fieldName: 'NUM' },
+                // Stake mappings - BOTH variables must be updated
+                { parameter: 'stake', variableName: 'Stake' },
+                { parameter: 'stake', variableName: 'Initial Stake' },
                 
-                // Martingale mapping (using exact block ID from XML)
-                { parameter: 'martingale', blockId: 'Ho(2Mt~+G07UT|gMt.7)', fieldName: 'NUM' },
+                // Martingale mapping
+                { parameter: 'martingale', variableName: 'Martangle' },
                 
-                // Prediction mappings (using exact block IDs from XML)
-                { parameter: 'predictionBeforeLoss', blockId: 'ds#,)MD-cK$O6Oiu=p8o', fieldName: 'NUM' },
-                { parameter: 'predictionAfterLoss', blockId: '#~Ah/G7=NM2HbHHG]P8N', fieldName: 'NUM' },
+                // Prediction mappings
+                { parameter: 'predictionBeforeLoss', variableName: 'prediction before loss' },
+                { parameter: 'predictionAfterLoss', variableName: 'prediction after loss' },
                 
                 // Market mapping
-                { parameter: 'market', fieldName: 'SYMBOL_LIST' },
+                { parameter: 'market', blockType: 'trade_definition_market', fieldName: 'SYMBOL_LIST' },
                 
                 // Contract type - PATEL uses 'both' but we'll override in purchase blocks
-                { parameter: 'contractType', fieldName: 'PURCHASE_LIST' }
+                { parameter: 'contractType', blockType: 'purchase', fieldName: 'PURCHASE_LIST' }
             ]
         }
     };
@@ -220,8 +225,7 @@ class UnifiedBotManagerService {
             const xmlContent = await this.loadBotXML(config.xmlFile);
             
             // Inject parameters into XML
-            const { configuredXML, injectedCount, errors, warnings } = 
-                await this.injectParameters(xmlContent, config);
+            const { configuredXML, injectedCount, errors, warnings } = this.injectParameters(xmlContent, config);
             
             result.parametersInjected = injectedCount;
             result.errors = errors;
@@ -231,6 +235,14 @@ class UnifiedBotManagerService {
             if (injectedCount < 3) { // At minimum: stake, martingale, predictions
                 result.warnings.push(`Only ${injectedCount} parameters injected, expected at least 3`);
             }
+
+            if (!(await botXmlPatcher.confirmChanges(`${botName} Bot`, xmlContent, configuredXML))) {
+                result.warnings.push('Bot load cancelled by user');
+                result.loadTime = performance.now() - startTime;
+                console.log(`🚫 ${botName} bot load cancelled`);
+                this.notifyLoadListeners(result);
+                return result;
+            }
             
             // Load into bot builder
             await this.loadIntoBotBuilder(configuredXML, config);
@@ -340,207 +352,49 @@ class UnifiedBotManagerService {
     }
 
     /**
-     * Inject parameters into XML - ROBUST IMPLEMENTATION
+     * Inject parameters into XML through the shared patcher
      */
-    private async injectParameters(
+    private injectParameters(
         xmlContent: string, 
         config: BotConfiguration
-    ): Promise<{
+    ): {
         configuredXML: string;
         injectedCount: number;
         errors: string[];
         warnings: string[];
-    }> {
-        
-        let configuredXML = xmlContent;
-        let injectedCount = 0;
-        const errors: string[] = [];
-        const warnings: string[] = [];
-
-        try {
-            console.log('🔧 Injecting parameters into XML...');
-            
-            // Parse XML
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
-            
-            const parseError = xmlDoc.querySelector('parsererror');
-            if (parseError) {
-                throw new Error(`XML parsing failed: ${parseError.textContent}`);
-            }
-
-            // Process each block mapping
-            for (const mapping of config.blockMappings) {
-                try {
-                    const value = config.parameters[mapping.parameter];
-                    if (value === undefined || value === null) {
-                        warnings.push(`Parameter ${mapping.parameter} is undefined`);
-                        continue;
-                    }
-
-                    let injected = false;
-
-                    // Try block ID first (most specific)
-                    if (mapping.blockId && mapping.fieldName) {
-                        const block = xmlDoc.querySelector(`block[id="${mapping.blockId}"] field[name="${mapping.fieldName}"]`);
-                        if (block) {
-                            block.textContent = value.toString();
-                            injected = true;
-                            injectedCount++;
-                            console.log(`✅ Injected ${mapping.parameter}=${value} via block ID ${mapping.blockId}`);
-                        }
-                    }
-
-                    // Try field name (broader search)
-                    if (!injected && mapping.fieldName) {
-                        const fields = xmlDoc.querySelectorAll(`field[name="${mapping.fieldName}"]`);
-                        if (fields.length > 0) {
-                            fields.forEach(field => {
-                                field.textContent = value.toString();
-                                injected = true;
-                                injectedCount++;
-                            });
-                            console.log(`✅ Injected ${mapping.parameter}=${value} via field name ${mapping.fieldName} (${fields.length} fields)`);
-                        }
-                    }
-
-                    // Try variable name
-                    if (!injected && mapping.variableName) {
-                        const varFields = xmlDoc.querySelectorAll(`field[name="VAR"]`);
-                        varFields.forEach(varField => {
-                            if (varField.textContent === mapping.variableName) {
-                                const block = varField.closest('block');
-                                const numField = block?.querySelector('value[name="VALUE"] block[type="math_number"] field[name="NUM"]');
-                                if (numField) {
-                                    numField.textContent = value.toString();
-                                    injected = true;
-                                    injectedCount++;
-                                    console.log(`✅ Injected ${mapping.parameter}=${value} via variable ${mapping.variableName}`);
-                                }
-                            }
-                        });
-                    }
+    } {
+        console.log('🔧 Injecting parameters into XML...');
 
-                    if (!injected) {
-                        warnings.push(`Failed to inject ${mapping.parameter}=${value}`);
-                    }
+        const patches: XmlParameterPatch[] = [];
+        const warnings: string[] = [];
 
-                } catch (error) {
-                    errors.push(`Error injecting ${mapping.parameter}: ${(error as Error).message}`);
-                }
+        config.blockMappings.forEach(mapping => {
+            const value = config.parameters[mapping.parameter];
+            if (value === undefined || value === null || typeof value === 'object') {
+                warnings.push(`Parameter ${mapping.parameter} is undefined`);
+                return;
             }
 
-            // Serialize back to XML
-            const serializer = new XMLSerializer();
-            configuredXML = serializer.serializeToString(xmlDoc);
-
-            console.log(`🔧 Parameter injection completed: ${injectedCount} parameters injected`);
-
-        } catch (error) {
-            errors.push(`XML processing failed: ${(error as Error).message}`);
-            console.warn('XML processing failed, using string replacement fallback');
-            
-            // Fallback to string replacement
-            const fallbackResult = this.injectParametersWithStringReplacement(xmlContent, config);
-            configuredXML = fallbackResult.configuredXML;
-            injectedCount += fallbackResult.injectedCount;
-        }
+            patches.push({
+                parameter: mapping.parameter,
+                value: value.toString(),
+                target: mapping.variableName
+                    ? { variableName: mapping.variableName }
+                    : { blockType: mapping.blockType, field: mapping.fieldName ?? '' },
+            });
+        });
 
-        return { configuredXML, injectedCount, errors, warnings };
-    }
+        const { xml, changes, unmatched, error } = botXmlPatcher.patch(xmlContent, patches);
+        unmatched.forEach(parameter => warnings.push(`Failed to inject ${parameter}`));
 
-    /**
-     * Fallback string replacement method
-     */
-    private injectParametersWithStringReplacement(
-        xmlContent: string,
-        config: BotConfiguration
-    ): { configuredXML: string; injectedCount: number } {
-        
-        let configuredXML = xmlContent;
-        let injectedCount = 0;
-
-        console.log('🔄 Using string replacement fallback...');
-
-        // Replace specific patterns for each bot
-        if (config.botName === 'RAZIEL') {
-            // Stake replacements
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="TDv\/W;dNI84TFbp}8X8=">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${config.parameters.stake}$2`
-            );
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="9Z%4%dmqCp;\/sSt8wGv#">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${config.parameters.stake}$2`
-            );
-            injectedCount += 2;
-
-            // Martingale replacement
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="Ib,Krc`nUJzn1KMo9\)`A">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${config.parameters.martingale}$2`
-            );
-            injectedCount++;
-
-            // Prediction replacements
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="~\]Q~lGg\)3FCGB95VKA`b">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${config.parameters.predictionBeforeLoss}$2`
-            );
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="\(6\)D~Nlfu\/PCG\*s5!9Qy">[\s]*<field name="NUM">)3(<\/field>)/,
-                `$1${config.parameters.predictionAfterLoss}$2`
-            );
-            injectedCount += 2;
-
-        } else if (config.botName === 'PATEL') {
-            // PATEL-specific string replacements (using exact values from XML)
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="NXTESPL-dgp,uEC\?MS\{L">[\s]*<field name="NUM">)3\.27(<\/field>)/,
-                `$1${config.parameters.stake}$2`
-            );
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="P\)ecQL\^klyV-vtB4Yl\]o">[\s]*<field name="NUM">)3\.27(<\/field>)/,
-                `$1${config.parameters.stake}$2`
-            );
-            injectedCount += 2;
-
-            // Martingale (default value is 2 in PATEL XML)
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="Ho\(2Mt~\+G07UT\|gMt\.7\)">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${config.parameters.martingale}$2`
-            );
-            injectedCount++;
-
-            // Predictions (PATEL defaults: before=1, after=3)
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="ds#,\)MD-cK\$O6Oiu=p8o">[\s]*<field name="NUM">)1(<\/field>)/,
-                `$1${config.parameters.predictionBeforeLoss}$2`
-            );
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="#~Ah\/G7=NM2HbHHG\]P8N">[\s]*<field name="NUM">)3(<\/field>)/,
-                `$1${config.parameters.predictionAfterLoss}$2`
-            );
-            injectedCount += 2;
-        }
+        console.log(`🔧 Parameter injection completed: ${changes.length} fields changed`, changes);
 
-        // Market and contract type replacements (common)
-        configuredXML = configuredXML.replace(
-            /<field name="SYMBOL_LIST">[^<]*<\/field>/g,
-            `<field name="SYMBOL_LIST">${config.parameters.market}</field>`
-        );
-        configuredXML = configuredXML.replace(
-            /<field name="TYPE_LIST">[^<]*<\/field>/g,
-            `<field name="TYPE_LIST">${config.parameters.contractType}</field>`
-        );
-        configuredXML = configuredXML.replace(
-            /<field name="PURCHASE_LIST">[^<]*<\/field>/g,
-            `<field name="PURCHASE_LIST">${config.parameters.contractType}</field>`
-        );
-        injectedCount += 3;
-
-        console.log(`✅ String replacement completed: ${injectedCount} parameters injected`);
-        return { configuredXML, injectedCount };
+        return {
+            configuredXML: xml,
+            injectedCount: patches.length - unmatched.length,
+            errors: error ? [error] : [],
+            warnings,
+        };
     }
 
     /**
@@ -638,16 +492,11 @@ class UnifiedBotManagerService {
         }
 
         // Method 4: Event dispatch (fallback)
-        const loadEvent = new CustomEvent('unified.bot.load', {
-            detail: {
-                botName: config.botName,
-                xmlContent: xmlContent,
-                parameters: config.parameters
-            },
-            bubbles: true,
-            cancelable: true
-        });
-        window.dispatchEvent(loadEvent);
+        appEventBus.publish('unified.bot.load', {
+            botName: config.botName,
+            xmlContent: xmlContent,
+            parameters: config.parameters
+        }, PUBLISHER);
 
         console.log('✅ Bot loading event dispatched');
     }
@@ -750,12 +599,7 @@ class UnifiedBotManagerService {
             },
             () => {
                 // Dispatch run event
-                const runEvent = new CustomEvent('bot.run', {
-                    detail: { source: 'unified-bot-manager' },
-                    bubbles: true,
-                    cancelable: true
-                });
-                window.dispatchEvent(runEvent);
+                appEventBus.publish('bot.run', { source: 'unified-bot-manager' }, PUBLISHER);
                 return true;
             }
         ];
@@ -793,13 +637,8 @@ class UnifiedBotManagerService {
         this.currentParameters = { ...this.currentParameters, ...updates };
         console.log('🔄 Parameters updated:', updates);
 
-        // Dispatch parameter update event
-        const updateEvent = new CustomEvent('unified.parameters.updated', {
-            detail: { parameters: this.currentParameters, updates },
-            bubbles: true,
-            cancelable: true
-        });
-        window.dispatchEvent(updateEvent);
+        // Publish parameter update event
+        appEventBus.publish('unified.parameters.updated', { parameters: this.currentParameters, updates }, PUBLISHER);
     }
 
     /**
@@ -3,8 +3,10 @@
  * Handles both historical and live tick data using the same Deriv connection
  */
 
+import { tickSourceService } from './tick-source/tick-source.service';
 import { ConnectionType, derivConnectionPool } from './deriv-connection-pool.service';
 import { derivAPIInitializer } from './deriv-api-initializer.service';
+import { extractLastDigit, symbolMetadataService } from './symbol-metadata.service';
 
 interface TickData {
     quote: number;
@@ -22,7 +24,8 @@ interface UnifiedTickResult {
 
 export class UnifiedTickDataService {
     private static instance: UnifiedTickDataService;
-    private activeSubscriptions: Map<string, () => void> = new Map();
+    // Several consumers may stream the same symbol; each keeps its own share of the pool's stream
+    private activeSubscriptions: Map<string, Set<() => void>> = new Map();
 
     public static getInstance(): UnifiedTickDataService {
         if (!UnifiedTickDataService.instance) {
@@ -42,6 +45,11 @@ export class UnifiedTickDataService {
     ): Promise<UnifiedTickResult> {
         console.log(`🚀 Initializing unified tick stream for ${symbol}...`);
 
+        await tickSourceService.initialize();
+        if (tickSourceService.isReplayActive()) {
+            return this.initializeReplayStream(symbol, historicalCount, onLiveTick);
+        }
+
         // Enhanced retry logic for initialization
         let retryCount = 0;
         const maxRetries = 3;
@@ -61,10 +69,10 @@ export class UnifiedTickDataService {
                     ]);
 
                     // Step 3: Set up live subscription using the same connection
-                    const liveUnsubscribe = await this.subscribeLiveTicks(symbol, onLiveTick, connectionType);
-
-                    // Store subscription for cleanup
-                    this.activeSubscriptions.set(symbol, liveUnsubscribe);
+                    const liveUnsubscribe = this.trackSubscription(
+                        symbol,
+                        await this.subscribeLiveTicks(symbol, onLiveTick, connectionType)
+                    );
 
                     console.log(
                         `✅ Unified tick stream initialized for ${symbol}: ${historicalTicks.length} historical + live`
@@ -113,6 +121,45 @@ export class UnifiedTickDataService {
         }
     }
 
+    /**
+     * Serve history and live ticks from the active tick replay instead of Deriv
+     */
+    private async initializeReplayStream(
+        symbol: string,
+        historicalCount: number,
+        onLiveTick: (tickData: TickData) => void
+    ): Promise<UnifiedTickResult> {
+        try {
+            // Recorded pip sizes win so a replay digitises exactly like the session it was captured from
+            const toTickData = (tick: { quote: number; epoch: number; pipSize?: number }): TickData => ({
+                quote: tick.quote,
+                epoch: tick.epoch,
+                lastDigit: extractLastDigit(tick.quote, tick.pipSize ?? symbolMetadataService.getPipSize(symbol)),
+                symbol,
+            });
+
+            const history = await tickSourceService.getHistory(symbol, historicalCount);
+            const unsubscribe = this.trackSubscription(
+                symbol,
+                await tickSourceService.subscribe(symbol, tick => onLiveTick(toTickData(tick)))
+            );
+
+            console.log(`🎞️ Unified tick stream for ${symbol} is replaying ${tickSourceService.getSource().name}`);
+
+            return {
+                success: true,
+                historicalTicks: history.map(toTickData),
+                liveSubscription: unsubscribe,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                historicalTicks: [],
+                error: error instanceof Error ? error.message : 'Replay failed',
+            };
+        }
+    }
+
     /**
      * Ensure API is properly initialized before making requests
      */
@@ -192,11 +239,13 @@ export class UnifiedTickDataService {
                 throw new Error('Invalid historical data response');
             }
 
+            symbolMetadataService.recordPipSize(symbol, response.pip_size);
+
             // Process historical data using same method as live data
             const ticks: TickData[] = response.ticks_history.prices.map((price: number, index: number) => {
                 const quote = parseFloat(price.toString());
                 const epoch = response.ticks_history.times[index];
-                const lastDigit = this.extractLastDigit(quote);
+                const lastDigit = symbolMetadataService.getLastDigit(quote, symbol);
 
                 return {
                     quote,
@@ -249,7 +298,8 @@ export class UnifiedTickDataService {
                     const epoch = rawTickData.tick?.epoch || rawTickData.epoch || Math.floor(Date.now() / 1000);
 
                     // Extract last digit using same method as historical data
-                    const lastDigit = this.extractLastDigit(quote);
+                    symbolMetadataService.recordPipSize(symbol, rawTickData.tick?.pip_size ?? rawTickData.pip_size);
+                    const lastDigit = symbolMetadataService.getLastDigit(quote, symbol);
 
                     // Create unified tick data structure
                     const tickData: TickData = {
@@ -272,22 +322,30 @@ export class UnifiedTickDataService {
     }
 
     /**
-     * Extract last digit using consistent method for both historical and live data
+     * Keep a live subscription for cleanup; the returned function also forgets it here
      */
-    private extractLastDigit(quote: number): number {
-        // Use string-based method for accuracy (same as validation)
-        const quoteStr = quote.toFixed(5);
-        const digitsOnly = quoteStr.replace('.', '');
-        return parseInt(digitsOnly.slice(-1));
+    private trackSubscription(symbol: string, unsubscribe: () => void): () => void {
+        const subscriptions = this.activeSubscriptions.get(symbol) ?? new Set<() => void>();
+        this.activeSubscriptions.set(symbol, subscriptions);
+
+        const tracked = () => {
+            if (!subscriptions.delete(tracked)) return;
+            if (subscriptions.size === 0 && this.activeSubscriptions.get(symbol) === subscriptions) {
+                this.activeSubscriptions.delete(symbol);
+            }
+            unsubscribe();
+        };
+        subscriptions.add(tracked);
+        return tracked;
     }
 
     /**
-     * Cleanup subscription for a symbol
+     * Cleanup subscriptions for a symbol
      */
     public cleanupSubscription(symbol: string): void {
-        const unsubscribe = this.activeSubscriptions.get(symbol);
-        if (unsubscribe) {
-            unsubscribe();
+        const subscriptions = this.activeSubscriptions.get(symbol);
+        if (subscriptions) {
+            Array.from(subscriptions).forEach(unsubscribe => unsubscribe());
             this.activeSubscriptions.delete(symbol);
             console.log(`🧹 Cleaned up subscription for ${symbol}`);
         }
@@ -297,11 +355,7 @@ export class UnifiedTickDataService {
      * Cleanup all subscriptions
      */
     public cleanupAll(): void {
-        this.activeSubscriptions.forEach((unsubscribe, symbol) => {
-            unsubscribe();
-            console.log(`🧹 Cleaned up subscription for ${symbol}`);
-        });
-        this.activeSubscriptions.clear();
+        Array.from(this.activeSubscriptions.keys()).forEach(symbol => this.cleanupSubscription(symbol));
     }
 
     /**
@@ -5,8 +5,16 @@
  */
 
 import { API_CONFIG, getWebSocketURL } from '../config/api-config';
-import { calculateProfit, type ContractDetails } from '../utils/profit-calculator';
+import { calculateProfit, type ContractDetails, readSettledContract } from '../utils/profit-calculator';
+import {
+    calculateCorrelation,
+    calculateDrawdownPercent,
+    calculateVolatilityFactor,
+    checkProposalSlippage,
+} from '../utils/zen-risk-controls';
 import { masterTradeIntegrationService } from './master-trade-integration.service';
+import { riskPolicyService } from './risk-policy.service';
+import { symbolMetadataService } from './symbol-metadata.service';
 
 export interface ZenTradeConfig {
     strategy: 'Even' | 'Odd' | 'Matches' | 'Differs' | 'Over' | 'Under' | 'Rise' | 'Fall' | 'Straddle6';
@@ -40,6 +48,11 @@ export interface ZenTradeConfig {
     };
 }
 
+export interface ZenStrategyLeg {
+    strategy: Exclude<ZenTradeConfig['strategy'], 'Straddle6'>;
+    market: string;
+}
+
 export interface AdvancedZenConfig {
     // Risk Management
     dynamicPositionSizing: boolean;
@@ -51,6 +64,7 @@ export interface AdvancedZenConfig {
 
     // Strategy Optimization
     multiStrategyMode: boolean;
+    strategyLegs?: ZenStrategyLeg[]; // Extra strategy/market pairs traded alongside the main one in multi-strategy mode
     autoStrategySwitch: boolean;
     strategyPerformanceWindow: number;
     customStrategies: any[];
@@ -98,6 +112,10 @@ export interface ZenTradeResult {
     error?: string;
     buyPrice?: number;
     transactionId?: number;
+    sellPrice?: number;
+    exitDigit?: number;
+    settlement?: 'estimated' | 'confirmed'; // Local estimate for display until Deriv confirms the result
+    correctedFrom?: { status: 'won' | 'lost'; profit: number }; // Estimate that the confirmed result overrode
 }
 
 export interface ContractTypePerformance {
@@ -171,6 +189,12 @@ class ZenTradingService {
     private advancedFeaturesEnabled = false;
     private lastTradeTickIndex = -1;
 
+    // Advanced risk and execution controls
+    private marketTicks: Map<string, number[]> = new Map();
+    private subscribedMarkets = new Set<string>();
+    private peakSessionProfit = 0;
+    private referencePayoutRatios: Map<string, number> = new Map();
+
     // Enhanced Contract Switching Properties
     private contractPerformance: Map<string, ContractTypePerformance> = new Map();
     private switchHistory: Array<{
@@ -308,6 +332,18 @@ class ZenTradingService {
                         req_id: this.requestId++,
                     })
                 );
+
+                this.subscribedMarkets = new Set([this.config!.market]);
+                this.subscribeLegMarkets();
+
+                // Sells on the transaction stream confirm results even if a contract update is missed
+                this.wsConnection?.send(
+                    JSON.stringify({
+                        transaction: 1,
+                        subscribe: 1,
+                        req_id: this.requestId++,
+                    })
+                );
                 resolve();
             };
 
@@ -342,6 +378,7 @@ class ZenTradingService {
      * Disconnect from market data stream
      */
     private disconnectFromMarket(): void {
+        this.subscribedMarkets.clear();
         if (this.wsConnection) {
             this.wsConnection.close();
             this.wsConnection = null;
@@ -356,7 +393,7 @@ class ZenTradingService {
         if (data.tick && typeof data.tick === 'object' && data.tick !== null) {
             const tick = data.tick as Record<string, unknown>;
             if (typeof tick.quote === 'number') {
-                this.handleTick(tick.quote);
+                this.handleTick(tick.quote, typeof tick.symbol === 'string' ? tick.symbol : undefined);
             }
         }
 
@@ -371,6 +408,11 @@ class ZenTradingService {
             });
         }
 
+        // Handle account transactions (contract sells confirm settlement)
+        if (data.transaction && typeof data.transaction === 'object' && data.transaction !== null) {
+            this.handleTransaction(data.transaction as Record<string, unknown>);
+        }
+
         // Handle API responses
         if (data.req_id && typeof data.req_id === 'number' && this.pendingRequests.has(data.req_id)) {
             const { resolve, reject } = this.pendingRequests.get(data.req_id)!;
@@ -415,7 +457,18 @@ class ZenTradingService {
     /**
      * Handle incoming tick data with Fast Lane performance optimizations
      */
-    private handleTick(tick: number): void {
+    private handleTick(tick: number, symbol?: string): void {
+        const market = symbol ?? this.config?.market;
+        if (market) {
+            this.recordMarketTick(market, tick);
+        }
+
+        // Ticks from the extra multi-strategy markets only drive their legs
+        if (market && this.config && market !== this.config.market) {
+            this.executeStrategyLegs(market);
+            return;
+        }
+
         this.currentTick = tick;
         this.tickHistory.push(tick);
         this.lastTickTime = Date.now();
@@ -448,6 +501,10 @@ class ZenTradingService {
                 this.executeTrade();
             }
         }
+
+        if (market) {
+            this.executeStrategyLegs(market);
+        }
     }
 
     /**
@@ -486,6 +543,8 @@ class ZenTradingService {
     private async executeTrade(): Promise<void> {
         if (!this.config || !this.currentTick) return;
 
+        if (this.isCorrelationBlocked(this.config.market)) return;
+
         // Validate we have authentication
         if (!this.authToken) {
             this.callbacks.onError?.('Authentication required to execute trades');
@@ -526,14 +585,17 @@ class ZenTradingService {
     }
 
     /**
-     * Execute a single zen trade
+     * Execute a single zen trade, for the main strategy or a multi-strategy leg
      */
-    private async executeSingleTrade(): Promise<void> {
+    private async executeSingleTrade(leg?: ZenStrategyLeg): Promise<void> {
         if (!this.config || !this.currentTick) return;
 
+        const strategy = leg?.strategy ?? this.config.strategy;
+        const market = leg?.market ?? this.config.market;
+        const entrySpot = leg ? this.getMarketTicks(market).slice(-1)[0] : this.currentTick;
         const tradeId = `zen_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-        const contractType = this.getContractType();
-        const stake = this.calculateStake();
+        const contractType = this.getContractType(strategy);
+        const stake = this.calculateStake(market);
 
         // Validate trade parameters
         if (stake <= 0) {
@@ -541,7 +603,7 @@ class ZenTradingService {
             return;
         }
 
-        if (!this.config.market) {
+        if (!market) {
             this.callbacks.onError?.('No market selected');
             return;
         }
@@ -549,12 +611,12 @@ class ZenTradingService {
         const trade: ZenTradeResult = {
             id: tradeId,
             timestamp: Date.now(),
-            strategy: this.config.strategy,
-            market: this.config.market,
+            strategy,
+            market,
             stake,
             contractType,
             duration: this.config.ticks,
-            entrySpot: this.currentTick,
+            entrySpot,
             status: 'pending',
         };
 
@@ -568,7 +630,9 @@ class ZenTradingService {
         });
 
         // Update last trade tick index to prevent duplicates
-        this.lastTradeTickIndex = this.tickHistory.length - 1;
+        if (!leg) {
+            this.lastTradeTickIndex = this.tickHistory.length - 1;
+        }
 
         this.trades.push(trade);
         this.callbacks.onTrade?.(trade);
@@ -670,8 +734,8 @@ class ZenTradingService {
     /**
      * Get contract type based on strategy
      */
-    private getContractType(): string {
-        if (!this.config) return 'CALL';
+    private getContractType(strategy = this.config?.strategy): string {
+        if (!strategy) return 'CALL';
 
         // Use correct Deriv API contract type names
         const strategyMap: Record<string, string> = {
@@ -686,8 +750,8 @@ class ZenTradingService {
             Straddle6: 'DIGITOVER', // Default for straddle, but handled separately
         };
 
-        const contractType = strategyMap[this.config.strategy] || 'CALL';
-        console.log(`📊 Strategy: ${this.config.strategy} → Contract Type: ${contractType}`);
+        const contractType = strategyMap[strategy] || 'CALL';
+        console.log(`📊 Strategy: ${strategy} → Contract Type: ${contractType}`);
 
         return contractType;
     }
@@ -695,7 +759,7 @@ class ZenTradingService {
     /**
      * Calculate stake based on martingale and zen principles
      */
-    private calculateStake(): number {
+    private calculateStake(market = this.config?.market): number {
         if (!this.config) return 1;
 
         let stake = this.config.stake;
@@ -722,9 +786,9 @@ class ZenTradingService {
         if (this.advancedConfig && this.advancedFeaturesEnabled) {
             console.log(`⚙️ ADVANCED CONFIG ACTIVE - Applying additional adjustments to martingale stake: ${stake}`);
 
-            // Dynamic position sizing based on volatility
-            if (this.advancedConfig.dynamicPositionSizing && this.advancedConfig.volatilityAdjustment) {
-                const volatilityFactor = this.calculateVolatilityFactor();
+            // Scale the stake with the market's recent volatility
+            if (this.advancedConfig.volatilityAdjustment && market) {
+                const volatilityFactor = calculateVolatilityFactor(this.getMarketTicks(market));
                 const originalStake = stake;
                 stake = stake * volatilityFactor;
                 console.log(
@@ -743,9 +807,9 @@ class ZenTradingService {
                 }
             }
 
-            // Drawdown protection
+            // Drawdown protection (trading halts at the limit, see checkStopConditions)
             if (this.advancedConfig.drawdownProtection) {
-                const drawdownPercent = (Math.abs(this.sessionProfit) / (this.config.stake * 100)) * 100;
+                const drawdownPercent = this.getDrawdownPercent();
                 if (drawdownPercent > this.advancedConfig.maxDrawdownPercent / 2) {
                     const originalStake = stake;
                     stake = stake * 0.5; // Reduce stake by 50% when approaching max drawdown
@@ -774,26 +838,6 @@ class ZenTradingService {
         return stake;
     }
 
-    /**
-     * Calculate volatility factor for dynamic position sizing
-     */
-    private calculateVolatilityFactor(): number {
-        if (this.tickHistory.length < 10) return 1.0;
-
-        // Calculate recent tick volatility (standard deviation of last 20 ticks)
-        const recentTicks = this.tickHistory.slice(-20);
-        const mean = recentTicks.reduce((sum, tick) => sum + tick, 0) / recentTicks.length;
-        const variance = recentTicks.reduce((sum, tick) => sum + Math.pow(tick - mean, 2), 0) / recentTicks.length;
-        const volatility = Math.sqrt(variance);
-
-        // Normalize volatility to a factor between 0.5 and 1.5
-        const normalizedVolatility = Math.max(0.5, Math.min(1.5, 1 - volatility * 0.1));
-
-        console.log(`📊 Volatility factor: ${normalizedVolatility.toFixed(3)} (volatility: ${volatility.toFixed(6)})`);
-
-        return normalizedVolatility;
-    }
-
     /**
      * Initialize aggressive polling system for performance
      */
@@ -951,16 +995,8 @@ class ZenTradingService {
         try {
             console.log('⚡ Fast execution for:', trade.strategy, 'on', trade.market);
 
-            // Step 1: Get proposal (streamlined)
-            const proposal = await this.getProposal(trade);
-            if (!proposal.id) {
-                throw new Error('No proposal ID received');
-            }
-
-            trade.proposalId = proposal.id as string;
-
-            // Step 2: Buy contract (fire-and-forget style)
-            const buyResponse = await this.buyContract(proposal.id as string, trade.stake);
+            // Steps 1-2: Proposal and buy (fire-and-forget style)
+            const buyResponse = await this.placeBuy(trade);
 
             if (buyResponse.buy && typeof buyResponse.buy === 'object') {
                 const buyData = buyResponse.buy as Record<string, unknown>;
@@ -1014,7 +1050,7 @@ class ZenTradingService {
         const fastPoll = setInterval(async () => {
             attempts++;
 
-            if (attempts >= maxAttempts || trade.status !== 'pending') {
+            if (attempts >= maxAttempts || !this.isAwaitingConfirmation(trade)) {
                 clearInterval(fastPoll);
                 return;
             }
@@ -1123,17 +1159,8 @@ class ZenTradingService {
         try {
             console.log('🚀 Starting trade execution for:', trade.strategy, 'on', trade.market);
 
-            // Step 1: Get proposal
-            const proposal = await this.getProposal(trade);
-            if (typeof proposal.id === 'string') {
-                trade.proposalId = proposal.id;
-                console.log('📋 Proposal ID received:', proposal.id);
-            } else {
-                throw new Error('No proposal ID received from Deriv API');
-            }
-
-            // Step 2: Buy contract
-            const buyResponse = await this.buyContract(proposal.id as string, trade.stake);
+            // Steps 1-2: Get proposal and buy contract
+            const buyResponse = await this.placeBuy(trade);
 
             if (buyResponse.buy && typeof buyResponse.buy === 'object') {
                 const buyData = buyResponse.buy as Record<string, unknown>;
@@ -1202,11 +1229,32 @@ class ZenTradingService {
      * Get contract proposal from Deriv API
      */
     private async getProposal(trade: ZenTradeResult): Promise<Record<string, unknown>> {
+        const proposalRequest: Record<string, unknown> = {
+            proposal: 1,
+            ...this.buildContractParameters(trade),
+            req_id: this.requestId++,
+        };
+
+        console.log('📋 Sending proposal request:', proposalRequest);
+
+        const response = await this.sendRequest(proposalRequest);
+        console.log('📋 Proposal response:', response);
+
+        if (response.proposal && typeof response.proposal === 'object') {
+            return response.proposal as Record<string, unknown>;
+        } else {
+            throw new Error('Invalid proposal response from Deriv API');
+        }
+    }
+
+    /**
+     * Contract parameters shared by proposals and direct buys
+     */
+    private buildContractParameters(trade: ZenTradeResult): Record<string, unknown> {
         // Ensure stake is properly formatted to 2 decimal places
         const formattedStake = Math.round(trade.stake * 100) / 100;
 
-        const proposalRequest: Record<string, unknown> = {
-            proposal: 1,
+        const parameters: Record<string, unknown> = {
             amount: formattedStake,
             basis: 'stake',
             contract_type: trade.contractType,
@@ -1214,49 +1262,119 @@ class ZenTradingService {
             duration: trade.duration,
             duration_unit: 't', // ticks
             symbol: trade.market,
-            req_id: this.requestId++,
         };
 
         // Add barrier for digit trades that need it
         if (['DIGITMATCH', 'DIGITDIFF', 'DIGITOVER', 'DIGITUNDER'].includes(trade.contractType)) {
             // For Straddle6, always use digit 6
             if (trade.strategy === 'Straddle6') {
-                proposalRequest.barrier = '6';
+                parameters.barrier = '6';
             } else {
-                proposalRequest.barrier = this.config!.defaultDigit.toString();
+                parameters.barrier = this.config!.defaultDigit.toString();
             }
         }
 
-        console.log('📋 Sending proposal request:', proposalRequest);
+        return parameters;
+    }
 
-        const response = await this.sendRequest(proposalRequest);
-        console.log('📋 Proposal response:', response);
+    /**
+     * Buy through a checked proposal, or in a single request when smart order routing is on
+     */
+    private async placeBuy(trade: ZenTradeResult): Promise<Record<string, unknown>> {
+        const advanced = this.advancedFeaturesEnabled ? this.advancedConfig : null;
 
-        if (response.proposal && typeof response.proposal === 'object') {
-            return response.proposal as Record<string, unknown>;
-        } else {
-            throw new Error('Invalid proposal response from Deriv API');
+        // A direct buy skips the proposal round trip, but leaves no quote to check for slippage
+        if (advanced?.smartOrderRouting && !advanced.slippageProtection) {
+            console.log('🧭 Smart order routing: buying without a separate proposal');
+            return this.buyContract(1, trade, this.buildContractParameters(trade));
+        }
+
+        const proposal = await this.getProposal(trade);
+        if (typeof proposal.id !== 'string') {
+            throw new Error('No proposal ID received from Deriv API');
+        }
+        trade.proposalId = proposal.id;
+        console.log('📋 Proposal ID received:', proposal.id);
+
+        if (advanced?.slippageProtection) {
+            this.guardProposalSlippage(trade, proposal, advanced.maxSlippagePercent);
+        }
+
+        return this.buyContract(proposal.id, trade);
+    }
+
+    /**
+     * Reject a proposal whose price moved more than the allowed slippage
+     */
+    private guardProposalSlippage(
+        trade: ZenTradeResult,
+        proposal: Record<string, unknown>,
+        maxSlippagePercent: number
+    ): void {
+        const key = `${trade.market}:${trade.contractType}:${trade.strategy}`;
+        const askPrice = Number(proposal.ask_price) || trade.stake;
+        const payout = Number(proposal.payout) || 0;
+
+        const rejection = checkProposalSlippage(
+            { askPrice, payout },
+            { stake: trade.stake, payoutRatio: this.referencePayoutRatios.get(key) },
+            maxSlippagePercent
+        );
+        if (rejection) {
+            console.warn(`🛑 Slippage protection rejected ${trade.contractType} on ${trade.market}: ${rejection}`);
+            throw new Error(`Slippage protection: ${rejection}`);
+        }
+
+        if (payout > 0) {
+            this.referencePayoutRatios.set(key, payout / askPrice);
         }
     }
 
     /**
      * Buy contract using Deriv API
      */
-    private async buyContract(proposalId: string, price: number): Promise<Record<string, unknown>> {
+    private async buyContract(
+        proposalId: string | 1,
+        trade: ZenTradeResult,
+        parameters?: Record<string, unknown>
+    ): Promise<Record<string, unknown>> {
         // Ensure price is properly formatted to 2 decimal places
-        const formattedPrice = Math.round(price * 100) / 100;
+        const formattedPrice = Math.round(trade.stake * 100) / 100;
+
+        const riskDecision = riskPolicyService.authorize({
+            source: 'ZEN',
+            stake: formattedPrice,
+            symbol: trade.market,
+        });
+        if (!riskDecision.allowed) {
+            throw new Error(`Trade blocked: ${riskDecision.reason}`);
+        }
 
         const buyRequest = {
             buy: proposalId,
             price: formattedPrice,
+            ...(parameters ? { parameters } : {}),
             req_id: this.requestId++,
         };
 
         console.log('💰 Sending buy request:', buyRequest);
 
-        const response = await this.sendRequest(buyRequest);
+        let response: Record<string, unknown>;
+        try {
+            response = await this.sendRequest(buyRequest);
+        } catch (error) {
+            riskPolicyService.cancel(riskDecision.ticket);
+            throw error;
+        }
         console.log('💰 Buy response:', response);
 
+        const buyData = response.buy as { contract_id?: number; buy_price?: number } | undefined;
+        if (buyData?.contract_id) {
+            riskPolicyService.confirm(riskDecision.ticket, buyData.contract_id, buyData.buy_price);
+        } else {
+            riskPolicyService.cancel(riskDecision.ticket);
+        }
+
         return response;
     }
 
@@ -1287,7 +1405,7 @@ class ZenTradingService {
                 }
 
                 // If contract is already settled, no need to subscribe
-                if (trade.status !== 'pending') {
+                if (!this.isAwaitingConfirmation(trade)) {
                     console.log(`✅ Contract ${trade.contractId} already settled: ${trade.status}`);
                     return;
                 }
@@ -1327,7 +1445,7 @@ class ZenTradingService {
 
         // Poll every 2 seconds for the first 30 seconds
         const aggressiveInterval = setInterval(async () => {
-            if (trade.status !== 'pending') {
+            if (!this.isAwaitingConfirmation(trade)) {
                 clearInterval(aggressiveInterval);
                 return;
             }
@@ -1381,113 +1499,37 @@ class ZenTradingService {
             return;
         }
 
-        // Enhanced settlement detection with multiple indicators
-        const isSettled =
-            contractData.is_settled === 1 ||
-            contractData.is_settled === true ||
-            contractData.status === 'sold' ||
-            contractData.contract_status === 'sold' ||
-            contractData.is_expired === 1 ||
-            contractData.is_expired === true ||
-            (contractData.sell_price && Number(contractData.sell_price) > 0) ||
-            (contractData.profit !== undefined && contractData.profit !== null) ||
-            contractData.is_valid_to_sell === 0 ||
-            contractData.is_valid_to_sell === false;
-
-        console.log(`🔍 Settlement check for ${contractId}:`, {
-            is_settled: contractData.is_settled,
-            status: contractData.status,
-            contract_status: contractData.contract_status,
-            is_expired: contractData.is_expired,
-            sell_price: contractData.sell_price,
-            profit: contractData.profit,
-            is_valid_to_sell: contractData.is_valid_to_sell,
-            isSettled,
-        });
-
-        // Log the complete contract data for debugging
-        console.log(`📋 Complete contract data for ${contractId}:`, contractData);
-
-        if (isSettled) {
-            // Contract is finished - extract all possible profit/loss data
-            const sellPrice = Number(contractData.sell_price) || 0;
-
-            // 🚀 MANUAL PROFIT CALCULATION METHOD (API-Independent & Faster)
-            // Calculate profit manually to reduce API dependency and improve performance
-            const exitSpot =
-                Number(contractData.exit_tick) ||
-                Number(contractData.current_spot) ||
-                Number(contractData.exit_spot) ||
-                0;
-
-            if (!exitSpot || !trade.entrySpot) {
-                console.warn(`⚠️ Missing spot data for manual calculation:`, {
-                    contractId,
-                    exitSpot,
-                    entrySpot: trade.entrySpot,
-                    contractData: {
-                        exit_tick: contractData.exit_tick,
-                        current_spot: contractData.current_spot,
-                        exit_spot: contractData.exit_spot,
-                    },
-                });
-                return; // Skip calculation if we don't have required data
-            }
-
-            const contractDetails: ContractDetails = {
-                contractType: trade.contractType,
-                stake: trade.stake,
-                entrySpot: trade.entrySpot,
-                exitSpot: exitSpot,
-                duration: trade.duration,
-                defaultDigit: this.config?.defaultDigit || 0,
-            };
-
-            const profitResult = calculateProfit(contractDetails);
+        if (trade.settlement === 'confirmed') return;
 
-            console.log(`💰 MANUAL CALCULATION: ${trade.strategy} → ${profitResult.outcome.toUpperCase()}`, {
-                contractId,
-                entrySpot: trade.entrySpot,
-                exitSpot,
-                exitDigit: Math.floor((exitSpot * 10) % 10),
-                calculatedProfit: profitResult.profit,
-                apiProfit: contractData.profit, // For comparison
-                outcome: profitResult.outcome,
-                roi: profitResult.roi.toFixed(1) + '%',
+        // Deriv's own result is authoritative for P&L, martingale and switching
+        const settled = readSettledContract(contractData);
+        if (settled) {
+            this.confirmSettlement(trade, {
+                profit: settled.profit,
+                buyPrice: settled.buyPrice || trade.buyPrice || trade.stake,
+                sellPrice: settled.sellPrice,
+                exitSpot: settled.exitSpot,
+                exitDigit: settled.exitDigit,
             });
+            return;
+        }
 
-            // Use manual calculation results
-            trade.status = profitResult.outcome === 'win' ? 'won' : 'lost';
-            trade.profit = profitResult.profit;
-            trade.exitSpot = exitSpot;
-
-            // 🚀 ENHANCED: Store additional profit details for better transaction history
-            trade.buyPrice = profitResult.buyPrice;
-            trade.payout = profitResult.payout;
-            if (sellPrice > 0) (trade as Record<string, unknown>).sellPrice = sellPrice;
-
-            // Store the exit digit for display purposes (using same method as profit calculator)
-            const exitDigit = Math.floor((exitSpot * 1000) % 10);
-            (trade as Record<string, unknown>).exitDigit = exitDigit;
-
-            console.log(
-                `🚀 MANUAL PROFIT: ${trade.strategy} → ${trade.status.toUpperCase()} | Profit: ${profitResult.profit >= 0 ? '+' : ''}${profitResult.profit.toFixed(2)} | Exit: ${exitSpot} (${exitDigit}) | Buy: ${profitResult.buyPrice} | Payout: ${profitResult.payout} | ROI: ${profitResult.roi.toFixed(1)}%`
-            );
+        const isExpired =
+            contractData.is_expired === 1 ||
+            contractData.is_expired === true ||
+            contractData.exit_tick !== undefined ||
+            contractData.is_settleable === 1;
 
-            this.updateTradingStats(trade);
-            this.callbacks.onTrade?.(trade);
-        } else {
+        if (isExpired && trade.status === 'pending') {
+            this.applyLocalEstimate(trade, contractData);
+        } else if (trade.status === 'pending') {
             // Contract is still running - update current info
             trade.exitSpot = Number(contractData.current_spot) || Number(contractData.spot) || 0;
 
-            // Log current contract state for debugging
             console.log(`📊 Contract ${contractId} still PENDING:`, {
                 current_spot: contractData.current_spot,
                 spot: contractData.spot,
-                is_settled: contractData.is_settled,
                 status: contractData.status,
-                sell_price: contractData.sell_price,
-                profit: contractData.profit,
             });
 
             // Update the trade to trigger UI refresh
@@ -1495,12 +1537,122 @@ class ZenTradingService {
         }
     }
 
+    /**
+     * Show a fast local result for an expired contract; stats wait for the confirmed result
+     */
+    private applyLocalEstimate(trade: ZenTradeResult, contractData: Record<string, unknown>): void {
+        // 🚀 MANUAL PROFIT CALCULATION METHOD (API-Independent & Faster)
+        const exitSpot =
+            Number(contractData.exit_tick) || Number(contractData.current_spot) || Number(contractData.exit_spot) || 0;
+
+        if (!exitSpot || !trade.entrySpot) {
+            console.warn(`⚠️ Missing spot data for manual calculation:`, {
+                contractId: trade.contractId,
+                exitSpot,
+                entrySpot: trade.entrySpot,
+            });
+            return;
+        }
+
+        const contractDetails: ContractDetails = {
+            contractType: trade.contractType,
+            stake: trade.stake,
+            entrySpot: trade.entrySpot,
+            exitSpot: exitSpot,
+            duration: trade.duration,
+            defaultDigit: this.config?.defaultDigit || 0,
+            symbol: trade.market,
+        };
+
+        const profitResult = calculateProfit(contractDetails);
+
+        trade.status = profitResult.outcome === 'win' ? 'won' : 'lost';
+        trade.profit = profitResult.profit;
+        trade.exitSpot = exitSpot;
+        trade.buyPrice = trade.buyPrice ?? profitResult.buyPrice;
+        trade.payout = profitResult.payout;
+        trade.exitDigit = symbolMetadataService.getLastDigit(exitSpot, trade.market);
+        trade.settlement = 'estimated';
+
+        console.log(
+            `🔮 ESTIMATED: ${trade.strategy} → ${trade.status.toUpperCase()} | Profit: ${profitResult.profit >= 0 ? '+' : ''}${profitResult.profit.toFixed(2)} | Exit: ${exitSpot} (${trade.exitDigit}) - awaiting confirmation`
+        );
+
+        this.callbacks.onTrade?.(trade);
+    }
+
+    /**
+     * Apply the result Deriv settled, correcting any local estimate, then update stats once
+     */
+    private confirmSettlement(
+        trade: ZenTradeResult,
+        result: { profit: number; buyPrice: number; sellPrice: number; exitSpot?: number; exitDigit?: number }
+    ): void {
+        if (trade.settlement === 'confirmed') return;
+
+        const status = result.profit > 0 ? 'won' : 'lost';
+
+        if (trade.settlement === 'estimated' && (trade.status === 'won' || trade.status === 'lost')) {
+            if (trade.status !== status || Math.abs((trade.profit ?? 0) - result.profit) >= 0.01) {
+                trade.correctedFrom = { status: trade.status, profit: trade.profit ?? 0 };
+                console.warn(
+                    `⚠️ Settlement correction for ${trade.contractId}: estimated ${trade.status} ${trade.profit?.toFixed(2)}, Deriv settled ${status} ${result.profit.toFixed(2)}`
+                );
+            }
+        }
+
+        trade.status = status;
+        trade.profit = result.profit;
+        trade.buyPrice = result.buyPrice;
+        trade.sellPrice = result.sellPrice;
+        trade.payout = result.sellPrice;
+        trade.error = undefined;
+        if (result.exitSpot) trade.exitSpot = result.exitSpot;
+        if (result.exitDigit !== undefined) trade.exitDigit = result.exitDigit;
+        trade.settlement = 'confirmed';
+
+        console.log(
+            `✅ CONFIRMED: ${trade.strategy} → ${status.toUpperCase()} | Profit: ${result.profit >= 0 ? '+' : ''}${result.profit.toFixed(2)} | Contract: ${trade.contractId}`
+        );
+
+        this.updateTradingStats(trade);
+        this.callbacks.onTrade?.(trade);
+    }
+
+    /**
+     * Confirm a trade from a sell on the transaction stream
+     */
+    private handleTransaction(transaction: Record<string, unknown>): void {
+        if (transaction.action !== 'sell' || !transaction.contract_id) return;
+
+        const contractId = String(transaction.contract_id);
+        const trade = this.trades.find(t => t.contractId === contractId);
+        if (!trade || trade.settlement === 'confirmed') return;
+
+        const buyPrice = trade.buyPrice ?? trade.stake;
+        const sellPrice = Number(transaction.amount) || 0;
+
+        this.confirmSettlement(trade, {
+            profit: Math.round((sellPrice - buyPrice) * 100) / 100,
+            buyPrice,
+            sellPrice,
+        });
+    }
+
+    /**
+     * Whether a trade still needs Deriv to confirm its result
+     */
+    private isAwaitingConfirmation(trade: ZenTradeResult): boolean {
+        return trade.status === 'pending' || trade.settlement === 'estimated';
+    }
+
     /**
      * Update trading statistics with balance validation
      */
     private updateTradingStats(trade: ZenTradeResult): void {
         const previousSessionProfit = this.sessionProfit;
         this.sessionProfit += trade.profit || 0;
+        this.peakSessionProfit = Math.max(this.peakSessionProfit, this.sessionProfit);
 
         console.log(`📊 SESSION PROFIT UPDATE:`, {
             previousTotal: previousSessionProfit.toFixed(2),
@@ -1580,8 +1732,8 @@ class ZenTradingService {
 
         const pairTrade = straddleTrades[0];
 
-        // Only update stats when both trades are complete
-        if (pairTrade.status === 'won' || pairTrade.status === 'lost') {
+        // Only update stats when both trades are confirmed
+        if (pairTrade.settlement === 'confirmed') {
             const totalProfit = (completedTrade.profit || 0) + (pairTrade.profit || 0);
             const isStraddleWin = totalProfit > 0;
 
@@ -1626,6 +1778,17 @@ class ZenTradingService {
             this.stop();
             console.log(`Stop Loss Triggered: ${this.config.stopLoss} reached.`);
         }
+
+        if (this.isRunning && this.advancedFeaturesEnabled && this.advancedConfig?.drawdownProtection) {
+            const drawdownPercent = this.getDrawdownPercent();
+            if (drawdownPercent >= this.advancedConfig.maxDrawdownPercent) {
+                this.stop();
+                console.log(`🛡️ Drawdown protection halted trading at ${drawdownPercent.toFixed(1)}% drawdown`);
+                this.callbacks.onError?.(
+                    `Drawdown protection halted trading: ${drawdownPercent.toFixed(1)}% drawdown (limit ${this.advancedConfig.maxDrawdownPercent}%)`
+                );
+            }
+        }
     }
 
     /**
@@ -1873,6 +2036,100 @@ class ZenTradingService {
         return Math.floor((this.currentTick * 10000) % 10);
     }
 
+    /**
+     * Keep a rolling tick history per market for volatility and correlation
+     */
+    private recordMarketTick(market: string, tick: number): void {
+        const ticks = this.marketTicks.get(market) ?? [];
+        ticks.push(tick);
+        if (ticks.length > 100) {
+            ticks.shift();
+        }
+        this.marketTicks.set(market, ticks);
+    }
+
+    private getMarketTicks(market: string): number[] {
+        return this.marketTicks.get(market) ?? [];
+    }
+
+    /**
+     * Extra strategy legs that run in multi-strategy mode
+     */
+    private getStrategyLegs(): ZenStrategyLeg[] {
+        if (!this.advancedFeaturesEnabled || !this.advancedConfig?.multiStrategyMode) return [];
+        return (this.advancedConfig.strategyLegs ?? []).filter(
+            leg => leg.market && (leg.strategy as string) !== 'Straddle6'
+        );
+    }
+
+    /**
+     * Subscribe to ticks for leg markets other than the main one
+     */
+    private subscribeLegMarkets(): void {
+        if (!this.wsConnection || this.wsConnection.readyState !== WebSocket.OPEN) return;
+
+        this.getStrategyLegs()
+            .map(leg => leg.market)
+            .filter(market => !this.subscribedMarkets.has(market))
+            .forEach(market => {
+                this.subscribedMarkets.add(market);
+                this.wsConnection!.send(JSON.stringify({ ticks: market, subscribe: 1, req_id: this.requestId++ }));
+                console.log(`📡 Multi-strategy: subscribed to ${market}`);
+            });
+    }
+
+    /**
+     * Trade every leg that follows this market, one open contract per leg at a time
+     */
+    private executeStrategyLegs(market: string): void {
+        if (!this.isRunning || !this.config || !this.authToken) return;
+
+        this.getStrategyLegs()
+            .filter(leg => leg.market === market)
+            .forEach(leg => {
+                const hasOpenTrade = this.trades.some(
+                    t => this.isAwaitingConfirmation(t) && t.strategy === leg.strategy && t.market === leg.market
+                );
+                if (hasOpenTrade || this.isCorrelationBlocked(leg.market)) return;
+
+                this.executeSingleTrade(leg);
+            });
+    }
+
+    /**
+     * Whether opening a trade on this market would exceed the correlation limit with open exposure elsewhere
+     */
+    private isCorrelationBlocked(market: string): boolean {
+        if (!this.advancedFeaturesEnabled || !this.advancedConfig) return false;
+
+        const limit = this.advancedConfig.correlationLimit;
+        if (!(limit > 0) || limit >= 100) return false;
+
+        const openMarkets = new Set(
+            this.trades.filter(t => this.isAwaitingConfirmation(t) && t.market !== market).map(t => t.market)
+        );
+
+        for (const other of openMarkets) {
+            const correlation = calculateCorrelation(this.getMarketTicks(market), this.getMarketTicks(other));
+            if (correlation !== null && Math.abs(correlation) * 100 > limit) {
+                console.log(
+                    `🔗 Correlation cap: skipping ${market}, ${(correlation * 100).toFixed(0)}% correlated with open ${other} trades (limit ${limit}%)`
+                );
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Drawdown from the session peak, against the starting balance when known
+     */
+    private getDrawdownPercent(): number {
+        const capital = this.initialBalance ?? (this.config ? this.config.stake * 100 : 100);
+        return calculateDrawdownPercent(this.peakSessionProfit, this.sessionProfit, capital);
+    }
+
     /**
      * Update contract performance tracking
      */
@@ -1944,8 +2201,11 @@ class ZenTradingService {
         this.currentStreak = 0;
         this.consecutiveLosses = 0;
         this.sessionProfit = 0;
+        this.peakSessionProfit = 0;
         this.initialBalance = null;
         this.tickHistory = [];
+        this.marketTicks.clear();
+        this.referencePayoutRatios.clear();
         this.lastTradeTickIndex = -1;
 
         // Reset contract switching data
@@ -2363,7 +2623,7 @@ class ZenTradingService {
 
         // Immediate check after 3 seconds
         setTimeout(() => {
-            if (trade.status === 'pending') {
+            if (this.isAwaitingConfirmation(trade)) {
                 console.log(`⚡ Immediate check for contract ${trade.contractId}`);
                 this.checkContractStatus(trade);
             }
@@ -2371,7 +2631,7 @@ class ZenTradingService {
 
         // Check every 5 seconds for the first minute
         const quickCheckInterval = setInterval(() => {
-            if (trade.status === 'pending') {
+            if (this.isAwaitingConfirmation(trade)) {
                 console.log(`⏰ Quick check for contract ${trade.contractId}`);
                 this.checkContractStatus(trade);
             } else {
@@ -2386,7 +2646,7 @@ class ZenTradingService {
 
         // Medium frequency checks every 15 seconds for next 2 minutes
         const mediumCheckInterval = setInterval(() => {
-            if (trade.status === 'pending') {
+            if (this.isAwaitingConfirmation(trade)) {
                 console.log(`⏰ Medium check for contract ${trade.contractId}`);
                 this.checkContractStatus(trade);
             } else {
@@ -2401,7 +2661,7 @@ class ZenTradingService {
 
         // Final aggressive check after 3 minutes if still pending
         setTimeout(() => {
-            if (trade.status === 'pending') {
+            if (this.isAwaitingConfirmation(trade)) {
                 console.log(`🚨 FINAL AGGRESSIVE CHECK for contract ${trade.contractId}`);
 
                 // Try multiple check methods
@@ -2435,7 +2695,7 @@ class ZenTradingService {
             // Method 1: Standard proposal_open_contract
             await this.checkContractStatus(trade);
 
-            if (trade.status !== 'pending') return;
+            if (!this.isAwaitingConfirmation(trade)) return;
 
             // Method 2: Try with different request format
             const alternativeRequest = {
@@ -2451,7 +2711,7 @@ class ZenTradingService {
                 this.handleContractUpdate(altResponse.proposal_open_contract as Record<string, unknown>);
             }
 
-            if (trade.status !== 'pending') return;
+            if (!this.isAwaitingConfirmation(trade)) return;
 
             // Method 3: Try portfolio check to find the contract
             const portfolioRequest = {
@@ -2507,7 +2767,7 @@ class ZenTradingService {
     private startContractReconciliation(): void {
         // Check all pending contracts every 30 seconds
         setInterval(() => {
-            const pendingTrades = this.trades.filter(t => t.status === 'pending');
+            const pendingTrades = this.trades.filter(t => this.isAwaitingConfirmation(t));
 
             if (pendingTrades.length > 0) {
                 console.log(`🔄 Contract reconciliation: Checking ${pendingTrades.length} pending contracts`);
@@ -2549,7 +2809,7 @@ class ZenTradingService {
      * Manually trigger enhanced contract reconciliation
      */
     reconcileAllContracts(): void {
-        const pendingTrades = this.trades.filter(t => t.status === 'pending');
+        const pendingTrades = this.trades.filter(t => this.isAwaitingConfirmation(t));
         console.log(`🔄 Enhanced manual reconciliation: Checking ${pendingTrades.length} pending contracts`);
 
         pendingTrades.forEach(trade => {
@@ -2561,7 +2821,7 @@ class ZenTradingService {
 
                 // Also try the final aggressive check method
                 setTimeout(() => {
-                    if (trade.status === 'pending') {
+                    if (this.isAwaitingConfirmation(trade)) {
                         console.log(`🔄 Applying aggressive check to ${trade.contractId}`);
                         this.performFinalContractCheck(trade);
                     }
@@ -2591,6 +2851,7 @@ class ZenTradingService {
                     trade.status = 'lost';
                     trade.profit = -trade.stake;
                     trade.error = 'Assumed loss due to settlement timeout';
+                    trade.settlement = 'estimated';
                     this.callbacks.onTrade?.(trade);
                 } else {
                     // Try one more aggressive check
@@ -2619,6 +2880,8 @@ class ZenTradingService {
             if (config.experimentalFeatures) {
                 console.log('🧪 Experimental features enabled');
             }
+
+            this.subscribeLegMarkets();
         }
     }
 
@@ -2628,6 +2891,7 @@ class ZenTradingService {
     updateAdvancedFeaturesEnabled(enabled: boolean): void {
         this.advancedFeaturesEnabled = enabled;
         console.log(`⚙️ Advanced features ${enabled ? 'ENABLED' : 'DISABLED'} - Pure martingale: ${!enabled}`);
+        this.subscribeLegMarkets();
     }
 
     /**
@@ -4,6 +4,8 @@
  * re-authorization, and real-time trading data streams
  */
 
+import { tickSourceService } from './tick-source/tick-source.service';
+
 export interface ZenWebSocketConfig {
     appId: string;
     apiToken?: string;
@@ -64,6 +66,7 @@ class ZenWebSocketService {
     
     // Subscription management
     private subscriptionsRegistry: SubscriptionRegistry[] = [];
+    private replayUnsubscribe: (() => void) | null = null;
     private requestId = 1;
     private pendingRequests = new Map<number, { resolve: (value: any) => void; reject: (reason?: any) => void }>();
     
@@ -224,6 +227,17 @@ class ZenWebSocketService {
      * Subscribe to live ticks
      */
     async subscribeTicks(symbol: string): Promise<string> {
+        // Replayed ticks share handleTick with the socket under a `replay-` subscription ID
+        await tickSourceService.initialize();
+        if (tickSourceService.isReplayActive()) {
+            this.replayUnsubscribe?.();
+            this.replayUnsubscribe = await tickSourceService.subscribe(symbol, tick =>
+                this.handleTick({ tick: { quote: tick.quote, epoch: tick.epoch, symbol: tick.symbol } })
+            );
+            console.log(`🎞️ ZenWebSocket: Replaying ${symbol} ticks from ${tickSourceService.getSource().name}`);
+            return `replay-${symbol}`;
+        }
+
         const tickRequest = {
             ticks: symbol,
             subscribe: 1,
@@ -712,6 +726,12 @@ class ZenWebSocketService {
      * Unsubscribe from a specific subscription
      */
     async unsubscribe(subscriptionId: string): Promise<void> {
+        if (subscriptionId.startsWith('replay-')) {
+            this.replayUnsubscribe?.();
+            this.replayUnsubscribe = null;
+            return;
+        }
+
         const unsubscribeRequest = {
             forget: subscriptionId,
             req_id: this.requestId++
@@ -759,6 +779,9 @@ class ZenWebSocketService {
             console.error('❌ ZenWebSocket: Error during unsubscription:', error);
         }
         
+        this.replayUnsubscribe?.();
+        this.replayUnsubscribe = null;
+        
         // Close WebSocket connection
         if (this.ws) {
             this.ws.close(1000, 'Clean shutdown');
@@ -5,6 +5,7 @@ import { ProposalOpenContract } from '@deriv/api-types';
 import { TPortfolioPosition, TStores } from '@deriv/stores/types';
 import { TContractInfo } from '../components/summary/summary-card.types';
 import { transaction_elements } from '../constants/transactions';
+import { getTransactionStatistics } from '../utils/session-export';
 import { getStoredItemsByKey, getStoredItemsByUser, setStoredItemsByKey } from '../utils/session-storage';
 import RootStore from './root-store';
 
@@ -61,38 +62,7 @@ export default class TransactionsStore {
     }
 
     get statistics() {
-        let total_runs = 0;
-        // Filter out only contract transactions and remove dividers
-        const trxs = this.transactions.filter(
-            trx => trx.type === transaction_elements.CONTRACT && typeof trx.data === 'object'
-        );
-        const statistics = trxs.reduce(
-            (stats, { data }) => {
-                const { profit = 0, is_completed = false, buy_price = 0, payout, bid_price } = data as TContractInfo;
-                if (is_completed) {
-                    if (profit > 0) {
-                        stats.won_contracts += 1;
-                        stats.total_payout += payout ?? bid_price ?? 0;
-                    } else {
-                        stats.lost_contracts += 1;
-                    }
-                    stats.total_profit += profit;
-                    stats.total_stake += buy_price;
-                    total_runs += 1;
-                }
-                return stats;
-            },
-            {
-                lost_contracts: 0,
-                number_of_runs: 0,
-                total_profit: 0,
-                total_payout: 0,
-                total_stake: 0,
-                won_contracts: 0,
-            }
-        );
-        statistics.number_of_runs = total_runs;
-        return statistics;
+        return getTransactionStatistics(this.transactions);
     }
 
     toggleTransactionDetailsModal = (is_open: boolean) => {
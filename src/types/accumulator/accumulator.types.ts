@@ -12,6 +12,7 @@ export interface AccumulatorConfig {
     market: string; // e.g., 'R_10', 'R_25', 'R_50'
     initialStake: number;
     strategy: AccumulatorStrategy;
+    takeProfitTicks?: number; // Ticks held before selling; derived from takeProfit when unset
 }
 
 export type AccumulatorStrategy =
@@ -182,6 +183,31 @@ export interface AccumulatorSignal {
     };
 }
 
+export interface AccumulatorBarrier {
+    symbol: string;
+    growthRate: number; // 1-5%
+    tickSizeBarrier: number; // Barrier distance as a fraction of the previous spot
+    source: 'PROPOSAL' | 'ESTIMATED';
+    updatedAt: number;
+}
+
+export interface KnockoutEstimate {
+    ticks: number; // Ticks held after entry before selling
+    survivalProbability: number; // 0-1
+    knockoutProbability: number; // 0-1
+    expectedReturn: number; // Expected profit per unit of stake when selling after `ticks`
+    samples: number;
+}
+
+export interface KnockoutProfile {
+    symbol: string;
+    growthRate: number;
+    tickSizeBarrier: number;
+    ticksReplayed: number;
+    knockoutRatePerTick: number; // 0-1
+    estimates: KnockoutEstimate[]; // estimates[n - 1] is for selling after n ticks
+}
+
 export interface AccumulatorBacktest {
     id: string;
     strategy: AccumulatorStrategy;
@@ -0,0 +1,176 @@
+/**
+ * App Event Types
+ * Every event carried by the app event bus, keyed by name with its payload type
+ */
+
+import type { RealSignal } from '@/services/advanced-algo-signal.service';
+import type { RazielBotConfiguration } from '@/services/raziel-bot-loader.service';
+import type { BotConfiguration } from '@/services/signal-bot-loader.service';
+import type { UnifiedBotParameters } from '@/services/unified-bot-manager.service';
+import type { XmlFieldChange } from '@/types/bot-xml-patch.types';
+import type { BotStrategyConfig } from '@/utils/bot-strategy-creator';
+import type { TradeSignal } from '@/utils/trade-signal-generator';
+
+export interface SwitchTabEvent {
+    tab: number; // DBOT_TABS index
+}
+
+export interface BotRunEvent {
+    source: string;
+}
+
+export interface CfxBotLoadEvent {
+    botFile: string;
+    signalType: string;
+    market: string;
+    prediction?: number;
+}
+
+export interface PatelSignalBotLoadEvent extends CfxBotLoadEvent {
+    searchNumber?: number;
+    entryPoint?: number;
+}
+
+export interface MatchesMasterOpenEvent {
+    predictedDigit: number;
+    market: string;
+}
+
+export type EnhancedSignalSnapshot = Pick<
+    RealSignal,
+    | 'id'
+    | 'market'
+    | 'marketLabel'
+    | 'signalType'
+    | 'prediction'
+    | 'confidence'
+    | 'strength'
+    | 'entryPrice'
+    | 'targetDigit'
+    | 'entryDigit'
+    | 'reasoning'
+    | 'supportingFactors'
+    | 'riskLevel'
+    | 'recommendedStake'
+    | 'barrierSuggestions'
+    | 'patternData'
+>;
+
+export interface EnhancedBotLoadEvent extends BotConfiguration {
+    adaptiveRecovery: {
+        enabled?: boolean;
+        originalBarrier?: number;
+        recoveryBarrier?: number;
+        recoveryPrediction?: number;
+        reasoning?: string;
+    };
+    signal: EnhancedSignalSnapshot;
+    autoLoaded: boolean;
+    timestamp: number;
+    searchNumber?: number; // PATEL only
+    entryPoint?: number; // PATEL only
+}
+
+/**
+ * Bot load requests from the scanners; the same payloads also arrive by postMessage from the AI tool iframe
+ */
+interface ScannerBotLoadEvent {
+    botFile: string;
+    botName: string;
+    market: string;
+    contractType: string;
+    selectedDigit: number;
+    entryPointDigit: number;
+    strategy: string;
+}
+
+export interface OverUnderBotLoadEvent extends ScannerBotLoadEvent {
+    predictionBeforeLoss: number;
+    predictionAfterLoss: number;
+}
+
+export interface MatchesBotLoadEvent extends ScannerBotLoadEvent {
+    tradeType: string;
+    targetDigit: number;
+    predictionBeforeLoss?: number;
+    predictionAfterLoss?: number;
+}
+
+export interface EvenOddBotLoadEvent extends ScannerBotLoadEvent {
+    tradeType: string;
+    evenOddType: string;
+    stake: number;
+    martingale: number;
+    maxMartingaleSteps: number;
+}
+
+export interface FibonacciBotLoadEvent extends Omit<RazielBotConfiguration, 'botFile'> {
+    xmlContent: string;
+    botName: string;
+    source: string;
+}
+
+export interface FreeBotsBotLoadEvent {
+    bot: {
+        id: string;
+        filePath: string;
+        title: string;
+        xmlContent: string;
+        save_type: string;
+    };
+    source: string;
+}
+
+export interface UnifiedBotLoadEvent {
+    botName: string;
+    xmlContent: string;
+    parameters: UnifiedBotParameters;
+}
+
+export interface UnifiedParametersUpdatedEvent {
+    parameters: UnifiedBotParameters;
+    updates: Partial<UnifiedBotParameters>;
+}
+
+export interface RiskLimitReachedEvent {
+    [key: string]: unknown;
+}
+
+export interface BotXmlPreviewEvent {
+    botName: string;
+    changes: XmlFieldChange[];
+    respond: (approved: boolean) => void; // Must be called exactly once
+}
+
+export interface AppEventMap {
+    'switch.tab': SwitchTabEvent;
+    'bot.run': BotRunEvent;
+    'load.cfx.bot': CfxBotLoadEvent;
+    'load.patel.bot': PatelSignalBotLoadEvent;
+    'load.signal.bot': BotConfiguration;
+    'open.matchesmaster.bot': MatchesMasterOpenEvent;
+    'load.cfx.bot.enhanced': EnhancedBotLoadEvent;
+    'load.statesfx.bot.enhanced': EnhancedBotLoadEvent;
+    'load.elvis.bot.enhanced': EnhancedBotLoadEvent;
+    'load.patel.bot.enhanced': EnhancedBotLoadEvent;
+    'load.signal.bot.enhanced': EnhancedBotLoadEvent;
+    'auto.load.bot': EnhancedBotLoadEvent;
+    'load.raziel.bot': OverUnderBotLoadEvent;
+    'load.patel.entry.bot': OverUnderBotLoadEvent;
+    'load.matches.bot': MatchesBotLoadEvent;
+    'load.even-odd.bot': EvenOddBotLoadEvent;
+    'load.fibonacci.bot': FibonacciBotLoadEvent;
+    'load.bot.from.freebots': FreeBotsBotLoadEvent;
+    'unified.bot.load': UnifiedBotLoadEvent;
+    'unified.parameters.updated': UnifiedParametersUpdatedEvent;
+    'bot.xml.preview': BotXmlPreviewEvent;
+    'zeus.trade.signal': TradeSignal;
+    'create.bot.strategy': BotStrategyConfig;
+    'risk.limit.reached': RiskLimitReachedEvent;
+    'digit-circles.toggle': void;
+    'signals.force-rescan': void;
+}
+
+export type AppEventName = keyof AppEventMap;
+
+export type AppEventHandler<K extends AppEventName> = (payload: AppEventMap[K]) => void;
@@ -0,0 +1,97 @@
+/**
+ * Bot Runtime Types
+ * Contract between the shared tick-by-tick bot runtime and the strategy modules plugged into it
+ */
+
+import type { ExecutionSource } from './risk-policy.types';
+
+export interface RuntimeTick {
+    symbol: string;
+    epoch: number; // seconds
+    quote: number;
+    lastDigit: number;
+}
+
+/**
+ * Contract a strategy wants bought on this tick; the runtime supplies symbol, stake and currency
+ */
+export interface TradeDecision {
+    contractType: string;
+    duration: number;
+    durationUnit: 't' | 's' | 'm' | 'h' | 'd';
+    barrier?: string;
+}
+
+export interface SettledTrade {
+    contractId: number;
+    decision: TradeDecision;
+    stake: number;
+    profit: number;
+    isWin: boolean;
+}
+
+export interface StrategyContext {
+    tick: RuntimeTick;
+    history: RuntimeTick[]; // oldest first, including the current tick
+    stats: BotRuntimeStats;
+}
+
+/**
+ * Decision module: returns what to buy on a tick, or null to skip it
+ */
+export interface BotStrategy {
+    name: string;
+    decide(context: StrategyContext): TradeDecision | null;
+    onSettled?(trade: SettledTrade, stats: BotRuntimeStats): void;
+}
+
+/**
+ * Limits are disabled when unset or 0
+ */
+export interface StopConditions {
+    stopAfterWins?: number; // consecutive
+    stopAfterLosses?: number; // consecutive
+    targetProfit?: number;
+    maxLoss?: number;
+    maxRunTime?: number; // in minutes
+    maxTrades?: number;
+}
+
+export interface BotRuntimeConfig {
+    name: string;
+    source: ExecutionSource;
+    symbol: string;
+    stake: number;
+    // Stake multiplier after a loss; 1 or less disables martingale
+    martingale: number;
+    // Losses in a row after which the stake resets; defaults to 10
+    maxMartingaleLevel?: number;
+    stopConditions?: StopConditions;
+    // Ticks kept for strategies; defaults to 100
+    historySize?: number;
+}
+
+export interface BotRuntimeStats {
+    runs: number;
+    wins: number;
+    losses: number;
+    totalPL: number;
+    currentStake: number;
+    martingaleLevel: number;
+    consecutiveWins: number;
+    consecutiveLosses: number;
+    winRate: number;
+    isRunning: boolean;
+    startTime?: number;
+    elapsedTime?: number;
+}
+
+export type BotRuntimeEvent =
+    | { type: 'started'; stats: BotRuntimeStats }
+    | { type: 'trade_started'; decision: TradeDecision; stake: number }
+    | { type: 'trade_opened'; decision: TradeDecision; stake: number; contractId: number; buyPrice: number }
+    | { type: 'trade_complete'; trade: SettledTrade; stats: BotRuntimeStats }
+    | { type: 'error'; error: string }
+    | { type: 'stopped'; stats: BotRuntimeStats; reason?: string; isAutoStop: boolean };
+
+export type BotRuntimeListener = (event: BotRuntimeEvent) => void;
@@ -0,0 +1,46 @@
+/**
+ * Bot XML Patch Types
+ * Parameter targets inside Blockly bot XML and the field-level changes made to them
+ */
+
+/**
+ * A `variables_set` block, located by Blockly variable ID or by variable name.
+ * The literal (math_number / text) assigned to the variable is patched.
+ */
+export interface XmlVariableTarget {
+    variableId?: string;
+    variableName?: string | RegExp; // Strings match case-insensitively
+}
+
+/**
+ * A field on blocks of a given type and/or ID; every matching block is patched
+ */
+export interface XmlBlockTarget {
+    blockId?: string;
+    blockType?: string;
+    field: string;
+}
+
+export interface XmlParameterPatch {
+    parameter: string; // Label shown in the change report, e.g. 'stake'
+    value: string | number;
+    target: XmlVariableTarget | XmlBlockTarget;
+}
+
+export interface XmlFieldChange {
+    parameter?: string; // Unknown when the change comes from a diff
+    blockId: string | null;
+    blockType: string;
+    variable?: string;
+    field: string;
+    before: string;
+    after: string;
+}
+
+export interface XmlPatchResult {
+    success: boolean; // Every patch found at least one field
+    xml: string;
+    changes: XmlFieldChange[];
+    unmatched: string[]; // Parameters whose target was not found
+    error?: string;
+}
@@ -7,7 +7,8 @@ export interface CopyTrader {
     id: string;
     name: string;
     email?: string;
-    apiToken: string;
+    apiToken?: string; // Only set for traders saved before the token vault; new tokens live in the vault
+    tokenHint?: string; // Last characters of the token, for display
     appId?: string;
     isActive: boolean;
     createdAt: number;
@@ -38,6 +39,22 @@ export interface CopyTrader {
     lastError?: string;
 }
 
+/**
+ * Data collected when adding a copy trader; the token goes to the vault, not the trader record
+ */
+export type NewCopyTrader = Omit<
+    CopyTrader,
+    | 'id'
+    | 'createdAt'
+    | 'totalTrades'
+    | 'winningTrades'
+    | 'totalProfit'
+    | 'currentDrawdown'
+    | 'connectionStatus'
+    | 'apiToken'
+    | 'tokenHint'
+> & { apiToken: string };
+
 export interface CopyTradeExecution {
     id: string;
     masterTradeId: string;
@@ -94,6 +111,55 @@ export interface MasterTrade {
     botName?: string;
 }
 
+/**
+ * A contract as booked on the follower account (statement buy merged with its profit_table row)
+ */
+export interface FollowerBookedContract {
+    contractId: string;
+    transactionId?: string;
+    shortcode: string;
+    buyPrice: number;
+    purchaseTime: number; // ms
+    sellPrice?: number;
+    sellTime?: number; // ms
+    profit?: number;
+}
+
+export type CopyLedgerStatus = 'MATCHED' | 'OPEN' | 'MISSED' | 'DUPLICATE' | 'MISMATCH' | 'UNLINKED';
+
+/**
+ * One row of a follower's audit ledger, linking a master trade to what the broker booked
+ */
+export interface CopyLedgerEntry {
+    id: string;
+    copyTraderId: string;
+    masterTradeId?: string;
+    executionId?: string;
+    contractId?: string;
+    market?: string;
+    contractType?: string;
+    expectedStake?: number;
+    bookedStake?: number;
+    payout?: number;
+    profit?: number;
+    status: CopyLedgerStatus;
+    issues: string[];
+    executedAt?: number;
+    purchaseTime?: number;
+    sellTime?: number;
+    reconciledAt: number;
+}
+
+export interface ReconciliationReport {
+    copyTraderId: string;
+    reconciledAt: number;
+    periodStart: number;
+    entries: CopyLedgerEntry[];
+    counts: Record<CopyLedgerStatus, number>;
+    bookedProfit: number;
+    error?: string;
+}
+
 export interface CopyTradingStats {
     totalCopyTraders: number;
     activeCopyTraders: number;
@@ -132,6 +198,8 @@ export interface CopyTradingSettings {
     executionDelay: number; // Delay in ms before executing copy trades
     maxExecutionTime: number; // Max time to wait for execution
     retryAttempts: number;
+    reconciliationIntervalMinutes: number; // 0 disables the background reconciliation job
+    reconciliationLookbackHours: number;
 
     // Notifications
     notifyOnNewCopyTrader: boolean;
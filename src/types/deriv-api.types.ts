@@ -160,6 +160,7 @@ export type TTicksHistoryResponse = {
         prices: number[];
         times: number[];
     };
+    pip_size?: number;
 };
 
 // Trading Times API
@@ -0,0 +1,41 @@
+/**
+ * Free Bots Types
+ * Catalog manifest generated by scripts/generate-bot-catalog.js
+ */
+
+export interface FreeBotCatalogEntry {
+    file: string; // Path under public/
+    name: string;
+    category: string;
+    author: string;
+    version: string;
+    contractTypes: string[]; // Purchase contract types, e.g. DIGITOVER
+    tradeTypes: string[]; // Trade type selections, e.g. overunder
+    markets: string[];
+    defaultStake: number | null;
+    martingale: number | null;
+    size: number;
+    checksum: string; // sha256-<hex> of the XML file
+}
+
+export interface FreeBotCatalog {
+    version: number;
+    bots: FreeBotCatalogEntry[];
+}
+
+export type FreeBotStatus = 'ready' | 'missing' | 'corrupt';
+
+export interface FreeBot {
+    title: string;
+    image: string;
+    filePath: string;
+    xmlContent: string;
+    entry: FreeBotCatalogEntry;
+    status: FreeBotStatus;
+    error?: string;
+}
+
+export interface FreeBotFilter {
+    query?: string;
+    contractType?: string;
+}
@@ -0,0 +1,113 @@
+/**
+ * Risk Policy Types
+ * Account-scoped trading limits shared by every execution path
+ */
+
+export type ExecutionSource =
+    | 'BOT'
+    | 'ZEN'
+    | 'FAST_LANE'
+    | 'SIGNALS'
+    | 'AUTO_TRADER'
+    | 'SPEED_BOT'
+    | 'COPY_TRADING'
+    | 'FLIPPING_TOOL'
+    | 'TICK_SPEED'
+    | 'ACCUMULATOR'
+    | 'DEMO_EXECUTOR'
+    | 'MANUAL';
+
+export type RiskRule =
+    | 'REPLAY'
+    | 'KILL_SWITCH'
+    | 'DAILY_LOSS'
+    | 'CONSECUTIVE_LOSSES'
+    | 'LOSS_COOLDOWN'
+    | 'STAKE'
+    | 'STAKE_BALANCE'
+    | 'CONCURRENCY'
+    | 'RATE_MINUTE'
+    | 'RATE_HOUR'
+    | 'DAILY_TRADES'
+    | 'COOLDOWN';
+
+/**
+ * Limits are disabled when set to 0
+ */
+export interface RiskPolicy {
+    enabled: boolean;
+
+    // Loss rules
+    maxDailyLoss: number; // Realised loss per calendar day, in account currency
+    maxConsecutiveLosses: number;
+    lossCooldownMinutes: number; // Pause after hitting the consecutive loss limit (0 = until reset)
+
+    // Stake rules
+    maxStakePerTrade: number;
+    maxStakePercentOfBalance: number;
+
+    // Concurrency
+    maxOpenContracts: number;
+
+    // Rate rules
+    maxTradesPerMinute: number;
+    maxTradesPerHour: number;
+    maxDailyTrades: number;
+
+    // Cooldown
+    minTimeBetweenTradesMs: number;
+}
+
+export interface RiskCheckRequest {
+    source: ExecutionSource;
+    stake: number;
+    balance?: number;
+    symbol?: string;
+    contractType?: string;
+    accountId?: string; // Defaults to the active account
+}
+
+export interface RiskDecision {
+    allowed: boolean;
+    reason?: string;
+    rule?: RiskRule;
+    ticket?: string; // Reservation to confirm with a contract id or cancel if the buy fails
+}
+
+export interface RiskOpenContract {
+    ticket?: string;
+    contractId?: string;
+    source?: ExecutionSource;
+    stake: number;
+    openedAt: number;
+}
+
+export interface RiskAccountState {
+    accountId: string;
+    date: string;
+    realizedPnL: number;
+    dailyTrades: number;
+    consecutiveLosses: number;
+    lastTradeTime: number;
+    tradeTimes: number[]; // Last hour of purchase timestamps
+    cooldownUntil: number;
+    killSwitch: { active: boolean; reason?: string; activatedAt?: number };
+    openContracts: RiskOpenContract[];
+    settledContractIds: string[]; // Recently settled ids, so duplicate results are ignored
+}
+
+export interface RiskStatus {
+    accountId: string;
+    policy: RiskPolicy;
+    realizedPnL: number;
+    dailyTrades: number;
+    consecutiveLosses: number;
+    openContracts: number;
+    tradesLastMinute: number;
+    tradesLastHour: number;
+    cooldownUntil: number;
+    killSwitch: RiskAccountState['killSwitch'];
+    blockedBy?: { rule: RiskRule; reason: string };
+}
+
+export type RiskStatusListener = (status: RiskStatus) => void;
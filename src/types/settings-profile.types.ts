@@ -0,0 +1,55 @@
+/**
+ * Settings Profile Types
+ * Registry of module-owned localStorage keys and the versioned profile they export to
+ */
+
+export interface SettingsKeyDefinition {
+    key: string;
+    prefix?: boolean; // Matches every key starting with `key`, e.g. per-account entries
+    type: 'json' | 'text';
+    secret?: boolean; // Tokens and other credentials; only exported when explicitly opted in
+}
+
+export type SettingsEntries = Record<string, string>;
+
+export interface SettingsModuleDefinition {
+    id: string;
+    label: string;
+    version: number;
+    keys: SettingsKeyDefinition[];
+    /** Upgrade entries exported by an older version of the module */
+    migrate?: (entries: SettingsEntries, fromVersion: number) => SettingsEntries;
+    /** Strip secrets embedded in a non-secret value when secrets are not exported */
+    sanitize?: (key: string, value: string) => string;
+}
+
+export interface SettingsModuleSnapshot {
+    version: number;
+    includesSecrets: boolean;
+    entries: SettingsEntries;
+}
+
+export interface SettingsProfile {
+    format: string;
+    schemaVersion: number;
+    exportedAt: string;
+    modules: Record<string, SettingsModuleSnapshot>;
+}
+
+export interface SettingsTransferOptions {
+    modules?: string[]; // Defaults to every module
+    includeSecrets?: boolean;
+}
+
+export interface SettingsProfileValidation {
+    success: boolean;
+    profile?: SettingsProfile;
+    errors: string[];
+}
+
+export interface SettingsImportResult {
+    success: boolean;
+    restored: string[];
+    skipped: { module: string; reason: string }[];
+    error?: string;
+}
@@ -0,0 +1,69 @@
+/**
+ * Signal Scorecard Types
+ * Signals recorded from every generator, settled against live ticks and scored per generator and market
+ */
+
+export type SignalGeneratorId =
+    | 'patel'
+    | 'hot-cold-zone'
+    | 'digit-distribution'
+    | 'fibonacci-ranging'
+    | 'advanced-algo'
+    | 'ai-intelligence'
+    | 'signal-analysis'
+    | 'tickshark';
+
+export interface SignalPrediction {
+    generator: SignalGeneratorId;
+    market: string;
+    contractType: string; // Deriv contract type, e.g. DIGITOVER, CALL
+    barrier?: number; // Digit barrier / prediction
+    horizonTicks: number;
+    confidence: number; // Stated win probability, 0-1 or 0-100
+}
+
+export type PayoutSource = 'proposal' | 'estimated';
+
+export interface ScoredSignal extends Omit<SignalPrediction, 'confidence'> {
+    id: string;
+    confidence: number; // Normalised to 0-1
+    chance: number; // Win probability of a random entry on the same contract
+    payoutRatio: number; // Returned per unit stake, stake included
+    payoutSource: PayoutSource;
+    emittedAt: number;
+    entrySpot?: number;
+    exitSpot?: number;
+    exitDigit?: number;
+    won?: boolean;
+    settledAt?: number;
+}
+
+export interface CalibrationBucket {
+    from: number; // Stated confidence range, 0-1
+    to: number;
+    count: number;
+    statedConfidence: number; // Mean confidence of the signals in the bucket
+    observedFrequency: number;
+}
+
+export type ScorecardVerdict = 'BEATS_CHANCE' | 'NO_EDGE' | 'INSUFFICIENT_DATA';
+
+export interface ScorecardEntry {
+    generator: SignalGeneratorId;
+    market?: string; // Omitted on the generator-wide row
+    settled: number;
+    wins: number;
+    hitRate: number;
+    chanceRate: number; // Expected hit rate of random entries on the same contracts
+    expectedValue: number; // Mean profit per unit stake at the recorded payouts
+    zScore: number; // Wins above chance in standard deviations
+    brierScore: number; // Mean squared error of stated confidence, lower is better
+    calibration: CalibrationBucket[];
+    verdict: ScorecardVerdict;
+}
+
+export interface SignalScorecard {
+    generators: ScorecardEntry[];
+    markets: ScorecardEntry[];
+    pending: number;
+}
@@ -0,0 +1,59 @@
+/**
+ * Tick Source Types
+ * Shared contract between tick consumers and the live / replay tick sources
+ */
+
+import type { ConnectionType } from '../services/deriv-connection-pool.service';
+
+export type TickSourceKind = 'LIVE' | 'REPLAY';
+
+export interface SourceTick {
+    symbol: string;
+    epoch: number; // seconds
+    quote: number;
+    pipSize?: number;
+}
+
+export type TickHandler = (tick: SourceTick) => void;
+
+export interface TickSubscribeOptions {
+    // Only honoured by the live source
+    connectionType?: ConnectionType;
+}
+
+export interface TickSource {
+    readonly kind: TickSourceKind;
+    readonly name: string;
+
+    subscribe(symbol: string, onTick: TickHandler, options?: TickSubscribeOptions): Promise<() => void>;
+    getHistory(symbol: string, count: number, options?: TickSubscribeOptions): Promise<SourceTick[]>;
+    getSymbols(): string[];
+    dispose(): void;
+}
+
+export type ReplayStatus = 'IDLE' | 'PLAYING' | 'PAUSED' | 'FINISHED';
+
+export interface ReplayOptions {
+    // Playback speed relative to the recorded epochs; 0 emits as fast as possible
+    speed: number;
+    loop: boolean;
+    autoPlay: boolean;
+    // Ticks already "in the past" when playback starts, served through getHistory
+    warmupTicks: number;
+}
+
+export interface ReplayState {
+    status: ReplayStatus;
+    name: string;
+    cursor: number;
+    totalTicks: number;
+    currentEpoch?: number;
+    symbols: string[];
+    speed: number;
+}
+
+export interface TickFileParseResult {
+    ticks: SourceTick[];
+    skippedRows: number;
+    format: 'JSON' | 'CSV';
+}
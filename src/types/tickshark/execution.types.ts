@@ -9,7 +9,7 @@ export type IntentType = 'RISE_FALL' | 'HIGHER_LOWER' | 'MATCHES_DIFFERS' | 'EVE
 
 export type IntentStatus = 'CREATED' | 'VALIDATED' | 'QUEUED' | 'EXECUTING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
 
-export type ExecutionResult = 'WIN' | 'LOSS' | 'CANCELLED' | 'PENDING';
+export type ExecutionOutcome = 'WIN' | 'LOSS' | 'CANCELLED' | 'PENDING';
 
 export interface TradeParameters {
     symbol: string;
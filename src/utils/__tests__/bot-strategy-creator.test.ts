@@ -4,6 +4,7 @@
  */
 
 import * as fc from 'fast-check';
+import { appEventBus } from '../../services/app-event-bus.service';
 import {
     BotStrategyConfig,
     createAndDispatchBotStrategy,
@@ -125,28 +126,27 @@ describe('Bot Strategy Creator - Property-Based Tests', () => {
                     const config = createBotStrategyConfig(prediction, market, stake, duration);
                     
                     // Set up event listener to capture the dispatched event
-                    let capturedEvent: CustomEvent | null = null;
-                    const eventListener = (event: Event) => {
-                        capturedEvent = event as CustomEvent;
+                    let capturedConfig: BotStrategyConfig | null = null;
+                    const eventListener = (payload: BotStrategyConfig) => {
+                        capturedConfig = payload;
                     };
                     
-                    window.addEventListener('create.bot.strategy', eventListener);
+                    const unsubscribe = appEventBus.subscribe('create.bot.strategy', eventListener);
                     
                     // Dispatch the bot strategy
                     const success = dispatchBotStrategyEvent(config);
                     
                     // Clean up
-                    window.removeEventListener('create.bot.strategy', eventListener);
+                    unsubscribe();
                     
                     // Verify dispatch was successful
                     expect(success).toBe(true);
                     
                     // Verify event was dispatched
-                    expect(capturedEvent).not.toBeNull();
-                    expect(capturedEvent?.type).toBe('create.bot.strategy');
+                    expect(capturedConfig).not.toBeNull();
                     
                     // Verify event detail contains the config
-                    expect(capturedEvent?.detail).toEqual(config);
+                    expect(capturedConfig).toEqual(config);
                     
                     return true;
                 }
@@ -288,24 +288,24 @@ describe('Bot Strategy Creator - Property-Based Tests', () => {
                 reasoning: 'Test reasoning'
             };
             
-            let capturedEvent: CustomEvent | null = null;
-            const eventListener = (event: Event) => {
-                capturedEvent = event as CustomEvent;
+            let capturedConfig: BotStrategyConfig | null = null;
+            const eventListener = (payload: BotStrategyConfig) => {
+                capturedConfig = payload;
             };
             
-            window.addEventListener('create.bot.strategy', eventListener);
+            const unsubscribe = appEventBus.subscribe('create.bot.strategy', eventListener);
             
             const result = createAndDispatchBotStrategy(prediction, 'R_100', 2, 3);
             
-            window.removeEventListener('create.bot.strategy', eventListener);
+            unsubscribe();
             
             expect(result).not.toBeNull();
             expect(result?.prediction).toBe(7);
             expect(result?.market).toBe('R_100');
             expect(result?.stake).toBe(2);
             expect(result?.duration).toBe(3);
-            expect(capturedEvent).not.toBeNull();
-            expect(capturedEvent?.detail).toEqual(result);
+            expect(capturedConfig).not.toBeNull();
+            expect(capturedConfig).toEqual(result);
         });
 
         test('should handle multiple bot strategies dispatched in sequence', () => {
@@ -315,24 +315,24 @@ describe('Bot Strategy Creator - Property-Based Tests', () => {
                 { digit: 9, probability: 0.13, confidence: 'low', reasoning: 'Test 3' }
             ];
             
-            const capturedEvents: CustomEvent[] = [];
-            const eventListener = (event: Event) => {
-                capturedEvents.push(event as CustomEvent);
+            const capturedConfigs: BotStrategyConfig[] = [];
+            const eventListener = (payload: BotStrategyConfig) => {
+                capturedConfigs.push(payload);
             };
             
-            window.addEventListener('create.bot.strategy', eventListener);
+            const unsubscribe = appEventBus.subscribe('create.bot.strategy', eventListener);
             
             predictions.forEach(pred => {
                 const config = createBotStrategyConfig(pred, 'R_50', 1, 1);
                 dispatchBotStrategyEvent(config);
             });
             
-            window.removeEventListener('create.bot.strategy', eventListener);
+            unsubscribe();
             
-            expect(capturedEvents).toHaveLength(3);
-            expect(capturedEvents[0].detail.prediction).toBe(0);
-            expect(capturedEvents[1].detail.prediction).toBe(5);
-            expect(capturedEvents[2].detail.prediction).toBe(9);
+            expect(capturedConfigs).toHaveLength(3);
+            expect(capturedConfigs[0].prediction).toBe(0);
+            expect(capturedConfigs[1].prediction).toBe(5);
+            expect(capturedConfigs[2].prediction).toBe(9);
         });
     });
 });
@@ -0,0 +1,114 @@
+/**
+ * Tests for the digit statistics module
+ * Chi-square, runs tests, Wilson intervals and multiple-comparison correction
+ */
+
+import {
+    adjustPValues,
+    analyzeDigitSignificance,
+    applyMultipleComparisonCorrection,
+    chiSquarePValue,
+    chiSquareUniform,
+    evenOddRunsTest,
+    riseFallRunsTest,
+    wilsonInterval,
+} from '../digit-statistics';
+
+const uniformDigits = (cycles: number) => Array.from({ length: cycles * 10 }, (_, index) => index % 10);
+
+describe('Digit Statistics', () => {
+    describe('Chi-square goodness-of-fit', () => {
+        test('matches tabulated critical values', () => {
+            expect(chiSquarePValue(16.919, 9)).toBeCloseTo(0.05, 3);
+            expect(chiSquarePValue(21.666, 9)).toBeCloseTo(0.01, 3);
+            expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 3);
+        });
+
+        test('finds no deviation in perfectly uniform counts', () => {
+            const result = chiSquareUniform(new Array(10).fill(100));
+
+            expect(result.statistic).toBe(0);
+            expect(result.degreesOfFreedom).toBe(9);
+            expect(result.pValue).toBe(1);
+        });
+
+        test('flags a heavily biased digit', () => {
+            const counts = new Array(10).fill(90);
+            counts[7] = 190;
+
+            expect(chiSquareUniform(counts).pValue).toBeLessThan(0.001);
+        });
+    });
+
+    describe('Runs tests', () => {
+        test('strict alternation has more runs than chance', () => {
+            const result = evenOddRunsTest(uniformDigits(10));
+
+            expect(result.runs).toBe(100);
+            expect(result.expectedRuns).toBeCloseTo(51, 5);
+            expect(result.zScore).toBeGreaterThan(0);
+            expect(result.pValue).toBeLessThan(0.001);
+        });
+
+        test('long streaks have fewer runs than chance', () => {
+            const digits = [...new Array(50).fill(2), ...new Array(50).fill(3)];
+            const result = evenOddRunsTest(digits);
+
+            expect(result.runs).toBe(2);
+            expect(result.zScore).toBeLessThan(0);
+            expect(result.pValue).toBeLessThan(0.001);
+        });
+
+        test('skips unchanged quotes and needs both directions', () => {
+            expect(riseFallRunsTest([1, 2, 2, 1, 2])).toMatchObject({ runs: 3, n1: 2, n2: 1 });
+            expect(riseFallRunsTest([1, 2, 3, 4])).toMatchObject({ runs: 1, zScore: 0, pValue: 1 });
+        });
+    });
+
+    describe('Confidence intervals', () => {
+        test('Wilson interval brackets the observed proportion', () => {
+            const [low, high] = wilsonInterval(10, 100);
+
+            expect(low).toBeCloseTo(0.0552, 3);
+            expect(high).toBeCloseTo(0.1744, 3);
+            expect(wilsonInterval(0, 0)).toEqual([0, 1]);
+        });
+
+        test('per-digit tests report the share and interval of each digit', () => {
+            const result = analyzeDigitSignificance(uniformDigits(20));
+
+            expect(result.digits).toHaveLength(10);
+            result.digits.forEach(digit => {
+                expect(digit.proportion).toBeCloseTo(0.1, 10);
+                expect(digit.confidenceInterval[0]).toBeLessThan(0.1);
+                expect(digit.confidenceInterval[1]).toBeGreaterThan(0.1);
+                expect(digit.isSignificant).toBe(false);
+            });
+            expect(result.riseFallRuns).toBeNull();
+        });
+    });
+
+    describe('Multiple-comparison correction', () => {
+        test('Holm is step-down and monotone, Bonferroni multiplies by the family size', () => {
+            expect(adjustPValues([0.01, 0.04, 0.03])).toEqual([0.03, 0.06, 0.06]);
+            expect(adjustPValues([0.01, 0.04, 0.5], 'bonferroni')).toEqual([0.03, 0.12, 1]);
+        });
+
+        test('a market that is significant alone can be noise across the scan', () => {
+            const biased = [...uniformDigits(20), ...new Array(22).fill(7)];
+
+            const markets = [
+                analyzeDigitSignificance(biased),
+                ...Array.from({ length: 12 }, () => analyzeDigitSignificance(uniformDigits(20))),
+            ];
+            const rawPValue = markets[0].chiSquare.pValue;
+
+            applyMultipleComparisonCorrection(markets);
+
+            expect(rawPValue).toBeLessThan(0.05);
+            expect(markets[0].correction).toMatchObject({ method: 'holm', familySize: 13 });
+            expect(markets[0].correction?.adjustedPValue).toBeCloseTo(Math.min(1, rawPValue * 13), 10);
+            markets.forEach(market => expect(market.correction?.isSignificant).toBe(false));
+        });
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for the Fast Lane API client
+ * Runs against the in-process fake Deriv server: ticks, purchases, rate limits and reconnects
+ */
+
+import { FastLaneAPI, TickData } from '../fast-lane/fast-lane-api';
+import { FakeDerivServer } from '../mock/fake-deriv-server';
+import { RateLimiter } from '../rate-limiter';
+
+const TOKEN = 'fast-lane-token';
+
+const buyDigitOver = (api: FastLaneAPI) =>
+    api.buyContract({
+        contractType: 'DIGITOVER',
+        symbol: 'R_100',
+        stake: 10,
+        duration: 3,
+        durationType: 't',
+        barrier: '4',
+    });
+
+describe('FastLaneAPI', () => {
+    let server: FakeDerivServer;
+    let api: FastLaneAPI;
+
+    beforeEach(async () => {
+        server = new FakeDerivServer();
+        server.install();
+        server.addAccount(TOKEN, { loginid: 'VRTC100', balance: 100 });
+
+        api = new FastLaneAPI(
+            new RateLimiter({ maxRequestsPerSecond: 100, maxRequestsPerMinute: 1000, burstLimit: 100 })
+        );
+        api.setAuthToken(TOKEN);
+        await api.connect();
+        await api.authorize();
+    });
+
+    afterEach(() => {
+        api.disconnect();
+        server.uninstall();
+        jest.useRealTimers();
+    });
+
+    test('streams scripted ticks to tick subscribers', async () => {
+        const ticks: TickData[] = [];
+        const subscriptionId = await api.subscribeTicks('R_100', tick => ticks.push(tick));
+
+        server.scriptTicks('R_100', [100.12, 100.35]);
+        server.runTicks('R_100');
+        await server.flush();
+
+        expect(subscriptionId).toBeTruthy();
+        expect(ticks.map(tick => tick.quote)).toEqual([100.12, 100.35]);
+
+        await api.unsubscribeTicks(subscriptionId);
+        server.pushTick('R_100', 100.4);
+        await server.flush();
+        expect(ticks).toHaveLength(2);
+    });
+
+    test('settles bought contracts on the scripted ticks', async () => {
+        const { buy } = await buyDigitOver(api);
+
+        expect(buy.payout).toBe(19.5);
+        expect(await api.getBalance()).toBe(90);
+
+        // Digit contracts count the entry tick, so a 3 tick contract exits on the third tick
+        server.scriptTicks('R_100', [100.11, 100.22, 100.37, 100.41]);
+        server.runTicks('R_100');
+
+        expect(server.getContract(buy.contract_id)).toMatchObject({
+            entry_spot: 100.11,
+            exit_spot: 100.37,
+            status: 'won',
+            profit: 9.5,
+        });
+        expect(server.getAccount(TOKEN)?.balance).toBe(109.5);
+    });
+
+    test('rejects requests refused with a rate limit error', async () => {
+        server.rateLimit('buy');
+
+        await expect(buyDigitOver(api)).rejects.toThrow('You have reached the rate limit for buy.');
+        await expect(buyDigitOver(api)).resolves.toHaveProperty('buy.buy_price', 10);
+    });
+
+    test('reconnects and re-authorizes after the connection drops', async () => {
+        jest.useFakeTimers();
+        const onDisconnected = jest.fn();
+        api.on('disconnected', onDisconnected);
+
+        server.disconnect();
+        await server.flush();
+
+        expect(onDisconnected).toHaveBeenCalled();
+        expect(api.isConnected()).toBe(false);
+
+        jest.advanceTimersByTime(1000);
+        await server.flush();
+
+        expect(api.isConnected()).toBe(true);
+        expect(server.getRequests('authorize')).toHaveLength(2);
+    });
+});
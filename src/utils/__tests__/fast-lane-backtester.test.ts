@@ -0,0 +1,136 @@
+/**
+ * Tests for the Fast Lane backtester
+ * Payout tables, contract settlement timing and martingale bookkeeping
+ */
+
+import { Backtester, BacktestSettings, getPayoutRatio } from '../fast-lane/backtester';
+import { StrategyManager } from '../fast-lane/strategy-manager';
+
+const toTicks = (quotes: number[], symbol = 'R_100') => quotes.map((quote, epoch) => ({ epoch, quote, symbol }));
+
+const settings: BacktestSettings = { market: 'R_100', stake: 1, duration: 1, durationType: 't' };
+
+const always = (tradeType: string, barrier?: number) =>
+    new Backtester(() => ({ shouldTrade: true, tradeType, barrier }));
+
+describe('Fast Lane Backtester', () => {
+    describe('Payout table', () => {
+        test('derives payout ratios from the win probability of each contract and barrier', () => {
+            expect(getPayoutRatio('DIGITEVEN')).toBe(1.95);
+            expect(getPayoutRatio('CALL')).toBe(1.95);
+            expect(getPayoutRatio('DIGITMATCH', 3)).toBe(9.75);
+            expect(getPayoutRatio('DIGITDIFF', 3)).toBe(1.08);
+            expect(getPayoutRatio('DIGITOVER', 7)).toBe(4.88);
+            expect(getPayoutRatio('DIGITUNDER', 2)).toBe(4.88);
+            expect(getPayoutRatio('DIGITOVER', 9)).toBe(0);
+            expect(getPayoutRatio('UNKNOWN')).toBe(0);
+        });
+
+        test('prefers barrier-specific overrides over contract overrides', () => {
+            const overrides = { DIGITOVER: 1.5, DIGITOVER_7: 4.5 };
+
+            expect(getPayoutRatio('DIGITOVER', 7, undefined, overrides)).toBe(4.5);
+            expect(getPayoutRatio('DIGITOVER', 3, undefined, overrides)).toBe(1.5);
+        });
+    });
+
+    describe('Settlement', () => {
+        test('settles 1-tick digit contracts on the entry tick using the pip-size last digit', () => {
+            const result = always('DIGITMATCH', 0).run(toTicks([100, 100.1, 100.25]), settings, { warmupTicks: 1 });
+
+            expect(result.trades.map(t => [t.entryIndex, t.exitIndex, t.exitDigit, t.outcome])).toEqual([
+                [1, 1, 0, 'win'],
+                [2, 2, 5, 'loss'],
+            ]);
+            expect(result.trades[0].payout).toBe(9.75);
+        });
+
+        test('settles Rise/Fall after the configured number of ticks past the entry spot', () => {
+            const quotes = [100, 101, 99, 98, 97, 96, 102, 90];
+            const result = always('CALL').run(toTicks(quotes), { ...settings, duration: 5 }, { warmupTicks: 1 });
+
+            expect(result.totalTrades).toBe(1);
+            expect(result.trades[0]).toMatchObject({ entrySpot: 101, exitSpot: 102, exitIndex: 6, outcome: 'win' });
+        });
+
+        test('settles time-based contracts on the last tick before expiry', () => {
+            const ticks = [0, 1, 2, 3, 4, 5, 10].map(epoch => ({ epoch, quote: 100 - epoch, symbol: 'R_100' }));
+            const result = always('PUT').run(
+                ticks,
+                { ...settings, duration: 3, durationType: 's' },
+                { warmupTicks: 1 }
+            );
+
+            expect(result.trades.map(t => [t.entryIndex, t.exitIndex, t.exitEpoch, t.outcome])).toEqual([
+                [1, 3, 3, 'win'],
+                [4, 5, 5, 'win'],
+            ]);
+            // The tick after the last decision arrives after expiry, so that contract cannot be settled
+            expect(result.skippedDecisions).toBe(1);
+        });
+    });
+
+    describe('Martingale and equity', () => {
+        // Exit digits: 1, 3, 2, 5, 4 -> loss, loss, win, loss, win for DIGITEVEN
+        const quotes = [100.0, 100.01, 100.03, 100.02, 100.05, 100.04];
+
+        test('reports the stake sequence, equity curve, drawdown and loss streak', () => {
+            const result = always('DIGITEVEN').run(toTicks(quotes), settings, {
+                warmupTicks: 1,
+                martingale: { multiplier: 2 },
+            });
+
+            expect(result.stakeSequence).toEqual([1, 2, 4, 1, 2]);
+            expect(result.equityCurve).toEqual([0, -1, -3, 0.8, -0.2, 1.7]);
+            expect(result.totalProfit).toBe(1.7);
+            expect(result.maxDrawdown).toBe(3);
+            expect(result.longestLossStreak).toBe(2);
+            expect(result.maxStake).toBe(4);
+            expect(result.requiredCapital).toBe(7);
+        });
+
+        test('resets the stake after the maximum number of martingale steps', () => {
+            const result = always('DIGITEVEN').run(toTicks(quotes), settings, {
+                warmupTicks: 1,
+                martingale: { multiplier: 2, maxSteps: 1 },
+            });
+
+            expect(result.stakeSequence).toEqual([1, 2, 1, 1, 2]);
+        });
+    });
+
+    describe('StrategyManager', () => {
+        const manager = new StrategyManager();
+
+        test('emits the configured contract family with its barrier', () => {
+            const overUnder = manager.executeStrategy('momentum', [100.07, 100.08, 100.09], {
+                ...settings,
+                tradeType: 'DIGITOVER',
+                barrier: 6,
+            });
+            expect(overUnder).toMatchObject({ shouldTrade: true, tradeType: 'DIGITOVER', barrier: 6 });
+
+            const riseFall = manager.executeStrategy('mean-reversion', [1, 2, 3, 4, 5, 6], {
+                ...settings,
+                tradeType: 'CALL',
+            });
+            expect(riseFall).toMatchObject({ shouldTrade: true, tradeType: 'PUT' });
+            expect(riseFall.reason).toBe('Rise streak detected (5/5), expecting reversion');
+        });
+
+        test('backtests every emitted contract type with its own payout', () => {
+            const quotes = Array.from({ length: 30 }, (_, i) => 100 + ((i * 7) % 10) / 100);
+            const result = manager.backtest('momentum', toTicks(quotes), {
+                ...settings,
+                tradeType: 'DIGITUNDER',
+                barrier: 3,
+            });
+
+            expect(result.totalTrades).toBeGreaterThan(0);
+            result.trades.forEach(trade => {
+                expect(['DIGITOVER', 'DIGITUNDER']).toContain(trade.contractType);
+                expect(trade.payoutRatio).toBe(getPayoutRatio(trade.contractType, 3));
+            });
+        });
+    });
+});
@@ -85,6 +85,20 @@ describe('Profit Calculator', () => {
             expect(result.profit).toBe(-1);
         });
 
+        test('DIGITMATCH - reads the digit at the market pip size', () => {
+            const result = calculateDigitProfit({
+                contractType: 'DIGITMATCH',
+                stake: 1,
+                entrySpot: 253.1,
+                exitSpot: 253.12, // R_50 quotes 4 decimals, so the settled quote is 253.1200
+                duration: 1,
+                defaultDigit: 0,
+                symbol: 'R_50',
+            });
+
+            expect(result.outcome).toBe('win');
+        });
+
         test('DIGITDIFF - should win on different digit', () => {
             const result = calculateDigitProfit({
                 contractType: 'DIGITDIFF',
@@ -0,0 +1,137 @@
+/**
+ * Tests for session export / import
+ * CSV escaping, JSON and CSV round trips and the summary statistics of imported sessions
+ */
+
+import {
+    createSessionExport,
+    escapeCsvValue,
+    getTransactionStatistics,
+    journalToCsv,
+    parseCsv,
+    parseSessionFile,
+    toCsv,
+    transactionsToCsv,
+    TTransactionElement,
+} from '../session-export';
+
+const contract = (buy: number, profit: number, run_id = 'run-1') => ({
+    type: 'contract',
+    data: {
+        run_id,
+        contract_id: buy * 10,
+        transaction_ids: { buy, sell: buy + 1 },
+        display_name: 'Volatility 100 (1s) Index',
+        underlying: '1HZ100V',
+        contract_type: 'DIGITOVER',
+        barrier: '4',
+        tick_count: 5,
+        date_start: '2026-1-5 10:00:00 GMT',
+        entry_tick: '1234.56',
+        entry_tick_time: '2026-1-5 10:00:01 GMT',
+        exit_tick: '1235.10',
+        exit_tick_time: '2026-1-5 10:00:06 GMT',
+        buy_price: 1,
+        sell_price: profit > 0 ? 1 + profit : 0,
+        payout: 1.95,
+        profit,
+        currency: 'USD',
+        is_completed: true,
+    },
+});
+
+const elements = [
+    contract(101, 0.95),
+    contract(99, -1),
+    { type: 'divider', data: 'run-1' },
+    contract(97, 0.95, 'run-0'),
+] as TTransactionElement[];
+
+const journal = [
+    {
+        date: '2026-1-5',
+        time: '10:00:00 GMT',
+        message_type: 'success',
+        message: 'Bought: Win payout if "last digit" > 4, (ID: 101)',
+    },
+    { date: '2026-1-5', time: '10:00:07 GMT', message_type: 'error', message: 'Line one\nline two' },
+];
+
+describe('Session export', () => {
+    describe('CSV', () => {
+        test('quotes fields holding delimiters, quotes and line breaks', () => {
+            expect(escapeCsvValue('plain')).toBe('plain');
+            expect(escapeCsvValue('a,b')).toBe('"a,b"');
+            expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+            expect(escapeCsvValue('two\nlines')).toBe('"two\nlines"');
+            expect(escapeCsvValue(undefined)).toBe('');
+        });
+
+        test('parses back exactly what it wrote', () => {
+            const rows = [
+                ['a,b', 'say "hi"', 'two\r\nlines'],
+                ['', '1.5', 'true'],
+            ];
+            expect(parseCsv(toCsv(rows))).toEqual(rows);
+            expect(parseCsv('\uFEFFx,y\n1,2\n')).toEqual([
+                ['x', 'y'],
+                ['1', '2'],
+            ]);
+        });
+    });
+
+    describe('Round trips', () => {
+        test('JSON keeps contracts, journal and run ID and recomputes the statistics', () => {
+            const session = createSessionExport({
+                run_id: 'abc123',
+                account: 'CR123',
+                transactions: elements,
+                journal,
+            });
+            const result = parseSessionFile(JSON.stringify(session), 'Session.json');
+
+            expect(result.success).toBe(true);
+            expect(result.session?.run_id).toBe('abc123');
+            expect(result.session?.transactions).toEqual(session.transactions);
+            expect(result.session?.journal).toEqual(journal);
+            expect(result.session?.statistics).toEqual(getTransactionStatistics(elements));
+            expect(session.transactions[0]).toMatchObject({
+                contract_id: '1010',
+                buy_transaction_id: '101',
+                barrier: '4',
+                duration: '5',
+                duration_unit: 't',
+                entry_spot: '1234.56',
+                exit_spot: '1235.10',
+            });
+        });
+
+        test('transactions CSV imports with the same summary statistics', () => {
+            const session = createSessionExport({ run_id: 'abc123', account: '', transactions: elements, journal });
+            const result = parseSessionFile(transactionsToCsv(session.transactions), 'Transactions.csv');
+
+            expect(result.session?.transactions).toEqual(session.transactions);
+            expect(result.session?.statistics).toMatchObject({
+                lost_contracts: 1,
+                number_of_runs: 3,
+                total_payout: 3.9,
+                total_stake: 3,
+                won_contracts: 2,
+            });
+            expect(result.session?.statistics.total_profit).toBeCloseTo(0.9, 10);
+        });
+
+        test('journal CSV imports messages with commas, quotes and line breaks', () => {
+            const result = parseSessionFile(journalToCsv(journal), 'Journal.csv');
+
+            expect(result.session?.journal).toEqual(journal);
+            expect(result.session?.transactions).toEqual([]);
+        });
+
+        test('rejects files that are not session exports', () => {
+            expect(parseSessionFile('{"foo": 1}', 'x.json')).toMatchObject({ success: false });
+            expect(parseSessionFile('a,b\n1,2', 'x.csv')).toMatchObject({ success: false });
+            expect(parseSessionFile('{not json', 'x.json').success).toBe(false);
+        });
+    });
+});
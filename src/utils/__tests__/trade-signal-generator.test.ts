@@ -4,6 +4,7 @@
  */
 
 import * as fc from 'fast-check';
+import { appEventBus } from '../../services/app-event-bus.service';
 import { ProbabilityPrediction } from '../probability-calculator';
 import {
     createAndDispatchTradeSignal,
@@ -101,28 +102,27 @@ describe('Trade Signal Generator - Property-Based Tests', () => {
                     const signal = createTradeSignal(prediction, market);
                     
                     // Set up event listener to capture the dispatched event
-                    let capturedEvent: CustomEvent | null = null;
-                    const eventListener = (event: Event) => {
-                        capturedEvent = event as CustomEvent;
+                    let capturedSignal: TradeSignal | null = null;
+                    const eventListener = (payload: TradeSignal) => {
+                        capturedSignal = payload;
                     };
                     
-                    window.addEventListener('zeus.trade.signal', eventListener);
+                    const unsubscribe = appEventBus.subscribe('zeus.trade.signal', eventListener);
                     
                     // Dispatch the signal
                     const success = dispatchTradeSignal(signal);
                     
                     // Clean up
-                    window.removeEventListener('zeus.trade.signal', eventListener);
+                    unsubscribe();
                     
                     // Verify dispatch was successful
                     expect(success).toBe(true);
                     
                     // Verify event was dispatched
-                    expect(capturedEvent).not.toBeNull();
-                    expect(capturedEvent?.type).toBe('zeus.trade.signal');
+                    expect(capturedSignal).not.toBeNull();
                     
                     // Verify event detail contains the signal
-                    expect(capturedEvent?.detail).toEqual(signal);
+                    expect(capturedSignal).toEqual(signal);
                     
                     return true;
                 }
@@ -205,22 +205,22 @@ describe('Trade Signal Generator - Property-Based Tests', () => {
                 reasoning: 'Test reasoning'
             };
             
-            let capturedEvent: CustomEvent | null = null;
-            const eventListener = (event: Event) => {
-                capturedEvent = event as CustomEvent;
+            let capturedSignal: TradeSignal | null = null;
+            const eventListener = (payload: TradeSignal) => {
+                capturedSignal = payload;
             };
             
-            window.addEventListener('zeus.trade.signal', eventListener);
+            const unsubscribe = appEventBus.subscribe('zeus.trade.signal', eventListener);
             
             const result = createAndDispatchTradeSignal(prediction, 'R_100');
             
-            window.removeEventListener('zeus.trade.signal', eventListener);
+            unsubscribe();
             
             expect(result).not.toBeNull();
             expect(result?.prediction).toBe(7);
             expect(result?.market).toBe('R_100');
-            expect(capturedEvent).not.toBeNull();
-            expect(capturedEvent?.detail).toEqual(result);
+            expect(capturedSignal).not.toBeNull();
+            expect(capturedSignal).toEqual(result);
         });
 
         test('should handle multiple signals dispatched in sequence', () => {
@@ -230,24 +230,24 @@ describe('Trade Signal Generator - Property-Based Tests', () => {
                 { digit: 9, probability: 0.13, confidence: 'low', reasoning: 'Test 3' }
             ];
             
-            const capturedEvents: CustomEvent[] = [];
-            const eventListener = (event: Event) => {
-                capturedEvents.push(event as CustomEvent);
+            const capturedSignals: TradeSignal[] = [];
+            const eventListener = (payload: TradeSignal) => {
+                capturedSignals.push(payload);
             };
             
-            window.addEventListener('zeus.trade.signal', eventListener);
+            const unsubscribe = appEventBus.subscribe('zeus.trade.signal', eventListener);
             
             predictions.forEach(pred => {
                 const signal = createTradeSignal(pred, 'R_50');
                 dispatchTradeSignal(signal);
             });
             
-            window.removeEventListener('zeus.trade.signal', eventListener);
+            unsubscribe();
             
-            expect(capturedEvents).toHaveLength(3);
-            expect(capturedEvents[0].detail.prediction).toBe(0);
-            expect(capturedEvents[1].detail.prediction).toBe(5);
-            expect(capturedEvents[2].detail.prediction).toBe(9);
+            expect(capturedSignals).toHaveLength(3);
+            expect(capturedSignals[0].prediction).toBe(0);
+            expect(capturedSignals[1].prediction).toBe(5);
+            expect(capturedSignals[2].prediction).toBe(9);
         });
     });
 });
@@ -3,6 +3,7 @@
  * Creates bot strategy configurations from probability predictions
  */
 
+import { appEventBus } from '../services/app-event-bus.service';
 import { ProbabilityPrediction } from './probability-calculator';
 
 export interface BotStrategyConfig {
@@ -53,20 +54,14 @@ export function createBotStrategyConfig(
 
 /**
  * Dispatch bot strategy creation event
- * Dispatches a 'create.bot.strategy' event to the window object
+ * Publishes a 'create.bot.strategy' event on the app event bus
  * 
  * @param config - Bot strategy configuration to dispatch
  * @returns True if dispatch was successful, false otherwise
  */
 export function dispatchBotStrategyEvent(config: BotStrategyConfig): boolean {
     try {
-        const event = new CustomEvent('create.bot.strategy', {
-            detail: config,
-            bubbles: true,
-            cancelable: true
-        });
-        
-        window.dispatchEvent(event);
+        appEventBus.publish('create.bot.strategy', config, 'BotStrategyCreator');
         return true;
     } catch (error) {
         console.error('Failed to dispatch bot strategy event:', error);
@@ -0,0 +1,304 @@
+/**
+ * Digit Statistics Module
+ * Significance tests that tell a real deviation in last-digit data apart from sampling noise
+ *
+ * - Chi-square goodness-of-fit against uniform digits
+ * - Wald–Wolfowitz runs tests for even/odd and rise/fall sequences
+ * - Per-digit binomial z-tests with Wilson confidence intervals
+ * - Holm / Bonferroni correction when many markets (or digits) are tested at once
+ */
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+const CONFIDENCE_Z = 1.959964; // Two-sided 95%
+const EXPECTED_DIGIT_PROPORTION = 0.1;
+
+export type CorrectionMethod = 'holm' | 'bonferroni';
+
+export interface ChiSquareResult {
+    statistic: number;
+    degreesOfFreedom: number;
+    pValue: number;
+}
+
+export interface RunsTestResult {
+    runs: number;
+    expectedRuns: number;
+    n1: number; // Observations of the first kind (even / rise)
+    n2: number; // Observations of the second kind (odd / fall)
+    zScore: number; // Negative: fewer runs than chance (streaky), positive: more (alternating)
+    pValue: number;
+}
+
+export interface DigitProportionTest {
+    digit: number;
+    count: number;
+    proportion: number;
+    zScore: number;
+    pValue: number;
+    adjustedPValue: number; // Holm-corrected across the ten digits
+    confidenceInterval: [number, number];
+    isSignificant: boolean;
+}
+
+export interface MultipleComparisonCorrection {
+    method: CorrectionMethod;
+    familySize: number; // Markets tested in the same scan
+    adjustedPValue: number;
+    isSignificant: boolean;
+}
+
+export interface DigitSignificance {
+    sampleSize: number;
+    chiSquare: ChiSquareResult;
+    evenOddRuns: RunsTestResult;
+    riseFallRuns: RunsTestResult | null; // Needs quotes, not only digits
+    digits: DigitProportionTest[];
+    correction?: MultipleComparisonCorrection;
+}
+
+/**
+ * Standard normal cumulative distribution
+ */
+export function normalCdf(z: number): number {
+    // Abramowitz & Stegun 7.1.26, absolute error < 1.5e-7
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const erf =
+        1 -
+        ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+            t *
+            Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided p-value of a standard normal z-score
+ */
+export function twoSidedPValue(z: number): number {
+    return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+/**
+ * Probability of a chi-square statistic at least this large
+ */
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+    if (statistic <= 0) return 1;
+    return regularizedGammaQ(degreesOfFreedom / 2, statistic / 2);
+}
+
+/**
+ * Chi-square goodness-of-fit of digit counts against a uniform distribution
+ */
+export function chiSquareUniform(counts: number[]): ChiSquareResult {
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const degreesOfFreedom = counts.length - 1;
+    if (total === 0) return { statistic: 0, degreesOfFreedom, pValue: 1 };
+
+    const expected = total / counts.length;
+    const statistic = counts.reduce((sum, count) => sum + Math.pow(count - expected, 2) / expected, 0);
+
+    return { statistic, degreesOfFreedom, pValue: chiSquarePValue(statistic, degreesOfFreedom) };
+}
+
+/**
+ * Wald–Wolfowitz runs test on a two-valued sequence
+ */
+export function runsTest(sequence: boolean[]): RunsTestResult {
+    const n1 = sequence.filter(Boolean).length;
+    const n2 = sequence.length - n1;
+    const runs = sequence.reduce(
+        (count, value, index) => (index > 0 && value === sequence[index - 1] ? count : count + 1),
+        0
+    );
+
+    if (n1 === 0 || n2 === 0) {
+        return { runs, expectedRuns: runs, n1, n2, zScore: 0, pValue: 1 };
+    }
+
+    const n = n1 + n2;
+    const expectedRuns = (2 * n1 * n2) / n + 1;
+    const variance = (2 * n1 * n2 * (2 * n1 * n2 - n)) / (n * n * (n - 1));
+    const zScore = variance > 0 ? (runs - expectedRuns) / Math.sqrt(variance) : 0;
+
+    return { runs, expectedRuns, n1, n2, zScore, pValue: twoSidedPValue(zScore) };
+}
+
+/**
+ * Runs test on even (true) / odd (false) digits
+ */
+export function evenOddRunsTest(digits: number[]): RunsTestResult {
+    return runsTest(digits.map(digit => digit % 2 === 0));
+}
+
+/**
+ * Runs test on rise (true) / fall (false) moves; unchanged quotes are skipped
+ */
+export function riseFallRunsTest(quotes: number[]): RunsTestResult {
+    const moves: boolean[] = [];
+    for (let i = 1; i < quotes.length; i++) {
+        if (quotes[i] !== quotes[i - 1]) moves.push(quotes[i] > quotes[i - 1]);
+    }
+    return runsTest(moves);
+}
+
+/**
+ * Wilson score interval for a proportion
+ */
+export function wilsonInterval(successes: number, trials: number, z = CONFIDENCE_Z): [number, number] {
+    if (trials === 0) return [0, 1];
+
+    const p = successes / trials;
+    const z2 = z * z;
+    const denominator = 1 + z2 / trials;
+    const centre = (p + z2 / (2 * trials)) / denominator;
+    const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+
+    return [Math.max(0, centre - margin), Math.min(1, centre + margin)];
+}
+
+/**
+ * Adjust p-values for testing several hypotheses at once, keeping the input order
+ */
+export function adjustPValues(pValues: number[], method: CorrectionMethod = 'holm'): number[] {
+    const m = pValues.length;
+    if (method === 'bonferroni') return pValues.map(p => Math.min(1, p * m));
+
+    const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+    const adjusted = new Array<number>(m);
+    let runningMax = 0;
+
+    order.forEach(({ p, index }, rank) => {
+        runningMax = Math.max(runningMax, Math.min(1, (m - rank) * p));
+        adjusted[index] = runningMax;
+    });
+
+    return adjusted;
+}
+
+/**
+ * Binomial z-test and Wilson interval for each digit against the uniform 10%
+ */
+export function digitProportionTests(counts: number[]): DigitProportionTest[] {
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const standardError = Math.sqrt((EXPECTED_DIGIT_PROPORTION * (1 - EXPECTED_DIGIT_PROPORTION)) / Math.max(1, total));
+
+    const tests = counts.map((count, digit) => {
+        const proportion = total ? count / total : 0;
+        const zScore = total ? (proportion - EXPECTED_DIGIT_PROPORTION) / standardError : 0;
+        return { digit, count, proportion, zScore, pValue: total ? twoSidedPValue(zScore) : 1 };
+    });
+    const adjusted = adjustPValues(tests.map(test => test.pValue));
+
+    return tests.map((test, index) => ({
+        ...test,
+        adjustedPValue: adjusted[index],
+        confidenceInterval: wilsonInterval(test.count, total),
+        isSignificant: adjusted[index] < SIGNIFICANCE_LEVEL,
+    }));
+}
+
+/**
+ * Every significance test for one market's digits (and quotes, when available)
+ */
+export function analyzeDigitSignificance(digits: number[], quotes?: number[]): DigitSignificance {
+    const counts = new Array(10).fill(0);
+    digits.forEach(digit => {
+        if (digit >= 0 && digit <= 9) counts[digit]++;
+    });
+
+    return {
+        sampleSize: digits.length,
+        chiSquare: chiSquareUniform(counts),
+        evenOddRuns: evenOddRunsTest(digits),
+        riseFallRuns: quotes && quotes.length > 1 ? riseFallRunsTest(quotes) : null,
+        digits: digitProportionTests(counts),
+    };
+}
+
+/**
+ * Correct the chi-square p-values of markets scanned together; each result gets its `correction` set
+ */
+export function applyMultipleComparisonCorrection(
+    results: DigitSignificance[],
+    method: CorrectionMethod = 'holm'
+): DigitSignificance[] {
+    const adjusted = adjustPValues(
+        results.map(result => result.chiSquare.pValue),
+        method
+    );
+
+    results.forEach((result, index) => {
+        result.correction = {
+            method,
+            familySize: results.length,
+            adjustedPValue: adjusted[index],
+            isSignificant: adjusted[index] < SIGNIFICANCE_LEVEL,
+        };
+    });
+
+    return results;
+}
+
+/**
+ * One-line summary for logs
+ */
+export function describeSignificance({ chiSquare, correction, sampleSize }: DigitSignificance): string {
+    const verdict =
+        (correction?.isSignificant ?? chiSquare.pValue < SIGNIFICANCE_LEVEL) ? 'significant' : 'within noise';
+    const adjusted = correction
+        ? `, adjusted p=${correction.adjustedPValue.toFixed(4)} over ${correction.familySize} markets`
+        : '';
+
+    return `Digit uniformity χ²=${chiSquare.statistic.toFixed(2)} (n=${sampleSize}), p=${chiSquare.pValue.toFixed(4)}${adjusted} – ${verdict}`;
+}
+
+/** Private helpers */
+
+function logGamma(x: number): number {
+    // Lanczos approximation (g = 7, n = 9)
+    const coefficients = [
+        0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+        12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+    ];
+    if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+
+    const shifted = x - 1;
+    let sum = coefficients[0];
+    for (let i = 1; i < coefficients.length; i++) sum += coefficients[i] / (shifted + i);
+    const t = shifted + 7.5;
+
+    return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function regularizedGammaQ(a: number, x: number): number {
+    if (x < a + 1) {
+        // Series expansion of P(a, x)
+        let term = 1 / a;
+        let sum = term;
+        for (let n = 1; n < 200 && Math.abs(term) > Math.abs(sum) * 1e-14; n++) {
+            term *= x / (a + n);
+            sum += term;
+        }
+        return Math.max(0, 1 - sum * Math.exp(-x + a * Math.log(x) - logGamma(a)));
+    }
+
+    // Continued fraction for Q(a, x) (modified Lentz)
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 200; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-14) break;
+    }
+    return Math.min(1, Math.exp(-x + a * Math.log(x) - logGamma(a)) * h);
+}
@@ -96,11 +96,17 @@ export const getSuccessJournalMessage = (message: string, extra: TExtra) => {
     }
 };
 
-export const downloadFile = (file_name: string, content: string) => {
-    const uri = encodeURI(`data:text/csv;charset=utf-8, ${content}`);
+const MIME_TYPES = {
+    csv: 'text/csv',
+    json: 'application/json',
+};
+
+export const downloadFile = (file_name: string, content: string, extension: keyof typeof MIME_TYPES = 'csv') => {
+    const blob = new Blob([content], { type: `${MIME_TYPES[extension]};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
-    link.setAttribute('href', uri);
-    link.setAttribute('download', `${file_name} ${getCurrentDateTimeLocale()}.csv`);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `${file_name} ${getCurrentDateTimeLocale()}.${extension}`);
     document.body.appendChild(link);
     link.click();
     const parent_element = link.parentNode;
@@ -108,4 +114,6 @@ export const downloadFile = (file_name: string, content: string) => {
     if (parent_element && child_element && parent_element?.contains(child_element)) {
         parent_element?.removeChild(child_element);
     }
+    // Some browsers start the download after click() returns, so the URL must outlive this tick
+    setTimeout(() => URL.revokeObjectURL(url), 0);
 };
@@ -0,0 +1,357 @@
+/**
+ * Backtester - Replay strategy decisions over historical ticks and settle them like Deriv contracts
+ */
+
+import { symbolMetadataService } from '../../services/symbol-metadata.service';
+import { TickData } from './fast-lane-api';
+
+export type DurationType = 't' | 's' | 'm' | 'h' | 'd';
+
+export interface BacktestDecision {
+    shouldTrade: boolean;
+    tradeType: string;
+    barrier?: number;
+}
+
+export interface BacktestSettings {
+    market: string;
+    stake: number;
+    duration: number;
+    durationType: DurationType;
+    barrier?: number;
+}
+
+export interface MartingaleConfig {
+    multiplier: number; // Stake multiplier applied after each loss
+    maxSteps?: number; // Reset to base stake after this many consecutive increases
+}
+
+export interface BacktestOptions {
+    warmupTicks?: number; // Ticks seen before the first decision
+    martingale?: MartingaleConfig;
+    houseEdge?: number; // Used to derive payout ratios from win probabilities
+    payoutOverrides?: Record<string, number>; // Keyed by contract type or `${contractType}_${barrier}`
+}
+
+export interface BacktestTrade {
+    contractType: string;
+    barrier?: number;
+    stake: number;
+    payoutRatio: number;
+    payout: number;
+    profit: number;
+    outcome: 'win' | 'loss';
+    entryIndex: number;
+    exitIndex: number;
+    entrySpot: number;
+    exitSpot: number;
+    exitDigit: number;
+    entryEpoch: number;
+    exitEpoch: number;
+}
+
+export interface BacktestResult {
+    totalTrades: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    totalProfit: number;
+    maxDrawdown: number;
+    sharpeRatio: number; // Mean over standard deviation of per-trade profit
+    longestLossStreak: number;
+    equityCurve: number[]; // Cumulative profit after each trade, starting at 0
+    stakeSequence: number[]; // Stake actually placed on each trade
+    maxStake: number;
+    requiredCapital: number; // Worst drawdown plus the stake that was open at that point
+    trades: BacktestTrade[];
+    skippedDecisions: number; // Decisions that could not be settled (unknown contract or end of data)
+}
+
+export type DecisionProvider = (tickHistory: number[]) => BacktestDecision;
+
+export const DEFAULT_HOUSE_EDGE = 0.025;
+const DEFAULT_DIGIT_BARRIER = 5;
+const DURATION_SECONDS: Record<Exclude<DurationType, 't'>, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/**
+ * Check whether a contract type is settled on the last digit of the exit spot
+ */
+export const isDigitContract = (contractType: string): boolean => contractType.startsWith('DIGIT');
+
+/**
+ * Check whether a contract type needs a digit barrier
+ */
+export const needsDigitBarrier = (contractType: string): boolean =>
+    ['DIGITMATCH', 'DIGITDIFF', 'DIGITOVER', 'DIGITUNDER'].includes(contractType);
+
+/**
+ * Probability that a contract wins on a uniform digit distribution / random walk
+ */
+export const getWinProbability = (contractType: string, barrier = DEFAULT_DIGIT_BARRIER): number => {
+    switch (contractType) {
+        case 'DIGITEVEN':
+        case 'DIGITODD':
+        case 'CALL':
+        case 'PUT':
+            return 0.5;
+        case 'DIGITMATCH':
+            return 0.1;
+        case 'DIGITDIFF':
+            return 0.9;
+        case 'DIGITOVER':
+            return (9 - barrier) / 10;
+        case 'DIGITUNDER':
+            return barrier / 10;
+        default:
+            return 0;
+    }
+};
+
+/**
+ * Payout returned per unit stake (stake included) for a contract and barrier
+ */
+export const getPayoutRatio = (
+    contractType: string,
+    barrier?: number,
+    houseEdge = DEFAULT_HOUSE_EDGE,
+    overrides: Record<string, number> = {}
+): number => {
+    const override = overrides[`${contractType}_${barrier}`] ?? overrides[contractType];
+    if (override !== undefined) return override;
+
+    const probability = getWinProbability(contractType, barrier);
+    if (probability <= 0 || probability >= 1) return 0;
+
+    return Math.round(((1 - houseEdge) / probability) * 100) / 100;
+};
+
+/**
+ * Ticks between the entry spot and the exit spot of a tick-duration contract
+ */
+export const getExitTickOffset = (contractType: string, durationTicks: number): number =>
+    // Digit contracts count the entry tick as tick 1; Rise/Fall counts ticks after the entry spot
+    isDigitContract(contractType) ? durationTicks - 1 : durationTicks;
+
+/**
+ * Settle a contract against its entry and exit spots
+ */
+export const isWinningContract = (
+    contractType: string,
+    barrier: number | undefined,
+    entrySpot: number,
+    exitSpot: number,
+    exitDigit: number
+): boolean => {
+    switch (contractType) {
+        case 'DIGITEVEN':
+            return exitDigit % 2 === 0;
+        case 'DIGITODD':
+            return exitDigit % 2 === 1;
+        case 'DIGITMATCH':
+            return exitDigit === barrier;
+        case 'DIGITDIFF':
+            return exitDigit !== barrier;
+        case 'DIGITOVER':
+            return exitDigit > (barrier as number);
+        case 'DIGITUNDER':
+            return exitDigit < (barrier as number);
+        case 'CALL':
+            return exitSpot > entrySpot;
+        case 'PUT':
+            return exitSpot < entrySpot;
+        default:
+            return false;
+    }
+};
+
+export class Backtester {
+    private readonly decide: DecisionProvider;
+
+    constructor(decide: DecisionProvider) {
+        this.decide = decide;
+    }
+
+    /**
+     * Run the backtest, one open contract at a time
+     */
+    run(historicalData: TickData[], settings: BacktestSettings, options: BacktestOptions = {}): BacktestResult {
+        const { warmupTicks = 5, martingale, houseEdge = DEFAULT_HOUSE_EDGE, payoutOverrides = {} } = options;
+        const quotes = historicalData.map(tick => tick.quote);
+        const trades: BacktestTrade[] = [];
+        let skippedDecisions = 0;
+        let stake = settings.stake;
+        let martingaleStep = 0;
+
+        let i = Math.max(warmupTicks, 1) - 1;
+        while (i < historicalData.length - 1) {
+            const decision = this.decide(quotes.slice(0, i + 1));
+            if (!decision.shouldTrade) {
+                i++;
+                continue;
+            }
+
+            const barrier = needsDigitBarrier(decision.tradeType)
+                ? (decision.barrier ?? settings.barrier ?? DEFAULT_DIGIT_BARRIER)
+                : undefined;
+            const payoutRatio = getPayoutRatio(decision.tradeType, barrier, houseEdge, payoutOverrides);
+            const exitIndex = this.findExitIndex(historicalData, i, decision.tradeType, settings);
+
+            if (payoutRatio <= 0 || exitIndex === null) {
+                skippedDecisions++;
+                i++;
+                continue;
+            }
+
+            const trade = this.settle(
+                historicalData,
+                settings,
+                decision.tradeType,
+                barrier,
+                stake,
+                payoutRatio,
+                i,
+                exitIndex
+            );
+            trades.push(trade);
+
+            if (martingale) {
+                const canIncrease = martingale.maxSteps === undefined || martingaleStep < martingale.maxSteps;
+                if (trade.outcome === 'loss' && canIncrease) {
+                    martingaleStep++;
+                    stake = Math.round(stake * martingale.multiplier * 100) / 100;
+                } else {
+                    martingaleStep = 0;
+                    stake = settings.stake;
+                }
+            }
+
+            // The next decision is made once the contract has settled
+            i = exitIndex;
+        }
+
+        return this.summarize(trades, skippedDecisions);
+    }
+
+    /**
+     * Private helpers
+     */
+    private findExitIndex(
+        historicalData: TickData[],
+        decisionIndex: number,
+        contractType: string,
+        settings: BacktestSettings
+    ): number | null {
+        // The entry spot is the first tick after purchase
+        const entryIndex = decisionIndex + 1;
+        let exitIndex: number;
+
+        if (settings.durationType === 't') {
+            exitIndex = entryIndex + getExitTickOffset(contractType, settings.duration);
+        } else {
+            const expiry =
+                historicalData[decisionIndex].epoch + settings.duration * DURATION_SECONDS[settings.durationType];
+            if (historicalData[historicalData.length - 1].epoch < expiry) return null;
+            if (entryIndex >= historicalData.length || historicalData[entryIndex].epoch > expiry) return null;
+
+            // Exit spot is the latest tick at or before expiry
+            exitIndex = entryIndex;
+            while (exitIndex + 1 < historicalData.length && historicalData[exitIndex + 1].epoch <= expiry) {
+                exitIndex++;
+            }
+        }
+
+        return exitIndex < historicalData.length ? exitIndex : null;
+    }
+
+    private settle(
+        historicalData: TickData[],
+        settings: BacktestSettings,
+        contractType: string,
+        barrier: number | undefined,
+        stake: number,
+        payoutRatio: number,
+        decisionIndex: number,
+        exitIndex: number
+    ): BacktestTrade {
+        const entryTick = historicalData[decisionIndex + 1];
+        const exitTick = historicalData[exitIndex];
+        const exitDigit = symbolMetadataService.getLastDigit(exitTick.quote, exitTick.symbol || settings.market);
+
+        const isWin = isWinningContract(contractType, barrier, entryTick.quote, exitTick.quote, exitDigit);
+
+        const payout = isWin ? Math.round(stake * payoutRatio * 100) / 100 : 0;
+
+        return {
+            contractType,
+            barrier,
+            stake,
+            payoutRatio,
+            payout,
+            profit: Math.round((payout - stake) * 100) / 100,
+            outcome: isWin ? 'win' : 'loss',
+            entryIndex: decisionIndex + 1,
+            exitIndex,
+            entrySpot: entryTick.quote,
+            exitSpot: exitTick.quote,
+            exitDigit,
+            entryEpoch: entryTick.epoch,
+            exitEpoch: exitTick.epoch,
+        };
+    }
+
+    private summarize(trades: BacktestTrade[], skippedDecisions: number): BacktestResult {
+        const equityCurve = [0];
+        let peak = 0;
+        let maxDrawdown = 0;
+        let requiredCapital = 0;
+        let lossStreak = 0;
+        let longestLossStreak = 0;
+
+        trades.forEach(trade => {
+            // Capital at risk includes the stake placed from the current equity level
+            const equityBefore = equityCurve[equityCurve.length - 1];
+            requiredCapital = Math.max(requiredCapital, peak - equityBefore + trade.stake);
+
+            const equity = Math.round((equityBefore + trade.profit) * 100) / 100;
+            equityCurve.push(equity);
+            peak = Math.max(peak, equity);
+            maxDrawdown = Math.max(maxDrawdown, peak - equity);
+
+            lossStreak = trade.outcome === 'loss' ? lossStreak + 1 : 0;
+            longestLossStreak = Math.max(longestLossStreak, lossStreak);
+        });
+
+        const profits = trades.map(trade => trade.profit);
+        const wins = trades.filter(trade => trade.outcome === 'win').length;
+        const stakeSequence = trades.map(trade => trade.stake);
+
+        return {
+            totalTrades: trades.length,
+            wins,
+            losses: trades.length - wins,
+            winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+            totalProfit: equityCurve[equityCurve.length - 1],
+            maxDrawdown: Math.round(maxDrawdown * 100) / 100,
+            sharpeRatio: this.calculateSharpeRatio(profits),
+            longestLossStreak,
+            equityCurve,
+            stakeSequence,
+            maxStake: stakeSequence.length > 0 ? Math.max(...stakeSequence) : 0,
+            requiredCapital: Math.round(requiredCapital * 100) / 100,
+            trades,
+            skippedDecisions,
+        };
+    }
+
+    private calculateSharpeRatio(profits: number[]): number {
+        if (profits.length < 2) {
+            return 0;
+        }
+
+        const mean = profits.reduce((sum, p) => sum + p, 0) / profits.length;
+        const variance = profits.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / (profits.length - 1);
+        const stdDev = Math.sqrt(variance);
+
+        return stdDev === 0 ? 0 : mean / stdDev;
+    }
+}
@@ -284,10 +284,9 @@ export class FastLaneAPI {
                     this.emit('balance_update', data.balance.balance);
                 }
             }
-            return;
         }
 
-        // Handle request responses
+        // Handle request responses, including the first message of a subscription
         const reqId = data.req_id;
         if (reqId && this.callbacks.has(reqId)) {
             const { resolve, reject } = this.callbacks.get(reqId)!;
@@ -2,6 +2,7 @@
  * Fast Lane Utilities - Export barrel
  */
 
+export * from './backtester';
 export * from './fast-lane-api';
 export * from './risk-manager';
 export * from './strategy-manager';
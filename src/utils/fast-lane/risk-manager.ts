@@ -1,7 +1,9 @@
 /**
- * Risk Manager - Enforce trading risk limits and circuit breakers
+ * Risk Manager - Enforce session risk limits and circuit breakers on top of the account risk policy
  */
 
+import { riskPolicyService } from '../../services/risk-policy.service';
+
 export interface RiskConfig {
     stopLoss: number; // Maximum loss in USD
     takeProfit: number; // Target profit in USD
@@ -41,6 +43,11 @@ export class RiskManager {
      * Check if trading is allowed based on all risk limits
      */
     canTrade(stake: number, balance: number): boolean {
+        // Check account risk policy
+        if (!riskPolicyService.check({ source: 'FAST_LANE', stake, balance }).allowed) {
+            return false;
+        }
+
         // Check if stake is within limits
         if (!this.validateStake(stake, balance)) {
             return false;
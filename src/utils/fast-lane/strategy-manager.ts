@@ -2,6 +2,8 @@
  * Strategy Manager - Execute and backtest trading strategies
  */
 
+import { symbolMetadataService } from '../../services/symbol-metadata.service';
+import { Backtester, BacktestOptions, BacktestResult } from './backtester';
 import { TickData } from './fast-lane-api';
 
 export type Strategy = 'momentum' | 'mean-reversion' | 'pattern' | 'random';
@@ -12,6 +14,7 @@ export interface TradingSettings {
     stake: number;
     duration: number;
     durationType: 't' | 's' | 'm' | 'h' | 'd';
+    barrier?: number; // Digit barrier for over/under and matches/differs
 }
 
 export interface TradeDecision {
@@ -19,18 +22,18 @@ export interface TradeDecision {
     tradeType: string;
     confidence: number;
     reason: string;
+    barrier?: number;
 }
 
-export interface BacktestResult {
-    totalTrades: number;
-    wins: number;
-    losses: number;
-    winRate: number;
-    totalProfit: number;
-    maxDrawdown: number;
-    sharpeRatio: number;
+// Each strategy reads the tick history as a sequence of sides (0 = first contract, 1 = second)
+interface ContractPair {
+    contracts: [string, string];
+    labels: [string, string];
+    barrier?: number;
 }
 
+const DEFAULT_BARRIER = 5;
+
 export class StrategyManager {
     /**
      * Execute a strategy based on tick history
@@ -60,7 +63,10 @@ export class StrategyManager {
      * If last N digits show a pattern, continue it
      */
     private momentumStrategy(tickHistory: number[], settings: TradingSettings): TradeDecision {
-        if (tickHistory.length < 3) {
+        const pair = this.getContractPair(settings);
+        const sides = this.getSides(tickHistory, 3, settings, pair);
+
+        if (sides.length < 3) {
             return {
                 shouldTrade: false,
                 tradeType: settings.tradeType,
@@ -69,46 +75,25 @@ export class StrategyManager {
             };
         }
 
-        const lastDigits = tickHistory.slice(-3).map(tick => tick % 10);
-        const evenCount = lastDigits.filter(d => d % 2 === 0).length;
-        const oddCount = lastDigits.length - evenCount;
+        const firstCount = sides.filter(side => side === 0).length;
+        const secondCount = sides.length - firstCount;
 
-        // Strong momentum: all same parity
-        if (evenCount === 3) {
-            return {
-                shouldTrade: true,
-                tradeType: 'DIGITEVEN',
-                confidence: 0.8,
-                reason: 'Strong even momentum (3/3)',
-            };
+        // Strong momentum: all same side
+        if (firstCount === 3) {
+            return this.decide(pair, 0, 0.8, `Strong ${pair.labels[0]} momentum (3/3)`);
         }
 
-        if (oddCount === 3) {
-            return {
-                shouldTrade: true,
-                tradeType: 'DIGITODD',
-                confidence: 0.8,
-                reason: 'Strong odd momentum (3/3)',
-            };
+        if (secondCount === 3) {
+            return this.decide(pair, 1, 0.8, `Strong ${pair.labels[1]} momentum (3/3)`);
         }
 
         // Moderate momentum: 2 out of 3
-        if (evenCount === 2) {
-            return {
-                shouldTrade: true,
-                tradeType: 'DIGITEVEN',
-                confidence: 0.6,
-                reason: 'Moderate even momentum (2/3)',
-            };
+        if (firstCount === 2) {
+            return this.decide(pair, 0, 0.6, `Moderate ${pair.labels[0]} momentum (2/3)`);
         }
 
-        if (oddCount === 2) {
-            return {
-                shouldTrade: true,
-                tradeType: 'DIGITODD',
-                confidence: 0.6,
-                reason: 'Moderate odd momentum (2/3)',
-            };
+        if (secondCount === 2) {
+            return this.decide(pair, 1, 0.6, `Moderate ${pair.labels[1]} momentum (2/3)`);
         }
 
         return {
@@ -124,7 +109,10 @@ export class StrategyManager {
      * If there's a streak, expect reversal
      */
     private meanReversionStrategy(tickHistory: number[], settings: TradingSettings): TradeDecision {
-        if (tickHistory.length < 5) {
+        const pair = this.getContractPair(settings);
+        const sides = this.getSides(tickHistory, 5, settings, pair);
+
+        if (sides.length < 5) {
             return {
                 shouldTrade: false,
                 tradeType: settings.tradeType,
@@ -133,46 +121,35 @@ export class StrategyManager {
             };
         }
 
-        const lastDigits = tickHistory.slice(-5).map(tick => tick % 10);
-        const evenCount = lastDigits.filter(d => d % 2 === 0).length;
-        const oddCount = lastDigits.length - evenCount;
+        const firstCount = sides.filter(side => side === 0).length;
+        const secondCount = sides.length - firstCount;
 
         // Strong streak: bet against it
-        if (evenCount >= 4) {
-            return {
-                shouldTrade: true,
-                tradeType: 'DIGITODD',
-                confidence: 0.75,
-                reason: `Even streak detected (${evenCount}/5), expecting reversion`,
-            };
+        if (firstCount >= 4) {
+            return this.decide(
+                pair,
+                1,
+                0.75,
+                `${this.capitalize(pair.labels[0])} streak detected (${firstCount}/5), expecting reversion`
+            );
         }
 
-        if (oddCount >= 4) {
-            return {
-                shouldTrade: true,
-                tradeType: 'DIGITEVEN',
-                confidence: 0.75,
-                reason: `Odd streak detected (${oddCount}/5), expecting reversion`,
-            };
+        if (secondCount >= 4) {
+            return this.decide(
+                pair,
+                0,
+                0.75,
+                `${this.capitalize(pair.labels[1])} streak detected (${secondCount}/5), expecting reversion`
+            );
         }
 
         // Moderate streak
-        if (evenCount === 3) {
-            return {
-                shouldTrade: true,
-                tradeType: 'DIGITODD',
-                confidence: 0.55,
-                reason: 'Moderate even streak, possible reversion',
-            };
+        if (firstCount === 3) {
+            return this.decide(pair, 1, 0.55, `Moderate ${pair.labels[0]} streak, possible reversion`);
         }
 
-        if (oddCount === 3) {
-            return {
-                shouldTrade: true,
-                tradeType: 'DIGITEVEN',
-                confidence: 0.55,
-                reason: 'Moderate odd streak, possible reversion',
-            };
+        if (secondCount === 3) {
+            return this.decide(pair, 0, 0.55, `Moderate ${pair.labels[1]} streak, possible reversion`);
         }
 
         return {
@@ -187,7 +164,10 @@ export class StrategyManager {
      * Pattern Recognition Strategy: Detect repeating patterns
      */
     private patternRecognitionStrategy(tickHistory: number[], settings: TradingSettings): TradeDecision {
-        if (tickHistory.length < 6) {
+        const pair = this.getContractPair(settings);
+        const sides = this.getSides(tickHistory, 6, settings, pair);
+
+        if (sides.length < 6) {
             return {
                 shouldTrade: false,
                 tradeType: settings.tradeType,
@@ -196,35 +176,22 @@ export class StrategyManager {
             };
         }
 
-        const lastDigits = tickHistory.slice(-6).map(tick => tick % 10);
-
         // Check for alternating pattern (EOEOEO or OEOEOE)
-        const isAlternating = this.checkAlternatingPattern(lastDigits);
+        const isAlternating = this.checkAlternatingPattern(sides);
         if (isAlternating) {
-            const lastDigit = lastDigits[lastDigits.length - 1];
-            const nextShouldBeEven = lastDigit % 2 !== 0;
+            const lastSide = sides[sides.length - 1];
 
-            return {
-                shouldTrade: true,
-                tradeType: nextShouldBeEven ? 'DIGITEVEN' : 'DIGITODD',
-                confidence: 0.7,
-                reason: 'Alternating pattern detected',
-            };
+            return this.decide(pair, lastSide === 0 ? 1 : 0, 0.7, 'Alternating pattern detected');
         }
 
         // Check for repeating pairs (EEOOEEO)
-        const hasRepeatingPairs = this.checkRepeatingPairs(lastDigits);
+        const hasRepeatingPairs = this.checkRepeatingPairs(sides);
         if (hasRepeatingPairs) {
-            const lastTwoSame = lastDigits[lastDigits.length - 1] % 2 === lastDigits[lastDigits.length - 2] % 2;
-            const lastParity = lastDigits[lastDigits.length - 1] % 2;
+            const lastTwoSame = sides[sides.length - 1] === sides[sides.length - 2];
+            const lastSide = sides[sides.length - 1];
 
             if (lastTwoSame) {
-                return {
-                    shouldTrade: true,
-                    tradeType: lastParity === 0 ? 'DIGITODD' : 'DIGITEVEN',
-                    confidence: 0.65,
-                    reason: 'Repeating pairs pattern, expecting switch',
-                };
+                return this.decide(pair, lastSide === 0 ? 1 : 0, 0.65, 'Repeating pairs pattern, expecting switch');
             }
         }
 
@@ -239,20 +206,81 @@ export class StrategyManager {
     /**
      * Random Strategy: For testing purposes
      */
-    private randomStrategy(): TradeDecision {
+    private randomStrategy(settings: TradingSettings): TradeDecision {
         const shouldTrade = Math.random() > 0.3; // 70% chance to trade
-        const tradeType = Math.random() > 0.5 ? 'DIGITEVEN' : 'DIGITODD';
+        const pair = this.getContractPair(settings);
 
         return {
+            ...this.decide(pair, Math.random() > 0.5 ? 0 : 1, 0.5, 'Random selection'),
             shouldTrade,
-            tradeType,
-            confidence: 0.5,
-            reason: 'Random selection',
         };
     }
 
     /**
-     * Check if digits follow an alternating pattern
+     * Resolve the contract pair a strategy trades from the configured trade type
+     */
+    private getContractPair(settings: TradingSettings): ContractPair {
+        const barrier = settings.barrier ?? DEFAULT_BARRIER;
+
+        switch (settings.tradeType) {
+            case 'DIGITOVER':
+            case 'DIGITUNDER':
+                return { contracts: ['DIGITOVER', 'DIGITUNDER'], labels: [`over ${barrier}`, 'under'], barrier };
+            case 'DIGITMATCH':
+            case 'DIGITDIFF':
+                return { contracts: ['DIGITMATCH', 'DIGITDIFF'], labels: [`match ${barrier}`, 'differ'], barrier };
+            case 'CALL':
+            case 'PUT':
+                return { contracts: ['CALL', 'PUT'], labels: ['rise', 'fall'] };
+            default:
+                return { contracts: ['DIGITEVEN', 'DIGITODD'], labels: ['even', 'odd'] };
+        }
+    }
+
+    /**
+     * Classify the last `count` ticks into sides of the contract pair
+     */
+    private getSides(tickHistory: number[], count: number, settings: TradingSettings, pair: ContractPair): number[] {
+        const [firstContract] = pair.contracts;
+
+        if (firstContract === 'CALL') {
+            // Rise/Fall reads tick-to-tick movement, so it needs one extra quote
+            const quotes = tickHistory.slice(-(count + 1));
+            return quotes.slice(1).map((quote, i) => (quote > quotes[i] ? 0 : 1));
+        }
+
+        const lastDigits = this.getLastDigits(tickHistory.slice(-count), settings.market);
+        return lastDigits.map(digit => {
+            switch (firstContract) {
+                case 'DIGITOVER':
+                    return digit > (pair.barrier as number) ? 0 : 1;
+                case 'DIGITMATCH':
+                    return digit === pair.barrier ? 0 : 1;
+                default:
+                    return digit % 2;
+            }
+        });
+    }
+
+    /**
+     * Build a trade decision for one side of the contract pair
+     */
+    private decide(pair: ContractPair, side: 0 | 1, confidence: number, reason: string): TradeDecision {
+        return {
+            shouldTrade: true,
+            tradeType: pair.contracts[side],
+            confidence,
+            reason,
+            barrier: pair.barrier,
+        };
+    }
+
+    private capitalize(label: string): string {
+        return label.charAt(0).toUpperCase() + label.slice(1);
+    }
+
+    /**
+     * Check if sides follow an alternating pattern
      */
     private checkAlternatingPattern(digits: number[]): boolean {
         for (let i = 1; i < digits.length; i++) {
@@ -267,7 +295,14 @@ export class StrategyManager {
     }
 
     /**
-     * Check if digits have repeating pairs
+     * Convert quotes to contract last digits using the market's pip size
+     */
+    private getLastDigits(quotes: number[], market: string): number[] {
+        return quotes.map(quote => symbolMetadataService.getLastDigit(quote, market));
+    }
+
+    /**
+     * Check if sides have repeating pairs
      */
     private checkRepeatingPairs(digits: number[]): boolean {
         let pairCount = 0;
@@ -287,114 +322,16 @@ export class StrategyManager {
 
     /**
      * Backtest a strategy on historical data
+     * Contracts settle at the configured duration with payout ratios for their type and barrier
      */
-    backtest(strategy: Strategy, historicalData: TickData[], settings: TradingSettings): BacktestResult {
-        let wins = 0;
-        let losses = 0;
-        let totalProfit = 0;
-        const profits: number[] = [];
-
-        // Need at least 10 ticks for meaningful backtest
-        if (historicalData.length < 10) {
-            return {
-                totalTrades: 0,
-                wins: 0,
-                losses: 0,
-                winRate: 0,
-                totalProfit: 0,
-                maxDrawdown: 0,
-                sharpeRatio: 0,
-            };
-        }
-
-        // Simulate trades
-        for (let i = 5; i < historicalData.length - 1; i++) {
-            const tickHistory = historicalData.slice(0, i).map(t => t.quote);
-            const decision = this.executeStrategy(strategy, tickHistory, settings);
-
-            if (decision.shouldTrade) {
-                const nextTick = historicalData[i + 1];
-                const nextDigit = Math.floor(nextTick.quote) % 10;
-                const isEven = nextDigit % 2 === 0;
-
-                const predictedEven = decision.tradeType === 'DIGITEVEN';
-                const isWin = predictedEven === isEven;
-
-                if (isWin) {
-                    wins++;
-                    const profit = settings.stake * 0.95; // 95% payout
-                    totalProfit += profit;
-                    profits.push(profit);
-                } else {
-                    losses++;
-                    totalProfit -= settings.stake;
-                    profits.push(-settings.stake);
-                }
-            }
-        }
-
-        const totalTrades = wins + losses;
-        const winRate = totalTrades > 0 ? (wins / totalTrades) * 100 : 0;
-        const maxDrawdown = this.calculateMaxDrawdown(profits);
-        const sharpeRatio = this.calculateSharpeRatio(profits);
-
-        return {
-            totalTrades,
-            wins,
-            losses,
-            winRate,
-            totalProfit,
-            maxDrawdown,
-            sharpeRatio,
-        };
-    }
-
-    /**
-     * Calculate maximum drawdown
-     */
-    private calculateMaxDrawdown(profits: number[]): number {
-        if (profits.length === 0) {
-            return 0;
-        }
-
-        let peak = 0;
-        let maxDrawdown = 0;
-        let runningTotal = 0;
-
-        for (const profit of profits) {
-            runningTotal += profit;
-
-            if (runningTotal > peak) {
-                peak = runningTotal;
-            }
-
-            const drawdown = peak - runningTotal;
-            if (drawdown > maxDrawdown) {
-                maxDrawdown = drawdown;
-            }
-        }
-
-        return maxDrawdown;
-    }
-
-    /**
-     * Calculate Sharpe Ratio (risk-adjusted return)
-     */
-    private calculateSharpeRatio(profits: number[]): number {
-        if (profits.length === 0) {
-            return 0;
-        }
-
-        const mean = profits.reduce((sum, p) => sum + p, 0) / profits.length;
-        const variance = profits.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / profits.length;
-        const stdDev = Math.sqrt(variance);
-
-        if (stdDev === 0) {
-            return 0;
-        }
-
-        // Annualized Sharpe Ratio (assuming 252 trading days)
-        return (mean / stdDev) * Math.sqrt(252);
+    backtest(
+        strategy: Strategy,
+        historicalData: TickData[],
+        settings: TradingSettings,
+        options: BacktestOptions = {}
+    ): BacktestResult {
+        const backtester = new Backtester(tickHistory => this.executeStrategy(strategy, tickHistory, settings));
+        return backtester.run(historicalData, settings, options);
     }
 
     /**
@@ -403,7 +340,7 @@ export class StrategyManager {
     getStrategyDescription(strategy: Strategy): string {
         switch (strategy) {
             case 'momentum':
-                return 'Follow the trend: If last 3 digits are mostly even/odd, continue the pattern';
+                return 'Follow the trend: If last 3 ticks mostly land on one side (e.g. even/odd), continue the pattern';
             case 'mean-reversion':
                 return "Bet against streaks: If there's a long streak, expect reversal";
             case 'pattern':
@@ -0,0 +1,1077 @@
+/**
+ * Fake Deriv Server
+ * In-process stand-in for the Deriv WebSocket API so trading services can be tested end to end
+ * without a network. Once installed it replaces the global WebSocket: every socket opened afterwards
+ * talks to this server.
+ *
+ * Ticks only move when a test pushes them; open contracts settle on those ticks with the same rules
+ * as the Fast Lane backtester, and accumulators (ACCU) grow per tick until sold or knocked out.
+ * Every account keeps its own statement and profit table of the contracts bought on it.
+ * Disconnects, refused connections and API errors (e.g. rate limits) can be injected at any point.
+ */
+
+import { getExitTickOffset, getPayoutRatio, isWinningContract, needsDigitBarrier } from '../fast-lane/backtester';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+export type TFakeRequest = Record<string, any>;
+export type TFakeResponse = Record<string, any>;
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export type TFakeDerivError = {
+    code: string;
+    message: string;
+};
+
+export type TFakeAccount = {
+    token: string;
+    loginid: string;
+    currency: string;
+    balance: number;
+};
+
+export type TFakeTick = {
+    symbol: string;
+    epoch: number;
+    quote: number;
+};
+
+export type TFakeContract = {
+    contract_id: number;
+    buy_transaction_id: number;
+    sell_transaction_id?: number;
+    loginid: string;
+    symbol: string;
+    contract_type: string;
+    barrier?: string;
+    duration: number;
+    growth_rate?: number;
+    tick_size_barrier?: number;
+    buy_price: number;
+    payout: number;
+    purchase_time: number;
+    entry_spot?: number;
+    entry_tick_time?: number;
+    exit_spot?: number;
+    exit_tick_time?: number;
+    current_spot?: number;
+    current_spot_time?: number;
+    ticks_after_entry: number;
+    status: 'open' | 'won' | 'lost';
+    sell_price?: number;
+    profit: number;
+};
+
+/** Answers one request; returns the response body (e.g. `{ statement: {...} }`) or `{ error }` */
+export type TFakeHandler = (request: TFakeRequest, account: TFakeAccount | null) => TFakeResponse;
+
+export type FakeDerivServerOptions = {
+    pipSize?: number;
+    houseEdge?: number;
+    startEpoch?: number;
+    // Accumulator barrier distance (fraction of the spot) per growth rate (0.01 - 0.05)
+    tickSizeBarriers?: Record<number, number>;
+};
+
+type TSubscriptionType = 'ticks' | 'proposal' | 'balance' | 'proposal_open_contract';
+
+type TSubscription = {
+    id: string;
+    type: TSubscriptionType;
+    request: TFakeRequest;
+};
+
+type TSession = {
+    account: TFakeAccount | null;
+    subscriptions: Map<string, TSubscription>;
+};
+
+type TListener = (event: TFakeSocketEvent) => void;
+
+type TFakeSocketEvent = {
+    type: string;
+    target: FakeDerivSocket;
+    data?: string;
+    code?: number;
+    reason?: string;
+    wasClean?: boolean;
+};
+
+const BUILT_IN_TYPES = [
+    'authorize',
+    'ticks',
+    'ticks_history',
+    'proposal',
+    'buy',
+    'sell',
+    'proposal_open_contract',
+    'balance',
+    'portfolio',
+    'statement',
+    'profit_table',
+    'forget',
+    'forget_all',
+    'ping',
+];
+const AUTHORIZED_TYPES = ['buy', 'sell', 'balance', 'portfolio', 'statement', 'profit_table', 'proposal_open_contract'];
+const RESPONSE_TYPES: Record<string, string> = { ticks: 'tick', ticks_history: 'history' };
+const FLUSH_IDLE_TURNS = 20;
+const TICK_SIZE_BARRIERS: Record<number, number> = {
+    0.01: 0.000625,
+    0.02: 0.000459,
+    0.03: 0.000381,
+    0.04: 0.000333,
+    0.05: 0.000298,
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Client side of a fake connection, API compatible with the parts of the browser WebSocket the app uses
+ */
+export class FakeDerivSocket {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSING = 2;
+    static readonly CLOSED = 3;
+
+    readonly CONNECTING = 0;
+    readonly OPEN = 1;
+    readonly CLOSING = 2;
+    readonly CLOSED = 3;
+
+    readonly url: string;
+    readyState = FakeDerivSocket.CONNECTING;
+    protocol = '';
+    binaryType = 'blob';
+    bufferedAmount = 0;
+    extensions = '';
+
+    onopen: TListener | null = null;
+    onmessage: TListener | null = null;
+    onclose: TListener | null = null;
+    onerror: TListener | null = null;
+
+    private listeners = new Map<string, Set<TListener>>();
+    private server: FakeDerivServer;
+
+    constructor(url: string, server: FakeDerivServer) {
+        this.url = url;
+        this.server = server;
+        server.accept(this);
+    }
+
+    send(data: string): void {
+        if (this.readyState !== FakeDerivSocket.OPEN) {
+            throw new Error('WebSocket is not open');
+        }
+        this.server.receive(this, data);
+    }
+
+    close(code = 1000, reason = ''): void {
+        if (this.readyState === FakeDerivSocket.CLOSING || this.readyState === FakeDerivSocket.CLOSED) return;
+
+        this.readyState = FakeDerivSocket.CLOSING;
+        this.server.drop(this);
+        Promise.resolve().then(() => this.terminate(code, reason, true));
+    }
+
+    addEventListener(type: string, listener: TListener): void {
+        if (!this.listeners.has(type)) {
+            this.listeners.set(type, new Set());
+        }
+        this.listeners.get(type)!.add(listener);
+    }
+
+    removeEventListener(type: string, listener: TListener): void {
+        this.listeners.get(type)?.delete(listener);
+    }
+
+    /** Server side hooks */
+
+    open(): void {
+        if (this.readyState !== FakeDerivSocket.CONNECTING) return;
+        this.readyState = FakeDerivSocket.OPEN;
+        this.dispatch({ type: 'open', target: this });
+    }
+
+    deliver(data: string): void {
+        if (this.readyState !== FakeDerivSocket.OPEN) return;
+        this.dispatch({ type: 'message', target: this, data });
+    }
+
+    fail(): void {
+        this.dispatch({ type: 'error', target: this });
+        this.terminate(1006, 'Connection refused', false);
+    }
+
+    terminate(code: number, reason: string, wasClean: boolean): void {
+        if (this.readyState === FakeDerivSocket.CLOSED) return;
+        this.readyState = FakeDerivSocket.CLOSED;
+        this.dispatch({ type: 'close', target: this, code, reason, wasClean });
+    }
+
+    /** Private helpers */
+
+    private dispatch(event: TFakeSocketEvent): void {
+        const handler = this[`on${event.type}` as 'onopen' | 'onmessage' | 'onclose' | 'onerror'];
+        handler?.call(this, event);
+        this.listeners.get(event.type)?.forEach(listener => listener.call(this, event));
+    }
+}
+
+/**
+ * WebSocket constructor whose sockets connect to the given server
+ */
+const createSocketClass = (server: FakeDerivServer) =>
+    class extends FakeDerivSocket {
+        constructor(url: string) {
+            super(url, server);
+        }
+    };
+
+export class FakeDerivServer {
+    private options: Required<FakeDerivServerOptions>;
+    private accounts = new Map<string, TFakeAccount>();
+    private scripts = new Map<string, number[]>();
+    private ticks = new Map<string, TFakeTick[]>();
+    private sessions = new Map<FakeDerivSocket, TSession>();
+    private contracts = new Map<number, TFakeContract>();
+    private proposals = new Map<string, TFakeRequest>();
+    private failures = new Map<string, TFakeDerivError[]>();
+    private handlers = new Map<string, TFakeHandler>();
+    private requests: TFakeRequest[] = [];
+    private refusedConnections = 0;
+    private pendingDeliveries = 0;
+    private nextId = 1;
+    private originalWebSocket: typeof WebSocket | undefined;
+
+    constructor(options: FakeDerivServerOptions = {}) {
+        this.options = {
+            pipSize: options.pipSize ?? 2,
+            houseEdge: options.houseEdge ?? 0.025,
+            startEpoch: options.startEpoch ?? 1_700_000_000,
+            tickSizeBarriers: options.tickSizeBarriers ?? TICK_SIZE_BARRIERS,
+        };
+    }
+
+    /**
+     * Replace the global WebSocket so every new socket connects to this server
+     */
+    install(): void {
+        if (this.originalWebSocket) return;
+
+        this.originalWebSocket = globalThis.WebSocket;
+        globalThis.WebSocket = createSocketClass(this) as unknown as typeof WebSocket;
+    }
+
+    /**
+     * Restore the real WebSocket and close every open connection
+     */
+    uninstall(): void {
+        Array.from(this.sessions.keys()).forEach(socket => this.drop(socket));
+        if (!this.originalWebSocket) return;
+
+        globalThis.WebSocket = this.originalWebSocket;
+        this.originalWebSocket = undefined;
+    }
+
+    /**
+     * Register an account that can be authorized with the given token
+     */
+    addAccount(token: string, account: Partial<Omit<TFakeAccount, 'token'>> = {}): TFakeAccount {
+        const created: TFakeAccount = {
+            token,
+            loginid: account.loginid ?? `VRTC${1000000 + this.accounts.size + 1}`,
+            currency: account.currency ?? 'USD',
+            balance: account.balance ?? 10000,
+        };
+        this.accounts.set(token, created);
+        return created;
+    }
+
+    getAccount(token: string): TFakeAccount | undefined {
+        return this.accounts.get(token);
+    }
+
+    /**
+     * Queue quotes that pushTick / runTicks will emit for a symbol
+     */
+    scriptTicks(symbol: string, quotes: number[]): void {
+        this.scripts.set(symbol, [...(this.scripts.get(symbol) ?? []), ...quotes]);
+    }
+
+    /**
+     * Emit one tick (the given quote or the next scripted one), settling contracts on it
+     */
+    pushTick(symbol: string, quote?: number): TFakeTick | null {
+        const next = quote ?? this.scripts.get(symbol)?.shift();
+        if (next === undefined) return null;
+
+        const history = this.ticks.get(symbol) ?? [];
+        const epoch = (history[history.length - 1]?.epoch ?? this.options.startEpoch) + 1;
+        const tick: TFakeTick = { symbol, epoch, quote: next };
+        history.push(tick);
+        this.ticks.set(symbol, history);
+
+        this.publishTick(tick);
+        this.updateContracts(tick);
+        return tick;
+    }
+
+    /**
+     * Emit the scripted ticks of a symbol (all of them by default); returns how many were emitted
+     */
+    runTicks(symbol: string, count = Infinity): number {
+        let emitted = 0;
+        while (emitted < count && this.pushTick(symbol)) {
+            emitted++;
+        }
+        return emitted;
+    }
+
+    /**
+     * Drop every open connection as if the network went away
+     */
+    disconnect(code = 1006, reason = 'Connection lost'): void {
+        Array.from(this.sessions.keys()).forEach(socket => {
+            this.drop(socket);
+            this.deliverLater(() => socket.terminate(code, reason, false));
+        });
+    }
+
+    /**
+     * Fail the next connection attempts with an error and a close
+     */
+    refuseConnections(count = 1): void {
+        this.refusedConnections += count;
+    }
+
+    /**
+     * Answer the next requests of a type with an error instead of a response
+     */
+    failNext(msgType: string, error: TFakeDerivError, count = 1): void {
+        const queued = this.failures.get(msgType) ?? [];
+        for (let i = 0; i < count; i++) {
+            queued.push(error);
+        }
+        this.failures.set(msgType, queued);
+    }
+
+    /**
+     * Answer the next requests of a type with Deriv's rate limit error
+     */
+    rateLimit(msgType: string, count = 1): void {
+        this.failNext(
+            msgType,
+            { code: 'RateLimit', message: `You have reached the rate limit for ${msgType}.` },
+            count
+        );
+    }
+
+    /**
+     * Script the answer to a request type; overrides the built-in behaviour
+     */
+    on(msgType: string, handler: TFakeHandler): void {
+        this.handlers.set(msgType, handler);
+    }
+
+    /**
+     * Requests received so far, optionally only those of one type
+     */
+    getRequests(msgType?: string): TFakeRequest[] {
+        return msgType ? this.requests.filter(request => msgType in request) : [...this.requests];
+    }
+
+    getContract(contractId: number | string): TFakeContract | undefined {
+        return this.contracts.get(Number(contractId));
+    }
+
+    getContracts(): TFakeContract[] {
+        return Array.from(this.contracts.values());
+    }
+
+    getConnectionCount(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Wait until every queued message is delivered and the clients stopped reacting to them
+     */
+    async flush(): Promise<void> {
+        let idleTurns = 0;
+        while (idleTurns < FLUSH_IDLE_TURNS) {
+            await Promise.resolve();
+            idleTurns = this.pendingDeliveries > 0 ? 0 : idleTurns + 1;
+        }
+    }
+
+    /** Socket hooks */
+
+    accept(socket: FakeDerivSocket): void {
+        if (this.refusedConnections > 0) {
+            this.refusedConnections--;
+            this.deliverLater(() => socket.fail());
+            return;
+        }
+
+        this.sessions.set(socket, { account: null, subscriptions: new Map() });
+        this.deliverLater(() => socket.open());
+    }
+
+    receive(socket: FakeDerivSocket, raw: string): void {
+        const session = this.sessions.get(socket);
+        if (!session) return;
+
+        const request: TFakeRequest = JSON.parse(raw);
+        this.requests.push(request);
+
+        const msgType = this.getRequestType(request);
+        const response = this.respond(msgType, request, session);
+        this.send(socket, request, RESPONSE_TYPES[msgType] ?? msgType, response);
+    }
+
+    drop(socket: FakeDerivSocket): void {
+        this.sessions.delete(socket);
+    }
+
+    /** Private helpers */
+
+    private respond(msgType: string, request: TFakeRequest, session: TSession): TFakeResponse {
+        const failure = this.failures.get(msgType)?.shift();
+        if (failure) return { error: failure };
+
+        const handler = this.handlers.get(msgType);
+        if (handler) return handler(request, session.account);
+
+        if (!BUILT_IN_TYPES.includes(msgType)) {
+            return { error: { code: 'UnrecognisedRequest', message: 'Unrecognised request.' } };
+        }
+        if (AUTHORIZED_TYPES.includes(msgType) && !session.account) {
+            return { error: { code: 'AuthorizationRequired', message: 'Please log in.' } };
+        }
+
+        switch (msgType) {
+            case 'authorize':
+                return this.authorize(request, session);
+            case 'ticks':
+                return this.subscribeTicks(request, session);
+            case 'ticks_history':
+                return this.getTicksHistory(request, session);
+            case 'proposal':
+                return this.getProposal(request, session);
+            case 'buy':
+                return this.buy(request, session);
+            case 'sell':
+                return this.sell(request, session);
+            case 'proposal_open_contract':
+                return this.getOpenContract(request, session);
+            case 'balance':
+                return this.getBalance(request, session);
+            case 'portfolio':
+                return this.getPortfolio(session);
+            case 'statement':
+                return this.getStatement(request, session);
+            case 'profit_table':
+                return this.getProfitTable(request, session);
+            case 'forget':
+                return { forget: session.subscriptions.delete(request.forget) ? 1 : 0 };
+            case 'forget_all':
+                return this.forgetAll(request, session);
+            default:
+                return { ping: 'pong' };
+        }
+    }
+
+    private authorize(request: TFakeRequest, session: TSession): TFakeResponse {
+        const account = this.accounts.get(request.authorize);
+        if (!account) {
+            return { error: { code: 'InvalidToken', message: 'The token is invalid.' } };
+        }
+
+        session.account = account;
+        return {
+            authorize: {
+                loginid: account.loginid,
+                balance: account.balance,
+                currency: account.currency,
+                email: `${account.loginid.toLowerCase()}@example.com`,
+                is_virtual: account.loginid.startsWith('VR') ? 1 : 0,
+                scopes: ['read', 'trade'],
+            },
+        };
+    }
+
+    private subscribeTicks(request: TFakeRequest, session: TSession): TFakeResponse {
+        const symbol = request.ticks;
+        const latest = this.ticks.get(symbol)?.slice(-1)[0];
+        const response: TFakeResponse = latest ? { tick: this.toTickBody(latest) } : {};
+
+        if (request.subscribe) {
+            const subscription = this.subscribe(session, 'ticks', request);
+            if (!subscription) {
+                return { error: { code: 'AlreadySubscribed', message: `You are already subscribed to ${symbol}.` } };
+            }
+            response.subscription = { id: subscription.id };
+        }
+        return response;
+    }
+
+    private getTicksHistory(request: TFakeRequest, session: TSession): TFakeResponse {
+        if (request.style && request.style !== 'ticks') {
+            return { error: { code: 'InputValidationFailed', message: 'Only tick history is available.' } };
+        }
+
+        const history = (this.ticks.get(request.ticks_history) ?? []).slice(-(request.count ?? 5000));
+        const response: TFakeResponse = {
+            history: { prices: history.map(tick => tick.quote), times: history.map(tick => tick.epoch) },
+            pip_size: this.options.pipSize,
+        };
+
+        if (request.subscribe) {
+            const subscription = this.subscribe(session, 'ticks', { ...request, ticks: request.ticks_history });
+            if (!subscription) {
+                return {
+                    error: {
+                        code: 'AlreadySubscribed',
+                        message: `You are already subscribed to ${request.ticks_history}.`,
+                    },
+                };
+            }
+            response.subscription = { id: subscription.id };
+        }
+        return response;
+    }
+
+    private getProposal(request: TFakeRequest, session: TSession): TFakeResponse {
+        const error = this.validateContract(request);
+        if (error) return { error };
+
+        const response: TFakeResponse = { proposal: this.createProposal(request) };
+        if (request.subscribe) {
+            response.subscription = { id: this.subscribe(session, 'proposal', request)!.id };
+        }
+        return response;
+    }
+
+    private buy(request: TFakeRequest, session: TSession): TFakeResponse {
+        const account = session.account!;
+        const parameters =
+            request.buy === 1 || request.buy === '1' ? request.parameters : this.proposals.get(request.buy);
+        if (!parameters) {
+            return { error: { code: 'InvalidContractProposal', message: 'Unknown contract proposal.' } };
+        }
+
+        const error = this.validateContract(parameters);
+        if (error) return { error };
+
+        const { ask_price, payout } = this.getPrices(parameters);
+        if (request.price !== undefined && ask_price > Number(request.price)) {
+            return {
+                error: { code: 'ContractBuyValidationError', message: "The contract's price has changed." },
+            };
+        }
+        if (ask_price > account.balance) {
+            return {
+                error: {
+                    code: 'InsufficientBalance',
+                    message: `Your account balance (${account.balance.toFixed(2)} ${account.currency}) is insufficient to buy this contract (${ask_price.toFixed(2)} ${account.currency}).`,
+                },
+            };
+        }
+
+        this.proposals.delete(request.buy);
+        const symbol = parameters.symbol ?? parameters.underlying_symbol;
+        const contract: TFakeContract = {
+            contract_id: this.nextId++,
+            buy_transaction_id: this.nextId++,
+            loginid: account.loginid,
+            symbol,
+            contract_type: parameters.contract_type,
+            barrier: parameters.barrier === undefined ? undefined : String(parameters.barrier),
+            duration: Number(parameters.duration ?? 0),
+            growth_rate: parameters.growth_rate === undefined ? undefined : Number(parameters.growth_rate),
+            tick_size_barrier: this.getTickSizeBarrier(parameters),
+            buy_price: ask_price,
+            payout,
+            purchase_time: this.getEpoch(symbol),
+            ticks_after_entry: 0,
+            status: 'open',
+            profit: 0,
+        };
+        this.contracts.set(contract.contract_id, contract);
+        account.balance = roundMoney(account.balance - ask_price);
+        this.publishBalance(account);
+
+        const response: TFakeResponse = {
+            buy: {
+                balance_after: account.balance,
+                buy_price: contract.buy_price,
+                contract_id: contract.contract_id,
+                longcode: this.getLongcode(contract),
+                payout: contract.payout,
+                purchase_time: contract.purchase_time,
+                shortcode: this.getShortcode(contract),
+                start_time: contract.purchase_time,
+                transaction_id: contract.buy_transaction_id,
+            },
+        };
+        if (request.subscribe) {
+            const subscription = this.subscribe(session, 'proposal_open_contract', {
+                proposal_open_contract: 1,
+                contract_id: contract.contract_id,
+            });
+            response.subscription = { id: subscription!.id };
+        }
+        return response;
+    }
+
+    private sell(request: TFakeRequest, session: TSession): TFakeResponse {
+        const account = session.account!;
+        const contract = this.contracts.get(Number(request.sell));
+        if (!contract || contract.loginid !== account.loginid) {
+            return { error: { code: 'InvalidSellContractProposal', message: 'Unknown contract.' } };
+        }
+        if (contract.status !== 'open') {
+            return { error: { code: 'InvalidSellContractProposal', message: 'This contract has been sold.' } };
+        }
+        if (contract.contract_type !== 'ACCU' || contract.entry_spot === undefined) {
+            return {
+                error: { code: 'InvalidSellContractProposal', message: 'Resale of this contract is not offered.' },
+            };
+        }
+
+        const value = this.getAccumulatorValue(contract);
+        contract.exit_spot = contract.current_spot;
+        contract.exit_tick_time = contract.current_spot_time;
+        contract.sell_price = value;
+        contract.profit = roundMoney(value - contract.buy_price);
+        contract.status = contract.profit > 0 ? 'won' : 'lost';
+        contract.sell_transaction_id = this.nextId++;
+
+        account.balance = roundMoney(account.balance + value);
+        this.publishBalance(account);
+        this.publishContract(contract);
+
+        return {
+            sell: {
+                balance_after: account.balance,
+                contract_id: contract.contract_id,
+                reference_id: contract.buy_transaction_id,
+                sold_for: value,
+                transaction_id: contract.sell_transaction_id,
+            },
+        };
+    }
+
+    private getOpenContract(request: TFakeRequest, session: TSession): TFakeResponse {
+        const contract = request.contract_id ? this.contracts.get(Number(request.contract_id)) : undefined;
+        const owned = contract && contract.loginid === session.account!.loginid ? contract : undefined;
+        const response: TFakeResponse = { proposal_open_contract: owned ? this.toContractBody(owned) : {} };
+
+        if (request.subscribe) {
+            response.subscription = { id: this.subscribe(session, 'proposal_open_contract', request)!.id };
+        }
+        return response;
+    }
+
+    private getBalance(request: TFakeRequest, session: TSession): TFakeResponse {
+        const response: TFakeResponse = { balance: this.toBalanceBody(session.account!) };
+        if (request.subscribe) {
+            const subscription = this.subscribe(session, 'balance', request);
+            if (!subscription) {
+                return { error: { code: 'AlreadySubscribed', message: 'You are already subscribed to balance.' } };
+            }
+            response.subscription = { id: subscription.id };
+        }
+        return response;
+    }
+
+    private getPortfolio(session: TSession): TFakeResponse {
+        const contracts = this.getContracts()
+            .filter(contract => contract.loginid === session.account!.loginid && contract.status === 'open')
+            .map(contract => ({
+                buy_price: contract.buy_price,
+                contract_id: contract.contract_id,
+                contract_type: contract.contract_type,
+                currency: session.account!.currency,
+                longcode: this.getLongcode(contract),
+                payout: contract.payout,
+                purchase_time: contract.purchase_time,
+                shortcode: this.getShortcode(contract),
+                symbol: contract.symbol,
+                transaction_id: contract.buy_transaction_id,
+            }));
+        return { portfolio: { contracts } };
+    }
+
+    private getStatement(request: TFakeRequest, session: TSession): TFakeResponse {
+        const account = session.account!;
+        const dateFrom = Number(request.date_from ?? 0);
+        const transactions = this.getContracts()
+            .filter(contract => contract.loginid === account.loginid)
+            .flatMap(contract => {
+                const buy = {
+                    action_type: 'buy',
+                    amount: -contract.buy_price,
+                    contract_id: contract.contract_id,
+                    shortcode: this.getShortcode(contract),
+                    transaction_id: contract.buy_transaction_id,
+                    transaction_time: contract.purchase_time,
+                    ...(request.description && { longcode: this.getLongcode(contract) }),
+                };
+                if (contract.status === 'open') return [buy];
+
+                const sell = {
+                    ...buy,
+                    action_type: 'sell',
+                    amount: contract.sell_price ?? 0,
+                    transaction_id: contract.sell_transaction_id,
+                    transaction_time: contract.exit_tick_time ?? contract.purchase_time,
+                };
+                return [buy, sell];
+            })
+            .filter(transaction => !request.action_type || transaction.action_type === request.action_type)
+            .filter(transaction => transaction.transaction_time >= dateFrom)
+            .sort((a, b) => b.transaction_time - a.transaction_time)
+            .slice(0, Number(request.limit ?? 100));
+
+        return { statement: { count: transactions.length, transactions } };
+    }
+
+    private getProfitTable(request: TFakeRequest, session: TSession): TFakeResponse {
+        const account = session.account!;
+        const dateFrom = Number(request.date_from ?? 0);
+        const transactions = this.getContracts()
+            .filter(contract => contract.loginid === account.loginid && contract.status !== 'open')
+            .filter(contract => contract.purchase_time >= dateFrom)
+            .map(contract => ({
+                buy_price: contract.buy_price,
+                contract_id: contract.contract_id,
+                contract_type: contract.contract_type,
+                payout: contract.payout,
+                purchase_time: contract.purchase_time,
+                sell_price: contract.sell_price ?? 0,
+                sell_time: contract.exit_tick_time ?? contract.purchase_time,
+                shortcode: this.getShortcode(contract),
+                transaction_id: contract.buy_transaction_id,
+                ...(request.description && { longcode: this.getLongcode(contract) }),
+            }))
+            .sort((a, b) => (request.sort === 'ASC' ? 1 : -1) * (a.purchase_time - b.purchase_time))
+            .slice(0, Number(request.limit ?? 50));
+
+        return { profit_table: { count: transactions.length, transactions } };
+    }
+
+    private forgetAll(request: TFakeRequest, session: TSession): TFakeResponse {
+        const types: string[] = Array.isArray(request.forget_all) ? request.forget_all : [request.forget_all];
+        const forgotten = Array.from(session.subscriptions.values())
+            .filter(subscription => types.includes(subscription.type))
+            .map(subscription => subscription.id);
+
+        forgotten.forEach(id => session.subscriptions.delete(id));
+        return { forget_all: forgotten };
+    }
+
+    private subscribe(session: TSession, type: TSubscriptionType, request: TFakeRequest): TSubscription | null {
+        const duplicate = Array.from(session.subscriptions.values()).some(
+            subscription =>
+                subscription.type === type &&
+                ((type === 'ticks' && subscription.request.ticks === request.ticks) || type === 'balance')
+        );
+        if (duplicate) return null;
+
+        const subscription: TSubscription = { id: this.createSubscriptionId(), type, request };
+        session.subscriptions.set(subscription.id, subscription);
+        return subscription;
+    }
+
+    private publishTick(tick: TFakeTick): void {
+        this.forEachSubscription((socket, subscription) => {
+            if (subscription.request.ticks !== tick.symbol) return;
+
+            if (subscription.type === 'ticks') {
+                this.send(socket, subscription.request, 'tick', {
+                    tick: this.toTickBody(tick),
+                    subscription: { id: subscription.id },
+                });
+            }
+        });
+
+        this.forEachSubscription((socket, subscription) => {
+            if (subscription.type !== 'proposal' || subscription.request.symbol !== tick.symbol) return;
+
+            this.send(socket, subscription.request, 'proposal', {
+                proposal: this.createProposal(subscription.request),
+                subscription: { id: subscription.id },
+            });
+        });
+    }
+
+    private updateContracts(tick: TFakeTick): void {
+        const updated = this.getContracts().filter(
+            contract => contract.status === 'open' && contract.symbol === tick.symbol
+        );
+
+        updated.forEach(contract => {
+            const previousSpot = contract.current_spot;
+            if (contract.entry_spot === undefined) {
+                contract.entry_spot = tick.quote;
+                contract.entry_tick_time = tick.epoch;
+            } else {
+                contract.ticks_after_entry++;
+            }
+            contract.current_spot = tick.quote;
+            contract.current_spot_time = tick.epoch;
+
+            if (contract.contract_type === 'ACCU') {
+                // Knocked out when the tick touches the barriers set around the previous one
+                const distance = previousSpot === undefined ? 0 : previousSpot * contract.tick_size_barrier!;
+                if (previousSpot !== undefined && Math.abs(tick.quote - previousSpot) >= distance) {
+                    this.settle(contract, tick);
+                }
+            } else if (contract.ticks_after_entry >= getExitTickOffset(contract.contract_type, contract.duration)) {
+                this.settle(contract, tick);
+            }
+        });
+
+        updated.forEach(contract => this.publishContract(contract));
+    }
+
+    private settle(contract: TFakeContract, tick: TFakeTick): void {
+        const exitDigit = Number(tick.quote.toFixed(this.options.pipSize).slice(-1));
+        const barrier = contract.barrier === undefined ? undefined : Number(contract.barrier);
+        const isWin =
+            contract.contract_type !== 'ACCU' &&
+            isWinningContract(contract.contract_type, barrier, contract.entry_spot!, tick.quote, exitDigit);
+
+        contract.exit_spot = tick.quote;
+        contract.exit_tick_time = tick.epoch;
+        contract.status = isWin ? 'won' : 'lost';
+        contract.sell_price = isWin ? contract.payout : 0;
+        contract.profit = roundMoney(contract.sell_price - contract.buy_price);
+        contract.sell_transaction_id = this.nextId++;
+
+        const account = Array.from(this.accounts.values()).find(item => item.loginid === contract.loginid);
+        if (account && contract.sell_price > 0) {
+            account.balance = roundMoney(account.balance + contract.sell_price);
+            this.publishBalance(account);
+        }
+    }
+
+    private publishContract(contract: TFakeContract): void {
+        this.forEachSubscription((socket, subscription, session) => {
+            if (subscription.type !== 'proposal_open_contract') return;
+            if (session.account?.loginid !== contract.loginid) return;
+            if (subscription.request.contract_id && Number(subscription.request.contract_id) !== contract.contract_id) {
+                return;
+            }
+
+            this.send(socket, subscription.request, 'proposal_open_contract', {
+                proposal_open_contract: this.toContractBody(contract),
+                subscription: { id: subscription.id },
+            });
+        });
+    }
+
+    private publishBalance(account: TFakeAccount): void {
+        this.forEachSubscription((socket, subscription, session) => {
+            if (subscription.type !== 'balance' || session.account?.loginid !== account.loginid) return;
+
+            this.send(socket, subscription.request, 'balance', {
+                balance: this.toBalanceBody(account),
+                subscription: { id: subscription.id },
+            });
+        });
+    }
+
+    private forEachSubscription(
+        callback: (socket: FakeDerivSocket, subscription: TSubscription, session: TSession) => void
+    ): void {
+        this.sessions.forEach((session, socket) => {
+            session.subscriptions.forEach(subscription => callback(socket, subscription, session));
+        });
+    }
+
+    private validateContract(parameters: TFakeRequest): TFakeDerivError | null {
+        if (parameters.contract_type === 'ACCU') {
+            return this.getTickSizeBarrier(parameters)
+                ? null
+                : { code: 'ContractCreationFailure', message: 'Growth rate is not offered.' };
+        }
+        if (needsDigitBarrier(parameters.contract_type) && parameters.barrier === undefined) {
+            return { code: 'ContractCreationFailure', message: 'Barrier is required.' };
+        }
+        if (this.getPrices(parameters).payout <= 0) {
+            return { code: 'ContractCreationFailure', message: 'Trading is not offered for this contract.' };
+        }
+        if ((parameters.duration_unit ?? 't') !== 't') {
+            return { code: 'OfferingsValidationError', message: 'Only tick durations are supported.' };
+        }
+        return null;
+    }
+
+    private createProposal(request: TFakeRequest): TFakeResponse {
+        const id = `fake-proposal-${this.nextId++}`;
+        const { ask_price, payout } = this.getPrices(request);
+        const symbol = request.symbol ?? request.underlying_symbol;
+        const latest = this.ticks.get(symbol)?.slice(-1)[0];
+
+        this.proposals.set(id, request);
+        return {
+            id,
+            ask_price,
+            display_value: ask_price.toFixed(2),
+            payout,
+            spot: latest?.quote,
+            spot_time: latest?.epoch,
+            date_start: this.getEpoch(symbol),
+            longcode: `Win payout if ${request.contract_type} wins on ${symbol} after ${request.duration} ticks.`,
+            ...(request.contract_type === 'ACCU' && {
+                contract_details: this.getAccumulatorDetails(this.getTickSizeBarrier(request)!, latest?.quote),
+            }),
+        };
+    }
+
+    private getTickSizeBarrier(parameters: TFakeRequest): number | undefined {
+        if (parameters.contract_type !== 'ACCU') return undefined;
+        return this.options.tickSizeBarriers[Number(parameters.growth_rate)];
+    }
+
+    private getAccumulatorDetails(tickSizeBarrier: number, spot?: number): TFakeResponse {
+        return {
+            tick_size_barrier: tickSizeBarrier,
+            tick_size_barrier_percentage: `${(tickSizeBarrier * 100).toFixed(5)}%`,
+            ...(spot !== undefined && {
+                high_barrier: (spot * (1 + tickSizeBarrier)).toFixed(this.options.pipSize + 1),
+                low_barrier: (spot * (1 - tickSizeBarrier)).toFixed(this.options.pipSize + 1),
+            }),
+        };
+    }
+
+    private getAccumulatorValue(contract: TFakeContract): number {
+        return roundMoney(contract.buy_price * Math.pow(1 + contract.growth_rate!, contract.ticks_after_entry));
+    }
+
+    private getPrices(parameters: TFakeRequest): { ask_price: number; payout: number } {
+        if (parameters.contract_type === 'ACCU') {
+            const amount = Number(parameters.amount ?? parameters.price ?? 0);
+            return { ask_price: amount, payout: amount };
+        }
+
+        const barrier = parameters.barrier === undefined ? undefined : Number(parameters.barrier);
+        const ratio = getPayoutRatio(parameters.contract_type, barrier, this.options.houseEdge);
+        const amount = Number(parameters.amount ?? parameters.price ?? 0);
+
+        return parameters.basis === 'payout'
+            ? { ask_price: roundMoney(amount / ratio), payout: amount }
+            : { ask_price: amount, payout: roundMoney(amount * ratio) };
+    }
+
+    private toTickBody(tick: TFakeTick): TFakeResponse {
+        return {
+            ask: tick.quote,
+            bid: tick.quote,
+            epoch: tick.epoch,
+            id: `${tick.symbol}-${tick.epoch}`,
+            pip_size: this.options.pipSize,
+            quote: tick.quote,
+            symbol: tick.symbol,
+        };
+    }
+
+    private toBalanceBody(account: TFakeAccount): TFakeResponse {
+        return { balance: account.balance, currency: account.currency, loginid: account.loginid };
+    }
+
+    private toContractBody(contract: TFakeContract): TFakeResponse {
+        const isSold = contract.status !== 'open';
+        const isAccumulator = contract.contract_type === 'ACCU';
+        const openValue = isAccumulator ? this.getAccumulatorValue(contract) : contract.buy_price;
+        return {
+            barrier: contract.barrier,
+            bid_price: isSold ? contract.sell_price : openValue,
+            buy_price: contract.buy_price,
+            contract_id: contract.contract_id,
+            contract_type: contract.contract_type,
+            current_spot: contract.current_spot,
+            current_spot_time: contract.current_spot_time,
+            date_start: contract.purchase_time,
+            entry_spot: contract.entry_spot,
+            entry_tick: contract.entry_spot,
+            entry_tick_time: contract.entry_tick_time,
+            exit_tick: contract.exit_spot,
+            exit_tick_time: contract.exit_tick_time,
+            is_expired: isSold ? 1 : 0,
+            is_settleable: isSold ? 1 : 0,
+            is_sold: isSold ? 1 : 0,
+            longcode: this.getLongcode(contract),
+            payout: contract.payout,
+            profit: contract.profit,
+            profit_percentage: roundMoney((contract.profit / contract.buy_price) * 100),
+            purchase_time: contract.purchase_time,
+            sell_price: contract.sell_price,
+            shortcode: this.getShortcode(contract),
+            status: contract.status,
+            tick_count: contract.duration,
+            transaction_ids: { buy: contract.buy_transaction_id, sell: contract.sell_transaction_id },
+            underlying: contract.symbol,
+            ...(isAccumulator && {
+                growth_rate: contract.growth_rate,
+                tick_passed: contract.ticks_after_entry,
+                ...this.getAccumulatorDetails(contract.tick_size_barrier!, contract.current_spot),
+            }),
+        };
+    }
+
+    private getLongcode(contract: TFakeContract): string {
+        const barrier = contract.barrier === undefined ? '' : ` (barrier ${contract.barrier})`;
+        return `Win payout if ${contract.contract_type}${barrier} wins on ${contract.symbol} after ${contract.duration} ticks.`;
+    }
+
+    private getShortcode(contract: TFakeContract): string {
+        return [
+            contract.contract_type,
+            contract.symbol,
+            contract.payout,
+            contract.purchase_time,
+            `${contract.duration}T`,
+            contract.barrier ?? 'S0P',
+            0,
+        ].join('_');
+    }
+
+    private getEpoch(symbol: string): number {
+        return this.ticks.get(symbol)?.slice(-1)[0]?.epoch ?? this.options.startEpoch;
+    }
+
+    private getRequestType(request: TFakeRequest): string {
+        const keys = Object.keys(request);
+        return (
+            keys.find(key => this.handlers.has(key) || BUILT_IN_TYPES.includes(key)) ??
+            keys.find(key => !['req_id', 'subscribe', 'passthrough'].includes(key)) ??
+            'unknown'
+        );
+    }
+
+    private createSubscriptionId(): string {
+        return `fake-subscription-${this.nextId++}`;
+    }
+
+    private send(socket: FakeDerivSocket, request: TFakeRequest, msgType: string, body: TFakeResponse): void {
+        const message = {
+            echo_req: request,
+            msg_type: msgType,
+            ...(request.req_id !== undefined && { req_id: request.req_id }),
+            ...body,
+        };
+        this.deliverLater(() => socket.deliver(JSON.stringify(message)));
+    }
+
+    private deliverLater(callback: () => void): void {
+        this.pendingDeliveries++;
+        Promise.resolve().then(() => {
+            this.pendingDeliveries--;
+            callback();
+        });
+    }
+}
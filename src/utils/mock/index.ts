@@ -1 +1,2 @@
+export { FakeDerivServer, FakeDerivSocket } from './fake-deriv-server';
 export { mock_ws } from './ws-mock';
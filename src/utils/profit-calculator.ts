@@ -4,6 +4,8 @@
  * Reduces API calls and improves performance
  */
 
+import { symbolMetadataService } from '../services/symbol-metadata.service';
+
 export interface ContractDetails {
     contractType: string;
     stake: number;
@@ -12,6 +14,7 @@ export interface ContractDetails {
     duration: number;
     defaultDigit?: number;
     payout?: number;
+    symbol?: string; // Market of the contract, for its pip size; unknown markets use the quote's decimals
 }
 
 export interface ProfitResult {
@@ -26,11 +29,11 @@ export interface ProfitResult {
  * Calculate profit/loss for digit contracts manually
  */
 export function calculateDigitProfit(details: ContractDetails): ProfitResult {
-    const { contractType, stake, entrySpot, exitSpot, defaultDigit = 0 } = details;
+    const { contractType, stake, entrySpot, exitSpot, defaultDigit = 0, symbol = '' } = details;
 
-    // Extract last digit from exit spot (Deriv method)
-    // For price 123.458, the last digit is 8 (from the last decimal place)
-    const exitDigit = Math.floor((exitSpot * 1000) % 10);
+    // Extract last digit from exit spot at the market's pip size (Deriv method)
+    // For price 123.458 on a 3-decimal market, the last digit is 8
+    const exitDigit = symbolMetadataService.getLastDigit(exitSpot, symbol);
 
     let isWin = false;
 
@@ -134,6 +137,44 @@ export function calculateRiseFallProfit(details: ContractDetails): ProfitResult
     };
 }
 
+export interface SettledContract {
+    profit: number;
+    outcome: 'win' | 'loss';
+    buyPrice: number;
+    sellPrice: number;
+    exitSpot?: number;
+    exitDigit?: number;
+}
+
+/**
+ * Read the result Deriv settled for a contract from a proposal_open_contract update
+ * Returns null while the contract is still open, so callers can keep their local estimate
+ */
+export function readSettledContract(contract: Record<string, unknown>): SettledContract | null {
+    const isSold = contract.is_sold === 1 || contract.is_sold === true;
+    const hasFinalStatus = contract.status === 'won' || contract.status === 'lost' || contract.status === 'sold';
+    if (!isSold && !hasFinalStatus) return null;
+
+    const buyPrice = Number(contract.buy_price) || 0;
+    const sellPrice = Number(contract.sell_price) || 0;
+    const profit =
+        contract.profit !== undefined && contract.profit !== null ? Number(contract.profit) : sellPrice - buyPrice;
+    const exitSpot = Number(contract.exit_tick ?? contract.exit_spot) || undefined;
+
+    // The display value keeps the market's pip size, so its last character is the settled digit
+    const display = contract.exit_tick_display_value;
+    const exitDigit = typeof display === 'string' && /\d$/.test(display) ? Number(display.slice(-1)) : undefined;
+
+    return {
+        profit: Math.round(profit * 100) / 100,
+        outcome: profit > 0 ? 'win' : 'loss',
+        buyPrice,
+        sellPrice,
+        exitSpot,
+        exitDigit,
+    };
+}
+
 /**
  * Get payout multiplier based on contract type
  * These are typical Deriv payout rates
@@ -0,0 +1,384 @@
+import { TContractInfo } from '@/components/summary/summary-card.types';
+import { transaction_elements } from '@/constants/transactions';
+
+/**
+ * Session export / import
+ * Escaped CSV and JSON for TransactionsStore and JournalStore data, and the reader that loads an
+ * exported session back for review. CSV headers are fixed keys rather than translated labels so
+ * files stay importable whatever the language they were exported in.
+ */
+
+export const SESSION_EXPORT_VERSION = 1;
+
+export type TSessionFormat = 'csv' | 'json';
+
+export type TSessionTransaction = {
+    run_id: string;
+    contract_id: string;
+    buy_transaction_id: string;
+    sell_transaction_id: string;
+    market: string;
+    underlying: string;
+    contract_type: string;
+    barrier: string;
+    duration: string;
+    duration_unit: string;
+    date_start: string;
+    entry_spot: string;
+    entry_spot_time: string;
+    exit_spot: string;
+    exit_spot_time: string;
+    buy_price: number;
+    sell_price: number;
+    payout: number;
+    profit: number;
+    currency: string;
+    is_completed: boolean;
+};
+
+export type TSessionJournalEntry = {
+    date: string;
+    time: string;
+    message_type: string;
+    message: string;
+};
+
+export type TSessionStatistics = {
+    lost_contracts: number;
+    number_of_runs: number;
+    total_payout: number;
+    total_profit: number;
+    total_stake: number;
+    won_contracts: number;
+};
+
+export type TSessionExport = {
+    version: number;
+    exported_at: string;
+    run_id: string;
+    account: string;
+    transactions: TSessionTransaction[];
+    journal: TSessionJournalEntry[];
+    statistics: TSessionStatistics;
+};
+
+export type TTransactionElement = {
+    type: string;
+    data?: string | TContractInfo;
+};
+
+type TCsvValue = string | number | boolean | null | undefined;
+
+type TSessionImportResult = {
+    success: boolean;
+    session?: TSessionExport;
+    error?: string;
+};
+
+export const TRANSACTION_CSV_COLUMNS: (keyof TSessionTransaction)[] = [
+    'run_id',
+    'contract_id',
+    'buy_transaction_id',
+    'sell_transaction_id',
+    'market',
+    'underlying',
+    'contract_type',
+    'barrier',
+    'duration',
+    'duration_unit',
+    'date_start',
+    'entry_spot',
+    'entry_spot_time',
+    'exit_spot',
+    'exit_spot_time',
+    'buy_price',
+    'sell_price',
+    'payout',
+    'profit',
+    'currency',
+    'is_completed',
+];
+
+export const JOURNAL_CSV_COLUMNS: (keyof TSessionJournalEntry)[] = ['date', 'time', 'message_type', 'message'];
+
+const NUMERIC_TRANSACTION_COLUMNS = ['buy_price', 'sell_price', 'payout', 'profit'];
+
+/**
+ * Quote a CSV field when it holds a delimiter, quote or line break (RFC 4180)
+ */
+export const escapeCsvValue = (value: TCsvValue) => {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: TCsvValue[][]) => rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+/**
+ * Parse RFC 4180 CSV, including quoted fields with commas, quotes and line breaks
+ */
+export const parseCsv = (content: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let in_quotes = false;
+    const text = content.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (in_quotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                in_quotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            in_quotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(cells => cells.some(cell => cell !== ''));
+};
+
+/**
+ * Summary statistics of completed contracts, as shown in the run panel
+ */
+export const getTransactionStatistics = (elements: TTransactionElement[]): TSessionStatistics => {
+    const contracts = elements.filter(
+        element => element.type === transaction_elements.CONTRACT && typeof element.data === 'object'
+    );
+
+    return contracts.reduce(
+        (stats, { data }) => {
+            const { profit = 0, is_completed = false, buy_price = 0, payout, bid_price } = data as TContractInfo;
+            if (is_completed) {
+                if (profit > 0) {
+                    stats.won_contracts += 1;
+                    stats.total_payout += payout ?? bid_price ?? 0;
+                } else {
+                    stats.lost_contracts += 1;
+                }
+                stats.total_profit += profit;
+                stats.total_stake += buy_price;
+                stats.number_of_runs += 1;
+            }
+            return stats;
+        },
+        {
+            lost_contracts: 0,
+            number_of_runs: 0,
+            total_profit: 0,
+            total_payout: 0,
+            total_stake: 0,
+            won_contracts: 0,
+        }
+    );
+};
+
+/**
+ * Flatten the contract elements of TransactionsStore into export rows
+ */
+export const toSessionTransactions = (elements: TTransactionElement[]): TSessionTransaction[] =>
+    elements
+        .filter(element => element.type === transaction_elements.CONTRACT && typeof element.data === 'object')
+        .map(({ data }) => {
+            const contract = data as TContractInfo;
+            const [duration, duration_unit] = getDuration(contract);
+
+            return {
+                run_id: contract.run_id ?? '',
+                contract_id: String(contract.contract_id ?? ''),
+                buy_transaction_id: String(contract.transaction_ids?.buy ?? ''),
+                sell_transaction_id: String(contract.transaction_ids?.sell ?? ''),
+                market: contract.display_name ?? '',
+                underlying: contract.underlying ?? '',
+                contract_type: contract.contract_type ?? '',
+                barrier: contract.barrier ?? '',
+                duration,
+                duration_unit,
+                date_start: String(contract.date_start ?? ''),
+                entry_spot: String(contract.entry_tick ?? ''),
+                entry_spot_time: String(contract.entry_tick_time ?? ''),
+                exit_spot: String(contract.exit_tick ?? ''),
+                exit_spot_time: String(contract.exit_tick_time ?? ''),
+                buy_price: contract.buy_price ?? 0,
+                sell_price: contract.sell_price ?? 0,
+                payout: contract.payout ?? 0,
+                profit: contract.profit ?? 0,
+                currency: contract.currency ?? '',
+                is_completed: !!contract.is_completed,
+            };
+        });
+
+/**
+ * Rebuild TransactionsStore-shaped elements from export rows, with a divider between runs
+ */
+export const toTransactionElements = (transactions: TSessionTransaction[]): TTransactionElement[] =>
+    transactions.reduce<TTransactionElement[]>((elements, transaction, index) => {
+        const previous = transactions[index - 1];
+        if (previous && previous.run_id !== transaction.run_id) {
+            elements.push({ type: transaction_elements.DIVIDER, data: previous.run_id });
+        }
+
+        const buy = Number(transaction.buy_transaction_id);
+        const sell = Number(transaction.sell_transaction_id);
+        elements.push({
+            type: transaction_elements.CONTRACT,
+            data: {
+                run_id: transaction.run_id,
+                contract_id: Number(transaction.contract_id) || undefined,
+                transaction_ids: { buy, ...(sell ? { sell } : {}) },
+                display_name: transaction.market,
+                underlying: transaction.underlying,
+                contract_type: transaction.contract_type,
+                barrier: transaction.barrier,
+                date_start: transaction.date_start,
+                entry_tick: transaction.entry_spot,
+                entry_tick_time: transaction.entry_spot_time,
+                exit_tick: transaction.exit_spot,
+                exit_tick_time: transaction.exit_spot_time,
+                buy_price: transaction.buy_price,
+                sell_price: transaction.sell_price,
+                payout: transaction.payout,
+                profit: transaction.profit,
+                currency: transaction.currency,
+                is_completed: transaction.is_completed,
+            } as TContractInfo,
+        });
+        return elements;
+    }, []);
+
+export const createSessionExport = ({
+    run_id,
+    account,
+    transactions,
+    journal,
+}: {
+    run_id: string;
+    account: string;
+    transactions: TTransactionElement[];
+    journal: TSessionJournalEntry[];
+}): TSessionExport => ({
+    version: SESSION_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    run_id,
+    account,
+    transactions: toSessionTransactions(transactions),
+    journal,
+    statistics: getTransactionStatistics(transactions),
+});
+
+export const transactionsToCsv = (transactions: TSessionTransaction[]) =>
+    toCsv([
+        TRANSACTION_CSV_COLUMNS,
+        ...transactions.map(transaction => TRANSACTION_CSV_COLUMNS.map(column => transaction[column])),
+    ]);
+
+export const journalToCsv = (journal: TSessionJournalEntry[]) =>
+    toCsv([JOURNAL_CSV_COLUMNS, ...journal.map(entry => JOURNAL_CSV_COLUMNS.map(column => entry[column]))]);
+
+/**
+ * Read a session exported as JSON, or a transactions / journal CSV
+ */
+export const parseSessionFile = (content: string, file_name = ''): TSessionImportResult => {
+    try {
+        const is_json = file_name.toLowerCase().endsWith('.json') || /^\s*\{/.test(content);
+        const session = is_json ? parseSessionJson(content) : parseSessionCsv(content);
+        return { success: true, session };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+};
+
+/** Private helpers */
+
+const getDuration = (contract: TContractInfo): [string, string] => {
+    if (contract.tick_count) return [String(contract.tick_count), 't'];
+    if (contract.date_expiry && contract.purchase_time) {
+        return [String(contract.date_expiry - contract.purchase_time), 's'];
+    }
+    return ['', ''];
+};
+
+const parseSessionJson = (content: string): TSessionExport => {
+    const parsed = JSON.parse(content);
+    if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.transactions)) {
+        throw new Error('Not a session export: transactions are missing');
+    }
+    if (parsed.version > SESSION_EXPORT_VERSION) {
+        throw new Error(`Session export version ${parsed.version} is newer than this app supports`);
+    }
+
+    const transactions = (parsed.transactions as Record<string, unknown>[]).map(normaliseTransaction);
+    return {
+        version: parsed.version ?? SESSION_EXPORT_VERSION,
+        exported_at: parsed.exported_at ?? '',
+        run_id: parsed.run_id ?? '',
+        account: parsed.account ?? '',
+        transactions,
+        journal: Array.isArray(parsed.journal) ? parsed.journal.map(normaliseJournalEntry) : [],
+        statistics: getTransactionStatistics(toTransactionElements(transactions)),
+    };
+};
+
+const parseSessionCsv = (content: string): TSessionExport => {
+    const [header = [], ...rows] = parseCsv(content);
+    const records = rows.map(row => Object.fromEntries(header.map((column, index) => [column, row[index] ?? ''])));
+    const has = (columns: string[]) => columns.every(column => header.includes(column));
+
+    let transactions: TSessionTransaction[] = [];
+    let journal: TSessionJournalEntry[] = [];
+    if (has(['contract_id', 'buy_transaction_id', 'profit'])) {
+        transactions = records.map(normaliseTransaction);
+    } else if (has(JOURNAL_CSV_COLUMNS)) {
+        journal = records.map(normaliseJournalEntry);
+    } else {
+        throw new Error('Unrecognised CSV: expected a transactions or journal export');
+    }
+
+    return {
+        version: SESSION_EXPORT_VERSION,
+        exported_at: '',
+        run_id: transactions[0]?.run_id ?? '',
+        account: '',
+        transactions,
+        journal,
+        statistics: getTransactionStatistics(toTransactionElements(transactions)),
+    };
+};
+
+const normaliseTransaction = (record: Record<string, unknown>): TSessionTransaction =>
+    Object.fromEntries(
+        TRANSACTION_CSV_COLUMNS.map(column => {
+            const value = record[column];
+            if (column === 'is_completed') return [column, value === true || value === 'true'];
+            if (NUMERIC_TRANSACTION_COLUMNS.includes(column)) return [column, Number(value) || 0];
+            return [column, value === undefined || value === null ? '' : String(value)];
+        })
+    ) as TSessionTransaction;
+
+const normaliseJournalEntry = (record: Record<string, unknown>): TSessionJournalEntry => ({
+    date: String(record.date ?? ''),
+    time: String(record.time ?? ''),
+    message_type: String(record.message_type ?? ''),
+    message: String(record.message ?? ''),
+});
@@ -3,6 +3,7 @@
  * Creates and dispatches trade signals based on probability predictions
  */
 
+import { appEventBus } from '../services/app-event-bus.service';
 import { ProbabilityPrediction } from './probability-calculator';
 
 export interface TradeSignal {
@@ -54,21 +55,15 @@ export function createTradeSignal(
 }
 
 /**
- * Dispatch trade signal via custom event
- * Dispatches a 'zeus.trade.signal' event to the window object
+ * Dispatch trade signal via the app event bus
+ * Publishes a 'zeus.trade.signal' event on the app event bus
  * 
  * @param signal - Trade signal to dispatch
  * @returns True if dispatch was successful, false otherwise
  */
 export function dispatchTradeSignal(signal: TradeSignal): boolean {
     try {
-        const event = new CustomEvent('zeus.trade.signal', {
-            detail: signal,
-            bubbles: true,
-            cancelable: true
-        });
-        
-        window.dispatchEvent(event);
+        appEventBus.publish('zeus.trade.signal', signal, 'TradeSignalGenerator');
         return true;
     } catch (error) {
         console.error('Failed to dispatch trade signal:', error);
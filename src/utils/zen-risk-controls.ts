@@ -0,0 +1,101 @@
+/**
+ * Zen Risk Controls
+ * Tick-based measurements behind the advanced Zen options: volatility scaling,
+ * cross-market correlation, drawdown and proposal slippage
+ */
+
+const MIN_VOLATILITY_TICKS = 40;
+const RECENT_VOLATILITY_TICKS = 20;
+const MIN_CORRELATION_SAMPLES = 20;
+
+/**
+ * Tick-to-tick relative returns
+ */
+export function tickReturns(ticks: number[]): number[] {
+    const returns: number[] = [];
+    for (let i = 1; i < ticks.length; i++) {
+        if (ticks[i - 1] !== 0) {
+            returns.push((ticks[i] - ticks[i - 1]) / ticks[i - 1]);
+        }
+    }
+    return returns;
+}
+
+function standardDeviation(values: number[]): number {
+    if (values.length === 0) return 0;
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length);
+}
+
+/**
+ * Stake factor from recent vs. baseline volatility, clamped to 0.5-1.5
+ * Calmer than usual scales the stake up, choppier than usual scales it down
+ */
+export function calculateVolatilityFactor(ticks: number[]): number {
+    if (ticks.length < MIN_VOLATILITY_TICKS) return 1;
+
+    const baseline = standardDeviation(tickReturns(ticks));
+    const recent = standardDeviation(tickReturns(ticks.slice(-RECENT_VOLATILITY_TICKS)));
+    if (baseline === 0 || recent === 0) return 1;
+
+    return Math.max(0.5, Math.min(1.5, baseline / recent));
+}
+
+/**
+ * Pearson correlation of the two markets' latest tick returns, or null without enough overlap
+ */
+export function calculateCorrelation(ticksA: number[], ticksB: number[]): number | null {
+    const length = Math.min(ticksA.length, ticksB.length);
+    const a = tickReturns(ticksA.slice(-length));
+    const b = tickReturns(ticksB.slice(-length));
+    if (a.length < MIN_CORRELATION_SAMPLES || a.length !== b.length) return null;
+
+    const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+    const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+        covariance += (a[i] - meanA) * (b[i] - meanB);
+        varianceA += Math.pow(a[i] - meanA, 2);
+        varianceB += Math.pow(b[i] - meanB, 2);
+    }
+
+    if (varianceA === 0 || varianceB === 0) return 0;
+    return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+/**
+ * Drop from the session's peak P&L as a percentage of the capital at that peak
+ */
+export function calculateDrawdownPercent(peakProfit: number, currentProfit: number, capital: number): number {
+    const peakEquity = capital + peakProfit;
+    if (peakEquity <= 0) return 100;
+    return Math.max(0, ((peakProfit - currentProfit) / peakEquity) * 100);
+}
+
+/**
+ * Why a proposal moved too far from what the trade expects, or null if it is acceptable
+ * With stake-basis proposals a price move shows up as a higher ask or a lower payout per unit staked
+ */
+export function checkProposalSlippage(
+    proposal: { askPrice: number; payout: number },
+    expected: { stake: number; payoutRatio?: number },
+    maxSlippagePercent: number
+): string | null {
+    const askMove = ((proposal.askPrice - expected.stake) / expected.stake) * 100;
+    if (askMove > maxSlippagePercent) {
+        return `Ask price ${proposal.askPrice} is ${askMove.toFixed(2)}% above the stake`;
+    }
+
+    if (expected.payoutRatio && proposal.askPrice > 0) {
+        const ratio = proposal.payout / proposal.askPrice;
+        const payoutMove = ((expected.payoutRatio - ratio) / expected.payoutRatio) * 100;
+        if (payoutMove > maxSlippagePercent) {
+            return `Payout dropped ${payoutMove.toFixed(2)}% since the last accepted proposal`;
+        }
+    }
+
+    return null;
+}